@@ -1,11 +1,14 @@
 ﻿"use server";
 
-import { createClient } from "@/lib/supabase/server";
-import type { RestaurantCard, Intent, DishMatch, MenuPayload, TagInfo } from "@/lib/types/discover";
+import { getCatalog, type CatalogModifierGroup, type CatalogRestaurant, type CatalogTag } from "@/lib/catalog";
+import type { RestaurantCard, Intent, DishMatch, MenuPayload, TagInfo, AllergenCheck, CurrencyCode } from "@/lib/types/discover";
 import { generateEmbedding } from "@/lib/embeddings";
 import { hybridSearchDishes, hybridToFlatRows } from "@/lib/discover/hybrid-search";
 import { isGenericFoodQuery } from "@/lib/discover/planner";
-import OpenAI from "openai";
+import { getLLMProvider, type LLMProvider } from "@/lib/llm";
+import { allergensFromIntent, screenDishes, stripAllergenPhrases } from "@/lib/discover/allergens";
+import { applySoldOutPolicy, isSoldOut, resolveSoldOutPolicy } from "@/lib/discover/availability";
+import { intentBudget, money, toCurrencyCode } from "@/lib/discover/money";
 
 // Post-filter stopwords: these words should not be required to match in dish names/descriptions
 const POSTFILTER_STOPWORDS = new Set([
@@ -131,11 +134,23 @@ interface FlatSearchRow {
   dish_price: number;
   similarity_score: number;
   section_name?: string | null; // Optional - may not be in all RPCs
+  is_available?: boolean; // Hydrated with section_name
+  is_orderable?: boolean; // Hydrated with section_name
   tags?: TagInfo[]; // Hydrated tags
+  allergen_check?: AllergenCheck; // Set when the intent avoids allergens
 }
 
 type RpcResult<T> = { data: T | null; error: unknown };
 
+/** A catalog search as { data, error }, so a failed search is logged and skipped like an RPC error */
+async function settle<T>(search: Promise<T>): Promise<RpcResult<T>> {
+  try {
+    return { data: await search, error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : error };
+  }
+}
+
 /**
  * Get public menu data for a restaurant, grouped by sections
  * 
@@ -144,34 +159,27 @@ type RpcResult<T> = { data: T | null; error: unknown };
  */
 export async function getPublicMenu(restaurantId: string): Promise<MenuPayload | null> {
   try {
-    const supabase = await createClient();
+    const catalog = getCatalog();
 
     // Get restaurant info
-    type RestaurantRow = { id: string; name: string; city: string | null };
-    const { data: restaurant } = (await supabase
-      .from("restaurants")
-      .select("id, name, city")
-      .eq("id", restaurantId)
-      .eq("public_searchable", true)
-      .single()) as { data: RestaurantRow | null };
+    const restaurant = await catalog.getRestaurant(restaurantId, { publicOnly: true });
 
     if (!restaurant) {
       console.log("[getPublicMenu] Restaurant not found or not public:", restaurantId);
       return null;
     }
+    const currency = toCurrencyCode(restaurant.currency);
 
     // Get menus for this restaurant
-    const { data: menus } = (await supabase
-      .from("menus")
-      .select("id")
-      .eq("restaurant_id", restaurantId)) as { data: { id: string }[] | null };
+    const menus = await catalog.getMenus(restaurantId);
 
-    if (!menus || menus.length === 0) {
+    if (menus.length === 0) {
       console.log("[getPublicMenu] No menus found for restaurant:", restaurantId);
       return {
         restaurantId: restaurant.id,
         restaurantName: restaurant.name,
         city: restaurant.city,
+        currency,
         sections: [],
       };
     }
@@ -179,75 +187,32 @@ export async function getPublicMenu(restaurantId: string): Promise<MenuPayload |
     const menuIds = menus.map((m) => m.id);
 
     // Get sections for all menus, ordered by display_order
-    // Note: sections table has RLS disabled, so this should work
-    const { data: sections, error: sectionsError } = (await supabase
-      .from("sections")
-      .select("id, name, display_order, menu_id")
-      .in("menu_id", menuIds)
-      .order("display_order", { ascending: true })
-      .order("created_at", { ascending: true })) as {
-        data: { id: string; name: string; display_order: number; menu_id: string }[] | null;
-        error: unknown;
-      };
-
-    if (sectionsError) {
+    const sections = await catalog.getSections(menuIds).catch((sectionsError) => {
       console.error("[getPublicMenu] Error fetching sections:", sectionsError);
       // Continue without sections - dishes will go into "Other" section
-    }
+      return null;
+    });
 
     // Get all public dishes for these menus
-    const { data: dishes } = (await supabase
-      .from("dishes")
-      .select("id, name, description, price, section_id, menu_id")
-      .in("menu_id", menuIds)
-      .eq("public", true)
-      .order("created_at", { ascending: true })) as {
-        data: {
-          id: string;
-          name: string;
-          description: string | null;
-          price: number;
-          section_id: string | null;
-          menu_id: string;
-        }[] | null;
-      };
+    const dishes = await catalog.getDishes({ menuIds, publicOnly: true }).catch(() => null);
 
     // Fetch tags for all dishes - include slug and type for UI categorization
     const dishIds = dishes?.map((d) => d.id) || [];
-    type TagInfo = { id: string; name: string; slug: string; type: 'diet' | 'allergen' | 'religious' };
-    let dishTagsMap = new Map<string, TagInfo[]>();
-
-    if (dishIds.length > 0) {
-      // Fetch dish_tags with tags joined - include slug and type
-      const { data: dishTagsData } = (await supabase
-        .from("dish_tags")
-        .select("dish_id, tag_id, tags(id, name, slug, type)")
-        .in("dish_id", dishIds)) as {
-          data: { dish_id: string; tag_id: string; tags: { id: string; name: string; slug: string; type: string } | null }[] | null;
-        };
+    const dishTagsMap = dishIds.length > 0
+      ? await catalog.getDishTags(dishIds).catch(() => new Map<string, CatalogTag[]>())
+      : new Map<string, CatalogTag[]>();
 
-      if (dishTagsData) {
-        for (const dt of dishTagsData) {
-          if (dt.tags) {
-            if (!dishTagsMap.has(dt.dish_id)) {
-              dishTagsMap.set(dt.dish_id, []);
-            }
-            dishTagsMap.get(dt.dish_id)!.push({
-              id: dt.tags.id,
-              name: dt.tags.name,
-              slug: dt.tags.slug || '',
-              type: (dt.tags.type as 'diet' | 'allergen' | 'religious') || 'diet',
-            });
-          }
-        }
-      }
-    }
+    // Option groups per dish (spice level, extras) with option-level tags
+    const dishModifiersMap = dishIds.length > 0
+      ? await catalog.getDishModifiers(dishIds).catch(() => new Map<string, CatalogModifierGroup[]>())
+      : new Map<string, CatalogModifierGroup[]>();
 
     if (!dishes) {
       return {
         restaurantId: restaurant.id,
         restaurantName: restaurant.name,
         city: restaurant.city,
+        currency,
         sections: [],
       };
     }
@@ -273,7 +238,11 @@ export async function getPublicMenu(restaurantId: string): Promise<MenuPayload |
         name: dish.name,
         description: dish.description,
         price: dish.price,
+        price_money: money(dish.price, currency),
         tags: dishTags.length > 0 ? dishTags : undefined,
+        is_available: dish.is_available,
+        is_orderable: dish.is_orderable,
+        modifiers: dishModifiersMap.get(dish.id),
       };
 
       if (dish.section_id && sectionsMap.has(dish.section_id)) {
@@ -310,7 +279,11 @@ export async function getPublicMenu(restaurantId: string): Promise<MenuPayload |
             name: dish.name,
             description: dish.description,
             price: dish.price,
+            price_money: money(dish.price, currency),
             tags: dishTags.length > 0 ? dishTags : undefined,
+            is_available: dish.is_available,
+            is_orderable: dish.is_orderable,
+            modifiers: dishModifiersMap.get(dish.id),
           };
         }),
       }];
@@ -328,6 +301,7 @@ export async function getPublicMenu(restaurantId: string): Promise<MenuPayload |
       restaurantId: restaurant.id,
       restaurantName: restaurant.name,
       city: restaurant.city,
+      currency,
       sections: sectionsArray,
     };
   } catch (error) {
@@ -345,7 +319,7 @@ export async function getPublicMenu(restaurantId: string): Promise<MenuPayload |
  */
 export async function searchRestaurantsAndDishes(
   intent: Intent,
-  opts?: { openai?: OpenAI }
+  opts?: { llm?: LLMProvider }
 ): Promise<RestaurantCard[]> {
   // 1. Normalize and extract query
   let cleanedQuery = intent.dish_query ? normalizeQuery(intent.dish_query) : null;
@@ -355,6 +329,12 @@ export async function searchRestaurantsAndDishes(
     cleanedQuery = normalizeQuery(intent.ingredients.join(" "));
   }
 
+  // Allergens are exclusions, never search terms ("curry without nuts" -> "curry")
+  const avoidedAllergens = allergensFromIntent(intent);
+  if (cleanedQuery && avoidedAllergens.length > 0) {
+    cleanedQuery = stripAllergenPhrases(cleanedQuery) || null;
+  }
+
   // 2. Extract city (with safety net for "in Gothenburg" pattern)
   let targetCity = intent.city;
 
@@ -377,14 +357,10 @@ export async function searchRestaurantsAndDishes(
   });
 
   try {
-    console.log("[searchRestaurantsAndDishes] Creating Supabase client...");
-    const supabase = await createClient();
-    console.log("[searchRestaurantsAndDishes] Supabase client created successfully");
+    const catalog = getCatalog();
 
-    // Initialize OpenAI client (used for hybrid search translation)
-    const openai = opts?.openai || new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || "",
-    });
+    // LLM provider (used for hybrid search translation)
+    const llm = opts?.llm || getLLMProvider();
 
     // 4. Find dietary tag IDs from intent.dietary and intent.hard_tags
     // Also build list of matched dietary keywords to remove from search query
@@ -405,13 +381,7 @@ export async function searchRestaurantsAndDishes(
       }
 
       // Fetch tag IDs (dedupe)
-      const orClauses = variants.map((v) => `name.ilike.%${v}%`).join(",");
-      type TagRow = { id: string; name?: string };
-      const { data: matchingTags } = (await supabase
-        .from("tags")
-        .select("id, name")
-        .or(orClauses)) as { data: TagRow[] | null };
-
+      const matchingTags = await catalog.findTags({ nameContains: variants }).catch(() => null);
 
       if (matchingTags) {
         for (const tag of matchingTags) {
@@ -500,22 +470,16 @@ export async function searchRestaurantsAndDishes(
       matchedDietaryKeywords: matchedDietaryKeywords,
     });
 
-    // 5. Prepare service_filters (future-proof: null if empty object)
-    const serviceFilters = null; // Currently always null, but ready for future use
-    const service_filters =
-      serviceFilters && Object.keys(serviceFilters).length > 0 ? serviceFilters : null;
-
-    // 6. Centralize RPC base parameters
-    const rpcBase = {
-      target_city: targetCity || null,
-      dietary_tag_ids: requiredTagIds.length > 0 ? requiredTagIds : null,
-      service_filters,
-      limit_count: 50,
+    // 5-6. Centralize search options (service filters are not applied yet)
+    const searchOpts = {
+      city: targetCity || null,
+      tagIds: requiredTagIds.length > 0 ? requiredTagIds : null,
+      limit: 50,
     };
 
     console.log("[searchRestaurantsAndDishes] Starting hybrid search:", {
       dish_query: cleanedQuery,
-      targetCity: rpcBase.target_city,
+      targetCity: searchOpts.city,
       dietaryTagIds: requiredTagIds,
     });
 
@@ -535,10 +499,7 @@ export async function searchRestaurantsAndDishes(
       );
 
       const { data: tagOnlyData, error: tagOnlyError } =
-        ((await supabase.rpc("search_public_dishes_by_tags", {
-          ...rpcBase,
-          dietary_tag_ids: requiredTagIds, // guaranteed non-empty here
-        })) as RpcResult<FlatSearchRow[]>);
+        await settle(catalog.searchDishesByTags(requiredTagIds, searchOpts)); // guaranteed non-empty here
 
       if (tagOnlyError) {
         console.error(
@@ -562,15 +523,12 @@ export async function searchRestaurantsAndDishes(
         {
           search_text: dishSearchText,
           dietary_tag_ids: requiredTagIds,
-          target_city: rpcBase.target_city,
+          target_city: searchOpts.city,
         }
       );
 
       const { data: fuzzyData, error: fuzzyError } =
-        ((await supabase.rpc("search_public_dishes_fuzzy", {
-          ...rpcBase,
-          search_text: dishSearchText,
-        })) as RpcResult<FlatSearchRow[]>);
+        await settle(catalog.searchDishesFuzzy(dishSearchText, searchOpts));
 
       if (fuzzyError) {
         console.error("[searchRestaurantsAndDishes] Fuzzy RPC error (with tags):", JSON.stringify(fuzzyError, null, 2));
@@ -593,10 +551,11 @@ export async function searchRestaurantsAndDishes(
         try {
           const hybridCandidates = await hybridSearchDishes({
             query: dishSearchText,
-            city: rpcBase.target_city,
-            dietaryTagIds: rpcBase.dietary_tag_ids || undefined,
-            supabase,
-            openai,
+            city: searchOpts.city,
+            dietaryTagIds: searchOpts.tagIds || undefined,
+            catalog,
+            llm,
+            budget: intentBudget(intent),
           });
 
           // Convert to FlatSearchRow format for downstream compatibility
@@ -614,22 +573,19 @@ export async function searchRestaurantsAndDishes(
       if (flatRows.length === 0) {
         // Try semantic search first (primary search)
         try {
-          const queryEmbedding = await generateEmbedding(dishSearchText);
+          const queryEmbedding = await generateEmbedding(dishSearchText, llm);
           rpcUsed = "search_public_dishes_semantic";
           console.log(
             "[searchRestaurantsAndDishes] dishSearchText is non-empty; trying semantic search first:",
             {
               search_text: dishSearchText,
-              dietary_tag_ids: rpcBase.dietary_tag_ids,
-              target_city: rpcBase.target_city,
+              dietary_tag_ids: searchOpts.tagIds,
+              target_city: searchOpts.city,
             }
           );
 
           const { data: semanticData, error: semanticError } =
-            ((await supabase.rpc("search_public_dishes_semantic", {
-              ...rpcBase,
-              query_embedding: queryEmbedding,
-            })) as RpcResult<FlatSearchRow[]>);
+            await settle(catalog.searchDishesSemantic(queryEmbedding, searchOpts));
 
           if (semanticError) {
             console.warn("[searchRestaurantsAndDishes] Semantic RPC error:", JSON.stringify(semanticError, null, 2));
@@ -641,10 +597,7 @@ export async function searchRestaurantsAndDishes(
             if (semanticData.length < 3) {
               console.log("[searchRestaurantsAndDishes] Semantic results < 3, trying trigram fallback...");
               const { data: fuzzyData, error: fuzzyError } =
-                ((await supabase.rpc("search_public_dishes_fuzzy", {
-                  ...rpcBase,
-                  search_text: dishSearchText,
-                })) as RpcResult<FlatSearchRow[]>);
+                await settle(catalog.searchDishesFuzzy(dishSearchText, searchOpts));
 
               if (!fuzzyError && fuzzyData && fuzzyData.length > 0) {
                 // Merge results, deduplicate by dish_id (keep semantic results first)
@@ -659,10 +612,7 @@ export async function searchRestaurantsAndDishes(
             // Semantic returned 0 results, try trigram fallback
             console.log("[searchRestaurantsAndDishes] Semantic search returned 0 results, trying trigram fallback...");
             const { data: fuzzyData, error: fuzzyError } =
-              ((await supabase.rpc("search_public_dishes_fuzzy", {
-                ...rpcBase,
-                search_text: dishSearchText,
-              })) as RpcResult<FlatSearchRow[]>);
+              await settle(catalog.searchDishesFuzzy(dishSearchText, searchOpts));
 
             if (fuzzyError) {
               console.error("[searchRestaurantsAndDishes] Fuzzy RPC error:", JSON.stringify(fuzzyError, null, 2));
@@ -679,10 +629,7 @@ export async function searchRestaurantsAndDishes(
           rpcUsed = "search_public_dishes_fuzzy (embedding failed)";
 
           const { data: fuzzyData, error: fuzzyError } =
-            ((await supabase.rpc("search_public_dishes_fuzzy", {
-              ...rpcBase,
-              search_text: dishSearchText,
-            })) as RpcResult<FlatSearchRow[]>);
+            await settle(catalog.searchDishesFuzzy(dishSearchText, searchOpts));
 
           if (fuzzyError) {
             console.error("[searchRestaurantsAndDishes] Fuzzy RPC error:", JSON.stringify(fuzzyError, null, 2));
@@ -703,26 +650,25 @@ export async function searchRestaurantsAndDishes(
     });
 
 
-    // 6.5. Batch-fetch section_name for all dishes (needed for post-filter)
+    // 6.5. Batch-fetch section_name (needed for post-filter) and availability for all dishes
     if (flatRows.length > 0) {
       const dishIds = flatRows.map(row => row.dish_id);
-      type DishWithSection = { id: string; sections: { name: string } | null };
-      const { data: dishesWithSections } = (await supabase
-        .from("dishes")
-        .select("id, sections(name)")
-        .in("id", dishIds)) as { data: DishWithSection[] | null };
+      const dishesWithSections = await catalog.getDishes({ ids: dishIds }).catch(() => null);
 
       // Create a map of dish_id -> section_name
       const sectionNameMap = new Map<string, string | null>();
+      const dishById = new Map((dishesWithSections || []).map((dish) => [dish.id, dish]));
       if (dishesWithSections) {
         for (const dish of dishesWithSections) {
-          sectionNameMap.set(dish.id, dish.sections?.name || null);
+          sectionNameMap.set(dish.id, dish.section_name || null);
         }
       }
 
-      // Populate section_name in flatRows
+      // Populate section_name and availability in flatRows
       for (const row of flatRows) {
         row.section_name = sectionNameMap.get(row.dish_id) || null;
+        row.is_available = dishById.get(row.dish_id)?.is_available;
+        row.is_orderable = dishById.get(row.dish_id)?.is_orderable;
       }
 
       console.log(`[searchRestaurantsAndDishes] Batch-fetched section_name for ${sectionNameMap.size} dishes`);
@@ -789,20 +735,9 @@ export async function searchRestaurantsAndDishes(
     if (flatRows.length > 0) {
       const dishIds = flatRows.map(r => r.dish_id);
 
-      const { data: tagData } = await supabase
-        .from("dish_tags")
-        .select("dish_id, tags!inner(id, name, slug, type)")
-        .in("dish_id", dishIds) as { data: Array<{ dish_id: string; tags: TagInfo }> | null };
-
-      if (tagData && tagData.length > 0) {
-        const tagsByDishId = new Map<string, TagInfo[]>();
-        for (const row of tagData) {
-          if (!tagsByDishId.has(row.dish_id)) {
-            tagsByDishId.set(row.dish_id, []);
-          }
-          tagsByDishId.get(row.dish_id)!.push(row.tags);
-        }
+      const tagsByDishId = await catalog.getDishTags(dishIds).catch(() => null);
 
+      if (tagsByDishId && tagsByDishId.size > 0) {
         // Apply tags to flatRows
         for (const row of flatRows) {
           row.tags = tagsByDishId.get(row.dish_id);
@@ -811,6 +746,25 @@ export async function searchRestaurantsAndDishes(
       }
     }
 
+    // 7.5. Allergen exclusion: drop dishes tagged with an avoided allergen before grouping,
+    // so the top-5 / top-3 cuts are filled with safe dishes (finalize() labels the rest)
+    if (avoidedAllergens.length > 0) {
+      const screened = screenDishes(
+        flatRows.map((row) => ({ ...row, name: row.dish_name, description: row.dish_description })),
+        avoidedAllergens
+      );
+      flatRows = screened.kept;
+      console.log("[searchRestaurantsAndDishes] Allergen exclusion:", {
+        avoided: avoidedAllergens,
+        excluded: screened.excluded,
+        kept: flatRows.length,
+      });
+
+      if (flatRows.length === 0) {
+        return [];
+      }
+    }
+
     // 8. Group dishes by restaurant
     const restaurantMap = new Map<string, FlatSearchRow[]>();
     for (const row of flatRows) {
@@ -822,31 +776,9 @@ export async function searchRestaurantsAndDishes(
 
     // 9. Get additional restaurant details (not in RPC output)
     const restaurantIds = Array.from(restaurantMap.keys());
-    type RestaurantDetailsRow = {
-      id: string;
-      cuisine_type: string | null;
-      phone: string | null;
-      email: string | null;
-      website: string | null;
-      opening_hours: Record<string, string> | null;
-      accepts_dine_in: boolean | null;
-      accepts_takeaway: boolean | null;
-      accepts_delivery: boolean | null;
-      accepts_reservations: boolean | null;
-      amenities: {
-        child_friendly?: boolean;
-        wheelchair_accessible?: boolean;
-        outdoor_seating?: boolean;
-        parking?: boolean;
-        wifi?: boolean;
-      } | null;
-    };
-    const { data: restaurantData } = (await supabase
-      .from("restaurants")
-      .select("id, cuisine_type, phone, email, website, opening_hours, accepts_dine_in, accepts_takeaway, accepts_delivery, accepts_reservations, amenities")
-      .in("id", restaurantIds)) as { data: RestaurantDetailsRow[] | null };
+    const restaurantData = await catalog.getRestaurants(restaurantIds).catch(() => null);
 
-    const restaurantDetailsMap = new Map<string, RestaurantDetailsRow>();
+    const restaurantDetailsMap = new Map<string, CatalogRestaurant>();
     if (restaurantData) {
       for (const r of restaurantData) {
         restaurantDetailsMap.set(r.id, r);
@@ -854,11 +786,18 @@ export async function searchRestaurantsAndDishes(
     }
 
     // 9. Map to RestaurantCard format
+    // Sold-out dishes rank after available ones so the top 3 show what can be ordered
+    // (hiding them is up to the chat handler, which knows about the "Only available" toggle)
+    const demoteSoldOut = resolveSoldOutPolicy() !== "show";
     const restaurantCards: RestaurantCard[] = Array.from(restaurantMap.entries())
       .map(([restaurantId, rows]) => {
-        const sortedDishes = [...rows].sort((a, b) => b.similarity_score - a.similarity_score);
+        const sortedDishes = [...rows].sort((a, b) =>
+          Number(demoteSoldOut && isSoldOut(a)) - Number(demoteSoldOut && isSoldOut(b)) ||
+          b.similarity_score - a.similarity_score
+        );
         const bestDish = sortedDishes[0];
         const details = restaurantDetailsMap.get(restaurantId);
+        const currency = toCurrencyCode(details?.currency);
 
         return {
           id: restaurantId,
@@ -866,13 +805,18 @@ export async function searchRestaurantsAndDishes(
           city: bestDish.restaurant_city,
           cuisine_type: details?.cuisine_type || null,
           highlight: bestDish.dish_name || null,
+          currency,
           matches: sortedDishes.slice(0, 3).map((d) => ({
             id: d.dish_id,
             name: d.dish_name,
             description: d.dish_description,
             price: d.dish_price,
+            price_money: money(d.dish_price, currency),
             section_name: d.section_name || null,
             tags: d.tags || [],
+            is_available: d.is_available,
+            is_orderable: d.is_orderable,
+            ...(d.allergen_check && { allergen_check: d.allergen_check }),
           })),
           address: bestDish.restaurant_address,
           distance_km: null,
@@ -919,16 +863,20 @@ export async function searchRestaurantsAndDishes(
  * 
  * @param restaurantId - The restaurant ID to search within
  * @param intent - Parsed user intent (dish_query, dietary, etc.)
+ * @param opts.llm - The turn's provider for the query embedding (default: global provider)
  * @returns Restaurant info and array of matched dishes
  */
 export async function searchMenuInRestaurant(
   restaurantId: string,
-  intent: Intent
+  intent: Intent,
+  opts?: { llm?: LLMProvider }
 ): Promise<{
-  restaurant: { id: string; name: string; city: string | null };
+  restaurant: { id: string; name: string; city: string | null; currency?: CurrencyCode };
   dishes: DishMatch[];
   requiresStrictTags?: boolean;
   bestMatchDish?: { id: string; name: string; description?: string | null; price?: number | null } | null;
+  /** The dish asked about exists but is sold out (bestMatchDish is then null) */
+  soldOutMatch?: { id: string; name: string } | null;
 }> {
   let cleanedQuery = intent.dish_query ? normalizeQuery(intent.dish_query) : null;
 
@@ -938,16 +886,16 @@ export async function searchMenuInRestaurant(
   }
 
   try {
-    const supabase = await createClient();
+    const catalog = getCatalog();
 
     // First, get restaurant info
-    type RestaurantRow = { id: string; name: string; city: string | null };
-    const { data: restaurantData } = (await supabase
-      .from("restaurants")
-      .select("id, name, city")
-      .eq("id", restaurantId)
-      .eq("public_searchable", true)
-      .single()) as { data: RestaurantRow | null };
+    const restaurant = await catalog.getRestaurant(restaurantId, { publicOnly: true });
+    const restaurantData = restaurant && {
+      id: restaurant.id,
+      name: restaurant.name,
+      city: restaurant.city,
+      currency: toCurrencyCode(restaurant.currency),
+    };
 
     if (!restaurantData) {
       console.log("[searchMenuInRestaurant] Restaurant not found or not public:", restaurantId);
@@ -961,12 +909,13 @@ export async function searchMenuInRestaurant(
     const isStrictTagRequired = requiresStrictTagFiltering(intent);
 
     // Find dietary tag IDs if needed
+    // Allergies are NOT tag requirements: requiring the "Sesame" tag would return sesame dishes.
+    // They are applied as exclusions once tags are hydrated below.
     const requiredTagIds: string[] = [];
-    const queryText = `${intent.original_query} ${intent.dish_query || ""} ${intent.dietary?.join(" ") || ""} ${intent.allergy?.join(" ") || ""}`.toLowerCase();
-
-    // Check for allergy keywords
-    const allergyKeywords = ["peanut", "tree nut", "nut free", "nut-free", "gluten", "dairy", "milk", "egg", "fish", "shellfish", "soy", "sesame"];
-    const hasAllergyKeywords = allergyKeywords.some((kw) => queryText.includes(kw));
+    const avoidedAllergens = allergensFromIntent(intent);
+    if (cleanedQuery && avoidedAllergens.length > 0) {
+      cleanedQuery = stripAllergenPhrases(cleanedQuery) || null;
+    }
 
     if (intent.dietary && intent.dietary.length > 0) {
       for (const dietaryReq of intent.dietary) {
@@ -980,12 +929,7 @@ export async function searchMenuInRestaurant(
           const isDirectMatch = key === queryLower || variants.includes(queryLower);
 
           if (isDirectMatch) {
-            const orClauses = variants.map((v) => `name.ilike.%${v}%`).join(",");
-            type TagRow = { id: string };
-            const { data: matchingTags } = (await supabase
-              .from("tags")
-              .select("id")
-              .or(orClauses)) as { data: TagRow[] | null };
+            const matchingTags = await catalog.findTags({ nameContains: variants }).catch(() => null);
 
             if (matchingTags && matchingTags.length > 0) {
               requiredTagIds.push(...matchingTags.map((t) => t.id));
@@ -1000,12 +944,7 @@ export async function searchMenuInRestaurant(
           for (const [, variants] of Object.entries(dietaryKeywords)) {
             // Use word-boundary-like matching to avoid "vegan" matching "veg"
             if (variants.some((kw) => kw === queryLower || queryLower === kw)) {
-              const orClauses = variants.map((v) => `name.ilike.%${v}%`).join(",");
-              type TagRow = { id: string };
-              const { data: matchingTags } = (await supabase
-                .from("tags")
-                .select("id")
-                .or(orClauses)) as { data: TagRow[] | null };
+              const matchingTags = await catalog.findTags({ nameContains: variants }).catch(() => null);
 
               if (matchingTags && matchingTags.length > 0) {
                 requiredTagIds.push(...matchingTags.map((t) => t.id));
@@ -1017,35 +956,12 @@ export async function searchMenuInRestaurant(
       }
     }
 
-    // Also check allergy array
-    if (intent.allergy && intent.allergy.length > 0) {
-      for (const allergyReq of intent.allergy) {
-        const queryLower = allergyReq.toLowerCase();
-        for (const keyword of allergyKeywords) {
-          if (queryLower.includes(keyword)) {
-            const orClauses = allergyKeywords.map((kw) => `name.ilike.%${kw}%`).join(",");
-            type TagRow = { id: string };
-            const { data: matchingTags } = (await supabase
-              .from("tags")
-              .select("id")
-              .or(orClauses)) as { data: TagRow[] | null };
-
-            if (matchingTags && matchingTags.length > 0) {
-              requiredTagIds.push(...matchingTags.map((t) => t.id));
-            }
-            break;
-          }
-        }
-      }
-    }
-
     // For strict tag requirements, we MUST have tag IDs
     if (isStrictTagRequired && requiredTagIds.length === 0) {
       console.log("[searchMenuInRestaurant] Strict tag required but no matching tags found");
       // Still proceed, but we'll check for tagged matches later
     }
 
-    const serviceFilters = null;
     let dishes: DishMatch[] = [];
 
     // Check if hard tags exist (require strict tag-only search)
@@ -1054,15 +970,7 @@ export async function searchMenuInRestaurant(
     // NEW STRATEGY: If hard tags exist, search by tag THEN filter by dish_query if present
     if (hasHardTags && requiredTagIds.length > 0) {
       // Tag search within restaurant
-      const { data: tagData, error: tagError } = ((await supabase.rpc(
-        "search_public_dishes_by_tags",
-        {
-          target_city: null,
-          dietary_tag_ids: requiredTagIds,
-          service_filters: serviceFilters,
-          limit_count: 50,
-        }
-      )) as RpcResult<FlatSearchRow[]>);
+      const { data: tagData, error: tagError } = await settle(catalog.searchDishesByTags(requiredTagIds));
 
       if (tagError) {
         console.error("[searchMenuInRestaurant] Tag-only RPC error:", tagError);
@@ -1113,17 +1021,10 @@ export async function searchMenuInRestaurant(
       // Strategy: Try semantic â†’ fuzzy â†’ direct ILIKE, all filtered by restaurant_id
       // Try semantic search first
       try {
-        const queryEmbedding = await generateEmbedding(cleanedQuery);
-        const { data: semanticData, error: semanticError } = ((await supabase.rpc(
-          "search_public_dishes_semantic",
-          {
-            query_embedding: queryEmbedding,
-            target_city: null,
-            dietary_tag_ids: requiredTagIds.length > 0 ? requiredTagIds : null,
-            service_filters: serviceFilters,
-            limit_count: 50,
-          }
-        )) as RpcResult<FlatSearchRow[]>);
+        const queryEmbedding = await generateEmbedding(cleanedQuery, opts?.llm);
+        const { data: semanticData, error: semanticError } = await settle(
+          catalog.searchDishesSemantic(queryEmbedding, { tagIds: requiredTagIds })
+        );
 
         if (!semanticError && semanticData && semanticData.length > 0) {
           // Filter by restaurant_id
@@ -1155,16 +1056,9 @@ export async function searchMenuInRestaurant(
       // Fallback to fuzzy trigram search
       if (dishes.length === 0) {
         try {
-          const { data: fuzzyData, error: fuzzyError } = ((await supabase.rpc(
-            "search_public_dishes_fuzzy",
-            {
-              search_text: cleanedQuery,
-              target_city: null,
-              dietary_tag_ids: requiredTagIds.length > 0 ? requiredTagIds : null,
-              service_filters: serviceFilters,
-              limit_count: 50,
-            }
-          )) as RpcResult<FlatSearchRow[]>);
+          const { data: fuzzyData, error: fuzzyError } = await settle(
+            catalog.searchDishesFuzzy(cleanedQuery, { tagIds: requiredTagIds })
+          );
 
           if (!fuzzyError && fuzzyData && fuzzyData.length > 0) {
             // Filter by restaurant_id
@@ -1197,52 +1091,21 @@ export async function searchMenuInRestaurant(
       // Final fallback: Direct ILIKE query on dishes table
       if (dishes.length === 0) {
         // Get menu IDs for this restaurant
-        const { data: menus } = (await supabase
-          .from("menus")
-          .select("id")
-          .eq("restaurant_id", restaurantId)) as { data: { id: string }[] | null };
+        const menus = await catalog.getMenus(restaurantId).catch(() => null);
 
         if (menus && menus.length > 0) {
           const menuIds = menus.map((m) => m.id);
 
-          // Build query with dietary tag filtering
-          let dishQuery = supabase
-            .from("dishes")
-            .select("id, name, description, price")
-            .in("menu_id", menuIds)
-            .eq("public", true)
-            .or(`name.ilike.%${cleanedQuery}%,description.ilike.%${cleanedQuery}%`)
-            .limit(20);
-
-          // Apply dietary tag filter if needed
-          if (requiredTagIds.length > 0) {
-            const { data: dishTags } = (await supabase
-              .from("dish_tags")
-              .select("dish_id")
-              .in("tag_id", requiredTagIds)) as { data: { dish_id: string }[] | null };
-
-            if (dishTags && dishTags.length > 0) {
-              const dishIds = dishTags.map((dt) => dt.dish_id);
-              dishQuery = dishQuery.in("id", dishIds);
-            } else {
-              // No dishes match dietary tags
-              return {
-                restaurant: restaurantData,
-                dishes: [],
-              };
-            }
-          }
-
-          const { data: directDishes } = (await dishQuery) as {
-            data: {
-              id: string;
-              name: string;
-              description: string | null;
-              price: number;
-              section_id: string | null;
-              sections: { name: string } | null;
-            }[] | null;
-          };
+          // Name/description match, with dietary tag filtering if needed
+          const directDishes = await catalog
+            .getDishes({
+              menuIds,
+              publicOnly: true,
+              text: cleanedQuery,
+              tagIds: requiredTagIds.length > 0 ? requiredTagIds : undefined,
+              limit: 20,
+            })
+            .catch(() => null);
 
           if (directDishes && directDishes.length > 0) {
             dishes = directDishes.map((d) => ({
@@ -1250,7 +1113,7 @@ export async function searchMenuInRestaurant(
               name: d.name,
               description: d.description,
               price: d.price,
-              section_name: d.sections?.name || null,
+              section_name: d.section_name || null,
             }));
             console.log("[searchMenuInRestaurant] Direct query found", dishes.length, "dishes");
           }
@@ -1258,15 +1121,7 @@ export async function searchMenuInRestaurant(
       }
     } else if (requiredTagIds.length > 0) {
       // Tag-only search within restaurant
-      const { data: tagData, error: tagError } = ((await supabase.rpc(
-        "search_public_dishes_by_tags",
-        {
-          target_city: null,
-          dietary_tag_ids: requiredTagIds,
-          service_filters: serviceFilters,
-          limit_count: 50,
-        }
-      )) as RpcResult<FlatSearchRow[]>);
+      const { data: tagData, error: tagError } = await settle(catalog.searchDishesByTags(requiredTagIds));
 
       if (!tagError && tagData && tagData.length > 0) {
         // Filter by restaurant_id
@@ -1285,6 +1140,23 @@ export async function searchMenuInRestaurant(
       }
     }
 
+    // Availability flags for badges; sold-out dishes go after the available ones (the
+    // caller hides them when the policy or the "Only available" toggle says so)
+    if (dishes.length > 0) {
+      const flags = await catalog.getDishes({ ids: dishes.map(d => d.id) }).catch(() => null);
+      if (flags) {
+        const byId = new Map(flags.map(d => [d.id, d]));
+        dishes = dishes.map(d => ({
+          ...d,
+          is_available: byId.get(d.id)?.is_available,
+          is_orderable: byId.get(d.id)?.is_orderable,
+        }));
+      }
+      if (resolveSoldOutPolicy() !== "show") {
+        dishes = applySoldOutPolicy(dishes, "demote");
+      }
+    }
+
     // Limit to top 10 dishes
     dishes = dishes.slice(0, 10);
 
@@ -1355,37 +1227,54 @@ export async function searchMenuInRestaurant(
       }
     }
 
-    // Batch fetch tags for all dishes before returning
+    // A sold-out dish is never a "yes, they have it"
+    let soldOutMatch: { id: string; name: string } | null = null;
+    const bestMatchRow = bestMatchDish && dishes.find((d) => d.id === bestMatchDish!.id);
+    if (bestMatchRow && isSoldOut(bestMatchRow)) {
+      soldOutMatch = { id: bestMatchRow.id, name: bestMatchRow.name };
+      bestMatchDish = null;
+    }
+
+    // Batch fetch tags and options for all dishes before returning
     if (dishes.length > 0) {
       const dishIds = dishes.map(d => d.id);
-      type DishTagRow = { dish_id: string; tags: { id: string; name: string; slug: string; type: string } };
-      const { data: tagData } = await supabase
-        .from("dish_tags")
-        .select("dish_id, tags!inner(id, name, slug, type)")
-        .in("dish_id", dishIds) as { data: Array<{ dish_id: string; tags: TagInfo }> | null };
-
-      if (tagData && tagData.length > 0) {
-        // Group tags by dish_id
-        const tagsByDishId = new Map<string, TagInfo[]>();
-        for (const row of tagData) {
-          if (!tagsByDishId.has(row.dish_id)) {
-            tagsByDishId.set(row.dish_id, []);
-          }
-          tagsByDishId.get(row.dish_id)!.push(row.tags);
-        }
+      const [tagsByDishId, modifiersByDishId] = await Promise.all([
+        catalog.getDishTags(dishIds).catch(() => null),
+        catalog.getDishModifiers(dishIds).catch(() => null),
+      ]);
 
+      if (tagsByDishId && tagsByDishId.size > 0) {
         // Attach tags to dishes
         dishes = dishes.map(d => ({
           ...d,
           tags: tagsByDishId.get(d.id) || undefined,
         }));
       }
+      if (modifiersByDishId && modifiersByDishId.size > 0) {
+        dishes = dishes.map(d => ({ ...d, modifiers: modifiersByDishId.get(d.id) }));
+      }
+      dishes = dishes.map(d => ({ ...d, price_money: money(d.price, restaurantData.currency) }));
+    }
+
+    // Allergen exclusion (tagged dishes dropped, untagged labelled "unknown")
+    if (avoidedAllergens.length > 0 && dishes.length > 0) {
+      const screened = screenDishes(dishes, avoidedAllergens);
+      console.log("[searchMenuInRestaurant] Allergen exclusion:", {
+        avoided: avoidedAllergens,
+        excluded: screened.excluded,
+        kept: screened.kept.length,
+      });
+      dishes = screened.kept;
+      if (bestMatchDish && !dishes.some((d) => d.id === bestMatchDish!.id)) {
+        bestMatchDish = null;
+      }
     }
 
     return {
       restaurant: restaurantData,
       dishes,
       bestMatchDish,
+      soldOutMatch,
     };
   } catch (error) {
     console.error("[searchMenuInRestaurant] Error:", error);
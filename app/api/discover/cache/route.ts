@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDiscoverCacheStats, isDiscoverCacheEnabled } from "@/lib/discover/cache";
+
+/**
+ * Discover cache hit rates for this process (intents, embeddings, search results, translations)
+ * Usage: GET /api/discover/cache with "Authorization: Bearer $DISCOVER_CACHE_STATS_TOKEN"
+ * Without the token env var the endpoint is only available outside production.
+ */
+export async function GET(request: NextRequest) {
+  const token = process.env.DISCOVER_CACHE_STATS_TOKEN;
+  if (token ? request.headers.get("authorization") !== `Bearer ${token}` : process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "Not available" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    enabled: isDiscoverCacheEnabled(),
+    caches: getDiscoverCacheStats(),
+  });
+}
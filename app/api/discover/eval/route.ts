@@ -1,82 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
 import { searchRestaurantsAndDishes } from "@/app/actions/discover";
 import { parseUserIntent } from "@/lib/intent-parser";
+import { DEFAULT_EVAL_K, loadJudgementSet, runEvaluation, type EvalSearchFn } from "@/lib/search-eval";
+
+const MAX_K = 50;
 
 /**
- * Evaluation endpoint for testing search functionality
- * Tests 10 hero queries and returns metrics
+ * Labelled search evaluation
+ * Runs every query in the judgement file (DISCOVER_EVAL_JUDGEMENTS, default tests/search-judgements.json)
+ * and returns precision@k, recall, NDCG, MRR and zero-result rate, overall and per language.
+ *
+ * Usage: GET /api/discover/eval?k=10&lang=en,sv&label=my-branch
+ * Disabled in production unless DISCOVER_EVAL=1 (every query costs an LLM call).
  */
-export async function GET(_request: NextRequest) {
-  const heroQueries = [
-    "butter naan",
-    "vegan pizza in Stockholm",
-    "halal chicken",
-    "gluten-free pasta",
-    "anything",
-    "butter naan in göteborg?",
-    "vegan options",
-    "indian food",
-    "pizza",
-    "hungry",
-  ];
-
-  const results = [];
-  let totalResponseTime = 0;
-  let totalNoResults = 0;
-
-  for (const query of heroQueries) {
-    const startTime = Date.now();
-    
-    try {
-      // Parse intent
-      const intent = await parseUserIntent(query);
-      
-      // Search
-      const restaurantCards = await searchRestaurantsAndDishes(intent);
-      
-      const responseTime = Date.now() - startTime;
-      totalResponseTime += responseTime;
-      
-      if (restaurantCards.length === 0) {
-        totalNoResults++;
-      }
-
-      results.push({
-        query,
-        intent: {
-          dish_query: intent.dish_query,
-          city: intent.city,
-          dietary: intent.dietary,
-          is_vague: intent.is_vague,
-        },
-        resultsCount: restaurantCards.length,
-        responseTimeMs: responseTime,
-        success: true,
-      });
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-      totalResponseTime += responseTime;
-      totalNoResults++;
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV === "production" && process.env.DISCOVER_EVAL !== "1") {
+    return NextResponse.json({ error: "Not available" }, { status: 404 });
+  }
 
-      results.push({
-        query,
-        intent: null,
-        resultsCount: 0,
-        responseTimeMs: responseTime,
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      });
-    }
+  const searchParams = request.nextUrl.searchParams;
+  const k = Math.min(MAX_K, Math.max(1, Number(searchParams.get("k")) || DEFAULT_EVAL_K));
+  const languages = searchParams.get("lang")?.split(",").map((l) => l.trim()).filter(Boolean);
+  const label = searchParams.get("label") || undefined;
+
+  let judgements;
+  try {
+    judgements = loadJudgementSet();
+  } catch (error) {
+    return NextResponse.json(
+      { error: `Could not load judgements: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
   }
 
-  const metrics = {
-    totalQueries: heroQueries.length,
-    noResultsRate: (totalNoResults / heroQueries.length) * 100,
-    avgResultsCount: results.reduce((sum, r) => sum + r.resultsCount, 0) / results.length,
-    avgResponseTimeMs: totalResponseTime / results.length,
-    results: results,
+  // Dishes are ranked in card order, so a dish's rank reflects where the user sees it
+  const search: EvalSearchFn = async ({ query }) => {
+    const intent = await parseUserIntent(query);
+    const cards = await searchRestaurantsAndDishes(intent);
+    return {
+      restaurants: cards.map((card) => ({ id: card.id, name: card.name })),
+      dishes: cards.flatMap((card) => (card.matches ?? []).map((dish) => ({ id: dish.id, name: dish.name }))),
+    };
   };
 
-  return NextResponse.json(metrics);
+  const run = await runEvaluation(judgements, search, { k, languages, label });
+  return NextResponse.json(run);
 }
-
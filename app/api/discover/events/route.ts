@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_EVENTS_PER_BATCH, logSearchEvents, parseSearchEventBatch } from "@/lib/discover/analytics";
+import { checkRateLimits, clientIpKey } from "@/lib/discover/rate-limit";
+
+/** A full batch of events is a few KB; anything far past that is not from the page */
+const MAX_BODY_BYTES = 32 * 1024;
+
+/** The body as text, or null once it grows past maxBytes (without reading the rest) */
+async function readBodyCapped(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (Number(request.headers.get("content-length")) > maxBytes) return null;
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * POST /api/discover/events
+ * Impressions and clicks on discover results: { sessionId?, events: SearchEvent[] }
+ * Sent with navigator.sendBeacon, so the body may arrive as text/plain.
+ * Invalid events are dropped; the page never waits on (or retries) this endpoint.
+ * Public: limited per IP like the chat route, and the body size is capped.
+ */
+export async function POST(request: NextRequest) {
+  const limited = await checkRateLimits({ ip: clientIpKey(request.headers) });
+  if (limited) {
+    return NextResponse.json(
+      { error: "Too many requests", rateLimit: limited },
+      { status: 429, headers: { "Retry-After": String(limited.retryAfterSeconds) } }
+    );
+  }
+
+  const text = await readBodyCapped(request, MAX_BODY_BYTES);
+  if (text === null) {
+    return NextResponse.json({ error: `Body larger than ${MAX_BODY_BYTES} bytes` }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const events = parseSearchEventBatch(body);
+  if (!events) {
+    return NextResponse.json({ error: `Expected { events: [...] } with at most ${MAX_EVENTS_PER_BATCH} events` }, { status: 400 });
+  }
+
+  await logSearchEvents(events);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getOrderSummary } from "@/lib/discover/orders";
+
+/**
+ * GET /api/discover/orders/[id]
+ * Status of a discover order for the order page. The unguessable id is the only key,
+ * so the summary leaves out the phone number.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!z.uuid().safeParse(id).success) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 });
+  }
+
+  try {
+    const order = await getOrderSummary(id);
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+    return NextResponse.json({ order }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("[api/discover/orders] GET error:", error);
+    return NextResponse.json({ error: "Failed to load order" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { getCatalog } from "@/lib/catalog";
+import { getOrderStore, getPaymentProvider, parsePlaceOrderRequest, placeOrder } from "@/lib/discover/orders";
+import { checkRateLimits, clientIpKey } from "@/lib/discover/rate-limit";
+import type { OrderProblem } from "@/lib/types/discover";
+
+// 404 when the restaurant can't take orders, 409 when only prices moved (the cart can be refreshed), else 422
+function problemStatus(problems: OrderProblem[]): number {
+  if (problems.some(p => p.code === "restaurant_unavailable")) return 404;
+  if (problems.every(p => p.code === "price_changed")) return 409;
+  return 422;
+}
+
+/**
+ * POST /api/discover/orders
+ * Places a pay-in-store pickup order: { restaurant_id, items: [{ dish_id, quantity, option_ids, unit_price }],
+ * customer_name, customer_phone, pickup_time, notes?, sessionId? }.
+ * Prices and availability come from the catalog; a cart that no longer matches gets { error, problems }.
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  let order;
+  try {
+    order = parsePlaceOrderRequest(body);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: "Invalid order", issues: error.issues }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const limited = await checkRateLimits({ ip: clientIpKey(request.headers), sessionId: order.sessionId });
+  if (limited) {
+    return NextResponse.json(
+      { error: "Too many requests", rateLimit: limited },
+      { status: 429, headers: { "Retry-After": String(limited.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const result = await placeOrder(order, {
+      catalog: getCatalog(),
+      store: getOrderStore(),
+      payments: getPaymentProvider(),
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.problems[0].message, problems: result.problems },
+        { status: problemStatus(result.problems) }
+      );
+    }
+    return NextResponse.json({ order: result.order, redirectUrl: result.redirectUrl }, { status: 201 });
+  } catch (error) {
+    console.error("[api/discover/orders] POST error:", error);
+    return NextResponse.json({ error: "Failed to place order" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCatalog } from "@/lib/catalog";
+import { pickupSlots } from "@/lib/discover/orders";
+
+/**
+ * GET /api/discover/orders/slots?restaurant_id=...
+ * Pickup times the restaurant can take an order for (ISO strings, earliest first)
+ */
+export async function GET(request: NextRequest) {
+  const restaurantId = request.nextUrl.searchParams.get("restaurant_id");
+  if (!restaurantId) {
+    return NextResponse.json({ error: "restaurant_id required" }, { status: 400 });
+  }
+
+  try {
+    const restaurant = await getCatalog().getRestaurant(restaurantId, { publicOnly: true });
+    if (!restaurant || restaurant.accepts_takeaway === false) {
+      return NextResponse.json({ error: "This restaurant doesn't take pickup orders" }, { status: 404 });
+    }
+    return NextResponse.json(
+      { slots: pickupSlots(restaurant), timezone: restaurant.timezone },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("[api/discover/orders/slots] GET error:", error);
+    return NextResponse.json({ error: "Failed to load pickup times" }, { status: 500 });
+  }
+}
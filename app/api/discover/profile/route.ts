@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import {
+  EMPTY_PROFILE,
+  getProfileStore,
+  resolveOrCreateProfileOwner,
+  resolveProfileOwner,
+  sanitizeProfile,
+  setDeviceCookie,
+} from "@/lib/discover/profile";
+
+/**
+ * GET /api/discover/profile
+ * Returns the saved dietary profile for the signed-in user or this device (empty if none)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const owner = await resolveProfileOwner(request);
+    const profile = owner ? await getProfileStore().get(owner) : null;
+
+    return NextResponse.json({
+      profile: profile ?? EMPTY_PROFILE,
+      saved: !!profile,
+      owner: owner?.kind ?? null,
+    });
+  } catch (error) {
+    console.error("[api/discover/profile] GET error:", error);
+    return NextResponse.json({ error: "Failed to load profile" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/discover/profile
+ * Saves { dietary, allergy, city, budgetMaxSek }. Anonymous visitors get a device cookie on first save.
+ */
+export async function PUT(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  let profile;
+  try {
+    profile = sanitizeProfile(body);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: "Invalid profile", issues: error.issues }, { status: 400 });
+    }
+    throw error;
+  }
+
+  try {
+    const { owner, isNewDevice } = await resolveOrCreateProfileOwner(request);
+    const saved = await getProfileStore().save(owner, profile);
+    const response = NextResponse.json({ profile: saved, saved: true, owner: owner.kind });
+    return isNewDevice ? setDeviceCookie(response, owner.id) : response;
+  } catch (error) {
+    console.error("[api/discover/profile] PUT error:", error);
+    return NextResponse.json({ error: "Failed to save profile" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/discover/profile
+ * Forgets the saved profile (the device cookie is kept so a later save reuses it)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const owner = await resolveProfileOwner(request);
+    if (owner) await getProfileStore().delete(owner);
+    return NextResponse.json({ profile: EMPTY_PROFILE, saved: false, owner: owner?.kind ?? null });
+  } catch (error) {
+    console.error("[api/discover/profile] DELETE error:", error);
+    return NextResponse.json({ error: "Failed to delete profile" }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { getCatalog } from "@/lib/catalog";
 import type { MenuPayload, MenuSection, MenuItem, TagInfo } from "@/lib/types/discover";
+import { money, toCurrencyCode } from "@/lib/discover/money";
 
 /**
  * GET /api/menu/[id]
@@ -17,102 +18,70 @@ export async function GET(
     }
 
     try {
-        const supabase = await createClient();
+        const catalog = getCatalog();
 
         // Fetch restaurant name
-        const { data: restaurant, error: restError } = await supabase
-            .from("restaurants")
-            .select("id, name, city, public_searchable")
-            .eq("id", restaurantId)
-            .eq("public_searchable", true)
-            .single();
-
-        if (restError || !restaurant) {
+        const restaurant = await catalog.getRestaurant(restaurantId, { publicOnly: true });
+
+        if (!restaurant) {
             return NextResponse.json({ error: "Restaurant not found" }, { status: 404 });
         }
 
         // Fetch menus
-        const { data: menus, error: menusError } = await supabase
-            .from("menus")
-            .select("id, name")
-            .eq("restaurant_id", restaurantId)
-            .order("created_at", { ascending: true });
+        const menus = await catalog.getMenus(restaurantId);
 
-        console.log("[api/menu] menus:", { restaurantId, menus, menusError });
+        console.log("[api/menu] menus:", { restaurantId, menus });
 
-        const menuIds = menus?.map(m => m.id) || [];
+        const menuIds = menus.map(m => m.id);
 
         // Fetch sections
-        const { data: sections, error: sectionsError } = await supabase
-            .from("sections")
-            .select("id, name, display_order, menu_id")
-            .in("menu_id", menuIds)
-            .order("display_order", { ascending: true });
+        const sections = await catalog.getSections(menuIds);
 
-        console.log("[api/menu] sections:", { menuIds, sections: sections?.length, sectionsError });
+        console.log("[api/menu] sections:", { menuIds, sections: sections.length });
 
         // Fetch dishes with tags
-        const { data: dishes, error: dishesError } = await supabase
-            .from("dishes")
-            .select(`
-        id, 
-        name, 
-        description, 
-        price, 
-        menu_id, 
-        section_id,
-        public,
-        dish_tags(
-          tags(id, name, slug, type)
-        )
-      `)
-            .in("menu_id", menuIds)
-            .eq("public", true)
-            .order("name", { ascending: true });
+        const allDishes = await catalog.getDishes({ menuIds });
+        const dishes = allDishes.filter(d => d.public).sort((a, b) => a.name.localeCompare(b.name));
+        const tagsByDish = await catalog.getDishTags(dishes.map(d => d.id));
+        const modifiersByDish = await catalog.getDishModifiers(dishes.map(d => d.id));
 
         console.log("[api/menu] dishes:", {
             menuIds,
-            dishesCount: dishes?.length,
-            dishesError,
-            sampleDish: dishes?.[0] ? { id: dishes[0].id, name: dishes[0].name, public: (dishes[0] as any).public } : null
+            dishesCount: dishes.length,
+            sampleDish: dishes[0] ? { id: dishes[0].id, name: dishes[0].name, public: dishes[0].public } : null
         });
 
-        // Also check total dishes without public filter for debugging
-        const { count: totalDishCount } = await supabase
-            .from("dishes")
-            .select("*", { count: "exact", head: true })
-            .in("menu_id", menuIds);
-
-        console.log("[api/menu] total dishes (including non-public):", totalDishCount);
+        // Also report total dishes without public filter for debugging
+        console.log("[api/menu] total dishes (including non-public):", allDishes.length);
 
         // Build MenuPayload with proper Menu → Section → Dish hierarchy
         // Group by menu first, then sections within each menu
         const menuGroups: { id: string; name: string; sections: MenuSection[] }[] = [];
         const allSections: MenuSection[] = []; // Flat sections for backward compatibility
 
-        for (const menu of menus || []) {
+        for (const menu of menus) {
             const menuSections: MenuSection[] = [];
-            const menuSectionsList = sections?.filter(s => s.menu_id === menu.id) || [];
+            const menuSectionsList = sections.filter(s => s.menu_id === menu.id);
 
             // Group dishes by section within this menu
             const sectionMap = new Map<string, { name: string; items: MenuItem[] }>();
             const uncategorizedItems: MenuItem[] = [];
 
-            for (const dish of dishes || []) {
+            for (const dish of dishes) {
                 if (dish.menu_id !== menu.id) continue;
 
-                // Extract tags from dish_tags join
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const tags: TagInfo[] = (dish.dish_tags || [])
-                    .map((dt: any) => dt.tags)
-                    .filter((t: any): t is TagInfo => t !== null && t !== undefined && t.id);
+                const tags: TagInfo[] = tagsByDish.get(dish.id) || [];
 
                 const menuItem: MenuItem = {
                     id: dish.id,
                     name: dish.name,
                     description: dish.description,
                     price: dish.price,
+                    price_money: money(dish.price, restaurant.currency),
                     tags,
+                    is_available: dish.is_available,
+                    is_orderable: dish.is_orderable,
+                    modifiers: modifiersByDish.get(dish.id),
                 };
 
                 if (dish.section_id) {
@@ -159,6 +128,7 @@ export async function GET(
             restaurantId: restaurant.id,
             restaurantName: restaurant.name,
             city: restaurant.city,
+            currency: toCurrencyCode(restaurant.currency),
             sections: allSections, // Flat sections for backward compatibility
             menus: menuGroups, // Proper hierarchy with menu names
         };
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { getCatalog } from "@/lib/catalog";
 
 export async function GET(
   request: NextRequest,
@@ -12,20 +12,15 @@ export async function GET(
   }
 
   try {
-    const supabase = await createClient();
+    const restaurant = await getCatalog().getRestaurant(id, { publicOnly: true });
 
-    const { data, error } = await supabase
-      .from("restaurants")
-      .select("id, name, address, city")
-      .eq("id", id)
-      .single();
-
-    if (error) {
-      console.error("[api/restaurant] Error fetching restaurant:", error);
+    if (!restaurant) {
+      console.error("[api/restaurant] Restaurant not found:", id);
       return NextResponse.json({ error: "Restaurant not found" }, { status: 404 });
     }
 
-    return NextResponse.json(data);
+    const { name, address, city } = restaurant;
+    return NextResponse.json({ id: restaurant.id, name, address, city });
   } catch (error) {
     console.error("[api/restaurant] Unexpected error:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
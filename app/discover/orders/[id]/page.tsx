@@ -0,0 +1,37 @@
+import { notFound } from "next/navigation";
+import { z } from "zod";
+import { OrderStatusView } from "@/components/discover/OrderStatusView";
+import { getOrderSummary } from "@/lib/discover/orders";
+
+/**
+ * Order status after checkout from discover: /discover/orders/<order id>
+ * The page keeps polling while the restaurant works on the order.
+ */
+export const dynamic = "force-dynamic";
+
+export default async function OrderPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  if (!z.uuid().safeParse(id).success) {
+    notFound();
+  }
+
+  const order = await getOrderSummary(id).catch((error) => {
+    console.error("[OrderPage] Error loading order:", error);
+    return null;
+  });
+  if (!order) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-indigo-50/30 p-6">
+      <div className="mx-auto max-w-lg">
+        <OrderStatusView initialOrder={order} />
+      </div>
+    </div>
+  );
+}
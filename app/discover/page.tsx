@@ -1,13 +1,18 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Send, Loader2, ArrowLeft, CheckCircle2, AlertCircle } from "lucide-react";
+import { Send, Loader2, ArrowLeft, CheckCircle2, AlertCircle, MapPin, ArrowUpDown } from "lucide-react";
 import Link from "next/link";
 import type {
   ChatMessage,
   ChatState,
+  DiscoverChatResponse,
   RestaurantCard,
   MenuPayload,
+  ProfileOverride,
+  GeoPoint,
+  SortOrder,
+  MenuItem,
 } from "@/lib/types/discover";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -16,6 +21,24 @@ import { InlineMenuCard } from "@/components/discover/InlineMenuCard";
 import { RestaurantProfileCard } from "@/components/discover/RestaurantProfileCard";
 import { DishRow } from "@/components/discover/DishRow";
 import { AllergenDisclaimer } from "@/components/discover/AllergenDisclaimer";
+import { ProfilePanel } from "@/components/discover/ProfilePanel";
+import { AddToCartDialog, type AddToCartTarget } from "@/components/discover/AddToCartDialog";
+import { CartPanel } from "@/components/discover/CartPanel";
+import { useCart } from "@/components/discover/use-cart";
+import { observeImpression, setSearchTrackingSession, trackSearchEvent } from "@/components/discover/search-tracking";
+import { readDiscoverStream } from "@/lib/discover/stream";
+import { pickClientChatState } from "@/lib/discover/session/state";
+import { detectLocationIntent, formatDistance } from "@/lib/discover/geo";
+import { detectSort } from "@/lib/discover/sort";
+import type { CartRestaurant } from "@/lib/discover/cart";
+
+// Sort chips under the latest results; "Closest" only once the user has shared a location
+const SORT_CHIPS: { sort: SortOrder; label: string }[] = [
+  { sort: "best_match", label: "Best match" },
+  { sort: "price_asc", label: "Cheapest" },
+  { sort: "price_desc", label: "Most expensive" },
+  { sort: "distance", label: "Closest" },
+];
 
 export default function DiscoverPage() {
   const [messages, setMessages] = useState<ChatMessage[]>([
@@ -32,8 +55,19 @@ export default function DiscoverPage() {
     currentRestaurantId: null,
     currentRestaurantName: null,
   });
+  // Opaque server-side session: grounded results and follow-up state live on the server
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // Streaming progress label shown next to the spinner ("Searching restaurants...")
+  const [pendingStage, setPendingStage] = useState<string | null>(null);
+  // One-shot tweak to the saved dietary profile ({ off: true } or replacement fields), sent with the next search
+  const [profileOverride, setProfileOverride] = useState<ProfileOverride | null>(null);
+  // Browser coordinates, only after the user taps 📍 or asks for something "near me"
+  const [location, setLocation] = useState<GeoPoint | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  // "Only available": hide sold-out dishes from search results
+  const [onlyAvailable, setOnlyAvailable] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -41,11 +75,20 @@ export default function DiscoverPage() {
   const [expandedMenus, setExpandedMenus] = useState<Record<string, MenuPayload>>({});
   const [loadingMenuId, setLoadingMenuId] = useState<string | null>(null);
 
+  // Pickup ordering: cart (localStorage) and the dish whose options are being chosen
+  const { cart, add: addCartItem, changeQuantity, clear: clearCart } = useCart();
+  const [addTarget, setAddTarget] = useState<AddToCartTarget | null>(null);
+
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Impression/click events are reported under the current chat session
+  useEffect(() => {
+    setSearchTrackingSession(sessionId);
+  }, [sessionId]);
+
   // Focus input and detect language on mount
   useEffect(() => {
     setTimeout(() => inputRef.current?.focus(), 100);
@@ -76,6 +119,25 @@ export default function DiscoverPage() {
     }
   };
 
+  // One restaurant per cart: ask before starting over; dishes without options go straight in
+  const handleAddToCart = (restaurant: CartRestaurant, dish: AddToCartTarget["dish"]) => {
+    if (cart && cart.restaurant_id !== restaurant.id &&
+      !window.confirm(`Your cart has dishes from ${cart.restaurant_name}. Start a new order from ${restaurant.name}?`)) {
+      return;
+    }
+    if ((dish.modifiers ?? []).length === 0) {
+      addCartItem(restaurant, { dish_id: dish.id, name: dish.name, unit_price: dish.price, quantity: 1, options: [] });
+      return;
+    }
+    setAddTarget({ restaurant, dish });
+  };
+
+  const addMenuItemToCart = (menu: MenuPayload) => (item: MenuItem) =>
+    handleAddToCart(
+      { id: menu.restaurantId, name: menu.restaurantName, currency: menu.currency ?? "SEK" },
+      { id: item.id, name: item.name, description: item.description, price: item.price ?? 0, modifiers: item.modifiers }
+    );
+
   // Close expanded menu (back to discovery)
   const collapseMenu = (restaurantId: string) => {
     setExpandedMenus(prev => {
@@ -84,6 +146,157 @@ export default function DiscoverPage() {
     });
   };
 
+  // 429 from the chat route: show its localized "slow down" message as an assistant reply
+  const showRateLimited = async (response: Response) => {
+    let data: DiscoverChatResponse | null = null;
+    try {
+      data = await response.json();
+    } catch {
+      // Not the route's own 429 (e.g. a proxy); fall through to the generic text
+    }
+    const retryAfter = data?.rateLimit?.retryAfterSeconds ?? Number(response.headers.get("retry-after"));
+    const rateLimitMessage: ChatMessage = {
+      id: crypto.randomUUID(),
+      role: "assistant",
+      kind: "answer",
+      content:
+        data?.message?.content ||
+        `Too many messages. Please wait ${retryAfter > 0 ? `${retryAfter} seconds` : "a moment"} and try again.`,
+    };
+    setMessages((prev) => [...prev, rateLimitMessage]);
+  };
+
+  // Apply a full chat response (JSON body or final stream event).
+  // pendingId: streamed placeholder message to replace, if any
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const applyChatResponse = (data: any, pendingId: string | null) => {
+    console.log("[Discover] API Response:", {
+      requestId: data.requestId,
+      hasMessage: !!data.message,
+      hasChatState: !!data.chatState,
+      isPatch: data.type === "patch",
+      messageContent: data.message?.content?.substring(0, 100),
+      hasRestaurants: Array.isArray(data.message?.restaurants) && data.message.restaurants.length > 0,
+      restaurantCount: Array.isArray(data.message?.restaurants) ? data.message.restaurants.length : 0,
+      restaurants: data.message?.restaurants,
+    });
+    if (data.sessionId) setSessionId(data.sessionId);
+
+    // FIX 2: Handle patch responses (from "show more from X" typed commands)
+    if (data.type === "patch") {
+      console.log("[Discover] Handling patch response for restaurant:", data.restaurantId);
+
+      // Find the latest message containing this restaurant and merge dishes
+      setMessages((prev) => {
+        prev = prev.filter((m) => m.id !== pendingId);
+        // Find the most recent message with this restaurant
+        for (let i = prev.length - 1; i >= 0; i--) {
+          const msg = prev[i];
+          if (msg.restaurants?.some((r) => r.id === data.restaurantId)) {
+            // Found it - update this message
+            const updated = [...prev];
+            updated[i] = {
+              ...msg,
+              restaurants: msg.restaurants?.map((r) => {
+                if (r.id !== data.restaurantId) return r;
+                // Merge new dishes (dedupe by id)
+                const existingIds = new Set(r.matches?.map((m) => m.id) || []);
+                const newDishes = (data.appendDishes || []).filter(
+                  (d: { id: string }) => !existingIds.has(d.id)
+                );
+                return {
+                  ...r,
+                  matches: [...(r.matches || []), ...newDishes],
+                  pagination: data.pagination,
+                };
+              }),
+            };
+            return updated;
+          }
+        }
+        return prev; // No matching message found
+      });
+
+      // Update chatState from patch response
+      if (data.chatState) {
+        setChatState(prev => ({
+          ...prev,
+          ...data.chatState,
+          preferred_language: prev.preferred_language ?? data.chatState?.preferred_language ?? null,
+        }));
+      }
+      return; // Don't add new message for patch responses
+    }
+
+    // Check if response has the expected structure
+    if (!data.message || !data.chatState) {
+      throw new Error("Invalid response format from server");
+    }
+
+    const assistantMessage: ChatMessage = data.message;
+    const newChatState: ChatState = data.chatState;
+
+    // Ensure restaurants is always an array and never reuse old cards
+    const processedMessage: ChatMessage = {
+      ...assistantMessage,
+      requestId: data.requestId,
+      restaurants: Array.isArray(assistantMessage.restaurants) && assistantMessage.restaurants.length > 0
+        ? assistantMessage.restaurants
+        : [],
+    };
+
+    console.log("[Discover] Processed message:", {
+      id: processedMessage.id,
+      role: processedMessage.role,
+      contentLength: typeof processedMessage.content === "string" ? processedMessage.content.length : 0,
+      hasRestaurants: Array.isArray(processedMessage.restaurants) && processedMessage.restaurants.length > 0,
+      restaurantCount: Array.isArray(processedMessage.restaurants) ? processedMessage.restaurants.length : 0,
+    });
+
+    // Update state (replace the streamed placeholder in place so cards don't jump)
+    setMessages((prev) => {
+      const pendingIndex = pendingId ? prev.findIndex((m) => m.id === pendingId) : -1;
+      if (pendingIndex === -1) return [...prev, processedMessage];
+      const updated = [...prev];
+      updated[pendingIndex] = processedMessage;
+      return updated;
+    });
+    setChatState(prev => ({
+      ...prev,
+      ...newChatState,
+      preferred_language: prev.preferred_language ?? newChatState?.preferred_language ?? null,
+    }));
+  };
+
+  const requestLocation = (): Promise<GeoPoint | null> => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) return Promise.resolve(null);
+    setIsLocating(true);
+    return new Promise((resolve) => {
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          const point = { lat: position.coords.latitude, lng: position.coords.longitude };
+          setLocation(point);
+          setIsLocating(false);
+          resolve(point);
+        },
+        (error) => {
+          console.warn("[discover] Geolocation unavailable:", error.message);
+          setIsLocating(false);
+          resolve(null);
+        },
+        { enableHighAccuracy: false, timeout: 8000, maximumAge: 5 * 60 * 1000 }
+      );
+    });
+  };
+
+  const handleLocationToggle = () => {
+    if (location) {
+      setLocation(null);
+    } else {
+      void requestLocation();
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const trimmedInput = input.trim();
@@ -99,6 +312,18 @@ export default function DiscoverPage() {
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
     setIsLoading(true);
+    const overrideForThisSearch = profileOverride;
+    setProfileOverride(null);
+
+    // "near me" / "within 2 km" / "closest" needs coordinates: ask once, the server explains if we still have none
+    let searchLocation = location;
+    if (!searchLocation) {
+      const locationIntent = detectLocationIntent(trimmedInput);
+      const wantsClosest = detectSort(trimmedInput) === "distance";
+      if ((locationIntent.nearMe || locationIntent.radiusKm || wantsClosest) && !locationIntent.landmark) {
+        searchLocation = await requestLocation();
+      }
+    }
 
     try {
       // Prepare messages for API (only user and assistant, no system)
@@ -124,18 +349,29 @@ export default function DiscoverPage() {
         menuUrl: undefined,
       });
 
-      // Call API
-      const response = await fetch("/api/discover/chat", {
+      // Call API in streaming mode: cards render as soon as search finishes,
+      // the summary text and chips arrive in the final "message" event
+      const response = await fetch("/api/discover/chat?stream=1", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Accept: "text/event-stream",
         },
         body: JSON.stringify({
           messages: apiMessages,
-          chatState,
+          sessionId,
+          chatState: pickClientChatState(chatState),
+          profileOverride: overrideForThisSearch ?? undefined,
+          location: searchLocation ?? undefined,
+          onlyAvailable: onlyAvailable || undefined,
         }),
       });
 
+      if (response.status === 429) {
+        await showRateLimited(response);
+        return;
+      }
+
       if (!response.ok) {
         // Try to get error message from response
         let errorText = "Failed to get response";
@@ -148,94 +384,56 @@ export default function DiscoverPage() {
         throw new Error(errorText);
       }
 
-      const data = await response.json();
-
-      console.log("[Discover] API Response:", {
-        hasMessage: !!data.message,
-        hasChatState: !!data.chatState,
-        isPatch: data.type === "patch",
-        messageContent: data.message?.content?.substring(0, 100),
-        hasRestaurants: Array.isArray(data.message?.restaurants) && data.message.restaurants.length > 0,
-        restaurantCount: Array.isArray(data.message?.restaurants) ? data.message.restaurants.length : 0,
-        restaurants: data.message?.restaurants,
-      });
-
-      // FIX 2: Handle patch responses (from "show more from X" typed commands)
-      if (data.type === "patch") {
-        console.log("[Discover] Handling patch response for restaurant:", data.restaurantId);
-
-        // Find the latest message containing this restaurant and merge dishes
-        setMessages((prev) => {
-          // Find the most recent message with this restaurant
-          for (let i = prev.length - 1; i >= 0; i--) {
-            const msg = prev[i];
-            if (msg.restaurants?.some((r) => r.id === data.restaurantId)) {
-              // Found it - update this message
-              const updated = [...prev];
-              updated[i] = {
-                ...msg,
-                restaurants: msg.restaurants?.map((r) => {
-                  if (r.id !== data.restaurantId) return r;
-                  // Merge new dishes (dedupe by id)
-                  const existingIds = new Set(r.matches?.map((m) => m.id) || []);
-                  const newDishes = (data.appendDishes || []).filter(
-                    (d: { id: string }) => !existingIds.has(d.id)
-                  );
-                  return {
-                    ...r,
-                    matches: [...(r.matches || []), ...newDishes],
-                    pagination: data.pagination,
-                  };
-                }),
-              };
-              return updated;
-            }
-          }
-          return prev; // No matching message found
-        });
+      // Fallback: server answered with plain JSON
+      if (!response.headers.get("content-type")?.includes("text/event-stream")) {
+        applyChatResponse(await response.json(), null);
+        return;
+      }
 
-        // Update chatState from patch response
-        if (data.chatState) {
-          setChatState(prev => ({
-            ...prev,
-            ...data.chatState,
-            preferred_language: prev.preferred_language ?? data.chatState?.preferred_language ?? null,
-          }));
+      const pendingId = crypto.randomUUID();
+      let finalData: unknown = null;
+      let streamError: string | null = null;
+
+      await readDiscoverStream(response, (event) => {
+        switch (event.type) {
+          case "plan":
+            setPendingStage(event.action === "SEARCH" ? "Searching restaurants..." : "Thinking...");
+            break;
+          case "restaurants":
+            // Show cards right away; content is filled in by the summary
+            setPendingStage("Writing summary...");
+            setMessages((prev) => [
+              ...prev.filter((m) => m.id !== pendingId),
+              { id: pendingId, role: "assistant", kind: "results", content: "", restaurants: event.restaurants },
+            ]);
+            break;
+          case "summary":
+            // Reply text and chips before the final message (which only adds session state)
+            setMessages((prev) => {
+              const pending = prev.find((m) => m.id === pendingId);
+              return [
+                ...prev.filter((m) => m.id !== pendingId),
+                pending
+                  ? { ...pending, content: event.content, followupChips: event.followupChips }
+                  : { id: pendingId, role: "assistant", kind: "answer", content: event.content, followupChips: event.followupChips },
+              ];
+            });
+            break;
+          case "message":
+            finalData = event.response;
+            break;
+          case "error":
+            streamError = event.error;
+            break;
         }
-        return; // Don't add new message for patch responses
-      }
+      });
 
-      // Check if response has the expected structure
-      if (!data.message || !data.chatState) {
-        throw new Error("Invalid response format from server");
+      if (!finalData) {
+        setMessages((prev) => prev.filter((m) => m.id !== pendingId));
+        throw new Error(streamError || "Stream ended without a response");
       }
 
-      const assistantMessage: ChatMessage = data.message;
-      const newChatState: ChatState = data.chatState;
-
-      // Ensure restaurants is always an array and never reuse old cards
-      const processedMessage: ChatMessage = {
-        ...assistantMessage,
-        restaurants: Array.isArray(assistantMessage.restaurants) && assistantMessage.restaurants.length > 0
-          ? assistantMessage.restaurants
-          : [],
-      };
-
-      console.log("[Discover] Processed message:", {
-        id: processedMessage.id,
-        role: processedMessage.role,
-        contentLength: typeof processedMessage.content === "string" ? processedMessage.content.length : 0,
-        hasRestaurants: Array.isArray(processedMessage.restaurants) && processedMessage.restaurants.length > 0,
-        restaurantCount: Array.isArray(processedMessage.restaurants) ? processedMessage.restaurants.length : 0,
-      });
-
-      // Update state
-      setMessages((prev) => [...prev, processedMessage]);
-      setChatState(prev => ({
-        ...prev,
-        ...newChatState,
-        preferred_language: prev.preferred_language ?? newChatState?.preferred_language ?? null,
-      }));
+      applyChatResponse(finalData, pendingId);
     } catch (error) {
       console.error("[Discover] Error:", error);
       const errorMessage: ChatMessage = {
@@ -250,6 +448,7 @@ export default function DiscoverPage() {
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
       setIsLoading(false);
+      setPendingStage(null);
     }
   };
 
@@ -307,7 +506,9 @@ export default function DiscoverPage() {
           ui_action: "LOAD_MORE_RESTAURANT",
           targetRestaurantId: restaurantId,
           offset,
-          chatState,
+          onlyAvailable: onlyAvailable || undefined,
+          sessionId,
+          chatState: pickClientChatState(chatState),
         }),
       });
 
@@ -316,6 +517,7 @@ export default function DiscoverPage() {
       }
 
       const data = await response.json();
+      if (data.sessionId) setSessionId(data.sessionId);
 
       if (data.type === "patch") {
         // Update the existing message's restaurant card in-place
@@ -356,6 +558,55 @@ export default function DiscoverPage() {
     }
   };
 
+  // Sort chips: re-run the last search in another order (no re-parsing) and swap the cards in place
+  const handleSort = async (messageId: string, sort: SortOrder) => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/discover/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          messages: [], // Not needed for UI action
+          ui_action: "SORT_RESULTS",
+          sort,
+          sessionId,
+          chatState: pickClientChatState(chatState),
+          location: location ?? undefined,
+          onlyAvailable: onlyAvailable || undefined,
+        }),
+      });
+
+      if (response.status === 429) {
+        await showRateLimited(response);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to sort: ${response.status}`);
+      }
+
+      const data: DiscoverChatResponse = await response.json();
+      if (data.sessionId) setSessionId(data.sessionId);
+
+      const sorted: ChatMessage = { ...data.message, requestId: data.requestId };
+      setMessages((prev) =>
+        sorted.restaurants && sorted.restaurants.length > 0
+          ? prev.map((msg) => (msg.id === messageId ? { ...sorted, id: messageId } : msg))
+          : [...prev, sorted]
+      );
+      setChatState((prev) => ({
+        ...prev,
+        ...data.chatState,
+        preferred_language: prev.preferred_language ?? data.chatState?.preferred_language ?? null,
+      }));
+    } catch (error) {
+      console.error("[Discover] Sort error:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleMenuAskQuestion = async (question: string) => {
     // Add user message
     const userMessage: ChatMessage = {
@@ -397,10 +648,17 @@ export default function DiscoverPage() {
         },
         body: JSON.stringify({
           messages: apiMessages,
-          chatState, // Pass current chatState (should be restaurant mode)
+          sessionId,
+          chatState: pickClientChatState(chatState), // Should be restaurant mode
+          onlyAvailable: onlyAvailable || undefined,
         }),
       });
 
+      if (response.status === 429) {
+        await showRateLimited(response);
+        return;
+      }
+
       if (!response.ok) {
         let errorText = "Failed to get response";
         try {
@@ -413,6 +671,7 @@ export default function DiscoverPage() {
       }
 
       const data = await response.json();
+      if (data.sessionId) setSessionId(data.sessionId);
 
       if (!data.message || !data.chatState) {
         throw new Error("Invalid response format from server");
@@ -440,6 +699,11 @@ export default function DiscoverPage() {
     }
   };
 
+  // Sort chips re-run the last search, so they sit under the newest multi-restaurant results
+  const latestResultsId = messages
+    .filter((m) => m.role === "assistant" && m.kind !== "restaurant_profile" && (m.restaurants?.length ?? 0) > 1)
+    .at(-1)?.id;
+
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-slate-50 via-blue-50/30 to-indigo-50/50">
       {/* Premium Header with Glassmorphism */}
@@ -484,6 +748,7 @@ export default function DiscoverPage() {
                     menuUrl={message.menuUrl || null}
                     onAskQuestion={handleMenuAskQuestion}
                     isLoading={isLoading}
+                    onAddToCart={addMenuItemToCart(message.menu)}
                   />
                 </div>
               )}
@@ -512,6 +777,8 @@ export default function DiscoverPage() {
                           isLoadingMenu={isLoadingMenu}
                           onViewFullMenu={() => fetchMenuForRestaurant(restaurant.id)}
                           onBackToDiscovery={() => collapseMenu(restaurant.id)}
+                          requestId={message.requestId}
+                          onAddToCart={fullMenu && restaurant.accepts_takeaway !== false ? addMenuItemToCart(fullMenu) : undefined}
                         />
                       </div>
                     );
@@ -520,7 +787,7 @@ export default function DiscoverPage() {
                   // Default: render regular restaurant cards
                   return (
                     <div className="mt-4 space-y-4">
-                      {message.restaurants.map((restaurant) => {
+                      {message.restaurants.map((restaurant, position) => {
                         // Per-restaurant expansion: expanded if single restaurant OR this restaurant has loaded more dishes
                         const isSingleRestaurant = message.restaurants!.length === 1;
                         const hasLoadedMore = (restaurant.matches?.length ?? 0) > 3 && restaurant.pagination !== undefined;
@@ -529,6 +796,12 @@ export default function DiscoverPage() {
                         // Cards are clickable unless it's the ONLY restaurant (already focused on it)
                         const isClickable = !isSingleRestaurant;
 
+                        // Search analytics (replies without a requestId, e.g. local messages, are not tracked)
+                        const requestId = message.requestId;
+                        const trackCard = (event: "impression" | "click") => {
+                          if (requestId) trackSearchEvent({ requestId, event, target: "restaurant", restaurantId: restaurant.id, position });
+                        };
+
                         return (
                           <div
                             key={restaurant.id}
@@ -536,7 +809,12 @@ export default function DiscoverPage() {
                                      border border-white/50 shadow-lg shadow-slate-200/50
                                      ${isClickable ? 'cursor-pointer hover:shadow-xl hover:shadow-indigo-200/40 hover:border-indigo-200/50 hover:-translate-y-1' : ''}
                                      transition-all duration-300 ease-out`}
-                            onClick={() => isClickable && handleRestaurantClick(restaurant)}
+                            ref={requestId ? observeImpression(() => trackCard("impression")) : undefined}
+                            onClick={() => {
+                              if (!isClickable) return;
+                              trackCard("click");
+                              handleRestaurantClick(restaurant);
+                            }}
                           >
                             {/* Subtle gradient overlay on hover */}
                             <div className="absolute inset-0 bg-gradient-to-br from-indigo-50/0 to-purple-50/0 group-hover:from-indigo-50/50 group-hover:to-purple-50/30 rounded-2xl transition-all duration-300" />
@@ -572,6 +850,22 @@ export default function DiscoverPage() {
                                       {restaurant.city ? "•" : ""} {restaurant.cuisine_type}
                                     </span>
                                   )}
+                                  {typeof restaurant.distance_km === "number" && (
+                                    <span className="text-slate-400">
+                                      • {formatDistance(restaurant.distance_km)} away
+                                    </span>
+                                  )}
+                                  {typeof restaurant.is_open_now === "boolean" && (
+                                    <span
+                                      className={`px-1.5 py-0.5 rounded text-xs font-medium ${restaurant.is_open_now ? "bg-emerald-50 text-emerald-700" : "bg-slate-100 text-slate-500"}`}
+                                      title={restaurant.today_hours ? `Today: ${restaurant.today_hours}` : undefined}
+                                    >
+                                      {restaurant.is_open_now ? "Open now" : "Closed"}
+                                    </span>
+                                  )}
+                                  {restaurant.hours_note && (
+                                    <span className="text-slate-400">{restaurant.hours_note}</span>
+                                  )}
                                   {/* Show pagination info in expanded mode */}
                                   {isExpanded && restaurant.pagination && (
                                     <span className="text-indigo-500 font-medium">
@@ -660,16 +954,28 @@ export default function DiscoverPage() {
 
                                 {restaurant.matches && restaurant.matches.length > 0 && (() => {
                                   const visibleDishes = isExpanded ? restaurant.matches : restaurant.matches.slice(0, 3);
-                                  const hasAllergens = visibleDishes.some(m => m.tags?.some(t => t.type === "allergen"));
+                                  const isScreened = visibleDishes.some(m => m.allergen_check);
+                                  const hasAllergens = isScreened || visibleDishes.some(m => m.tags?.some(t => t.type === "allergen"));
 
                                   return (
                                     <div className={`mt-4 space-y-3 ${isExpanded ? 'max-h-[500px] overflow-y-auto pr-2' : ''}`}>
                                       {/* Allergen disclaimer - once per container */}
-                                      <AllergenDisclaimer visible={hasAllergens} />
+                                      <AllergenDisclaimer visible={hasAllergens} screened={isScreened} />
 
                                       {/* Dish rows */}
-                                      {visibleDishes.map((m) => (
-                                        <DishRow key={m.id} dish={m} variant="full" showSectionName />
+                                      {visibleDishes.map((m, dishPosition) => (
+                                        <DishRow
+                                          key={m.id}
+                                          dish={m}
+                                          variant="full"
+                                          showSectionName
+                                          requestId={requestId}
+                                          restaurantId={restaurant.id}
+                                          position={dishPosition}
+                                          onAddToCart={restaurant.accepts_takeaway !== false && m.price > 0
+                                            ? () => handleAddToCart({ id: restaurant.id, name: restaurant.name, currency: restaurant.currency ?? "SEK" }, m)
+                                            : undefined}
+                                        />
                                       ))}
 
                                       {/* Load More button for expanded mode with pagination */}
@@ -734,6 +1040,32 @@ export default function DiscoverPage() {
                   )
                 })()}
 
+              {/* Sort chips: latest discovery results only */}
+              {message.id === latestResultsId && chatState.mode === "discovery" && chatState.last_search_params?.intent && (() => {
+                const activeSort = chatState.last_search_params?.intent?.sort ?? "best_match";
+                const chips = SORT_CHIPS.filter((chip) => chip.sort !== "distance" || location);
+
+                return (
+                  <div className="flex flex-wrap items-center gap-2 mt-3 ml-1">
+                    <ArrowUpDown className="h-3.5 w-3.5 text-slate-400" />
+                    {chips.map((chip) => (
+                      <button
+                        key={chip.sort}
+                        onClick={() => handleSort(message.id, chip.sort)}
+                        disabled={isLoading || chip.sort === activeSort}
+                        aria-pressed={chip.sort === activeSort}
+                        className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border transition-colors
+                             disabled:cursor-not-allowed ${chip.sort === activeSort
+                            ? "bg-indigo-600 border-indigo-600 text-white"
+                            : "bg-white border-indigo-100 text-indigo-600 hover:bg-indigo-50 hover:border-indigo-200 disabled:opacity-50"}`}
+                      >
+                        {chip.label}
+                      </button>
+                    ))}
+                  </div>
+                );
+              })()}
+
               {/* Follow-up Chips */}
               {message.role === "assistant" && message.followupChips && message.followupChips.length > 0 && (() => {
                 // Safety Filter: STRICTLY only show chips for restaurant_profile
@@ -772,7 +1104,7 @@ export default function DiscoverPage() {
               <div className="bg-white/80 backdrop-blur-sm rounded-2xl px-5 py-3 shadow-lg border border-white/50">
                 <div className="flex items-center gap-2">
                   <Loader2 className="h-4 w-4 animate-spin text-indigo-500" />
-                  <span className="text-sm text-slate-500">Thinking...</span>
+                  <span className="text-sm text-slate-500">{pendingStage || "Thinking..."}</span>
                 </div>
               </div>
             </div>
@@ -811,9 +1143,40 @@ export default function DiscoverPage() {
             </div>
           )}
 
+          {/* Dietary profile (discovery searches only) */}
+          {chatState.mode !== "restaurant" && (
+            <ProfilePanel
+              override={profileOverride}
+              onOverrideChange={setProfileOverride}
+              disabled={isLoading}
+            />
+          )}
+
+          {/* Sold-out filter (search results; menus have their own toggle) */}
+          <label className="flex items-center gap-2 pt-3 text-sm text-slate-500 cursor-pointer w-fit">
+            <input
+              type="checkbox"
+              checked={onlyAvailable}
+              onChange={(e) => setOnlyAvailable(e.target.checked)}
+              disabled={isLoading}
+            />
+            Only available
+          </label>
+
           {/* Chat Input Form */}
           <div className="py-4">
             <form onSubmit={handleSubmit} className="flex gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleLocationToggle}
+                disabled={isLocating}
+                title={location ? "Stop using my location" : "Search near my location"}
+                aria-pressed={!!location}
+                className={`h-12 w-12 shrink-0 rounded-xl ${location ? "border-indigo-300 bg-indigo-50 text-indigo-600" : "text-slate-500"}`}
+              >
+                {isLocating ? <Loader2 className="h-5 w-5 animate-spin" /> : <MapPin className="h-5 w-5" />}
+              </Button>
               <Input
                 ref={inputRef}
                 value={input}
@@ -841,6 +1204,16 @@ export default function DiscoverPage() {
           </div>
         </div>
       </div>
+
+      <CartPanel cart={cart} sessionId={sessionId} onQuantityChange={changeQuantity} onClear={clearCart} />
+      {addTarget && (
+        <AddToCartDialog
+          key={`${addTarget.restaurant.id}:${addTarget.dish.id}`}
+          target={addTarget}
+          onAdd={addCartItem}
+          onClose={() => setAddTarget(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,157 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import {
+  buildSpanTree,
+  getTraceStore,
+  isTraceDebugEnabled,
+  type SpanAttributeValue,
+  type SpanNode,
+  type TraceRecord,
+} from "@/lib/discover/trace";
+
+/**
+ * Local debug view of discover chat traces (recent requests of this server process)
+ * Usage: /discover/trace?id=<requestId from the chat response or x-request-id>
+ * Not served in production unless DISCOVER_TRACE_DEBUG=1.
+ */
+export const dynamic = "force-dynamic";
+
+function formatValue(value: SpanAttributeValue): string {
+  if (Array.isArray(value)) return `[${value.join(", ")}]`;
+  return String(value);
+}
+
+function SpanRow({ node, total, depth }: { node: SpanNode; total: number; depth: number }) {
+  const { span } = node;
+  const left = total > 0 ? (span.startMs / total) * 100 : 0;
+  const width = total > 0 ? Math.max(0.5, (span.durationMs / total) * 100) : 100;
+  const attributes = Object.entries(span.attributes);
+
+  return (
+    <>
+      <tr className="border-b border-slate-100 align-top">
+        <td className="py-1.5 pr-3 font-mono text-xs whitespace-nowrap" style={{ paddingLeft: `${depth * 16 + 4}px` }}>
+          <span className={span.error ? "text-red-600" : "text-slate-800"}>{span.name}</span>
+          {span.unfinished && <span className="ml-1 text-amber-600">(unfinished)</span>}
+        </td>
+        <td className="py-1.5 pr-3 text-right font-mono text-xs whitespace-nowrap">{span.durationMs.toFixed(1)} ms</td>
+        <td className="py-1.5 pr-3 w-1/3">
+          <div className="relative h-3 rounded bg-slate-100">
+            <div
+              className={`absolute h-3 rounded ${span.error ? "bg-red-400" : "bg-indigo-400"}`}
+              style={{ left: `${left}%`, width: `${Math.min(width, 100 - left)}%` }}
+            />
+          </div>
+        </td>
+        <td className="py-1.5 font-mono text-xs text-slate-600">
+          {attributes.map(([key, value]) => (
+            <span key={key} className="mr-3 inline-block">
+              {key}=<span className="text-slate-900">{formatValue(value)}</span>
+            </span>
+          ))}
+          {span.error && <span className="text-red-600">error={span.error}</span>}
+        </td>
+      </tr>
+      {node.children.map((child) => (
+        <SpanRow key={child.span.id} node={child} total={total} depth={depth + 1} />
+      ))}
+    </>
+  );
+}
+
+function TraceView({ trace }: { trace: TraceRecord }) {
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-slate-600">
+        <span className="font-mono text-slate-900">{trace.requestId}</span> · {new Date(trace.startedAt).toLocaleString()} ·{" "}
+        {trace.durationMs.toFixed(1)} ms · {trace.spans.length} spans
+        {trace.droppedSpans > 0 && <span className="text-amber-600"> ({trace.droppedSpans} dropped)</span>}
+      </div>
+      <table className="w-full border-collapse bg-white">
+        <tbody>
+          {buildSpanTree(trace).map((node) => (
+            <SpanRow key={node.span.id} node={node} total={trace.durationMs} depth={0} />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default async function TracePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ id?: string }>;
+}) {
+  if (!isTraceDebugEnabled()) {
+    notFound();
+  }
+
+  const { id } = await searchParams;
+  const store = getTraceStore();
+  const trace = id ? store.get(id.trim()) : null;
+  const recent = store.recent(50);
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-6">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-semibold text-slate-900">Discover traces</h1>
+          <Link href="/discover" className="text-sm text-indigo-600 hover:underline">
+            Back to discover
+          </Link>
+        </div>
+
+        <form className="flex gap-2" action="/discover/trace">
+          <input
+            name="id"
+            defaultValue={id ?? ""}
+            placeholder="Request id"
+            className="flex-1 rounded border border-slate-300 px-3 py-2 font-mono text-sm"
+          />
+          <button type="submit" className="rounded bg-indigo-600 px-4 py-2 text-sm text-white hover:bg-indigo-700">
+            Show
+          </button>
+        </form>
+
+        {id && !trace && (
+          <p className="text-sm text-amber-700">
+            No trace for <span className="font-mono">{id}</span> in this process (only the latest requests are kept).
+          </p>
+        )}
+        {trace && <TraceView trace={trace} />}
+
+        <div>
+          <h2 className="mb-2 text-sm font-medium text-slate-700">Recent requests</h2>
+          {recent.length === 0 ? (
+            <p className="text-sm text-slate-500">No traces yet. Send a message on /discover.</p>
+          ) : (
+            <table className="w-full border-collapse bg-white text-sm">
+              <tbody>
+                {recent.map((t) => {
+                  const root = t.spans[0];
+                  const action = t.spans.find((s) => s.name.startsWith("action:"))?.name.slice("action:".length);
+                  return (
+                    <tr key={t.requestId} className="border-b border-slate-100">
+                      <td className="py-1.5 pr-3 text-xs text-slate-500 whitespace-nowrap">
+                        {new Date(t.startedAt).toLocaleTimeString()}
+                      </td>
+                      <td className="py-1.5 pr-3 font-mono text-xs">
+                        <Link href={`/discover/trace?id=${encodeURIComponent(t.requestId)}`} className="text-indigo-600 hover:underline">
+                          {t.requestId}
+                        </Link>
+                      </td>
+                      <td className="py-1.5 pr-3 text-xs">{formatValue(root?.attributes.status ?? null)}</td>
+                      <td className="py-1.5 pr-3 text-xs">{action ?? "-"}</td>
+                      <td className="py-1.5 text-right font-mono text-xs">{t.durationMs.toFixed(1)} ms</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { createClient } from "@/lib/supabase/server";
+import { getCatalog } from "@/lib/catalog";
+import { formatMoney, money } from "@/lib/discover/money";
 import { notFound } from "next/navigation";
 
 interface Menu {
@@ -12,6 +13,8 @@ interface Dish {
   name: string;
   description: string | null;
   price: number;
+  is_available: boolean;
+  is_orderable: boolean;
 }
 
 interface Restaurant {
@@ -30,62 +33,37 @@ export default async function MenuPage({
   params: Promise<{ id: string }>;
 }) {
   const { id } = await params;
-  const supabase = await createClient();
+  const catalog = getCatalog();
 
   // Fetch restaurant
-  const { data: restaurant, error: restaurantError } = await supabase
-    .from("restaurants")
-    .select("id, name, city, address, phone, email, cuisine_type")
-    .eq("id", id)
-    .eq("public_searchable", true)
-    .single();
+  const restaurant = await catalog.getRestaurant(id, { publicOnly: true }).catch(() => null);
 
-  if (restaurantError || !restaurant) {
+  if (!restaurant) {
     notFound();
   }
 
   // Fetch menus for this restaurant
-  const { data: menus, error: menusError } = await supabase
-    .from("menus")
-    .select("id, name")
-    .eq("restaurant_id", id)
-    .order("created_at", { ascending: true });
-
-  if (menusError) {
+  const menus = await catalog.getMenus(id).catch((menusError) => {
     console.error("[MenuPage] Error fetching menus:", menusError);
-  }
+    return [];
+  });
 
-  const menuIds = menus?.map((m) => m.id) || [];
+  const menuIds = menus.map((m) => m.id);
 
   // Fetch sections for these menus
-  const { data: sections, error: sectionsError } = await supabase
-    .from("sections")
-    .select("id, name, display_order, menu_id")
-    .in("menu_id", menuIds)
-    .order("display_order", { ascending: true });
-
-  if (sectionsError) {
+  const sections = await catalog.getSections(menuIds).catch((sectionsError) => {
     console.error("[MenuPage] Error fetching sections:", sectionsError);
-  }
+    return [];
+  });
 
   // Fetch dishes for all menus
   let allDishes: (Dish & { menu_id: string; section_id: string | null })[] = [];
   if (menuIds.length > 0) {
-    const { data: dishesData, error: dishesError } = await supabase
-      .from("dishes")
-      .select("id, name, description, price, menu_id, section_id")
-      .in("menu_id", menuIds)
-      .eq("public", true)
-      .order("created_at", { ascending: true }); // Serial order
-
-    if (dishesError) {
+    // Serial order
+    allDishes = await catalog.getDishes({ menuIds, publicOnly: true }).catch((dishesError) => {
       console.error("[MenuPage] Error fetching dishes:", dishesError);
-    } else {
-      allDishes = (dishesData || []) as (Dish & {
-        menu_id: string;
-        section_id: string | null;
-      })[];
-    }
+      return [];
+    });
   }
 
   // Structure the data: Menu -> Sections -> Dishes
@@ -102,9 +80,9 @@ export default async function MenuPage({
     uncategorizedDishes: Dish[]; // Dishes with no section
   }
 
-  const menusWithSections: FullMenu[] = (menus || []).map((menu) => {
+  const menusWithSections: FullMenu[] = menus.map((menu) => {
     // 1. Get sections for this menu
-    const menuSections = (sections || [])
+    const menuSections = sections
       .filter((s) => s.menu_id === menu.id)
       .map((section) => ({
         id: section.id,
@@ -190,6 +168,7 @@ export default async function MenuPage({
                             <div className="flex-1">
                               <h4 className="font-medium text-gray-900 mb-1">
                                 {dish.name}
+                                <AvailabilityBadges dish={dish} />
                               </h4>
                               {dish.description && (
                                 <p className="text-sm text-gray-500 leading-relaxed">
@@ -200,7 +179,7 @@ export default async function MenuPage({
                             <div className="text-right whitespace-nowrap">
                               <span className="font-semibold text-gray-900 block">
                                 {typeof dish.price === "number"
-                                  ? `${dish.price.toFixed(0)} kr`
+                                  ? formatMoney(money(dish.price, restaurant.currency))
                                   : dish.price}
                               </span>
                             </div>
@@ -228,6 +207,7 @@ export default async function MenuPage({
                           <div className="flex-1">
                             <h4 className="font-medium text-gray-900 mb-1">
                               {dish.name}
+                              <AvailabilityBadges dish={dish} />
                             </h4>
                             {dish.description && (
                               <p className="text-sm text-gray-500 leading-relaxed">
@@ -238,7 +218,7 @@ export default async function MenuPage({
                           <div className="text-right whitespace-nowrap">
                             <span className="font-semibold text-gray-900 block">
                               {typeof dish.price === "number"
-                                ? `${dish.price.toFixed(0)} kr`
+                                ? formatMoney(money(dish.price, restaurant.currency))
                                 : dish.price}
                             </span>
                           </div>
@@ -256,3 +236,19 @@ export default async function MenuPage({
   );
 }
 
+function AvailabilityBadges({ dish }: { dish: Dish }) {
+  return (
+    <>
+      {!dish.is_available && (
+        <span className="ml-2 align-middle text-xs font-medium px-2 py-0.5 rounded bg-gray-200 text-gray-600">
+          Sold out
+        </span>
+      )}
+      {!dish.is_orderable && (
+        <span className="ml-2 align-middle text-xs font-medium px-2 py-0.5 rounded bg-amber-100 text-amber-800">
+          In-store only
+        </span>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Minus, Plus } from "lucide-react";
+import type { CartItem, ModifierGroup } from "@/lib/types/discover";
+import {
+    MAX_QUANTITY,
+    defaultSelection,
+    selectedOptions,
+    unitPriceWithOptions,
+    validateSelection,
+    type CartRestaurant,
+} from "@/lib/discover/cart";
+import { formatPriceAdjustment } from "@/lib/discover/modifiers";
+import { formatMoney, money } from "@/lib/discover/money";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+
+export interface AddToCartTarget {
+    restaurant: CartRestaurant;
+    dish: {
+        id: string;
+        name: string;
+        description?: string | null;
+        price: number;
+        modifiers?: ModifierGroup[];
+    };
+}
+
+interface AddToCartDialogProps {
+    target: AddToCartTarget;
+    onAdd: (restaurant: CartRestaurant, item: Omit<CartItem, "line_id">) => void;
+    onClose: () => void;
+}
+
+/** Single-pick groups are radios */
+function isSinglePick(group: ModifierGroup): boolean {
+    return group.modifier_type === "choice" && group.max_selection === 1;
+}
+
+/**
+ * Options and quantity for one dish before it goes into the cart. Mount with a key per dish
+ * so the selection starts from the defaults each time.
+ */
+export function AddToCartDialog({ target, onAdd, onClose }: AddToCartDialogProps) {
+    const { restaurant, dish } = target;
+    const groups = useMemo(() => dish.modifiers ?? [], [dish.modifiers]);
+    const [optionIds, setOptionIds] = useState<string[]>(() => defaultSelection(groups));
+    const [quantity, setQuantity] = useState(1);
+
+    const options = selectedOptions(groups, optionIds);
+    const unitPrice = unitPriceWithOptions(dish.price, options);
+    const problem = validateSelection(groups, optionIds);
+
+    const toggleOption = (group: ModifierGroup, optionId: string) => {
+        setOptionIds(prev => {
+            if (isSinglePick(group)) {
+                const others = new Set(group.options.map(o => o.id));
+                return [...prev.filter(id => !others.has(id)), optionId];
+            }
+            return prev.includes(optionId) ? prev.filter(id => id !== optionId) : [...prev, optionId];
+        });
+    };
+
+    const handleAdd = () => {
+        if (problem) return;
+        onAdd(restaurant, { dish_id: dish.id, name: dish.name, unit_price: unitPrice, quantity, options });
+        onClose();
+    };
+
+    return (
+        <Sheet open onOpenChange={(open) => !open && onClose()}>
+            <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto rounded-t-2xl sm:mx-auto sm:max-w-lg">
+                <SheetHeader>
+                    <SheetTitle>{dish.name}</SheetTitle>
+                    <SheetDescription>
+                        {restaurant.name} · {formatMoney(money(dish.price, restaurant.currency))}
+                    </SheetDescription>
+                </SheetHeader>
+
+                {dish.description && <p className="mt-2 text-sm text-slate-600">{dish.description}</p>}
+
+                <div className="mt-4 space-y-4">
+                    {groups.map(group => (
+                        <fieldset key={group.id}>
+                            <legend className="mb-1 text-sm font-semibold text-slate-700">
+                                {group.name}
+                                {group.min_selection > 0 && <span className="ml-1 text-xs font-normal text-slate-400">required</span>}
+                            </legend>
+                            <div className="space-y-1">
+                                {group.options.map(option => {
+                                    const soldOut = option.is_available === false;
+                                    return (
+                                        <label
+                                            key={option.id}
+                                            className={`flex items-center justify-between gap-2 rounded-lg border border-slate-200 px-3 py-2 text-sm ${soldOut ? "text-slate-400" : "cursor-pointer hover:bg-slate-50"}`}
+                                        >
+                                            <span className="flex items-center gap-2">
+                                                <input
+                                                    type={isSinglePick(group) ? "radio" : "checkbox"}
+                                                    name={group.id}
+                                                    checked={optionIds.includes(option.id)}
+                                                    disabled={soldOut}
+                                                    onChange={() => toggleOption(group, option.id)}
+                                                />
+                                                <span className={soldOut ? "line-through" : ""}>{option.name}</span>
+                                            </span>
+                                            {option.price_adjustment !== 0 && (
+                                                <span className="text-xs text-slate-500">{formatPriceAdjustment(option.price_adjustment)}</span>
+                                            )}
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        </fieldset>
+                    ))}
+                </div>
+
+                {problem && <p className="mt-3 text-xs text-amber-700">{problem}</p>}
+
+                <div className="mt-5 flex items-center gap-3">
+                    <div className="flex items-center gap-2">
+                        <Button type="button" size="sm" variant="outline" onClick={() => setQuantity(q => Math.max(1, q - 1))} disabled={quantity <= 1} aria-label="Fewer">
+                            <Minus className="h-4 w-4" />
+                        </Button>
+                        <span className="w-6 text-center text-sm font-medium">{quantity}</span>
+                        <Button type="button" size="sm" variant="outline" onClick={() => setQuantity(q => Math.min(MAX_QUANTITY, q + 1))} disabled={quantity >= MAX_QUANTITY} aria-label="More">
+                            <Plus className="h-4 w-4" />
+                        </Button>
+                    </div>
+                    <Button type="button" className="flex-1" onClick={handleAdd} disabled={!!problem}>
+                        Add · {formatMoney(money(Math.round(unitPrice * quantity * 100) / 100, restaurant.currency))}
+                    </Button>
+                </div>
+            </SheetContent>
+        </Sheet>
+    );
+}
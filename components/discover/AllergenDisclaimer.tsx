@@ -1,21 +1,24 @@
 "use client";
 
+import { DISCLAIMERS } from "@/lib/discover/tag-helpers";
+
 interface AllergenDisclaimerProps {
     visible?: boolean;
+    screened?: boolean; // Results were filtered for allergens the user is avoiding
     className?: string;
 }
 
 /**
  * Allergen disclaimer bar shown once per menu container (not per dish)
- * Only display if any dish has allergen tags
+ * Only display if any dish has allergen tags or was screened for allergens
  */
-export function AllergenDisclaimer({ visible = true, className = "" }: AllergenDisclaimerProps) {
+export function AllergenDisclaimer({ visible = true, screened = false, className = "" }: AllergenDisclaimerProps) {
     if (!visible) return null;
 
     return (
         <div className={`flex items-center gap-2 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-700 ${className}`}>
             <span>⚠️</span>
-            <span>Dishes may contain allergens. If you have allergies, please contact the restaurant.</span>
+            <span>{screened ? DISCLAIMERS.allergenScreen : "Dishes may contain allergens. If you have allergies, please contact the restaurant."}</span>
         </div>
     );
 }
@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Minus, Plus, ShoppingBag } from "lucide-react";
+import type { Cart, OrderProblem, OrderSummary } from "@/lib/types/discover";
+import { MAX_QUANTITY, cartCount, cartTotal, lineTotal, toPlaceOrderItems } from "@/lib/discover/cart";
+import { formatMoney, money } from "@/lib/discover/money";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+
+interface CartPanelProps {
+    cart: Cart | null;
+    sessionId: string | null;
+    onQuantityChange: (lineId: string, quantity: number) => void;
+    onClear: () => void;
+}
+
+/** "Tue 18:15" in the restaurant's timezone */
+function formatSlot(iso: string, timezone: string | null): string {
+    return new Date(iso).toLocaleString(undefined, {
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        ...(timezone && { timeZone: timezone }),
+    });
+}
+
+/**
+ * Floating cart button and checkout drawer. Orders are pickup, paid in store
+ * (POST /api/discover/orders); the server re-prices the cart and lists what no longer matches.
+ */
+export function CartPanel({ cart, sessionId, onQuantityChange, onClear }: CartPanelProps) {
+    const router = useRouter();
+    const [open, setOpen] = useState(false);
+    const [slots, setSlots] = useState<string[] | null>(null);
+    const [timezone, setTimezone] = useState<string | null>(null);
+    const [name, setName] = useState("");
+    const [phone, setPhone] = useState("");
+    const [pickupTime, setPickupTime] = useState("");
+    const [notes, setNotes] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [problems, setProblems] = useState<OrderProblem[]>([]);
+
+    const restaurantId = cart?.restaurant_id ?? null;
+
+    // Pickup slots move with the clock: reload them each time the drawer opens
+    useEffect(() => {
+        if (!open || !restaurantId) return;
+        let cancelled = false;
+        setSlots(null);
+        fetch(`/api/discover/orders/slots?restaurant_id=${encodeURIComponent(restaurantId)}`)
+            .then(async res => {
+                const data = await res.json();
+                if (!res.ok) throw new Error(data.error || "Failed to load pickup times");
+                return data as { slots: string[]; timezone: string | null };
+            })
+            .then(data => {
+                if (cancelled) return;
+                setSlots(data.slots);
+                setTimezone(data.timezone);
+                setPickupTime(prev => (data.slots.includes(prev) ? prev : data.slots[0] ?? ""));
+            })
+            .catch(err => {
+                if (cancelled) return;
+                setSlots([]);
+                setError(err instanceof Error ? err.message : "Failed to load pickup times");
+            });
+        return () => { cancelled = true; };
+    }, [open, restaurantId]);
+
+    if (!cart) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pickupTime) {
+            setError("Choose a pickup time");
+            return;
+        }
+        setBusy(true);
+        setError(null);
+        setProblems([]);
+        try {
+            const res = await fetch("/api/discover/orders", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    restaurant_id: cart.restaurant_id,
+                    items: toPlaceOrderItems(cart),
+                    customer_name: name,
+                    customer_phone: phone,
+                    pickup_time: pickupTime,
+                    notes: notes.trim() || null,
+                    sessionId,
+                }),
+            });
+            const data: { order?: OrderSummary; redirectUrl?: string | null; error?: string; problems?: OrderProblem[] } = await res.json();
+            if (!res.ok || !data.order) {
+                setProblems(data.problems ?? []);
+                setError(data.problems?.length ? null : data.error || "Failed to place order");
+                return;
+            }
+            onClear();
+            setOpen(false);
+            if (data.redirectUrl) window.location.assign(data.redirectUrl);
+            else router.push(`/discover/orders/${data.order.id}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to place order");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <Sheet open={open} onOpenChange={setOpen}>
+            <button
+                type="button"
+                onClick={() => setOpen(true)}
+                className="fixed bottom-24 right-4 z-40 inline-flex items-center gap-2 rounded-full bg-indigo-600 px-4 py-3 text-sm font-medium text-white shadow-lg hover:bg-indigo-700"
+            >
+                <ShoppingBag className="h-4 w-4" />
+                {cartCount(cart)} · {formatMoney(cartTotal(cart))}
+            </button>
+
+            <SheetContent side="right" className="flex flex-col overflow-y-auto sm:max-w-md">
+                <SheetHeader>
+                    <SheetTitle>Your order</SheetTitle>
+                    <SheetDescription>Pickup from {cart.restaurant_name} · pay in store</SheetDescription>
+                </SheetHeader>
+
+                <ul className="mt-4 space-y-3">
+                    {cart.items.map(line => (
+                        <li key={line.line_id} className="rounded-xl border border-slate-100 bg-slate-50/80 p-3">
+                            <div className="flex justify-between gap-2 text-sm">
+                                <span className="font-medium text-slate-700">{line.name}</span>
+                                <span className="whitespace-nowrap text-slate-600">{formatMoney(money(lineTotal(line), cart.currency))}</span>
+                            </div>
+                            {line.options.length > 0 && (
+                                <div className="mt-0.5 text-xs text-slate-500">{line.options.map(o => o.name).join(", ")}</div>
+                            )}
+                            <div className="mt-2 flex items-center gap-2">
+                                <Button type="button" size="sm" variant="outline" onClick={() => onQuantityChange(line.line_id, line.quantity - 1)} aria-label="Fewer">
+                                    <Minus className="h-3 w-3" />
+                                </Button>
+                                <span className="w-6 text-center text-sm">{line.quantity}</span>
+                                <Button
+                                    type="button"
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => onQuantityChange(line.line_id, line.quantity + 1)}
+                                    disabled={line.quantity >= MAX_QUANTITY}
+                                    aria-label="More"
+                                >
+                                    <Plus className="h-3 w-3" />
+                                </Button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="mt-3 flex justify-between border-t border-slate-200 pt-3 text-sm font-semibold">
+                    <span>Total</span>
+                    <span>{formatMoney(cartTotal(cart))}</span>
+                </div>
+
+                <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+                    <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" required maxLength={80} />
+                    <Input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="Phone" required maxLength={20} />
+                    <select
+                        value={pickupTime}
+                        onChange={(e) => setPickupTime(e.target.value)}
+                        disabled={!slots || slots.length === 0}
+                        className="h-10 w-full rounded-md border border-slate-200 bg-white px-3 text-sm"
+                    >
+                        {!slots && <option value="">Loading pickup times...</option>}
+                        {slots?.length === 0 && <option value="">No pickup times available today</option>}
+                        {slots?.map(slot => (
+                            <option key={slot} value={slot}>Pickup {formatSlot(slot, timezone)}</option>
+                        ))}
+                    </select>
+                    <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        placeholder="Notes for the kitchen (optional)"
+                        maxLength={500}
+                        rows={2}
+                        className="w-full rounded-md border border-slate-200 px-3 py-2 text-sm"
+                    />
+
+                    {problems.length > 0 && (
+                        <ul className="space-y-1 text-xs text-amber-700">
+                            {problems.map((problem, i) => <li key={i}>{problem.message}</li>)}
+                        </ul>
+                    )}
+                    {error && <p className="text-xs text-red-600">{error}</p>}
+
+                    <div className="flex items-center gap-2">
+                        <Button type="submit" className="flex-1" disabled={busy || !pickupTime}>
+                            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : `Place order · ${formatMoney(cartTotal(cart))}`}
+                        </Button>
+                        <Button type="button" variant="ghost" onClick={onClear} disabled={busy} className="text-slate-500">
+                            Empty cart
+                        </Button>
+                    </div>
+                </form>
+            </SheetContent>
+        </Sheet>
+    );
+}
@@ -1,7 +1,13 @@
 "use client";
 
-import React, { useMemo } from "react";
+import React, { useCallback, useMemo } from "react";
+import { Plus } from "lucide-react";
 import type { DishMatch, MenuItem, TagInfo } from "@/lib/types/discover";
+import { allergenLabel } from "@/lib/discover/allergens";
+import { isInStoreOnly, isSoldOut } from "@/lib/discover/availability";
+import { describeModifierGroup } from "@/lib/discover/modifiers";
+import { formatMoney, money } from "@/lib/discover/money";
+import { observeImpression, trackSearchEvent } from "./search-tracking";
 
 // Flexible type that works with both DishMatch (discovery) and MenuItem (full menu)
 type DishRowItem = DishMatch | MenuItem;
@@ -11,6 +17,11 @@ interface DishRowProps {
     variant: "compact" | "full";
     showSectionName?: boolean;
     sectionName?: string; // Optional external section name for MenuItem which doesn't have it
+    // Search analytics: set on discovery results to report impressions and clicks
+    requestId?: string; // Chat reply the dish came from
+    restaurantId?: string;
+    position?: number; // Rank within the restaurant card
+    onAddToCart?: () => void; // Set when the restaurant takes pickup orders
 }
 
 /**
@@ -22,8 +33,22 @@ interface DishRowProps {
  * Tag grouping:
  * - diet + religious → gradient chips (✓ Vegetarian, ✓ Halal)
  * - allergen → "Contains: Gluten, Dairy" line
+ * - allergen_check (user is avoiding allergens) → "May contain" / "Allergens unknown" line
+ * - is_available / is_orderable → "Sold out" / "In-store only" badges
+ * - modifiers → "Spice level: Mild, Medium, Hot" lines, diet-tagged options as chips
+ * - price_money → formatted for its currency ("129 kr", "14,50 €"); a bare price is SEK
+ * - onAddToCart → "Add" button, left out for sold-out and in-store-only dishes
  */
-export const DishRow = React.memo(function DishRow({ dish, variant, showSectionName = false, sectionName }: DishRowProps) {
+export const DishRow = React.memo(function DishRow({
+    dish,
+    variant,
+    showSectionName = false,
+    sectionName,
+    requestId,
+    restaurantId,
+    position = 0,
+    onAddToCart,
+}: DishRowProps) {
     // Memoize tag grouping to avoid recalculating on every render
     const { dietAndReligious, allergens } = useMemo(() => {
         const diet: TagInfo[] = [];
@@ -48,8 +73,34 @@ export const DishRow = React.memo(function DishRow({ dish, variant, showSectionN
     // Get section name from prop or from dish (DishMatch has section_name, MenuItem doesn't)
     const displaySectionName = sectionName || ('section_name' in dish ? dish.section_name : undefined);
 
+    // Options tagged diet/religious ("Vegan cheese" → ✓ Vegan)
+    const modifiers = dish.modifiers ?? [];
+    const taggedOptions = useMemo(() => (dish.modifiers ?? []).flatMap(group =>
+        group.options
+            .filter(option => option.is_available !== false)
+            .flatMap(option => (option.tags ?? [])
+                .filter(tag => tag.type !== "allergen")
+                .map(tag => ({ key: `${option.id}:${tag.id}`, option: option.name, tag: tag.name })))
+    ), [dish.modifiers]);
+
+    // Allergen screening result (only on discovery results when the user avoids allergens)
+    const allergenCheck = 'allergen_check' in dish ? dish.allergen_check : undefined;
+
+    const track = useCallback((event: "impression" | "click") => {
+        if (!requestId || !restaurantId) return;
+        trackSearchEvent({ requestId, event, target: "dish", restaurantId, dishId: dish.id, position });
+    }, [requestId, restaurantId, dish.id, position]);
+    const impressionRef = useMemo(
+        () => (requestId ? observeImpression(() => track("impression")) : undefined),
+        [requestId, track]
+    );
+
     return (
-        <div className={`bg-slate-50/80 rounded-xl ${padding} border border-slate-100`}>
+        <div
+            ref={impressionRef}
+            onClick={requestId ? () => track("click") : undefined}
+            className={`bg-slate-50/80 rounded-xl ${padding} border border-slate-100`}
+        >
             {/* Section name (optional, uppercase) */}
             {showSectionName && displaySectionName && (
                 <div className="text-xs text-slate-400 mb-1 uppercase tracking-wide">
@@ -60,15 +111,37 @@ export const DishRow = React.memo(function DishRow({ dish, variant, showSectionN
             {/* Dish name + price row */}
             <div className="flex justify-between items-start gap-2">
                 <div className="flex-1">
-                    <div className={`font-medium text-slate-700 ${isCompact ? "text-sm" : ""}`}>
+                    <div className={`font-medium ${isSoldOut(dish) ? "text-slate-400" : "text-slate-700"} ${isCompact ? "text-sm" : ""}`}>
                         {dish.name}
+                        {isSoldOut(dish) && (
+                            <span className="ml-1.5 align-middle px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide bg-slate-200 text-slate-600">
+                                Sold out
+                            </span>
+                        )}
+                        {isInStoreOnly(dish) && (
+                            <span className="ml-1.5 align-middle px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide bg-amber-100 text-amber-700">
+                                In-store only
+                            </span>
+                        )}
                     </div>
                 </div>
                 {dish.price !== null && dish.price !== undefined && dish.price > 0 && (
                     <div className={`font-semibold text-indigo-600 whitespace-nowrap ${isCompact ? "text-xs" : "text-sm"}`}>
-                        {dish.price} kr
+                        {formatMoney(dish.price_money ?? money(dish.price))}
                     </div>
                 )}
+                {onAddToCart && !isSoldOut(dish) && !isInStoreOnly(dish) && (
+                    <button
+                        type="button"
+                        onClick={(e) => {
+                            e.stopPropagation(); // Restaurant cards open on click
+                            onAddToCart();
+                        }}
+                        className="inline-flex items-center gap-0.5 px-2 py-0.5 rounded-full text-xs font-medium text-indigo-600 border border-indigo-200 hover:bg-indigo-50"
+                    >
+                        <Plus className="h-3 w-3" /> Add
+                    </button>
+                )}
             </div>
 
             {/* Description */}
@@ -100,6 +173,39 @@ export const DishRow = React.memo(function DishRow({ dish, variant, showSectionN
                     Contains: {allergens.map(t => t.name).join(", ")}
                 </div>
             )}
+
+            {/* Modifier groups ("Spice level: Mild, Medium, Hot") */}
+            {modifiers.length > 0 && (
+                <div className={`text-xs text-slate-500 ${gap}`}>
+                    {modifiers.map(group => (
+                        <div key={group.id}>{describeModifierGroup(group)}</div>
+                    ))}
+                </div>
+            )}
+            {taggedOptions.length > 0 && (
+                <div className={`flex flex-wrap gap-1.5 ${gap}`}>
+                    {taggedOptions.map(({ key, option, tag }) => (
+                        <span
+                            key={key}
+                            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs text-emerald-700 border border-dashed border-emerald-300"
+                        >
+                            ✓ {tag} with {option}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {/* Allergen screening for "no nuts" style searches */}
+            {allergenCheck?.status === "mentioned" && (
+                <div className={`text-xs font-medium text-amber-700 ${gap}`}>
+                    ⚠ May contain {(allergenCheck.mentioned || []).map(allergenLabel).join(", ")} (mentioned in description)
+                </div>
+            )}
+            {allergenCheck?.status === "unknown" && (
+                <div className={`text-xs text-slate-500 ${gap}`}>
+                    Allergens unknown: not tagged by the restaurant
+                </div>
+            )}
         </div>
     );
 });
@@ -1,8 +1,11 @@
 "use client";
 
 import React, { useState, useRef, useEffect, useMemo, useCallback } from "react";
-import { Send, Loader2, ExternalLink } from "lucide-react";
-import type { MenuPayload } from "@/lib/types/discover";
+import { Send, Loader2, ExternalLink, Plus } from "lucide-react";
+import type { MenuItem, MenuPayload } from "@/lib/types/discover";
+import { isInStoreOnly, isSoldOut } from "@/lib/discover/availability";
+import { formatPriceAdjustment } from "@/lib/discover/modifiers";
+import { formatMoney, money } from "@/lib/discover/money";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
@@ -12,10 +15,12 @@ interface InlineMenuCardProps {
   menuUrl?: string | null;
   onAskQuestion: (question: string) => void;
   isLoading?: boolean;
+  onAddToCart?: (item: MenuItem) => void; // "Add" buttons for pickup orders; not shown for sold-out or in-store-only items
 }
 
-export const InlineMenuCard = React.memo(function InlineMenuCard({ menu, menuUrl, onAskQuestion, isLoading = false }: InlineMenuCardProps) {
+export const InlineMenuCard = React.memo(function InlineMenuCard({ menu, menuUrl, onAskQuestion, isLoading = false, onAddToCart }: InlineMenuCardProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [onlyAvailable, setOnlyAvailable] = useState(false);
   const [askInput, setAskInput] = useState("");
   const askInputRef = useRef<HTMLInputElement>(null);
   const cardRef = useRef<HTMLDivElement>(null);
@@ -25,6 +30,7 @@ export const InlineMenuCard = React.memo(function InlineMenuCard({ menu, menuUrl
     menu.sections.map((section) => ({
       ...section,
       items: section.items.filter((item) => {
+        if (onlyAvailable && isSoldOut(item)) return false;
         if (!searchQuery.trim()) return true;
         const query = searchQuery.toLowerCase();
         return (
@@ -33,7 +39,11 @@ export const InlineMenuCard = React.memo(function InlineMenuCard({ menu, menuUrl
         );
       }),
     })).filter((section) => section.items.length > 0),
-    [menu.sections, searchQuery]
+    [menu.sections, searchQuery, onlyAvailable]
+  );
+  const hasSoldOut = useMemo(
+    () => menu.sections.some((section) => section.items.some(isSoldOut)),
+    [menu.sections]
   );
 
   const handleAskSubmit = useCallback((e: React.FormEvent) => {
@@ -80,6 +90,16 @@ export const InlineMenuCard = React.memo(function InlineMenuCard({ menu, menuUrl
           onChange={(e) => setSearchQuery(e.target.value)}
           className="w-full"
         />
+        {hasSoldOut && (
+          <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={onlyAvailable}
+              onChange={(e) => setOnlyAvailable(e.target.checked)}
+            />
+            Show only available
+          </label>
+        )}
 
         {/* Disclaimers - show when relevant tags are present */}
         {(() => {
@@ -111,7 +131,7 @@ export const InlineMenuCard = React.memo(function InlineMenuCard({ menu, menuUrl
       <div className="flex-1 overflow-y-auto px-4 py-4" ref={cardRef}>
         {filteredSections.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
-            {searchQuery ? "No items found matching your search." : "No menu items available."}
+            {searchQuery || onlyAvailable ? "No items found matching your search." : "No menu items available."}
           </div>
         ) : (
           <div className="space-y-6">
@@ -132,7 +152,19 @@ export const InlineMenuCard = React.memo(function InlineMenuCard({ menu, menuUrl
                     <div key={item.id} className="border-b pb-3 last:border-b-0">
                       <div className="flex justify-between items-start gap-4">
                         <div className="flex-1">
-                          <h4 className="font-medium text-sm">{item.name}</h4>
+                          <h4 className={`font-medium text-sm ${isSoldOut(item) ? "text-muted-foreground" : ""}`}>
+                            {item.name}
+                            {isSoldOut(item) && (
+                              <span className="ml-2 align-middle px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase bg-gray-200 text-gray-600">
+                                Sold out
+                              </span>
+                            )}
+                            {isInStoreOnly(item) && (
+                              <span className="ml-2 align-middle px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase bg-amber-100 text-amber-800">
+                                In-store only
+                              </span>
+                            )}
+                          </h4>
                           {item.description && (
                             <p className="text-xs text-muted-foreground mt-1">{item.description}</p>
                           )}
@@ -193,12 +225,49 @@ export const InlineMenuCard = React.memo(function InlineMenuCard({ menu, menuUrl
                               </div>
                             );
                           })()}
+                          {/* Modifier groups: options with price adjustments and option tags */}
+                          {(item.modifiers || []).length > 0 && (
+                            <div className="mt-2 space-y-1">
+                              {(item.modifiers || []).map((group) => (
+                                <div key={group.id} className="text-xs">
+                                  <span className="font-medium text-muted-foreground">{group.name}: </span>
+                                  {group.options.map((option, i) => (
+                                    <span key={option.id} className={option.is_available === false ? "line-through text-muted-foreground" : ""}>
+                                      {i > 0 && ", "}
+                                      {option.name}
+                                      {option.price_adjustment !== 0 && (
+                                        <span className="text-muted-foreground"> ({formatPriceAdjustment(option.price_adjustment)})</span>
+                                      )}
+                                      {(option.tags || []).filter(t => t.type !== 'allergen').map((tag) => (
+                                        <span key={tag.id} className="ml-1 inline-flex items-center px-1.5 rounded text-[10px] font-medium bg-green-100 text-green-800 border border-green-200">
+                                          {tag.name}
+                                        </span>
+                                      ))}
+                                    </span>
+                                  ))}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex flex-col items-end gap-1.5">
+                          {item.price !== null && item.price !== undefined && (
+                            <div className="text-sm font-semibold whitespace-nowrap">
+                              {typeof item.price === "number" ? formatMoney(item.price_money ?? money(item.price, menu.currency)) : item.price}
+                            </div>
+                          )}
+                          {onAddToCart && typeof item.price === "number" && !isSoldOut(item) && !isInStoreOnly(item) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => onAddToCart(item)}
+                              className="h-7 px-2 text-xs"
+                            >
+                              <Plus className="h-3 w-3" />
+                              Add
+                            </Button>
+                          )}
                         </div>
-                        {item.price !== null && item.price !== undefined && (
-                          <div className="text-sm font-semibold whitespace-nowrap">
-                            {typeof item.price === "number" ? `${item.price.toFixed(0)} kr` : item.price}
-                          </div>
-                        )}
                       </div>
                     </div>
                   ))}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, CheckCircle2, Clock, XCircle } from "lucide-react";
+import type { OrderStatus, OrderSummary } from "@/lib/types/discover";
+import { formatMoney } from "@/lib/discover/money";
+import { Card } from "@/components/ui/card";
+
+const POLL_INTERVAL_MS = 15_000;
+
+const STATUS_TEXT: Record<OrderStatus, string> = {
+    pending_payment: "Waiting for payment",
+    placed: "Sent to the restaurant",
+    accepted: "Accepted, the kitchen is on it",
+    completed: "Picked up",
+    cancelled: "Cancelled by the restaurant",
+};
+
+// Nothing changes after these
+const FINAL_STATUSES: OrderStatus[] = ["completed", "cancelled"];
+
+/**
+ * Live status of a discover order (GET /api/discover/orders/[id], polled until it is
+ * completed or cancelled)
+ */
+export function OrderStatusView({ initialOrder }: { initialOrder: OrderSummary }) {
+    const [order, setOrder] = useState(initialOrder);
+    const isFinal = FINAL_STATUSES.includes(order.status);
+
+    useEffect(() => {
+        if (isFinal) return;
+        const timer = setInterval(() => {
+            fetch(`/api/discover/orders/${order.id}`, { cache: "no-store" })
+                .then(res => (res.ok ? res.json() : null))
+                .then(data => {
+                    if (data?.order) setOrder(data.order);
+                })
+                .catch(err => console.error("[OrderStatusView] Failed to refresh order:", err));
+        }, POLL_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [order.id, isFinal]);
+
+    const pickup = new Date(order.pickup_time).toLocaleString(undefined, {
+        weekday: "long",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+
+    return (
+        <div className="space-y-4">
+            <Link href="/discover" className="inline-flex items-center gap-1 text-sm text-indigo-600 hover:underline">
+                <ArrowLeft className="h-4 w-4" /> Back to discover
+            </Link>
+
+            <Card className="p-5 space-y-4">
+                <div className="flex items-start gap-3">
+                    {order.status === "cancelled" ? (
+                        <XCircle className="h-6 w-6 shrink-0 text-red-500" />
+                    ) : order.status === "completed" ? (
+                        <CheckCircle2 className="h-6 w-6 shrink-0 text-green-600" />
+                    ) : (
+                        <Clock className="h-6 w-6 shrink-0 text-indigo-500" />
+                    )}
+                    <div>
+                        <h1 className="text-lg font-semibold text-slate-900">{STATUS_TEXT[order.status]}</h1>
+                        <p className="text-sm text-slate-600">
+                            Pickup at {order.restaurant_name}, {pickup}
+                        </p>
+                        {order.payment_method === "pay_in_store" && order.payment_status === "unpaid" && (
+                            <p className="mt-1 text-xs text-slate-500">Pay in store when you pick up</p>
+                        )}
+                    </div>
+                </div>
+
+                <ul className="divide-y divide-slate-100 border-y border-slate-100">
+                    {order.items.map((item, i) => (
+                        <li key={`${item.dish_id ?? item.name}-${i}`} className="flex justify-between gap-3 py-2 text-sm">
+                            <div>
+                                <span className="text-slate-800">{item.quantity} × {item.name}</span>
+                                {item.options.length > 0 && (
+                                    <div className="text-xs text-slate-500">{item.options.join(", ")}</div>
+                                )}
+                            </div>
+                            <span className="whitespace-nowrap text-slate-600">
+                                {formatMoney({ ...item.unit_price, amount: Math.round(item.unit_price.amount * item.quantity * 100) / 100 })}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="flex justify-between text-sm font-semibold">
+                    <span>Total</span>
+                    <span>{formatMoney(order.total)}</span>
+                </div>
+
+                {order.notes && <p className="text-xs text-slate-500">Notes: {order.notes}</p>}
+                <p className="text-xs text-slate-400">Order {order.id.slice(0, 8)} · {order.customer_name}</p>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, SlidersHorizontal, X } from "lucide-react";
+import type { DietaryProfile, ProfileOverride } from "@/lib/types/discover";
+import { ALLERGEN_OPTIONS, allergenLabel } from "@/lib/discover/allergens";
+import { EMPTY_PROFILE, isEmptyProfile, resolveEffectiveProfile } from "@/lib/discover/profile/apply";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const DIETARY_OPTIONS = ["vegetarian", "vegan", "halal", "kosher", "gluten-free", "lactose-free"];
+
+interface ProfilePanelProps {
+    override: ProfileOverride | null; // Applies to the next search only; cleared by the page after sending
+    onOverrideChange: (override: ProfileOverride | null) => void;
+    disabled?: boolean;
+}
+
+function toggle(values: string[], value: string): string[] {
+    return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+function summarize(profile: DietaryProfile): string {
+    const parts = [
+        ...profile.dietary,
+        ...(profile.allergy.length > 0 ? [`no ${profile.allergy.map(allergenLabel).join(", ").toLowerCase()}`] : []),
+        ...(profile.city ? [profile.city] : []),
+        ...(profile.budgetMaxSek !== null ? [`≤ ${profile.budgetMaxSek} kr`] : []),
+    ];
+    return parts.join(" · ");
+}
+
+/**
+ * Saved dietary profile (GET/PUT/DELETE /api/discover/profile) with a per-search override.
+ * The server merges the saved profile into every search; the override only rides along with the next message.
+ */
+export function ProfilePanel({ override, onOverrideChange, disabled = false }: ProfilePanelProps) {
+    const [profile, setProfile] = useState<DietaryProfile>(EMPTY_PROFILE);
+    const [saved, setSaved] = useState(false);
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState<DietaryProfile>(EMPTY_PROFILE);
+    const [budgetInput, setBudgetInput] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch("/api/discover/profile")
+            .then(res => (res.ok ? res.json() : null))
+            .then(data => {
+                if (cancelled || !data?.profile) return;
+                setProfile(data.profile);
+                setSaved(!!data.saved);
+            })
+            .catch(err => console.error("[ProfilePanel] Failed to load profile:", err));
+        return () => { cancelled = true; };
+    }, []);
+
+    const openEditor = () => {
+        const start = (override && !override.off && resolveEffectiveProfile(profile, override)) || profile;
+        setDraft(start);
+        setBudgetInput(start.budgetMaxSek ? String(start.budgetMaxSek) : "");
+        setError(null);
+        setEditing(true);
+    };
+
+    const readDraft = (): DietaryProfile | null => {
+        const budget = budgetInput.trim() ? Number(budgetInput) : null;
+        if (budget !== null && (!Number.isFinite(budget) || budget <= 0)) {
+            setError("Budget must be a positive number");
+            return null;
+        }
+        return { ...draft, city: draft.city?.trim() || null, budgetMaxSek: budget };
+    };
+
+    const handleSave = async () => {
+        const next = readDraft();
+        if (!next) return;
+        setBusy(true);
+        setError(null);
+        try {
+            const res = await fetch("/api/discover/profile", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(next),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || "Failed to save profile");
+            setProfile(data.profile);
+            setSaved(true);
+            onOverrideChange(null);
+            setEditing(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save profile");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleUseOnce = () => {
+        const next = readDraft();
+        if (!next) return;
+        onOverrideChange({ ...next });
+        setEditing(false);
+    };
+
+    const handleClear = async () => {
+        setBusy(true);
+        setError(null);
+        try {
+            const res = await fetch("/api/discover/profile", { method: "DELETE" });
+            if (!res.ok) throw new Error("Failed to clear profile");
+            setProfile(EMPTY_PROFILE);
+            setSaved(false);
+            onOverrideChange(null);
+            setEditing(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to clear profile");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const hasProfile = saved && !isEmptyProfile(profile);
+    let status: string;
+    if (override?.off) status = "Profile off for next search";
+    else if (override) status = `Next search only: ${summarize(resolveEffectiveProfile(profile, override) ?? EMPTY_PROFILE) || "no preferences"}`;
+    else if (hasProfile) status = summarize(profile);
+    else status = "No dietary profile";
+
+    return (
+        <div className="py-2 border-b border-slate-200/50">
+            <div className="flex items-center gap-2 text-xs text-slate-600">
+                <SlidersHorizontal className="h-3.5 w-3.5 shrink-0 text-indigo-500" />
+                <span className="truncate flex-1" title={status}>{status}</span>
+                {override ? (
+                    <button
+                        type="button"
+                        onClick={() => onOverrideChange(null)}
+                        className="px-2 py-1 rounded-md text-indigo-600 hover:bg-indigo-50"
+                    >
+                        Use saved profile
+                    </button>
+                ) : hasProfile && (
+                    <button
+                        type="button"
+                        onClick={() => onOverrideChange({ off: true })}
+                        disabled={disabled}
+                        className="px-2 py-1 rounded-md text-slate-500 hover:bg-slate-100"
+                    >
+                        Skip for next search
+                    </button>
+                )}
+                <button
+                    type="button"
+                    onClick={() => (editing ? setEditing(false) : openEditor())}
+                    className="px-2 py-1 rounded-md font-medium text-indigo-600 hover:bg-indigo-50"
+                >
+                    {editing ? "Close" : hasProfile ? "Edit" : "Set up"}
+                </button>
+            </div>
+
+            {editing && (
+                <div className="mt-2 space-y-3 rounded-xl border border-slate-200 bg-white/90 p-3 text-sm">
+                    <fieldset>
+                        <legend className="mb-1 text-xs font-semibold text-slate-500">Dietary</legend>
+                        <div className="flex flex-wrap gap-1.5">
+                            {DIETARY_OPTIONS.map(option => (
+                                <label key={option} className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-2 py-0.5 text-xs">
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.dietary.includes(option)}
+                                        onChange={() => setDraft(prev => ({ ...prev, dietary: toggle(prev.dietary, option) }))}
+                                    />
+                                    {option}
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <fieldset>
+                        <legend className="mb-1 text-xs font-semibold text-slate-500">Allergens to avoid</legend>
+                        <div className="flex flex-wrap gap-1.5">
+                            {ALLERGEN_OPTIONS.map(option => (
+                                <label key={option.slug} className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-2 py-0.5 text-xs">
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.allergy.includes(option.slug)}
+                                        onChange={() => setDraft(prev => ({ ...prev, allergy: toggle(prev.allergy, option.slug) }))}
+                                    />
+                                    {option.label}
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <div className="flex gap-2">
+                        <Input
+                            value={draft.city ?? ""}
+                            onChange={(e) => setDraft(prev => ({ ...prev, city: e.target.value }))}
+                            placeholder="Home city"
+                            className="h-8 text-sm"
+                        />
+                        <Input
+                            type="number"
+                            min={1}
+                            value={budgetInput}
+                            onChange={(e) => setBudgetInput(e.target.value)}
+                            placeholder="Max price (kr)"
+                            className="h-8 w-36 text-sm"
+                        />
+                    </div>
+
+                    {error && <p className="text-xs text-red-600">{error}</p>}
+
+                    <div className="flex items-center gap-2">
+                        <Button type="button" size="sm" onClick={handleSave} disabled={busy}>
+                            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save profile"}
+                        </Button>
+                        <Button type="button" size="sm" variant="outline" onClick={handleUseOnce} disabled={busy}>
+                            Next search only
+                        </Button>
+                        {saved && (
+                            <Button type="button" size="sm" variant="ghost" onClick={handleClear} disabled={busy} className="ml-auto text-slate-500">
+                                <X className="h-4 w-4" /> Clear
+                            </Button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,14 +1,20 @@
 "use client";
 
 import React, { useState, useMemo, useCallback } from "react";
-import { Phone, MapPin, Globe, ChevronDown, ChevronUp, ArrowLeft, Search, ShoppingCart, X, CheckCircle2, AlertCircle } from "lucide-react";
+import { Phone, MapPin, Globe, ChevronDown, ChevronUp, ArrowLeft, Search, ShoppingCart, X, CheckCircle2, AlertCircle, Clock } from "lucide-react";
 import Link from "next/link";
-import type { RestaurantCard, DishMatch, MenuPayload } from "@/lib/types/discover";
+import type { RestaurantCard, DishMatch, MenuItem, MenuPayload } from "@/lib/types/discover";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { DishRow } from "./DishRow";
 import { AllergenDisclaimer } from "./AllergenDisclaimer";
+import { WEEKDAYS, localClock, parseSchedule, upcomingExceptions } from "@/lib/discover/opening-hours";
+import { formatMoney, money } from "@/lib/discover/money";
+import { observeImpression, trackSearchEvent } from "./search-tracking";
+
+// Monday-first for display
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
 
 interface RestaurantProfileCardProps {
     restaurant: RestaurantCard;
@@ -21,6 +27,10 @@ interface RestaurantProfileCardProps {
     // For in-place menu expansion
     fullMenu?: MenuPayload | null;
     isLoadingMenu?: boolean;
+    // Search analytics: chat reply this card answered (impression + clicks on its actions)
+    requestId?: string;
+    // Pickup ordering from the full menu
+    onAddToCart?: (item: MenuItem) => void;
 }
 
 export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
@@ -33,6 +43,8 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
     isExpanded = false,
     fullMenu,
     isLoadingMenu = false,
+    requestId,
+    onAddToCart,
 }: RestaurantProfileCardProps) {
     const [showMoreAmenities, setShowMoreAmenities] = useState(false);
     const [menuSearchQuery, setMenuSearchQuery] = useState("");
@@ -59,6 +71,22 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
         return list;
     }, [restaurant.amenities]);
 
+    // Weekly hours plus holiday exceptions in the next 30 days
+    const hoursTable = useMemo(() => {
+        if (!restaurant.opening_hours) return null;
+        const schedule = parseSchedule(restaurant.opening_hours, restaurant.opening_hours_exceptions);
+        const clock = localClock(new Date(), null);
+        const today = { weekday: clock.weekday, date: clock.date };
+        return {
+            week: WEEK_ORDER.map(weekday => ({
+                weekday,
+                text: schedule.weekly[weekday]?.text ?? "Closed",
+                isToday: weekday === today.weekday,
+            })),
+            exceptions: upcomingExceptions(schedule, today, 30),
+        };
+    }, [restaurant.opening_hours, restaurant.opening_hours_exceptions]);
+
     const visibleAmenities = showMoreAmenities ? amenitiesList : amenitiesList.slice(0, 3);
     const hasMoreAmenities = amenitiesList.length > 3;
 
@@ -90,6 +118,15 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
         })).filter(menu => menu.sections.length > 0);
     }, [fullMenu, menuSearchQuery]);
 
+    const track = useCallback((event: "impression" | "click") => {
+        if (!requestId) return;
+        trackSearchEvent({ requestId, event, target: "restaurant", restaurantId: restaurant.id, position: 0 });
+    }, [requestId, restaurant.id]);
+    const impressionRef = useMemo(
+        () => (requestId ? observeImpression(() => track("impression")) : undefined),
+        [requestId, track]
+    );
+
     // Build directions URL
     const getDirectionsUrl = useCallback(() => {
         if (restaurant.address) {
@@ -100,7 +137,7 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
 
     return (
         <>
-            <Card className="overflow-hidden bg-white/95 backdrop-blur-sm border border-slate-200 shadow-lg">
+            <Card ref={impressionRef} className="overflow-hidden bg-white/95 backdrop-blur-sm border border-slate-200 shadow-lg">
                 {/* Header Section */}
                 <div className="px-5 pt-5 pb-3">
                     <div className="flex items-start justify-between gap-4">
@@ -137,6 +174,33 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
                         </div>
                     )}
 
+                    {/* Opening hours */}
+                    {hoursTable && (
+                        <details className="mt-2 text-sm text-slate-600">
+                            <summary className="cursor-pointer select-none flex items-center gap-1.5 text-slate-500">
+                                <Clock className="h-4 w-4 text-slate-400" />
+                                Opening hours
+                            </summary>
+                            <dl className="mt-2 ml-6 grid grid-cols-[auto_1fr] gap-x-4 gap-y-0.5">
+                                {hoursTable.week.map(({ weekday, text, isToday }) => (
+                                    <React.Fragment key={weekday}>
+                                        <dt className={`capitalize ${isToday ? "font-semibold text-slate-800" : ""}`}>{WEEKDAYS[weekday]}</dt>
+                                        <dd className={isToday ? "font-semibold text-slate-800" : ""}>{text}</dd>
+                                    </React.Fragment>
+                                ))}
+                            </dl>
+                            {hoursTable.exceptions.length > 0 && (
+                                <ul className="mt-2 ml-6 space-y-0.5 text-amber-700">
+                                    {hoursTable.exceptions.map(({ day, exception }) => (
+                                        <li key={day.date}>
+                                            {day.date}{exception.note ? ` (${exception.note})` : ""}: {exception.text}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </details>
+                    )}
+
                     {/* Address */}
                     {restaurant.address && (
                         <div className="mt-2 text-sm text-slate-600 flex items-center gap-1.5">
@@ -154,6 +218,7 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
                             size="sm"
                             className="flex items-center gap-2"
                             onClick={() => {
+                                track("click");
                                 if (onCall) onCall();
                                 else window.location.href = `tel:${restaurant.phone}`;
                             }}
@@ -169,6 +234,7 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
                             size="sm"
                             className="flex items-center gap-2"
                             onClick={() => {
+                                track("click");
                                 if (onDirections) onDirections();
                                 else window.open(getDirectionsUrl()!, "_blank");
                             }}
@@ -183,7 +249,10 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
                             variant="outline"
                             size="sm"
                             className="flex items-center gap-2"
-                            onClick={() => window.open(restaurant.website!, "_blank")}
+                            onClick={() => {
+                                track("click");
+                                window.open(restaurant.website!, "_blank");
+                            }}
                         >
                             <Globe className="h-4 w-4" />
                             Website
@@ -195,7 +264,10 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
                         variant="default"
                         size="sm"
                         className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white"
-                        onClick={() => setOrderModalOpen(true)}
+                        onClick={() => {
+                            track("click");
+                            setOrderModalOpen(true);
+                        }}
                     >
                         <ShoppingCart className="h-4 w-4" />
                         Order Online
@@ -339,6 +411,7 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
                                                                     key={item.id}
                                                                     dish={item}
                                                                     variant="full"
+                                                                    onAddToCart={onAddToCart && typeof item.price === "number" ? () => onAddToCart(item) : undefined}
                                                                 />
                                                             ))}
                                                         </div>
@@ -368,7 +441,7 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
                                     </div>
                                     {dish.price !== null && dish.price !== undefined && (
                                         <span className="text-sm font-semibold text-slate-600 ml-4">
-                                            {dish.price} kr
+                                            {formatMoney(dish.price_money ?? money(dish.price, restaurant.currency))}
                                         </span>
                                     )}
                                 </div>
@@ -380,7 +453,10 @@ export const RestaurantProfileCard = React.memo(function RestaurantProfileCard({
                             variant="default"
                             size="sm"
                             className="w-full mt-4 bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700"
-                            onClick={onViewFullMenu}
+                            onClick={() => {
+                                track("click");
+                                onViewFullMenu?.();
+                            }}
                             disabled={isLoadingMenu}
                         >
                             {isLoadingMenu ? "Loading..." : "View Full Menu →"}
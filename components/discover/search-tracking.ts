@@ -0,0 +1,87 @@
+"use client";
+
+import type { SearchEvent } from "@/lib/types/discover";
+
+/**
+ * Client side of the discover search analytics: impressions/clicks are queued and
+ * posted to /api/discover/events in batches (sendBeacon, so page unloads don't lose them).
+ * Each result is counted once per chat reply, however often it re-renders.
+ */
+
+const ENDPOINT = "/api/discover/events";
+const FLUSH_DELAY_MS = 2000;
+const MAX_BATCH = 50; // MAX_EVENTS_PER_BATCH on the server
+
+const queue: SearchEvent[] = [];
+let sessionId: string | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+const tracked = new Set<string>();
+
+function send(events: SearchEvent[]) {
+    const body = JSON.stringify({ sessionId, events });
+    if (typeof navigator !== "undefined" && navigator.sendBeacon?.(ENDPOINT, body)) return;
+    fetch(ENDPOINT, { method: "POST", headers: { "Content-Type": "application/json" }, body, keepalive: true })
+        .catch(() => {}); // Analytics only: never surface or retry
+}
+
+export function flushSearchEvents() {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+    while (queue.length > 0) send(queue.splice(0, MAX_BATCH));
+}
+
+/** Chat session the following events belong to (the page keeps this in sync) */
+export function setSearchTrackingSession(currentSessionId: string | null) {
+    sessionId = currentSessionId;
+}
+
+export function trackSearchEvent(event: SearchEvent) {
+    const key = [event.requestId, event.event, event.target, event.restaurantId, event.dishId ?? ""].join("|");
+    if (tracked.has(key)) return;
+    tracked.add(key);
+
+    queue.push(event);
+    if (queue.length >= MAX_BATCH) flushSearchEvents();
+    else if (!flushTimer) flushTimer = setTimeout(flushSearchEvents, FLUSH_DELAY_MS);
+}
+
+if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", flushSearchEvents);
+}
+
+// One observer for every tracked element; each callback fires at most once per mount
+const pending = new WeakMap<Element, () => void>();
+let observer: IntersectionObserver | null = null;
+
+function getObserver(): IntersectionObserver {
+    if (!observer) {
+        observer = new IntersectionObserver(
+            entries => {
+                for (const entry of entries) {
+                    if (!entry.isIntersecting) continue;
+                    const onImpression = pending.get(entry.target);
+                    pending.delete(entry.target);
+                    observer?.unobserve(entry.target);
+                    onImpression?.();
+                }
+            },
+            { threshold: 0.5 }
+        );
+    }
+    return observer;
+}
+
+/** Callback ref: calls onImpression once at least half of the element has been on screen */
+export function observeImpression(onImpression: () => void) {
+    return (node: Element | null) => {
+        if (!node || typeof IntersectionObserver === "undefined") return;
+        pending.set(node, onImpression);
+        getObserver().observe(node);
+        return () => {
+            pending.delete(node);
+            observer?.unobserve(node);
+        };
+    };
+}
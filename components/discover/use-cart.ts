@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import type { Cart, CartItem } from "@/lib/types/discover";
+import { addToCart, setQuantity, type CartRestaurant } from "@/lib/discover/cart";
+import { isCurrencyCode } from "@/lib/discover/money";
+
+/**
+ * The discover cart, kept in localStorage so it survives reloads and the trip to the
+ * order page. The server render has no cart; tabs stay in sync through the storage event.
+ */
+
+const STORAGE_KEY = "discover-cart";
+
+const listeners = new Set<() => void>();
+let cachedRaw: string | null = null;
+let cachedCart: Cart | null = null;
+
+function parseCart(raw: string | null): Cart | null {
+    try {
+        const cart = raw ? (JSON.parse(raw) as Cart) : null;
+        return cart && typeof cart.restaurant_id === "string" && isCurrencyCode(cart.currency) && Array.isArray(cart.items) && cart.items.length > 0
+            ? cart
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+// Same raw value, same object: useSyncExternalStore compares snapshots by identity
+function readCart(): Cart | null {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw !== cachedRaw) {
+        cachedRaw = raw;
+        cachedCart = parseCart(raw);
+    }
+    return cachedCart;
+}
+
+function writeCart(cart: Cart | null) {
+    if (cart) localStorage.setItem(STORAGE_KEY, JSON.stringify(cart));
+    else localStorage.removeItem(STORAGE_KEY);
+    listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+    listeners.add(listener);
+    const onStorage = (e: StorageEvent) => {
+        if (e.key === STORAGE_KEY) listener();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => {
+        listeners.delete(listener);
+        window.removeEventListener("storage", onStorage);
+    };
+}
+
+export function useCart() {
+    const cart = useSyncExternalStore(subscribe, readCart, () => null);
+
+    const add = useCallback((restaurant: CartRestaurant, item: Omit<CartItem, "line_id">) => {
+        writeCart(addToCart(readCart(), restaurant, item));
+    }, []);
+
+    const changeQuantity = useCallback((lineId: string, quantity: number) => {
+        const current = readCart();
+        if (current) writeCart(setQuantity(current, lineId, quantity));
+    }, []);
+
+    const clear = useCallback(() => writeCart(null), []);
+
+    return { cart, add, changeQuantity, clear };
+}
@@ -0,0 +1,68 @@
+/**
+ * Catalog repository: restaurants, menus, dishes, tags and search (env-driven, one per process)
+ *
+ *   CATALOG_STORE=supabase | memory
+ *       default supabase when NEXT_PUBLIC_SUPABASE_URL is set, else memory
+ *   CATALOG_SEED=<path>   seed file for the memory catalog (default tests/fixtures/demo-catalog.json)
+ *
+ * With the memory catalog, the stub LLM provider and the memory session/profile
+ * stores, discover runs without Supabase or API keys (see SETUP.md, "Offline catalog").
+ */
+
+import { getLLMProvider } from "@/lib/llm";
+import { createMemoryCatalog } from "./memory-store";
+import { DEFAULT_CATALOG_SEED, loadCatalogSeed } from "./seed";
+import { createSupabaseCatalog } from "./supabase-store";
+import type { CatalogKind, CatalogRepository } from "./types";
+
+export type {
+    CatalogDish,
+    CatalogKind,
+    CatalogMenu,
+    CatalogModifierGroup,
+    CatalogModifierOption,
+    CatalogRepository,
+    CatalogRestaurant,
+    CatalogSection,
+    CatalogTag,
+    DishQuery,
+    DishSearchOptions,
+    DishSearchRow,
+    Landmark,
+    ModifierType,
+    NearbyRestaurant,
+    RestaurantNameMatch,
+    RestaurantSearchRow,
+    TagAlias,
+    TagQuery,
+    TagType,
+} from "./types";
+export type { CatalogSeed, SeedDish, SeedMenu, SeedModifierGroup, SeedRestaurant, SeedSection } from "./seed";
+export { DEFAULT_CATALOG_SEED, flattenSeed, loadCatalogSeed } from "./seed";
+export { createMemoryCatalog } from "./memory-store";
+export type { MemoryCatalogOptions } from "./memory-store";
+export { createSupabaseCatalog } from "./supabase-store";
+export { similarity, trigrams } from "./trigram";
+
+let cachedCatalog: CatalogRepository | null = null;
+
+function resolveKind(): CatalogKind {
+    const raw = (process.env.CATALOG_STORE || "").toLowerCase();
+    if (raw === "memory" || raw === "supabase") return raw;
+    return process.env.NEXT_PUBLIC_SUPABASE_URL ? "supabase" : "memory";
+}
+
+export function createCatalog(): CatalogRepository {
+    if (resolveKind() === "supabase") return createSupabaseCatalog();
+    return createMemoryCatalog(loadCatalogSeed(process.env.CATALOG_SEED || DEFAULT_CATALOG_SEED), {
+        embed: texts => getLLMProvider().embedMany(texts),
+    });
+}
+
+export function getCatalog(): CatalogRepository {
+    if (!cachedCatalog) {
+        cachedCatalog = createCatalog();
+        console.log("[catalog] store", { kind: cachedCatalog.kind });
+    }
+    return cachedCatalog;
+}
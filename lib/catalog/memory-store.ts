@@ -0,0 +1,312 @@
+/**
+ * In-memory catalog: a seed file served through the same queries and search RPCs
+ * as Supabase, for offline development, the hero suite and tests
+ *
+ * Search emulates the SQL (pg_trgm similarity, ILIKE city filters, tag ANY/ALL
+ * semantics, ordering and limits). Dish embeddings are built on the first semantic
+ * search with the configured embedder; without one semantic search finds nothing,
+ * like a database whose dishes were never embedded.
+ */
+
+import { buildEmbeddingText, resolveEmbeddingTemplate } from "@/lib/embedding-jobs/document";
+import { haversineKm } from "@/lib/discover/geo";
+import { flattenSeed, type CatalogSeed } from "./seed";
+import { similarity } from "./trigram";
+import type {
+    CatalogDish,
+    CatalogModifierGroup,
+    CatalogRepository,
+    CatalogRestaurant,
+    CatalogTag,
+    DishSearchRow,
+    RestaurantSearchRow,
+} from "./types";
+
+export interface MemoryCatalogOptions {
+    /** Batch embedder for dish documents (LLMProvider.embedMany) */
+    embed?: (texts: string[]) => Promise<number[][]>;
+}
+
+function contains(value: string | null | undefined, text: string): boolean {
+    return (value ?? "").toLowerCase().includes(text.toLowerCase());
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+export function createMemoryCatalog(seed: CatalogSeed, opts: MemoryCatalogOptions = {}): CatalogRepository {
+    const tables = flattenSeed(seed);
+    const restaurantsById = new Map(tables.restaurants.map(r => [r.id, r]));
+    const menusById = new Map(tables.menus.map(m => [m.id, m]));
+    const tagsById = new Map(tables.tags.map(t => [t.id, t]));
+    const modifierGroupsById = new Map(tables.modifierGroups.map(g => [g.id, g]));
+    let embeddings: Promise<{ version: string; vectors: Map<string, number[]> }> | null = null;
+
+    const restaurantOf = (dish: CatalogDish) => restaurantsById.get(menusById.get(dish.menu_id)?.restaurant_id ?? "");
+    const tagIdsOf = (dishId: string) => tables.dishTags.get(dishId) ?? [];
+    const tagsOf = (dishId: string) => tagIdsOf(dishId).map(id => tagsById.get(id)).filter((t): t is CatalogTag => !!t);
+    const hasAnyTag = (dishId: string, tagIds?: string[] | null) =>
+        !tagIds || tagIds.length === 0 || tagIdsOf(dishId).some(id => tagIds.includes(id));
+    const hasAllTags = (dishId: string, tagIds?: string[] | null) =>
+        !tagIds || tagIds.length === 0 || tagIds.every(id => tagIdsOf(dishId).includes(id));
+
+    /** Public dishes of public restaurants in the city (ILIKE %city%) */
+    function candidates(city?: string | null): { dish: CatalogDish; restaurant: CatalogRestaurant }[] {
+        return tables.dishes.flatMap(dish => {
+            const restaurant = restaurantOf(dish);
+            if (!dish.public || !restaurant?.public_searchable) return [];
+            if (city && !contains(restaurant.city, city)) return [];
+            return [{ dish, restaurant }];
+        });
+    }
+
+    function toRow(dish: CatalogDish, restaurant: CatalogRestaurant, score: number): DishSearchRow {
+        return {
+            restaurant_id: restaurant.id,
+            restaurant_name: restaurant.name,
+            restaurant_city: restaurant.city,
+            restaurant_address: restaurant.address,
+            dish_id: dish.id,
+            dish_name: dish.name,
+            dish_description: dish.description,
+            dish_price: dish.price,
+            similarity_score: score,
+        };
+    }
+
+    function dishSimilarity(dish: CatalogDish, text: string): number {
+        return Math.max(
+            similarity(dish.name, text),
+            similarity(dish.description ?? "", text),
+            similarity(dish.section_name ?? "", text)
+        );
+    }
+
+    function embedDishes(embed: NonNullable<MemoryCatalogOptions["embed"]>) {
+        if (!embeddings) {
+            embeddings = (async () => {
+                const template = resolveEmbeddingTemplate();
+                const dishes = candidates();
+                const texts = dishes.map(({ dish, restaurant }) => {
+                    const tags = tagsOf(dish.id);
+                    return buildEmbeddingText({
+                        name: dish.name,
+                        description: dish.description,
+                        sectionName: dish.section_name,
+                        tags: tags.map(t => t.name),
+                        aliases: tables.dishAliases.get(dish.id) ?? [],
+                        tagAliases: tables.tagAliases
+                            .filter(a => tags.some(t => t.type === a.tag_type && t.slug === a.tag_slug))
+                            .map(a => a.alias),
+                        cuisine: restaurant.cuisine_type,
+                    }, template);
+                });
+                const vectors = await embed(texts);
+                return {
+                    version: template.version,
+                    vectors: new Map(dishes.map(({ dish }, i) => [dish.id, vectors[i]])),
+                };
+            })();
+            // A failed batch is retried on the next search
+            embeddings.catch(() => {
+                embeddings = null;
+            });
+        }
+        return embeddings;
+    }
+
+    return {
+        kind: "memory",
+
+        async getRestaurant(id, { publicOnly = true } = {}) {
+            const restaurant = restaurantsById.get(id);
+            if (!restaurant || (publicOnly && !restaurant.public_searchable)) return null;
+            return restaurant;
+        },
+
+        async getRestaurants(ids) {
+            return tables.restaurants.filter(r => r.public_searchable && ids.includes(r.id));
+        },
+
+        async findRestaurants({ name, city, limit }) {
+            const found = tables.restaurants
+                .filter(r => r.public_searchable && (!name || contains(r.name, name)) && (!city || contains(r.city, city)))
+                .sort((a, b) => a.name.localeCompare(b.name));
+            return limit ? found.slice(0, limit) : found;
+        },
+
+        async getMenus(restaurantId) {
+            return tables.menus.filter(m => m.restaurant_id === restaurantId);
+        },
+
+        async getSections(menuIds) {
+            return tables.sections
+                .filter(s => menuIds.includes(s.menu_id))
+                .sort((a, b) => a.display_order - b.display_order);
+        },
+
+        async getDishes({ ids, menuIds, restaurantId, publicOnly, text, tagIds, limit }) {
+            const found = tables.dishes.filter(dish =>
+                (!ids || ids.includes(dish.id)) &&
+                (!menuIds || menuIds.includes(dish.menu_id)) &&
+                (!restaurantId || menusById.get(dish.menu_id)?.restaurant_id === restaurantId) &&
+                (!publicOnly || dish.public) &&
+                (!text || contains(dish.name, text) || contains(dish.description, text)) &&
+                (!tagIds || hasAnyTag(dish.id, tagIds))
+            );
+            return limit ? found.slice(0, limit) : found;
+        },
+
+        async getDishTags(dishIds) {
+            const result = new Map<string, CatalogTag[]>();
+            for (const dishId of dishIds) {
+                const tags = tagsOf(dishId);
+                if (tags.length > 0) result.set(dishId, tags);
+            }
+            return result;
+        },
+
+        async getDishModifiers(dishIds) {
+            const result = new Map<string, CatalogModifierGroup[]>();
+            for (const dishId of dishIds) {
+                const groups = (tables.dishModifiers.get(dishId) ?? []).flatMap(id => modifierGroupsById.get(id) ?? []);
+                if (groups.length > 0) result.set(dishId, groups);
+            }
+            return result;
+        },
+
+        async findTags({ slug, type, types, nameContains, limit }) {
+            const found = tables.tags.filter(tag =>
+                (!slug || tag.slug === slug) &&
+                (!type || tag.type === type) &&
+                (!types || types.includes(tag.type)) &&
+                (!nameContains || nameContains.some(text => contains(tag.name, text)))
+            );
+            return limit ? found.slice(0, limit) : found;
+        },
+
+        async findTagAlias(alias) {
+            const key = alias.toLowerCase();
+            return tables.tagAliases.find(a => a.alias.toLowerCase() === key) ?? null;
+        },
+
+        async getLandmarks() {
+            return tables.landmarks;
+        },
+
+        async restaurantsWithinRadius(origin, radiusKm, limit = 200) {
+            return tables.restaurants
+                .flatMap(r => {
+                    if (!r.public_searchable || r.latitude == null || r.longitude == null) return [];
+                    const distance = haversineKm(origin, { lat: r.latitude, lng: r.longitude });
+                    return distance <= radiusKm ? [{ restaurant_id: r.id, restaurant_city: r.city, distance_km: distance }] : [];
+                })
+                .sort((a, b) => a.distance_km - b.distance_km)
+                .slice(0, limit);
+        },
+
+        async searchDishesSemantic(embedding, { city, tagIds, limit = 50 } = {}) {
+            if (!opts.embed) return [];
+            const { version, vectors } = await embedDishes(opts.embed);
+            return candidates(city)
+                .filter(({ dish }) => vectors.has(dish.id) && hasAnyTag(dish.id, tagIds))
+                .map(({ dish, restaurant }) => ({
+                    ...toRow(dish, restaurant, cosineSimilarity(embedding, vectors.get(dish.id)!)),
+                    embedding_version: version,
+                }))
+                .sort((a, b) => b.similarity_score - a.similarity_score)
+                .slice(0, limit);
+        },
+
+        async searchDishesFuzzy(text, { city, tagIds, limit = 50 } = {}) {
+            return candidates(city)
+                .filter(({ dish }) => hasAnyTag(dish.id, tagIds))
+                .map(({ dish, restaurant }) => toRow(dish, restaurant, dishSimilarity(dish, text)))
+                .filter(row => row.similarity_score > 0.1)
+                .sort((a, b) => b.similarity_score - a.similarity_score)
+                .slice(0, limit);
+        },
+
+        async searchRestaurantsFuzzy(text, { city, similarityThreshold = 0.1 } = {}) {
+            const byRestaurant = new Map<string, RestaurantSearchRow>();
+            for (const { dish, restaurant } of candidates(city)) {
+                const score = dishSimilarity(dish, text);
+                if (score <= similarityThreshold) continue;
+
+                let row = byRestaurant.get(restaurant.id);
+                if (!row) {
+                    row = {
+                        restaurant_id: restaurant.id,
+                        restaurant_name: restaurant.name,
+                        restaurant_city: restaurant.city,
+                        restaurant_address: restaurant.address,
+                        matching_dishes: [],
+                    };
+                    byRestaurant.set(restaurant.id, row);
+                }
+                row.matching_dishes.push({
+                    id: dish.id,
+                    name: dish.name,
+                    description: dish.description,
+                    price: dish.price,
+                    section_name: dish.section_name,
+                    similarity: score,
+                });
+            }
+
+            const rows = [...byRestaurant.values()];
+            for (const row of rows) {
+                row.matching_dishes.sort((a, b) => b.similarity - a.similarity || a.name.localeCompare(b.name));
+            }
+            return rows
+                .sort((a, b) =>
+                    b.matching_dishes[0].similarity - a.matching_dishes[0].similarity ||
+                    b.matching_dishes.length - a.matching_dishes.length
+                )
+                .slice(0, 50);
+        },
+
+        async searchDishesByTags(tagIds, { city, limit = 50 } = {}) {
+            return candidates(city)
+                .filter(({ dish }) => hasAnyTag(dish.id, tagIds))
+                .map(({ dish, restaurant }) => toRow(dish, restaurant, 1))
+                .sort((a, b) => a.dish_name.localeCompare(b.dish_name))
+                .slice(0, limit);
+        },
+
+        async searchDishesByTagsStrict(tagIds, { city, queryText, limit = 50 } = {}) {
+            const text = queryText?.trim();
+            return candidates(city)
+                .filter(({ dish }) =>
+                    dish.section_id !== null &&
+                    hasAllTags(dish.id, tagIds) &&
+                    (!text || contains(dish.name, text) || contains(dish.description, text) || contains(dish.section_name, text))
+                )
+                .map(({ dish, restaurant }) => ({
+                    ...toRow(dish, restaurant, 1),
+                    section_name: dish.section_name,
+                    matched_tags: tagsOf(dish.id),
+                }))
+                .sort((a, b) => a.dish_name.localeCompare(b.dish_name))
+                .slice(0, limit);
+        },
+
+        async searchRestaurantsByName(text) {
+            return tables.restaurants
+                .filter(r => r.public_searchable)
+                .map(r => ({ id: r.id, name: r.name, city: r.city, similarity_score: similarity(r.name, text) }))
+                .filter(match => match.similarity_score > 0.2)
+                .sort((a, b) => b.similarity_score - a.similarity_score)
+                .slice(0, 5);
+        },
+    };
+}
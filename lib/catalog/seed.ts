@@ -0,0 +1,219 @@
+/**
+ * Catalog seed files for the in-memory catalog
+ *
+ * A seed nests restaurants -> menus -> sections -> dishes the way an owner builds a
+ * menu; dishes reference tags by slug and the restaurant's modifier groups by id. Missing
+ * restaurant fields default to null (currency to SEK), restaurants and dishes are public,
+ * available and orderable unless marked otherwise.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type {
+    CatalogDish,
+    CatalogMenu,
+    CatalogModifierGroup,
+    CatalogRestaurant,
+    CatalogSection,
+    CatalogTag,
+    Landmark,
+    TagAlias,
+} from "./types";
+
+export const DEFAULT_CATALOG_SEED = "tests/fixtures/demo-catalog.json";
+
+export interface SeedDish {
+    id: string;
+    name: string;
+    description?: string | null;
+    price: number;
+    public?: boolean;
+    /** false = sold out */
+    is_available?: boolean;
+    /** false = in-store only */
+    is_orderable?: boolean;
+    /** Tag slugs */
+    tags?: string[];
+    /** Translated or alternative names (dishes.aliases) */
+    aliases?: string[];
+    /** Ids of the restaurant's modifier groups offered with this dish */
+    modifier_groups?: string[];
+}
+
+export interface SeedModifierGroup {
+    id: string;
+    name: string;
+    modifier_type?: CatalogModifierGroup["modifier_type"];
+    min_selection?: number;
+    max_selection?: number | null;
+    options: {
+        id: string;
+        name: string;
+        price_adjustment?: number;
+        is_available?: boolean;
+        /** Tag slugs */
+        tags?: string[];
+    }[];
+}
+
+export interface SeedSection {
+    id: string;
+    name: string;
+    dishes: SeedDish[];
+}
+
+export interface SeedMenu {
+    id: string;
+    name: string;
+    sections: SeedSection[];
+}
+
+export type SeedRestaurant = Partial<Omit<CatalogRestaurant, "id" | "name">> & {
+    id: string;
+    name: string;
+    menus: SeedMenu[];
+    modifier_groups?: SeedModifierGroup[];
+};
+
+export interface CatalogSeed {
+    tags: CatalogTag[];
+    tagAliases?: TagAlias[];
+    landmarks?: Landmark[];
+    restaurants: SeedRestaurant[];
+}
+
+/** A seed flattened into table rows */
+export interface CatalogTables {
+    restaurants: CatalogRestaurant[];
+    menus: CatalogMenu[];
+    sections: CatalogSection[];
+    dishes: CatalogDish[];
+    /** dish id -> tag ids */
+    dishTags: Map<string, string[]>;
+    /** dish id -> dishes.aliases */
+    dishAliases: Map<string, string[]>;
+    modifierGroups: CatalogModifierGroup[];
+    /** dish id -> modifier group ids */
+    dishModifiers: Map<string, string[]>;
+    tags: CatalogTag[];
+    tagAliases: TagAlias[];
+    landmarks: Landmark[];
+}
+
+// Seed rows get increasing timestamps so "oldest first" follows file order
+const SEED_EPOCH = Date.UTC(2025, 0, 1);
+
+export function loadCatalogSeed(file: string = DEFAULT_CATALOG_SEED): CatalogSeed {
+    const resolved = path.resolve(process.cwd(), file);
+    const parsed = JSON.parse(fs.readFileSync(resolved, "utf-8"));
+    if (!Array.isArray(parsed?.restaurants) || !Array.isArray(parsed?.tags)) {
+        throw new Error(`${file}: not a catalog seed (expected "restaurants" and "tags" arrays)`);
+    }
+    return parsed as CatalogSeed;
+}
+
+export function flattenSeed(seed: CatalogSeed): CatalogTables {
+    const tagsBySlug = new Map<string, CatalogTag>();
+    for (const tag of seed.tags) {
+        if (tagsBySlug.has(tag.slug)) throw new Error(`Catalog seed: duplicate tag slug "${tag.slug}"`);
+        tagsBySlug.set(tag.slug, tag);
+    }
+
+    const tables: CatalogTables = {
+        restaurants: [],
+        menus: [],
+        sections: [],
+        dishes: [],
+        dishTags: new Map(),
+        dishAliases: new Map(),
+        modifierGroups: [],
+        dishModifiers: new Map(),
+        tags: seed.tags,
+        tagAliases: seed.tagAliases ?? [],
+        landmarks: seed.landmarks ?? [],
+    };
+    let rowCount = 0;
+    const createdAt = () => new Date(SEED_EPOCH + rowCount++ * 1000).toISOString();
+    const tagOf = (owner: string, slug: string) => {
+        const tag = tagsBySlug.get(slug);
+        if (!tag) throw new Error(`Catalog seed: ${owner} references unknown tag "${slug}"`);
+        return tag;
+    };
+
+    for (const { menus, modifier_groups: modifierGroups = [], ...restaurant } of seed.restaurants) {
+        tables.restaurants.push({
+            city: null,
+            address: null,
+            cuisine_type: null,
+            phone: null,
+            email: null,
+            website: null,
+            opening_hours: null,
+            opening_hours_exceptions: null,
+            timezone: null,
+            accepts_dine_in: null,
+            accepts_takeaway: null,
+            accepts_delivery: null,
+            accepts_reservations: null,
+            amenities: null,
+            latitude: null,
+            longitude: null,
+            owner_id: null,
+            public_searchable: true,
+            currency: "SEK",
+            ...restaurant,
+        });
+
+        for (const group of modifierGroups) {
+            tables.modifierGroups.push({
+                id: group.id,
+                restaurant_id: restaurant.id,
+                name: group.name,
+                modifier_type: group.modifier_type ?? "addon",
+                min_selection: group.min_selection ?? 0,
+                max_selection: group.max_selection ?? null,
+                options: group.options.map(option => ({
+                    id: option.id,
+                    group_id: group.id,
+                    name: option.name,
+                    price_adjustment: option.price_adjustment ?? 0,
+                    is_available: option.is_available ?? true,
+                    tags: (option.tags ?? []).map(slug => tagOf(`modifier option ${option.id}`, slug)),
+                })),
+            });
+        }
+        const groupIds = new Set(modifierGroups.map(g => g.id));
+
+        for (const menu of menus) {
+            tables.menus.push({ id: menu.id, restaurant_id: restaurant.id, name: menu.name, created_at: createdAt() });
+
+            menu.sections.forEach((section, index) => {
+                tables.sections.push({ id: section.id, menu_id: menu.id, name: section.name, display_order: index });
+
+                for (const dish of section.dishes) {
+                    tables.dishes.push({
+                        id: dish.id,
+                        menu_id: menu.id,
+                        section_id: section.id,
+                        section_name: section.name,
+                        name: dish.name,
+                        description: dish.description ?? null,
+                        price: dish.price,
+                        public: dish.public ?? true,
+                        is_available: dish.is_available ?? true,
+                        is_orderable: dish.is_orderable ?? true,
+                        created_at: createdAt(),
+                    });
+                    tables.dishTags.set(dish.id, (dish.tags ?? []).map(slug => tagOf(`dish ${dish.id}`, slug).id));
+                    tables.dishAliases.set(dish.id, dish.aliases ?? []);
+                    tables.dishModifiers.set(dish.id, (dish.modifier_groups ?? []).map(groupId => {
+                        if (!groupIds.has(groupId)) throw new Error(`Catalog seed: dish ${dish.id} references unknown modifier group "${groupId}"`);
+                        return groupId;
+                    }));
+                }
+            });
+        }
+    }
+
+    return tables;
+}
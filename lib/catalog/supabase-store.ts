@@ -0,0 +1,361 @@
+/**
+ * Supabase catalog: table reads and the search RPCs
+ *
+ * Restaurants, menus, dishes and the search RPCs are read with the request's RLS-scoped
+ * client, so a row the policies hide never reaches discover. Only tags, tag_aliases and
+ * discover_landmarks (not readable by anon everywhere) use the service role when it is
+ * configured. Restaurant reads still filter public_searchable themselves.
+ */
+
+import { createClient, createServiceRoleClient } from "@/lib/supabase/server";
+import type {
+    CatalogDish,
+    CatalogMenu,
+    CatalogModifierGroup,
+    CatalogRepository,
+    CatalogRestaurant,
+    CatalogSection,
+    CatalogTag,
+    DishSearchRow,
+    Landmark,
+    NearbyRestaurant,
+    RestaurantNameMatch,
+    RestaurantSearchRow,
+    TagAlias,
+} from "./types";
+
+const RESTAURANT_COLUMNS = `
+    id, name, city, address, cuisine_type, phone, email, website,
+    opening_hours, opening_hours_exceptions, timezone,
+    accepts_dine_in, accepts_takeaway, accepts_delivery, accepts_reservations,
+    amenities, latitude, longitude, owner_id, public_searchable, currency
+`;
+
+const DISH_COLUMNS = "id, menu_id, section_id, name, description, price, public, is_available, is_orderable, created_at, sections(name)";
+
+type DishRow = Omit<CatalogDish, "section_name"> & { sections: { name: string } | null };
+
+const MODIFIER_GROUP_COLUMNS = `
+    id, restaurant_id, name, modifier_type, min_selection, max_selection,
+    modifier_options(id, group_id, name, price_adjustment, price_extra, is_available, created_at,
+        modifier_option_tags(tags(id, name, slug, type)))
+`;
+
+type ModifierGroupRow = Omit<CatalogModifierGroup, "options" | "modifier_type" | "min_selection"> & {
+    modifier_type: CatalogModifierGroup["modifier_type"] | null;
+    min_selection: number | null;
+    modifier_options: {
+        id: string;
+        group_id: string;
+        name: string;
+        price_adjustment: number | string | null;
+        price_extra: number | string | null;
+        is_available: boolean;
+        created_at: string;
+        modifier_option_tags: { tags: CatalogTag | null }[];
+    }[];
+};
+
+/** Restaurant, menu and dish reads: the request's client, under RLS */
+async function client() {
+    return createClient();
+}
+
+/** Tags, tag aliases and landmarks: reference data, no owner columns */
+async function referenceClient() {
+    return process.env.SUPABASE_SERVICE_ROLE_KEY ? createServiceRoleClient() : createClient();
+}
+
+/** Options oldest first; price_adjustment falls back to the older price_extra column */
+function toModifierGroup(row: ModifierGroupRow): CatalogModifierGroup {
+    return {
+        id: row.id,
+        restaurant_id: row.restaurant_id,
+        name: row.name,
+        modifier_type: row.modifier_type ?? "addon",
+        min_selection: row.min_selection ?? 0,
+        max_selection: row.max_selection,
+        options: [...(row.modifier_options ?? [])]
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .map(option => ({
+                id: option.id,
+                group_id: option.group_id,
+                name: option.name,
+                price_adjustment: Number(option.price_adjustment ?? option.price_extra ?? 0),
+                is_available: option.is_available,
+                tags: option.modifier_option_tags.flatMap(link => (link.tags ? [link.tags] : [])),
+            })),
+    };
+}
+
+/** Picks the dish columns, dropping the sections (and menus filter) embeds */
+function toDish(row: DishRow): CatalogDish {
+    return {
+        id: row.id,
+        menu_id: row.menu_id,
+        section_id: row.section_id,
+        section_name: row.sections?.name ?? null,
+        name: row.name,
+        description: row.description,
+        price: row.price,
+        public: row.public,
+        is_available: row.is_available,
+        is_orderable: row.is_orderable,
+        created_at: row.created_at,
+    };
+}
+
+export function createSupabaseCatalog(): CatalogRepository {
+    return {
+        kind: "supabase",
+
+        async getRestaurant(id, { publicOnly = true } = {}) {
+            const supabase = await client();
+            let query = supabase.from("restaurants").select(RESTAURANT_COLUMNS).eq("id", id);
+            if (publicOnly) query = query.eq("public_searchable", true);
+            const { data, error } = await query.maybeSingle();
+            if (error) throw new Error(`Failed to load restaurant: ${error.message}`);
+            return data as CatalogRestaurant | null;
+        },
+
+        async getRestaurants(ids) {
+            if (ids.length === 0) return [];
+            const supabase = await client();
+            const { data, error } = await supabase
+                .from("restaurants")
+                .select(RESTAURANT_COLUMNS)
+                .in("id", ids)
+                .eq("public_searchable", true);
+            if (error) throw new Error(`Failed to load restaurants: ${error.message}`);
+            return (data ?? []) as CatalogRestaurant[];
+        },
+
+        async findRestaurants({ name, city, limit }) {
+            const supabase = await client();
+            let query = supabase.from("restaurants").select(RESTAURANT_COLUMNS).eq("public_searchable", true);
+            if (name) query = query.ilike("name", `%${name}%`);
+            if (city) query = query.ilike("city", `%${city}%`);
+            query = query.order("name", { ascending: true });
+            if (limit) query = query.limit(limit);
+            const { data, error } = await query;
+            if (error) throw new Error(`Failed to find restaurants: ${error.message}`);
+            return (data ?? []) as CatalogRestaurant[];
+        },
+
+        async getMenus(restaurantId) {
+            const supabase = await client();
+            const { data, error } = await supabase
+                .from("menus")
+                .select("id, restaurant_id, name, created_at")
+                .eq("restaurant_id", restaurantId)
+                .order("created_at", { ascending: true });
+            if (error) throw new Error(`Failed to load menus: ${error.message}`);
+            return (data ?? []) as CatalogMenu[];
+        },
+
+        async getSections(menuIds) {
+            if (menuIds.length === 0) return [];
+            const supabase = await client();
+            const { data, error } = await supabase
+                .from("sections")
+                .select("id, menu_id, name, display_order")
+                .in("menu_id", menuIds)
+                .order("display_order", { ascending: true })
+                .order("created_at", { ascending: true });
+            if (error) throw new Error(`Failed to load sections: ${error.message}`);
+            return (data ?? []) as CatalogSection[];
+        },
+
+        async getDishes({ ids, menuIds, restaurantId, publicOnly, text, tagIds, limit }) {
+            const supabase = await client();
+
+            let taggedIds: string[] | null = null;
+            if (tagIds) {
+                const { data, error } = await supabase.from("dish_tags").select("dish_id").in("tag_id", tagIds);
+                if (error) throw new Error(`Failed to load dish tags: ${error.message}`);
+                taggedIds = [...new Set((data ?? []).map((row: { dish_id: string }) => row.dish_id))];
+                if (taggedIds.length === 0) return [];
+            }
+
+            let query = supabase
+                .from("dishes")
+                .select(restaurantId ? `${DISH_COLUMNS}, menus!inner(restaurant_id)` : DISH_COLUMNS);
+            if (ids) query = query.in("id", ids);
+            if (taggedIds) query = query.in("id", taggedIds);
+            if (menuIds) query = query.in("menu_id", menuIds);
+            if (restaurantId) query = query.eq("menus.restaurant_id", restaurantId);
+            if (publicOnly) query = query.eq("public", true);
+            if (text) query = query.or(`name.ilike.%${text}%,description.ilike.%${text}%`);
+            query = query.order("created_at", { ascending: true });
+            if (limit) query = query.limit(limit);
+
+            const { data, error } = await query;
+            if (error) throw new Error(`Failed to load dishes: ${error.message}`);
+            return ((data ?? []) as unknown as DishRow[]).map(toDish);
+        },
+
+        async getDishTags(dishIds) {
+            const tagsByDish = new Map<string, CatalogTag[]>();
+            if (dishIds.length === 0) return tagsByDish;
+            const supabase = await client();
+            const { data, error } = await supabase
+                .from("dish_tags")
+                .select("dish_id, tags!inner(id, name, slug, type)")
+                .in("dish_id", dishIds);
+            if (error) throw new Error(`Failed to load dish tags: ${error.message}`);
+            for (const row of (data ?? []) as unknown as { dish_id: string; tags: CatalogTag }[]) {
+                if (!tagsByDish.has(row.dish_id)) tagsByDish.set(row.dish_id, []);
+                tagsByDish.get(row.dish_id)!.push(row.tags);
+            }
+            return tagsByDish;
+        },
+
+        async getDishModifiers(dishIds) {
+            const groupsByDish = new Map<string, CatalogModifierGroup[]>();
+            if (dishIds.length === 0) return groupsByDish;
+            const supabase = await client();
+            const { data: links, error: linksError } = await supabase
+                .from("dish_modifiers")
+                .select("dish_id, modifier_group_id")
+                .in("dish_id", dishIds);
+            if (linksError) throw new Error(`Failed to load dish modifiers: ${linksError.message}`);
+            if (!links || links.length === 0) return groupsByDish;
+
+            const groupIds = [...new Set(links.map(link => link.modifier_group_id as string))];
+            const { data, error } = await supabase
+                .from("modifier_groups")
+                .select(MODIFIER_GROUP_COLUMNS)
+                .in("id", groupIds)
+                .order("created_at", { ascending: true });
+            if (error) throw new Error(`Failed to load modifier groups: ${error.message}`);
+            const groups = ((data ?? []) as unknown as ModifierGroupRow[]).map(toModifierGroup);
+
+            // Groups in creation order on every dish
+            for (const group of groups) {
+                for (const link of links) {
+                    if (link.modifier_group_id !== group.id) continue;
+                    if (!groupsByDish.has(link.dish_id)) groupsByDish.set(link.dish_id, []);
+                    groupsByDish.get(link.dish_id)!.push(group);
+                }
+            }
+            return groupsByDish;
+        },
+
+        async findTags({ slug, type, types, nameContains, limit }) {
+            const supabase = await referenceClient();
+            let query = supabase.from("tags").select("id, name, slug, type");
+            if (slug) query = query.eq("slug", slug);
+            if (type) query = query.eq("type", type);
+            if (types) query = query.in("type", types);
+            if (nameContains) query = query.or(nameContains.map(text => `name.ilike.%${text}%`).join(","));
+            if (limit) query = query.limit(limit);
+            const { data, error } = await query;
+            if (error) throw new Error(`Failed to find tags: ${error.message}`);
+            return (data ?? []) as CatalogTag[];
+        },
+
+        async findTagAlias(alias) {
+            const supabase = await referenceClient();
+            const { data, error } = await supabase
+                .from("tag_aliases")
+                .select("alias, tag_type, tag_slug")
+                .ilike("alias", alias)
+                .limit(1);
+            if (error) throw new Error(`Failed to find tag alias: ${error.message}`);
+            return ((data ?? []) as TagAlias[])[0] ?? null;
+        },
+
+        async getLandmarks() {
+            const supabase = await referenceClient();
+            const { data, error } = await supabase
+                .from("discover_landmarks")
+                .select("name, aliases, city, latitude, longitude");
+            if (error) throw new Error(`Failed to load landmarks: ${error.message}`);
+            return ((data ?? []) as Landmark[]).map(row => ({
+                ...row,
+                aliases: row.aliases ?? [],
+                latitude: Number(row.latitude),
+                longitude: Number(row.longitude),
+            }));
+        },
+
+        async restaurantsWithinRadius(origin, radiusKm, limit = 200) {
+            const supabase = await client();
+            const { data, error } = await supabase.rpc("restaurants_within_radius", {
+                user_lat: origin.lat,
+                user_lng: origin.lng,
+                radius_km: radiusKm,
+                limit_count: limit,
+            });
+            if (error) throw new Error(`restaurants_within_radius failed: ${error.message}`);
+            return ((data ?? []) as NearbyRestaurant[]).map(row => ({ ...row, distance_km: Number(row.distance_km) }));
+        },
+
+        async searchDishesSemantic(embedding, { city, tagIds, limit = 50 } = {}) {
+            const supabase = await client();
+            const { data, error } = await supabase.rpc("search_public_dishes_semantic", {
+                query_embedding: embedding,
+                target_city: city || null,
+                dietary_tag_ids: tagIds && tagIds.length > 0 ? tagIds : null,
+                limit_count: limit,
+            });
+            if (error) throw new Error(`search_public_dishes_semantic failed: ${error.message}`);
+            return (data ?? []) as DishSearchRow[];
+        },
+
+        async searchDishesFuzzy(text, { city, tagIds, limit = 50 } = {}) {
+            const supabase = await client();
+            const { data, error } = await supabase.rpc("search_public_dishes_fuzzy", {
+                search_text: text,
+                target_city: city || null,
+                dietary_tag_ids: tagIds && tagIds.length > 0 ? tagIds : null,
+                limit_count: limit,
+            });
+            if (error) throw new Error(`search_public_dishes_fuzzy failed: ${error.message}`);
+            return (data ?? []) as DishSearchRow[];
+        },
+
+        async searchRestaurantsFuzzy(text, { city, similarityThreshold = 0.1 } = {}) {
+            const supabase = await client();
+            const { data, error } = await supabase.rpc("search_public_dishes_fuzzy", {
+                search_text: text,
+                target_city: city || null,
+                similarity_threshold: similarityThreshold,
+            });
+            if (error) throw new Error(`search_public_dishes_fuzzy failed: ${error.message}`);
+            return ((data ?? []) as RestaurantSearchRow[]).map(row => ({ ...row, matching_dishes: row.matching_dishes ?? [] }));
+        },
+
+        async searchDishesByTags(tagIds, { city, limit = 50 } = {}) {
+            const supabase = await client();
+            const { data, error } = await supabase.rpc("search_public_dishes_by_tags", {
+                target_city: city || null,
+                dietary_tag_ids: tagIds,
+                service_filters: null,
+                limit_count: limit,
+            });
+            if (error) throw new Error(`search_public_dishes_by_tags failed: ${error.message}`);
+            return (data ?? []) as DishSearchRow[];
+        },
+
+        async searchDishesByTagsStrict(tagIds, { city, queryText, limit = 50 } = {}) {
+            const supabase = await client();
+            const { data, error } = await supabase.rpc("search_public_dishes_by_tags_strict", {
+                target_city: city || null,
+                dietary_tag_ids: tagIds,
+                query_text: queryText || null,
+                service_filters: null,
+                limit_count: limit,
+            });
+            if (error) throw new Error(`search_public_dishes_by_tags_strict failed: ${error.message}`);
+            return (data ?? []) as DishSearchRow[];
+        },
+
+        async searchRestaurantsByName(text) {
+            const supabase = await client();
+            const { data, error } = await supabase.rpc("search_restaurant_by_name", { search_text: text }).limit(5);
+            if (error) throw new Error(`search_restaurant_by_name failed: ${error.message}`);
+            return ((data ?? []) as RestaurantNameMatch[]).map(row => ({ ...row, similarity_score: Number(row.similarity_score) }));
+        },
+    };
+}
@@ -0,0 +1,30 @@
+/**
+ * pg_trgm similarity() for the in-memory catalog
+ *
+ * Same rules as Postgres: lowercase, split into alphanumeric words, pad each word
+ * with two leading spaces and one trailing space, and compare the trigram sets
+ * (shared / total distinct). similarity("word", "words") = 4/7.
+ */
+
+export function trigrams(text: string): Set<string> {
+    const result = new Set<string>();
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+        const padded = `  ${word} `;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+            result.add(padded.slice(i, i + 3));
+        }
+    }
+    return result;
+}
+
+export function similarity(a: string, b: string): number {
+    const left = trigrams(a);
+    const right = trigrams(b);
+    if (left.size === 0 || right.size === 0) return 0;
+
+    let shared = 0;
+    for (const trigram of left) {
+        if (right.has(trigram)) shared++;
+    }
+    return shared / (left.size + right.size - shared);
+}
@@ -0,0 +1,236 @@
+/**
+ * Catalog repository contract: the public restaurant/menu/dish/tag data discover reads
+ *
+ * Rows keep the database's snake_case shape so call sites read the same whether the
+ * data comes from Supabase or the in-memory catalog. Search methods mirror the
+ * search RPCs (migrations 0027, 0028, 0031, 0053, 0054, 0057, 0060) one to one.
+ */
+
+import type { OpeningHoursExceptions, RestaurantCard } from "@/lib/types/discover";
+
+export type CatalogKind = "memory" | "supabase";
+
+export type TagType = "diet" | "allergen" | "religious";
+
+export interface CatalogRestaurant {
+    id: string;
+    name: string;
+    city: string | null;
+    address: string | null;
+    cuisine_type: string | null;
+    phone: string | null;
+    email: string | null;
+    website: string | null;
+    opening_hours: Record<string, string> | null;
+    opening_hours_exceptions: OpeningHoursExceptions | null;
+    timezone: string | null;
+    accepts_dine_in: boolean | null;
+    accepts_takeaway: boolean | null;
+    accepts_delivery: boolean | null;
+    accepts_reservations: boolean | null;
+    amenities: NonNullable<RestaurantCard["amenities"]> | null;
+    latitude: number | null;
+    longitude: number | null;
+    owner_id: string | null;
+    public_searchable: boolean;
+    /** Currency of the dish prices (migration 0007); read with toCurrencyCode, null = SEK */
+    currency: string | null;
+}
+
+export interface CatalogMenu {
+    id: string;
+    restaurant_id: string;
+    name: string;
+    created_at: string;
+}
+
+export interface CatalogSection {
+    id: string;
+    menu_id: string;
+    name: string;
+    display_order: number;
+}
+
+export interface CatalogDish {
+    id: string;
+    menu_id: string;
+    section_id: string | null;
+    /** sections.name of section_id */
+    section_name: string | null;
+    name: string;
+    description: string | null;
+    price: number;
+    public: boolean;
+    /** false = sold out (migration 0043) */
+    is_available: boolean;
+    /** false = in-store only, e.g. alcohol */
+    is_orderable: boolean;
+    created_at: string;
+}
+
+export interface CatalogTag {
+    id: string;
+    name: string;
+    slug: string;
+    type: TagType;
+}
+
+export type ModifierType = "choice" | "addon";
+
+/** modifier_options row with its tags (modifier_option_tags, migration 0012) */
+export interface CatalogModifierOption {
+    id: string;
+    group_id: string;
+    name: string;
+    /** Added to the dish price; 0 for a free choice */
+    price_adjustment: number;
+    is_available: boolean;
+    tags: CatalogTag[];
+}
+
+/** modifier_groups row ("Spice level", "Extras") with its options, oldest first */
+export interface CatalogModifierGroup {
+    id: string;
+    restaurant_id: string;
+    name: string;
+    /** choice = pick between options, addon = optional extras (migration 0004) */
+    modifier_type: ModifierType;
+    min_selection: number;
+    max_selection: number | null;
+    options: CatalogModifierOption[];
+}
+
+export interface TagAlias {
+    alias: string;
+    tag_type: TagType;
+    tag_slug: string;
+}
+
+export interface Landmark {
+    name: string;
+    aliases: string[];
+    city: string;
+    latitude: number;
+    longitude: number;
+}
+
+/** A search RPC row: one public dish with its restaurant */
+export interface DishSearchRow {
+    restaurant_id: string;
+    restaurant_name: string;
+    restaurant_city: string | null;
+    restaurant_address: string | null;
+    dish_id: string;
+    dish_name: string;
+    dish_description: string | null;
+    dish_price: number;
+    similarity_score: number;
+    /** Set by the strict tag search */
+    section_name?: string | null;
+    /** Embedding document template of the dish vector (semantic search only) */
+    embedding_version?: string | null;
+    /** All of the dish's tags (strict tag search only) */
+    matched_tags?: CatalogTag[];
+}
+
+/** A grouped fuzzy search row: a restaurant with its matching dishes */
+export interface RestaurantSearchRow {
+    restaurant_id: string;
+    restaurant_name: string;
+    restaurant_city: string | null;
+    restaurant_address: string | null;
+    matching_dishes: {
+        id: string;
+        name: string;
+        description: string | null;
+        price: number;
+        section_name: string | null;
+        similarity: number;
+    }[];
+}
+
+export interface RestaurantNameMatch {
+    id: string;
+    name: string;
+    city: string | null;
+    similarity_score: number;
+}
+
+export interface NearbyRestaurant {
+    restaurant_id: string;
+    restaurant_city: string | null;
+    distance_km: number;
+}
+
+export interface DishQuery {
+    ids?: string[];
+    menuIds?: string[];
+    restaurantId?: string;
+    publicOnly?: boolean;
+    /** Name or description contains the text (case-insensitive) */
+    text?: string;
+    /** Tagged with at least one of these tags */
+    tagIds?: string[];
+    limit?: number;
+}
+
+export interface TagQuery {
+    slug?: string;
+    type?: TagType;
+    types?: TagType[];
+    /** Name contains any of these (case-insensitive) */
+    nameContains?: string[];
+    limit?: number;
+}
+
+export interface DishSearchOptions {
+    city?: string | null;
+    /** Dish must carry at least one of these tags */
+    tagIds?: string[] | null;
+    limit?: number;
+}
+
+export interface CatalogRepository {
+    kind: CatalogKind;
+
+    /** null when missing or, unless publicOnly is false, not public_searchable */
+    getRestaurant(id: string, opts?: { publicOnly?: boolean }): Promise<CatalogRestaurant | null>;
+    /** The public_searchable ones among these ids */
+    getRestaurants(ids: string[]): Promise<CatalogRestaurant[]>;
+    /** Public restaurants whose name/city contain the given text, ordered by name */
+    findRestaurants(query: { name?: string; city?: string; limit?: number }): Promise<CatalogRestaurant[]>;
+
+    /** Oldest first */
+    getMenus(restaurantId: string): Promise<CatalogMenu[]>;
+    /** By display_order */
+    getSections(menuIds: string[]): Promise<CatalogSection[]>;
+    /** Oldest first */
+    getDishes(query: DishQuery): Promise<CatalogDish[]>;
+    getDishTags(dishIds: string[]): Promise<Map<string, CatalogTag[]>>;
+    /** Modifier groups attached to each dish (dish_modifiers); dishes without any are left out */
+    getDishModifiers(dishIds: string[]): Promise<Map<string, CatalogModifierGroup[]>>;
+
+    findTags(query: TagQuery): Promise<CatalogTag[]>;
+    /** Case-insensitive exact alias match ("vego" -> diet/vegetarian) */
+    findTagAlias(alias: string): Promise<TagAlias | null>;
+
+    getLandmarks(): Promise<Landmark[]>;
+    /** Public restaurants with coordinates within radiusKm, nearest first */
+    restaurantsWithinRadius(origin: { lat: number; lng: number }, radiusKm: number, limit?: number): Promise<NearbyRestaurant[]>;
+
+    /** search_public_dishes_semantic: cosine similarity against dish embeddings */
+    searchDishesSemantic(embedding: number[], opts?: DishSearchOptions): Promise<DishSearchRow[]>;
+    /** search_public_dishes_fuzzy (flat): trigram similarity on name, description and section */
+    searchDishesFuzzy(text: string, opts?: DishSearchOptions): Promise<DishSearchRow[]>;
+    /** search_public_dishes_fuzzy (grouped by restaurant) */
+    searchRestaurantsFuzzy(text: string, opts?: { city?: string | null; similarityThreshold?: number }): Promise<RestaurantSearchRow[]>;
+    /** search_public_dishes_by_tags: dishes carrying any of the tags */
+    searchDishesByTags(tagIds: string[], opts?: Omit<DishSearchOptions, "tagIds">): Promise<DishSearchRow[]>;
+    /** search_public_dishes_by_tags_strict: dishes carrying all of the tags, optionally matching text */
+    searchDishesByTagsStrict(
+        tagIds: string[],
+        opts?: Omit<DishSearchOptions, "tagIds"> & { queryText?: string | null }
+    ): Promise<DishSearchRow[]>;
+    /** search_restaurant_by_name: trigram similarity on the restaurant name, best 5 */
+    searchRestaurantsByName(text: string): Promise<RestaurantNameMatch[]>;
+}
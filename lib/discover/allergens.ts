@@ -0,0 +1,344 @@
+/**
+ * Allergen exclusion for discover search ("no nuts", "without sesame", "sesamfri")
+ *
+ * Allergens are negative constraints: dishes tagged with an avoided allergen are
+ * dropped, dishes whose name/description mentions it are flagged, and dishes with
+ * no allergen tags at all are labelled "unknown" instead of silently passing.
+ */
+
+import type { AllergenCheck, TagInfo } from "@/lib/types/discover";
+
+// ============================================
+// VOCABULARY
+// ============================================
+
+interface AllergenDef {
+    slug: string;       // tags.slug of the seeded allergen tag (0006_seed_tags.sql)
+    label: string;
+    mentions: string[]; // words that signal the allergen in a dish name/description (matched at word start)
+}
+
+const ALLERGENS: AllergenDef[] = [
+    { slug: "peanuts", label: "Peanuts", mentions: ["peanut", "jordnöt"] },
+    {
+        slug: "tree-nuts", label: "Tree nuts", mentions: [
+            "nut", "nuts", "nötter", "almond", "cashew", "hazelnut", "walnut", "pecan", "pistachio",
+            "mandel", "mandl", "hasselnöt", "valnöt", "pistage",
+        ],
+    },
+    { slug: "sesame", label: "Sesame", mentions: ["sesam", "tahini"] },
+    {
+        slug: "milk", label: "Milk", mentions: [
+            "milk", "dairy", "cream", "butter", "cheese", "paneer", "ghee", "yogurt", "yoghurt",
+            "mjölk", "grädde", "smör", "ost", "mejeri", "laktos",
+        ],
+    },
+    { slug: "eggs", label: "Eggs", mentions: ["egg", "eggs", "ägg", "mayo", "majonnäs"] },
+    { slug: "fish", label: "Fish", mentions: ["fish", "fisk", "salmon", "lax", "tuna", "tonfisk", "anchov", "ansjovis"] },
+    { slug: "crustaceans", label: "Crustaceans", mentions: ["shrimp", "prawn", "crab", "lobster", "räk", "krabb", "hummer", "kräft"] },
+    { slug: "molluscs", label: "Molluscs", mentions: ["mussel", "oyster", "squid", "clam", "scallop", "mussl", "ostron", "bläckfisk"] },
+    { slug: "gluten", label: "Gluten", mentions: ["gluten", "naan", "bread", "bröd", "pasta", "flour"] },
+    { slug: "wheat", label: "Wheat", mentions: ["wheat", "vete"] },
+    { slug: "soybeans", label: "Soy", mentions: ["soy", "soja", "tofu", "edamame"] },
+    { slug: "celery", label: "Celery", mentions: ["celery", "selleri"] },
+    { slug: "mustard", label: "Mustard", mentions: ["mustard", "senap"] },
+    { slug: "sulphites", label: "Sulphites", mentions: ["sulphite", "sulfite", "sulfit"] },
+    { slug: "lupin", label: "Lupin", mentions: ["lupin"] },
+    { slug: "coconut", label: "Coconut", mentions: ["coconut", "kokos"] },
+];
+
+// Mentions that only count as a whole word ("egg" vs "eggplant", "nöt" vs "nötkött")
+const WHOLE_WORD_MENTIONS = new Set(["egg", "nut", "ost"]);
+
+// What users type -> allergen slugs. Keys are lowercase.
+const QUERY_TERMS: Record<string, string[]> = {
+    // Nuts
+    nut: ["peanuts", "tree-nuts"],
+    nuts: ["peanuts", "tree-nuts"],
+    "nöt": ["peanuts", "tree-nuts"],
+    "nötter": ["peanuts", "tree-nuts"],
+    peanut: ["peanuts"],
+    peanuts: ["peanuts"],
+    "jordnöt": ["peanuts"],
+    "jordnötter": ["peanuts"],
+    "tree nut": ["tree-nuts"],
+    "tree nuts": ["tree-nuts"],
+    almond: ["tree-nuts"],
+    almonds: ["tree-nuts"],
+    cashew: ["tree-nuts"],
+    cashews: ["tree-nuts"],
+    mandel: ["tree-nuts"],
+    mandlar: ["tree-nuts"],
+
+    // Sesame
+    sesame: ["sesame"],
+    sesam: ["sesame"],
+
+    // Milk
+    milk: ["milk"],
+    dairy: ["milk"],
+    lactose: ["milk"],
+    "mjölk": ["milk"],
+    laktos: ["milk"],
+    mejeri: ["milk"],
+    mejeriprodukter: ["milk"],
+
+    // Eggs
+    egg: ["eggs"],
+    eggs: ["eggs"],
+    "ägg": ["eggs"],
+
+    // Fish and shellfish
+    fish: ["fish"],
+    fisk: ["fish"],
+    shellfish: ["crustaceans", "molluscs"],
+    skaldjur: ["crustaceans", "molluscs"],
+    crustacean: ["crustaceans"],
+    crustaceans: ["crustaceans"],
+    shrimp: ["crustaceans"],
+    prawns: ["crustaceans"],
+    "räkor": ["crustaceans"],
+    "kräftdjur": ["crustaceans"],
+    mollusc: ["molluscs"],
+    molluscs: ["molluscs"],
+    mollusk: ["molluscs"],
+    mollusks: ["molluscs"],
+    musslor: ["molluscs"],
+    "blötdjur": ["molluscs"],
+
+    // Cereals (gluten covers wheat: a wheat-tagged dish is never gluten free)
+    gluten: ["gluten", "wheat"],
+    wheat: ["wheat"],
+    vete: ["wheat"],
+
+    // Other EU/US allergens
+    soy: ["soybeans"],
+    soya: ["soybeans"],
+    soja: ["soybeans"],
+    soybean: ["soybeans"],
+    soybeans: ["soybeans"],
+    celery: ["celery"],
+    selleri: ["celery"],
+    mustard: ["mustard"],
+    senap: ["mustard"],
+    sulphites: ["sulphites"],
+    sulfites: ["sulphites"],
+    sulfiter: ["sulphites"],
+    lupin: ["lupin"],
+    coconut: ["coconut"],
+    kokos: ["coconut"],
+};
+
+const ALLERGEN_BY_SLUG = new Map(ALLERGENS.map(a => [a.slug, a]));
+
+/** Allergen choices for pickers (profile editor) */
+export const ALLERGEN_OPTIONS: ReadonlyArray<{ slug: string; label: string }> = ALLERGENS.map(({ slug, label }) => ({ slug, label }));
+
+function escapeRegex(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Longest first so "tree nuts" wins over "nuts" and "jordnötter" over "nötter"
+const TERM_ALT = Object.keys(QUERY_TERMS)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegex)
+    .join("|");
+
+// Word boundaries that understand å/ä/ö (\b does not)
+const START = "(?:^|[^\\p{L}])";
+const END = "(?![\\p{L}])";
+const LIST_SEP = "\\s*(?:,|&|\\band\\b|\\bor\\b|\\boch\\b|\\beller\\b)\\s*";
+
+// "no nuts", "without sesame or eggs", "utan nötter och sesam", "allergic to milk"
+const NEGATION_PATTERN = new RegExp(
+    `${START}(?:no|without|utan|ingen|inga|inget|free from|allergic to|allergy to|allergisk mot|allergi mot)\\s+(?:any\\s+)?((?:${TERM_ALT})(?:${LIST_SEP}(?:${TERM_ALT}))*)${END}`,
+    "giu"
+);
+
+// "nut-free", "dairy free", "sesamfri", "jordnötsfritt"
+const FREE_FROM_PATTERN = new RegExp(`${START}(${TERM_ALT})s?(?:[- ]?free|fri|fritt|fria)${END}`, "giu");
+
+// "nut allergy", "gluten intolerance", "nötallergi"
+const ALLERGY_PATTERN = new RegExp(`${START}(${TERM_ALT})\\s?(?:allergy|allergi|intolerance|intolerans)${END}`, "giu");
+
+const TERM_PATTERN = new RegExp(`${START}(${TERM_ALT})${END}`, "giu");
+
+function addSlugs(out: string[], term: string) {
+    for (const slug of QUERY_TERMS[term.toLowerCase()] || []) {
+        if (!out.includes(slug)) out.push(slug);
+    }
+}
+
+// ============================================
+// QUERY PARSING
+// ============================================
+
+/**
+ * Detect allergens the user wants to avoid in a free-text query.
+ * Returns allergen tag slugs, e.g. "curry without nuts" -> ["peanuts", "tree-nuts"]
+ */
+export function detectAllergenExclusions(query: string): string[] {
+    const q = (query || "").toLowerCase();
+    const out: string[] = [];
+
+    for (const match of q.matchAll(NEGATION_PATTERN)) {
+        for (const term of match[1].matchAll(TERM_PATTERN)) {
+            addSlugs(out, term[1]);
+        }
+    }
+    for (const pattern of [FREE_FROM_PATTERN, ALLERGY_PATTERN]) {
+        for (const match of q.matchAll(pattern)) {
+            addSlugs(out, match[1]);
+        }
+    }
+
+    return out;
+}
+
+/**
+ * Remove allergen phrases from a search string so "pizza without nuts" searches for "pizza"
+ */
+export function stripAllergenPhrases(text: string): string {
+    return (text || "")
+        .replace(NEGATION_PATTERN, " ")
+        .replace(FREE_FROM_PATTERN, " ")
+        .replace(ALLERGY_PATTERN, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+/**
+ * Map loose allergy strings (LLM output, "nut-free", "sesame", "peanuts") to allergen slugs
+ */
+export function normalizeAllergens(values: string[] | null | undefined): string[] {
+    const out: string[] = [];
+    for (const value of values || []) {
+        const s = value.toLowerCase().trim();
+        if (!s) continue;
+
+        if (ALLERGEN_BY_SLUG.has(s)) {
+            if (!out.includes(s)) out.push(s);
+            continue;
+        }
+        addSlugs(out, s);
+        for (const slug of detectAllergenExclusions(s)) {
+            if (!out.includes(slug)) out.push(slug);
+        }
+    }
+    return out;
+}
+
+/**
+ * True if the query names the allergen at all (used to validate LLM output against the query)
+ */
+export function queryMentionsAllergen(query: string, slug: string): boolean {
+    const q = (query || "").toLowerCase();
+    for (const match of q.matchAll(TERM_PATTERN)) {
+        if ((QUERY_TERMS[match[1]] || []).includes(slug)) return true;
+    }
+    return false;
+}
+
+/**
+ * Allergens to exclude for an intent: explicit allergies plus free-from diets ("gluten-free")
+ */
+export function allergensFromIntent(intent: {
+    allergy?: string[] | null;
+    dietary?: string[] | null;
+    hard_tags?: string[] | null;
+}): string[] {
+    const freeFrom = [...(intent.dietary || []), ...(intent.hard_tags || [])]
+        .filter(d => /(free|fri|fritt|fria)$/i.test(d.trim()));
+    return normalizeAllergens([...(intent.allergy || []), ...freeFrom]);
+}
+
+export function allergenLabel(slug: string): string {
+    return ALLERGEN_BY_SLUG.get(slug)?.label ?? slug;
+}
+
+// ============================================
+// DISH SCREENING
+// ============================================
+
+export type AllergenStatus = "contains" | AllergenCheck["status"];
+
+type ScreenableDish = {
+    name?: string | null;
+    description?: string | null;
+    tags?: TagInfo[] | unknown;
+};
+
+function tagSlug(tag: TagInfo): string {
+    return (tag.slug || tag.name || "").toLowerCase().trim().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+function mentionsAllergen(text: string, def: AllergenDef): boolean {
+    return def.mentions.some(word => {
+        const tail = WHOLE_WORD_MENTIONS.has(word) ? END : "";
+        return new RegExp(`${START}${escapeRegex(word)}${tail}`, "iu").test(text);
+    });
+}
+
+/**
+ * Check one dish against the allergens the user is avoiding.
+ * "contains": tagged with an avoided allergen (exclude)
+ * "mentioned": not tagged, but the name/description names it (keep, flag)
+ * "unknown": no allergen tags at all (keep, label)
+ * "clear": has allergen tags, none of them avoided
+ */
+export function assessDishAllergens(
+    dish: ScreenableDish,
+    avoided: string[]
+): { status: AllergenStatus; contains: string[]; mentioned: string[] } {
+    const tags = Array.isArray(dish.tags) ? (dish.tags as TagInfo[]) : [];
+    const allergenTags = tags.filter(t => t && t.type === "allergen");
+    const taggedSlugs = allergenTags.map(tagSlug);
+
+    const contains = avoided.filter(slug => taggedSlugs.includes(slug));
+    if (contains.length > 0) return { status: "contains", contains, mentioned: [] };
+
+    const text = `${dish.name || ""} ${dish.description || ""}`.toLowerCase();
+    const mentioned = avoided.filter(slug => {
+        const def = ALLERGEN_BY_SLUG.get(slug);
+        return def ? mentionsAllergen(text, def) : false;
+    });
+    if (mentioned.length > 0) return { status: "mentioned", contains: [], mentioned };
+
+    return { status: allergenTags.length > 0 ? "clear" : "unknown", contains: [], mentioned: [] };
+}
+
+/**
+ * Drop dishes tagged with an avoided allergen and annotate the rest with allergen_check
+ */
+export function screenDishes<T extends ScreenableDish>(
+    dishes: T[],
+    avoided: string[]
+): { kept: Array<T & { allergen_check: AllergenCheck }>; excluded: number } {
+    const kept: Array<T & { allergen_check: AllergenCheck }> = [];
+    let excluded = 0;
+
+    for (const dish of dishes) {
+        const { status, mentioned } = assessDishAllergens(dish, avoided);
+        if (status === "contains") {
+            excluded++;
+            continue;
+        }
+        kept.push({
+            ...dish,
+            allergen_check: {
+                status,
+                avoided,
+                ...(mentioned.length > 0 && { mentioned }),
+            },
+        });
+    }
+
+    return { kept, excluded };
+}
+
+/**
+ * True for seeded "contains X" allergen slugs (not free-from claims like "gluten-free")
+ */
+export function isAllergenSlug(slug: string): boolean {
+    return ALLERGEN_BY_SLUG.has((slug || "").toLowerCase());
+}
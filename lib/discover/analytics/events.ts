@@ -0,0 +1,59 @@
+/**
+ * Validation for impression/click batches posted by /discover (POST /api/discover/events).
+ * The endpoint is public, so anything malformed is dropped rather than stored.
+ */
+
+import type { SearchEvent, SearchEventTarget, SearchEventType } from "@/lib/types/discover";
+import type { StoredSearchEvent } from "./types";
+
+/** The page flushes every few seconds; a bigger batch is not ours */
+export const MAX_EVENTS_PER_BATCH = 50;
+
+const ID_RE = /^[A-Za-z0-9._:-]{1,128}$/;
+const EVENT_TYPES: readonly SearchEventType[] = ["impression", "click"];
+const TARGETS: readonly SearchEventTarget[] = ["restaurant", "dish"];
+
+function isId(value: unknown): value is string {
+    return typeof value === "string" && ID_RE.test(value);
+}
+
+function parseEvent(raw: unknown): SearchEvent | null {
+    if (!raw || typeof raw !== "object") return null;
+    const event = raw as Record<string, unknown>;
+
+    if (!isId(event.requestId) || !isId(event.restaurantId)) return null;
+    if (!EVENT_TYPES.includes(event.event as SearchEventType)) return null;
+    if (!TARGETS.includes(event.target as SearchEventTarget)) return null;
+    if (typeof event.position !== "number" || !Number.isInteger(event.position) || event.position < 0 || event.position > 1000) {
+        return null;
+    }
+
+    const dishId = event.target === "dish" ? event.dishId : null;
+    if (event.target === "dish" && !isId(dishId)) return null;
+
+    return {
+        requestId: event.requestId,
+        event: event.event as SearchEventType,
+        target: event.target as SearchEventTarget,
+        restaurantId: event.restaurantId,
+        dishId: (dishId as string | null) ?? null,
+        position: event.position,
+    };
+}
+
+/**
+ * Valid events of a SearchEventBatch, stamped with the session and time.
+ * null when the body is not a batch at all (or too big); invalid events are skipped.
+ */
+export function parseSearchEventBatch(body: unknown, now: Date = new Date()): StoredSearchEvent[] | null {
+    if (!body || typeof body !== "object") return null;
+    const { sessionId, events } = body as Record<string, unknown>;
+    if (!Array.isArray(events) || events.length > MAX_EVENTS_PER_BATCH) return null;
+
+    const session = isId(sessionId) ? sessionId : null;
+    const createdAt = now.toISOString();
+    return events.flatMap(raw => {
+        const event = parseEvent(raw);
+        return event ? [{ ...event, sessionId: session, createdAt }] : [];
+    });
+}
@@ -0,0 +1,72 @@
+/**
+ * Discover search analytics
+ *
+ *   DISCOVER_ANALYTICS=off                 log nothing (no query log, events are accepted and dropped)
+ *   DISCOVER_ANALYTICS_STORE=supabase | memory
+ *
+ * Logging never fails or slows down a chat request: writes are not awaited and
+ * errors are only logged. Reports: `npm run analytics:report`.
+ */
+
+import type { TraceRecord } from "@/lib/discover/trace";
+import type { DiscoverChatResponse } from "@/lib/types/discover";
+import { createMemorySearchAnalyticsStore } from "./memory-store";
+import { buildQueryLogEntry } from "./query-log";
+import { createSupabaseSearchAnalyticsStore } from "./supabase-store";
+import type { SearchAnalyticsStore, StoredSearchEvent } from "./types";
+import { processStore, resolveStoreKind } from "@/lib/discover/store-kind";
+
+export type {
+    QueryCtr,
+    QueryLogEntry,
+    QueryLogIntent,
+    ReportOptions,
+    SearchAnalyticsStore,
+    SearchAnalyticsStoreKind,
+    StoredSearchEvent,
+    ZeroResultQuery,
+} from "./types";
+export { buildQueryLogEntry, routedAction } from "./query-log";
+export { MAX_EVENTS_PER_BATCH, parseSearchEventBatch } from "./events";
+export { SEARCH_ACTIONS, ctrReport, zeroResultReport } from "./report";
+export { createMemorySearchAnalyticsStore } from "./memory-store";
+export { createSupabaseSearchAnalyticsStore } from "./supabase-store";
+
+export function isSearchAnalyticsEnabled(): boolean {
+    return (process.env.DISCOVER_ANALYTICS || "").toLowerCase() !== "off";
+}
+
+export function createSearchAnalyticsStore(): SearchAnalyticsStore {
+    return resolveStoreKind("DISCOVER_ANALYTICS_STORE") === "supabase" ? createSupabaseSearchAnalyticsStore() : createMemorySearchAnalyticsStore();
+}
+
+export const getSearchAnalyticsStore = processStore(createSearchAnalyticsStore, store => {
+    console.log("[discover][analytics] store", { kind: store.kind, enabled: isSearchAnalyticsEnabled() });
+});
+
+/** Add a finished chat request to the query log (fire and forget) */
+export function logChatQuery(
+    trace: TraceRecord,
+    body: Partial<DiscoverChatResponse> | null,
+    store: SearchAnalyticsStore = getSearchAnalyticsStore()
+): void {
+    if (!isSearchAnalyticsEnabled()) return;
+    const entry = buildQueryLogEntry(trace, body);
+    if (!entry) return;
+    store.logQuery(entry).catch(error => {
+        console.error("[discover][analytics] query log failed:", error);
+    });
+}
+
+/** Store a batch of impressions/clicks; errors are logged, never surfaced to the page */
+export async function logSearchEvents(
+    events: StoredSearchEvent[],
+    store: SearchAnalyticsStore = getSearchAnalyticsStore()
+): Promise<void> {
+    if (!isSearchAnalyticsEnabled() || events.length === 0) return;
+    try {
+        await store.logEvents(events);
+    } catch (error) {
+        console.error("[discover][analytics] event log failed:", error);
+    }
+}
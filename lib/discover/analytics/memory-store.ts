@@ -0,0 +1,40 @@
+/**
+ * In-memory search analytics for dev and tests (per process, lost on restart,
+ * oldest rows dropped past maxRows)
+ */
+
+import { ctrReport, zeroResultReport } from "./report";
+import type { QueryLogEntry, SearchAnalyticsStore, StoredSearchEvent } from "./types";
+
+export function createMemorySearchAnalyticsStore(opts: { maxRows?: number; now?: () => number } = {}): SearchAnalyticsStore {
+    const maxRows = opts.maxRows ?? 10_000;
+    const now = opts.now ?? Date.now;
+    const entries: QueryLogEntry[] = [];
+    const events: StoredSearchEvent[] = [];
+
+    function trim<T>(rows: T[]) {
+        if (rows.length > maxRows) rows.splice(0, rows.length - maxRows);
+    }
+
+    return {
+        kind: "memory",
+
+        async logQuery(entry) {
+            entries.push(entry);
+            trim(entries);
+        },
+
+        async logEvents(batch) {
+            events.push(...batch);
+            trim(events);
+        },
+
+        async zeroResultQueries(options) {
+            return zeroResultReport(entries, options, now());
+        },
+
+        async queryCtr(options) {
+            return ctrReport(entries, events, options, now());
+        },
+    };
+}
@@ -0,0 +1,80 @@
+/**
+ * Query log rows from a finished chat trace (lib/discover/trace) and the response body:
+ * the trace already carries the query, parsed intent and routing, the body the results.
+ */
+
+import { normalizeCacheText } from "@/lib/discover/cache";
+import type { SpanAttributeValue, SpanRecord, TraceRecord } from "@/lib/discover/trace";
+import type { DiscoverChatResponse } from "@/lib/types/discover";
+import type { QueryLogEntry, QueryLogIntent } from "./types";
+
+function asString(value: SpanAttributeValue | undefined): string | null {
+    return typeof value === "string" && value ? value : null;
+}
+
+function asList(value: SpanAttributeValue | undefined): string[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function findSpan(trace: TraceRecord, name: string): SpanRecord | undefined {
+    return trace.spans.find(span => span.name === name);
+}
+
+/** What answered the request: the planner action, or one of the routes that run before the planner */
+export function routedAction(trace: TraceRecord): string | null {
+    const action = trace.spans.find(span => span.name.startsWith("action:"));
+    if (action) return action.name.slice("action:".length);
+    if (findSpan(trace, "restaurant-scoped-search")) return "RESTAURANT_SCOPED_SEARCH";
+    const followup = findSpan(trace, "followup");
+    if (followup && followup.attributes.type !== "PASS") return "RESOLVED_FOLLOWUP";
+    return null;
+}
+
+function intentFrom(span: SpanRecord | undefined): QueryLogIntent | null {
+    if (!span || span.error) return null;
+    const { attributes } = span;
+    return {
+        dishQuery: asString(attributes.dishQuery),
+        city: asString(attributes.city),
+        dietary: asList(attributes.dietary),
+        allergy: asList(attributes.allergy),
+        isFollowup: attributes.isFollowup === true,
+    };
+}
+
+/** The search came up empty and fell back to listing top restaurants (fallback step E) */
+function fellBackToTopRestaurants(trace: TraceRecord): boolean {
+    return findSpan(trace, "retrieval")?.attributes.step === "E";
+}
+
+/**
+ * null for requests that never got as far as a query (validation errors, load-more
+ * pagination): they say nothing about what people search for.
+ */
+export function buildQueryLogEntry(trace: TraceRecord, body: Partial<DiscoverChatResponse> | null): QueryLogEntry | null {
+    const root = trace.spans[0];
+    const query = asString(root?.attributes.query);
+    if (!root || !query) return null;
+
+    const intentSpan = findSpan(trace, "intent");
+    const restaurants = body?.message?.restaurants ?? [];
+    const status = root.attributes.status;
+
+    return {
+        requestId: trace.requestId,
+        sessionId: asString(root.attributes.sessionId),
+        query,
+        normalizedQuery: normalizeCacheText(query),
+        language: asString(intentSpan?.attributes.language),
+        intent: intentFrom(intentSpan),
+        action: routedAction(trace),
+        resultRestaurantIds: restaurants.map(r => r.id),
+        resultDishIds: restaurants.flatMap(r => (r.matches ?? []).map(m => m.id)),
+        resultCount: restaurants.length,
+        noResults: restaurants.length === 0 || fellBackToTopRestaurants(trace),
+        latencyMs: Math.round(trace.durationMs),
+        degraded: root.attributes.degraded === true,
+        status: typeof status === "number" ? status : 200,
+        createdAt: trace.startedAt,
+    };
+}
@@ -0,0 +1,99 @@
+/**
+ * Zero-result and click-through reports over in-memory rows. Same definitions as the
+ * discover_zero_result_queries / discover_query_ctr RPCs (migrations 0063, 0065).
+ */
+
+import type { QueryCtr, QueryLogEntry, ReportOptions, StoredSearchEvent, ZeroResultQuery } from "./types";
+
+/** Actions that search the catalogue; an empty answer to anything else is not a gap */
+export const SEARCH_ACTIONS: readonly string[] = ["SEARCH", "RESTAURANT_SCOPED_SEARCH"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function withinDays(createdAt: string, days: number, now: number): boolean {
+    return Date.parse(createdAt) > now - days * DAY_MS;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const group = groups.get(key(item));
+        if (group) group.push(item);
+        else groups.set(key(item), [item]);
+    }
+    return groups;
+}
+
+export function zeroResultReport(entries: QueryLogEntry[], options: ReportOptions, now = Date.now()): ZeroResultQuery[] {
+    const empty = entries.filter(entry =>
+        withinDays(entry.createdAt, options.days, now) &&
+        entry.action !== null &&
+        SEARCH_ACTIONS.includes(entry.action) &&
+        entry.status < 400 &&
+        entry.noResults
+    );
+
+    return [...groupBy(empty, entry => entry.normalizedQuery)]
+        .map(([normalizedQuery, group]) => {
+            const latest = group.reduce((a, b) => (b.createdAt > a.createdAt ? b : a));
+            return {
+                normalizedQuery,
+                searches: group.length,
+                sessions: new Set(group.map(entry => entry.sessionId).filter(Boolean)).size,
+                sampleQuery: latest.query,
+                cities: [...new Set(group.flatMap(entry => (entry.intent?.city ? [entry.intent.city] : [])))],
+                lastSeen: latest.createdAt,
+            };
+        })
+        .sort((a, b) => b.searches - a.searches || b.lastSeen.localeCompare(a.lastSeen))
+        .slice(0, options.limit);
+}
+
+function resultKey(event: StoredSearchEvent): string {
+    return `${event.target}:${event.restaurantId}:${event.dishId ?? ""}`;
+}
+
+export function ctrReport(
+    entries: QueryLogEntry[],
+    events: StoredSearchEvent[],
+    options: ReportOptions & { minImpressions: number },
+    now = Date.now()
+): QueryCtr[] {
+    // Distinct results per request, so a re-rendered card or a double click counts once
+    const perRequest = new Map<string, { impressions: Set<string>; clicks: Set<string> }>();
+    for (const event of events) {
+        if (!withinDays(event.createdAt, options.days, now)) continue;
+        let counts = perRequest.get(event.requestId);
+        if (!counts) {
+            counts = { impressions: new Set(), clicks: new Set() };
+            perRequest.set(event.requestId, counts);
+        }
+        (event.event === "click" ? counts.clicks : counts.impressions).add(resultKey(event));
+    }
+
+    const searches = entries.filter(entry => withinDays(entry.createdAt, options.days, now) && !entry.noResults);
+
+    return [...groupBy(searches, entry => entry.normalizedQuery)]
+        .map(([normalizedQuery, group]) => {
+            let impressions = 0;
+            let clicks = 0;
+            let clickedSearches = 0;
+            for (const entry of group) {
+                const counts = perRequest.get(entry.requestId);
+                impressions += counts?.impressions.size ?? 0;
+                clicks += counts?.clicks.size ?? 0;
+                if (counts?.clicks.size) clickedSearches += 1;
+            }
+            return {
+                normalizedQuery,
+                searches: group.length,
+                impressions,
+                clicks,
+                ctr: impressions > 0 ? Math.round((clicks / impressions) * 10_000) / 10_000 : null,
+                clickedSearches,
+            };
+        })
+        .filter(row => row.impressions >= options.minImpressions)
+        .sort((a, b) => b.searches - a.searches || b.impressions - a.impressions)
+        .slice(0, options.limit);
+}
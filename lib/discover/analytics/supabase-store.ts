@@ -0,0 +1,107 @@
+/**
+ * Supabase search analytics store (service role only - see migrations 0063, 0065)
+ */
+
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import type { QueryCtr, SearchAnalyticsStore, ZeroResultQuery } from "./types";
+
+interface ZeroResultRow {
+    normalized_query: string;
+    searches: number | string;
+    sessions: number | string;
+    sample_query: string;
+    cities: string[] | null;
+    last_seen: string;
+}
+
+interface CtrRow {
+    normalized_query: string;
+    searches: number | string;
+    impressions: number | string;
+    clicks: number | string;
+    ctr: number | string | null;
+    clicked_searches: number | string;
+}
+
+export function createSupabaseSearchAnalyticsStore(): SearchAnalyticsStore {
+    return {
+        kind: "supabase",
+
+        async logQuery(entry) {
+            const supabase = createServiceRoleClient();
+            const { error } = await supabase.from("discover_query_log").insert({
+                request_id: entry.requestId,
+                session_id: entry.sessionId,
+                query: entry.query,
+                normalized_query: entry.normalizedQuery,
+                language: entry.language,
+                intent: entry.intent ?? {},
+                action: entry.action,
+                result_restaurant_ids: entry.resultRestaurantIds,
+                result_dish_ids: entry.resultDishIds,
+                result_count: entry.resultCount,
+                no_results: entry.noResults,
+                latency_ms: entry.latencyMs,
+                degraded: entry.degraded,
+                status: entry.status,
+                created_at: entry.createdAt,
+            });
+            if (error) throw new Error(`Failed to log discover query: ${error.message}`);
+        },
+
+        async logEvents(events) {
+            if (events.length === 0) return;
+            const supabase = createServiceRoleClient();
+            const { error } = await supabase.from("discover_search_events").insert(
+                events.map(event => ({
+                    request_id: event.requestId,
+                    session_id: event.sessionId,
+                    event: event.event,
+                    target: event.target,
+                    restaurant_id: event.restaurantId,
+                    dish_id: event.dishId ?? null,
+                    position: event.position,
+                    created_at: event.createdAt,
+                }))
+            );
+            if (error) throw new Error(`Failed to log discover search events: ${error.message}`);
+        },
+
+        async zeroResultQueries(options): Promise<ZeroResultQuery[]> {
+            const supabase = createServiceRoleClient();
+            const { data, error } = await supabase.rpc("discover_zero_result_queries", {
+                p_days: options.days,
+                p_limit: options.limit,
+            });
+            if (error) throw new Error(`Failed to load zero-result queries: ${error.message}`);
+
+            return ((data ?? []) as ZeroResultRow[]).map(row => ({
+                normalizedQuery: row.normalized_query,
+                searches: Number(row.searches),
+                sessions: Number(row.sessions),
+                sampleQuery: row.sample_query,
+                cities: row.cities ?? [],
+                lastSeen: row.last_seen,
+            }));
+        },
+
+        async queryCtr(options): Promise<QueryCtr[]> {
+            const supabase = createServiceRoleClient();
+            const { data, error } = await supabase.rpc("discover_query_ctr", {
+                p_days: options.days,
+                p_limit: options.limit,
+                p_min_impressions: options.minImpressions,
+            });
+            if (error) throw new Error(`Failed to load query click-through: ${error.message}`);
+
+            return ((data ?? []) as CtrRow[]).map(row => ({
+                normalizedQuery: row.normalized_query,
+                searches: Number(row.searches),
+                impressions: Number(row.impressions),
+                clicks: Number(row.clicks),
+                ctr: row.ctr === null ? null : Number(row.ctr),
+                clickedSearches: Number(row.clicked_searches),
+            }));
+        },
+    };
+}
@@ -0,0 +1,90 @@
+/**
+ * Discover search analytics storage contract
+ *
+ * A query log row per chat request plus the impressions/clicks the page reports for
+ * its results, joined by request id, and the two reports built from them.
+ */
+
+import type { SearchEvent } from "@/lib/types/discover";
+
+export type { SearchEvent, SearchEventBatch, SearchEventTarget, SearchEventType } from "@/lib/types/discover";
+
+export type SearchAnalyticsStoreKind = "memory" | "supabase";
+
+export interface QueryLogIntent {
+    dishQuery: string | null;
+    city: string | null;
+    dietary: string[];
+    allergy: string[];
+    isFollowup: boolean;
+}
+
+export interface QueryLogEntry {
+    requestId: string;
+    sessionId: string | null;
+    /** As the user typed it (trimmed, quotes and trailing punctuation removed) */
+    query: string;
+    /** Grouping key for the reports: lowercased, whitespace collapsed */
+    normalizedQuery: string;
+    language: string | null;
+    /** null when intent parsing never ran (restaurant-scoped search, focus switch) */
+    intent: QueryLogIntent | null;
+    /** Planner action, RESTAURANT_SCOPED_SEARCH or RESOLVED_FOLLOWUP; null when the request failed before routing */
+    action: string | null;
+    resultRestaurantIds: string[];
+    resultDishIds: string[];
+    /** Restaurant cards in the reply */
+    resultCount: number;
+    /** Nothing matched: an empty reply, or the top-restaurants cards the search falls back to */
+    noResults: boolean;
+    latencyMs: number;
+    degraded: boolean;
+    status: number;
+    /** ISO timestamp */
+    createdAt: string;
+}
+
+export interface StoredSearchEvent extends SearchEvent {
+    sessionId: string | null;
+    /** ISO timestamp */
+    createdAt: string;
+}
+
+export interface ReportOptions {
+    /** Look-back window */
+    days: number;
+    limit: number;
+}
+
+export interface ZeroResultQuery {
+    normalizedQuery: string;
+    searches: number;
+    sessions: number;
+    /** Latest raw query in the group */
+    sampleQuery: string;
+    cities: string[];
+    lastSeen: string;
+}
+
+export interface QueryCtr {
+    normalizedQuery: string;
+    searches: number;
+    /** Distinct results shown, counted once per request */
+    impressions: number;
+    /** Distinct results clicked, counted once per request */
+    clicks: number;
+    /** clicks / impressions, null without impressions */
+    ctr: number | null;
+    /** Searches with at least one click */
+    clickedSearches: number;
+}
+
+export interface SearchAnalyticsStore {
+    kind: SearchAnalyticsStoreKind;
+    logQuery(entry: QueryLogEntry): Promise<void>;
+    logEvents(events: StoredSearchEvent[]): Promise<void>;
+    /** Most frequent searches that returned no restaurants */
+    zeroResultQueries(options: ReportOptions): Promise<ZeroResultQuery[]>;
+    /** Click-through per normalized query, skipping queries with fewer than minImpressions */
+    queryCtr(options: ReportOptions & { minImpressions: number }): Promise<QueryCtr[]>;
+}
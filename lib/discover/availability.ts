@@ -0,0 +1,91 @@
+/**
+ * Dish availability for discover: sold-out (dishes.is_available = false) and in-store-only
+ * (dishes.is_orderable = false) dishes, migration 0043
+ *
+ *   DISCOVER_SOLD_OUT=demote | hide | show
+ *       demote (default): sold-out dishes stay in results, after the available ones
+ *       hide: sold-out dishes are left out of search results
+ *       show: results keep their ranking; sold-out dishes are only badged
+ *
+ * The "Only available" toggle hides sold-out dishes whatever the policy. Menus always list
+ * them, badged.
+ */
+
+import type { RestaurantCard } from "@/lib/types/discover";
+
+export type SoldOutPolicy = "demote" | "hide" | "show";
+
+export interface AvailabilityFlags {
+    is_available?: boolean;
+    is_orderable?: boolean;
+}
+
+const POLICIES: SoldOutPolicy[] = ["demote", "hide", "show"];
+
+/** Unknown availability (never hydrated) counts as available */
+export function isSoldOut(dish: AvailabilityFlags): boolean {
+    return dish.is_available === false;
+}
+
+export function isInStoreOnly(dish: AvailabilityFlags): boolean {
+    return dish.is_orderable === false;
+}
+
+export function resolveSoldOutPolicy(raw: string | undefined = process.env.DISCOVER_SOLD_OUT): SoldOutPolicy {
+    const value = (raw || "").trim().toLowerCase();
+    return (POLICIES as string[]).includes(value) ? (value as SoldOutPolicy) : "demote";
+}
+
+/** The toggle wins over the deployment policy */
+export function effectiveSoldOutPolicy(onlyAvailable: boolean | null | undefined): SoldOutPolicy {
+    return onlyAvailable ? "hide" : resolveSoldOutPolicy();
+}
+
+/** Drop (hide) or move last (demote) sold-out dishes; order is otherwise preserved */
+export function applySoldOutPolicy<T extends AvailabilityFlags>(dishes: T[], policy: SoldOutPolicy): T[] {
+    if (policy === "show") return dishes;
+    const available = dishes.filter(d => !isSoldOut(d));
+    if (policy === "hide") return available;
+    return [...available, ...dishes.filter(isSoldOut)];
+}
+
+/**
+ * Apply the policy to each card's matches. Hiding drops cards left without matches; demoting
+ * moves cards whose matches are all sold out after the rest. Cards without matches are kept as is.
+ */
+export function applySoldOutPolicyToCards(cards: RestaurantCard[], policy: SoldOutPolicy): RestaurantCard[] {
+    if (policy === "show") return cards;
+
+    const shaped = cards.map(card => {
+        const matches = card.matches ?? [];
+        if (matches.length === 0) return { card, emptied: false, allSoldOut: false };
+        const kept = applySoldOutPolicy(matches, policy);
+        const firstChanged = kept[0]?.id !== matches[0].id;
+        return {
+            card: {
+                ...card,
+                matches: kept,
+                // The highlight follows the top match when a sold-out dish lost that spot
+                highlight: firstChanged && kept.length > 0 ? kept[0].name : card.highlight,
+            },
+            emptied: kept.length === 0,
+            allSoldOut: allMatchesSoldOut(card),
+        };
+    });
+
+    if (policy === "hide") {
+        return shaped.filter(s => !s.emptied).map(({ card }) => card);
+    }
+    return [...shaped.filter(s => !s.allSoldOut), ...shaped.filter(s => s.allSoldOut)].map(({ card }) => card);
+}
+
+/** Sort comparator: with the demote policy, cards whose matches are all sold out go last */
+export function compareByAvailability(a: RestaurantCard, b: RestaurantCard, policy: SoldOutPolicy = resolveSoldOutPolicy()): number {
+    if (policy !== "demote") return 0;
+    return Number(allMatchesSoldOut(a)) - Number(allMatchesSoldOut(b));
+}
+
+function allMatchesSoldOut(card: RestaurantCard): boolean {
+    const matches = card.matches ?? [];
+    return matches.length > 0 && matches.every(isSoldOut);
+}
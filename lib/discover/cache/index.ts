@@ -0,0 +1,152 @@
+/**
+ * Discover caches (one set per process): parsed intents, query embeddings, search result
+ * sets and reply translations, each a bounded LRU with TTL and hit-rate counters
+ *
+ *   DISCOVER_CACHE=off             disable intent, embedding and search result caching
+ *   DISCOVER_CACHE_TTL_SECONDS     intents and search results, default 300
+ *   DISCOVER_CACHE_SYNC_SECONDS    how often search results are checked against
+ *                                  discover_cache_invalidations, default 10
+ */
+
+import { getCatalog } from "@/lib/catalog";
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import { getRecordingContext } from "@/lib/replay/context";
+import type { Intent } from "@/lib/types/discover";
+import type { FallbackResult } from "@/lib/discover/chat/fallback-search";
+import { createInvalidationPoller, type CacheInvalidation, type InvalidationPoller } from "./invalidation";
+import { createLruCache, type CacheStats, type LruCache } from "./lru-cache";
+
+export type { CacheStats, LruCache } from "./lru-cache";
+export { createLruCache } from "./lru-cache";
+export type { CacheInvalidation, FetchInvalidations, InvalidationPoller } from "./invalidation";
+export { ANY_CITY_TAG, cityTag, createInvalidationPoller, invalidationTags, restaurantTag } from "./invalidation";
+
+export interface DiscoverCaches {
+    intents: LruCache<Intent>;
+    /** Query text -> embedding vector (the embedding model is fixed per process) */
+    embeddings: LruCache<number[]>;
+    searchResults: LruCache<FallbackResult>;
+    translations: LruCache<string>;
+}
+
+const TRANSLATION_TTL_MS = 24 * 60 * 60 * 1000;
+const EMBEDDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+let caches: DiscoverCaches | null = null;
+let uncached: DiscoverCaches | null = null;
+let poller: InvalidationPoller | null = null;
+
+export function isDiscoverCacheEnabled(): boolean {
+    return (process.env.DISCOVER_CACHE || "").toLowerCase() !== "off";
+}
+
+function getTtlMs(): number {
+    return (Number(process.env.DISCOVER_CACHE_TTL_SECONDS) || 300) * 1000;
+}
+
+/** bypass: store nothing at all, translations included */
+export function createDiscoverCaches(opts: { bypass?: boolean } = {}): DiscoverCaches {
+    // Disabled caches keep counting lookups but store nothing
+    const size = (entries: number) => (isDiscoverCacheEnabled() && !opts.bypass ? entries : 0);
+    return {
+        intents: createLruCache<Intent>({ name: "intents", maxEntries: size(1000), ttlMs: getTtlMs(), clone: true }),
+        embeddings: createLruCache<number[]>({ name: "embeddings", maxEntries: size(500), ttlMs: EMBEDDING_TTL_MS }),
+        searchResults: createLruCache<FallbackResult>({ name: "searchResults", maxEntries: size(500), ttlMs: getTtlMs(), clone: true }),
+        // Translations are cached even with DISCOVER_CACHE=off: they depend on nothing but the text
+        translations: createLruCache<string>({ name: "translations", maxEntries: opts.bypass ? 0 : 2000, ttlMs: TRANSLATION_TTL_MS }),
+    };
+}
+
+export function getDiscoverCaches(): DiscoverCaches {
+    // Captured and replayed turns (lib/replay) must reach the LLM and database, not this process's caches
+    if (getRecordingContext()) {
+        uncached ??= createDiscoverCaches({ bypass: true });
+        return uncached;
+    }
+    if (!caches) {
+        caches = createDiscoverCaches();
+        console.log("[discover][cache] created", { enabled: isDiscoverCacheEnabled(), ttlMs: getTtlMs() });
+    }
+    return caches;
+}
+
+export function getDiscoverCacheStats(): CacheStats[] {
+    return Object.values(getDiscoverCaches()).map((cache: LruCache<unknown>) => cache.stats());
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+/** Lowercase, collapse whitespace, drop trailing punctuation ("Halal?" == "halal") */
+export function normalizeCacheText(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, " ").trim().replace(/[?!.,]+$/, "").trim();
+}
+
+export function intentCacheKey(query: string, chatState?: { mode?: string; currentRestaurantId?: string | null }): string {
+    return [chatState?.mode ?? "", chatState?.currentRestaurantId ?? "", normalizeCacheText(query)].join("|");
+}
+
+/** Everything the search RPC chain depends on; post-filters (hours, distance, allergens) run on the cached set */
+export function searchCacheKey(args: {
+    resolvedTagIds: string[];
+    queryText: string | null;
+    city: string | null;
+    dietaryLabels: string[];
+}): string {
+    return JSON.stringify([
+        [...args.resolvedTagIds].sort(),
+        args.queryText ? normalizeCacheText(args.queryText) : null,
+        args.city?.trim().toUpperCase() ?? null,
+        [...args.dietaryLabels].map(label => label.toLowerCase()).sort(),
+    ]);
+}
+
+// ============================================
+// INVALIDATION
+// ============================================
+
+async function fetchInvalidations(afterId: number | null): Promise<CacheInvalidation[]> {
+    const { data, error } = await createServiceRoleClient().rpc("discover_cache_invalidations_since", {
+        p_after_id: afterId,
+    });
+    if (error) throw new Error(error.message);
+    return ((data || []) as { id: number; restaurant_id: string | null; city: string | null }[]).map(row => ({
+        id: Number(row.id),
+        restaurantId: row.restaurant_id,
+        city: row.city,
+    }));
+}
+
+/** Drop search results for the tags (null = all of them) */
+export function invalidateSearchResults(tags: string[] | null): number {
+    const { searchResults } = getDiscoverCaches();
+    if (tags === null) {
+        const size = searchResults.stats().size;
+        searchResults.clear();
+        return size;
+    }
+    return searchResults.invalidateTags(tags);
+}
+
+/**
+ * Apply restaurant changes logged by the database since the last sync (rate-limited; call
+ * before reading search results). Needs the service role; without it only TTLs apply.
+ */
+export async function syncCacheInvalidations(): Promise<void> {
+    // Recorded turns bypass the caches, so there is nothing to invalidate (and no poll to record);
+    // an in-memory catalog never changes under the cache
+    if (!isDiscoverCacheEnabled() || !process.env.SUPABASE_SERVICE_ROLE_KEY || getRecordingContext()) return;
+    if (getCatalog().kind === "memory") return;
+    if (!poller) {
+        poller = createInvalidationPoller({
+            fetch: fetchInvalidations,
+            apply: tags => {
+                const dropped = invalidateSearchResults(tags);
+                console.log("[discover][cache] invalidated", { tags: tags ?? "all", dropped });
+            },
+            intervalMs: (Number(process.env.DISCOVER_CACHE_SYNC_SECONDS) || 10) * 1000,
+        });
+    }
+    await poller.sync();
+}
@@ -0,0 +1,99 @@
+/**
+ * Cross-instance cache invalidation: database triggers append to discover_cache_invalidations
+ * (migration 0061) whenever a restaurant's dishes, tags or availability change, and each
+ * process polls the log at most once per interval.
+ */
+
+export interface CacheInvalidation {
+    id: number;
+    /** null = catalogue-wide change (tag definitions, aliases): drop every search result */
+    restaurantId: string | null;
+    city: string | null;
+}
+
+export type FetchInvalidations = (afterId: number | null) => Promise<CacheInvalidation[]>;
+
+export interface InvalidationPoller {
+    /** Fetch and apply new invalidations unless the last sync was under intervalMs ago */
+    sync(): Promise<void>;
+    readonly cursor: number | null;
+}
+
+/** Search results for queries without a city can include any restaurant */
+export const ANY_CITY_TAG = "city:*";
+
+export function restaurantTag(restaurantId: string): string {
+    return `restaurant:${restaurantId}`;
+}
+
+export function cityTag(city: string | null | undefined): string {
+    const normalized = city?.trim().toUpperCase();
+    return normalized ? `city:${normalized}` : ANY_CITY_TAG;
+}
+
+/**
+ * Tags to drop for one change, or null to drop everything. A restaurant change also drops
+ * searches in its city (a new or renamed dish may now match) and searches without a city.
+ */
+export function invalidationTags(event: CacheInvalidation): string[] | null {
+    if (!event.restaurantId) return null;
+    const tags = [restaurantTag(event.restaurantId), ANY_CITY_TAG];
+    if (event.city) tags.push(cityTag(event.city));
+    return tags;
+}
+
+export function createInvalidationPoller(opts: {
+    fetch: FetchInvalidations;
+    /** Receives the tags to drop, or null to drop everything */
+    apply: (tags: string[] | null) => void;
+    intervalMs: number;
+    /** This many pending events (a full RPC page, e.g. after a bulk import) drops everything instead */
+    maxBacklog?: number;
+    now?: () => number;
+}): InvalidationPoller {
+    const now = opts.now ?? Date.now;
+    const maxBacklog = opts.maxBacklog ?? 1000;
+    let cursor: number | null = null;
+    let lastSyncAt = -Infinity;
+    let running: Promise<void> | null = null;
+
+    async function poll() {
+        try {
+            const events = await opts.fetch(cursor);
+            if (events.length === 0) {
+                if (cursor === null) cursor = 0; // Empty log: everything from now on is new
+                return;
+            }
+            const latest = Math.max(...events.map(e => e.id));
+
+            // First sync only finds the starting point; nothing was cached from before it
+            if (cursor !== null) {
+                if (events.length >= maxBacklog || events.some(e => !e.restaurantId)) {
+                    opts.apply(null);
+                } else {
+                    opts.apply([...new Set(events.flatMap(e => invalidationTags(e) ?? []))]);
+                }
+            }
+            cursor = latest;
+        } catch (error) {
+            // Keep the cursor and retry next interval; TTLs bound staleness meanwhile
+            console.error("[discover][cache] invalidation sync failed:", error);
+        }
+    }
+
+    return {
+        get cursor() {
+            return cursor;
+        },
+
+        sync() {
+            if (running) return running;
+            if (now() - lastSyncAt < opts.intervalMs) return Promise.resolve();
+            lastSyncAt = now();
+            running = poll().finally(() => {
+                running = null;
+            });
+            return running;
+        },
+    };
+}
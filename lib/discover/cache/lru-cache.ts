@@ -0,0 +1,175 @@
+/**
+ * Bounded in-process LRU cache with TTL, tag invalidation and hit-rate counters
+ */
+
+export interface CacheStats {
+    name: string;
+    size: number;
+    maxEntries: number;
+    hits: number;
+    misses: number;
+    /** Entries dropped to stay under maxEntries */
+    evictions: number;
+    /** Entries dropped by invalidateTags / clear */
+    invalidations: number;
+    hitRate: number;
+}
+
+export interface LruCache<V> {
+    readonly name: string;
+    get(key: string): V | undefined;
+    set(key: string, value: V, tags?: string[]): void;
+    /**
+     * Cached value, or the result of load (cached unless shouldCache says no).
+     * Concurrent misses for the same key share one load.
+     */
+    getOrLoad(
+        key: string,
+        load: () => Promise<V>,
+        opts?: { tags?: string[] | ((value: V) => string[]); shouldCache?: (value: V) => boolean }
+    ): Promise<V>;
+    delete(key: string): boolean;
+    /** Drop every entry carrying any of the tags; returns how many were dropped */
+    invalidateTags(tags: string[]): number;
+    clear(): void;
+    stats(): CacheStats;
+}
+
+interface Entry<V> {
+    value: V;
+    expiresAt: number;
+    tags: string[];
+}
+
+export function createLruCache<V>(opts: {
+    name: string;
+    maxEntries: number;
+    ttlMs: number;
+    /** Copy values in and out so callers cannot mutate cached state in place */
+    clone?: boolean;
+    now?: () => number;
+}): LruCache<V> {
+    const now = opts.now ?? Date.now;
+    const copy = opts.clone ? (value: V) => structuredClone(value) : (value: V) => value;
+    // Map iteration order is insertion order, so the first key is the least recently used
+    const entries = new Map<string, Entry<V>>();
+    const keysByTag = new Map<string, Set<string>>();
+    const inflight = new Map<string, Promise<V>>();
+    let hits = 0;
+    let misses = 0;
+    let evictions = 0;
+    let invalidations = 0;
+    // Bumped by invalidation so a load that started before it is not cached afterwards
+    let generation = 0;
+
+    function remove(key: string): boolean {
+        const entry = entries.get(key);
+        if (!entry) return false;
+        entries.delete(key);
+        for (const tag of entry.tags) {
+            const keys = keysByTag.get(tag);
+            keys?.delete(key);
+            if (keys?.size === 0) keysByTag.delete(tag);
+        }
+        return true;
+    }
+
+    function lookup(key: string): Entry<V> | undefined {
+        const entry = entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= now()) {
+            remove(key);
+            return undefined;
+        }
+        // Move to the most recently used end
+        entries.delete(key);
+        entries.set(key, entry);
+        return entry;
+    }
+
+    function set(key: string, value: V, tags: string[] = []) {
+        remove(key);
+        if (opts.maxEntries <= 0) return; // Disabled: count lookups, store nothing
+        entries.set(key, { value: copy(value), expiresAt: now() + opts.ttlMs, tags });
+        for (const tag of tags) {
+            const keys = keysByTag.get(tag) ?? new Set<string>();
+            keys.add(key);
+            keysByTag.set(tag, keys);
+        }
+        while (entries.size > opts.maxEntries) {
+            const oldest = entries.keys().next().value as string;
+            remove(oldest);
+            evictions++;
+        }
+    }
+
+    function get(key: string): V | undefined {
+        const entry = lookup(key);
+        if (entry) hits++;
+        else misses++;
+        return entry ? copy(entry.value) : undefined;
+    }
+
+    return {
+        name: opts.name,
+        get,
+        set,
+
+        async getOrLoad(key, load, loadOpts = {}) {
+            const cached = get(key);
+            if (cached !== undefined) return cached;
+
+            const pending = inflight.get(key);
+            if (pending) return pending.then(copy);
+
+            const startedAt = generation;
+            const promise = load().then(value => {
+                if (startedAt === generation && (loadOpts.shouldCache?.(value) ?? true)) {
+                    set(key, value, typeof loadOpts.tags === "function" ? loadOpts.tags(value) : loadOpts.tags);
+                }
+                return value;
+            });
+            inflight.set(key, promise);
+            try {
+                return copy(await promise);
+            } finally {
+                inflight.delete(key);
+            }
+        },
+
+        delete: remove,
+
+        invalidateTags(tags) {
+            generation++;
+            let dropped = 0;
+            for (const tag of tags) {
+                for (const key of [...(keysByTag.get(tag) ?? [])]) {
+                    if (remove(key)) dropped++;
+                }
+            }
+            invalidations += dropped;
+            return dropped;
+        },
+
+        clear() {
+            generation++;
+            invalidations += entries.size;
+            entries.clear();
+            keysByTag.clear();
+        },
+
+        stats() {
+            const lookups = hits + misses;
+            return {
+                name: opts.name,
+                size: entries.size,
+                maxEntries: opts.maxEntries,
+                hits,
+                misses,
+                evictions,
+                invalidations,
+                hitRate: lookups === 0 ? 0 : hits / lookups,
+            };
+        },
+    };
+}
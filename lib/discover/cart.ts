@@ -0,0 +1,135 @@
+/**
+ * Discover cart: dishes with their chosen options and quantities, for one restaurant at a
+ * time (an order goes to a single kitchen). Option rules follow modifier_groups: a choice
+ * group needs min_selection..max_selection picks, sold-out options can't be picked.
+ * The server repeats the option check and prices every line itself (lib/discover/orders).
+ */
+
+import type { Cart, CartItem, CartOption, CurrencyCode, ModifierGroup, Money, PlaceOrderItem } from "@/lib/types/discover";
+import { money } from "@/lib/discover/money";
+
+export type { Cart, CartItem, CartOption };
+
+export const MAX_QUANTITY = 20;
+
+export interface CartRestaurant {
+    id: string;
+    name: string;
+    currency: CurrencyCode;
+}
+
+/** Same dish with the same options = same line, whatever order the options were picked in */
+export function cartLineId(dishId: string, optionIds: string[]): string {
+    return [dishId, ...[...optionIds].sort()].join(":");
+}
+
+function roundPrice(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+export function unitPriceWithOptions(basePrice: number, options: Pick<CartOption, "price_adjustment">[]): number {
+    return roundPrice(options.reduce((sum, option) => sum + option.price_adjustment, basePrice));
+}
+
+/** Chosen options in menu order; ids outside the groups are left out */
+export function selectedOptions(groups: ModifierGroup[], optionIds: string[]): CartOption[] {
+    return groups.flatMap(group => group.options
+        .filter(option => optionIds.includes(option.id))
+        .map(option => ({
+            group_id: group.id,
+            group_name: group.name,
+            option_id: option.id,
+            name: option.name,
+            price_adjustment: option.price_adjustment,
+        })));
+}
+
+/** Why a selection can't be ordered ("Choose a spice level"), or null when it can */
+export function validateSelection(groups: ModifierGroup[], optionIds: string[]): string | null {
+    const known = new Set(groups.flatMap(group => group.options.map(option => option.id)));
+    if (optionIds.some(id => !known.has(id))) return "Unknown option";
+    if (new Set(optionIds).size !== optionIds.length) return "Option chosen twice";
+
+    for (const group of groups) {
+        const chosen = group.options.filter(option => optionIds.includes(option.id));
+        const soldOut = chosen.find(option => option.is_available === false);
+        if (soldOut) return `${soldOut.name} is sold out`;
+        if (chosen.length < group.min_selection) {
+            return group.min_selection === 1
+                ? `Choose a ${group.name.toLowerCase()}`
+                : `Choose at least ${group.min_selection} for ${group.name}`;
+        }
+        if (group.max_selection !== null && chosen.length > group.max_selection) {
+            return `Choose at most ${group.max_selection} for ${group.name}`;
+        }
+    }
+    return null;
+}
+
+/** Preselects the first available option of each required choice group */
+export function defaultSelection(groups: ModifierGroup[]): string[] {
+    return groups.flatMap(group => {
+        if (group.modifier_type !== "choice" || group.min_selection < 1) return [];
+        return group.options
+            .filter(option => option.is_available !== false)
+            .slice(0, group.min_selection)
+            .map(option => option.id);
+    });
+}
+
+function clampQuantity(quantity: number): number {
+    return Math.min(MAX_QUANTITY, Math.max(0, Math.floor(quantity)));
+}
+
+/**
+ * Adds a line (or more of an existing one). A dish from another restaurant starts a new
+ * cart; the page asks before replacing a non-empty one.
+ */
+export function addToCart(
+    cart: Cart | null,
+    restaurant: CartRestaurant,
+    item: Omit<CartItem, "line_id">
+): Cart {
+    const base: Cart = cart && cart.restaurant_id === restaurant.id
+        ? cart
+        : { restaurant_id: restaurant.id, restaurant_name: restaurant.name, currency: restaurant.currency, items: [] };
+    const lineId = cartLineId(item.dish_id, item.options.map(option => option.option_id));
+    const existing = base.items.find(line => line.line_id === lineId);
+
+    const items = existing
+        ? base.items.map(line => line.line_id === lineId
+            ? { ...line, quantity: clampQuantity(line.quantity + item.quantity) }
+            : line)
+        : [...base.items, { ...item, line_id: lineId, quantity: clampQuantity(item.quantity) }];
+    return { ...base, items: items.filter(line => line.quantity > 0) };
+}
+
+/** 0 removes the line; an emptied cart is null */
+export function setQuantity(cart: Cart, lineId: string, quantity: number): Cart | null {
+    const items = cart.items
+        .map(line => line.line_id === lineId ? { ...line, quantity: clampQuantity(quantity) } : line)
+        .filter(line => line.quantity > 0);
+    return items.length > 0 ? { ...cart, items } : null;
+}
+
+export function cartCount(cart: Cart | null): number {
+    return (cart?.items ?? []).reduce((sum, line) => sum + line.quantity, 0);
+}
+
+export function lineTotal(line: CartItem): number {
+    return roundPrice(line.unit_price * line.quantity);
+}
+
+export function cartTotal(cart: Cart): Money {
+    return money(roundPrice(cart.items.reduce((sum, line) => sum + lineTotal(line), 0)), cart.currency);
+}
+
+/** The cart as order lines, with the prices the customer saw */
+export function toPlaceOrderItems(cart: Cart): PlaceOrderItem[] {
+    return cart.items.map(line => ({
+        dish_id: line.dish_id,
+        quantity: line.quantity,
+        option_ids: line.options.map(option => option.option_id),
+        unit_price: line.unit_price,
+    }));
+}
@@ -0,0 +1,31 @@
+/**
+ * CLARIFY action: asks the user what they are looking for
+ */
+
+import { NextResponse } from "next/server";
+import { translateIfNeeded, pickReplyLang } from "@/lib/discover/multilingual";
+import type { ChatActionContext } from "@/lib/discover/chat/context";
+import { buildSafeResponse } from "@/lib/discover/chat/safe-response";
+
+export async function handleClarify(ctx: ChatActionContext): Promise<NextResponse> {
+  const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  const replyLang = pickReplyLang({
+    intentLang: ctx.intent.language,
+    preferredLang: ctx.chatState?.preferred_language ?? null,
+    query: ctx.query
+  });
+  const text = "What type of cuisine or dish are you in the mood for? I can help you find restaurants based on specific dishes, dietary preferences, or cuisine types.";
+  const translated = await translateIfNeeded(ctx.llm, text, replyLang, ctx.trace);
+
+  return NextResponse.json(buildSafeResponse(
+    {
+      id: messageId,
+      role: "assistant",
+      content: translated,
+      restaurants: [],
+      followupChips: [],
+    },
+    ctx.chatState || { mode: "discovery" },
+    "handleClarify"
+  ));
+}
@@ -0,0 +1,27 @@
+/**
+ * EXIT_RESTAURANT action: leaves restaurant focus and returns to discovery mode
+ */
+
+import { NextResponse } from "next/server";
+import type { ChatActionContext } from "@/lib/discover/chat/context";
+import { buildSafeResponse } from "@/lib/discover/chat/safe-response";
+
+export async function handleExitRestaurant(ctx: ChatActionContext): Promise<NextResponse> {
+  const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  return NextResponse.json(buildSafeResponse(
+    {
+      id: messageId,
+      role: "assistant",
+      content: "Back to searching all restaurants. What would you like to find?",
+      restaurants: [],
+      followupChips: [],
+    },
+    {
+      mode: "discovery",
+      currentRestaurantId: null,
+      currentRestaurantName: null,
+      grounded: ctx.grounded!,
+    },
+    "handleExitRestaurant"
+  ));
+}
@@ -0,0 +1,161 @@
+/**
+ * EXPLAIN action: explains a dish or culinary term, grounded in the shown menu
+ */
+
+import { NextResponse } from "next/server";
+import { pickReplyLang, languageName } from "@/lib/discover/multilingual";
+import type { RestaurantCard, GroundedState } from "@/lib/types/discover";
+import type { ChatActionContext } from "@/lib/discover/chat/context";
+import { classifyExplainType, extractKeyTermForDefinition, findMenuMentions } from "@/lib/discover/chat/explain-helpers";
+import { finalize, buildSafeResponse } from "@/lib/discover/chat/safe-response";
+
+export async function handleDishExplain(ctx: ChatActionContext): Promise<NextResponse> {
+  const { query, intent, grounded: groundedFromClient, chatState: chatStateFromClient, llm } = ctx;
+  const replyLang = pickReplyLang({
+    intentLang: intent.language,
+    preferredLang: chatStateFromClient?.preferred_language ?? null,
+    query
+  });
+  const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  // Guard: If no grounded context, use empty payload
+  const payload: GroundedState = groundedFromClient ?? {
+    restaurants: [],
+    lastQuery: undefined,
+    lastDietary: null
+  };
+
+  const explainType = classifyExplainType(query);
+
+  // Find best dish match (only if query includes a dish name)
+  const q = query.toLowerCase();
+  let best: { restaurantName: string; restaurantCity?: string; dishName: string; dishDescription?: string } | null = null;
+
+  // Try to find a specific dish mentions in the query
+  for (const r of payload.restaurants.slice(0, 5)) {
+    for (const d of (r.matches || []).slice(0, 10)) {
+      const name = (d.name || "").toLowerCase();
+      // Strict match: query must include the dish name
+      if (name && q.includes(name)) {
+        best = { restaurantName: r.name, restaurantCity: r.city || undefined, dishName: d.name, dishDescription: d.description || undefined };
+        break;
+      }
+    }
+    if (best) break;
+  }
+
+  console.log("[discover][dish-explain]", { explainType, query, bestDish: best?.dishName ?? null });
+
+  // A) DEFINITION MODE
+  if (explainType === "DEFINITION") {
+    // Extract the definition term from the query
+    const definitionTerm = extractKeyTermForDefinition(query);
+
+    // Find menu mentions - scan grounded dishes for term in name/description
+    const menuMentions = definitionTerm ? findMenuMentions(payload, definitionTerm) : [];
+    const menuMentionDishName = menuMentions.length > 0 ? menuMentions[0] : null;
+
+    // Enhanced logging for debugging
+    console.log("[discover][dish-explain-def]", {
+      query,
+      definitionTerm,
+      menuMentionDishName,
+      totalMentions: menuMentions.length
+    });
+
+    const defSystem = `You are a helpful food assistant.
+Answer general food knowledge questions ONLY (origin, ingredients, taste).
+Do NOT mention any restaurant/menu facts.
+Keep definitions concise (1-2 sentences).
+
+IMPORTANT: You MUST respond entirely in ${languageName(replyLang)}. Do NOT respond in any other language.`;
+
+    const completion = await llm.complete({
+      messages: [
+        { role: "system", content: defSystem },
+        { role: "user", content: `User question: "${query}"` },
+      ],
+      temperature: 0.3,
+    });
+
+    let answer = completion?.trim() || "I don't have details on that.";
+
+    // Append menu mention ONLY if term was found in grounded dishes
+    if (definitionTerm && menuMentions.length > 0) {
+      answer += `\n\nOn this menu, I see "${definitionTerm}" mentioned in: ${menuMentions.join(", ")}.`;
+    }
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: answer,
+        restaurants: finalize(payload.restaurants as RestaurantCard[], chatStateFromClient, intent),
+        followupChips: [],
+      },
+      {
+        ...chatStateFromClient,
+        grounded: payload,
+        last_explain: { text: answer, language: replyLang, dishIds: [] }
+      },
+      "handleDishExplain_Def"
+    ));
+  }
+
+  // B) MENU_FACT MODE
+  // If best is null -> clarify (don't guess)
+  if (!best) {
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: replyLang === "sv"
+          ? "Jag är osäker på vilken rätt du menar. Kan du precisera? (t.ex. Margherita eller Funghi)"
+          : "Which dish do you mean? (e.g., Margherita or Funghi)",
+        restaurants: finalize(payload.restaurants as RestaurantCard[], chatStateFromClient, intent),
+        followupChips: []
+      },
+      { ...chatStateFromClient, grounded: payload },
+      "handleDishExplain_NoMatch"
+    ));
+  }
+
+  const dishExplainerSystem = `You are a helpful food assistant.
+You MAY answer general questions about what a dish is (origin/cuisine, typical style, typical taste).
+BUT:
+- Any claims about allergens, ingredients, dietary suitability (vegan/gluten-free/halal), or "contains X" MUST come ONLY from the provided menu facts.
+- For taste/spice/creaminess/sweetness, use probabilistic language: "typically", "often", "usually".
+- End with a short safety note that recipes vary and to confirm with the restaurant.
+
+IMPORTANT: You MUST respond entirely in ${languageName(replyLang)}. Do NOT respond in any other language.`;
+
+  const menuFacts = `Restaurant: ${best.restaurantName}${best.restaurantCity ? ` (${best.restaurantCity})` : ""}
+Dish: ${best.dishName}
+Menu description: ${best.dishDescription ?? "—"}`;
+
+  const completion = await llm.complete({
+    messages: [
+      { role: "system", content: dishExplainerSystem },
+      { role: "user", content: `User question: "${query}"\n\nMenu facts:\n${menuFacts}` },
+    ],
+    temperature: 0.4,
+  });
+
+  const answer = completion?.trim() || "I can explain the dish in general, but I don't have more menu details here.";
+
+  return NextResponse.json(buildSafeResponse(
+    {
+      id: messageId,
+      role: "assistant",
+      content: answer,
+      restaurants: finalize(payload.restaurants as RestaurantCard[], chatStateFromClient, intent),
+      followupChips: [],
+    },
+    {
+      ...chatStateFromClient,
+      grounded: payload,
+      last_explain: { text: answer, language: replyLang, dishIds: best ? [best.dishName] : [] }
+    },
+    "handleDishExplain_Fact"
+  ));
+}
@@ -0,0 +1,196 @@
+/**
+ * FOLLOWUP action: answers questions about the currently grounded results
+ */
+
+import { NextResponse } from "next/server";
+import { pickReplyLang, languageName } from "@/lib/discover/multilingual";
+import type { RestaurantCard } from "@/lib/types/discover";
+import type { ChatActionContext } from "@/lib/discover/chat/context";
+import { classifyExplainType, extractKeyTermForDefinition, findMenuMentions } from "@/lib/discover/chat/explain-helpers";
+import { finalize, buildSafeResponse } from "@/lib/discover/chat/safe-response";
+import { getCatalog } from "@/lib/catalog";
+import { describeModifierGroup } from "@/lib/discover/modifiers";
+
+export async function handleFollowup(ctx: ChatActionContext): Promise<NextResponse> {
+  const { query, intent, grounded: groundedFromClient, chatState: chatStateFromClient, llm } = ctx;
+  const replyLang = pickReplyLang({
+    intentLang: intent.language,
+    preferredLang: chatStateFromClient?.preferred_language ?? null,
+    query
+  });
+  const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  // Guard: If no grounded context, we can't do a follow-up - return a helpful message
+  if (!groundedFromClient || !groundedFromClient.restaurants) {
+    console.log("[discover][followup] No grounded context, returning clarification");
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: "I don't have any previous results to refer to. Could you tell me what you're looking for?",
+        restaurants: [],
+        followupChips: []
+      },
+      chatStateFromClient!,
+      "handleFollowup_NoContext"
+    ));
+  }
+
+  const payload = groundedFromClient;
+
+  const explainType = classifyExplainType(query);
+  console.log("[discover][dish-explain]", { explainType, query });
+
+  if (explainType === "DEFINITION") {
+    // Extract the definition term from the query
+    const definitionTerm = extractKeyTermForDefinition(query);
+
+    // Find menu mentions - scan grounded dishes for term in name/description
+    const menuMentions = definitionTerm ? findMenuMentions(payload, definitionTerm) : [];
+    const menuMentionDishName = menuMentions.length > 0 ? menuMentions[0] : null;
+
+    // Enhanced logging for debugging
+    console.log("[discover][followup-def]", {
+      query,
+      definitionTerm,
+      menuMentionDishName,
+      totalMentions: menuMentions.length
+    });
+
+    // DEFINITION MODE: General knowledge ONLY, with separate menu mentions
+    const systemPrompt = `You are a helpful food assistant.
+Answer general food knowledge questions ONLY.
+Do NOT mention any restaurant/menu facts.
+Keep definitions concise (1-2 sentences).
+Reply language: ${languageName(replyLang)}.`;
+
+    const userPrompt = `User question: "${query}"`;
+
+    const completion = await llm.complete({
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+      temperature: 0.3
+    });
+
+    let answer = completion?.trim() || "I don't have details on that.";
+
+    // Append menu mention ONLY if term was found in grounded dishes
+    if (definitionTerm && menuMentions.length > 0) {
+      answer += `\n\nOn this menu, I see "${definitionTerm}" mentioned in: ${menuMentions.join(", ")}.`;
+    }
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: answer,
+        restaurants: finalize(payload.restaurants as RestaurantCard[], chatStateFromClient, intent),
+        followupChips: []
+      },
+      { ...chatStateFromClient, grounded: payload },
+      "handleFollowup_Def"
+    ));
+  }
+
+  // MENU_FACT MODE (Original Logic with stricter context)
+
+  // Extract query terms for matching (remove stopwords)
+  const queryTerms = query
+    .toLowerCase()
+    .replace(/\b(what|is|are|vad|är|the|a|an|det|en|ett|does|contain|have|har|innehåller)\b/gi, "")
+    .replace(/[?!.,]/g, "")
+    .split(/\s+/)
+    .filter(t => t.length > 2);
+
+  // Find the best matching dish based on query terms
+  let bestMatch: { restaurant: string; dishId: string; dish: string; description: string; price: number | null } | null = null;
+
+  for (const r of payload.restaurants.slice(0, 5)) {
+    for (const d of (r.matches || []).slice(0, 10)) {
+      const dishText = `${d.name} ${d.description ?? ""}`.toLowerCase();
+      for (const term of queryTerms) {
+        if (dishText.includes(term)) {
+          bestMatch = {
+            restaurant: r.name,
+            dishId: d.id,
+            dish: d.name,
+            description: d.description ?? "",
+            price: d.price ?? null
+          };
+          break;
+        }
+      }
+      if (bestMatch) break;
+    }
+    if (bestMatch) break;
+  }
+
+  // Build single-dish context (If no match found, PROVIDE NO CONTEXT)
+  const ctxLines: string[] = [];
+  if (bestMatch) {
+    const priceStr = bestMatch.price ? ` | Price: ${bestMatch.price} kr` : "";
+    ctxLines.push(`Restaurant: ${bestMatch.restaurant} | Dish: ${bestMatch.dish} | Description: ${bestMatch.description}${priceStr}`);
+
+    // Options the guest can pick (spice level, extras), so "can I get it mild?" stays grounded
+    const modifiers = await getCatalog().getDishModifiers([bestMatch.dishId]).catch(() => null);
+    const groups = modifiers?.get(bestMatch.dishId) ?? [];
+    if (groups.length > 0) {
+      ctxLines.push(`Options: ${groups.map(describeModifierGroup).join("; ")}`);
+    }
+  }
+
+  // If user is asking a FACT but we have no matching dish context -> Clarify or fail gracefully
+  if (ctxLines.length === 0) {
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: replyLang === "sv"
+          ? "Jag är osäker på vilken rätt du menar. Kan du precisera? (t.ex. Margherita eller Funghi)"
+          : "I'm unsure which dish you mean. Could you specify? (e.g., Margherita or Funghi)",
+        restaurants: finalize(payload.restaurants as RestaurantCard[], chatStateFromClient, intent),
+        followupChips: []
+      },
+      { ...chatStateFromClient, grounded: payload },
+      "handleFollowup_FactNoMatch"
+    ));
+  }
+
+  // Updated system prompt: allows general knowledge, restricts menu claims
+  const followupSystem = `You are a helpful food assistant.
+You can answer general food knowledge questions (ingredients, cooking methods, origins).
+Menu/restaurant facts MUST come only from the provided context lines.
+Do NOT infer ingredients for dishes not in the context.
+Do NOT claim a dish contains or lacks something unless it's explicitly in the context.
+If asked about allergens or ingredients not in context, say you don't have that menu detail.
+
+IMPORTANT: You MUST respond entirely in ${languageName(replyLang)}. Do NOT respond in any other language.`;
+
+  const followupUser = `User question: "${query}"
+Context:
+${ctxLines.join("\n")}`;
+
+  const completion = await llm.complete({
+    messages: [
+      { role: "system", content: followupSystem },
+      { role: "user", content: followupUser },
+    ],
+    temperature: 0.3,
+  });
+
+  const answer = completion?.trim() || "I don't have details on that.";
+
+  return NextResponse.json(buildSafeResponse(
+    {
+      id: messageId,
+      role: "assistant",
+      content: answer,
+      restaurants: finalize(payload.restaurants as RestaurantCard[], chatStateFromClient, intent),
+      followupChips: [],
+    },
+    { ...chatStateFromClient, grounded: payload },
+    "handleFollowup_Fact"
+  ));
+}
@@ -0,0 +1,47 @@
+/**
+ * RESHOW action: shows the previously grounded results again
+ */
+
+import { NextResponse } from "next/server";
+import type { ChatPrefs } from "@/lib/types/discover";
+import type { ChatActionContext } from "@/lib/discover/chat/context";
+import { finalize, buildSafeResponse, normalizeRestaurantCards } from "@/lib/discover/chat/safe-response";
+
+export async function handleReshow(ctx: ChatActionContext): Promise<NextResponse> {
+  const { intent, grounded: groundedFromClient, chatState: chatStateFromClient } = ctx;
+  const prefs: ChatPrefs = chatStateFromClient.prefs || {};
+  const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  const isSwedish = prefs.language === "sv";
+
+  // Anti-loop: Don't reshow if last search had no results
+  if (groundedFromClient?.lastWasNoResults) {
+    console.log("[discover][antiloop] Blocking RESHOW after no-results");
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: isSwedish
+          ? "Jag hittade inga explicita taggar ännu (eller täckningen är begränsad). Vill du söka efter rättnamn (butter chicken/pizza) eller välja en stad?"
+          : "I didn't find explicit tags yet (or coverage is limited). Want to search by dish name (butter chicken/pizza) or pick a city?",
+        restaurants: [],
+        followupChips: [],
+      },
+      { ...chatStateFromClient, prefs, lastAnswerKind: "clarify" },
+      "handleReshow:blocked"
+    ));
+  }
+
+  return NextResponse.json(buildSafeResponse(
+    {
+      id: messageId,
+      role: "assistant",
+      content: isSwedish
+        ? "Här är de bästa alternativen igen. Vill du att jag filtrerar på en specifik rätt?"
+        : "Here are the top options again. Want me to narrow it to a specific dish?",
+      restaurants: finalize(normalizeRestaurantCards(groundedFromClient?.restaurants || []), chatStateFromClient, intent),
+      followupChips: [],
+    },
+    { ...chatStateFromClient, prefs, lastAnswerKind: "results", grounded: groundedFromClient },
+    "handleReshow"
+  ));
+}
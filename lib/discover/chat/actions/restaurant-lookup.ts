@@ -0,0 +1,173 @@
+/**
+ * RESTAURANT_LOOKUP action: restaurant profile card (hours, address, menu preview)
+ */
+
+import { NextResponse } from "next/server";
+import { getCatalog } from "@/lib/catalog";
+import type { Plan } from "@/lib/discover/planner";
+import { findBestRestaurantMatch, type RestaurantProfile } from "@/lib/discover/restaurant-lookup";
+import { translateIfNeeded, pickReplyLang } from "@/lib/discover/multilingual";
+import type { RestaurantCard } from "@/lib/types/discover";
+import type { ChatActionContext } from "@/lib/discover/chat/context";
+import { handleSearch } from "@/lib/discover/chat/actions/search";
+import { finalize, buildSafeResponse } from "@/lib/discover/chat/safe-response";
+
+/** Profile card as shown to the user (also rebuilt for "Ask about this restaurant") */
+export function buildProfileCard(restaurantProfile: RestaurantProfile): RestaurantCard {
+  return {
+    id: restaurantProfile.id,
+    name: restaurantProfile.name,
+    city: restaurantProfile.city,
+    address: restaurantProfile.address,
+    cuisine_type: restaurantProfile.cuisine_type,
+    phone: restaurantProfile.phone,
+    // email deliberately omitted from card display (put under "More")
+    website: restaurantProfile.website,
+    opening_hours: restaurantProfile.opening_hours,
+    opening_hours_exceptions: restaurantProfile.opening_hours_exceptions,
+    is_open_now: restaurantProfile.is_open_now,
+    today_hours: restaurantProfile.today_hours,
+    hours_note: restaurantProfile.hours_note,
+    hours_exception_note: restaurantProfile.hours_exception_note,
+    accepts_dine_in: restaurantProfile.accepts_dine_in,
+    accepts_takeaway: restaurantProfile.accepts_takeaway,
+    accepts_delivery: restaurantProfile.accepts_delivery,
+    accepts_reservations: restaurantProfile.accepts_reservations,
+    amenities: restaurantProfile.amenities,
+    matches: restaurantProfile.menu_preview || [],
+    highlight: restaurantProfile.menu_preview?.[0]?.name || null,
+  };
+}
+
+// ============================================
+// RESTAURANT LOOKUP HANDLER (Google-style profile)
+// ============================================
+export async function handleRestaurantLookup(ctx: ChatActionContext): Promise<NextResponse> {
+  const { query, intent, chatState: chatStateFromClient, llm, trace } = ctx;
+  // Calculate reply language using priority logic
+  const replyLang = pickReplyLang({
+    intentLang: intent.language,
+    preferredLang: chatStateFromClient?.preferred_language ?? null,
+    query
+  });
+  const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  console.log("[discover][restaurant-lookup] Starting lookup:", {
+    query,
+    restaurantName: intent.restaurant_name,
+    isRestaurantLookup: intent.is_restaurant_lookup
+  });
+
+  try {
+    // Use restaurant_name from intent, or the original query
+    const searchText = intent.restaurant_name || query;
+
+    const restaurantProfile = await findBestRestaurantMatch({
+      queryText: searchText,
+      city: intent.city,
+      catalog: getCatalog(),
+    });
+
+    if (!restaurantProfile) {
+      // No strong match found
+      console.log("[discover][restaurant-lookup] No match found");
+
+      // Check if user explicitly used restaurant intent words
+      // Only show "restaurant not found" message if they explicitly asked for a restaurant
+      const explicitRestaurantWords = /\b(restaurant|place|cafe|pizzeria|restaurang|ställe|bar|bistro|eatery)\b/i;
+      const hasExplicitRestaurantIntent = explicitRestaurantWords.test(query);
+
+      if (hasExplicitRestaurantIntent) {
+        // User explicitly asked for restaurant -> show "not found" message
+        const message = `I couldn't find an exact restaurant named "${searchText}". Here are some suggestions:`;
+        const translatedMessage = await translateIfNeeded(llm, message, replyLang, trace);
+        return NextResponse.json(buildSafeResponse(
+          {
+            id: messageId,
+            role: "assistant",
+            kind: "answer",
+            content: translatedMessage,
+            restaurants: [],
+            followupChips: [],
+          },
+          {
+            ...chatStateFromClient,
+            mode: "discovery"
+          },
+          "handleRestaurantLookup_NoMatch"
+        ));
+      }
+
+      // No explicit restaurant intent -> fallback to normal discovery search
+      console.log("[discover][restaurant-lookup] Falling back to discovery search");
+      const fallbackPlan: Plan = {
+        action: "SEARCH",
+        confidence: 0.8,
+        reason: null,
+        prefs_patch: null,
+        dish_query: null,
+        search: null
+      };
+      return handleSearch(
+        {
+          ...ctx,
+          intent: { ...intent, is_restaurant_lookup: false, restaurant_name: null },
+          plan: fallbackPlan,
+          grounded: null,
+        },
+        { skipRestaurantLookup: true } // Prevent infinite loop
+      );
+    }
+
+    console.log("[discover][restaurant-lookup] Found restaurant:", {
+      id: restaurantProfile.id,
+      name: restaurantProfile.name,
+      isOpen: restaurantProfile.is_open_now,
+      menuPreviewCount: restaurantProfile.menu_preview?.length
+    });
+
+    // Build profile response - NO extra assistant text, just the card
+    const profileCard = buildProfileCard(restaurantProfile);
+
+    // Build status text (deterministic, no emojis for UI logic):
+    // "Open now • 11:00-22:00 • Closes in 20 minutes", "Closed today (Midsommarafton) • Opens at 11:00 tomorrow"
+    const { today_hours: todayHours, hours_note: hoursNote, hours_exception_note: exceptionNote } = restaurantProfile;
+    const statusText = restaurantProfile.is_open_now
+      ? ["Open now", todayHours, hoursNote].filter(Boolean).join(" • ")
+      : exceptionNote
+        ? [`Closed today (${exceptionNote})`, hoursNote].filter(Boolean).join(" • ")
+        : ["Closed", todayHours !== "Closed today" ? todayHours : null, hoursNote].filter(Boolean).join(" • ");
+
+    const translatedStatus = await translateIfNeeded(llm, statusText, replyLang, trace);
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        kind: "restaurant_profile", // Explicit kind for UI rendering
+        content: translatedStatus,
+        restaurants: finalize([profileCard], chatStateFromClient, intent),
+        followupChips: ["Ask about this restaurant"],
+      },
+      // Disable auto-focus: stay in discovery mode
+      // The user must click "Ask about this restaurant" to focus (allowed for this profile only)
+      { ...(chatStateFromClient || { mode: "discovery" }), profile_restaurant_id: profileCard.id },
+      "handleRestaurantLookup_Success"
+    ));
+
+  } catch (error) {
+    console.error("[discover][restaurant-lookup] Error:", error);
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        kind: "answer",
+        content: "I had trouble looking up that restaurant. Could you try again?",
+        restaurants: [],
+        followupChips: [],
+      },
+      chatStateFromClient || { mode: "discovery" },
+      "handleRestaurantLookup_Error"
+    ));
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Search scoped to a restaurant named in the query ("does Indian Bites have halal butter chicken").
+ * Not a planner action: the route forces it before the planner runs.
+ */
+
+import type { NextResponse } from "next/server";
+import { getCatalog } from "@/lib/catalog";
+import type { Plan } from "@/lib/discover/planner";
+import { findBestRestaurantMatch } from "@/lib/discover/restaurant-lookup";
+import type { ChatRequestContext } from "@/lib/discover/chat/context";
+import { handleSearch } from "@/lib/discover/chat/actions/search";
+import { buildFocusedChatState } from "@/lib/discover/chat/safe-response";
+
+const SCOPED_SEARCH_PLAN: Plan = {
+  action: "SEARCH",
+  confidence: 1,
+  reason: null,
+  prefs_patch: null,
+  dish_query: null,
+  search: null,
+};
+
+export async function handleRestaurantScopedSearch(ctx: ChatRequestContext): Promise<NextResponse> {
+  const { query, intent, chatState: chatStateFromClient } = ctx;
+  const restaurantProfile = await findBestRestaurantMatch({
+    queryText: intent.restaurant_name || query,
+    city: intent.city,
+    catalog: getCatalog(),
+  });
+
+  if (!restaurantProfile) {
+    // fallback: normal discovery search
+    return await handleSearch({ ...ctx, plan: SCOPED_SEARCH_PLAN });
+  }
+
+  const focusedState = buildFocusedChatState(
+    { id: restaurantProfile.id, name: restaurantProfile.name },
+    chatStateFromClient,
+    restaurantProfile.menu_preview
+  );
+
+  // Ensure city is set if missing (optional)
+  intent.city = intent.city ?? restaurantProfile.city ?? null;
+
+  // Cleansing: If dish_query is generic "menu", clear it to trigger full menu browse
+  // "pull menu" -> null (shows top dishes)
+  // "chicken menu" -> "chicken menu" (searches for chicken)
+  if (intent.dish_query && /\b(show|pull|dishes|options)\b/i.test(intent.dish_query) && !/\b(chicken|pizza|burger|curry|masala|paneer|dal|sushi|pasta)\b/i.test(intent.dish_query)) {
+    console.log("[handleRestaurantScopedSearch] Clearing generic menu query:", intent.dish_query);
+    intent.dish_query = null;
+  }
+
+  return await handleSearch({ ...ctx, chatState: focusedState, plan: SCOPED_SEARCH_PLAN });
+}
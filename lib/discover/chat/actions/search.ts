@@ -0,0 +1,1160 @@
+/**
+ * SEARCH action: dish/tag search across restaurants, or within the focused restaurant
+ */
+
+import { NextResponse } from "next/server";
+import { searchMenuInRestaurant } from "@/app/actions/discover";
+import { getCatalog } from "@/lib/catalog";
+import { truncateCards } from "@/lib/discover/result-truncation";
+import { findBestRestaurantMatch } from "@/lib/discover/restaurant-lookup";
+import { t } from "@/lib/discover/i18n";
+import { translateIfNeeded, pickReplyLang } from "@/lib/discover/multilingual";
+import type { ChatState, RestaurantCard, GroundedState, Intent, LastResultDish, TagInfo } from "@/lib/types/discover";
+import type { ChatActionContext } from "@/lib/discover/chat/context";
+import { handleRestaurantLookup } from "@/lib/discover/chat/actions/restaurant-lookup";
+import { fallbackSearchChain } from "@/lib/discover/chat/fallback-search";
+import { cityTag, getDiscoverCaches, restaurantTag, searchCacheKey, syncCacheInvalidations } from "@/lib/discover/cache";
+import { CANONICAL_TAG_IDS, stripTagWords, resolveTagIdsFromIntentTerms } from "@/lib/discover/chat/query-helpers";
+import { finalize, buildSafeResponse } from "@/lib/discover/chat/safe-response";
+import { hydrateDishTags } from "@/lib/discover/chat/dish-tags";
+import { findTaggedOption, hydrateDishModifiers } from "@/lib/discover/chat/dish-modifiers";
+import { describeModifierMatches } from "@/lib/discover/modifiers";
+import { allergensFromIntent, isAllergenSlug, screenDishes, stripAllergenPhrases } from "@/lib/discover/allergens";
+import { applyProfileToIntent } from "@/lib/discover/profile/apply";
+import { formatDistance, stripLocationPhrases } from "@/lib/discover/geo";
+import { annotateDistances, applyGeoFilter, dominantCity, findRestaurantsNear, resolveGeoFilter } from "@/lib/discover/chat/geo-search";
+import { stripTimePhrases } from "@/lib/discover/opening-hours";
+import { applyOpeningHours, compareByOpenness } from "@/lib/discover/chat/opening-hours-filter";
+import { applyAvailability } from "@/lib/discover/chat/availability-filter";
+import { applySoldOutPolicy, applySoldOutPolicyToCards, compareByAvailability, effectiveSoldOutPolicy } from "@/lib/discover/availability";
+import { formatMoney, intentPriceRange, isWithinPriceRange, money } from "@/lib/discover/money";
+import { sortCards } from "@/lib/discover/sort";
+
+export async function handleSearch(
+  ctx: ChatActionContext,
+  opts: { skipRestaurantLookup?: boolean } = {} // Prevent infinite loop when falling back from restaurant lookup
+): Promise<NextResponse> {
+  const { query, intent: parsedIntent, plan, chatState: chatStateFromClient, profile, location, onlyAvailable, llm, trace, emit } = ctx;
+  // Saved dietary profile: standing diet/allergens are added, home city/budget fill gaps the query left
+  const intent = applyProfileToIntent(parsedIntent, profile);
+  const { skipRestaurantLookup } = opts;
+  const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  // Determine effective mode
+  const mode = chatStateFromClient?.mode ?? "discovery";
+  const currentRestaurantId = chatStateFromClient?.currentRestaurantId;
+
+  // RESTAURANT MODE SEARCH
+  if (mode === "restaurant" && currentRestaurantId) {
+    const currentRestaurantName = chatStateFromClient?.currentRestaurantName || "This restaurant";
+
+    // A) Fix: Ensure dish_query is passed if it exists
+    // Only nullify if planner explicitly says so AND there's no dish_query
+    if (plan.search?.queryText === null && !intent.dish_query) {
+      intent.dish_query = null;
+    } else if (plan.search?.queryText) {
+      intent.dish_query = plan.search.queryText;
+    }
+
+    // FIX 3: Show menu intercept - if show_menu is true in restaurant mode,
+    // redirect to full menu handler instead of running SEARCH_NAME with garbage query
+    if (intent.show_menu === true) {
+      console.log("[discover][restaurant-mode] Show menu intercept triggered, redirecting to full menu");
+
+      // Get full menu for this restaurant
+      const allDishes = await getCatalog()
+        .getDishes({ restaurantId: currentRestaurantId, publicOnly: true })
+        .catch(error => {
+          console.log("[discover][restaurant-mode] Menu lookup failed:", error instanceof Error ? error.message : error);
+          return [];
+        });
+
+      const dishes = allDishes
+        .sort((a, b) => (a.section_name ?? "").localeCompare(b.section_name ?? "") || a.name.localeCompare(b.name))
+        .slice(0, 50);
+      const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+      // Build response card
+      const menuCards: RestaurantCard[] = [{
+        id: currentRestaurantId,
+        name: currentRestaurantName,
+        city: null,
+        matches: dishes.map(d => ({
+          id: d.id,
+          name: d.name,
+          description: d.description ?? null,
+          price: d.price ?? 0,
+          tags: [],
+          section_name: d.section_name ?? null
+        })),
+        pagination: dishes.length > 10 ? { shown: 10, total: dishes.length, remaining: dishes.length - 10, next_offset: 10 } : undefined
+      }];
+
+      const responseContent = `Here's the full menu at ${currentRestaurantName} (${dishes.length} items):`;
+
+      console.log("[discover][shape]", {
+        context: "handleSearch:restaurantMode:SHOW_MENU",
+        restaurantsCount: 1,
+        matchesCount: dishes.length,
+        hasRestaurantsField: true,
+        hasFollowupChipsField: true,
+        hasGrounded: false,
+        meta: null
+      });
+
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: responseContent,
+          restaurants: finalize(menuCards, { mode: "restaurant", currentRestaurantId, currentRestaurantName }, intent),
+          followupChips: []
+        },
+        {
+          mode: "restaurant",
+          currentRestaurantId,
+          currentRestaurantName
+        },
+        "handleSearch:restaurantMode:SHOW_MENU"
+      ));
+    }
+
+    // FIX 2: Ingredient query transformer - if ingredients detected but dish_query is generic,
+    // use the ingredient as the dish search term
+    if (intent.ingredients && intent.ingredients.length > 0) {
+      const dqLower = (intent.dish_query || "").toLowerCase();
+      // Check for generic patterns that should use ingredients instead
+      if (!intent.dish_query ||
+        /^(do they have )?(dishes?|items?|options?|food)?\s*(with|containing)?\s*/i.test(dqLower)) {
+        console.log("[discover][restaurant-mode] Ingredient query transform:", {
+          original: intent.dish_query,
+          ingredients: intent.ingredients,
+          newDishQuery: intent.ingredients.join(" ")
+        });
+        intent.dish_query = intent.ingredients.join(" ");
+      }
+    }
+
+    // Determine sub-action type
+    const hasDishQuery = intent.dish_query && intent.dish_query.trim().length > 0;
+    const hasHardTags = intent.hard_tags && intent.hard_tags.length > 0;
+    const subAction = hasDishQuery && hasHardTags ? "VERIFY_TAG" :
+      hasHardTags ? "LIST_TAGGED" :
+        hasDishQuery ? "SEARCH_NAME" : "BROWSE";
+
+    console.log("[discover][restaurant-mode]", {
+      subAction,
+      restaurantId: currentRestaurantId,
+      dishQuery: intent.dish_query,
+      hardTags: intent.hard_tags,
+      dietary: intent.dietary
+    });
+
+    const searchResult = await trace.run(
+      "restaurant-menu-search",
+      async (span) => {
+        const result = await searchMenuInRestaurant(currentRestaurantId, intent, { llm });
+        span.set({ dishes: result.dishes.length });
+        return result;
+      },
+      { subAction, restaurantId: currentRestaurantId }
+    );
+    // Sold-out dishes come back demoted; hide them when asked to
+    const dishes = applySoldOutPolicy(searchResult.dishes, effectiveSoldOutPolicy(onlyAvailable));
+
+    // B) Build proper RestaurantCard array - ALWAYS return cards if we have dishes
+    const restaurantCards: RestaurantCard[] = [{
+      id: currentRestaurantId,
+      name: searchResult.restaurant.name || currentRestaurantName,
+      city: searchResult.restaurant.city ?? null,
+      currency: searchResult.restaurant.currency,
+      matches: dishes.map(d => ({
+        id: d.id,
+        name: d.name,
+        description: d.description ?? null,
+        price: d.price ?? 0,
+        price_money: d.price_money,
+        tags: d.tags ?? [],
+        section_name: d.section_name ?? null,
+        is_available: d.is_available,
+        is_orderable: d.is_orderable,
+        modifiers: d.modifiers
+      }))
+    }];
+
+    // Build grounded state for follow-up questions (Perplexity-style)
+    const grounded: GroundedState = {
+      restaurants: restaurantCards.map(r => ({
+        id: r.id,
+        name: r.name,
+        city: r.city ?? null,
+        address: null,
+        matches: (r.matches || []).map(m => ({
+          id: m.id,
+          name: m.name,
+          description: m.description ?? null,
+          price: m.price ?? null
+        }))
+      })),
+      lastQuery: intent.original_query || query,
+      lastDietary: intent.dietary || [],
+    };
+
+    // Build last_results for follow-up grounding (Perplexity-style)
+    const lastResults: LastResultDish[] = dishes.map(d => ({
+      dish_id: d.id,
+      dish_name: d.name,
+      description: d.description ?? null, // FIX: Include description for "is it spicy?" followups
+      restaurant_id: currentRestaurantId,
+      restaurant_name: searchResult.restaurant.name || currentRestaurantName,
+      // FIX: Handle both string and object tag formats
+      tag_slugs: ((d.tags ?? []) as (TagInfo | string)[])
+        .map(t => typeof t === "string" ? t : t?.slug)
+        .filter((slug): slug is string => Boolean(slug)),
+      price: d.price ?? null,
+      is_available: d.is_available
+    }));
+
+    const totalMatches = dishes.length;
+
+    console.log("[discover][restaurant-mode-result]", {
+      restaurantsCount: restaurantCards.length,
+      matchesCount: totalMatches,
+      dishNames: dishes.slice(0, 3).map(d => d.name),
+      hasGrounded: true,
+      lastResultsCount: lastResults.length
+    });
+
+    // C) Deterministic tag-based answer (no LLM for halal/vegan questions)
+    // hasDishQuery already declared above
+    const tagToCheck = intent.hard_tags?.[0] || intent.dietary?.[0] || null;
+    const isTagQuestion = hasHardTags && (
+      query.toLowerCase().includes("halal") ||
+      query.toLowerCase().includes("vegan") ||
+      query.toLowerCase().includes("vegetarian") ||
+      query.toLowerCase().includes("is it") ||
+      query.toLowerCase().includes("is the") ||
+      query.toLowerCase().includes("does") ||
+      query.toLowerCase().includes("is this")
+    );
+
+    // FIX: Only perform specific yes/no tag verify if we aren't just listing items
+    // "does indian bites have lamm vindaloo" -> VERIFY_TAG (has dish) -> Run check
+    // "vegan options" -> LIST_TAGGED (no dish) -> Skip check -> Show list
+    if (subAction !== "LIST_TAGGED" && isTagQuestion && tagToCheck) {
+      // Use bestMatchDish from searchMenuInRestaurant for fuzzy matching
+      const matchingDish = searchResult.bestMatchDish;
+
+      console.log("[discover][dish-tag-check]", {
+        restaurant: searchResult.restaurant.name,
+        dish: intent.dish_query,
+        tag: tagToCheck,
+        hasMatch: !!matchingDish,
+        matchedDishName: matchingDish?.name ?? null,
+        totalTaggedDishes: dishes.length
+      });
+
+      // Not tagged itself, but maybe an option is ("Vegan cheese" on the Margherita)
+      const taggedOption = !matchingDish && !searchResult.soldOutMatch && intent.dish_query
+        ? await findTaggedOption(getCatalog(), currentRestaurantId, intent.dish_query, tagToCheck)
+        : null;
+
+      // Build single-dish card if match found
+      let tagCheckCards: RestaurantCard[];
+      let deterministicAnswer: string;
+
+      if (matchingDish) {
+        // YES - dish found with tag
+        tagCheckCards = [{
+          id: currentRestaurantId,
+          name: searchResult.restaurant.name || currentRestaurantName,
+          city: searchResult.restaurant.city ?? null,
+          matches: [{
+            id: matchingDish.id,
+            name: matchingDish.name,
+            description: matchingDish.description ?? null,
+            price: matchingDish.price ?? 0
+          }]
+        }];
+        deterministicAnswer = `✅ Yes — ${matchingDish.name} at ${searchResult.restaurant.name || currentRestaurantName} is tagged ${tagToCheck}.`;
+      } else if (searchResult.soldOutMatch) {
+        // The dish is on the menu but can't be had right now
+        tagCheckCards = restaurantCards;
+        deterministicAnswer = `⏸ Sold out — ${searchResult.soldOutMatch.name} at ${searchResult.restaurant.name || currentRestaurantName} isn't available right now.`;
+      } else if (taggedOption) {
+        // YES, with an option
+        tagCheckCards = [{
+          id: currentRestaurantId,
+          name: searchResult.restaurant.name || currentRestaurantName,
+          city: searchResult.restaurant.city ?? null,
+          matches: [{
+            id: taggedOption.dish.id,
+            name: taggedOption.dish.name,
+            description: taggedOption.dish.description,
+            price: taggedOption.dish.price,
+            modifiers: [...new Set(taggedOption.matches.map(m => m.group))]
+          }]
+        }];
+        deterministicAnswer = `✅ Yes — ${taggedOption.dish.name} at ${searchResult.restaurant.name || currentRestaurantName} can be made ${tagToCheck}: choose ${describeModifierMatches(taggedOption.matches)}.`;
+      } else if (dishes.length > 0) {
+        // NO - dish not found but other tagged dishes exist
+        tagCheckCards = restaurantCards; // Show all tagged dishes
+        deterministicAnswer = `❌ I can't confirm ${intent.dish_query ?? 'that dish'} at ${searchResult.restaurant.name} as ${tagToCheck}. It's not tagged ${tagToCheck} in our data. But I found ${dishes.length} other ${tagToCheck} options.`;
+      } else {
+        // NO - no tagged dishes at all
+        tagCheckCards = restaurantCards; // Still show the card (may have 0 matches)
+        deterministicAnswer = `❌ I can't find any dishes tagged ${tagToCheck} at ${searchResult.restaurant.name} in our database.`;
+      }
+
+      console.log("[discover][restaurant-mode:TAG_CHECK]", {
+        restaurantsCount: tagCheckCards.length,
+        matchesCount: tagCheckCards.reduce((sum, c) => sum + (c.matches?.length ?? 0), 0),
+        answerYesNo: !!(matchingDish || taggedOption)
+      });
+
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: deterministicAnswer,
+          restaurants: finalize(tagCheckCards, { ...chatStateFromClient, grounded, last_results: lastResults }, intent),
+          followupChips: [],
+        },
+        {
+          ...chatStateFromClient,
+          grounded,
+          last_results: lastResults
+        },
+        "handleSearch:restaurantMode:TAG_CHECK",
+        grounded
+      ));
+    }
+
+    // Regular restaurant search response
+    // Regular restaurant search response
+    let responseContent: string;
+    if (dishes.length > 0) {
+      const dishList = dishes.slice(0, 5)
+        .map(d => `- ${d.name} (${formatMoney(d.price_money ?? money(d.price, searchResult.restaurant.currency))})`)
+        .join("\n");
+      const tagLabel = intent.hard_tags?.[0] || intent.dietary?.[0]; // Use tag context for better answer
+      const intro = tagLabel
+        ? `Here are ${tagLabel} options I found at ${searchResult.restaurant.name}:`
+        : `Here's what I found at ${searchResult.restaurant.name}:`;
+      responseContent = `${intro}\n\n${dishList}`;
+    } else {
+      responseContent = `No dishes found matching your search at ${searchResult.restaurant.name}.`;
+    }
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: responseContent,
+        restaurants: finalize(restaurantCards, { ...chatStateFromClient, grounded, last_results: lastResults }, intent),
+        followupChips: [],
+      },
+      {
+        ...chatStateFromClient,
+        grounded,
+        last_results: lastResults
+      },
+      "handleSearch:restaurantMode",
+      grounded
+    ));
+  }
+
+  // VERIFY_TAG PATH: Handle "is [dish] at [restaurant] [tag]?" queries
+  // This runs in DISCOVERY mode when restaurant_name + dish_query + hard_tags exist
+  const hasVerifyTagQuery = intent.restaurant_name &&
+    intent.dish_query &&
+    intent.hard_tags &&
+    intent.hard_tags.length > 0;
+
+  if (hasVerifyTagQuery) {
+    const tagToVerify = intent.hard_tags![0];
+    const dishToVerify = intent.dish_query!;
+    const restaurantName = intent.restaurant_name!;
+
+    console.log("[discover][verify-tag]", {
+      subAction: "VERIFY_TAG",
+      restaurant: restaurantName,
+      dish: dishToVerify,
+      tag: tagToVerify
+    });
+
+    // Find the restaurant by name
+    const restaurants = await getCatalog().findRestaurants({ name: restaurantName, limit: 1 }).catch(() => []);
+
+    if (restaurants.length > 0) {
+      const restaurant = restaurants[0];
+
+      // Search for the dish with the tag in this restaurant
+      const verifyResult = await searchMenuInRestaurant(restaurant.id, intent, { llm });
+      const matchedDishes = verifyResult.dishes;
+
+      // Use bestMatchDish from searchMenuInRestaurant for fuzzy matching
+      const matchingDish = verifyResult.bestMatchDish;
+
+      console.log("[discover][verify-tag-result]", {
+        restaurantsCount: 1,
+        matchesCount: matchedDishes.length,
+        foundDish: !!matchingDish,
+        matchedDishName: matchingDish?.name ?? null
+      });
+
+      // Not tagged itself, but maybe an option is ("Vegan cheese" on the Margherita)
+      const taggedOption = !matchingDish && !verifyResult.soldOutMatch
+        ? await findTaggedOption(getCatalog(), restaurant.id, dishToVerify, tagToVerify)
+        : null;
+
+      // Build restaurant cards - single card with matched dish or all tagged dishes
+      let verifyCards: RestaurantCard[];
+      let verifyAnswer: string;
+
+      if (matchingDish) {
+        // YES - dish found with tag, return single dish card
+        verifyCards = [{
+          id: restaurant.id,
+          name: restaurant.name,
+          city: restaurant.city ?? null,
+          matches: [{
+            id: matchingDish.id,
+            name: matchingDish.name,
+            description: matchingDish.description ?? null,
+            price: matchingDish.price ?? 0
+          }]
+        }];
+        verifyAnswer = `✅ Yes — ${matchingDish.name} at ${restaurant.name} is tagged ${tagToVerify}.`;
+      } else if (verifyResult.soldOutMatch) {
+        // The dish is on the menu but can't be had right now
+        verifyCards = [];
+        verifyAnswer = `⏸ Sold out — ${verifyResult.soldOutMatch.name} at ${restaurant.name} isn't available right now.`;
+      } else if (taggedOption) {
+        // YES, with an option
+        verifyCards = [{
+          id: restaurant.id,
+          name: restaurant.name,
+          city: restaurant.city ?? null,
+          matches: [{
+            id: taggedOption.dish.id,
+            name: taggedOption.dish.name,
+            description: taggedOption.dish.description,
+            price: taggedOption.dish.price,
+            modifiers: [...new Set(taggedOption.matches.map(m => m.group))]
+          }]
+        }];
+        verifyAnswer = `✅ Yes — ${taggedOption.dish.name} at ${restaurant.name} can be made ${tagToVerify}: choose ${describeModifierMatches(taggedOption.matches)}.`;
+      } else if (matchedDishes.length > 0) {
+        // NO - dish not found but other tagged dishes exist
+        verifyCards = [{
+          id: restaurant.id,
+          name: restaurant.name,
+          city: restaurant.city ?? null,
+          matches: matchedDishes.map(d => ({
+            id: d.id,
+            name: d.name,
+            description: d.description ?? null,
+            price: d.price ?? 0
+          }))
+        }];
+        verifyAnswer = `❌ No — I don't see ${dishToVerify} tagged ${tagToVerify} on ${restaurant.name}'s menu. But I found ${matchedDishes.length} other ${tagToVerify} options.`;
+      } else {
+        // NO - no tagged dishes at all
+        verifyCards = [];
+        verifyAnswer = `❌ No — I don't see any dishes tagged ${tagToVerify} at ${restaurant.name} in the database.`;
+      }
+
+      console.log("[discover][VERIFY_TAG:response]", {
+        restaurantsCount: verifyCards.length,
+        matchesCount: verifyCards.reduce((sum, c) => sum + (c.matches?.length ?? 0), 0),
+        answerYesNo: !!(matchingDish || taggedOption)
+      });
+
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: verifyAnswer,
+          restaurants: finalize(verifyCards, chatStateFromClient!, intent),
+          followupChips: [],
+        },
+        chatStateFromClient!,
+        "handleSearch:VERIFY_TAG"
+      ));
+    }
+
+    // Restaurant not found - fall through to normal search
+    console.log("[discover][verify-tag]", { subAction: "VERIFY_TAG", restaurantNotFound: restaurantName });
+  }
+
+  // DISCOVERY MODE SEARCH
+
+  // 1. Tag Resolution
+
+  // FAILSAFE: Extract dietary terms directly from query if intent.dietary is empty
+  const dietaryFromQuery: string[] = [];
+  const queryLower = (intent.original_query || query).toLowerCase();
+  const dietaryKeywords: Record<string, string> = {
+    "veg": "vegetarian", "veggie": "vegetarian", "vegetarian": "vegetarian", "vegetarisk": "vegetarian",
+    "vegan": "vegan", "vegansk": "vegan",
+    "halal": "halal",
+    "satvik": "satvik", "satvic": "satvik",
+    "gluten-free": "gluten-free", "gluten free": "gluten-free", "glutenfri": "gluten-free",
+  };
+  for (const [keyword, canonical] of Object.entries(dietaryKeywords)) {
+    // FIX: Use word boundary to prevent "veg" matching "vegan"
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(`\\b${escaped}\\b`, "i");
+
+    if (regex.test(queryLower) && !dietaryFromQuery.includes(canonical)) {
+      dietaryFromQuery.push(canonical);
+    }
+  }
+
+  // Merge intent.dietary with failsafe extraction
+  const combinedDietary = [...(intent.dietary || []), ...dietaryFromQuery];
+  const uniqueDietary = [...new Set(combinedDietary)];
+
+  // FIX: Diet Resolution - normalize to canonical tag names for RPC
+  // CRITICAL: Do NOT expand vegetarian to [vegetarian, vegan]!
+  // RPC uses AND logic (requires ALL tags), so passing both would exclude
+  // dishes that only have Vegetarian tag (like "Margherita (VE)" in Pizza Bianca section)
+  const dietaryNormalized = uniqueDietary.map(d => {
+    const s = d.toLowerCase().trim();
+    // Normalize variants to canonical names
+    if (["veg", "ve", "vego", "veggie", "vegetarian", "vegetarisk"].includes(s)) {
+      return "vegetarian";  // Just vegetarian, not both
+    }
+    if (["vegan", "vegansk"].includes(s)) {
+      return "vegan";
+    }
+    return s;
+  }).filter((v, i, a) => a.indexOf(v) === i);
+
+  // Allergies are exclusions (applied after search), never tag requirements
+  const allTagTerms = [...dietaryNormalized];
+  const avoidedAllergens = allergensFromIntent({ ...intent, dietary: dietaryNormalized });
+
+  // Compute clean search text by stripping dietary/tag words, allergen, location and opening-time phrases
+  const rawQuery = intent.original_query || query;
+  const strippedQuery = stripTimePhrases(stripLocationPhrases(stripAllergenPhrases(stripTagWords(rawQuery))));
+  const searchText = (intent.dish_query && intent.dish_query.trim().length > 0)
+    ? (stripTimePhrases(stripLocationPhrases(stripAllergenPhrases(intent.dish_query))) || null)
+    : (strippedQuery.length > 0 ? strippedQuery : null);
+
+  console.log("[discover][query-text]", { raw: rawQuery, dish_query: intent.dish_query, dietary: intent.dietary, hard_tags: intent.hard_tags, searchText });
+
+  // Early debug logging to trace dietary resolution
+  console.log("[discover][dietary-trace]", {
+    rawIntentDietary: intent.dietary,
+    dietaryNormalized,
+    allTagTerms,
+    intentQuery: intent.original_query
+  });
+
+  const catalog = getCatalog();
+  const tagSpan = trace.start("tag-resolution", { terms: allTagTerms });
+  let { tagIds: resolvedTagIds, resolvedTerms } = await resolveTagIdsFromIntentTerms(allTagTerms, catalog);
+
+  // CANONICAL fallback: if DB resolution failed but we have known hard tags, use static UUIDs
+  if (resolvedTagIds.length === 0 && allTagTerms.length > 0) {
+    console.log("[discover][canonical-fallback] DB resolution empty, checking CANONICAL_TAG_IDS...");
+    for (const term of allTagTerms) {
+      const slug = term.toLowerCase().trim();
+      if (CANONICAL_TAG_IDS[slug] && !resolvedTagIds.includes(CANONICAL_TAG_IDS[slug])) {
+        resolvedTagIds.push(CANONICAL_TAG_IDS[slug]);
+        resolvedTerms.push({ term, type: "canonical", slug });
+        console.log(`[discover][canonical-fallback] Added ${slug} -> ${CANONICAL_TAG_IDS[slug]}`);
+      }
+    }
+  }
+
+  // An allergen tag means "contains X" - requiring it would turn "gluten free" into "gluten".
+  // Drop those; avoidedAllergens excludes them instead.
+  const positiveTags = resolvedTerms
+    .map((term, i) => ({ term, id: resolvedTagIds[i] }))
+    .filter(({ term }) => !(term.type === "allergen" && isAllergenSlug(term.slug)));
+  if (positiveTags.length < resolvedTagIds.length) {
+    console.log("[discover][tag-resolve] Dropped allergen tags from requirements:", { avoidedAllergens });
+    resolvedTagIds = positiveTags.map(p => p.id);
+    resolvedTerms = positiveTags.map(p => p.term);
+  }
+
+  const hasStrictTags = resolvedTagIds.length > 0;
+  tagSpan.end({ resolved: resolvedTerms.map(t => t.slug), avoidedAllergens });
+
+  // Logging: Tag resolution details
+  console.log("[discover][tag-resolve]", {
+    intentDietary: intent.dietary,
+    intentAllergy: intent.allergy,
+    avoidedAllergens,
+    intentHardTags: intent.hard_tags,
+    allTagTerms,
+    resolvedTagIds,
+    resolvedTermsSlugs: resolvedTerms.map(t => t.slug),
+    hasStrictTags
+  });
+
+  // Logging: Env sanity check
+  console.log("[discover][env]", {
+    catalog: catalog.kind,
+    supabaseHost: process.env.NEXT_PUBLIC_SUPABASE_URL ? new URL(process.env.NEXT_PUBLIC_SUPABASE_URL).host : "MISSING"
+  });
+
+  // Planner overrides (use searchText computed earlier)
+  let effectiveSearchText = searchText;
+
+  // FIX C: Filter out filler words - "something veg" should not search for "something"
+  const FILLER_WORDS = new Set(["something", "anything", "some", "any", "stuff", "food", "dish", "dishes", "items", "options", "thing", "things"]);
+  if (effectiveSearchText) {
+    const cleaned = effectiveSearchText.toLowerCase().trim();
+    if (FILLER_WORDS.has(cleaned)) {
+      console.log("[discover][filler-filter] Stripping filler word from searchText:", { original: effectiveSearchText });
+      effectiveSearchText = null;
+    }
+  }
+
+  if (plan.search?.queryText === null) effectiveSearchText = null; // Forced tag-only by planner
+
+  // Calculate reply language using priority logic (SV/EN > Tier 2 > English pivot)
+  const replyLang = pickReplyLang({
+    intentLang: intent.language,
+    preferredLang: chatStateFromClient?.preferred_language ?? null,
+    query
+  });
+
+  // ============================================
+  // LOCATION ("near me", "within 2 km", "close to Centralstationen")
+  // ============================================
+  const geo = await resolveGeoFilter({ intent, location, catalog });
+  if (geo.missing) {
+    const askMsg = geo.missing === "landmark"
+      ? t(replyLang, "UNKNOWN_PLACE", { place: intent.landmark || "" })
+      : t(replyLang, "NEED_LOCATION");
+    console.log("[discover][geo] Missing origin:", { missing: geo.missing, landmark: intent.landmark });
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: await translateIfNeeded(llm, askMsg, replyLang, trace),
+        restaurants: [],
+        followupChips: [],
+      },
+      { ...chatStateFromClient, mode: "discovery", currentRestaurantId: null, currentRestaurantName: null },
+      "handleSearch:geoMissing"
+    ));
+  }
+
+  const geoFilter = geo.filter;
+  const nearby = geoFilter ? await findRestaurantsNear(geoFilter, catalog) : null;
+  // Without a city in the query, search the city the nearby restaurants are in so the
+  // RPC row limits are spent on local dishes rather than the whole country
+  const searchCity = intent.city ?? (nearby ? dominantCity(nearby) : null);
+  const nearLabel = geoFilter
+    ? t(replyLang, "WITHIN_DISTANCE", { radius: formatDistance(geoFilter.radiusKm), place: geoFilter.label ?? t(replyLang, "YOUR_LOCATION") })
+    : null;
+
+  if (geoFilter) {
+    console.log("[discover][geo]", { origin: geoFilter.origin, radiusKm: geoFilter.radiusKm, label: geoFilter.label, nearbyCount: nearby?.size ?? null, searchCity });
+  }
+
+  let restaurantCards: RestaurantCard[] = [];
+
+  // USE FALLBACK SEARCH CHAIN for all searches
+  // Result sets are cached per normalized search; restaurant changes logged by the
+  // database drop the affected entries (lib/discover/cache)
+  const retrievalSpan = trace.start("retrieval", { queryText: effectiveSearchText, city: searchCity });
+  const searchArgs = {
+    resolvedTagIds,
+    queryText: effectiveSearchText,
+    city: searchCity,
+    dietaryLabels: dietaryNormalized,
+  };
+  await syncCacheInvalidations();
+  let cacheHit = true;
+  const fallbackResult = await getDiscoverCaches().searchResults.getOrLoad(
+    searchCacheKey(searchArgs),
+    () => {
+      cacheHit = false;
+      return fallbackSearchChain({ ...searchArgs, catalog, trace: retrievalSpan });
+    },
+    { tags: (result) => [cityTag(searchCity), ...result.restaurantCards.map((card) => restaurantTag(card.id))] }
+  );
+  retrievalSpan.end({ cacheHit, step: fallbackResult.step, restaurants: fallbackResult.restaurantCards.length });
+
+  console.log("[discover][fallback-result]", {
+    cacheHit,
+    step: fallbackResult.step,
+    trace: fallbackResult.trace,
+    cardCount: fallbackResult.restaurantCards.length,
+    wasTagFiltered: fallbackResult.wasTagFiltered
+  });
+
+  restaurantCards = fallbackResult.restaurantCards;
+
+  // ============================================
+  // PARALLEL LOOKUP STRATEGY (Phase 2)
+  // ============================================
+  // If dish results are weak, check if the query was actually a restaurant name
+  // (Strategy: "Indian Bites" -> 0 dishes -> Check Name -> Found -> Switch Intent)
+  const isWeakResult =
+    restaurantCards.length === 0 ||
+    (restaurantCards.length === 1 && (restaurantCards[0].matches?.length ?? 0) === 0);
+
+  if (isWeakResult && !skipRestaurantLookup) {
+    console.log("[handleSearch] Weak dish results, checking parallel restaurant lookup...");
+    const parallelProfile = await findBestRestaurantMatch({
+      queryText: intent.dish_query || query,
+      city: intent.city,
+      catalog,
+    });
+
+    if (parallelProfile) {
+      console.log(`[handleSearch] Parallel lookup found strong match: ${parallelProfile.name} (${parallelProfile.id})`);
+
+      // RE-ROUTE to restaurant lookup handler
+      // Update intent to look like a restaurant lookup
+      const lookupIntent: Intent = {
+        ...intent,
+        is_restaurant_lookup: true,
+        restaurant_name: parallelProfile.name, // Use the matched name
+      };
+
+      return handleRestaurantLookup({ ...ctx, intent: lookupIntent });
+    }
+  }
+
+  // Apply client-side text filter for tag-filtered results (pizza name matching etc.)
+  // CRITICAL: Use intent.dish_query for filtering, NOT searchText which may contain generic words like "anything"
+  // This ensures:
+  //   - "any veg pizza" → postFilterText = "pizza" → filters correctly
+  //   - "anything veg" → postFilterText = null → no filtering, returns all tagged dishes
+  const dietLabel = dietaryNormalized[0];
+  const postFilterText = intent.dish_query?.trim() || null;
+
+  const postFilterSpan = trace.start("post-filter", { text: postFilterText });
+  if (fallbackResult.wasTagFiltered && postFilterText && postFilterText.length > 0) {
+    const beforeCards = restaurantCards.length;
+    const beforeMatches = restaurantCards.reduce((sum, c) => sum + (c.matches?.length ?? 0), 0);
+
+    const searchLower = postFilterText.toLowerCase();
+
+    // Simple fuzzy similarity function (handles common spelling variations)
+    const isSimilar = (str1: string, str2: string): boolean => {
+      const a = str1.toLowerCase().replace(/[^a-z]/g, '');
+      const b = str2.toLowerCase().replace(/[^a-z]/g, '');
+      if (a === b) return true;
+      if (a.includes(b) || b.includes(a)) return true;
+
+      // Handle common variations (dal/daal, makhani/makhni, etc.)
+      const normalize = (s: string) => s
+        .replace(/aa/g, 'a')
+        .replace(/ee/g, 'i')
+        .replace(/oo/g, 'u')
+        .replace(/ani$/g, 'ni')
+        .replace(/y$/g, 'i');
+
+      const normA = normalize(a);
+      const normB = normalize(b);
+      if (normA === normB) return true;
+      if (normA.includes(normB) || normB.includes(normA)) return true;
+
+      // 70% character similarity for short strings
+      if (Math.abs(a.length - b.length) <= 2 && a.length >= 3) {
+        let matches = 0;
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+          if (a[i] === b[i]) matches++;
+        }
+        return matches / Math.max(a.length, b.length) >= 0.7;
+      }
+      return false;
+    };
+
+    // Common pizza dish names - if searching for "pizza", these match too
+    const pizzaDishNames = ["margherita", "marinara", "funghi", "capricciosa", "quattro formaggi",
+      "quattro stagioni", "diavola", "calzone", "prosciutto", "pepperoni", "hawaiian",
+      "napoletana", "vegetariana", "vesuvio", "kebabpizza", "pizza"];
+    const isPizzaSearch = searchLower.includes("pizza");
+
+    const queryWords = searchLower.split(/\s+/).filter((w: string) => w.length >= 2);
+
+    restaurantCards = restaurantCards.map(card => ({
+      ...card,
+      matches: (card.matches || []).filter(dish => {
+        const dishName = dish.name.toLowerCase();
+        const dishDesc = (dish.description || "").toLowerCase();
+        const sectionName = (dish.section_name || "").toLowerCase();
+
+        // Standard text match on dish name
+        if (dishName.includes(searchLower)) return true;
+
+        // Description match
+        if (dishDesc.includes(searchLower)) return true;
+
+        // Section name match - if query matches section, include the dish
+        // This fixes "veg pizza" → dishes in "Pizza" section like "Rubi"
+        if (sectionName && sectionName.includes(searchLower)) return true;
+
+        // Fuzzy word match - include section words too for better matching
+        const dishWords = dishName.split(/\s+/).filter((w: string) => w.length >= 2);
+        const sectionWords = sectionName.split(/\s+/).filter((w: string) => w.length >= 2);
+        const allWords = [...dishWords, ...sectionWords];
+
+        const hasFuzzyMatch = queryWords.some(qWord =>
+          allWords.some((w: string) => isSimilar(qWord, w))
+        );
+        if (hasFuzzyMatch) return true;
+
+        // Pizza special case - check dish name AND section name
+        if (isPizzaSearch) {
+          if (sectionName.includes("pizza")) return true;
+          if (pizzaDishNames.some(pn => dishName.includes(pn))) return true;
+        }
+
+        return false;
+      })
+    })).filter(card => (card.matches?.length ?? 0) > 0);
+
+    const afterCards = restaurantCards.length;
+    const afterMatches = restaurantCards.reduce((sum, c) => sum + (c.matches?.length ?? 0), 0);
+
+    console.log("[discover][text-filter]", {
+      postFilterText,
+      beforeCards,
+      afterCards,
+      beforeMatches,
+      afterMatches
+    });
+  }
+  postFilterSpan.end({ restaurants: restaurantCards.length });
+
+  // Allergen exclusion before truncation/grounding, so excluded dishes are never shown or referenced
+  if (avoidedAllergens.length > 0 && fallbackResult.step !== "E") {
+    await hydrateDishTags(restaurantCards, catalog);
+    let excludedCount = 0;
+    restaurantCards = restaurantCards.map(card => {
+      const { kept, excluded } = screenDishes(card.matches || [], avoidedAllergens);
+      excludedCount += excluded;
+      return { ...card, matches: kept };
+    }).filter(card => (card.matches?.length ?? 0) > 0);
+
+    console.log("[discover][allergen-filter]", { avoidedAllergens, excludedCount, cardCount: restaurantCards.length });
+  }
+
+  // Price range (budget from the query or the saved profile, "over 100 kr"): drop priced dishes
+  // outside it, unpriced ones stay. "Under 15 euro" is converted into each restaurant's currency (DISCOVER_FX_RATES)
+  const priceRange = intentPriceRange(intent);
+  if (priceRange && fallbackResult.step !== "E") {
+    restaurantCards = restaurantCards.map(card => ({
+      ...card,
+      matches: (card.matches || []).filter(dish => isWithinPriceRange(dish.price_money ?? money(dish.price, card.currency), priceRange)),
+    })).filter(card => (card.matches?.length ?? 0) > 0);
+
+    console.log("[discover][price-filter]", { priceRange, cardCount: restaurantCards.length });
+  }
+
+  // Sold out: badge, demote or hide (DISCOVER_SOLD_OUT / "Only available" toggle)
+  if (fallbackResult.step !== "E") {
+    restaurantCards = await applyAvailability(restaurantCards, catalog, { onlyAvailable });
+  }
+
+  // Distance: keep restaurants inside the radius, nearest first
+  if (geoFilter) {
+    const beforeCards = restaurantCards.length;
+    restaurantCards = await applyGeoFilter(restaurantCards, geoFilter, catalog, nearby);
+    console.log("[discover][geo-filter]", { radiusKm: geoFilter.radiusKm, beforeCards, afterCards: restaurantCards.length });
+
+    if (restaurantCards.length === 0) {
+      const nothingNearMsg = t(replyLang, "NOTHING_NEARBY", {
+        radius: formatDistance(geoFilter.radiusKm),
+        place: geoFilter.label ?? t(replyLang, "YOUR_LOCATION"),
+      });
+
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: await translateIfNeeded(llm, nothingNearMsg, replyLang, trace),
+          restaurants: [],
+          followupChips: []
+        },
+        { ...chatStateFromClient, grounded: { restaurants: [], lastQuery: query, lastDietary: dietaryNormalized, lastMatchesCount: 0, lastWasNoResults: true } },
+        "handleSearch_NothingNearby"
+      ));
+    }
+  }
+
+  // Opening hours: open/closed badge on every card; "open now" / "after 22:00" drops closed places
+  const openAt = intent.open_at ?? null;
+  const cardsBeforeHours = restaurantCards.length;
+  restaurantCards = await applyOpeningHours(restaurantCards, catalog, openAt);
+
+  if (openAt) {
+    console.log("[discover][hours-filter]", { openAt, beforeCards: cardsBeforeHours, afterCards: restaurantCards.length });
+
+    if (restaurantCards.length === 0) {
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: await translateIfNeeded(llm, t(replyLang, "NOTHING_OPEN"), replyLang, trace),
+          restaurants: [],
+          followupChips: []
+        },
+        { ...chatStateFromClient, grounded: { restaurants: [], lastQuery: query, lastDietary: dietaryNormalized, lastMatchesCount: 0, lastWasNoResults: true } },
+        "handleSearch_NothingOpen"
+      ));
+    }
+  }
+
+  // Handle different fallback steps with appropriate messaging
+  if (fallbackResult.step === "E") {
+    // Step E: Top restaurants fallback - be honest about no tagged dishes
+    const stepEMessage = dietLabel
+      ? t(replyLang, "NO_TAGGED_FALLBACK", { tag: dietLabel })
+      : t(replyLang, "NO_RESULTS");
+
+    // Translate fallback message
+    const translatedStepE = await translateIfNeeded(llm, stepEMessage, replyLang, trace);
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: translatedStepE,
+        restaurants: restaurantCards,
+        followupChips: [],
+      },
+      {
+        mode: "discovery",
+        currentRestaurantId: null,
+        currentRestaurantName: null,
+        grounded: {
+          restaurants: restaurantCards.map(r => ({
+            id: r.id, name: r.name, city: r.city ?? null, address: r.address ?? null, matches: []
+          })),
+          lastQuery: query,
+          lastDietary: dietaryNormalized,
+          lastMatchesCount: 0,
+          lastWasNoResults: true
+        }
+      },
+      "handleSearch:fallbackE"
+    ));
+  }
+
+  // Check if text filtering removed all results
+  if (restaurantCards.length === 0) {
+    const noMatchMsg = t(replyLang, "NO_MATCH_TRY_AGAIN", {
+      query: effectiveSearchText || "",
+      tag: dietLabel || "tagged as requested"
+    });
+
+    // Translate no-match message
+    const translatedNoMatch = await translateIfNeeded(llm, noMatchMsg, replyLang, trace);
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: translatedNoMatch,
+        restaurants: [],
+        followupChips: []
+      },
+      { ...chatStateFromClient, grounded: { restaurants: [], lastQuery: query, lastDietary: dietaryNormalized, lastMatchesCount: 0, lastWasNoResults: true } },
+      "handleSearch_NoTextMatch"
+    ));
+  }
+
+  // Build success response with proper messaging based on step
+  const finalizeSpan = trace.start("finalize");
+  // Sort by match count descending (Best First), open restaurants first among equals;
+  // only-sold-out restaurants stay last when demoted; distance-filtered results stay nearest first
+  const sort = intent.sort ?? "best_match";
+  if (sort !== "best_match") {
+    // "Closest" needs a distance on every card before truncation; a location filter already set them
+    if (sort === "distance" && !geoFilter && location) {
+      restaurantCards = await annotateDistances(restaurantCards, location, catalog);
+    }
+    // "Cheapest" / "closest": the requested order; re-applying the sold-out policy keeps demoted dishes and restaurants last
+    restaurantCards = applySoldOutPolicyToCards(sortCards(restaurantCards, sort), effectiveSoldOutPolicy(onlyAvailable));
+    console.log("[discover][sort]", { sort, hasLocation: !!location, cardCount: restaurantCards.length });
+  } else if (!geoFilter) {
+    restaurantCards.sort((a, b) =>
+      compareByAvailability(a, b) || (b.matches?.length ?? 0) - (a.matches?.length ?? 0) || compareByOpenness(a, b)
+    );
+  }
+
+  // Apply truncation (Max 8 restaurants, 4 dishes per restaurant)
+  const truncation = truncateCards(restaurantCards, {
+    maxRestaurants: 8,
+    maxDishesPerRestaurant: 4
+  });
+  const { meta } = truncation;
+  let truncatedCards = truncation.cards;
+
+  // Shared coordinates without a location constraint: show distances, keep the ranking
+  if (!geoFilter && location && sort !== "distance") {
+    truncatedCards = await annotateDistances(truncatedCards, location, catalog);
+  }
+
+  // Dish options (spice level, extras) for the dish rows
+  await hydrateDishModifiers(truncatedCards, catalog);
+
+  // Build human-friendly summary text
+  const summaryText = buildHumanSummary({
+    replyLang,
+    city: intent.city || null,
+    nearLabel,
+    dietLabel: fallbackResult.wasTagFiltered ? (dietLabel || null) : null,
+    query: effectiveSearchText || intent.original_query || query,
+    restaurants: truncatedCards,
+    meta,
+  });
+
+  const matchesCount = truncatedCards.reduce((sum, r) => sum + (r.matches?.length ?? 0), 0);
+  const grounded: GroundedState = {
+    restaurants: truncatedCards.map(r => ({
+      id: r.id,
+      name: r.name,
+      city: r.city ?? null,
+      address: r.address ?? null,
+      matches: (r.matches || []).map(d => ({
+        id: d.id, name: d.name, description: d.description ?? null, price: d.price ?? null,
+      })),
+    })),
+    lastQuery: intent.original_query || query,
+    lastDietary: dietaryNormalized.length > 0 ? dietaryNormalized : null,
+    lastMatchesCount: matchesCount,
+    lastWasNoResults: matchesCount === 0,
+  };
+
+  // Build last_results for follow-up grounding (based on what user actually sees)
+  const lastResults: LastResultDish[] = truncatedCards.flatMap(r =>
+    (r.matches || []).map(m => ({
+      dish_id: m.id,
+      dish_name: m.name,
+      restaurant_id: r.id,
+      restaurant_name: r.name,
+      tag_slugs: (m.tags || []).map(t => t.slug),
+      price: m.price ?? null,
+      is_available: m.is_available
+    }))
+  );
+
+  console.log("[discover][fallback-success]", {
+    step: fallbackResult.step,
+    cardCount: restaurantCards.length,
+    truncatedCount: truncatedCards.length,
+    matchesCount,
+    lastResultsCount: lastResults.length,
+    truncated: meta.truncated
+  });
+
+  const nextChatState: ChatState = {
+    mode: "discovery",
+    currentRestaurantId: null,
+    currentRestaurantName: null,
+    grounded,
+    last_results: lastResults,
+    last_search_params: {
+      dietary: dietaryNormalized,
+      allergy: avoidedAllergens.length > 0 ? avoidedAllergens : undefined,
+      dishQuery: effectiveSearchText || null,
+      city: intent.city || null,
+      geo: geoFilter ?? undefined,
+      openAt: openAt ?? undefined,
+      intent,
+      offset: 0
+    },
+    next_offset: meta.next_offset,
+    // Build per-restaurant cursors for "show more from X"
+    restaurant_cursors: truncatedCards.map(r => ({
+      restaurant_id: r.id,
+      restaurant_name: r.name,
+      shown_count: r.pagination?.shown ?? (r.matches?.length ?? 0),
+      total_matches: r.pagination?.total ?? (r.matches?.length ?? 0),
+      next_offset: r.pagination?.next_offset,
+    }))
+  };
+  const finalCards = finalize(truncatedCards, nextChatState, intent);
+  finalizeSpan.end({ restaurants: finalCards.length, matches: matchesCount, truncated: meta.truncated });
+
+  // Streaming: cards are final at this point, only the summary translation is left
+  emit?.({ type: "restaurants", restaurants: finalCards });
+
+  // Translate content if needed (covers languages not in buildHumanSummary)
+  const translatedContent = await translateIfNeeded(llm, summaryText, replyLang, trace);
+
+  return NextResponse.json(buildSafeResponse(
+    {
+      id: messageId,
+      role: "assistant",
+      content: translatedContent,
+      restaurants: finalCards,
+      followupChips: [],
+    },
+    nextChatState,
+    `handleSearch:fallback${fallbackResult.step}`,
+    null,
+    meta
+  ));
+}
+
+// Helper to build human-friendly summary text
+function buildHumanSummary(args: {
+  replyLang: string;
+  city: string | null;
+  nearLabel?: string | null; // "within 3 km of you", "within 1.5 km of Centralstationen, Göteborg"
+  dietLabel: string | null;
+  query: string;
+  restaurants: Array<{ name: string }>;
+  meta: { truncated?: boolean; restaurants_returned?: number; total_restaurants?: number };
+}) {
+  const { replyLang, city, nearLabel, dietLabel, query, restaurants, meta } = args;
+
+  const cityPart = nearLabel ? ` ${nearLabel}` : city ? ` in ${city}` : "";
+  const topNames = restaurants.slice(0, 4).map(r => r.name).filter(Boolean);
+
+  // Minimal language support (cheap + deterministic)
+  const L = (replyLang || "en").toLowerCase();
+
+  const header =
+    dietLabel
+      ? (L === "sv"
+        ? `Här är några **${dietLabel}**-alternativ jag hittade${cityPart}. Titta i restaurangkorten nedan — använd **Load more** i kortet för fler rätter.`
+        : L === "pa"
+          ? `ਇੱਥੇ ਕੁਝ **${dietLabel}** ਵਿਕਲਪ ਹਨ ਜੋ ਮੈਨੂੰ ਮਿਲੇ${cityPart}। ਹੇਠਾਂ ਰੈਸਟੋਰੈਂਟ ਕਾਰਡ ਦੇਖੋ — ਹੋਰ ਪਕਵਾਨਾਂ ਲਈ **Load more** ਵਰਤੋ।`
+          : L === "hi"
+            ? `यहाँ कुछ **${dietLabel}** विकल्प हैं जो मुझे मिले${cityPart}। नीचे रेस्तराँ कार्ड देखें — अधिक व्यंजनों के लिए **Load more** का उपयोग करें।`
+            : `Here are some **${dietLabel}** options I found${cityPart}. Browse the restaurant cards below — use **Load more** inside a card to see more dishes.`)
+      : (L === "sv"
+        ? `Här är de bästa träffarna för "${query}"${cityPart}.`
+        : L === "pa"
+          ? `ਇੱਥੇ "${query}" ਲਈ ਸਭ ਤੋਂ ਵਧੀਆ ਨਤੀਜੇ ਹਨ${cityPart}।`
+          : L === "hi"
+            ? `यहाँ "${query}" के लिए सबसे अच्छे परिणाम हैं${cityPart}।`
+            : `Here are the best matches for "${query}"${cityPart}.`);
+
+  const placesLine =
+    topNames.length > 0
+      ? (L === "sv"
+        ? `**Restauranger:** ${topNames.join(" • ")}`
+        : L === "pa"
+          ? `**ਰੈਸਟੋਰੈਂਟ:** ${topNames.join(" • ")}`
+          : L === "hi"
+            ? `**रेस्तराँ:** ${topNames.join(" • ")}`
+            : `**Places:** ${topNames.join(" • ")}`)
+      : "";
+
+  const moreLine =
+    meta?.truncated && meta.restaurants_returned && meta.total_restaurants
+      ? (L === "sv"
+        ? `_(Visar ${meta.restaurants_returned} av ${meta.total_restaurants} restauranger)_`
+        : `_(Showing ${meta.restaurants_returned} of ${meta.total_restaurants} restaurants)_`)
+      : "";
+
+  return [header, placesLine, moreLine].filter(Boolean).join("\n");
+}
@@ -0,0 +1,100 @@
+/**
+ * SHOW_MENU action: resolves a restaurant and returns its full menu inline
+ */
+
+import { NextResponse } from "next/server";
+import { getPublicMenu } from "@/app/actions/discover";
+import { getCatalog } from "@/lib/catalog";
+import type { ChatActionContext } from "@/lib/discover/chat/context";
+import { resolveRestaurantForMenu } from "@/lib/discover/chat/restaurant-resolver";
+import { buildSafeResponse, buildFocusedChatState } from "@/lib/discover/chat/safe-response";
+
+export async function handleShowMenu(ctx: ChatActionContext): Promise<NextResponse> {
+  const { query, intent, chatState: chatStateFromClient, request } = ctx;
+  const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  const buildMenuUrl = (restaurantId: string) => {
+    const menuBaseUrl = process.env.NEXT_PUBLIC_MENU_BASE_URL;
+    if (menuBaseUrl) return `${menuBaseUrl}/menu/${restaurantId}`;
+    const requestOrigin = request.headers.get("origin") || request.headers.get("host");
+    const baseUrl = requestOrigin
+      ? (requestOrigin.startsWith("http") ? requestOrigin : `https://${requestOrigin}`)
+      : (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000");
+    return `${baseUrl}/menu/${restaurantId}`;
+  };
+
+  // 1) If already in restaurant mode with a current restaurant, use that
+  if (chatStateFromClient?.currentRestaurantId) {
+    const menuData = await getPublicMenu(chatStateFromClient.currentRestaurantId);
+    if (menuData) {
+      console.log("[discover][show-menu]", { source: "current-restaurant", name: menuData.restaurantName });
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: `Here's ${menuData.restaurantName}'s full menu.`,
+          menu: menuData,
+          menuUrl: buildMenuUrl(chatStateFromClient.currentRestaurantId),
+          restaurants: [],
+          followupChips: [],
+        },
+        buildFocusedChatState({
+          id: menuData.restaurantId,
+          name: menuData.restaurantName
+        }, chatStateFromClient),
+        "handleShowMenu:current"
+      ));
+    }
+  }
+
+  // 2) Use fuzzy resolution
+  const resolveResult = await resolveRestaurantForMenu(
+    query,
+    intent.restaurant_name ?? null,
+    null, // No grounded state for SHOW_MENU
+    getCatalog()
+  );
+
+  // 3) If matched, show menu
+  if (resolveResult.matched) {
+    const menuData = await getPublicMenu(resolveResult.matched.id);
+    if (menuData) {
+      console.log("[discover][show-menu]", { source: "fuzzy-resolved", name: menuData.restaurantName });
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: `Here's ${menuData.restaurantName}'s full menu.`,
+          menu: menuData,
+          menuUrl: buildMenuUrl(resolveResult.matched.id),
+          restaurants: [],
+          followupChips: [],
+        },
+        buildFocusedChatState({
+          id: menuData.restaurantId,
+          name: menuData.restaurantName
+        }, chatStateFromClient),
+        "handleShowMenu:fuzzy"
+      ));
+    }
+  }
+
+  // 4) No match - ask for clarification with suggestions
+  const suggestions = resolveResult.candidates.length > 0
+    ? resolveResult.candidates.map(c => c.name)
+    : ["Indian Bites", "Tavolino"]; // Fallback suggestions
+
+  console.log("[discover][show-menu]", { source: "no-match", suggestions });
+
+  return NextResponse.json(buildSafeResponse(
+    {
+      id: messageId,
+      role: "assistant",
+      content: `Which restaurant's menu would you like to see? Try one of these: ${suggestions.join(", ")}`,
+      restaurants: [],
+      followupChips: [],
+    },
+    { mode: "discovery", currentRestaurantId: null, currentRestaurantName: null },
+    "handleShowMenu:clarify"
+  ));
+}
@@ -0,0 +1,59 @@
+/**
+ * Sold-out / in-store-only handling for discover search results. The search RPCs return no
+ * availability, so the flags are read per dish and the sold-out policy is applied to the cards.
+ */
+
+import type { CatalogRepository } from "@/lib/catalog";
+import type { RestaurantCard } from "@/lib/types/discover";
+import { applySoldOutPolicyToCards, effectiveSoldOutPolicy, isSoldOut } from "@/lib/discover/availability";
+
+/**
+ * Set `is_available` / `is_orderable` on every match that lacks them, in place.
+ * A failed lookup leaves them unset (available)
+ */
+export async function hydrateDishAvailability(
+  cards: RestaurantCard[],
+  catalog: CatalogRepository
+): Promise<void> {
+  const dishIds = cards.flatMap(c => (c.matches || []).filter(m => m.is_available === undefined).map(m => m.id));
+  if (dishIds.length === 0) return;
+
+  let dishes;
+  try {
+    dishes = await catalog.getDishes({ ids: dishIds });
+  } catch (error) {
+    console.log("[discover][availability] Lookup failed:", error instanceof Error ? error.message : error);
+    return;
+  }
+
+  const byId = new Map(dishes.map(d => [d.id, d]));
+  for (const card of cards) {
+    for (const dish of card.matches || []) {
+      const row = byId.get(dish.id);
+      if (!row) continue;
+      dish.is_available = row.is_available;
+      dish.is_orderable = row.is_orderable;
+    }
+  }
+}
+
+/**
+ * Badge sold-out and in-store-only dishes and apply the sold-out policy (DISCOVER_SOLD_OUT,
+ * or hide when the "Only available" toggle is on)
+ */
+export async function applyAvailability(
+  cards: RestaurantCard[],
+  catalog: CatalogRepository,
+  { onlyAvailable = false }: { onlyAvailable?: boolean } = {}
+): Promise<RestaurantCard[]> {
+  await hydrateDishAvailability(cards, catalog);
+
+  const policy = effectiveSoldOutPolicy(onlyAvailable);
+  const soldOut = cards.reduce((sum, c) => sum + (c.matches || []).filter(isSoldOut).length, 0);
+  const shaped = soldOut > 0 ? applySoldOutPolicyToCards(cards, policy) : cards;
+
+  if (soldOut > 0) {
+    console.log("[discover][availability]", { policy, soldOut, beforeCards: cards.length, afterCards: shaped.length });
+  }
+  return shaped;
+}
@@ -0,0 +1,39 @@
+/**
+ * Conversation capture for the discover chat route: with DISCOVER_CAPTURE_DIR set, each turn's
+ * request, response and LLM/Supabase traffic is appended to <dir>/<sessionId>.json for
+ * offline replay (lib/replay, `npm run replay`)
+ */
+
+import type { NextRequest, NextResponse } from "next/server";
+import { appendTurn, getCaptureDir, runWithRecording, type CaptureContext } from "@/lib/replay";
+
+export async function captureChatTurn(request: NextRequest, run: () => Promise<NextResponse>): Promise<NextResponse> {
+  const dir = getCaptureDir();
+  if (!dir) return run();
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.clone().json();
+  } catch {
+    return run(); // Not a turn we could replay anyway
+  }
+
+  const at = new Date().toISOString();
+  const context: CaptureContext = { mode: "capture", tape: { llm: [], supabase: [] } };
+  const response = await runWithRecording(context, run);
+
+  try {
+    const responseBody = await response.clone().json();
+    const sessionId = typeof responseBody.sessionId === "string" ? responseBody.sessionId : `no-session-${Date.now()}`;
+    const file = appendTurn(dir, sessionId, {
+      at,
+      request: body,
+      response: { status: response.status, body: responseBody },
+      ...context.tape,
+    });
+    console.log("[discover][capture] turn recorded", { file, llm: context.tape.llm.length, supabase: context.tape.supabase.length });
+  } catch (error) {
+    console.error("[discover][capture] failed to record turn:", error);
+  }
+  return response;
+}
@@ -0,0 +1,33 @@
+/**
+ * Typed context passed to discover chat action handlers.
+ * Built once per request in the chat route; handlers read everything they need from it
+ * instead of taking per-handler argument bags.
+ */
+
+import type { NextRequest, NextResponse } from "next/server";
+import type { Plan } from "@/lib/discover/planner";
+import type { StreamEmit } from "@/lib/discover/stream";
+import type { Span } from "@/lib/discover/trace";
+import type { LLMProvider } from "@/lib/llm";
+import type { ChatState, DietaryProfile, GeoPoint, GroundedState, Intent } from "@/lib/types/discover";
+
+export interface ChatRequestContext {
+  query: string;
+  intent: Intent;
+  chatState: ChatState;
+  grounded: GroundedState | null;
+  profile?: DietaryProfile | null; // Saved dietary profile (override applied); handleSearch merges it into the intent
+  location?: GeoPoint | null; // Browser coordinates, validated; used for "near me" and card distances
+  onlyAvailable?: boolean; // "Only available" toggle: sold-out dishes are hidden from results
+  llm: LLMProvider;
+  request: NextRequest;
+  emit?: StreamEmit; // Streaming mode only: push cards before summary/translation finish
+  trace: Span; // Current stage's span; handlers open child spans for their own stages
+}
+
+/** Request context plus the plan chosen by the planner */
+export interface ChatActionContext extends ChatRequestContext {
+  plan: Plan;
+}
+
+export type ChatActionHandler = (ctx: ChatActionContext) => Promise<NextResponse>;
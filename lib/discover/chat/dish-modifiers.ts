@@ -0,0 +1,62 @@
+/**
+ * Modifier hydration for result cards and the "not tagged, but it can be made vegan" check
+ */
+
+import type { CatalogDish, CatalogModifierGroup, CatalogRepository } from "@/lib/catalog";
+import type { RestaurantCard } from "@/lib/types/discover";
+import { findModifierOptions, modifierQuestionFor, type ModifierMatch } from "@/lib/discover/modifiers";
+
+/** Fill `modifiers` on every match that has none, in place. A failed lookup leaves them unset */
+export async function hydrateDishModifiers(
+  cards: RestaurantCard[],
+  catalog: CatalogRepository
+): Promise<void> {
+  const dishIds = cards.flatMap(c => (c.matches || []).filter(m => !m.modifiers).map(m => m.id));
+  if (dishIds.length === 0) return;
+
+  let modifiersByDishId: Map<string, CatalogModifierGroup[]>;
+  try {
+    modifiersByDishId = await catalog.getDishModifiers(dishIds);
+  } catch (error) {
+    console.log("[discover][hydrateDishModifiers] Error:", error instanceof Error ? error.message : error);
+    return;
+  }
+
+  for (const card of cards) {
+    for (const dish of card.matches || []) {
+      const groups = modifiersByDishId.get(dish.id);
+      if (!dish.modifiers && groups) dish.modifiers = groups;
+    }
+  }
+}
+
+/**
+ * A dish at the restaurant matching `dishQuery` that is not tagged `tag` itself but has an
+ * option that is ("Margherita" + "Vegan cheese" for vegan). Null when there is none.
+ */
+export async function findTaggedOption(
+  catalog: CatalogRepository,
+  restaurantId: string,
+  dishQuery: string,
+  tag: string
+): Promise<{ dish: CatalogDish; matches: ModifierMatch[] } | null> {
+  const question = modifierQuestionFor(tag);
+  if (!question.tagSlug) return null;
+
+  // "vegan margherita" -> "margherita"
+  const text = dishQuery.toLowerCase().replace(new RegExp(`\\b${question.term}\\b`, "g"), "").trim();
+  if (!text) return null;
+
+  try {
+    const dishes = await catalog.getDishes({ restaurantId, publicOnly: true, text, limit: 5 });
+    if (dishes.length === 0) return null;
+    const modifiersByDishId = await catalog.getDishModifiers(dishes.map(d => d.id));
+    for (const dish of dishes) {
+      const matches = findModifierOptions(modifiersByDishId.get(dish.id) ?? [], question);
+      if (matches.length > 0) return { dish, matches };
+    }
+  } catch (error) {
+    console.log("[discover][findTaggedOption] Error:", error instanceof Error ? error.message : error);
+  }
+  return null;
+}
@@ -0,0 +1,36 @@
+/**
+ * Tag hydration for result cards built from RPCs that return no tags (fuzzy steps C/D)
+ */
+
+import type { CatalogRepository, CatalogTag } from "@/lib/catalog";
+import type { RestaurantCard } from "@/lib/types/discover";
+
+/**
+ * Fill `tags` on every dish that has none, in place. Dishes that already carry tags
+ * (strict tag RPCs return all dish tags) are left alone.
+ */
+export async function hydrateDishTags(
+  cards: RestaurantCard[],
+  catalog: CatalogRepository
+): Promise<void> {
+  const dishIds = cards.flatMap(c => (c.matches || []).filter(m => !m.tags || m.tags.length === 0).map(m => m.id));
+  if (dishIds.length === 0) return;
+
+  let tagsByDishId: Map<string, CatalogTag[]>;
+  try {
+    tagsByDishId = await catalog.getDishTags(dishIds);
+  } catch (error) {
+    console.log("[discover][hydrateDishTags] Error:", error instanceof Error ? error.message : error);
+    return;
+  }
+
+  for (const card of cards) {
+    for (const dish of card.matches || []) {
+      if (!dish.tags || dish.tags.length === 0) {
+        dish.tags = tagsByDishId.get(dish.id) || [];
+      }
+    }
+  }
+
+  console.log("[discover][hydrateDishTags] Hydrated:", { dishCount: dishIds.length, taggedCount: tagsByDishId.size });
+}
@@ -0,0 +1,75 @@
+/**
+ * Helpers for the EXPLAIN and FOLLOWUP handlers
+ */
+
+import type { GroundedState } from "@/lib/types/discover";
+
+// ============================================
+// EXPLAINER HELPER FUNCTIONS (Patch 0.9)
+// ============================================
+
+type ExplainSubtype = "DEFINITION" | "DISH_SPECIFIC";
+
+function classifyExplainSubtype(query: string): ExplainSubtype {
+  const q = query.toLowerCase().trim();
+  const tokens = q.split(/\s+/).filter(t => t.length > 0);
+
+  // Short noun phrase (<= 3 tokens without question words) → DEFINITION
+  // Examples: "gobi", "paneer", "what is gobi"
+  const questionStopwords = ["what", "is", "are", "the", "a", "an", "and", "or", "vad", "är"];
+  const nonStopTokens = tokens.filter(t => !questionStopwords.includes(t));
+  if (nonStopTokens.length <= 2 && nonStopTokens.length > 0) {
+    return "DEFINITION";
+  }
+
+  // Definition patterns (explicit "what is" style questions)
+  const defRegex = /^\s*(what is|what's|define|meaning of|translate|vad är|vad betyder|ki ha|ki aa|ki hai|kya hai|kya hota hai|ਕੀ ਹੈ|ਕੀ ਆ)\b/i;
+  const isDef = defRegex.test(q) || q.includes("ki ha") || q.includes("ki aa");
+
+  // Dish-specific patterns (asking about a specific dish's properties)
+  const dishSpecificPatterns = [
+    /\b(does|do)\s+(it|this|the|that)\s+(contain|have)/i,
+    /\bis\s+(it|this|the)\s+(spicy|creamy|sweet|sour|vegan|vegetarian|halal|kosher|gluten)/i,
+    /\b(contain|contains|have|has)\s+(nuts|milk|gluten|dairy|egg|allergen)/i,
+    /\b(is|are)\s+.*(in|inside)\s+(the|this|that)?\s*(dish|meal|pizza|curry)/i
+  ];
+  const isDishSpecific = dishSpecificPatterns.some(p => p.test(q));
+
+  if (isDishSpecific) return "DISH_SPECIFIC";
+  if (isDef) return "DEFINITION";
+
+  // Default: if short query, treat as definition; otherwise dish-specific
+  return tokens.length <= 4 ? "DEFINITION" : "DISH_SPECIFIC";
+}
+
+// Legacy wrapper for backward compatibility
+export function classifyExplainType(query: string): "DEFINITION" | "MENU_FACT" {
+  const subtype = classifyExplainSubtype(query);
+  return subtype === "DEFINITION" ? "DEFINITION" : "MENU_FACT";
+}
+
+export function extractKeyTermForDefinition(query: string): string | null {
+  const q = query.toLowerCase()
+    .replace(/[?!.,]/g, "")
+    // Remove definition stopwords in all supported languages
+    .replace(/\b(what|is|are|the|a|an|meaning|define|translate|of|vad|är|betyder|det|en|ett|ki|ha|aa|hai|kya|hota|ਕੀ|ਹੈ|ਆ)\b/gi, "")
+    .trim();
+  return q.length > 2 ? q : null;
+}
+
+export function findMenuMentions(payload: GroundedState, term: string): string[] {
+  const matches: string[] = [];
+  const lowerTerm = term.toLowerCase();
+
+  for (const r of payload.restaurants) {
+    if (matches.length >= 3) break;
+    for (const d of (r.matches || [])) {
+      const text = `${d.name} ${d.description ?? ""}`.toLowerCase();
+      if (text.includes(lowerTerm)) {
+        matches.push(`${d.name} (${r.name})`);
+        if (matches.length >= 3) break;
+      }
+    }
+  }
+  return matches;
+}
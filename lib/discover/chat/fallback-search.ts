@@ -0,0 +1,217 @@
+/**
+ * Multi-step search fallback used by SEARCH when the primary search returns nothing
+ */
+
+import type { CatalogRepository, DishSearchRow, RestaurantSearchRow } from "@/lib/catalog";
+import type { RestaurantCard } from "@/lib/types/discover";
+import { normalizeRestaurantCards } from "@/lib/discover/chat/safe-response";
+import type { Span } from "@/lib/discover/trace";
+
+// ============================================
+// FALLBACK SEARCH CHAIN (Patch 0.9B)
+// ============================================
+
+export type FallbackResult = {
+  restaurantCards: RestaurantCard[];
+  trace: string;
+  step: "A" | "B" | "C" | "D" | "E";
+  wasTagFiltered: boolean; // True if results came from tag-filtered search
+};
+
+// A failed catalog call ends its step like an empty result
+async function attempt<T>(run: () => Promise<T[]>): Promise<{ rows: T[]; error: string | null }> {
+  try {
+    return { rows: await run(), error: null };
+  } catch (error) {
+    return { rows: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Grouped fuzzy rows (steps C/D) as cards, dropping restaurants without dishes
+function groupedRowsToCards(rows: RestaurantSearchRow[]): RestaurantCard[] {
+  return rows.map(r => ({
+    id: r.restaurant_id,
+    name: r.restaurant_name,
+    city: r.restaurant_city,
+    matches: r.matching_dishes.map(d => ({
+      id: d.id,
+      name: d.name,
+      description: d.description,
+      price: d.price
+    }))
+  })).filter(c => c.matches.length > 0);
+}
+
+export async function fallbackSearchChain(args: {
+  resolvedTagIds: string[];
+  queryText: string | null;
+  city: string | null;
+  dietaryLabels: string[];
+  catalog: CatalogRepository;
+  trace?: Span; // One child span per search step
+}): Promise<FallbackResult> {
+  const { resolvedTagIds, queryText, city, catalog, trace } = args;
+  const hasStrictTags = resolvedTagIds.length > 0;
+
+  // Helper to convert RPC rows to RestaurantCards
+  const rowsToCards = (rows: DishSearchRow[]): RestaurantCard[] => {
+    const restaurantsMap = new Map<string, RestaurantCard>();
+    rows.forEach(row => {
+      if (!restaurantsMap.has(row.restaurant_id)) {
+        restaurantsMap.set(row.restaurant_id, {
+          id: row.restaurant_id,
+          name: row.restaurant_name,
+          city: row.restaurant_city || null,
+          matches: []
+        });
+      }
+      if (row.dish_id) {
+        restaurantsMap.get(row.restaurant_id)!.matches!.push({
+          id: row.dish_id,
+          name: row.dish_name,
+          description: row.dish_description,
+          price: row.dish_price,
+          tags: row.matched_tags,
+          section_name: row.section_name || null, // Preserve hydrated section_name for filtering
+        });
+      }
+    });
+    return normalizeRestaurantCards(Array.from(restaurantsMap.values()));
+  };
+
+  // Helper to hydrate owner_id on RestaurantCards for claimed/unclaimed badge
+  const hydrateOwnerIds = async (cards: RestaurantCard[]): Promise<void> => {
+    if (cards.length === 0) return;
+
+    const { rows, error } = await attempt(() => catalog.getRestaurants(cards.map(c => c.id)));
+    if (error) {
+      console.log("[discover][hydrateOwnerIds] Error:", error);
+      return;
+    }
+
+    const ownerMap = new Map<string, string | null>();
+    rows.forEach(r => {
+      ownerMap.set(r.id, r.owner_id);
+    });
+
+    for (const card of cards) {
+      card.ownerId = ownerMap.get(card.id) ?? null;
+    }
+
+    console.log("[discover][hydrateOwnerIds] Hydrated:", {
+      cardsWithOwner: cards.filter(c => c.ownerId).length,
+      totalCards: cards.length
+    });
+  };
+
+  // STEP A: strict tags + query_text + city
+  if (hasStrictTags) {
+    const spanA = trace?.start("step-A", { rpc: "search_public_dishes_by_tags_strict" });
+    const { rows: stepA, error: errA } = await attempt(() =>
+      catalog.searchDishesByTagsStrict(resolvedTagIds, { queryText, city, limit: 20 })
+    );
+    spanA?.end({ rows: stepA.length, error: errA ?? undefined });
+
+    if (stepA.length > 0) {
+      // DEBUG: Check if matched_tags is coming through
+      // DEBUG: Check if section_name comes through from RPC
+      console.log("[discover][fallback] stepA first row:", {
+        dish_name: stepA[0]?.dish_name,
+        section_name: stepA[0]?.section_name,  // RPC should return this directly
+        matched_tags: stepA[0]?.matched_tags,
+      });
+      // NOTE: section_name should come directly from RPC, no need for separate hydration
+      const cards = rowsToCards(stepA);
+      // DEBUG: Check if section survived into cards
+      console.log("[discover][fallback] AFTER rowsToCards - first dish:", {
+        restaurant_name: cards[0]?.name,
+        first_dish_name: cards[0]?.matches?.[0]?.name,
+        first_dish_section: cards[0]?.matches?.[0]?.section_name
+      });
+      console.log("[discover][fallback]", { step: "A", rows: stepA.length, cardCount: cards.length });
+      await hydrateOwnerIds(cards);
+      return { restaurantCards: cards, trace: "A: strict tags + query + city", step: "A", wasTagFiltered: true };
+    }
+    console.log("[discover][fallback]", { step: "A", rows: 0, error: errA });
+
+    // STEP B: strict tags only (query_text = null)
+    const spanB = trace?.start("step-B", { rpc: "search_public_dishes_by_tags_strict" });
+    const { rows: stepB, error: errB } = await attempt(() =>
+      catalog.searchDishesByTagsStrict(resolvedTagIds, { queryText: null, city, limit: 20 })
+    );
+    spanB?.end({ rows: stepB.length, error: errB ?? undefined });
+
+    if (stepB.length > 0) {
+      // DEBUG: Check if section_name comes through from RPC
+      console.log("[discover][fallback] stepB first row:", {
+        dish_name: stepB[0]?.dish_name,
+        section_name: stepB[0]?.section_name,  // RPC should return this directly
+      });
+      // NOTE: section_name should come directly from RPC, no need for separate hydration
+      const cards = rowsToCards(stepB);
+      console.log("[discover][fallback]", { step: "B", rows: stepB.length, cardCount: cards.length, firstDishSection: cards[0]?.matches?.[0]?.section_name });
+      await hydrateOwnerIds(cards);
+      return { restaurantCards: cards, trace: "B: strict tags only", step: "B", wasTagFiltered: true };
+    }
+    console.log("[discover][fallback]", { step: "B", rows: 0, error: errB });
+  }
+
+  // STEP C: query only (no tags) using fuzzy search
+  if (queryText && queryText.length > 0) {
+    const spanC = trace?.start("step-C", { rpc: "search_public_dishes_fuzzy" });
+    const { rows: stepC, error: errC } = await attempt(() =>
+      catalog.searchRestaurantsFuzzy(queryText, {
+        city,
+        similarityThreshold: 0.3 // Higher threshold for more relevant results
+      })
+    );
+    spanC?.end({ rows: stepC.length, error: errC ?? undefined });
+
+    // This RPC returns matching_dishes per restaurant, need to transform
+    const cards = groupedRowsToCards(stepC);
+    if (cards.length > 0) {
+      console.log("[discover][fallback]", { step: "C", rows: stepC.length, cardCount: cards.length });
+      const normalizedCards = normalizeRestaurantCards(cards);
+      await hydrateOwnerIds(normalizedCards);
+      return { restaurantCards: normalizedCards, trace: "C: query only (fuzzy)", step: "C", wasTagFiltered: false };
+    }
+    console.log("[discover][fallback]", { step: "C", rows: 0, error: errC });
+  }
+
+  // STEP D: semantic/fuzzy relaxed (broader search, lower threshold, no city filter)
+  if (queryText && queryText.length > 0) {
+    const spanD = trace?.start("step-D", { rpc: "search_public_dishes_fuzzy" });
+    const { rows: stepD, error: errD } = await attempt(() =>
+      catalog.searchRestaurantsFuzzy(queryText, {
+        city: null, // Ignore city for broader reach
+        similarityThreshold: 0.15 // Lower threshold for more results
+      })
+    );
+    spanD?.end({ rows: stepD.length, error: errD ?? undefined });
+
+    const cards = groupedRowsToCards(stepD);
+    if (cards.length > 0) {
+      console.log("[discover][fallback]", { step: "D", rows: stepD.length, cardCount: cards.length });
+      const normalizedCards = normalizeRestaurantCards(cards);
+      await hydrateOwnerIds(normalizedCards);
+      return { restaurantCards: normalizedCards, trace: "D: fuzzy relaxed", step: "D", wasTagFiltered: false };
+    }
+    console.log("[discover][fallback]", { step: "D", rows: 0, error: errD });
+  }
+
+  // STEP E: UI fallback - show top restaurants (no dishes, just restaurant names)
+  const spanE = trace?.start("step-E");
+  const { rows: topRestaurants } = await attempt(() => catalog.findRestaurants({ limit: 5 }));
+  spanE?.end({ rows: topRestaurants.length });
+
+  const topCards: RestaurantCard[] = topRestaurants.map(r => ({
+    id: r.id,
+    name: r.name,
+    city: r.city,
+    matches: [] // No dishes - just restaurant names
+  }));
+
+  console.log("[discover][fallback]", { step: "E", rows: 0, cardCount: topCards.length });
+  await hydrateOwnerIds(topCards);
+  return { restaurantCards: topCards, trace: "E: top restaurants fallback", step: "E", wasTagFiltered: false };
+}
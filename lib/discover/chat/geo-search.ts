@@ -0,0 +1,154 @@
+/**
+ * Distance filtering for discover search: resolves "near me" / "within X km" / "close to <landmark>"
+ * into a GeoFilter and ranks result cards by distance from it
+ */
+
+import type { CatalogRepository } from "@/lib/catalog";
+import type { GeoFilter, GeoPoint, Intent, RestaurantCard } from "@/lib/types/discover";
+import {
+  DEFAULT_LANDMARK_RADIUS_KM,
+  DEFAULT_NEAR_ME_RADIUS_KM,
+  haversineKm,
+  isValidGeoPoint,
+  matchLandmark,
+  rankByDistance,
+  type Landmark,
+} from "@/lib/discover/geo";
+
+export type GeoResolution =
+  | { filter: GeoFilter; missing: null }
+  | { filter: null; missing: "location" | "landmark" }
+  | { filter: null; missing: null }; // No location constraint in the query
+
+// Restaurants found by the radius RPC: distance plus city (used to narrow the text/tag search)
+export type NearbyRestaurants = Map<string, { distanceKm: number; city: string | null }>;
+
+async function loadLandmarks(catalog: CatalogRepository): Promise<Landmark[]> {
+  try {
+    return (await catalog.getLandmarks()).map(row => ({
+      name: row.name,
+      aliases: row.aliases,
+      city: row.city,
+      point: { lat: row.latitude, lng: row.longitude },
+    }));
+  } catch (error) {
+    console.log("[discover][geo] Landmark lookup failed:", error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Turn the intent's location phrases into a filter. A landmark wins over the device position;
+ * "near me" without shared coordinates reports `missing: "location"` so the caller can ask for it.
+ */
+export async function resolveGeoFilter(args: {
+  intent: Intent;
+  location: GeoPoint | null | undefined;
+  catalog: CatalogRepository;
+}): Promise<GeoResolution> {
+  const { intent, catalog } = args;
+  const location = isValidGeoPoint(args.location) ? args.location : null;
+
+  if (intent.landmark) {
+    const landmark = matchLandmark(intent.landmark, await loadLandmarks(catalog), { city: intent.city, near: location });
+    if (landmark) {
+      return {
+        filter: {
+          origin: landmark.point,
+          radiusKm: intent.radius_km ?? DEFAULT_LANDMARK_RADIUS_KM,
+          label: `${landmark.name}, ${landmark.city}`,
+        },
+        missing: null,
+      };
+    }
+    console.log("[discover][geo] Unknown landmark:", { landmark: intent.landmark });
+    // "pizza near <unknown place>" with coordinates shared still makes sense as "near me"
+    if (!location) return { filter: null, missing: "landmark" };
+  }
+
+  if (intent.near_me || intent.radius_km || intent.landmark) {
+    if (!location) return { filter: null, missing: "location" };
+    return {
+      filter: { origin: location, radiusKm: intent.radius_km ?? DEFAULT_NEAR_ME_RADIUS_KM, label: null },
+      missing: null,
+    };
+  }
+
+  return { filter: null, missing: null };
+}
+
+/**
+ * Searchable restaurants inside the filter radius (restaurants_within_radius, GiST index).
+ * Null when the RPC is unavailable - callers then fall back to computing distances per card.
+ */
+export async function findRestaurantsNear(filter: GeoFilter, catalog: CatalogRepository): Promise<NearbyRestaurants | null> {
+  let rows;
+  try {
+    rows = await catalog.restaurantsWithinRadius(filter.origin, filter.radiusKm);
+  } catch (error) {
+    console.log("[discover][geo] restaurants_within_radius failed:", error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  const nearby: NearbyRestaurants = new Map();
+  for (const row of rows) {
+    nearby.set(row.restaurant_id, { distanceKm: row.distance_km, city: row.restaurant_city });
+  }
+  return nearby;
+}
+
+/**
+ * City most nearby restaurants are in, used as the search city when the query named none
+ */
+export function dominantCity(nearby: NearbyRestaurants): string | null {
+  const counts = new Map<string, number>();
+  for (const { city } of nearby.values()) {
+    if (city) counts.set(city, (counts.get(city) ?? 0) + 1);
+  }
+  let best: string | null = null;
+  for (const [city, count] of counts) {
+    if (best === null || count > (counts.get(best) ?? 0)) best = city;
+  }
+  return best;
+}
+
+async function computeDistances(cards: RestaurantCard[], origin: GeoPoint, catalog: CatalogRepository): Promise<Map<string, number>> {
+  const distances = new Map<string, number>();
+  if (cards.length === 0) return distances;
+
+  let rows;
+  try {
+    rows = await catalog.getRestaurants(cards.map(c => c.id));
+  } catch (error) {
+    console.log("[discover][geo] Coordinate lookup failed:", error instanceof Error ? error.message : error);
+    return distances;
+  }
+
+  for (const row of rows) {
+    if (row.latitude === null || row.longitude === null) continue;
+    distances.set(row.id, haversineKm(origin, { lat: Number(row.latitude), lng: Number(row.longitude) }));
+  }
+  return distances;
+}
+
+/**
+ * Keep cards inside the filter radius, nearest first, with `distance_km` set
+ */
+export async function applyGeoFilter(
+  cards: RestaurantCard[],
+  filter: GeoFilter,
+  catalog: CatalogRepository,
+  nearby?: NearbyRestaurants | null
+): Promise<RestaurantCard[]> {
+  const distances = nearby
+    ? new Map(Array.from(nearby, ([id, { distanceKm }]) => [id, distanceKm]))
+    : await computeDistances(cards, filter.origin, catalog);
+  return rankByDistance(cards, distances, filter.radiusKm);
+}
+
+/**
+ * Informational distances for a search without a location constraint (user shared coordinates)
+ */
+export async function annotateDistances(cards: RestaurantCard[], origin: GeoPoint, catalog: CatalogRepository): Promise<RestaurantCard[]> {
+  return rankByDistance(cards, await computeDistances(cards, origin, catalog), null);
+}
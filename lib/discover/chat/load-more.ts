@@ -0,0 +1,157 @@
+/**
+ * LOAD_MORE_RESTAURANT ui_action: appends the next page of dishes to an existing card
+ */
+
+import { NextResponse } from "next/server";
+import { getPublicMenu } from "@/app/actions/discover";
+import type { ChatState, DishMatch, LastResultDish, MenuSection, MenuItem } from "@/lib/types/discover";
+import { screenDishes } from "@/lib/discover/allergens";
+import { applySoldOutPolicy, effectiveSoldOutPolicy } from "@/lib/discover/availability";
+import { intentPriceRange, isWithinPriceRange, money } from "@/lib/discover/money";
+
+// ============================================
+// LOAD MORE RESTAURANT (Patch Response for in-place UI updates)
+// ============================================
+export async function handleLoadMoreRestaurant(args: {
+  restaurantId: string;
+  offset: number;
+  chatState: ChatState;
+  onlyAvailable: boolean;
+}): Promise<NextResponse> {
+  const { restaurantId, offset, chatState, onlyAvailable } = args;
+
+  console.log("[discover][load-more-patch] Starting", { restaurantId, offset });
+
+  // slice() with a negative offset would page from the end of the menu
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({
+      type: "patch",
+      restaurantId,
+      restaurantName: "Unknown",
+      appendDishes: [],
+      pagination: { shown: 0, total: 0 },
+      error: "Invalid offset"
+    }, { status: 400 });
+  }
+
+  try {
+    // Get restaurant menu
+    const menuPayload = await getPublicMenu(restaurantId);
+
+    if (!menuPayload || !menuPayload.sections) {
+      return NextResponse.json({
+        type: "patch",
+        restaurantId,
+        restaurantName: "Unknown",
+        appendDishes: [],
+        pagination: { shown: 0, total: 0 },
+        error: "Restaurant not found"
+      });
+    }
+
+    // Flatten all menu items
+    const allMenuDishes: DishMatch[] = menuPayload.sections.flatMap((section: MenuSection) =>
+      (section.items || []).map((item: MenuItem) => ({
+        id: item.id,
+        name: item.name,
+        description: item.description || null,
+        price: item.price ?? 0,
+        price_money: item.price_money ?? undefined,
+        tags: item.tags || [],
+        section_name: section.name,
+        is_available: item.is_available,
+        is_orderable: item.is_orderable,
+        modifiers: item.modifiers
+      }))
+    );
+
+    // Apply dietary filters if they were part of the original search
+    const dietaryFilters = chatState.last_search_params?.dietary || [];
+    let filteredDishes = allMenuDishes;
+
+    if (dietaryFilters.length > 0) {
+      filteredDishes = allMenuDishes.filter(dish => {
+        const dishTags = (dish.tags || []).map(t => t.slug.toLowerCase());
+        return dietaryFilters.some(diet => {
+          const dietLower = diet.toLowerCase();
+          return dishTags.some((tag: string) =>
+            tag.includes(dietLower) ||
+            (dietLower === "veg" && (tag.includes("vegetarian") || tag.includes("vegan"))) ||
+            (dietLower === "vegetarian" && tag.includes("vegetarian")) ||
+            (dietLower === "vegan" && tag.includes("vegan")) ||
+            (dietLower === "halal" && tag.includes("halal"))
+          );
+        });
+      });
+    }
+
+    // Allergen exclusion from the original search ("no nuts" must hold on every page)
+    const avoidedAllergens = chatState.last_search_params?.allergy || [];
+    if (avoidedAllergens.length > 0) {
+      filteredDishes = screenDishes(filteredDishes, avoidedAllergens).kept;
+    }
+
+    // Price range of the original search, converted into the menu's currency like the first page
+    const lastIntent = chatState.last_search_params?.intent;
+    const priceRange = lastIntent ? intentPriceRange(lastIntent) : null;
+    if (priceRange) {
+      filteredDishes = filteredDishes.filter(dish =>
+        isWithinPriceRange(dish.price_money ?? money(dish.price, menuPayload.currency), priceRange)
+      );
+    }
+
+    // Sold out: same policy as the first page (DISCOVER_SOLD_OUT / "Only available" toggle)
+    filteredDishes = applySoldOutPolicy(filteredDishes, effectiveSoldOutPolicy(onlyAvailable));
+
+    // Get dishes from offset (10 per page)
+    const DISHES_PER_PAGE = 10;
+    const dishesToAppend = filteredDishes.slice(offset, offset + DISHES_PER_PAGE);
+    const totalShown = offset + dishesToAppend.length;
+    const hasMore = totalShown < filteredDishes.length;
+    const nextOffset = hasMore ? totalShown : undefined;
+
+    console.log("[discover][load-more-patch] Fetched dishes", {
+      offset,
+      appendCount: dishesToAppend.length,
+      totalShown,
+      totalAvailable: filteredDishes.length,
+      hasMore
+    });
+
+    // Build updated last_results for follow-up grounding
+    const updatedLastResults: LastResultDish[] = dishesToAppend.map((d: DishMatch) => ({
+      dish_id: d.id,
+      dish_name: d.name,
+      restaurant_id: restaurantId,
+      restaurant_name: menuPayload.restaurantName,
+      tag_slugs: (d.tags || []).map(t => t.slug),
+      price: d.price ?? null,
+      is_available: d.is_available
+    }));
+
+    return NextResponse.json({
+      type: "patch",
+      restaurantId,
+      restaurantName: menuPayload.restaurantName,
+      appendDishes: dishesToAppend,
+      pagination: {
+        shown: totalShown,
+        total: filteredDishes.length,
+        remaining: filteredDishes.length - totalShown,
+        next_offset: nextOffset
+      },
+      updatedLastResults
+    });
+
+  } catch (error) {
+    console.error("[discover][load-more-patch] Error:", error);
+    return NextResponse.json({
+      type: "patch",
+      restaurantId,
+      restaurantName: "Unknown",
+      appendDishes: [],
+      pagination: { shown: 0, total: 0 },
+      error: "Failed to load more dishes"
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Opening-hours annotation and filtering for discover search results ("vegan open now",
+ * "lunch after 22:00", "open on Sunday"). Every card gets an open/closed badge; a time
+ * constraint additionally drops restaurants that are closed or list no usable hours.
+ */
+
+import type { CatalogRepository } from "@/lib/catalog";
+import type { OpenAtConstraint, OpeningHoursExceptions, RestaurantCard } from "@/lib/types/discover";
+import {
+  CLOSING_SOON_MINUTES,
+  describeOpenStatus,
+  getOpenStatus,
+  hasParseableHours,
+  matchesOpenAt,
+  parseSchedule,
+  type OpeningHours,
+  type Schedule,
+} from "@/lib/discover/opening-hours";
+
+type HoursRow = {
+  id: string;
+  opening_hours: OpeningHours | null;
+  opening_hours_exceptions: OpeningHoursExceptions | null;
+  timezone: string | null;
+};
+
+async function loadHours(cards: RestaurantCard[], catalog: CatalogRepository): Promise<Map<string, HoursRow>> {
+  const rows = new Map<string, HoursRow>();
+  if (cards.length === 0) return rows;
+
+  try {
+    for (const row of await catalog.getRestaurants(cards.map(c => c.id))) rows.set(row.id, row);
+  } catch (error) {
+    console.log("[discover][hours] Opening hours lookup failed:", error instanceof Error ? error.message : error);
+  }
+  return rows;
+}
+
+/**
+ * Attach the open/closed badge, today's hours and the next opening/closing time to every card
+ * and, with a constraint, keep only restaurants known to be open then. Order is preserved.
+ */
+export async function applyOpeningHours(
+  cards: RestaurantCard[],
+  catalog: CatalogRepository,
+  openAt: OpenAtConstraint | null | undefined,
+  now: Date = new Date()
+): Promise<RestaurantCard[]> {
+  const hours = await loadHours(cards, catalog);
+  const schedules = new Map<string, Schedule>();
+
+  const annotated = cards.map(card => {
+    const row = hours.get(card.id);
+    const openingHours = row?.opening_hours ?? card.opening_hours ?? null;
+    const schedule = parseSchedule(openingHours, row?.opening_hours_exceptions);
+    const status = hasParseableHours(schedule) ? getOpenStatus(schedule, row?.timezone ?? null, now) : null;
+    if (!status) {
+      return { ...card, opening_hours: openingHours, is_open_now: null, today_hours: null, hours_note: null, closes_in_minutes: null };
+    }
+
+    schedules.set(card.id, schedule);
+    return {
+      ...card,
+      opening_hours: openingHours,
+      is_open_now: status.isOpen,
+      today_hours: status.todayHours,
+      hours_note: describeOpenStatus(status),
+      hours_exception_note: status.note,
+      closes_in_minutes: status.isOpen ? (status.nextChange?.inMinutes ?? null) : null,
+    };
+  });
+
+  if (!openAt) return annotated;
+
+  // Unknown hours do not pass: "open now" should not list places we cannot vouch for
+  return annotated.filter(card =>
+    matchesOpenAt(schedules.get(card.id), hours.get(card.id)?.timezone ?? null, openAt, now) === true
+  );
+}
+
+/**
+ * 0 = open, 1 = closing within CLOSING_SOON_MINUTES, 2 = hours unknown, 3 = closed
+ */
+function opennessRank(card: RestaurantCard): number {
+  if (card.is_open_now === true) {
+    return card.closes_in_minutes != null && card.closes_in_minutes <= CLOSING_SOON_MINUTES ? 1 : 0;
+  }
+  return card.is_open_now === false ? 3 : 2;
+}
+
+/**
+ * Tie-break for result ordering: among equally relevant restaurants, open ones come first
+ */
+export function compareByOpenness(a: RestaurantCard, b: RestaurantCard): number {
+  return opennessRank(a) - opennessRank(b);
+}
@@ -0,0 +1,31 @@
+/**
+ * Saved dietary profile for a chat turn: loaded once per request, with the per-query override applied
+ */
+
+import type { NextRequest } from "next/server";
+import { getProfileStore, resolveEffectiveProfile, resolveProfileOwner } from "@/lib/discover/profile";
+import type { DietaryProfile, ProfileOverride } from "@/lib/types/discover";
+
+/**
+ * Never throws: a missing or unreachable profile store just means "no profile" for this turn
+ */
+export async function loadChatProfile(
+  request: NextRequest,
+  override: ProfileOverride | null | undefined
+): Promise<DietaryProfile | null> {
+  if (override?.off) return null;
+
+  let saved: DietaryProfile | null = null;
+  try {
+    const owner = await resolveProfileOwner(request);
+    saved = owner ? await getProfileStore().get(owner) : null;
+  } catch (error) {
+    console.error("[discover][profile] Load failed, searching without profile:", error);
+  }
+
+  const profile = resolveEffectiveProfile(saved, override);
+  if (profile) {
+    console.log("[discover][profile]", { saved: !!saved, overridden: !!override, profile });
+  }
+  return profile;
+}
@@ -0,0 +1,127 @@
+/**
+ * Query text and tag helpers shared by the chat route and action handlers
+ */
+
+import type { CatalogRepository } from "@/lib/catalog";
+
+// Canonical tag UUID mapping (kept for backward compatibility, but prefer DB lookup)
+export const CANONICAL_TAG_IDS: Record<string, string> = {
+  vegetarian: "a445264b-a969-4606-9507-ba77d0d6fc0c",
+  vegan: "3706cb32-a6e3-415e-8a45-31880a484e4d",
+  halal: "e37ac27a-9114-423e-ae51-633f2e279e41",
+  satvik: "3225bfa4-b07c-4d83-a8d6-67abba545bb7",
+};
+
+/**
+ * Slugify helper matching DB slug logic: allow uppercase before lowercasing
+ */
+function slugify(input: string): string {
+  return input
+    .trim()
+    .replace(/[^A-Za-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Strip dietary/tag words from query to extract clean dish search text
+ * "veg pizza" -> "pizza", "halal butter chicken" -> "butter chicken"
+ */
+export function stripTagWords(q: string): string {
+  return q
+    .toLowerCase()
+    .replace(/\b(veg|vegan|vegetarian|vegansk|vegetarisk|halal|kosher|satvik|satvic|gluten[-\s]?free|lactose[-\s]?free|dairy[-\s]?free|nut[-\s]?free|vegane|vegetarisch|glutenfrei|laktosefrei|gluteeniton|laktoositon|vegaaninen|vegaani|kasvis)\b/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Routing Helpers for Explicit Scoped Search
+ */
+export function isPlaceInfoQuery(q: string) {
+  return /\b(address|phone|website|hours|opening|open now|directions|location)\b/i.test(q);
+}
+
+export function isAvailabilityOrMenuQuery(q: string) {
+  // Removed 'menu', 'list' to let Planner handle SHOW_MENU
+  return /\b(do they have|does .* have|have you got|serve|serves|items|dishes|options|veg|vegetarian|vegan|halal|gluten|allergy)\b/i.test(q);
+}
+
+export function isNameOnly(query: string, restaurantName?: string | null) {
+  if (!restaurantName) return false;
+  return slugify(query) === slugify(restaurantName);
+}
+
+/**
+ * Resolve tag IDs from intent terms using tag_aliases and tags table
+ */
+export async function resolveTagIdsFromIntentTerms(
+  terms: string[],
+  catalog: CatalogRepository
+): Promise<{ tagIds: string[]; resolvedTerms: Array<{ term: string; type: string; slug: string }> }> {
+  const tagIds: string[] = [];
+  const resolvedTerms: Array<{ term: string; type: string; slug: string }> = [];
+  const seenTagIds = new Set<string>();
+
+  const normalizedTerms = terms.map(term => {
+    const s = term.toLowerCase().trim();
+    if (["veg", "ve", "vego", "veggie", "vegetarian", "vegetarisk"].includes(s)) return "vegetarian";
+    if (["vegan", "vegansk", "plant-based"].includes(s)) return "vegan";
+    if (s === "gluten free" || s === "gluten-free") return "gluten-free";
+    if (s === "nut free" || s === "nut-free") return "nut-free";
+    if (s === "dairy free" || s === "dairy-free") return "dairy-free";
+    if (s === "lactose free" || s === "lactose-free") return "lactose-free";
+    return term;
+  });
+
+  for (const term of normalizedTerms) {
+    let resolved = false;
+
+    try {
+      let alias = await catalog.findTagAlias(term);
+      if (!alias && term.includes(" ")) {
+        alias = await catalog.findTagAlias(term.replace(/\s+/g, "-"));
+      } else if (!alias && term.includes("-")) {
+        alias = await catalog.findTagAlias(term.replace(/-/g, " "));
+      }
+
+      if (alias) {
+        try {
+          const [tag] = await catalog.findTags({ type: alias.tag_type, slug: alias.tag_slug, limit: 1 });
+          if (tag && !seenTagIds.has(tag.id)) {
+            tagIds.push(tag.id);
+            seenTagIds.add(tag.id);
+            resolvedTerms.push({ term, type: tag.type, slug: tag.slug });
+            resolved = true;
+          }
+        } catch { }
+      }
+    } catch { }
+
+    if (!resolved) {
+      const slug = slugify(term);
+      if (slug.length > 0) {
+        try {
+          const [tag] = await catalog.findTags({ slug, types: ["diet", "religious", "allergen"], limit: 1 });
+          if (tag && !seenTagIds.has(tag.id)) {
+            tagIds.push(tag.id);
+            seenTagIds.add(tag.id);
+            resolvedTerms.push({ term, type: tag.type, slug: tag.slug || slug });
+            resolved = true;
+          }
+        } catch {
+          const tagVariants = term.includes("-") ? [term, term.replace("-", " ")] : [term];
+          const [tag] = await catalog.findTags({ nameContains: tagVariants, types: ["diet", "religious", "allergen"], limit: 1 });
+          if (tag && !seenTagIds.has(tag.id)) {
+            tagIds.push(tag.id);
+            seenTagIds.add(tag.id);
+            resolvedTerms.push({ term, type: tag.type, slug: slugify(tag.name) });
+            resolved = true;
+          }
+        }
+      }
+    }
+  }
+
+  return { tagIds, resolvedTerms };
+}
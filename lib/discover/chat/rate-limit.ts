@@ -0,0 +1,93 @@
+/**
+ * Abuse protection for the discover chat route: per-IP and per-session token buckets
+ * (checked before any work, so a limited client gets a plain 429 even in streaming mode)
+ * and the daily LLM budget, past which a turn runs on the deterministic paths only.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import type { z } from "zod";
+import { t } from "@/lib/discover/i18n";
+import { pickReplyLang } from "@/lib/discover/multilingual";
+import { checkRateLimits, clientIpKey, consumeLLMBudget, getRateLimitStore, type RateLimitStore } from "@/lib/discover/rate-limit";
+import { pickClientChatState } from "@/lib/discover/session";
+import { buildSafeResponse } from "@/lib/discover/chat/safe-response";
+import { knownSessionId } from "@/lib/discover/chat/session";
+import { createDisabledProvider, type LLMProvider, type StructuredRequest } from "@/lib/llm";
+import type { DiscoverChatRequest, DiscoverChatResponse } from "@/lib/types/discover";
+
+/**
+ * 429 with a localized assistant message, a rateLimit field the page can render,
+ * and Retry-After; null when the request may proceed.
+ */
+export async function limitChatRequest(request: NextRequest): Promise<NextResponse | null> {
+  // Read a copy: the route still parses the original body
+  let body: Partial<DiscoverChatRequest> | null = null;
+  try {
+    body = await request.clone().json();
+  } catch {
+    // Malformed bodies are rejected by the route; limit them by IP all the same
+  }
+
+  const limited = await checkRateLimits({
+    ip: clientIpKey(request.headers),
+    sessionId: await knownSessionId(body?.sessionId),
+  });
+  if (!limited) return null;
+
+  const lastUser = [...(body?.messages ?? [])].reverse().find(m => m?.role === "user");
+  const lang = pickReplyLang({
+    preferredLang: body?.chatState?.preferred_language,
+    query: typeof lastUser?.content === "string" ? lastUser.content : "",
+  });
+
+  console.log("[discover][rate-limit] limited", limited);
+  const response: DiscoverChatResponse = {
+    ...buildSafeResponse(
+      {
+        role: "assistant",
+        kind: "answer",
+        content: t(lang, "RATE_LIMITED", { seconds: String(limited.retryAfterSeconds) }),
+        restaurants: [],
+        followupChips: [],
+      },
+      pickClientChatState(body?.chatState),
+      "rateLimited"
+    ),
+    rateLimit: limited,
+  };
+
+  return NextResponse.json(response, {
+    status: 429,
+    headers: { "Retry-After": String(limited.retryAfterSeconds) },
+  });
+}
+
+/**
+ * The provider for one turn. Today's LLM budget is charged on the turn's first provider call,
+ * so turns that make none (cached intent, sort chips, load more) cost nothing. Past the budget,
+ * that call and the rest of the turn run on a disabled provider (heuristic intent, fallback plan,
+ * untranslated replies) and onDegraded is called once.
+ */
+export function createBudgetedChatLLM(
+  llm: LLMProvider,
+  onDegraded: () => void,
+  store: RateLimitStore = getRateLimitStore()
+): LLMProvider {
+  let decision: Promise<LLMProvider> | null = null;
+  const resolve = () => (decision ??= consumeLLMBudget(store).then((allowed) => {
+    if (allowed) return llm;
+    onDegraded();
+    return createDisabledProvider(llm, "daily LLM budget exhausted");
+  }));
+
+  return {
+    kind: llm.kind,
+    chatModel: llm.chatModel,
+    embeddingModel: llm.embeddingModel,
+    embeddingDimensions: llm.embeddingDimensions,
+    complete: async (req) => (await resolve()).complete(req),
+    structured: async <S extends z.ZodType>(req: StructuredRequest<S>) => (await resolve()).structured(req),
+    embed: async (text) => (await resolve()).embed(text),
+    embedMany: async (texts) => (await resolve()).embedMany(texts),
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Action handler registry for the discover chat route.
+ * Every ActionType the planner can return maps to exactly one handler; adding an action
+ * to ACTION_TYPES without registering a handler here is a type error.
+ */
+
+import type { ActionType } from "@/lib/discover/planner";
+import type { ChatActionHandler } from "@/lib/discover/chat/context";
+import { handleClarify } from "@/lib/discover/chat/actions/clarify";
+import { handleExitRestaurant } from "@/lib/discover/chat/actions/exit-restaurant";
+import { handleDishExplain } from "@/lib/discover/chat/actions/explain";
+import { handleFollowup } from "@/lib/discover/chat/actions/followup";
+import { handleReshow } from "@/lib/discover/chat/actions/reshow";
+import { handleRestaurantLookup } from "@/lib/discover/chat/actions/restaurant-lookup";
+import { handleSearch } from "@/lib/discover/chat/actions/search";
+import { handleShowMenu } from "@/lib/discover/chat/actions/show-menu";
+
+export const ACTION_HANDLERS: Record<ActionType, ChatActionHandler> = {
+  FOLLOWUP: handleFollowup,
+  EXPLAIN: handleDishExplain,
+  SEARCH: (ctx) => handleSearch(ctx),
+  RESHOW: handleReshow,
+  CLARIFY: handleClarify,
+  EXIT_RESTAURANT: handleExitRestaurant,
+  SHOW_MENU: handleShowMenu,
+  RESTAURANT_LOOKUP: handleRestaurantLookup,
+};
+
+/** Unknown actions fall back to SEARCH, matching the planner's default */
+export function getActionHandler(action: string): ChatActionHandler {
+  return ACTION_HANDLERS[action as ActionType] ?? ACTION_HANDLERS.SEARCH;
+}
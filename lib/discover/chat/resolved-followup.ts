@@ -0,0 +1,569 @@
+/**
+ * Answers followups resolved deterministically from last_results before the planner runs:
+ * tag/attribute answers, dish clarification, translating the last explanation,
+ * pagination and "show more from <restaurant>".
+ */
+
+import { NextResponse } from "next/server";
+import { searchRestaurantsAndDishes, getPublicMenu } from "@/app/actions/discover";
+import { getCatalog } from "@/lib/catalog";
+import type { FollowupResolution } from "@/lib/discover/followup-resolver";
+import { truncateCards } from "@/lib/discover/result-truncation";
+import { translateIfNeeded } from "@/lib/discover/multilingual";
+import type {
+  RestaurantCard,
+  DishMatch,
+  Intent,
+  LastResultDish,
+  RestaurantCursor,
+} from "@/lib/types/discover";
+import type { ChatRequestContext } from "@/lib/discover/chat/context";
+import { finalize, buildSafeResponse } from "@/lib/discover/chat/safe-response";
+import { applyGeoFilter } from "@/lib/discover/chat/geo-search";
+import { applyOpeningHours, compareByOpenness } from "@/lib/discover/chat/opening-hours-filter";
+import { applyAvailability } from "@/lib/discover/chat/availability-filter";
+import { compareByAvailability } from "@/lib/discover/availability";
+
+/**
+ * Returns null when the followup should fall through to the planner
+ * (PASS/NOT_FOUND, or a restaurant that could not be resolved).
+ */
+export async function handleResolvedFollowup(
+  ctx: ChatRequestContext,
+  followup: FollowupResolution
+): Promise<NextResponse | null> {
+  const { intent, llm, trace, chatState: requestChatState } = ctx;
+
+  if (followup.type === "RESOLVED" && followup.answer) {
+    const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+    // Build restaurant card for the matched dish
+    const matchedCards: RestaurantCard[] = followup.matchedDish ? [{
+      id: followup.matchedDish.restaurant_id,
+      name: followup.matchedDish.restaurant_name,
+      city: null,
+      matches: [{
+        id: followup.matchedDish.dish_id,
+        name: followup.matchedDish.dish_name,
+        description: null,
+        price: followup.matchedDish.price ?? 0,
+        tags: (followup.matchedDish.tag_slugs || []).map(s => ({
+          id: s,
+          name: s,
+          slug: s,
+          type: 'diet' as const
+        }))
+      }]
+    }] : [];
+
+    console.log("[discover][followup-resolved]", {
+      dish: followup.matchedDish?.dish_name,
+      tagFound: followup.tagFound,
+      answer: followup.answer.substring(0, 50)
+    });
+
+    // Translate resolved answer
+    const translatedAnswer = await translateIfNeeded(llm, followup.answer, intent.language, trace);
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: translatedAnswer,
+        restaurants: finalize(matchedCards, requestChatState, intent),
+        followupChips: [],
+      },
+      {
+        ...requestChatState,
+        // Preserve last_results for further follow-ups
+      },
+      "handleFollowupResolved"
+    ));
+  }
+
+  if (followup.type === "CLARIFY" && followup.answer) {
+    const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+    // Build cards for all candidates
+    const candidateCards: RestaurantCard[] = (followup.candidates || []).map(c => ({
+      id: c.restaurant_id,
+      name: c.restaurant_name,
+      city: null,
+      matches: [{
+        id: c.dish_id,
+        name: c.dish_name,
+        description: null,
+        price: c.price ?? 0,
+        tags: (c.tag_slugs || []).map(s => ({
+          id: s,
+          name: s,
+          slug: s,
+          type: 'diet' as const
+        }))
+      }]
+    }));
+
+    console.log("[discover][followup-clarify]", {
+      candidateCount: followup.candidates?.length,
+      question: followup.answer
+    });
+
+    // Translate clarification
+    const translatedClarify = await translateIfNeeded(llm, followup.answer, intent.language, trace);
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: translatedClarify,
+        restaurants: finalize(candidateCards, requestChatState, intent),
+        followupChips: [],
+      },
+      requestChatState,
+      "handleFollowupClarify"
+    ));
+  }
+
+  // Handle TRANSLATE_LAST - translate previous explanation
+  if (followup.type === "TRANSLATE_LAST" && followup.targetLanguage) {
+    const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const lastExplain = requestChatState.last_explain;
+
+    if (!lastExplain?.text) {
+      // No previous explanation to translate
+      const noExplainMsg = await translateIfNeeded(llm, "I don't have a previous explanation to translate. Ask me about a specific dish first!", intent.language, trace);
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: noExplainMsg,
+          restaurants: [],
+          followupChips: [],
+        },
+        requestChatState,
+        "handleTranslate_NoExplain"
+      ));
+    }
+
+    // Translate the explanation
+    const langName = followup.targetLanguage === "en" ? "English" : "Swedish";
+    const translationPrompt = `Translate the following text to ${langName}. Do not add new facts. Keep dish names as-is. Keep any safety disclaimers.
+
+Text to translate:
+${lastExplain.text}`;
+
+    const completion = await llm.complete({
+      messages: [
+        { role: "system", content: "You are a translator. Translate accurately without adding information." },
+        { role: "user", content: translationPrompt },
+      ],
+      temperature: 0.2,
+    });
+
+    const translatedText = completion?.trim() || lastExplain.text;
+
+    console.log("[discover][translate]", {
+      from: lastExplain.language,
+      to: followup.targetLanguage,
+      originalLength: lastExplain.text.length,
+      translatedLength: translatedText.length
+    });
+
+    // Keep restaurants the same (no UI jump)
+    const existingRestaurants = requestChatState.grounded?.restaurants || [];
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: translatedText,
+        restaurants: existingRestaurants as RestaurantCard[],
+        followupChips: [],
+      },
+      {
+        ...requestChatState,
+        last_explain: {
+          ...lastExplain,
+          text: translatedText,
+          language: followup.targetLanguage
+        }
+      },
+      "handleTranslate_Success"
+    ));
+  }
+
+  // Handle PAGINATE - show more results using stored search params
+  if (followup.type === "PAGINATE") {
+    const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const lastSearchParams = requestChatState.last_search_params;
+    const nextOffset = requestChatState.next_offset;
+
+    if (!lastSearchParams || nextOffset === undefined) {
+      // No previous search to paginate
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: "I don't have more results to show. Try a new search!",
+          restaurants: [],
+          followupChips: [],
+        },
+        requestChatState,
+        "handlePaginate_NoParams"
+      ));
+    }
+
+    console.log("[discover][paginate]", {
+      offset: nextOffset,
+      params: lastSearchParams
+    });
+
+    // Re-run the search with the stored params (construct minimal Intent)
+    const paginateIntent: Intent = {
+      dietary: lastSearchParams.dietary || [],
+      dish_query: lastSearchParams.dishQuery || null,
+      city: lastSearchParams.city || null,
+      allergy: lastSearchParams.allergy || [],
+      ingredients: [],
+      price_max: null,
+      language: "en",
+      original_query: "show more",
+      is_vague: false
+    };
+
+    let allCards = await searchRestaurantsAndDishes(paginateIntent, { llm });
+
+    // Distance-filtered search: keep the same radius and nearest-first order on every page
+    if (lastSearchParams.geo && allCards) {
+      allCards = await applyGeoFilter(allCards, lastSearchParams.geo, getCatalog());
+    }
+
+    // Same opening-hours filter as the original search, plus open/closed badges
+    if (allCards) {
+      allCards = await applyOpeningHours(allCards, getCatalog(), lastSearchParams.openAt);
+    }
+
+    // Sold-out dishes: same policy as the original search, "Only available" toggle included
+    if (allCards) {
+      allCards = await applyAvailability(allCards, getCatalog(), { onlyAvailable: ctx.onlyAvailable });
+    }
+
+    if (!allCards || allCards.length === 0) {
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: "No more results available.",
+          restaurants: [],
+          followupChips: [],
+        },
+        requestChatState,
+        "handlePaginate_NoMore"
+      ));
+    }
+
+    // Sort and truncate with offset (geo results are already nearest first)
+    if (!lastSearchParams.geo) {
+      allCards.sort((a: RestaurantCard, b: RestaurantCard) =>
+        compareByAvailability(a, b) || (b.matches?.length ?? 0) - (a.matches?.length ?? 0) || compareByOpenness(a, b)
+      );
+    }
+
+    const { cards: truncatedCards, meta } = truncateCards(allCards, {
+      maxRestaurants: 8,
+      maxDishesPerRestaurant: 4,
+      offset: nextOffset
+    });
+
+    if (truncatedCards.length === 0) {
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: "That's all the results I have!",
+          restaurants: [],
+          followupChips: [],
+        },
+        {
+          ...requestChatState,
+          next_offset: undefined
+        },
+        "handlePaginate_End"
+      ));
+    }
+
+    // PATCH: Apply finalize to enforce focus isolation, vegan strictness, query tokens
+    const finalizedCards = finalize(truncatedCards, requestChatState, paginateIntent);
+
+    if (!finalizedCards || finalizedCards.length === 0) {
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: "That's all the results I have!",
+          restaurants: [],
+          followupChips: [],
+        },
+        {
+          ...requestChatState,
+          next_offset: undefined
+        },
+        "handlePaginate_End_AfterFinalize"
+      ));
+    }
+
+    // Build last_results from what user will actually see (finalized cards)
+    const lastResults: LastResultDish[] = finalizedCards.flatMap(r =>
+      (r.matches || []).map(m => ({
+        dish_id: m.id,
+        dish_name: m.name,
+        restaurant_id: r.id,
+        restaurant_name: r.name,
+        tag_slugs: (m.tags || []).map(t => t.slug),
+        price: m.price ?? null,
+        is_available: m.is_available
+      }))
+    );
+
+    return NextResponse.json(buildSafeResponse(
+      {
+        id: messageId,
+        role: "assistant",
+        content: `Here are more results:`,
+        restaurants: finalizedCards,
+        followupChips: [],
+      },
+      {
+        ...requestChatState,
+        last_results: lastResults,
+        next_offset: meta.next_offset,
+        last_search_params: {
+          ...lastSearchParams,
+          offset: meta.next_offset ?? nextOffset
+        }
+      },
+      "handlePaginate_Success",
+      null,
+      meta
+    ));
+  }
+
+  // Handle SHOW_MORE_RESTAURANT - show more dishes from a specific restaurant
+  // Handle SHOW_MORE_RESTAURANT - show more dishes from a specific restaurant
+  if (followup.type === "SHOW_MORE_RESTAURANT") {
+    const messageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    let restaurantId = followup.matchedRestaurantId;
+    const restaurantNameQuery = followup.matchedRestaurantName || "the restaurant";
+
+    // If we have a name but no ID (e.g. fresh "pull menu" query), look it up
+    if (!restaurantId && restaurantNameQuery && restaurantNameQuery.length > 2) {
+      try {
+        // Fuzzy search by name first, then exact
+        const [restaurant] = await getCatalog().findRestaurants({ name: restaurantNameQuery, limit: 1 });
+
+        if (restaurant) {
+          console.log("[discover][show-more] Resolved restaurant from DB:", restaurant);
+          restaurantId = restaurant.id;
+        }
+      } catch (e) {
+        console.error("[discover][show-more] Error resolving restaurant name:", e);
+      }
+    }
+
+    if (!restaurantId) {
+      // Fallback to normal planner flow if we can't identify the restaurant
+      console.log("[discover][show-more] Could not resolve restaurant ID, falling back to planner");
+    } else {
+      const restaurantName = followup.matchedRestaurantName || "the restaurant";
+      const lastSearchParams = requestChatState.last_search_params;
+      const restaurantCursors = requestChatState.restaurant_cursors || [];
+
+      // Find cursor for this restaurant
+      const cursor = restaurantCursors.find(c => c.restaurant_id === restaurantId);
+      const nextOffset = cursor?.next_offset ?? 0;
+
+      if (cursor && cursor.next_offset === undefined) {
+        // No more dishes for this restaurant
+        return NextResponse.json(buildSafeResponse(
+          {
+            id: messageId,
+            role: "assistant",
+            content: `I've already shown all dishes from ${restaurantName}.`,
+            restaurants: [],
+            followupChips: [],
+          },
+          requestChatState,
+          "handleShowMoreRestaurant_NoMore"
+        ));
+      }
+
+      console.log("[discover][show-more-restaurant]", {
+        restaurantId,
+        restaurantName,
+        nextOffset,
+        params: lastSearchParams
+      });
+
+      // Get the FULL menu for this restaurant (all dishes)
+      const menuPayload = await getPublicMenu(restaurantId);
+
+      if (!menuPayload || menuPayload.sections.length === 0) {
+        return NextResponse.json(buildSafeResponse(
+          {
+            id: messageId,
+            role: "assistant",
+            content: `No menu found for ${restaurantName}.`,
+            restaurants: [],
+            followupChips: [],
+          },
+          requestChatState,
+          "handleShowMoreRestaurant_NoMenu"
+        ));
+      }
+
+      // Flatten all dishes from all sections
+      const allMenuDishes: DishMatch[] = menuPayload.sections.flatMap(section =>
+        section.items.map(item => ({
+          id: item.id,
+          name: item.name,
+          description: item.description || null,
+          price: item.price ?? 0,
+          price_money: item.price_money ?? undefined,
+          tags: item.tags || [],
+          section_name: section.name,
+          is_available: item.is_available,
+          is_orderable: item.is_orderable,
+          modifiers: item.modifiers
+        }))
+      );
+
+      // FIX 0: Only apply dietary filters for PAGINATION (nextOffset > 0), not fresh menu requests
+      // Fresh "show menu of X" should show ALL dishes
+      // Pagination "show more from X" should respect original search filters
+      const isFreshMenuRequest = nextOffset === 0;
+      const dietaryFilters = isFreshMenuRequest ? [] : (lastSearchParams?.dietary || []);
+      let filteredDishes = allMenuDishes;
+
+      if (dietaryFilters.length > 0) {
+        filteredDishes = allMenuDishes.filter(dish => {
+          const dishTags = (dish.tags || []).map(t => t.slug.toLowerCase());
+          // Check if dish has any of the dietary tags
+          return dietaryFilters.some(diet => {
+            const dietLower = diet.toLowerCase();
+            return dishTags.some((tag: string) =>
+              tag.includes(dietLower) ||
+              (dietLower === "veg" && (tag.includes("vegetarian") || tag.includes("vegan"))) ||
+              (dietLower === "vegetarian" && tag.includes("vegetarian")) ||
+              (dietLower === "vegan" && tag.includes("vegan")) ||
+              (dietLower === "halal" && tag.includes("halal"))
+            );
+          });
+        });
+      }
+
+      console.log("[discover][show-more-restaurant] Dish filtering", {
+        allDishesCount: allMenuDishes.length,
+        filteredCount: filteredDishes.length,
+        dietaryFilters,
+        isFreshMenuRequest
+      });
+
+      if (filteredDishes.length === 0) {
+        return NextResponse.json(buildSafeResponse(
+          {
+            id: messageId,
+            role: "assistant",
+            content: `No ${dietaryFilters.join("/")} dishes found at ${restaurantName}.`,
+            restaurants: [],
+            followupChips: [],
+          },
+          requestChatState,
+          "handleShowMoreRestaurant_Empty"
+        ));
+      }
+
+      // Get dishes starting from next offset (10 per page for expanded view)
+      const dishesToShow = filteredDishes.slice(nextOffset, nextOffset + 10);
+      const hasMoreDishes = nextOffset + dishesToShow.length < filteredDishes.length;
+      const newNextOffset = hasMoreDishes ? nextOffset + dishesToShow.length : undefined;
+
+      // Update the cursor for this restaurant
+      const updatedCursors: RestaurantCursor[] = restaurantCursors.filter(c => c.restaurant_id !== restaurantId);
+      updatedCursors.push({
+        restaurant_id: restaurantId,
+        restaurant_name: menuPayload.restaurantName,
+        shown_count: nextOffset + dishesToShow.length,
+        total_matches: filteredDishes.length,
+        next_offset: newNextOffset,
+      });
+
+      // Build last_results for follow-up grounding
+      const newLastResults: LastResultDish[] = dishesToShow.map((d: DishMatch) => ({
+        dish_id: d.id,
+        dish_name: d.name,
+        restaurant_id: restaurantId,
+        restaurant_name: menuPayload.restaurantName,
+        tag_slugs: (d.tags || []).map(t => t.slug),
+        price: d.price ?? null,
+        is_available: d.is_available
+      }));
+
+      // FIX 2: Only return patch for pagination (nextOffset > 0)
+      // Fresh menu requests (nextOffset = 0) should return a full message
+      if (nextOffset > 0) {
+        // PAGINATION: Return patch response to merge into existing card
+        return NextResponse.json({
+          type: "patch",
+          restaurantId: restaurantId,
+          restaurantName: menuPayload.restaurantName,
+          appendDishes: dishesToShow,
+          pagination: {
+            shown: nextOffset + dishesToShow.length,
+            total: filteredDishes.length,
+            next_offset: newNextOffset,
+          },
+          updatedLastResults: newLastResults,
+          chatState: {
+            ...requestChatState,
+            mode: "restaurant" as const,
+            currentRestaurantId: restaurantId,
+            currentRestaurantName: menuPayload.restaurantName,
+            last_results: newLastResults,
+            restaurant_cursors: updatedCursors,
+          },
+        });
+      }
+
+      // FRESH MENU REQUEST: Return InlineMenuCard UI (same as handleShowMenu)
+      const buildMenuUrl = (restId: string) => {
+        const baseUrl = typeof window !== "undefined"
+          ? window.location.origin
+          : (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000");
+        return `${baseUrl}/menu/${restId}`;
+      };
+
+      return NextResponse.json(buildSafeResponse(
+        {
+          id: messageId,
+          role: "assistant",
+          content: `Here's ${menuPayload.restaurantName}'s full menu.`,
+          menu: menuPayload,  // Triggers InlineMenuCard in frontend
+          menuUrl: buildMenuUrl(restaurantId),
+          restaurants: [],
+          followupChips: [],
+        },
+        {
+          ...requestChatState,
+          mode: "restaurant",
+          currentRestaurantId: restaurantId,
+          currentRestaurantName: menuPayload.restaurantName,
+          last_results: newLastResults,
+          restaurant_cursors: updatedCursors,
+        },
+        "handleShowMoreRestaurant_Success"
+      ));
+    }
+  }
+
+  return null;
+}
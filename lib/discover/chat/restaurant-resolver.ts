@@ -0,0 +1,116 @@
+/**
+ * Restaurant name resolution for SHOW_MENU (grounded match, then fuzzy DB match)
+ */
+
+import type { CatalogRepository } from "@/lib/catalog";
+import type { GroundedState } from "@/lib/types/discover";
+
+// ============================================
+// SHOW_MENU HELPER FUNCTIONS (Patch 0.9)
+// ============================================
+
+type RestaurantResolveResult = {
+  matched: { id: string; name: string } | null;
+  candidates: { id: string; name: string; score: number }[];
+};
+
+function normalizeForMatch(s: string): string {
+  return s.toLowerCase()
+    .replace(/[''`]/g, "") // Remove apostrophes
+    .replace(/[\s\-_]+/g, "") // Remove spaces, hyphens, underscores
+    .replace(/[^a-z0-9]/g, ""); // Remove non-alphanumeric
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  const matrix: number[][] = [];
+  for (let i = 0; i <= b.length; i++) matrix[i] = [i];
+  for (let j = 0; j <= a.length; j++) matrix[0][j] = j;
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      if (b.charAt(i - 1) === a.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1, // substitution
+          matrix[i][j - 1] + 1,     // insertion
+          matrix[i - 1][j] + 1      // deletion
+        );
+      }
+    }
+  }
+  return matrix[b.length][a.length];
+}
+
+export async function resolveRestaurantForMenu(
+  query: string,
+  intentRestaurantName: string | null,
+  grounded: GroundedState | null,
+  catalog: CatalogRepository
+): Promise<RestaurantResolveResult> {
+  const searchTerm = intentRestaurantName || query;
+  const normalizedSearch = normalizeForMatch(searchTerm);
+
+  console.log("[discover][show-menu][resolve]", { input: searchTerm, normalizedSearch });
+
+  // 1) Try grounded restaurants first (if any)
+  if (grounded?.restaurants?.length) {
+    for (const r of grounded.restaurants) {
+      if (normalizeForMatch(r.name) === normalizedSearch) {
+        console.log("[discover][show-menu][resolve]", { chosen: r.name, source: "exact-grounded" });
+        return { matched: { id: r.id, name: r.name }, candidates: [] };
+      }
+    }
+    // Fuzzy match on grounded
+    for (const r of grounded.restaurants) {
+      if (normalizeForMatch(r.name).includes(normalizedSearch) || normalizedSearch.includes(normalizeForMatch(r.name))) {
+        console.log("[discover][show-menu][resolve]", { chosen: r.name, source: "fuzzy-grounded" });
+        return { matched: { id: r.id, name: r.name }, candidates: [] };
+      }
+    }
+  }
+
+  // 2) Query database for fuzzy match
+  const dbRestaurants = await catalog.findRestaurants({ limit: 50 }).catch(error => {
+    console.log("[discover][show-menu][resolve] Restaurant lookup failed:", error instanceof Error ? error.message : error);
+    return [];
+  });
+
+  if (!dbRestaurants.length) {
+    return { matched: null, candidates: [] };
+  }
+
+  // Score candidates by string similarity
+  const scored = dbRestaurants.map(r => {
+    const normalizedName = normalizeForMatch(r.name);
+    let score = 0;
+
+    // Exact match
+    if (normalizedName === normalizedSearch) score = 100;
+    // Contains match
+    else if (normalizedName.includes(normalizedSearch)) score = 80;
+    else if (normalizedSearch.includes(normalizedName)) score = 70;
+    // Levenshtein similarity
+    else {
+      const distance = levenshteinDistance(normalizedSearch, normalizedName);
+      const maxLen = Math.max(normalizedSearch.length, normalizedName.length);
+      score = Math.max(0, 100 - (distance / maxLen) * 100);
+    }
+
+    return { id: r.id, name: r.name, score };
+  }).filter(r => r.score > 40)
+    .sort((a, b) => b.score - a.score);
+
+  const candidates = scored.slice(0, 3);
+
+  console.log("[discover][show-menu][resolve]", {
+    chosen: candidates[0]?.name ?? null,
+    candidates: candidates.map(c => ({ name: c.name, score: c.score }))
+  });
+
+  // Return best match if score is high enough
+  if (candidates.length > 0 && candidates[0].score >= 60) {
+    return { matched: { id: candidates[0].id, name: candidates[0].name }, candidates };
+  }
+
+  return { matched: null, candidates };
+}
@@ -0,0 +1,198 @@
+/**
+ * Response shaping for the discover chat route: result finalization, message shape
+ * enforcement and the chat state for focusing a restaurant
+ */
+
+import { finalizeResults } from "@/lib/discover/finalizeResults";
+import { isCurrencyCode, isMoney } from "@/lib/discover/money";
+import type {
+  DiscoverChatResponse,
+  ChatState,
+  ChatMessage,
+  RestaurantCard,
+  GroundedState,
+  Intent,
+  LastResultDish,
+  TruncationMeta,
+} from "@/lib/types/discover";
+
+/**
+ * Helper to finalize restaurant results using the standardized safety layer
+ * Applies: Focus isolation, query token enforcement, vegan strictness
+ */
+export function finalize(
+  cards: RestaurantCard[],
+  chatState: ChatState | Record<string, unknown> | null,
+  intent: Intent | Partial<Intent>
+): RestaurantCard[] {
+  // If no cards, nothing to finalize
+  if (!cards || cards.length === 0) return [];
+
+  const state = (chatState ?? {}) as Partial<ChatState>;
+  const mode = state.mode || "discovery";
+  const currentRestaurantId = state.currentRestaurantId;
+
+  return finalizeResults({
+    mode,
+    currentRestaurantId,
+    intent,
+    cards,
+  });
+}
+
+/**
+ * Strict chip enforcement rule:
+ * - kind="restaurant_profile" -> ["Ask about this restaurant"]
+ * - All other kinds -> []
+ */
+function getSafeChips(kind: string): string[] {
+  if (kind === "restaurant_profile") {
+    return ["Ask about this restaurant"];
+  }
+  return [];
+}
+
+/**
+ * Ensure message always has restaurants and followupChips arrays
+ * Guarantees API contract: every response has these fields
+ */
+function ensureMessageShape(message: Partial<ChatMessage>): ChatMessage {
+  const restaurants = Array.isArray(message.restaurants) ? message.restaurants : [];
+
+  // STRICT ENFORCEMENT: Chips are derived solely from message.kind
+  // Any passed followupChips are ignored to prevent inconsistent UI states
+  const kind = message.kind || "results"; // REQUIRED: Default to 'results'
+  const followupChips = getSafeChips(kind);
+
+  return {
+    id: message.id || `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    role: message.role || "assistant",
+    content: typeof message.content === "string" ? message.content : "",
+    kind,
+    restaurants,
+    followupChips,
+    // Preserve optional fields if present
+    ...(message.menu && { menu: message.menu }),
+    ...(message.menuUrl && { menuUrl: message.menuUrl }),
+  };
+}
+
+/**
+ * Build a safe response with shape logging
+ * Use this for ALL NextResponse.json returns
+ */
+export function buildSafeResponse(
+  message: Partial<ChatMessage>,
+  chatState: ChatState | Record<string, unknown>,
+  logContext?: string,
+  grounded?: GroundedState | null,
+  meta?: TruncationMeta
+): DiscoverChatResponse {
+  const safeMessage = ensureMessageShape(message);
+
+  // Defensive: Deduplicate restaurants by ID to prevent React key collision errors
+  if (safeMessage.restaurants && Array.isArray(safeMessage.restaurants)) {
+    const seenIds = new Set<string>();
+    safeMessage.restaurants = safeMessage.restaurants.filter(r => {
+      if (seenIds.has(r.id)) {
+        console.warn(`[buildSafeResponse] Duplicate restaurant ID dropped: ${r.id} (${r.name})`);
+        return false;
+      }
+      seenIds.add(r.id);
+      return true;
+    });
+  }
+
+  // Compute metrics for logging
+  const restaurantsCount = safeMessage.restaurants?.length ?? 0;
+  const matchesCount = (safeMessage.restaurants ?? []).reduce(
+    (sum, r) => sum + (r.matches?.length ?? 0), 0
+  );
+
+  console.log("[discover][shape]", {
+    context: logContext || "response",
+    restaurantsCount,
+    matchesCount,
+    hasRestaurantsField: Array.isArray(safeMessage.restaurants),
+    hasFollowupChipsField: Array.isArray(safeMessage.followupChips),
+    hasGrounded: !!grounded,
+    meta: meta ?? null,
+  });
+
+  return {
+    message: safeMessage,
+    chatState: chatState as ChatState,
+    grounded: grounded ?? null,
+    meta,
+  };
+}
+
+/**
+ * Helper to build focused chat state for consistent focus handling
+ * Used by RESTAURANT_LOOKUP and SHOW_MENU handlers
+ * @param restaurant - The restaurant to focus on
+ * @param existingState - Existing chat state to preserve prefs
+ * @param menuPreview - Optional menu preview items to populate last_results for followup context
+ */
+export function buildFocusedChatState(
+  restaurant: { id: string; name: string },
+  existingState?: ChatState | Record<string, unknown> | null,
+  menuPreview?: Array<{ id: string; name: string; description?: string | null; price?: number; tags?: Array<{ slug: string }>; is_available?: boolean }>
+): ChatState {
+  // Ensure we preserve existing preferences
+  const prefs = (existingState as ChatState)?.prefs || {};
+
+  // Build last_results from menuPreview for followup resolver context
+  const last_results: LastResultDish[] = (menuPreview || []).map(d => ({
+    dish_id: d.id,
+    dish_name: d.name,
+    restaurant_id: restaurant.id,
+    restaurant_name: restaurant.name,
+    tag_slugs: (d.tags || []).map(t => t.slug),
+    price: d.price ?? null,
+    description: d.description ?? null,
+    is_available: d.is_available,
+  }));
+
+  return {
+    mode: "restaurant",
+    currentRestaurantId: restaurant.id,
+    currentRestaurantName: restaurant.name,
+    prefs,
+    last_results: last_results.length > 0 ? last_results : undefined,
+  };
+}
+
+/**
+ * Normalize any restaurant data into canonical RestaurantCard[] format
+ * Prevents "cards not showing" when matches are under different keys
+ */
+export function normalizeRestaurantCards(input: unknown[]): RestaurantCard[] {
+  const arr = Array.isArray(input) ? input : [];
+  return arr.map((r: unknown) => {
+    const restaurant = r as Record<string, unknown>;
+    const matches = (restaurant.matches ?? restaurant.matching_dishes ?? restaurant.dishes ?? restaurant.items ?? []) as Array<Record<string, unknown>>;
+    return {
+      id: String(restaurant.id ?? ""),
+      name: String(restaurant.name ?? ""),
+      city: restaurant.city ? String(restaurant.city) : null,
+      address: restaurant.address ? String(restaurant.address) : null,
+      cuisine_type: restaurant.cuisine_type ? String(restaurant.cuisine_type) : null,
+      highlight: restaurant.highlight ? String(restaurant.highlight) : (matches?.[0]?.name ? String(matches[0].name) : null),
+      distance_km: typeof restaurant.distance_km === "number" ? restaurant.distance_km : null,
+      ...(isCurrencyCode(restaurant.currency) && { currency: restaurant.currency }),
+      matches: Array.isArray(matches) ? matches.map((d: Record<string, unknown>) => ({
+        id: String(d.id ?? ""),
+        name: String(d.name ?? ""),
+        description: d.description ? String(d.description) : null,
+        price: typeof d.price === "number" ? d.price : 0,
+        section_name: d.section_name ? String(d.section_name) : null,
+        tags: Array.isArray(d.tags) ? d.tags : undefined, // Preserve tags from RPC
+        ...(typeof d.is_available === "boolean" && { is_available: d.is_available }),
+        ...(typeof d.is_orderable === "boolean" && { is_orderable: d.is_orderable }),
+        ...(Array.isArray(d.modifiers) && { modifiers: d.modifiers }),
+        ...(isMoney(d.price_money) && { price_money: d.price_money }),
+      })) : [],
+    };
+  });
+}
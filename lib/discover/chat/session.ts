@@ -0,0 +1,102 @@
+/**
+ * Server-side session handling for the discover chat route.
+ * The request carries an opaque sessionId; ChatState is loaded from the session store,
+ * and whatever a handler returns is merged back and persisted after the turn.
+ */
+
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import {
+  applyClientChatState,
+  collectServedDishIds,
+  getSessionStore,
+  mergeServedDishIds,
+  pickClientChatState,
+  restrictToServedDishes,
+  type ChatSession,
+} from "@/lib/discover/session";
+import type { ChatState, DiscoverChatRequest, DiscoverChatResponse, PatchResponse } from "@/lib/types/discover";
+
+const SESSION_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type OpenChatSession = Omit<ChatSession, "expiresAt">;
+
+type ChatResponseBody = Partial<DiscoverChatResponse> & Partial<PatchResponse>;
+
+/**
+ * The request's sessionId when it names a stored session, else null. Ids the server never
+ * issued are not bucket keys: a fresh random id per request would get a fresh session bucket.
+ */
+export async function knownSessionId(raw: unknown): Promise<string | null> {
+  if (typeof raw !== "string" || !SESSION_ID_RE.test(raw)) return null;
+  try {
+    return (await getSessionStore().get(raw)) ? raw : null;
+  } catch (error) {
+    console.error("[discover][session] Lookup failed, limiting by IP only:", error);
+    return null;
+  }
+}
+
+/**
+ * Load the request's session, or start a new one (missing, malformed, expired, or store down).
+ * Only UI-owned fields are taken from the client's chatState, and restaurant mode only for a
+ * restaurant the session has shown; grounded results, last_results, cursors and prefs always
+ * come from the server.
+ */
+export async function openChatSession(body: Pick<DiscoverChatRequest, "sessionId" | "chatState">): Promise<OpenChatSession> {
+  const sessionId = body.sessionId && SESSION_ID_RE.test(body.sessionId) ? body.sessionId : null;
+
+  if (sessionId) {
+    try {
+      const stored = await getSessionStore().get(sessionId);
+      if (stored) {
+        return {
+          id: stored.id,
+          state: applyClientChatState(restrictToServedDishes(stored.state, stored.servedDishIds), body.chatState),
+          servedDishIds: stored.servedDishIds,
+        };
+      }
+      console.log("[discover][session] Unknown or expired session, starting fresh", { sessionId });
+    } catch (error) {
+      console.error("[discover][session] Load failed, starting fresh:", error);
+    }
+  }
+
+  // A new session has shown nothing yet, so it cannot start focused on a restaurant
+  return { id: randomUUID(), state: applyClientChatState(pickClientChatState(null), body.chatState), servedDishIds: [] };
+}
+
+/**
+ * Persist the state a handler returned and stamp the sessionId onto the response.
+ * Error responses are passed through untouched so a failed turn never clobbers the session.
+ */
+export async function commitChatSession(session: OpenChatSession, response: NextResponse): Promise<NextResponse> {
+  if (!response.ok) return response;
+
+  let body: ChatResponseBody;
+  try {
+    body = await response.clone().json();
+  } catch {
+    return response;
+  }
+
+  const servedDishIds = mergeServedDishIds(session.servedDishIds, collectServedDishIds(body));
+
+  // Same merge the page used to do client-side: fields a handler leaves out carry over
+  let nextState: ChatState = { ...session.state, ...body.chatState };
+  if (!body.chatState && body.updatedLastResults) {
+    nextState = { ...nextState, last_results: [...(nextState.last_results || []), ...body.updatedLastResults] };
+  }
+
+  try {
+    await getSessionStore().save({
+      id: session.id,
+      state: restrictToServedDishes(nextState, servedDishIds),
+      servedDishIds,
+    });
+  } catch (error) {
+    console.error("[discover][session] Save failed:", error);
+  }
+
+  return NextResponse.json({ ...body, sessionId: session.id }, { status: response.status });
+}
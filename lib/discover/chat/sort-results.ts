@@ -0,0 +1,48 @@
+/**
+ * SORT_RESULTS ui_action (sort chips) and bare "sort by price" messages: re-runs the last
+ * search in another order from the stored intent, without parsing the query again
+ */
+
+import { NextResponse } from "next/server";
+import type { SortOrder } from "@/lib/types/discover";
+import type { ChatRequestContext } from "@/lib/discover/chat/context";
+import type { Plan } from "@/lib/discover/planner";
+import { handleSearch } from "@/lib/discover/chat/actions/search";
+import { buildSafeResponse } from "@/lib/discover/chat/safe-response";
+import { t } from "@/lib/discover/i18n";
+
+// The stored intent already carries the search; the planner has nothing to add
+const SORT_PLAN: Plan = { action: "SEARCH", confidence: 1, reason: "sort", prefs_patch: null, dish_query: null, search: null };
+
+export async function handleSortResults(
+  ctx: Omit<ChatRequestContext, "query" | "intent">,
+  sort: SortOrder
+): Promise<NextResponse> {
+  const { chatState } = ctx;
+  const lastIntent = chatState.last_search_params?.intent;
+
+  console.log("[discover][sort-results]", { sort, hasLastSearch: !!lastIntent });
+
+  if (!lastIntent) {
+    const lang = chatState.preferred_language || chatState.prefs?.language || "en";
+    return NextResponse.json(buildSafeResponse(
+      {
+        role: "assistant",
+        kind: "answer",
+        content: t(lang, "NOTHING_TO_SORT"),
+        restaurants: [],
+        followupChips: [],
+      },
+      chatState,
+      "handleSortResults:noLastSearch"
+    ));
+  }
+
+  // The stored intent already has the profile as the search applied it (override included);
+  // merging the current profile again would bring back filters the override turned off
+  const intent = { ...lastIntent, sort };
+  return handleSearch(
+    { ...ctx, query: intent.original_query, intent, plan: SORT_PLAN, profile: null },
+    { skipRestaurantLookup: true }
+  );
+}
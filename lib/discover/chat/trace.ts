@@ -0,0 +1,39 @@
+/**
+ * Request tracing for the discover chat route: every request gets a trace whose id is
+ * returned as requestId (body) and x-request-id (header), logged as JSON and kept
+ * for the /discover/trace debug page. The finished trace also feeds the search query log.
+ */
+
+import { randomUUID } from "node:crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import { logChatQuery } from "@/lib/discover/analytics";
+import { clientRequestIdFrom, createTrace, recordTrace, type Trace } from "@/lib/discover/trace";
+
+export function startChatTrace(request: NextRequest): Trace {
+  const trace = createTrace({ name: "discover.chat", requestId: randomUUID() });
+  const clientRequestId = clientRequestIdFrom(request.headers);
+  if (clientRequestId) trace.set({ clientRequestId });
+  return trace;
+}
+
+/** Finish the trace and stamp its id onto the response */
+export async function finishChatTrace(trace: Trace, response: NextResponse): Promise<NextResponse> {
+  const record = trace.finish({ status: response.status });
+  recordTrace(record);
+
+  let body: Record<string, unknown>;
+  try {
+    body = await response.clone().json();
+  } catch {
+    response.headers.set("x-request-id", trace.requestId);
+    return response;
+  }
+  logChatQuery(record, body);
+
+  const stamped = NextResponse.json({ ...body, requestId: trace.requestId }, { status: response.status });
+  response.headers.forEach((value, key) => {
+    if (key !== "content-length" && key !== "content-type") stamped.headers.set(key, value);
+  });
+  stamped.headers.set("x-request-id", trace.requestId);
+  return stamped;
+}
@@ -1,9 +1,14 @@
+import { allergensFromIntent, screenDishes } from "@/lib/discover/allergens";
+import type { AllergenCheck } from "@/lib/types/discover";
+
 export type Mode = "discovery" | "restaurant" | "restaurant_profile";
 
 export type IntentLike = {
     dish_query?: string | null;
     dietary?: string[] | null;     // <-- our field
     diet_tags?: string[] | null;   // <-- accepted for compatibility
+    allergy?: string[] | null;     // allergens to avoid
+    hard_tags?: string[] | null;
 };
 
 export type DishMatchLike = {
@@ -12,6 +17,7 @@ export type DishMatchLike = {
     section_name?: string | null;
     tags?: any;
     tag_slugs?: string[] | null;
+    allergen_check?: AllergenCheck;
 };
 
 export type RestaurantCardLike = {
@@ -155,5 +161,18 @@ export function finalizeResults<T extends RestaurantCardLike>(args: {
             return true;
         });
 
+    // Rule 4: Allergen exclusion (drop tagged dishes, flag mentions, label untagged as unknown)
+    const avoided = allergensFromIntent(intent);
+    if (avoided.length > 0) {
+        out = out
+            .map(r => {
+                const before = (r.matches || []).length;
+                const { kept } = screenDishes(r.matches || [], avoided);
+                return { restaurant: { ...r, matches: kept }, emptied: before > 0 && kept.length === 0 };
+            })
+            .filter(x => !x.emptied)
+            .map(x => x.restaurant);
+    }
+
     return out;
 }
@@ -3,9 +3,16 @@
  * Enables Perplexity-style "is it halal?" questions about previously shown dishes
  */
 
-import type { Intent, LastResultDish } from "@/lib/types/discover";
-import { createClient } from "@/lib/supabase/server";
+import type { Intent, LastResultDish, ModifierGroup } from "@/lib/types/discover";
+import { getCatalog } from "@/lib/catalog";
 import { t } from "@/lib/discover/i18n";
+import {
+    describeModifierMatches,
+    detectModifierQuestion,
+    findModifierOptions,
+    modifierQuestionFor,
+    type ModifierQuestion,
+} from "@/lib/discover/modifiers";
 
 export type FollowupType = "RESOLVED" | "CLARIFY" | "NOT_FOUND" | "PASS" | "TRANSLATE_LAST" | "PAGINATE" | "SHOW_MORE_RESTAURANT";
 
@@ -187,23 +194,13 @@ type DishTagInfo = { slug: string; name: string; type: string };
 
 async function getDishTagsFromDB(dishId: string): Promise<DishTagInfo[]> {
     try {
-        const supabase = await createClient();
-
-        const { data, error } = await supabase
-            .from("dish_tags")
-            .select(`tags!inner(name, slug, type)`)
-            .eq("dish_id", dishId);
-
-        if (error || !data) {
-            console.log("[followup-resolver] DB lookup failed:", error);
-            return [];
-        }
+        const tags = (await getCatalog().getDishTags([dishId])).get(dishId) ?? [];
 
         // Extract full tag info
-        return data.map((row: any) => ({
-            slug: row.tags?.slug || '',
-            name: row.tags?.name || row.tags?.slug || '',
-            type: row.tags?.type || 'diet'
+        return tags.map(tag => ({
+            slug: tag.slug || '',
+            name: tag.name || tag.slug || '',
+            type: tag.type || 'diet'
         })).filter(t => t.slug);
     } catch (err) {
         console.error("[followup-resolver] Error fetching dish tags:", err);
@@ -211,6 +208,82 @@ async function getDishTagsFromDB(dishId: string): Promise<DishTagInfo[]> {
     }
 }
 
+/**
+ * Lookup modifier groups (with option tags) for dishes - empty map on error
+ */
+async function getDishModifiersFromDB(dishIds: string[]): Promise<Map<string, ModifierGroup[]>> {
+    try {
+        return await getCatalog().getDishModifiers(dishIds);
+    } catch (err) {
+        console.error("[followup-resolver] Error fetching dish modifiers:", err);
+        return new Map();
+    }
+}
+
+/**
+ * "Can I get it vegan?" / "is there a mild option?" - answered from the modifier options of the
+ * dish asked about, or of every dish shown when none is named
+ */
+async function resolveModifierQuestion(
+    query: string,
+    intent: Intent,
+    lastResults: LastResultDish[],
+    question: ModifierQuestion
+): Promise<FollowupResolution> {
+    const { matches, usedPronoun } = findDishReference(query, intent, lastResults);
+    const candidates = (matches.length > 0 && !usedPronoun ? matches : lastResults).slice(0, 10);
+    const lang = intent?.language || "en";
+
+    const modifiersByDish = await getDishModifiersFromDB(candidates.map(d => d.dish_id));
+    const found = candidates.flatMap(dish => {
+        const options = findModifierOptions(modifiersByDish.get(dish.dish_id) ?? [], question);
+        return options.length > 0 ? [{ dish, options }] : [];
+    });
+
+    console.log("[followup-resolver] Modifier question", {
+        term: question.term,
+        tagSlug: question.tagSlug,
+        candidates: candidates.length,
+        found: found.map(f => f.dish.dish_name)
+    });
+
+    if (candidates.length === 1) {
+        const dish = candidates[0];
+        const dishContext = `${dish.dish_name} at ${dish.restaurant_name}`;
+        const alreadyTagged = !!question.tagSlug && (dish.tag_slugs ?? []).includes(question.tagSlug);
+        const yes = alreadyTagged
+            ? `${dishContext} is already tagged "${question.tagSlug}" in our data.`
+            : found.length > 0
+                ? `${dishContext} can be made ${question.term}: choose ${describeModifierMatches(found[0].options)}.`
+                : null;
+        // A sold-out dish never gets a plain "yes"
+        const answer = !yes
+            ? `${t(lang, "NO_PREFIX")} I don't see a ${question.term} option for ${dishContext} in our data.`
+            : dish.is_available === false
+                ? `${t(lang, "SOLD_OUT_PREFIX")} ${yes} But it's sold out right now.`
+                : `${t(lang, "YES_PREFIX")} ${yes}`;
+        return { type: "RESOLVED", matchedDish: dish, answer, tagFound: !!yes };
+    }
+
+    if (found.length === 0) {
+        return {
+            type: "RESOLVED",
+            answer: `${t(lang, "NO_PREFIX")} None of these dishes list a ${question.term} option in our data.`,
+            tagFound: false
+        };
+    }
+
+    const list = found
+        .map(({ dish, options }) => `${dish.dish_name} at ${dish.restaurant_name}: choose ${describeModifierMatches(options)}`)
+        .join("; ");
+    return {
+        type: "RESOLVED",
+        matchedDish: found[0].dish,
+        answer: `${t(lang, "YES_PREFIX")} ${list}.`,
+        tagFound: true
+    };
+}
+
 /**
  * Normalize tag name for comparison
  */
@@ -269,6 +342,12 @@ export async function resolveFollowupFromLastResults(
         return { type: "TRANSLATE_LAST", targetLanguage };
     }
 
+    // PRIORITY 1.25: Dish option questions ("can I get it vegan?", "is there a mild option?")
+    const modifierQuestion = detectModifierQuestion(query);
+    if (modifierQuestion && lastResults.length > 0) {
+        return resolveModifierQuestion(query, intent, lastResults, modifierQuestion);
+    }
+
     // PRIORITY 1.5: Check for dish ATTRIBUTE questions (spicy, creamy, sweet)
     // These are NOT tag questions but need grounded answers from description/tags
     const ATTRIBUTE_PATTERNS = [
@@ -480,9 +559,23 @@ export async function resolveFollowupFromLastResults(
 
     // Build answer using localized strings
     const disclaimer = matchingTag?.type === 'allergen' ? ` ${t(lang, "TAGS_GUIDANCE_DISCLAIMER")}` : '';
-    const answer = hasTag
-        ? `${t(lang, "YES_PREFIX")} ${dishContext} is tagged "${matchingTag!.name}" in our data.${disclaimer}`
-        : `${t(lang, "NO_PREFIX")} ${dishContext} is not tagged "${tagName}" in our data.`;
+    // A sold-out dish never gets a plain "yes": they can't have it right now
+    const soldOut = hasTag && dish.is_available === false;
+
+    // Not tagged itself, but an option may be ("Vegan cheese" on the Margherita)
+    const optionQuestion = modifierQuestionFor(tagName);
+    const taggedOptions = !hasTag && optionQuestion.tagSlug
+        ? findModifierOptions((await getDishModifiersFromDB([dish.dish_id])).get(dish.dish_id) ?? [], optionQuestion)
+        : [];
+    const optionNote = taggedOptions.length > 0
+        ? ` It can be made ${optionQuestion.term}: choose ${describeModifierMatches(taggedOptions)}.`
+        : "";
+
+    const answer = soldOut
+        ? `${t(lang, "SOLD_OUT_PREFIX")} ${dishContext} is tagged "${matchingTag!.name}" in our data, but it's sold out right now.${disclaimer}`
+        : hasTag
+            ? `${t(lang, "YES_PREFIX")} ${dishContext} is tagged "${matchingTag!.name}" in our data.${disclaimer}`
+            : `${t(lang, "NO_PREFIX")} ${dishContext} is not tagged "${tagName}" in our data.${optionNote}`;
 
     return {
         type: "RESOLVED",
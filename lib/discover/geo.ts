@@ -0,0 +1,201 @@
+/**
+ * Location phrases and distance math for discover search ("near me", "within 2 km", "close to Centralstationen")
+ *
+ * Detection is deterministic so the same query always gets the same radius; resolving a
+ * landmark or the user's position happens server-side (lib/discover/chat/geo-search.ts).
+ */
+
+import type { GeoPoint } from "@/lib/types/discover";
+
+export const DEFAULT_NEAR_ME_RADIUS_KM = 3;
+export const DEFAULT_LANDMARK_RADIUS_KM = 1.5;
+export const MAX_RADIUS_KM = 50;
+
+export interface LocationIntent {
+    nearMe: boolean;
+    radiusKm: number | null;
+    landmark: string | null;
+}
+
+export interface Landmark {
+    name: string;
+    aliases: string[];
+    city: string;
+    point: GeoPoint;
+}
+
+// ============================================
+// PATTERNS
+// ============================================
+
+// Letter-aware boundaries (\b treats å/ä/ö as non-word characters)
+const START = "(?:^|[^\\p{L}])";
+const END = "(?![\\p{L}])";
+
+const NEAR_ME_PATTERN = new RegExp(
+    `${START}(near me|near here|nearby|close to me|close by|close to here|around me|around here|near my location|i närheten|här i närheten|nära mig|runt mig|nära här)${END}`,
+    "giu"
+);
+
+const UNIT = "(km|kilometers?|kilometres?|kilometer|m|meters?|metres?|meter)";
+const NUMBER = "(\\d+(?:[.,]\\d+)?)";
+
+// "within 2 km", "inom 500 m"
+const WITHIN_PATTERN = new RegExp(`${START}(?:within|inom|max|less than|mindre än)\\s+${NUMBER}\\s*${UNIT}${END}`, "giu");
+// "2 km from me", "500 m away", "1 km från mig"
+const AWAY_PATTERN = new RegExp(`${START}${NUMBER}\\s*${UNIT}\\s+(?:from me|from here|away|radius|från mig|härifrån|bort)${END}`, "giu");
+
+// "close to Centralstationen", "nära Liseberg", "within 1 km of Järntorget" - stops at "in <city>", "within", punctuation
+const RADIUS_OF = "(?:(?:within|inom)\\s+)?\\d+(?:[.,]\\d+)?\\s*(?:km|kilometers?|kilometres?|kilometer|m|meters?|metres?|meter)\\s+(?:of|from|från)";
+const LANDMARK_PATTERN = new RegExp(
+    `${START}(?:close to|near to|near|next to|nära|intill|i närheten av|vid|${RADIUS_OF})\\s+(?:the\\s+)?(\\p{L}[\\p{L}\\d'’.-]*(?:\\s+\\p{L}[\\p{L}\\d'’.-]*){0,3}?)(?=\\s+(?:in|i|within|inom|and|och|with|med)\\s|\\s*[,!?]|\\s*\\.?\\s*$)`,
+    "iu"
+);
+
+// Words after "near" that are not places
+const NOT_LANDMARKS = new Set(["me", "mig", "here", "här", "my location", "by", "to me", "you", "dig"]);
+
+function parseRadius(value: string, unit: string): number | null {
+    const n = Number(value.replace(",", "."));
+    if (!Number.isFinite(n) || n <= 0) return null;
+    const km = unit.toLowerCase().startsWith("k") ? n : n / 1000;
+    return Math.min(km, MAX_RADIUS_KM);
+}
+
+// ============================================
+// DETECTION
+// ============================================
+
+/**
+ * Location constraints in a free-text query. "near me" and a radius need the client's
+ * coordinates; a landmark is resolved against discover_landmarks.
+ */
+export function detectLocationIntent(query: string): LocationIntent {
+    const text = query || "";
+    const nearMe = new RegExp(NEAR_ME_PATTERN.source, "iu").test(text);
+
+    let radiusKm: number | null = null;
+    for (const pattern of [WITHIN_PATTERN, AWAY_PATTERN]) {
+        const match = new RegExp(pattern.source, "iu").exec(text);
+        if (match) {
+            radiusKm = parseRadius(match[1], match[2]);
+            if (radiusKm !== null) break;
+        }
+    }
+
+    let landmark: string | null = null;
+    const landmarkMatch = LANDMARK_PATTERN.exec(text.replace(NEAR_ME_PATTERN, " "));
+    if (landmarkMatch) {
+        const candidate = landmarkMatch[1].trim().replace(/[.]+$/, "");
+        if (candidate && !NOT_LANDMARKS.has(candidate.toLowerCase())) landmark = candidate;
+    }
+
+    return { nearMe, radiusKm, landmark };
+}
+
+/**
+ * Remove location phrases so they are not used as dish search text ("pizza near me" -> "pizza")
+ */
+export function stripLocationPhrases(text: string): string {
+    let out = (text || "").replace(NEAR_ME_PATTERN, " ");
+
+    // Landmark first: "within 1 km of Järntorget" goes as a whole
+    const landmarkMatch = LANDMARK_PATTERN.exec(out);
+    if (landmarkMatch && !NOT_LANDMARKS.has(landmarkMatch[1].trim().toLowerCase())) {
+        out = out.replace(landmarkMatch[0], " ");
+    }
+    return out
+        .replace(WITHIN_PATTERN, " ")
+        .replace(AWAY_PATTERN, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+export function hasLocationConstraint(intent: { near_me?: boolean; radius_km?: number | null; landmark?: string | null }): boolean {
+    return !!(intent.near_me || intent.radius_km || intent.landmark);
+}
+
+// ============================================
+// LANDMARKS
+// ============================================
+
+function normalizePlace(value: string): string {
+    return value.toLowerCase().replace(/^the\s+/, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Pick the landmark a name refers to. Several cities share names ("Centralstationen"):
+ * prefer the searched city, then the one nearest the user, then the first listed.
+ */
+export function matchLandmark(
+    name: string,
+    landmarks: Landmark[],
+    opts: { city?: string | null; near?: GeoPoint | null } = {}
+): Landmark | null {
+    const wanted = normalizePlace(name);
+    if (!wanted) return null;
+
+    const candidates = landmarks.filter(l =>
+        normalizePlace(l.name) === wanted || l.aliases.some(a => normalizePlace(a) === wanted)
+    );
+    if (candidates.length <= 1) return candidates[0] ?? null;
+
+    const city = opts.city?.toLowerCase().trim();
+    if (city) {
+        const inCity = candidates.find(l => l.city.toLowerCase() === city);
+        if (inCity) return inCity;
+    }
+
+    const near = opts.near;
+    if (near) {
+        return [...candidates].sort((a, b) => haversineKm(near, a.point) - haversineKm(near, b.point))[0];
+    }
+    return candidates[0];
+}
+
+// ============================================
+// DISTANCE
+// ============================================
+
+const EARTH_RADIUS_KM = 6371;
+
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(b.lat - a.lat);
+    const dLng = toRad(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function isValidGeoPoint(value: unknown): value is GeoPoint {
+    if (!value || typeof value !== "object") return false;
+    const { lat, lng } = value as Record<string, unknown>;
+    return typeof lat === "number" && typeof lng === "number" &&
+        Number.isFinite(lat) && Number.isFinite(lng) &&
+        Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+/**
+ * Attach distances and, when a radius is given, keep only cards inside it, nearest first.
+ * Without a radius the order is untouched (distances are informational).
+ */
+export function rankByDistance<T extends { id: string; distance_km?: number | null }>(
+    cards: T[],
+    distances: Map<string, number>,
+    radiusKm: number | null
+): T[] {
+    const withDistance = cards.map(card => {
+        const d = distances.get(card.id);
+        return { ...card, distance_km: d === undefined ? (card.distance_km ?? null) : Math.round(d * 100) / 100 };
+    });
+    if (radiusKm === null) return withDistance;
+
+    return withDistance
+        .filter(card => typeof card.distance_km === "number" && card.distance_km <= radiusKm)
+        .sort((a, b) => (a.distance_km as number) - (b.distance_km as number));
+}
+
+export function formatDistance(km: number): string {
+    if (km < 1) return `${Math.max(10, Math.round((km * 1000) / 10) * 10)} m`;
+    return `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+}
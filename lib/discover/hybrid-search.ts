@@ -3,14 +3,17 @@
  * 
  * Phase 1: Investor demo quality search
  * - Runs semantic (embeddings) and trigram (fuzzy) in parallel
- * - Query-aware weight selection
- * - Null-safe score merging
- * - Exact match boosting
+ * - Scores candidates with the deployment's ranking config (ranking.ts):
+ *   query-aware weights, null-safe merging, exact match boost, precision
+ *   demotion, optional distance and price-fit signals
  */
 
-import { SupabaseClient } from "@supabase/supabase-js";
-import OpenAI from "openai";
+import type { CatalogRepository } from "@/lib/catalog";
+import type { LLMProvider } from "@/lib/llm";
 import { generateEmbedding } from "@/lib/embeddings";
+import type { Money } from "@/lib/types/discover";
+import { convertMoney, money } from "./money";
+import { getRankingConfig, requiresPrecisionFiltering, scoreCandidate, type RankingConfig } from "./ranking";
 
 // ============================================
 // TYPES
@@ -21,12 +24,14 @@ export interface HybridCandidate {
     dish_name: string;
     dish_description: string | null;
     dish_price: number;
+    price: Money;                  // dish_price in the restaurant's currency
     restaurant_id: string;
     restaurant_name: string;
     restaurant_city: string | null;
     restaurant_address: string | null;
     section_name?: string | null;
     semanticScore: number | null;  // 0-1 or null if no embedding match
+    embeddingVersion: string | null; // Template that built the matched vector (null without a semantic match)
     trigramScore: number | null;   // 0-1 or null if no text match
     finalScore: number;            // Combined score
     source: 'semantic' | 'trigram' | 'both';
@@ -43,142 +48,20 @@ interface FlatSearchRow {
     dish_price: number;
     similarity_score: number;
     section_name?: string | null;
+    /** Embedding document template of the dish vector (semantic rows only, migration 0060) */
+    embedding_version?: string | null;
 }
 
 interface HybridSearchOptions {
     query: string;
     city?: string | null;
     dietaryTagIds?: string[];
-    supabase: SupabaseClient;
-    openai: OpenAI;
+    catalog: CatalogRepository;
+    llm: LLMProvider;
     limitPerSource?: number;  // Default 40
-}
-
-// ============================================
-// QUERY ANALYSIS (for weight selection)
-// ============================================
-
-/**
- * Analyze query to determine optimal semantic vs trigram weights
- * Returns { semanticWeight, trigramWeight } that sum to 1.0
- */
-function analyzeQueryForWeights(query: string): { semanticWeight: number; trigramWeight: number } {
-    const lower = query.toLowerCase();
-    const words = lower.split(/\s+/).filter(w => w.length > 0);
-
-    // Semantic-heavy indicators: vibe/mood queries
-    const semanticIndicators = [
-        "like", "similar", "something", "craving", "want", "mood",
-        "feeling", "recommend", "suggestion", "type of", "kind of",
-        "spicy", "creamy", "light", "heavy", "comfort", "healthy"
-    ];
-    const hasSemanticIndicator = semanticIndicators.some(ind => lower.includes(ind));
-
-    // Trigram-heavy indicators: short queries or likely dish names
-    const isShortQuery = words.length <= 3;
-
-    // Common dish name patterns (likely exact/near-exact match intent)
-    const dishPatterns = [
-        /chicken/i, /pizza/i, /burger/i, /curry/i, /naan/i, /rice/i,
-        /pasta/i, /salad/i, /soup/i, /steak/i, /fish/i, /lamb/i,
-        /vindaloo/i, /korma/i, /biryani/i, /masala/i, /tikka/i,
-        /margherita/i, /funghi/i, /prosciutto/i, /calzone/i
-    ];
-    const likelyDishName = dishPatterns.some(p => p.test(lower));
-
-    // Decision logic
-    if (hasSemanticIndicator) {
-        // Vibe query: semantic dominates
-        return { semanticWeight: 0.7, trigramWeight: 0.3 };
-    }
-
-    if (isShortQuery || likelyDishName) {
-        // Short or dish name: trigram dominates (handles typos better)
-        return { semanticWeight: 0.4, trigramWeight: 0.6 };
-    }
-
-    // Default balanced
-    return { semanticWeight: 0.55, trigramWeight: 0.45 };
-}
-
-// ============================================
-// EXACT MATCH BOOST
-// ============================================
-
-/**
- * Boost score if dish name contains query tokens (case-insensitive)
- * Returns bonus to add to finalScore (0 to 0.15)
- */
-function calculateExactMatchBoost(dishName: string, query: string): number {
-    const dishLower = dishName.toLowerCase();
-    const queryTokens = query.toLowerCase().split(/\s+/).filter(t => t.length >= 3);
-
-    if (queryTokens.length === 0) return 0;
-
-    // Count matching tokens
-    const matchingTokens = queryTokens.filter(token => dishLower.includes(token));
-    const matchRatio = matchingTokens.length / queryTokens.length;
-
-    // Full token match in name: bonus 0.15
-    // Partial match: proportional bonus
-    return Math.min(0.15, matchRatio * 0.15);
-}
-
-// ============================================
-// TOKEN PRECISION FILTER (Step 6: Dish Precision)
-// ============================================
-
-/**
- * Check if dish name contains ALL significant tokens from query
- * Used to filter out partial matches like "Chicken Korma" when searching for "butter chicken"
- * 
- * Returns { isFullMatch, matchRatio }
- */
-function checkTokenPrecision(dishName: string, query: string): { isFullMatch: boolean; matchRatio: number } {
-    const dishLower = dishName.toLowerCase();
-    const dishDescription = ""; // We only check name for precision
-    const combined = dishLower;
-
-    // Get significant tokens (3+ chars, excluding common words)
-    const stopWords = new Set(["the", "and", "with", "for", "from", "our"]);
-    const queryTokens = query.toLowerCase()
-        .split(/\s+/)
-        .filter(t => t.length >= 3 && !stopWords.has(t));
-
-    if (queryTokens.length === 0) {
-        return { isFullMatch: true, matchRatio: 1 };
-    }
-
-    // Count matching tokens
-    const matchingTokens = queryTokens.filter(token => combined.includes(token));
-    const matchRatio = matchingTokens.length / queryTokens.length;
-
-    // Full match = ALL tokens present
-    const isFullMatch = matchingTokens.length === queryTokens.length;
-
-    return { isFullMatch, matchRatio };
-}
-
-/**
- * Determine if query is specific enough to require precision filtering
- * Short, specific queries like "butter chicken" should be filtered
- * Vibe queries like "something spicy" should not
- */
-function requiresPrecisionFiltering(query: string): boolean {
-    const lower = query.toLowerCase();
-    const words = lower.split(/\s+/).filter(w => w.length > 0);
-
-    // Vibe/mood indicators - don't filter these
-    const vibeIndicators = [
-        "something", "anything", "like", "similar", "craving", "want",
-        "mood", "feeling", "recommend", "suggestion", "type of", "kind of"
-    ];
-    if (vibeIndicators.some(v => lower.includes(v))) {
-        return false;
-    }
-
-    // 2-4 word specific queries benefit from precision filtering
-    return words.length >= 2 && words.length <= 4;
+    ranking?: RankingConfig;  // Default: DISCOVER_RANKING_CONFIG or built-in defaults
+    budget?: Money | null;  // Enables the price-fit signal, converted into each dish's currency
+    distanceKmByRestaurant?: Map<string, number>;  // Enables the distance signal
 }
 
 // ============================================
@@ -189,13 +72,12 @@ function requiresPrecisionFiltering(query: string): boolean {
  * Translate query to Swedish tokens if detected as non-Swedish
  * Returns original query if already Swedish or ambiguous
  */
-async function translateQueryToSwedish(query: string, openai: OpenAI): Promise<string> {
+async function translateQueryToSwedish(query: string, llm: LLMProvider): Promise<string> {
     // Skip short queries or strictly numeric
     if (query.length < 3 || /^\d+$/.test(query)) return query;
 
     try {
-        const completion = await openai.chat.completions.create({
-            model: "gpt-4o-mini", // Use fast model
+        const completion = await llm.complete({
             messages: [
                 {
                     role: "system",
@@ -208,10 +90,10 @@ async function translateQueryToSwedish(query: string, openai: OpenAI): Promise<s
                 { role: "user", content: query }
             ],
             temperature: 0,
-            max_tokens: 10
+            maxTokens: 10
         });
 
-        const translation = completion.choices[0]?.message?.content?.trim();
+        const translation = completion?.trim();
 
         if (!translation || translation === "SAME" || translation.toLowerCase() === query.toLowerCase()) {
             return query;
@@ -226,50 +108,20 @@ async function translateQueryToSwedish(query: string, openai: OpenAI): Promise<s
 }
 
 // ============================================
-// NULL-SAFE SCORE MERGING
+// LOGGING HELPERS
 // ============================================
 
 /**
- * Merge semantic and trigram scores with null safety
- * If only one score exists, use it directly (don't penalize)
- * If both exist, use weighted average + exact match boost
+ * Semantic hits per embedding template version ("unversioned" for vectors from before 0060).
+ * More than one key means a template change is still being re-embedded.
  */
-function mergeScores(
-    semanticScore: number | null,
-    trigramScore: number | null,
-    weights: { semanticWeight: number; trigramWeight: number },
-    exactMatchBoost: number
-): { finalScore: number; source: 'semantic' | 'trigram' | 'both' } {
-    const hasSemantic = semanticScore !== null && semanticScore > 0;
-    const hasTrigram = trigramScore !== null && trigramScore > 0;
-
-    if (hasSemantic && hasTrigram) {
-        // Both sources: weighted merge + boost
-        const merged = (semanticScore! * weights.semanticWeight) + (trigramScore! * weights.trigramWeight);
-        return {
-            finalScore: Math.min(1.0, merged + exactMatchBoost),
-            source: 'both'
-        };
-    }
-
-    if (hasSemantic) {
-        // Only semantic: use it directly + boost
-        return {
-            finalScore: Math.min(1.0, semanticScore! + exactMatchBoost),
-            source: 'semantic'
-        };
-    }
-
-    if (hasTrigram) {
-        // Only trigram: use it directly + boost
-        return {
-            finalScore: Math.min(1.0, trigramScore! + exactMatchBoost),
-            source: 'trigram'
-        };
+function countEmbeddingVersions(rows: FlatSearchRow[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const row of rows) {
+        const version = row.embedding_version ?? "unversioned";
+        counts[version] = (counts[version] ?? 0) + 1;
     }
-
-    // Neither (shouldn't happen, but safety)
-    return { finalScore: 0, source: 'trigram' };
+    return counts;
 }
 
 // ============================================
@@ -277,27 +129,27 @@ function mergeScores(
 // ============================================
 
 export async function hybridSearchDishes(opts: HybridSearchOptions): Promise<HybridCandidate[]> {
-    const { query, city, dietaryTagIds, supabase, openai, limitPerSource = 40 } = opts;
+    const { query, city, dietaryTagIds, catalog, llm, limitPerSource = 40 } = opts;
+    const ranking = opts.ranking ?? getRankingConfig();
 
     if (!query || query.trim().length === 0) {
         return [];
     }
 
     const startTime = Date.now();
-    const weights = analyzeQueryForWeights(query);
 
     console.log("[hybrid-search] Starting parallel retrieval", {
         query,
         city,
         dietaryTagIds,
-        weights
+        precisionFiltering: requiresPrecisionFiltering(query, ranking)
     });
 
-    // Build common RPC params
-    const rpcParams = {
-        target_city: city || null,
-        dietary_tag_ids: dietaryTagIds && dietaryTagIds.length > 0 ? dietaryTagIds : null,
-        limit_count: limitPerSource
+    // Common search options
+    const searchOpts = {
+        city,
+        tagIds: dietaryTagIds,
+        limit: limitPerSource
     };
 
     // ============================================
@@ -308,17 +160,8 @@ export async function hybridSearchDishes(opts: HybridSearchOptions): Promise<Hyb
     // 1. Semantic Search (Concepts)
     const semanticPromise = (async (): Promise<FlatSearchRow[]> => {
         try {
-            const embedding = await generateEmbedding(query);
-            const { data, error } = await supabase.rpc("search_public_dishes_semantic", {
-                ...rpcParams,
-                query_embedding: embedding
-            });
-
-            if (error) {
-                console.warn("[hybrid-search] Semantic RPC error:", error);
-                return [];
-            }
-            return (data as FlatSearchRow[]) || [];
+            const embedding = await generateEmbedding(query, llm);
+            return await catalog.searchDishesSemantic(embedding, searchOpts);
         } catch (err) {
             console.warn("[hybrid-search] Semantic search failed:", err);
             return [];
@@ -329,7 +172,7 @@ export async function hybridSearchDishes(opts: HybridSearchOptions): Promise<Hyb
     const trigramPromise = (async (): Promise<FlatSearchRow[]> => {
         try {
             // Attempt translation parallel to semantic search
-            const translatedQuery = await translateQueryToSwedish(query, openai);
+            const translatedQuery = await translateQueryToSwedish(query, llm);
 
             const queriesToRun = [query];
             if (translatedQuery !== query) {
@@ -337,14 +180,7 @@ export async function hybridSearchDishes(opts: HybridSearchOptions): Promise<Hyb
             }
 
             // Run trigram searches in parallel
-            const searchPromises = queriesToRun.map(async (q) => {
-                const { data, error } = await supabase.rpc("search_public_dishes_fuzzy", {
-                    ...rpcParams,
-                    search_text: q
-                });
-                if (error) throw error;
-                return (data as FlatSearchRow[]) || [];
-            });
+            const searchPromises = queriesToRun.map(q => catalog.searchDishesFuzzy(q, searchOpts));
 
             const results = await Promise.all(searchPromises);
 
@@ -376,6 +212,7 @@ export async function hybridSearchDishes(opts: HybridSearchOptions): Promise<Hyb
     console.log("[hybrid-search] Retrieval complete", {
         semanticCount: semanticResults.length,
         trigramCount: trigramResults.length,
+        semanticVersions: countEmbeddingVersions(semanticResults),
         retrievalTimeMs: retrievalTime
     });
 
@@ -400,6 +237,17 @@ export async function hybridSearchDishes(opts: HybridSearchOptions): Promise<Hyb
         ...trigramResults.map(r => r.dish_id)
     ]);
 
+    // Dish prices are in the restaurant's currency (the search RPCs don't return it)
+    const currencyByRestaurant = new Map<string, string | null>();
+    try {
+        const restaurantIds = [...new Set([...semanticResults, ...trigramResults].map(r => r.restaurant_id))];
+        for (const restaurant of await catalog.getRestaurants(restaurantIds)) {
+            currencyByRestaurant.set(restaurant.id, restaurant.currency);
+        }
+    } catch (err) {
+        console.warn("[hybrid-search] Currency lookup failed, assuming SEK:", err);
+    }
+
     // Build merged candidates
     const candidates: HybridCandidate[] = [];
 
@@ -412,21 +260,35 @@ export async function hybridSearchDishes(opts: HybridSearchOptions): Promise<Hyb
 
         const semanticScore = semantic?.similarity_score ?? null;
         const trigramScore = trigram?.similarity_score ?? null;
-        const exactBoost = calculateExactMatchBoost(base.dish_name, query);
-
-        const { finalScore, source } = mergeScores(semanticScore, trigramScore, weights, exactBoost);
+        const price = money(base.dish_price, currencyByRestaurant.get(base.restaurant_id));
+
+        // Includes the precision demotion: "chicken korma" when searching "butter chicken"
+        const { finalScore, source } = scoreCandidate(
+            {
+                dishName: base.dish_name,
+                semanticScore,
+                trigramScore,
+                price: base.dish_price,
+                distanceKm: opts.distanceKmByRestaurant?.get(base.restaurant_id) ?? null,
+            },
+            query,
+            { budgetMax: opts.budget ? convertMoney(opts.budget, price.currency).amount : null },
+            ranking
+        );
 
         candidates.push({
             dish_id: base.dish_id,
             dish_name: base.dish_name,
             dish_description: base.dish_description,
             dish_price: base.dish_price,
+            price,
             restaurant_id: base.restaurant_id,
             restaurant_name: base.restaurant_name,
             restaurant_city: base.restaurant_city,
             restaurant_address: base.restaurant_address,
             section_name: base.section_name,
             semanticScore,
+            embeddingVersion: semantic?.embedding_version ?? null,
             trigramScore,
             finalScore,
             source
@@ -436,30 +298,6 @@ export async function hybridSearchDishes(opts: HybridSearchOptions): Promise<Hyb
     // Sort by finalScore descending
     candidates.sort((a, b) => b.finalScore - a.finalScore);
 
-    // ============================================
-    // PRECISION FILTERING (Step 6: Dish Precision)
-    // For specific queries like "butter chicken", demote partial matches
-    // ============================================
-    // New Strategy: Demote instead of Delete (Phase 4)
-    if (requiresPrecisionFiltering(query)) {
-        candidates.forEach(c => {
-            const { isFullMatch, matchRatio } = checkTokenPrecision(c.dish_name, query);
-
-            if (isFullMatch) {
-                // Keep high score (or slightly boost?)
-                // c.finalScore *= 1.0; 
-            } else if (matchRatio < 0.6) {
-                // Demote partial matches (e.g. "chicken korma" when searching "butter chicken")
-                // Penalty: 0.3x score
-                const originalScore = c.finalScore;
-                c.finalScore *= 0.3;
-                console.log(`[hybrid-search] Precision demotion: ${c.dish_name} (${originalScore.toFixed(3)} -> ${c.finalScore.toFixed(3)})`);
-            }
-        });
-
-        // Re-sort after score adjustments
-        candidates.sort((a, b) => b.finalScore - a.finalScore);
-    }
     // Log top results for debugging
     const totalTime = Date.now() - startTime;
     console.log("[hybrid-search] Merge complete", {
@@ -21,8 +21,17 @@ export function t(lang: SupportedLang, key: string, vars?: Record<string, string
             NO_RESULTS: "I couldn't find any matches for your search.",
             NO_TAGGED_FALLBACK: "I couldn't find any dishes tagged '{tag}'. Here are some popular restaurants to explore:",
             NO_MATCH_TRY_AGAIN: "I couldn't find any '{query}' that is {tag}. Try a different search?",
+            NEED_LOCATION: "To search near you I need your location. Tap 📍 next to the search box to share it, or tell me a city or a place (e.g. 'close to Centralstationen').",
+            UNKNOWN_PLACE: "I don't know where '{place}' is. Try a city or a well-known place, or tap 📍 to search near you.",
+            NOTHING_NEARBY: "I couldn't find any matching restaurants within {radius} of {place}. Try a larger distance, e.g. 'within 5 km'.",
+            NOTHING_OPEN: "None of the matching restaurants are open at the time you asked for, based on the opening hours they list. Try another time or drop the time filter.",
+            NOTHING_TO_SORT: "There are no results to sort yet. Search for a dish first, e.g. 'cheapest biryani'.",
+            YOUR_LOCATION: "you",
+            WITHIN_DISTANCE: "within {radius} of {place}",
             YES_PREFIX: "✅ Yes —",
             NO_PREFIX: "❌ No —",
+            SOLD_OUT_PREFIX: "⏸ Sold out —",
+            RATE_LIMITED: "You're sending messages faster than I can answer. Please wait {seconds} seconds and try again.",
         },
         sv: {
             NO_CONTEXT_FOLLOWUP: "Jag har inga tidigare resultat att utgå från. Vad letar du efter?",
@@ -36,8 +45,17 @@ export function t(lang: SupportedLang, key: string, vars?: Record<string, string
             NO_RESULTS: "Jag kunde inte hitta några träffar för din sökning.",
             NO_TAGGED_FALLBACK: "Jag kunde inte hitta några rätter taggade '{tag}'. Här är några populära restauranger:",
             NO_MATCH_TRY_AGAIN: "Jag kunde inte hitta några '{query}' som är {tag}. Prova en annan sökning?",
+            NEED_LOCATION: "För att söka nära dig behöver jag din position. Tryck på 📍 bredvid sökrutan för att dela den, eller ange en stad eller plats (t.ex. 'nära Centralstationen').",
+            UNKNOWN_PLACE: "Jag vet inte var '{place}' ligger. Prova en stad eller en känd plats, eller tryck på 📍 för att söka nära dig.",
+            NOTHING_NEARBY: "Jag hittade inga matchande restauranger inom {radius} från {place}. Prova ett större avstånd, t.ex. 'inom 5 km'.",
+            NOTHING_OPEN: "Ingen av de matchande restaurangerna har öppet vid den tid du frågade om, enligt deras angivna öppettider. Prova en annan tid eller ta bort tidsfiltret.",
+            NOTHING_TO_SORT: "Det finns inga resultat att sortera än. Sök efter en rätt först, t.ex. 'billigaste biryani'.",
+            YOUR_LOCATION: "dig",
+            WITHIN_DISTANCE: "inom {radius} från {place}",
             YES_PREFIX: "✅ Ja —",
             NO_PREFIX: "❌ Nej —",
+            SOLD_OUT_PREFIX: "⏸ Slutsåld —",
+            RATE_LIMITED: "Du skickar meddelanden snabbare än jag hinner svara. Vänta {seconds} sekunder och försök igen.",
         },
         hi: {
             NO_CONTEXT_FOLLOWUP: "मेरे पास पिछले परिणाम नहीं हैं। आप क्या खोज रहे हैं?",
@@ -51,8 +69,17 @@ export function t(lang: SupportedLang, key: string, vars?: Record<string, string
             NO_RESULTS: "मुझे आपकी खोज के लिए कोई परिणाम नहीं मिला।",
             NO_TAGGED_FALLBACK: "मुझे '{tag}' टैग वाले कोई व्यंजन नहीं मिले। यहाँ कुछ लोकप्रिय रेस्तराँ हैं:",
             NO_MATCH_TRY_AGAIN: "मुझे कोई '{query}' नहीं मिला जो {tag} हो। कोई और खोज आज़माएँ?",
+            NEED_LOCATION: "आपके पास खोजने के लिए मुझे आपकी लोकेशन चाहिए। शेयर करने के लिए सर्च बॉक्स के पास 📍 दबाएँ, या कोई शहर या जगह बताएँ।",
+            UNKNOWN_PLACE: "मुझे नहीं पता '{place}' कहाँ है। कोई शहर या प्रसिद्ध जगह आज़माएँ, या अपने पास खोजने के लिए 📍 दबाएँ।",
+            NOTHING_NEARBY: "{place} से {radius} के अंदर कोई मिलता-जुलता रेस्तराँ नहीं मिला। ज़्यादा दूरी आज़माएँ, जैसे 'within 5 km'।",
+            NOTHING_OPEN: "सूचीबद्ध खुलने के समय के अनुसार, मिलते-जुलते रेस्तराँ में से कोई भी आपके बताए समय पर खुला नहीं है। कोई और समय आज़माएँ या समय वाला फ़िल्टर हटा दें।",
+            NOTHING_TO_SORT: "अभी छाँटने के लिए कोई नतीजे नहीं हैं। पहले कोई डिश खोजें, जैसे 'cheapest biryani'।",
+            YOUR_LOCATION: "आप",
+            WITHIN_DISTANCE: "{place} से {radius} के अंदर",
             YES_PREFIX: "✅ हाँ —",
             NO_PREFIX: "❌ नहीं —",
+            SOLD_OUT_PREFIX: "⏸ अभी उपलब्ध नहीं —",
+            RATE_LIMITED: "आप मेरे जवाब देने से तेज़ संदेश भेज रहे हैं। कृपया {seconds} सेकंड रुककर फिर से कोशिश करें।",
         },
         pa: {
             NO_CONTEXT_FOLLOWUP: "ਮੇਰੇ ਕੋਲ ਪਿਛਲੇ ਨਤੀਜੇ ਨਹੀਂ ਹਨ। ਤੁਸੀਂ ਕੀ ਲੱਭ ਰਹੇ ਹੋ?",
@@ -66,8 +93,17 @@ export function t(lang: SupportedLang, key: string, vars?: Record<string, string
             NO_RESULTS: "ਮੈਨੂੰ ਤੁਹਾਡੀ ਖੋਜ ਲਈ ਕੋਈ ਨਤੀਜਾ ਨਹੀਂ ਮਿਲਿਆ।",
             NO_TAGGED_FALLBACK: "ਮੈਨੂੰ '{tag}' ਟੈਗ ਵਾਲੇ ਕੋਈ ਪਕਵਾਨ ਨਹੀਂ ਮਿਲੇ। ਇੱਥੇ ਕੁਝ ਪ੍ਰਸਿੱਧ ਰੈਸਟੋਰੈਂਟ ਹਨ:",
             NO_MATCH_TRY_AGAIN: "ਮੈਨੂੰ ਕੋਈ '{query}' ਨਹੀਂ ਮਿਲਿਆ ਜੋ {tag} ਹੋਵੇ। ਕੋਈ ਹੋਰ ਖੋਜ ਅਜ਼ਮਾਓ?",
+            NEED_LOCATION: "ਤੁਹਾਡੇ ਨੇੜੇ ਖੋਜਣ ਲਈ ਮੈਨੂੰ ਤੁਹਾਡੀ ਲੋਕੇਸ਼ਨ ਚਾਹੀਦੀ ਹੈ। ਸਾਂਝੀ ਕਰਨ ਲਈ ਸਰਚ ਬਾਕਸ ਦੇ ਕੋਲ 📍 ਦਬਾਓ, ਜਾਂ ਕੋਈ ਸ਼ਹਿਰ ਜਾਂ ਥਾਂ ਦੱਸੋ।",
+            UNKNOWN_PLACE: "ਮੈਨੂੰ ਨਹੀਂ ਪਤਾ '{place}' ਕਿੱਥੇ ਹੈ। ਕੋਈ ਸ਼ਹਿਰ ਜਾਂ ਮਸ਼ਹੂਰ ਥਾਂ ਅਜ਼ਮਾਓ, ਜਾਂ ਨੇੜੇ ਖੋਜਣ ਲਈ 📍 ਦਬਾਓ।",
+            NOTHING_NEARBY: "{place} ਤੋਂ {radius} ਦੇ ਅੰਦਰ ਕੋਈ ਮਿਲਦਾ ਰੈਸਟੋਰੈਂਟ ਨਹੀਂ ਮਿਲਿਆ। ਵੱਧ ਦੂਰੀ ਅਜ਼ਮਾਓ, ਜਿਵੇਂ 'within 5 km'।",
+            NOTHING_OPEN: "ਦਿੱਤੇ ਖੁੱਲ੍ਹਣ ਦੇ ਸਮੇਂ ਅਨੁਸਾਰ, ਮਿਲਦੇ ਰੈਸਟੋਰੈਂਟਾਂ ਵਿੱਚੋਂ ਕੋਈ ਵੀ ਤੁਹਾਡੇ ਦੱਸੇ ਸਮੇਂ 'ਤੇ ਖੁੱਲ੍ਹਾ ਨਹੀਂ ਹੈ। ਕੋਈ ਹੋਰ ਸਮਾਂ ਅਜ਼ਮਾਓ ਜਾਂ ਸਮੇਂ ਵਾਲਾ ਫ਼ਿਲਟਰ ਹਟਾਓ।",
+            NOTHING_TO_SORT: "ਅਜੇ ਛਾਂਟਣ ਲਈ ਕੋਈ ਨਤੀਜੇ ਨਹੀਂ ਹਨ। ਪਹਿਲਾਂ ਕੋਈ ਡਿਸ਼ ਖੋਜੋ, ਜਿਵੇਂ 'cheapest biryani'।",
+            YOUR_LOCATION: "ਤੁਹਾਡੇ",
+            WITHIN_DISTANCE: "{place} ਤੋਂ {radius} ਦੇ ਅੰਦਰ",
             YES_PREFIX: "✅ ਹਾਂ —",
             NO_PREFIX: "❌ ਨਹੀਂ —",
+            SOLD_OUT_PREFIX: "⏸ ਹੁਣੇ ਉਪਲਬਧ ਨਹੀਂ —",
+            RATE_LIMITED: "ਤੁਸੀਂ ਮੇਰੇ ਜਵਾਬ ਦੇਣ ਤੋਂ ਤੇਜ਼ ਸੁਨੇਹੇ ਭੇਜ ਰਹੇ ਹੋ। ਕਿਰਪਾ ਕਰਕੇ {seconds} ਸਕਿੰਟ ਰੁਕ ਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
         },
     };
 
@@ -0,0 +1,128 @@
+/**
+ * Dish modifiers for discover: the option groups offered with a dish ("Spice level",
+ * "Extras", migrations 0003/0004) and their option-level tags (migration 0012)
+ *
+ * "Can I get it vegan?" is answered from an option tagged vegan ("Vegan cheese"),
+ * "is there a mild option?" from an option named "Mild".
+ */
+
+import type { ModifierGroup, ModifierOption } from "@/lib/types/discover";
+
+export interface ModifierQuestion {
+    /** What was asked for, normalized: "vegan", "gluten-free", "mild" */
+    term: string;
+    /** Tag slug the term stands for ("veg" -> vegetarian), null for plain option names */
+    tagSlug: string | null;
+}
+
+export interface ModifierMatch {
+    group: ModifierGroup;
+    option: ModifierOption;
+}
+
+// Terms answered from option tags
+const TERM_TAGS: Record<string, string> = {
+    vegan: "vegan",
+    vegansk: "vegan",
+    veganskt: "vegan",
+    vegetarian: "vegetarian",
+    veg: "vegetarian",
+    vegetarisk: "vegetarian",
+    vegetariskt: "vegetarian",
+    pescetarian: "pescetarian",
+    "gluten-free": "gluten-free",
+    glutenfri: "gluten-free",
+    glutenfritt: "gluten-free",
+    halal: "halal",
+    kosher: "kosher",
+    jain: "jain",
+    satvik: "satvik",
+};
+
+// Terms answered from option names, with the names restaurants use for them
+const TERM_NAMES: Record<string, string[]> = {
+    mild: ["mild", "milt"],
+    milt: ["mild", "milt"],
+    medium: ["medium"],
+    spicy: ["spicy", "hot", "stark", "extra hot"],
+    hot: ["hot", "spicy", "stark"],
+    stark: ["stark", "hot", "spicy"],
+};
+
+const TERM = String.raw`([\p{L}-]+(?:\s+free)?)`;
+const DISH = String.raw`(?:it|this|that|one|the\s+[\p{L}\s()]+?)`;
+
+const QUESTION_PATTERNS: RegExp[] = [
+    // "can I get it vegan", "can we have the margherita gluten free", "could I order it mild"
+    new RegExp(String.raw`\b(?:can|could)\s+(?:i|we)\s+(?:get|have|order)\s+${DISH}\s+(?:made\s+|as\s+)?${TERM}\s*[?!.]*$`, "iu"),
+    // "can it be made vegan", "can the curry be mild"
+    new RegExp(String.raw`\b(?:can|could)\s+${DISH}\s+be\s+(?:made\s+)?${TERM}\s*[?!.]*$`, "iu"),
+    // "is there a mild option", "do they have a vegan version", "any gluten-free option"
+    new RegExp(String.raw`\b(?:is\s+there|do\s+(?:you|they)\s+have|any)\s+(?:an?\s+)?${TERM}\s+(?:option|version|choice|variant|alternative)\b`, "iu"),
+    // Swedish: "kan jag få den vegansk", "finns det ett milt alternativ"
+    new RegExp(String.raw`\bkan\s+(?:jag|vi)\s+få\s+(?:den|det)\s+${TERM}`, "iu"),
+    new RegExp(String.raw`\bfinns\s+det\s+(?:en|ett)\s+${TERM}\s+(?:alternativ|variant|version)\b`, "iu"),
+];
+
+function normalizeTerm(raw: string): string {
+    return raw.toLowerCase().trim().replace(/\s+free$/, "-free");
+}
+
+/** The term as a modifier question, whether it names a tag or an option */
+export function modifierQuestionFor(term: string): ModifierQuestion {
+    const normalized = normalizeTerm(term);
+    return { term: normalized, tagSlug: TERM_TAGS[normalized] ?? null };
+}
+
+/**
+ * "Can I get it vegan?" / "is there a mild option?" -> what was asked for. Only terms that
+ * are tags or known option names count, so "can I get it delivered" is not a modifier question.
+ */
+export function detectModifierQuestion(query: string): ModifierQuestion | null {
+    for (const pattern of QUESTION_PATTERNS) {
+        const match = query.match(pattern);
+        if (!match) continue;
+        const question = modifierQuestionFor(match[1]);
+        if (question.tagSlug || TERM_NAMES[question.term]) return question;
+    }
+    return null;
+}
+
+/** Available options that answer the question: tagged with its tag, or named like its term */
+export function findModifierOptions(groups: ModifierGroup[], question: ModifierQuestion): ModifierMatch[] {
+    const names = TERM_NAMES[question.term] ?? [question.term];
+    const matches: ModifierMatch[] = [];
+    for (const group of groups) {
+        for (const option of group.options) {
+            if (option.is_available === false) continue;
+            const optionName = option.name.toLowerCase();
+            const tagged = !!question.tagSlug && (option.tags ?? []).some(tag => tag.slug === question.tagSlug);
+            const named = names.some(name => new RegExp(`\\b${name}\\b`, "i").test(optionName));
+            if (tagged || named) matches.push({ group, option });
+        }
+    }
+    return matches;
+}
+
+/** "+15 kr"; empty for options at no extra cost */
+export function formatPriceAdjustment(amount: number): string {
+    if (!amount) return "";
+    return amount > 0 ? `+${amount} kr` : `−${Math.abs(amount)} kr`;
+}
+
+/** "Vegan cheese (+15 kr)" */
+export function formatModifierOption(option: ModifierOption): string {
+    const price = formatPriceAdjustment(option.price_adjustment);
+    return price ? `${option.name} (${price})` : option.name;
+}
+
+/** "Spice level: Mild, Medium, Hot"; sold-out options are left out */
+export function describeModifierGroup(group: ModifierGroup): string {
+    const options = group.options.filter(o => o.is_available !== false).map(formatModifierOption);
+    return `${group.name}: ${options.join(", ")}`;
+}
+
+/** "choose Vegan cheese (+15 kr) under Cheese" for each match */
+export function describeModifierMatches(matches: ModifierMatch[]): string {
+    return matches.map(({ group, option }) => `${formatModifierOption(option)} under ${group.name}`).join(" or ");
+}
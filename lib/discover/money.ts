@@ -0,0 +1,267 @@
+/**
+ * Prices and budgets across currencies: restaurants.currency (migration 0007) prices a
+ * restaurant's dishes; budgets ("under 15 euro", "max 120 kr", the saved profile's SEK budget)
+ * and price ranges ("over 100 kr", "between 10 and 15 euro") are converted into a dish's
+ * currency before comparing, with a static rate table
+ *
+ *   DISCOVER_FX_RATES="EUR=11.4,USD=10.6"   SEK per unit, overrides the built-in rates
+ *
+ * The menu and cart components only format and build Money here; conversions run on the server,
+ * where the env var is set.
+ */
+
+import type { CurrencyCode, Intent, Money } from "@/lib/types/discover";
+
+export type { CurrencyCode, Money };
+
+/** "over 100 kr" (min), "under 15 euro" (max), "between 100 and 150 kr" (both); same currency */
+export interface PriceRange {
+    min: Money | null;
+    max: Money | null;
+}
+
+/** SEK per unit of each currency */
+export type RateTable = Record<CurrencyCode, number>;
+
+/** The restaurants_currency_check list */
+export const CURRENCIES: CurrencyCode[] = ["SEK", "EUR", "USD", "GBP", "NOK", "DKK", "CHF", "CAD", "AUD", "JPY", "INR"];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "SEK";
+
+// Rough rates; close enough to filter by budget, not to charge anyone
+export const DEFAULT_RATES: RateTable = {
+    SEK: 1,
+    EUR: 11.4,
+    USD: 10.6,
+    GBP: 13.5,
+    NOK: 1.0,
+    DKK: 1.53,
+    CHF: 12.1,
+    CAD: 7.7,
+    AUD: 6.9,
+    JPY: 0.07,
+    INR: 0.125,
+};
+
+// Each currency in the locale that writes it the familiar way ("120 kr", "15 €", "$15")
+const LOCALES: Record<CurrencyCode, string> = {
+    SEK: "sv-SE",
+    EUR: "de-DE",
+    USD: "en-US",
+    GBP: "en-GB",
+    NOK: "nb-NO",
+    DKK: "da-DK",
+    CHF: "de-CH",
+    CAD: "en-CA",
+    AUD: "en-AU",
+    JPY: "ja-JP",
+    INR: "en-IN",
+};
+
+export function isCurrencyCode(raw: unknown): raw is CurrencyCode {
+    return typeof raw === "string" && (CURRENCIES as string[]).includes(raw);
+}
+
+export function isMoney(raw: unknown): raw is Money {
+    const value = raw as Partial<Money> | null;
+    return typeof value === "object" && value !== null && typeof value.amount === "number" && isCurrencyCode(value.currency);
+}
+
+/** restaurants.currency as a code; missing or unknown values are SEK, the column default */
+export function toCurrencyCode(raw: string | null | undefined): CurrencyCode {
+    const code = (raw || "").trim().toUpperCase();
+    return isCurrencyCode(code) ? code : DEFAULT_CURRENCY;
+}
+
+export function money(amount: number, currency: string | null | undefined = DEFAULT_CURRENCY): Money {
+    return { amount, currency: toCurrencyCode(currency) };
+}
+
+// Currencies without a minor unit; the rest are stored in hundredths (öre, cents)
+const ZERO_DECIMAL: CurrencyCode[] = ["JPY"];
+
+/** Integer amount in the currency's minor unit, as the orders tables store prices */
+export function toMinorUnits(value: Money): number {
+    return ZERO_DECIMAL.includes(value.currency) ? Math.round(value.amount) : Math.round(value.amount * 100);
+}
+
+export function fromMinorUnits(amount: number, currency: string | null | undefined): Money {
+    const value = money(amount, currency);
+    return ZERO_DECIMAL.includes(value.currency) ? value : { ...value, amount: amount / 100 };
+}
+
+/** The intent's price_max as Money (SEK unless the query named a currency) */
+export function intentBudget(intent: Pick<Intent, "price_max" | "price_currency">): Money | null {
+    if (!intent.price_max || intent.price_max <= 0) return null;
+    return money(intent.price_max, intent.price_currency);
+}
+
+/** price_min and price_max as Money; null when the intent has neither */
+export function intentPriceRange(intent: Pick<Intent, "price_min" | "price_max" | "price_currency">): PriceRange | null {
+    const min = intent.price_min && intent.price_min > 0 ? money(intent.price_min, intent.price_currency) : null;
+    const max = intentBudget(intent);
+    return min || max ? { min, max } : null;
+}
+
+// ============================================
+// RATES
+// ============================================
+
+/** "EUR=11.4,USD=10.6" on top of `base`; throws on unknown codes or non-positive rates */
+export function parseRateTable(raw: string | null | undefined, base: RateTable = DEFAULT_RATES): RateTable {
+    const rates = { ...base };
+    for (const entry of (raw || "").split(",").map(e => e.trim()).filter(Boolean)) {
+        const [code, value] = entry.split("=").map(part => part.trim());
+        const rate = Number(value);
+        if (!isCurrencyCode(code?.toUpperCase()) || !Number.isFinite(rate) || rate <= 0) {
+            throw new Error(`Invalid exchange rate "${entry}" (expected CODE=SEK per unit)`);
+        }
+        rates[code.toUpperCase() as CurrencyCode] = rate;
+    }
+    rates.SEK = 1;
+    return rates;
+}
+
+let cachedRates: RateTable | null = null;
+
+/** Parsed once per process; a broken DISCOVER_FX_RATES logs and falls back to the defaults */
+export function getRateTable(): RateTable {
+    if (!cachedRates) {
+        try {
+            cachedRates = parseRateTable(process.env.DISCOVER_FX_RATES);
+        } catch (error) {
+            console.error("[discover][money] invalid DISCOVER_FX_RATES, using defaults:", error);
+            cachedRates = DEFAULT_RATES;
+        }
+    }
+    return cachedRates;
+}
+
+/** Rounded to 2 decimals */
+export function convertMoney(value: Money, to: CurrencyCode, rates: RateTable = getRateTable()): Money {
+    if (value.currency === to) return value;
+    const amount = (value.amount * rates[value.currency]) / rates[to];
+    return { amount: Math.round(amount * 100) / 100, currency: to };
+}
+
+/**
+ * Budget check in the dish's currency. Unpriced dishes (0) are never over budget,
+ * matching the single-currency filter this replaces
+ */
+export function isWithinBudget(price: Money, budget: Money, rates: RateTable = getRateTable()): boolean {
+    if (!(price.amount > 0)) return true;
+    return price.amount <= convertMoney(budget, price.currency, rates).amount;
+}
+
+/** Range check in the dish's currency; unpriced dishes stay, like with a budget */
+export function isWithinPriceRange(price: Money, range: PriceRange, rates: RateTable = getRateTable()): boolean {
+    if (!(price.amount > 0)) return true;
+    if (range.max && !isWithinBudget(price, range.max, rates)) return false;
+    return !range.min || price.amount >= convertMoney(range.min, price.currency, rates).amount;
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+/** "120 kr", "14,50 €", "$15"; whole amounts without decimals. `locale` defaults to the currency's own */
+export function formatMoney(value: Money, locale: string = LOCALES[value.currency]): string {
+    const digits = Number.isInteger(value.amount) ? 0 : 2;
+    return new Intl.NumberFormat(locale, {
+        style: "currency",
+        currency: value.currency,
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+    }).format(value.amount);
+}
+
+// ============================================
+// BUDGET AND PRICE RANGE DETECTION
+// ============================================
+
+const CURRENCY_WORDS: Record<string, CurrencyCode> = {
+    "kr": "SEK", "kronor": "SEK", "krona": "SEK", "sek": "SEK", ":-": "SEK", "spänn": "SEK",
+    "€": "EUR", "eur": "EUR", "euro": "EUR", "euros": "EUR",
+    "$": "USD", "usd": "USD", "dollar": "USD", "dollars": "USD",
+    "£": "GBP", "gbp": "GBP", "pound": "GBP", "pounds": "GBP",
+    "nok": "NOK", "dkk": "DKK",
+    "chf": "CHF", "franc": "CHF", "francs": "CHF",
+    "cad": "CAD", "aud": "AUD",
+    "¥": "JPY", "yen": "JPY", "jpy": "JPY",
+    "₹": "INR", "inr": "INR", "rs": "INR", "rupee": "INR", "rupees": "INR",
+};
+
+const KEYWORD = String.raw`(?:under|below|less\s+than|cheaper\s+than|max(?:imum)?|at\s+most|up\s+to|no\s+more\s+than|budget(?:\s+of)?|högst|mindre\s+än|billigare\s+än|upp\s+till|inte\s+mer\s+än)`;
+const MIN_KEYWORD = String.raw`(?:over|above|more\s+than|at\s+least|min(?:imum)?|from|starting\s+at|minst|över|mer\s+än|från|lägst)`;
+const AMOUNT = String.raw`(\d+(?:[.,]\d{1,2})?)`;
+const SYMBOL = String.raw`([$€£¥₹])`;
+const UNIT = String.raw`(kronor|krona|kr|sek|:-|spänn|euros?|eur|€|dollars?|usd|\$|pounds?|gbp|£|nok|dkk|chf|francs?|cad|aud|yen|jpy|¥|rupees?|inr|rs|₹)`;
+const PRICE = String.raw`(?:${SYMBOL}\s*${AMOUNT}|${AMOUNT}\s*${UNIT})`;
+
+// "under 15 euro", "max 120 kr", "below $20", "högst 150:-". A currency is required: a bare
+// "under 20" is left to the intent parser, and "within 2 km" is not a price
+const BUDGET_PATTERN = new RegExp(String.raw`(?<![\p{L}])${KEYWORD}\s+${PRICE}(?![\p{L}])`, "iu");
+
+// "over 100 kr", "at least €10", "minst 100 kr"
+const MIN_PATTERN = new RegExp(String.raw`(?<![\p{L}])${MIN_KEYWORD}\s+${PRICE}(?![\p{L}])`, "iu");
+
+// "between 100 and 150 kr", "100-150 kr", "€10-15", "från 100 till 150 kr"; the currency may be on either end
+const RANGE_PATTERN = new RegExp(
+    String.raw`(?<![\p{L}\d.,])(?:(?:between|mellan|from|från)\s+)?${SYMBOL}?\s*${AMOUNT}\s*(?:-|–|to|and|till|och)\s*${SYMBOL}?\s*${AMOUNT}(?:\s*${UNIT})?(?![\p{L}\d])`,
+    "iu"
+);
+
+function toMoney(amountText: string, currencyText: string | undefined): Money | null {
+    const currency = currencyText ? CURRENCY_WORDS[currencyText.toLowerCase()] : undefined;
+    const amount = Number(amountText.replace(",", "."));
+    if (!currency || !(amount > 0)) return null;
+    return { amount, currency };
+}
+
+function matchPrice(match: RegExpMatchArray | null): Money | null {
+    if (!match) return null;
+    const [, symbol, symbolAmount, unitAmount, unit] = match;
+    return toMoney(symbolAmount ?? unitAmount, symbol ?? unit);
+}
+
+/** The budget a query states with a currency, or null */
+export function detectBudget(query: string): Money | null {
+    return matchPrice(query.match(BUDGET_PATTERN));
+}
+
+/**
+ * The price range a query states with a currency, or null. "Under" gives only a max, "over"
+ * only a min; a min in another currency than the max is converted into the max's
+ */
+export function detectPriceRange(query: string, rates: RateTable = getRateTable()): PriceRange | null {
+    const range = query.match(RANGE_PATTERN);
+    if (range) {
+        const [, lowSymbol, low, highSymbol, high, unit] = range;
+        const currency = lowSymbol ?? highSymbol ?? unit;
+        const min = toMoney(low, currency);
+        const max = toMoney(high, currency);
+        if (min && max && min.amount <= max.amount) return { min, max };
+    }
+
+    const max = detectBudget(query);
+    const min = matchPrice(query.match(MIN_PATTERN));
+    if (!min && !max) return null;
+    return { min: min && max ? convertMoney(min, max.currency, rates) : min, max };
+}
+
+/** "pizza under 15 euro" -> "pizza" */
+export function stripBudgetPhrases(text: string): string {
+    return text.replace(new RegExp(BUDGET_PATTERN.source, "giu"), " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * "curry between 100 and 150 kr" -> "curry"; also strips budget and minimum phrases.
+ * Only ranges with a currency are prices: "biryani for 2-3 people" keeps its numbers
+ */
+export function stripPriceRangePhrases(text: string): string {
+    const stripped = text
+        .replace(new RegExp(RANGE_PATTERN.source, "giu"), (match, lowSymbol, _low, highSymbol, _high, unit) =>
+            lowSymbol || highSymbol || unit ? " " : match)
+        .replace(new RegExp(MIN_PATTERN.source, "giu"), " ");
+    return stripBudgetPhrases(stripped);
+}
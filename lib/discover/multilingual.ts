@@ -3,8 +3,10 @@
  * Only called when the user's language is NOT in the supported dictionary set (en/sv/hi/pa)
  */
 
-import type OpenAI from "openai";
+import type { LLMProvider } from "@/lib/llm";
 import { isSupportedDictLang } from "./i18n";
+import { getDiscoverCaches } from "./cache";
+import type { Span } from "./trace";
 
 // ==========================================
 // PART A: Language Normalization & Priority
@@ -73,11 +75,11 @@ export function pickReplyLang(args: {
 /**
  * Translate a short string to the target language using LLM.
  * - Returns text as-is if language is in our dictionary set (en/sv/hi/pa)
- * - Otherwise, uses gpt-4o-mini to translate
+ * - Otherwise, uses the configured LLM provider to translate
  * - Preserves proper nouns in `keep` list (restaurant/dish names)
  */
 export async function maybeTranslateShort(
-    openai: OpenAI,
+    llm: LLMProvider,
     text: string,
     lang: string,
     keep: string[] = []
@@ -95,8 +97,7 @@ export async function maybeTranslateShort(
         : "";
 
     try {
-        const completion = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
+        const completion = await llm.complete({
             temperature: 0,
             messages: [
                 {
@@ -107,35 +108,36 @@ export async function maybeTranslateShort(
             ],
         });
 
-        return completion.choices[0]?.message?.content?.trim() || text;
+        return completion?.trim() || text;
     } catch (error) {
         console.error("[maybeTranslateShort] Translation failed, returning original:", error);
         return text;
     }
 }
 
-// In-memory cache for translated strings (reduces repeated API calls)
-const translationCache = new Map<string, string>();
-
 /**
  * Translate final response content to target language if not English.
- * Uses caching to avoid repeated translations during demos.
+ * Translations are cached (bounded LRU, see lib/discover/cache) to avoid repeated API calls.
+ * With a trace span, the translation is recorded as a "translate" child span.
  */
 export async function translateIfNeeded(
-    openai: OpenAI,
+    llm: LLMProvider,
     text: string,
-    lang: string | null | undefined
+    lang: string | null | undefined,
+    trace?: Span
 ): Promise<string> {
     if (!text) return text;
     if (!lang || lang === "en") return text;
 
     const L = lang.toLowerCase();
     const cacheKey = `${L}:${text}`;
+    const span = trace?.start("translate", { lang: L, chars: text.length });
 
     // Check cache first
-    const cached = translationCache.get(cacheKey);
+    const cached = getDiscoverCaches().translations.get(cacheKey);
     if (cached) {
         console.log("[translateIfNeeded] Cache hit for", L);
+        span?.end({ cacheHit: true });
         return cached;
     }
 
@@ -150,8 +152,7 @@ Translate the text to ${scriptName} while preserving:
 Keep it natural, friendly, and short.`;
 
     try {
-        const completion = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
+        const completion = await llm.complete({
             temperature: 0.2,
             messages: [
                 { role: "system", content: systemPrompt },
@@ -159,12 +160,14 @@ Keep it natural, friendly, and short.`;
             ],
         });
 
-        const translated = completion.choices[0]?.message?.content?.trim() || text;
-        translationCache.set(cacheKey, translated);
+        const translated = completion?.trim() || text;
+        getDiscoverCaches().translations.set(cacheKey, translated);
         console.log("[translateIfNeeded] Translated to", L, ":", translated.substring(0, 50) + "...");
+        span?.end({ cacheHit: false, translated: !!completion });
         return translated;
     } catch (error) {
         console.error("[translateIfNeeded] Translation failed:", error);
+        span?.fail(error);
         return text;
     }
 }
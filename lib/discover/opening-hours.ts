@@ -0,0 +1,573 @@
+/**
+ * Opening-hours schedule model and "open now / open at" evaluation for discover
+ *
+ * restaurants.opening_hours is free-form JSON: { "monday": "11:00-22:00" }, { "wed": "11-14, 17-23" },
+ * { "mon_fri": "11:00-22:00", "sat_sun": "10:00-23:00" }. Ranges may cross midnight ("18:00-02:00"),
+ * which counts towards the day they start on. restaurants.opening_hours_exceptions overrides single
+ * dates: { "2025-06-20": { "hours": "Closed", "note": "Midsommarafton" }, "12-24": "11:00-15:00" }
+ * (a "MM-DD" key repeats every year). parseSchedule turns both into a typed Schedule; times are
+ * evaluated in the restaurant's timezone.
+ */
+
+import type { OpenAtConstraint, OpeningHoursExceptions } from "@/lib/types/discover";
+
+export type { OpenAtConstraint, OpeningHoursExceptions };
+
+// ============================================
+// TYPES
+// ============================================
+
+export type OpeningHours = Record<string, string>;
+
+/** Minutes since the start of the opening day; `close` > 1440 for ranges past midnight */
+export interface TimeRange {
+    open: number;
+    close: number;
+}
+
+/** One day's entry: the text as listed and its ranges ([] = closed, null = unparseable) */
+export interface DayHours {
+    text: string;
+    ranges: TimeRange[] | null;
+}
+
+export interface HoursException extends DayHours {
+    note: string | null;
+}
+
+export interface Schedule {
+    weekly: Array<DayHours | null>; // Indexed by weekday (0 = Sunday); null = no entry
+    exceptions: Record<string, HoursException>; // "YYYY-MM-DD" or "MM-DD"
+}
+
+/** A calendar day in the restaurant's timezone; `date` is null when only the weekday is known */
+export interface LocalDay {
+    weekday: number;
+    date: string | null; // "YYYY-MM-DD"
+}
+
+/** Next time the restaurant opens or closes, relative to the local "today" */
+export interface ScheduleChange {
+    opens: boolean;
+    dayOffset: number; // 0 = today, 1 = tomorrow
+    weekday: number;
+    minutes: number; // Minutes since midnight on that day
+    inMinutes: number;
+}
+
+export interface OpenStatus {
+    isOpen: boolean;
+    todayHours: string | null;
+    note: string | null; // Exception note for today ("Midsommarafton")
+    nextChange: ScheduleChange | null; // null = no change within a week (always open / never opens)
+}
+
+export const DEFAULT_TIMEZONE = "Europe/Stockholm";
+export const CLOSING_SOON_MINUTES = 30;
+
+const DAY_MINUTES = 24 * 60;
+
+export const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+// ============================================
+// PARSING
+// ============================================
+
+const RANGE_RE = /(\d{1,2})(?:[:.](\d{2}))?\s*[-–—]\s*(\d{1,2})(?:[:.](\d{2}))?/g;
+
+function toMinutes(h: number, m: number): number | null {
+    if (h > 24 || m > 59 || (h === 24 && m > 0)) return null;
+    return h * 60 + m;
+}
+
+/**
+ * Parse one day's hours. Returns [] for "closed", null when the text has no usable range.
+ */
+export function parseDayHours(value: string | null | undefined): TimeRange[] | null {
+    if (typeof value !== "string") return null;
+    const text = value.trim().toLowerCase();
+    if (!text) return null;
+    if (/^(closed|stängt|stängd)$/.test(text)) return [];
+    if (/^(24h|24\/7|open 24 hours|dygnet runt)$/.test(text)) return [{ open: 0, close: DAY_MINUTES }];
+
+    const ranges: TimeRange[] = [];
+    for (const match of text.matchAll(RANGE_RE)) {
+        const open = toMinutes(Number(match[1]), Number(match[2] ?? 0));
+        let close = toMinutes(Number(match[3]), Number(match[4] ?? 0));
+        if (open === null || close === null) continue;
+        if (close <= open) close += DAY_MINUTES; // "18:00-02:00", "00:00-00:00"
+        ranges.push({ open, close });
+    }
+    return ranges.length > 0 ? ranges.sort((a, b) => a.open - b.open) : null;
+}
+
+const DAY_ALIASES: Record<string, number[]> = {
+    weekdays: [1, 2, 3, 4, 5],
+    weekday: [1, 2, 3, 4, 5],
+    vardagar: [1, 2, 3, 4, 5],
+    weekend: [0, 6],
+    weekends: [0, 6],
+    helg: [0, 6],
+    daily: [0, 1, 2, 3, 4, 5, 6],
+    everyday: [0, 1, 2, 3, 4, 5, 6],
+    every_day: [0, 1, 2, 3, 4, 5, 6],
+    all: [0, 1, 2, 3, 4, 5, 6],
+};
+
+function dayIndex(token: string): number | null {
+    const t = token.trim().toLowerCase();
+    if (t.length < 3) return null;
+    const i = WEEKDAYS.findIndex(d => d.startsWith(t));
+    return i >= 0 ? i : null;
+}
+
+/** Weekdays an opening_hours key covers: "monday", "mon", "mon_fri", "sat-sun", "weekdays" */
+function daysForKey(key: string): number[] {
+    const k = key.trim().toLowerCase();
+    if (DAY_ALIASES[k]) return DAY_ALIASES[k];
+
+    const single = dayIndex(k);
+    if (single !== null) return [single];
+
+    const [from, to] = k.split(/[_\-–]/);
+    const start = from ? dayIndex(from) : null;
+    const end = to ? dayIndex(to) : null;
+    if (start === null || end === null) return [];
+
+    const days: number[] = [];
+    for (let d = start; ; d = (d + 1) % 7) {
+        days.push(d);
+        if (d === end || days.length === 7) break;
+    }
+    return days;
+}
+
+/**
+ * The raw hours text for a weekday. Exact day keys win over ranges ("mon_fri") and aliases.
+ */
+export function getDayHours(openingHours: OpeningHours | null | undefined, weekday: number): string | null {
+    if (!openingHours) return null;
+    const name = WEEKDAYS[weekday];
+
+    const exact = openingHours[name] ?? openingHours[name.slice(0, 3)];
+    if (exact !== undefined) return exact;
+
+    for (const [key, value] of Object.entries(openingHours)) {
+        if (daysForKey(key).includes(weekday)) return value;
+    }
+    return null;
+}
+
+const EXCEPTION_KEY_RE = /^(\d{4}-)?\d{2}-\d{2}$/;
+
+/**
+ * Typed schedule from the stored JSON. Unusable exception entries are dropped; unparseable weekly
+ * text is kept (ranges: null) so it can still be shown.
+ */
+export function parseSchedule(
+    openingHours: OpeningHours | null | undefined,
+    exceptions?: OpeningHoursExceptions | null
+): Schedule {
+    const weekly = WEEKDAYS.map((_, weekday) => {
+        const text = getDayHours(openingHours, weekday);
+        return typeof text === "string" ? { text, ranges: parseDayHours(text) } : null;
+    });
+
+    const parsedExceptions: Record<string, HoursException> = {};
+    for (const [key, value] of Object.entries(exceptions || {})) {
+        if (!EXCEPTION_KEY_RE.test(key)) continue;
+        const text = typeof value === "string" ? value : value?.hours;
+        const ranges = parseDayHours(text);
+        if (typeof text !== "string" || ranges === null) continue;
+        const note = typeof value === "object" && value.note ? value.note : null;
+        parsedExceptions[key] = { text, ranges, note };
+    }
+
+    return { weekly, exceptions: parsedExceptions };
+}
+
+/** The entry that applies on a day: a dated exception, a yearly one, then the weekly hours */
+export function dayEntry(schedule: Schedule, day: LocalDay): DayHours | HoursException | null {
+    if (day.date) {
+        const exception = schedule.exceptions[day.date] ?? schedule.exceptions[day.date.slice(5)];
+        if (exception) return exception;
+    }
+    return schedule.weekly[day.weekday] ?? null;
+}
+
+/** Exceptions falling within `days` days from `from` (inclusive), in date order */
+export function upcomingExceptions(
+    schedule: Schedule,
+    from: LocalDay,
+    days: number
+): Array<{ day: LocalDay; exception: HoursException }> {
+    const upcoming: Array<{ day: LocalDay; exception: HoursException }> = [];
+    if (!from.date) return upcoming;
+    for (let offset = 0; offset < days; offset++) {
+        const day = shiftDay(from, offset);
+        const entry = dayEntry(schedule, day);
+        if (entry && "note" in entry) upcoming.push({ day, exception: entry });
+    }
+    return upcoming;
+}
+
+function rangesOn(schedule: Schedule, day: LocalDay): TimeRange[] {
+    return dayEntry(schedule, day)?.ranges ?? [];
+}
+
+export function hasParseableHours(schedule: Schedule | null | undefined): boolean {
+    if (!schedule) return false;
+    // Exceptions alone say nothing about ordinary days
+    return schedule.weekly.some(d => d?.ranges);
+}
+
+// ============================================
+// CALENDAR
+// ============================================
+
+/**
+ * Weekday, date and minutes-since-midnight of `now` in a timezone. Throws on an invalid timezone.
+ */
+export function localClock(now: Date, timezone: string | null): { weekday: number; date: string; minutes: number } {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone || DEFAULT_TIMEZONE,
+        weekday: "long",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false,
+    }).formatToParts(now);
+
+    const get = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+    const weekday = WEEKDAYS.indexOf(get("weekday").toLowerCase() as typeof WEEKDAYS[number]);
+    const hour = Number(get("hour")) % 24; // some runtimes print midnight as "24"
+    return {
+        weekday,
+        date: `${get("year")}-${get("month")}-${get("day")}`,
+        minutes: hour * 60 + Number(get("minute")),
+    };
+}
+
+export function shiftDay(day: LocalDay, offset: number): LocalDay {
+    const weekday = (((day.weekday + offset) % 7) + 7) % 7;
+    if (!day.date) return { weekday, date: null };
+    const [y, m, d] = day.date.split("-").map(Number);
+    return { weekday, date: new Date(Date.UTC(y, m - 1, d + offset)).toISOString().slice(0, 10) };
+}
+
+function toDay(day: LocalDay | number): LocalDay {
+    return typeof day === "number" ? { weekday: day, date: null } : day;
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/**
+ * Whether any opening range overlaps [from, to) on a day, including the previous day's
+ * ranges that run past midnight.
+ */
+export function isOpenDuring(schedule: Schedule, day: LocalDay | number, from: number, to: number): boolean {
+    const today = toDay(day);
+    if (rangesOn(schedule, today).some(r => r.open < to && r.close > from)) return true;
+
+    const yesterday = rangesOn(schedule, shiftDay(today, -1));
+    return yesterday.some(r => r.close - DAY_MINUTES > from && to > 0);
+}
+
+export function isOpenAt(schedule: Schedule, day: LocalDay | number, minutes: number): boolean {
+    return isOpenDuring(schedule, day, minutes, minutes + 1);
+}
+
+/**
+ * Open/closed state at `now` plus the next opening or closing time, looking a week ahead.
+ * Adjacent ranges ("18:00-02:00" followed by "02:00-04:00") count as one stretch.
+ * Null when the timezone is invalid.
+ */
+export function getOpenStatus(schedule: Schedule, timezone: string | null, now: Date = new Date()): OpenStatus | null {
+    let clock: { weekday: number; date: string; minutes: number };
+    try {
+        clock = localClock(now, timezone);
+    } catch {
+        return null;
+    }
+    const today: LocalDay = { weekday: clock.weekday, date: clock.date };
+
+    // Every range from yesterday to a week ahead, in minutes since today's midnight
+    const intervals: TimeRange[] = [];
+    for (let offset = -1; offset <= 7; offset++) {
+        for (const r of rangesOn(schedule, shiftDay(today, offset))) {
+            intervals.push({ open: offset * DAY_MINUTES + r.open, close: offset * DAY_MINUTES + r.close });
+        }
+    }
+    intervals.sort((a, b) => a.open - b.open);
+
+    const at = clock.minutes;
+    const isOpen = intervals.some(r => r.open <= at && at < r.close);
+
+    let nextChange: ScheduleChange | null = null;
+    if (isOpen) {
+        let end = at;
+        for (const r of intervals) {
+            if (r.open <= end && r.close > end) end = r.close;
+        }
+        if (end - at < 7 * DAY_MINUTES) nextChange = changeAt(today, end, at, false);
+    } else {
+        const next = intervals.find(r => r.open > at);
+        if (next) nextChange = changeAt(today, next.open, at, true);
+    }
+
+    const entry = dayEntry(schedule, today);
+    const closedToday = !entry || (entry.ranges !== null && entry.ranges.length === 0);
+    let todayHours = entry?.text ?? null;
+    if (closedToday) {
+        // Still open from yesterday's late shift: show those hours rather than "Closed today"
+        todayHours = isOpen ? (dayEntry(schedule, shiftDay(today, -1))?.text ?? null) : "Closed today";
+    }
+
+    return {
+        isOpen,
+        todayHours,
+        note: entry && "note" in entry ? entry.note : null,
+        nextChange,
+    };
+}
+
+function changeAt(today: LocalDay, absolute: number, now: number, opens: boolean): ScheduleChange {
+    const dayOffset = Math.floor(absolute / DAY_MINUTES);
+    return {
+        opens,
+        dayOffset,
+        weekday: shiftDay(today, dayOffset).weekday,
+        minutes: absolute - dayOffset * DAY_MINUTES,
+        inMinutes: absolute - now,
+    };
+}
+
+function formatClock(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function capitalize(word: string): string {
+    return `${word[0].toUpperCase()}${word.slice(1)}`;
+}
+
+/**
+ * Short English phrase for the next change: "Closes in 20 minutes", "Closes at 22:00",
+ * "Opens at 11:00 tomorrow", "Opens Friday at 11:00". Null when nothing is known.
+ */
+export function describeOpenStatus(status: OpenStatus | null): string | null {
+    if (!status) return null;
+    const change = status.nextChange;
+    if (!change) return status.isOpen ? "Open 24 hours" : null;
+
+    const soon = change.inMinutes <= 60;
+    const verb = change.opens ? "Opens" : "Closes";
+    if (soon) return `${verb} in ${change.inMinutes} minute${change.inMinutes === 1 ? "" : "s"}`;
+
+    const time = formatClock(change.minutes);
+    // A closing time just after midnight belongs to tonight, not "tomorrow"
+    if (change.dayOffset === 0 || (!change.opens && change.dayOffset === 1 && change.minutes < 6 * 60)) return `${verb} at ${time}`;
+    if (change.dayOffset === 1) return `${verb} at ${time} tomorrow`;
+    return `${verb} ${capitalize(WEEKDAYS[change.weekday])} at ${time}`;
+}
+
+/**
+ * Whether a restaurant satisfies an open-at constraint. Null when its hours are missing or
+ * unparseable (callers decide whether "unknown" passes).
+ */
+export function matchesOpenAt(
+    schedule: Schedule | null | undefined,
+    timezone: string | null,
+    constraint: OpenAtConstraint,
+    now: Date = new Date()
+): boolean | null {
+    if (!schedule || !hasParseableHours(schedule)) return null;
+
+    let clock: { weekday: number; date: string; minutes: number };
+    try {
+        clock = localClock(now, timezone);
+    } catch {
+        return null;
+    }
+    const today: LocalDay = { weekday: clock.weekday, date: clock.date };
+
+    if (constraint.now) return isOpenAt(schedule, today, clock.minutes);
+
+    const offset = constraint.weekday !== null ? (constraint.weekday - clock.weekday + 7) % 7 : constraint.dayOffset;
+    const day = shiftDay(today, offset);
+    // "open on Sunday": opens that day (a Saturday night running past midnight does not count)
+    if (constraint.minutes === null) return rangesOn(schedule, day).length > 0;
+    if (constraint.after) return isOpenDuring(schedule, day, constraint.minutes, DAY_MINUTES);
+    return isOpenAt(schedule, day, constraint.minutes);
+}
+
+// ============================================
+// QUERY PHRASES
+// ============================================
+
+const START = "(?:^|[^\\p{L}])";
+const END = "(?![\\p{L}])";
+
+const NOW_PATTERN = new RegExp(
+    `${START}(open now|open right now|opened now|currently open|still open|open at the moment|öppet nu|öppen nu|har öppet nu|öppet just nu)${END}`,
+    "giu"
+);
+const LATE_PATTERN = new RegExp(`${START}(open late|late night|late-night|öppet sent|sent på kvällen)${END}`, "giu");
+// No digit may follow the hour or minutes: "at 150 kr" is a price, not 15:00
+const TIME = "(\\d{1,2})(?:[:.](\\d{2}))?(?!\\d)\\s*(am|pm)?";
+const AFTER_PATTERN = new RegExp(`${START}(?:open\\s+|öppet\\s+)?(?:after|past|later than|efter)\\s+(?:kl\\.?\\s*|klockan\\s+)?${TIME}${END}`, "giu");
+// "kl 13" is always a clock time; "at 12" only with an open word, tonight, minutes or am/pm
+const KL_PATTERN = new RegExp(`${START}(?:open\\s+|öppet\\s+)?(?:kl\\.?|klockan)\\s*${TIME}${END}`, "giu");
+const AT_PATTERN = new RegExp(`${START}(?:open\\s+|öppet\\s+)?(?:at|around)\\s*${TIME}${END}`, "giu");
+
+const SV_DAYS = ["söndag", "måndag", "tisdag", "onsdag", "torsdag", "fredag", "lördag"];
+const DAY_WORDS = [...WEEKDAYS, ...SV_DAYS].join("|");
+const DAY_PATTERN = new RegExp(`${START}(?:(open|öppet|öppen)\\s+)?(on|på|this|next|i)?\\s*(${DAY_WORDS})(?:s|ar)?${END}`, "giu");
+const RELATIVE_DAY_PATTERN = new RegExp(`${START}(?:(open|öppet|öppen)\\s+)?(today|tonight|tomorrow|idag|i dag|ikväll|i kväll|imorgon|i morgon)${END}`, "giu");
+const OPEN_WORD = new RegExp(`${START}(open|opens|öppet|öppen|öppna)${END}`, "iu");
+const EVENING_WORD = new RegExp(`${START}(tonight|ikväll|i kväll)${END}`, "iu");
+
+interface TimeContext {
+    mentionsOpen: boolean;
+    evening: boolean;
+}
+
+function timeContext(text: string): TimeContext {
+    return { mentionsOpen: OPEN_WORD.test(text), evening: EVENING_WORD.test(text) };
+}
+
+/** "at 9" is a time only next to open/tonight, or when it reads as one (9:30, 9pm) */
+function atIsClockTime(minuteText: string | undefined, meridiem: string | undefined, context: TimeContext): boolean {
+    return context.mentionsOpen || context.evening || minuteText !== undefined || meridiem !== undefined;
+}
+
+/** In the evening ("tonight at 9") a bare 1-11 is pm */
+function clockMinutes(hourText: string, minuteText: string | undefined, meridiem: string | undefined, evening = false): number | null {
+    let hour = Number(hourText);
+    const minute = Number(minuteText ?? 0);
+    if (meridiem) {
+        const pm = meridiem.toLowerCase() === "pm";
+        if (hour < 1 || hour > 12) return null;
+        hour = (hour % 12) + (pm ? 12 : 0);
+    } else if (evening && hour >= 1 && hour < 12) {
+        hour += 12;
+    }
+    return toMinutes(hour, minute);
+}
+
+function firstMatch(pattern: RegExp, text: string): RegExpExecArray | null {
+    return new RegExp(pattern.source, "iu").exec(text);
+}
+
+interface OpenAtMatch {
+    constraint: OpenAtConstraint;
+    /** The phrases the constraint was read from, removed from dish text by stripTimePhrases */
+    phrases: RegExpExecArray[];
+}
+
+function matchOpenAt(query: string): OpenAtMatch | null {
+    const text = query || "";
+    const now = firstMatch(NOW_PATTERN, text);
+    if (now) {
+        return { constraint: { now: true, weekday: null, dayOffset: 0, minutes: null, after: false }, phrases: [now] };
+    }
+
+    const constraint: OpenAtConstraint = { now: false, weekday: null, dayOffset: 0, minutes: null, after: false };
+    const phrases: RegExpExecArray[] = [];
+    let found = false;
+    const context = timeContext(text);
+    const { mentionsOpen } = context;
+
+    const day = firstMatch(DAY_PATTERN, text);
+    if (day && (day[1] || day[2] || mentionsOpen)) {
+        const name = day[3].toLowerCase();
+        const en = WEEKDAYS.indexOf(name as typeof WEEKDAYS[number]);
+        constraint.weekday = en >= 0 ? en : SV_DAYS.indexOf(name);
+        phrases.push(day);
+        found = true;
+    }
+
+    const relative = firstMatch(RELATIVE_DAY_PATTERN, text);
+    if (relative && constraint.weekday === null) {
+        const word = relative[2].toLowerCase();
+        if (/tomorrow|morgon/.test(word)) constraint.dayOffset = 1;
+        if (/tonight|kväll/.test(word)) {
+            constraint.minutes = 18 * 60;
+            constraint.after = true;
+        }
+        phrases.push(relative);
+        found = found || !!relative[1] || mentionsOpen || constraint.dayOffset > 0 || constraint.after;
+    }
+
+    const after = firstMatch(AFTER_PATTERN, text);
+    const at = firstMatch(AT_PATTERN, text);
+    const late = firstMatch(LATE_PATTERN, text);
+    const time = after
+        ?? firstMatch(KL_PATTERN, text)
+        ?? (at && atIsClockTime(at[2], at[3], context) ? at : null);
+    if (time) {
+        const minutes = clockMinutes(time[1], time[2], time[3], context.evening);
+        if (minutes !== null) {
+            constraint.minutes = minutes;
+            constraint.after = !!after;
+            phrases.push(time);
+            found = true;
+        }
+    } else if (late) {
+        constraint.minutes = 22 * 60;
+        constraint.after = true;
+        phrases.push(late);
+        found = true;
+    }
+
+    if (!found) return null;
+    // "open" away from the phrase it qualifies ("open thai place on Sunday") is part of it too
+    const open = mentionsOpen ? firstMatch(OPEN_WORD, text) : null;
+    if (open) phrases.push(open);
+    return { constraint, phrases };
+}
+
+/**
+ * Time constraints in a free-text query, or null when the query has none. A bare weekday
+ * or clock time only counts next to "open"/"on"/"after" (or "tonight", "kl") so "Sunday roast"
+ * and "best thai in town at 12" stay dish searches.
+ */
+export function detectOpenAt(query: string): OpenAtConstraint | null {
+    return matchOpenAt(query)?.constraint ?? null;
+}
+
+/**
+ * Remove the open/time phrases detectOpenAt read its constraint from, so they are not used as
+ * dish search text ("vegan open now" -> "vegan"). Without a constraint nothing is removed:
+ * "open till 2" keeps its "open".
+ */
+export function stripTimePhrases(text: string): string {
+    const source = text || "";
+    const spans = (matchOpenAt(source)?.phrases ?? [])
+        .map(phrase => [phrase.index, phrase.index + phrase[0].length])
+        .sort((a, b) => a[0] - b[0]);
+
+    let kept = "";
+    let cursor = 0;
+    for (const [from, to] of spans) {
+        if (from > cursor) kept += source.slice(cursor, from);
+        kept += " ";
+        cursor = Math.max(cursor, to);
+    }
+    kept += source.slice(cursor);
+    return kept.replace(/\s+/g, " ").trim();
+}
+
+export function describeOpenAt(constraint: OpenAtConstraint): string {
+    if (constraint.now) return "open now";
+    const day = constraint.weekday !== null
+        ? `on ${capitalize(WEEKDAYS[constraint.weekday])}`
+        : constraint.dayOffset === 1 ? "tomorrow" : "";
+    const time = constraint.minutes !== null
+        ? `${constraint.after ? "after" : "at"} ${formatClock(constraint.minutes)}`
+        : "";
+    return ["open", day, time].filter(Boolean).join(" ");
+}
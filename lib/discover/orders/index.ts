@@ -0,0 +1,42 @@
+/**
+ * Discover pickup orders: the order store, payment provider and status page view
+ *
+ *   DISCOVER_ORDER_STORE=supabase | memory
+ */
+
+import { getCatalog } from "@/lib/catalog";
+import type { OrderSummary } from "@/lib/types/discover";
+import { createMemoryOrderStore } from "./memory-store";
+import { createPayInStoreProvider, type PaymentProvider } from "./payments";
+import { toOrderSummary } from "./place-order";
+import { createSupabaseOrderStore } from "./supabase-store";
+import type { OrderStore } from "./types";
+import { processStore, resolveStoreKind } from "@/lib/discover/store-kind";
+
+export type { NewOrder, NewOrderItem, OrderStore, OrderStoreKind, StoredOrder, StoredOrderItem } from "./types";
+export type { PaymentProvider } from "./payments";
+export type { PlaceOrderDeps, PlaceOrderResult } from "./place-order";
+export { MAX_ORDER_LINES, parsePlaceOrderRequest, placeOrder, toOrderSummary } from "./place-order";
+export { createPayInStoreProvider } from "./payments";
+export { createMemoryOrderStore } from "./memory-store";
+export { checkPickupTime, pickupSlots, PICKUP_LEAD_MINUTES, PICKUP_SLOT_MINUTES, PICKUP_WINDOW_HOURS } from "./pickup";
+
+export function createOrderStore(): OrderStore {
+    return resolveStoreKind("DISCOVER_ORDER_STORE") === "supabase" ? createSupabaseOrderStore() : createMemoryOrderStore();
+}
+
+export const getOrderStore = processStore(createOrderStore, store => {
+    console.log("[discover][orders] store", { kind: store.kind });
+});
+
+export function getPaymentProvider(): PaymentProvider {
+    return createPayInStoreProvider();
+}
+
+/** Status page view of an order; null for unknown ids */
+export async function getOrderSummary(id: string): Promise<OrderSummary | null> {
+    const order = await getOrderStore().get(id);
+    if (!order) return null;
+    const restaurant = await getCatalog().getRestaurant(order.restaurant_id);
+    return toOrderSummary(order, restaurant?.name ?? "Restaurant");
+}
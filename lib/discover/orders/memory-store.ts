@@ -0,0 +1,30 @@
+/**
+ * In-memory order store for dev and tests (per process, lost on restart)
+ */
+
+import { randomUUID } from "node:crypto";
+import type { OrderStore, StoredOrder } from "./types";
+
+export function createMemoryOrderStore(): OrderStore {
+    const orders = new Map<string, StoredOrder>();
+
+    return {
+        kind: "memory",
+
+        async create(order) {
+            const stored: StoredOrder = {
+                ...structuredClone(order),
+                id: randomUUID(),
+                source: "discovery",
+                created_at: new Date().toISOString(),
+            };
+            orders.set(stored.id, stored);
+            return structuredClone(stored);
+        },
+
+        async get(id) {
+            const order = orders.get(id);
+            return order ? structuredClone(order) : null;
+        },
+    };
+}
@@ -0,0 +1,27 @@
+/**
+ * Payment step of a discover order. Only pay-in-store exists for now: the order is placed
+ * straight away and stays unpaid until the restaurant takes payment at pickup. A card
+ * provider would create the order as pending_payment and return a checkout URL.
+ */
+
+import type { OrderStatus, PaymentMethod, PaymentStatus } from "@/lib/types/discover";
+import type { StoredOrder } from "./types";
+
+export interface PaymentProvider {
+    method: PaymentMethod;
+    /** Status and payment status a new order is stored with */
+    initial: { status: OrderStatus; payment_status: PaymentStatus };
+    /** Runs once the order is stored; a checkout URL to send the customer to, or null */
+    start(order: StoredOrder): Promise<{ redirectUrl: string | null }>;
+}
+
+export function createPayInStoreProvider(): PaymentProvider {
+    return {
+        method: "pay_in_store",
+        initial: { status: "placed", payment_status: "unpaid" },
+        async start(order) {
+            console.log("[discover][orders] pay in store", { orderId: order.id, total: order.total_amount, currency: order.currency });
+            return { redirectUrl: null };
+        },
+    };
+}
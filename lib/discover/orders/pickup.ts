@@ -0,0 +1,58 @@
+/**
+ * Pickup times for discover orders: 15-minute slots from the kitchen's lead time up to
+ * PICKUP_WINDOW_HOURS ahead, while the restaurant is open (in its own timezone).
+ * Restaurants without parseable hours accept any slot in the window.
+ */
+
+import type { OpeningHoursExceptions } from "@/lib/types/discover";
+import { hasParseableHours, isOpenAt, localClock, parseSchedule } from "@/lib/discover/opening-hours";
+
+export const PICKUP_LEAD_MINUTES = 20;
+export const PICKUP_SLOT_MINUTES = 15;
+export const PICKUP_WINDOW_HOURS = 12;
+// A slot picked from the list stays valid while the customer fills in the form
+const PICKUP_GRACE_MINUTES = 10;
+
+const MINUTE_MS = 60_000;
+
+export interface PickupHours {
+    opening_hours: Record<string, string> | null;
+    opening_hours_exceptions: OpeningHoursExceptions | null;
+    timezone: string | null;
+}
+
+export type PickupTimeProblem = "too_soon" | "too_late" | "closed";
+
+/** Open at `time`; true when the hours are unknown or the timezone is invalid */
+function isOpenForPickup(time: Date, hours: PickupHours | null): boolean {
+    if (!hours) return true;
+    const schedule = parseSchedule(hours.opening_hours, hours.opening_hours_exceptions);
+    if (!hasParseableHours(schedule)) return true;
+    try {
+        const clock = localClock(time, hours.timezone);
+        return isOpenAt(schedule, { weekday: clock.weekday, date: clock.date }, clock.minutes);
+    } catch {
+        return true;
+    }
+}
+
+export function checkPickupTime(time: Date, hours: PickupHours | null, now: Date = new Date()): PickupTimeProblem | null {
+    const ahead = (time.getTime() - now.getTime()) / MINUTE_MS;
+    if (ahead < PICKUP_LEAD_MINUTES - PICKUP_GRACE_MINUTES) return "too_soon";
+    if (ahead > PICKUP_WINDOW_HOURS * 60) return "too_late";
+    return isOpenForPickup(time, hours) ? null : "closed";
+}
+
+/** ISO start times of the open slots, earliest first */
+export function pickupSlots(hours: PickupHours | null, now: Date = new Date()): string[] {
+    const slotMs = PICKUP_SLOT_MINUTES * MINUTE_MS;
+    const first = Math.ceil((now.getTime() + PICKUP_LEAD_MINUTES * MINUTE_MS) / slotMs) * slotMs;
+    const last = now.getTime() + PICKUP_WINDOW_HOURS * 60 * MINUTE_MS;
+
+    const slots: string[] = [];
+    for (let at = first; at <= last; at += slotMs) {
+        const time = new Date(at);
+        if (isOpenForPickup(time, hours)) slots.push(time.toISOString());
+    }
+    return slots;
+}
@@ -0,0 +1,175 @@
+/**
+ * Placing a discover order: the cart is re-checked against the catalog (restaurant takes
+ * pickup orders, each dish is public, in stock and orderable online, options are valid,
+ * prices match what the customer saw) and stored as a pickup order from source "discovery".
+ */
+
+import { z } from "zod";
+import type { CatalogRepository } from "@/lib/catalog";
+import type { OrderProblem, OrderSummary, PlaceOrderRequest } from "@/lib/types/discover";
+import { MAX_QUANTITY, selectedOptions, unitPriceWithOptions, validateSelection } from "@/lib/discover/cart";
+import { formatMoney, fromMinorUnits, money, toCurrencyCode, toMinorUnits } from "@/lib/discover/money";
+import type { PaymentProvider } from "./payments";
+import { checkPickupTime, type PickupTimeProblem } from "./pickup";
+import type { NewOrderItem, OrderStore, StoredOrder } from "./types";
+
+export const MAX_ORDER_LINES = 30;
+
+const PlaceOrderSchema = z.object({
+    restaurant_id: z.uuid(),
+    items: z.array(z.object({
+        dish_id: z.uuid(),
+        quantity: z.number().int().min(1).max(MAX_QUANTITY),
+        option_ids: z.array(z.uuid()).max(20).default([]),
+        unit_price: z.number().nonnegative().optional(),
+    })).min(1).max(MAX_ORDER_LINES),
+    customer_name: z.string().trim().min(1).max(80),
+    customer_phone: z.string().trim().regex(/^\+?[\d\s()-]{6,20}$/, "Invalid phone number"),
+    pickup_time: z.iso.datetime({ offset: true }),
+    notes: z.string().trim().max(500).nullish(),
+    sessionId: z.string().max(100).nullish(),
+});
+
+/** Validate an untrusted order body. Throws ZodError on bad shape */
+export function parsePlaceOrderRequest(input: unknown): PlaceOrderRequest {
+    return PlaceOrderSchema.parse(input);
+}
+
+export interface PlaceOrderDeps {
+    catalog: CatalogRepository;
+    store: OrderStore;
+    payments: PaymentProvider;
+    now?: Date;
+}
+
+export type PlaceOrderResult =
+    | { ok: true; order: OrderSummary; redirectUrl: string | null }
+    | { ok: false; problems: OrderProblem[] };
+
+const PICKUP_MESSAGES: Record<PickupTimeProblem, string> = {
+    too_soon: "That pickup time is too soon, choose a later one",
+    too_late: "That pickup time is too far ahead",
+    closed: "The restaurant is closed at that pickup time",
+};
+
+// Prices are compared to the cent
+const PRICE_TOLERANCE = 0.005;
+
+export function toOrderSummary(order: StoredOrder, restaurantName: string): OrderSummary {
+    return {
+        id: order.id,
+        restaurant_id: order.restaurant_id,
+        restaurant_name: restaurantName,
+        status: order.status,
+        payment_method: order.payment_method,
+        payment_status: order.payment_status,
+        pickup_time: order.pickup_time,
+        customer_name: order.customer_name,
+        notes: order.notes,
+        items: order.items.map(item => ({
+            dish_id: item.dish_id,
+            name: item.dish_name,
+            quantity: item.quantity,
+            unit_price: fromMinorUnits(item.unit_price, order.currency),
+            options: item.modifiers.options.map(option => option.name),
+        })),
+        total: fromMinorUnits(order.total_amount, order.currency),
+        created_at: order.created_at,
+    };
+}
+
+export async function placeOrder(request: PlaceOrderRequest, deps: PlaceOrderDeps): Promise<PlaceOrderResult> {
+    const { catalog, store, payments, now = new Date() } = deps;
+
+    const restaurant = await catalog.getRestaurant(request.restaurant_id, { publicOnly: true });
+    if (!restaurant || restaurant.accepts_takeaway === false) {
+        return {
+            ok: false,
+            problems: [{ code: "restaurant_unavailable", message: `${restaurant?.name ?? "This restaurant"} doesn't take pickup orders` }],
+        };
+    }
+
+    const problems: OrderProblem[] = [];
+    const pickupProblem = checkPickupTime(new Date(request.pickup_time), restaurant, now);
+    if (pickupProblem) problems.push({ code: "invalid_pickup_time", message: PICKUP_MESSAGES[pickupProblem] });
+
+    const dishIds = [...new Set(request.items.map(item => item.dish_id))];
+    const [dishes, modifiers] = await Promise.all([
+        catalog.getDishes({ ids: dishIds, restaurantId: restaurant.id, publicOnly: true }),
+        catalog.getDishModifiers(dishIds),
+    ]);
+    const dishesById = new Map(dishes.map(dish => [dish.id, dish]));
+    const currency = toCurrencyCode(restaurant.currency);
+
+    const items: NewOrderItem[] = [];
+    for (const item of request.items) {
+        const dish = dishesById.get(item.dish_id);
+        if (!dish) {
+            problems.push({ code: "dish_unavailable", dish_id: item.dish_id, message: "A dish in your cart is no longer on the menu" });
+            continue;
+        }
+        if (!dish.is_available) {
+            problems.push({ code: "sold_out", dish_id: dish.id, message: `${dish.name} is sold out` });
+            continue;
+        }
+        if (!dish.is_orderable) {
+            problems.push({ code: "in_store_only", dish_id: dish.id, message: `${dish.name} can only be ordered in the restaurant` });
+            continue;
+        }
+
+        const groups = modifiers.get(dish.id) ?? [];
+        const optionProblem = validateSelection(groups, item.option_ids);
+        if (optionProblem) {
+            problems.push({ code: "invalid_options", dish_id: dish.id, message: `${dish.name}: ${optionProblem}` });
+            continue;
+        }
+
+        const options = selectedOptions(groups, item.option_ids);
+        const unitPrice = unitPriceWithOptions(dish.price, options);
+        // Discounting options can take a line below zero; the order_items CHECK would only 500 on it
+        if (unitPrice < 0) {
+            problems.push({ code: "invalid_options", dish_id: dish.id, message: `${dish.name} can't be ordered with these options` });
+            continue;
+        }
+        if (item.unit_price !== undefined && Math.abs(item.unit_price - unitPrice) > PRICE_TOLERANCE) {
+            problems.push({
+                code: "price_changed",
+                dish_id: dish.id,
+                message: `${dish.name} now costs ${formatMoney(money(unitPrice, currency))}`,
+            });
+            continue;
+        }
+
+        items.push({
+            dish_id: dish.id,
+            dish_name: dish.name,
+            unit_price: toMinorUnits(money(unitPrice, currency)),
+            quantity: item.quantity,
+            modifiers: { options },
+        });
+    }
+
+    if (problems.length > 0) {
+        console.log("[discover][orders] rejected", { restaurantId: restaurant.id, problems: problems.map(p => p.code) });
+        return { ok: false, problems };
+    }
+
+    const subtotal = items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0);
+    const order = await store.create({
+        restaurant_id: restaurant.id,
+        ...payments.initial,
+        payment_method: payments.method,
+        customer_name: request.customer_name,
+        customer_phone: request.customer_phone,
+        pickup_time: new Date(request.pickup_time).toISOString(),
+        notes: request.notes || null,
+        subtotal_amount: subtotal,
+        total_amount: subtotal,
+        currency,
+        items,
+    });
+    const { redirectUrl } = await payments.start(order);
+
+    console.log("[discover][orders] placed", { orderId: order.id, restaurantId: restaurant.id, lines: items.length, total: subtotal, currency });
+    return { ok: true, order: toOrderSummary(order, restaurant.name), redirectUrl };
+}
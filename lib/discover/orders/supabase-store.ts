@@ -0,0 +1,83 @@
+/**
+ * Supabase order store (orders/order_items, migration 0023). Discover orders are anonymous,
+ * so they are written and read with the service role; restaurant owners see them through
+ * the owner RLS policies like widget orders.
+ */
+
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import type { CartOption } from "@/lib/types/discover";
+import type { NewOrder, OrderStore, StoredOrder } from "./types";
+
+interface OrderItemRow {
+    dish_id: string | null;
+    dish_name: string;
+    unit_price: number;
+    quantity: number;
+    modifiers: { options?: CartOption[] } | null;
+}
+
+interface OrderRow extends Omit<StoredOrder, "items"> {
+    order_items: OrderItemRow[] | null;
+}
+
+const ORDER_COLUMNS = [
+    "id", "restaurant_id", "source", "status", "payment_method", "payment_status",
+    "customer_name", "customer_phone", "pickup_time", "notes",
+    "subtotal_amount", "total_amount", "currency", "created_at",
+].join(", ");
+
+function toStoredOrder(row: OrderRow): StoredOrder {
+    const { order_items, ...order } = row;
+    return {
+        ...order,
+        items: (order_items ?? []).map(item => ({
+            dish_id: item.dish_id,
+            dish_name: item.dish_name,
+            unit_price: item.unit_price,
+            quantity: item.quantity,
+            modifiers: { options: item.modifiers?.options ?? [] },
+        })),
+    };
+}
+
+export function createSupabaseOrderStore(): OrderStore {
+    return {
+        kind: "supabase",
+
+        async create(order: NewOrder) {
+            const supabase = createServiceRoleClient();
+            const { items, ...fields } = order;
+
+            const { data, error } = await supabase
+                .from("orders")
+                .insert({ ...fields, source: "discovery", fulfillment_type: "pickup", order_type: "pickup" })
+                .select(ORDER_COLUMNS)
+                .single();
+            if (error) throw new Error(`Failed to create order: ${error.message}`);
+
+            const created = data as unknown as Omit<StoredOrder, "items">;
+            const { error: itemsError } = await supabase
+                .from("order_items")
+                .insert(items.map(item => ({ ...item, order_id: created.id })));
+            if (itemsError) {
+                // No transaction over PostgREST: drop the half-written order
+                await supabase.from("orders").delete().eq("id", created.id);
+                throw new Error(`Failed to create order items: ${itemsError.message}`);
+            }
+
+            return { ...created, items };
+        },
+
+        async get(id) {
+            const supabase = createServiceRoleClient();
+            const { data, error } = await supabase
+                .from("orders")
+                .select(`${ORDER_COLUMNS}, order_items(dish_id, dish_name, unit_price, quantity, modifiers)`)
+                .eq("id", id)
+                .maybeSingle();
+
+            if (error) throw new Error(`Failed to load order: ${error.message}`);
+            return data ? toStoredOrder(data as unknown as OrderRow) : null;
+        },
+    };
+}
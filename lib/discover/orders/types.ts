@@ -0,0 +1,56 @@
+/**
+ * Discover order storage contract
+ *
+ * Rows mirror orders/order_items (migration 0023): amounts are integers in the currency's
+ * minor unit (öre, cents) and each item keeps a snapshot of the dish name, price and options,
+ * so later menu edits don't change a placed order.
+ */
+
+import type { CartOption, OrderStatus, PaymentMethod, PaymentStatus } from "@/lib/types/discover";
+
+export type OrderStoreKind = "memory" | "supabase";
+
+export interface NewOrderItem {
+    dish_id: string;
+    dish_name: string;
+    /** Dish price plus options, minor units */
+    unit_price: number;
+    quantity: number;
+    /** order_items.modifiers */
+    modifiers: { options: CartOption[] };
+}
+
+export interface NewOrder {
+    restaurant_id: string;
+    status: OrderStatus;
+    payment_method: PaymentMethod;
+    payment_status: PaymentStatus;
+    customer_name: string;
+    customer_phone: string;
+    pickup_time: string;
+    notes: string | null;
+    subtotal_amount: number;
+    total_amount: number;
+    currency: string;
+    items: NewOrderItem[];
+}
+
+export interface StoredOrderItem extends Omit<NewOrderItem, "dish_id"> {
+    /** null once the dish is deleted */
+    dish_id: string | null;
+}
+
+export interface StoredOrder extends Omit<NewOrder, "items"> {
+    id: string;
+    source: "widget" | "discovery";
+    created_at: string;
+    items: StoredOrderItem[];
+}
+
+export interface OrderStore {
+    kind: OrderStoreKind;
+    /** Inserts the order with its items; all or nothing */
+    create(order: NewOrder): Promise<StoredOrder>;
+    /** null for unknown ids */
+    get(id: string): Promise<StoredOrder | null>;
+}
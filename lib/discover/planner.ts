@@ -1,25 +1,27 @@
 import { z } from "zod";
 import type { ChatState, Intent, ChatPrefs, GroundedState } from "@/lib/types/discover";
-import type OpenAI from "openai";
-import { zodResponseFormat } from "openai/helpers/zod";
+import type { LLMProvider } from "@/lib/llm";
 
 // ============================================
 // 1. Zod Schema & Types
 // ============================================
 
-export type ActionType =
-    | "FOLLOWUP"
-    | "EXPLAIN"
-    | "SEARCH"
-    | "RESHOW"
-    | "CLARIFY"
-    | "EXIT_RESTAURANT"
-    | "SHOW_MENU"
-    | "RESTAURANT_LOOKUP";
+export const ACTION_TYPES = [
+    "FOLLOWUP",
+    "EXPLAIN",
+    "SEARCH",
+    "RESHOW",
+    "CLARIFY",
+    "EXIT_RESTAURANT",
+    "SHOW_MENU",
+    "RESTAURANT_LOOKUP",
+] as const;
+
+export type ActionType = typeof ACTION_TYPES[number];
 
 // Structured Outputs compatible schema: all fields required, optional modeled as nullable
 export const PlanSchema = z.object({
-    action: z.enum(["FOLLOWUP", "EXPLAIN", "SEARCH", "RESHOW", "CLARIFY", "EXIT_RESTAURANT", "SHOW_MENU", "RESTAURANT_LOOKUP"]),
+    action: z.enum(ACTION_TYPES),
     confidence: z.number().min(0).max(1),
     reason: z.string().nullable(),
 
@@ -247,10 +249,10 @@ export async function generatePlanSafe(args: {
     intent: Intent;
     chatState: ChatState | null;
     grounded: GroundedState | null;
-    openai: OpenAI;
+    llm: LLMProvider;
 }): Promise<{ plan: Plan; triggered: string[]; usedFallback: boolean; rawAction: string | null }> {
 
-    const { query, intent, chatState, grounded, openai } = args;
+    const { query, intent, chatState, grounded, llm } = args;
 
     // FIX: LLM bypass flag - skip OpenAI call for faster responses (saves ~2s per request)
     // Set DISCOVERY_LLM_PLANNER=1 to enable LLM-based planning
@@ -389,17 +391,16 @@ Intent: ${JSON.stringify({ ...intent, original_query: undefined })}
 `;
 
         // Use Structured Outputs for guaranteed valid schema
-        const completion = await openai.chat.completions.parse({
-            model: "gpt-4o-mini",
+        const parsedPlan = await llm.structured({
             messages: [
                 { role: "system", content: systemPrompt },
                 { role: "user", content: userPrompt }
             ],
             temperature: 0,
-            response_format: zodResponseFormat(PlanSchema, "plan"),
+            schema: PlanSchema,
+            name: "plan",
         });
 
-        const parsedPlan = completion.choices[0]?.message?.parsed;
         if (!parsedPlan) {
             // Refusal or parsing failure (extremely rare with Structured Outputs)
             return { plan: fallbackPlan, triggered: ["fallback:noContent"], usedFallback: true, rawAction: null };
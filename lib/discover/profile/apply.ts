@@ -0,0 +1,101 @@
+/**
+ * Profile validation and merging into the parsed Intent (client-safe)
+ */
+
+import { z } from "zod";
+import { normalizeAllergens } from "@/lib/discover/allergens";
+import type { DietaryProfile, Intent, ProfileOverride } from "@/lib/types/discover";
+
+export const EMPTY_PROFILE: DietaryProfile = { dietary: [], allergy: [], city: null, budgetMaxSek: null };
+
+const MAX_BUDGET_SEK = 100_000;
+
+const ProfileInputSchema = z.object({
+    dietary: z.array(z.string().max(40)).max(10).nullish(),
+    allergy: z.array(z.string().max(40)).max(20).nullish(),
+    city: z.string().max(80).nullish(),
+    budgetMaxSek: z.number().positive().max(MAX_BUDGET_SEK).nullish(),
+});
+
+function uniqueLower(values: string[] | null | undefined): string[] {
+    const out: string[] = [];
+    for (const v of values || []) {
+        const s = v.toLowerCase().trim();
+        if (s && !out.includes(s)) out.push(s);
+    }
+    return out;
+}
+
+/**
+ * Validate untrusted profile input (API body, stored row). Throws ZodError on bad shape;
+ * unknown allergen names are dropped rather than stored.
+ */
+export function sanitizeProfile(input: unknown): DietaryProfile {
+    const parsed = ProfileInputSchema.parse(input ?? {});
+    return {
+        dietary: uniqueLower(parsed.dietary),
+        allergy: normalizeAllergens(parsed.allergy),
+        city: parsed.city?.trim() || null,
+        budgetMaxSek: parsed.budgetMaxSek ?? null,
+    };
+}
+
+export function isEmptyProfile(profile: DietaryProfile | null | undefined): boolean {
+    return !profile || (
+        profile.dietary.length === 0 &&
+        profile.allergy.length === 0 &&
+        !profile.city &&
+        profile.budgetMaxSek === null
+    );
+}
+
+/**
+ * Apply a per-query override: `off` drops the profile, any field present replaces the saved one
+ */
+export function resolveEffectiveProfile(
+    profile: DietaryProfile | null,
+    override: ProfileOverride | null | undefined
+): DietaryProfile | null {
+    if (!override) return profile;
+    if (override.off) return null;
+
+    const base = profile ?? EMPTY_PROFILE;
+    const fields: ProfileOverride = { ...override };
+    delete fields.off;
+    try {
+        return sanitizeProfile({ ...base, ...fields });
+    } catch {
+        // A malformed override must not break the search; fall back to the saved profile
+        return profile;
+    }
+}
+
+/**
+ * Merge a profile into a parsed Intent. The query always wins for single-valued fields
+ * (city, price); standing requirements (dietary, allergies) are added to what the query asked for.
+ */
+export function applyProfileToIntent(intent: Intent, profile: DietaryProfile | null | undefined): Intent {
+    if (!profile || isEmptyProfile(profile)) return intent;
+
+    const dietary = [...(intent.dietary || [])];
+    for (const d of profile.dietary) {
+        if (!dietary.some(existing => existing.toLowerCase() === d)) dietary.push(d);
+    }
+
+    const allergy = [...(intent.allergy || [])];
+    for (const slug of normalizeAllergens(profile.allergy)) {
+        if (!allergy.includes(slug)) allergy.push(slug);
+    }
+
+    return {
+        ...intent,
+        dietary,
+        allergy,
+        // Parser upper-cases cities; keep the same shape for the RPC city filter
+        city: intent.city ?? (profile.city ? profile.city.toUpperCase() : null),
+        // The saved budget is in SEK; a price range from the query ("over 10 euro") replaces it
+        ...(intent.price_max == null && intent.price_min == null && profile.budgetMaxSek !== null
+            ? { price_max: profile.budgetMaxSek, price_currency: "SEK" as const }
+            : {}),
+    };
+}
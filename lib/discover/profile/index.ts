@@ -0,0 +1,28 @@
+/**
+ * Saved dietary profiles: the store, validation and the request's owner
+ *
+ *   DISCOVER_PROFILE_STORE=supabase | memory
+ */
+
+import { createMemoryProfileStore } from "./memory-store";
+import { createSupabaseProfileStore } from "./supabase-store";
+import type { ProfileStore } from "./types";
+import { processStore, resolveStoreKind } from "@/lib/discover/store-kind";
+
+export type { ProfileOwner, ProfileStore, ProfileStoreKind } from "./types";
+export {
+    EMPTY_PROFILE,
+    applyProfileToIntent,
+    isEmptyProfile,
+    resolveEffectiveProfile,
+    sanitizeProfile,
+} from "./apply";
+export { DEVICE_ID_COOKIE, resolveOrCreateProfileOwner, resolveProfileOwner, setDeviceCookie } from "./owner";
+
+export function createProfileStore(): ProfileStore {
+    return resolveStoreKind("DISCOVER_PROFILE_STORE") === "supabase" ? createSupabaseProfileStore() : createMemoryProfileStore();
+}
+
+export const getProfileStore = processStore(createProfileStore, store => {
+    console.log("[discover][profile] store", { kind: store.kind });
+});
@@ -0,0 +1,32 @@
+/**
+ * In-memory profile store for dev and tests (per process, lost on restart)
+ */
+
+import type { DietaryProfile } from "@/lib/types/discover";
+import type { ProfileOwner, ProfileStore } from "./types";
+
+function ownerKey(owner: ProfileOwner): string {
+    return `${owner.kind}:${owner.id}`;
+}
+
+export function createMemoryProfileStore(): ProfileStore {
+    const profiles = new Map<string, DietaryProfile>();
+
+    return {
+        kind: "memory",
+
+        async get(owner) {
+            const profile = profiles.get(ownerKey(owner));
+            return profile ? structuredClone(profile) : null;
+        },
+
+        async save(owner, profile) {
+            profiles.set(ownerKey(owner), structuredClone(profile));
+            return structuredClone(profile);
+        },
+
+        async delete(owner) {
+            profiles.delete(ownerKey(owner));
+        },
+    };
+}
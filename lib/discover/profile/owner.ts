@@ -0,0 +1,53 @@
+/**
+ * Who a profile request belongs to: the signed-in Supabase user, else the anonymous device cookie
+ */
+
+import { randomUUID } from "node:crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { ProfileOwner } from "./types";
+
+export const DEVICE_ID_COOKIE = "discover_device_id";
+
+const DEVICE_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DEVICE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // 1 year
+
+/**
+ * Resolve the profile owner for a request, or null for a first-time anonymous visitor
+ */
+export async function resolveProfileOwner(request: NextRequest): Promise<ProfileOwner | null> {
+    try {
+        const supabase = await createClient();
+        const { data } = await supabase.auth.getUser();
+        if (data.user) return { kind: "user", id: data.user.id };
+    } catch (error) {
+        // No auth configured / no session: fall through to the device id
+        console.log("[discover][profile] Auth lookup skipped:", error instanceof Error ? error.message : String(error));
+    }
+
+    const deviceId = request.cookies.get(DEVICE_ID_COOKIE)?.value;
+    return deviceId && DEVICE_ID_RE.test(deviceId) ? { kind: "device", id: deviceId } : null;
+}
+
+/**
+ * Owner for a write: a first-time anonymous visitor gets a fresh device id,
+ * which must be set on the response with setDeviceCookie
+ */
+export async function resolveOrCreateProfileOwner(request: NextRequest): Promise<{ owner: ProfileOwner; isNewDevice: boolean }> {
+    const owner = await resolveProfileOwner(request);
+    if (owner) return { owner, isNewDevice: false };
+    return { owner: { kind: "device", id: randomUUID() }, isNewDevice: true };
+}
+
+export function setDeviceCookie(response: NextResponse, deviceId: string): NextResponse {
+    response.cookies.set({
+        name: DEVICE_ID_COOKIE,
+        value: deviceId,
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        maxAge: DEVICE_COOKIE_MAX_AGE,
+    });
+    return response;
+}
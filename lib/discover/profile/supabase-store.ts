@@ -0,0 +1,72 @@
+/**
+ * Supabase profile store (discover_profiles, service role only - see migration 0056)
+ */
+
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import type { DietaryProfile } from "@/lib/types/discover";
+import { sanitizeProfile } from "./apply";
+import type { ProfileStore } from "./types";
+
+interface ProfileRow {
+    dietary: string[] | null;
+    allergy: string[] | null;
+    city: string | null;
+    budget_max_sek: number | null;
+}
+
+export function createSupabaseProfileStore(): ProfileStore {
+    return {
+        kind: "supabase",
+
+        async get(owner) {
+            const supabase = createServiceRoleClient();
+            const { data, error } = await supabase
+                .from("discover_profiles")
+                .select("dietary, allergy, city, budget_max_sek")
+                .eq("owner_kind", owner.kind)
+                .eq("owner_id", owner.id)
+                .maybeSingle();
+
+            if (error) throw new Error(`Failed to load dietary profile: ${error.message}`);
+            if (!data) return null;
+
+            const row = data as ProfileRow;
+            // Stored rows are re-validated so older vocabularies normalize the same way as new input
+            return sanitizeProfile({
+                dietary: row.dietary,
+                allergy: row.allergy,
+                city: row.city,
+                budgetMaxSek: row.budget_max_sek === null ? null : Number(row.budget_max_sek),
+            });
+        },
+
+        async save(owner, profile: DietaryProfile) {
+            const supabase = createServiceRoleClient();
+            const { error } = await supabase
+                .from("discover_profiles")
+                .upsert({
+                    owner_kind: owner.kind,
+                    owner_id: owner.id,
+                    dietary: profile.dietary,
+                    allergy: profile.allergy,
+                    city: profile.city,
+                    budget_max_sek: profile.budgetMaxSek,
+                    updated_at: new Date().toISOString(),
+                }, { onConflict: "owner_kind,owner_id" });
+
+            if (error) throw new Error(`Failed to save dietary profile: ${error.message}`);
+            return profile;
+        },
+
+        async delete(owner) {
+            const supabase = createServiceRoleClient();
+            const { error } = await supabase
+                .from("discover_profiles")
+                .delete()
+                .eq("owner_kind", owner.kind)
+                .eq("owner_id", owner.id);
+
+            if (error) throw new Error(`Failed to delete dietary profile: ${error.message}`);
+        },
+    };
+}
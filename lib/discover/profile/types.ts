@@ -0,0 +1,24 @@
+/**
+ * Saved dietary profile storage contract
+ *
+ * A profile belongs to a signed-in Supabase user, or to an anonymous device
+ * (httpOnly device-id cookie) when nobody is signed in.
+ */
+
+import type { DietaryProfile } from "@/lib/types/discover";
+
+export type ProfileStoreKind = "memory" | "supabase";
+
+export interface ProfileOwner {
+    kind: "user" | "device";
+    id: string;
+}
+
+export interface ProfileStore {
+    kind: ProfileStoreKind;
+    /** null when the owner has never saved a profile */
+    get(owner: ProfileOwner): Promise<DietaryProfile | null>;
+    /** Upsert; returns what was stored */
+    save(owner: ProfileOwner, profile: DietaryProfile): Promise<DietaryProfile>;
+    delete(owner: ProfileOwner): Promise<void>;
+}
@@ -0,0 +1,32 @@
+/**
+ * ranking-metrics.ts - Graded relevance metrics for ranked result lists
+ *
+ * `relevances` is the graded label of each returned item in rank order
+ * (0 = irrelevant, higher = better); `ideal` is every known label for the
+ * query, so relevant items that were not returned still count against NDCG.
+ */
+
+function dcg(relevances: number[], k: number): number {
+    let sum = 0;
+    relevances.slice(0, k).forEach((rel, index) => {
+        sum += (Math.pow(2, rel) - 1) / Math.log2(index + 2);
+    });
+    return sum;
+}
+
+/** 0..1; 1 when the top k is ordered like the ideal ranking. Queries with no relevant items score 1 */
+export function ndcgAtK(relevances: number[], k: number, ideal: number[] = relevances): number {
+    const best = dcg([...ideal].sort((a, b) => b - a), k);
+    if (best === 0) return 1;
+    return dcg(relevances, k) / best;
+}
+
+/** 1 / rank of the first item with relevance >= minRelevance; 0 when none is returned */
+export function reciprocalRank(relevances: number[], minRelevance = 1): number {
+    const index = relevances.findIndex(rel => rel >= minRelevance);
+    return index === -1 ? 0 : 1 / (index + 1);
+}
+
+export function mean(values: number[]): number {
+    return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
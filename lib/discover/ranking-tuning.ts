@@ -0,0 +1,219 @@
+/**
+ * ranking-tuning.ts - Offline evaluation and grid search for RankingConfig
+ *
+ * Works on a labelled query set: for each query, the retrieved candidates with
+ * their ranking features and a graded relevance label (0-3). Nothing here
+ * touches the database or an LLM, so a full grid runs in seconds.
+ */
+
+import { mean, ndcgAtK, reciprocalRank } from "./ranking-metrics";
+import { DEFAULT_RANKING_CONFIG, parseRankingConfig, scoreCandidate, type RankingConfig, type RankingFeatures } from "./ranking";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LabelledCandidate extends RankingFeatures {
+    dishId: string;
+    /** 0 = irrelevant, 1 = acceptable, 2 = good, 3 = exactly what was asked for */
+    relevance: number;
+}
+
+export interface LabelledQuery {
+    query: string;
+    budgetMax?: number | null;
+    candidates: LabelledCandidate[];
+}
+
+export interface QueryEvaluation {
+    query: string;
+    ndcg: number;
+    mrr: number;
+}
+
+export interface RankingEvaluation {
+    ndcg: number;
+    mrr: number;
+    perQuery: QueryEvaluation[];
+}
+
+/** Dotted config path -> values to try, e.g. { "weights.vibe.semantic": [0.5, 0.7] } */
+export type RankingGrid = Record<string, number[]>;
+
+export interface GridResult {
+    overrides: Record<string, number>;
+    ndcg: number;
+    mrr: number;
+}
+
+export const DEFAULT_RANKING_GRID: RankingGrid = {
+    "weights.vibe.semantic": [0.5, 0.6, 0.7, 0.8],
+    "weights.dishName.semantic": [0.3, 0.4, 0.5],
+    "weights.default.semantic": [0.45, 0.55, 0.65],
+    "exactMatch.maxBoost": [0.1, 0.15, 0.25],
+    "precision.penalty": [0.3, 0.6],
+    "tagMatchBonus": [0, 0.05, 0.1],
+    "distance.weight": [0, 0.05, 0.1],
+    "priceFit.weight": [0, 0.05],
+};
+
+// ============================================
+// DATASET
+// ============================================
+
+function optionalNumber(value: unknown, where: string): number | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== "number" || !Number.isFinite(value)) throw new Error(`${where} must be a number or null`);
+    return value;
+}
+
+/** Validates a labelled query file ({ queries: [...] } or a bare list) */
+export function parseLabelledQueries(raw: unknown): LabelledQuery[] {
+    const list = Array.isArray(raw) ? raw : (raw as { queries?: unknown } | null)?.queries;
+    if (!Array.isArray(list)) throw new Error("Labelled query set must be a list or { queries: [...] }");
+
+    return list.map((entry, i): LabelledQuery => {
+        const item = entry as Partial<LabelledQuery> | null;
+        if (!item || typeof item.query !== "string" || !Array.isArray(item.candidates)) {
+            throw new Error(`queries[${i}] needs a query and a candidates list`);
+        }
+        return {
+            query: item.query,
+            budgetMax: optionalNumber(item.budgetMax, `queries[${i}].budgetMax`),
+            candidates: item.candidates.map((candidate, j): LabelledCandidate => {
+                const where = `queries[${i}].candidates[${j}]`;
+                if (typeof candidate?.dishId !== "string" || typeof candidate.dishName !== "string") {
+                    throw new Error(`${where} needs dishId and dishName`);
+                }
+                const relevance = optionalNumber(candidate.relevance, `${where}.relevance`);
+                if (relevance === null || relevance < 0) throw new Error(`${where}.relevance must be 0 or more`);
+                return {
+                    dishId: candidate.dishId,
+                    dishName: candidate.dishName,
+                    semanticScore: optionalNumber(candidate.semanticScore, `${where}.semanticScore`),
+                    trigramScore: optionalNumber(candidate.trigramScore, `${where}.trigramScore`),
+                    price: optionalNumber(candidate.price, `${where}.price`),
+                    distanceKm: optionalNumber(candidate.distanceKm, `${where}.distanceKm`),
+                    matchedTagCount: optionalNumber(candidate.matchedTagCount, `${where}.matchedTagCount`) ?? undefined,
+                    requestedTagCount: optionalNumber(candidate.requestedTagCount, `${where}.requestedTagCount`) ?? undefined,
+                    relevance,
+                };
+            }),
+        };
+    });
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+export function rankLabelledQuery(item: LabelledQuery, config: RankingConfig): LabelledCandidate[] {
+    return item.candidates
+        .map(candidate => ({
+            candidate,
+            score: scoreCandidate(candidate, item.query, { budgetMax: item.budgetMax }, config).finalScore,
+        }))
+        .sort((a, b) => b.score - a.score)
+        .map(entry => entry.candidate);
+}
+
+export function evaluateRanking(queries: LabelledQuery[], config: RankingConfig, k = 10): RankingEvaluation {
+    const perQuery = queries.map((item): QueryEvaluation => {
+        const relevances = rankLabelledQuery(item, config).map(candidate => candidate.relevance);
+        return {
+            query: item.query,
+            ndcg: ndcgAtK(relevances, k),
+            mrr: reciprocalRank(relevances),
+        };
+    });
+    return {
+        ndcg: mean(perQuery.map(q => q.ndcg)),
+        mrr: mean(perQuery.map(q => q.mrr)),
+        perQuery,
+    };
+}
+
+// ============================================
+// GRID SEARCH
+// ============================================
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Nested partial config for a set of dotted overrides. A semantic weight also
+ * sets its trigram complement so each pair keeps summing to 1.
+ */
+export function overridesToConfig(overrides: Record<string, number>): Record<string, unknown> {
+    const nested: Record<string, unknown> = {};
+    const set = (dotted: string, value: number) => {
+        const keys = dotted.split(".");
+        let node = nested;
+        for (const key of keys.slice(0, -1)) {
+            node[key] = (node[key] as Record<string, unknown> | undefined) ?? {};
+            node = node[key] as Record<string, unknown>;
+        }
+        node[keys[keys.length - 1]] = value;
+    };
+
+    for (const [dotted, value] of Object.entries(overrides)) {
+        set(dotted, value);
+        const weight = dotted.match(/^weights\.(\w+)\.semantic$/);
+        if (weight) set(`weights.${weight[1]}.trigram`, round(1 - value));
+    }
+    return nested;
+}
+
+export function applyOverrides(base: RankingConfig, overrides: Record<string, number>): RankingConfig {
+    return parseRankingConfig(overridesToConfig(overrides), base);
+}
+
+function* expandGrid(grid: RankingGrid): Generator<Record<string, number>> {
+    const keys = Object.keys(grid);
+    const indices = keys.map(() => 0);
+    if (keys.some(key => grid[key].length === 0)) return;
+
+    while (true) {
+        yield Object.fromEntries(keys.map((key, i) => [key, grid[key][indices[i]]]));
+        let position = keys.length - 1;
+        while (position >= 0 && ++indices[position] === grid[keys[position]].length) {
+            indices[position] = 0;
+            position--;
+        }
+        if (position < 0) return;
+    }
+}
+
+export function gridSize(grid: RankingGrid): number {
+    return Object.values(grid).reduce((size, values) => size * values.length, 1);
+}
+
+/**
+ * Evaluate every combination in the grid; best first by the objective, then
+ * by the other metric. Ties keep grid order.
+ */
+export function gridSearch(
+    queries: LabelledQuery[],
+    grid: RankingGrid = DEFAULT_RANKING_GRID,
+    options: { base?: RankingConfig; k?: number; objective?: "ndcg" | "mrr" } = {}
+): GridResult[] {
+    const base = options.base ?? DEFAULT_RANKING_CONFIG;
+    const objective = options.objective ?? "ndcg";
+    const secondary = objective === "ndcg" ? "mrr" : "ndcg";
+    const results: GridResult[] = [];
+
+    for (const overrides of expandGrid(grid)) {
+        const { ndcg, mrr } = evaluateRanking(queries, applyOverrides(base, overrides), options.k);
+        results.push({ overrides, ndcg, mrr });
+    }
+
+    return results
+        .map((result, index) => ({ result, index }))
+        .sort((a, b) =>
+            b.result[objective] - a.result[objective] ||
+            b.result[secondary] - a.result[secondary] ||
+            a.index - b.index
+        )
+        .map(entry => entry.result);
+}
@@ -0,0 +1,303 @@
+/**
+ * ranking.ts - Configurable scoring for hybrid (semantic + trigram) dish search
+ *
+ * The defaults reproduce the original hardcoded formulas; tag, distance and
+ * price signals are off until a deployment config turns them on.
+ *
+ *   DISCOVER_RANKING_CONFIG=path/to/ranking.json   (partial; merged over DEFAULT_RANKING_CONFIG)
+ *
+ * Weights are tuned offline with `npm run ranking:tune` (scripts/tune-ranking.ts).
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SourceWeights {
+    semantic: number;
+    trigram: number;
+}
+
+export type QueryClass = "vibe" | "dishName" | "default";
+
+export interface RankingConfig {
+    /** Semantic/trigram mix per query class */
+    weights: Record<QueryClass, SourceWeights>;
+    /** Words that mark a mood/vibe query ("something spicy") */
+    vibeTerms: string[];
+    /** Regex sources (case-insensitive) that mark a likely dish name ("korma") */
+    dishNamePatterns: string[];
+    /** Queries with at most this many words count as dish-name queries */
+    shortQueryMaxWords: number;
+    exactMatch: {
+        /** Added when every query token appears in the dish name; partial matches get a share */
+        maxBoost: number;
+        minTokenLength: number;
+    };
+    precision: {
+        /** Multiplier for dishes matching fewer than minMatchRatio of the query tokens */
+        penalty: number;
+        minMatchRatio: number;
+        minWords: number;
+        maxWords: number;
+    };
+    /** Added per fully matched requested dietary tag set (scaled by the matched share) */
+    tagMatchBonus: number;
+    distance: {
+        /** Added at 0 km, halving every halfLifeKm */
+        weight: number;
+        halfLifeKm: number;
+    };
+    priceFit: {
+        /** Added for dishes within budget; falls to 0 at (1 + overBudgetTolerance) x budget */
+        weight: number;
+        overBudgetTolerance: number;
+    };
+}
+
+/** Everything the scorer knows about one candidate */
+export interface RankingFeatures {
+    dishName: string;
+    semanticScore: number | null;
+    trigramScore: number | null;
+    price?: number | null;
+    distanceKm?: number | null;
+    /** Requested dietary tags the dish carries, out of requestedTagCount */
+    matchedTagCount?: number;
+    requestedTagCount?: number;
+}
+
+export interface RankingContext {
+    budgetMax?: number | null;
+}
+
+export interface ScoredCandidate {
+    finalScore: number;
+    source: "semantic" | "trigram" | "both";
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const DEFAULT_RANKING_CONFIG: RankingConfig = {
+    weights: {
+        vibe: { semantic: 0.7, trigram: 0.3 },
+        dishName: { semantic: 0.4, trigram: 0.6 },
+        default: { semantic: 0.55, trigram: 0.45 },
+    },
+    vibeTerms: [
+        "like", "similar", "something", "craving", "want", "mood",
+        "feeling", "recommend", "suggestion", "type of", "kind of",
+        "spicy", "creamy", "light", "heavy", "comfort", "healthy",
+    ],
+    dishNamePatterns: [
+        "chicken", "pizza", "burger", "curry", "naan", "rice",
+        "pasta", "salad", "soup", "steak", "fish", "lamb",
+        "vindaloo", "korma", "biryani", "masala", "tikka",
+        "margherita", "funghi", "prosciutto", "calzone",
+    ],
+    shortQueryMaxWords: 3,
+    exactMatch: { maxBoost: 0.15, minTokenLength: 3 },
+    precision: { penalty: 0.3, minMatchRatio: 0.6, minWords: 2, maxWords: 4 },
+    tagMatchBonus: 0,
+    distance: { weight: 0, halfLifeKm: 2 },
+    priceFit: { weight: 0, overBudgetTolerance: 0.5 },
+};
+
+// Vibe queries are never precision-filtered, even when short
+const PRECISION_EXEMPT_TERMS = [
+    "something", "anything", "like", "similar", "craving", "want",
+    "mood", "feeling", "recommend", "suggestion", "type of", "kind of",
+];
+const PRECISION_STOPWORDS = new Set(["the", "and", "with", "for", "from", "our"]);
+
+// ============================================
+// LOADING
+// ============================================
+
+type PlainObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Deep-merge a partial config over a base; unknown keys and wrongly typed values are rejected */
+function mergeSection(base: PlainObject, override: PlainObject, at: string): PlainObject {
+    const merged: PlainObject = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        const where = at ? `${at}.${key}` : key;
+        if (!(key in base)) throw new Error(`Unknown ranking config key "${where}"`);
+        const current = base[key];
+        if (isPlainObject(current)) {
+            if (!isPlainObject(value)) throw new Error(`Ranking config "${where}" must be an object`);
+            merged[key] = mergeSection(current, value, where);
+        } else if (Array.isArray(current)) {
+            if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+                throw new Error(`Ranking config "${where}" must be a list of strings`);
+            }
+            merged[key] = value;
+        } else {
+            if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+                throw new Error(`Ranking config "${where}" must be a non-negative number`);
+            }
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+export function parseRankingConfig(raw: unknown, base: RankingConfig = DEFAULT_RANKING_CONFIG): RankingConfig {
+    if (raw === null || raw === undefined) return base;
+    if (!isPlainObject(raw)) throw new Error("Ranking config must be a JSON object");
+    const config = mergeSection(base as unknown as PlainObject, raw, "") as unknown as RankingConfig;
+    for (const pattern of config.dishNamePatterns) {
+        try {
+            new RegExp(pattern, "i");
+        } catch {
+            throw new Error(`Ranking config dishNamePatterns: invalid pattern "${pattern}"`);
+        }
+    }
+    if (config.distance.halfLifeKm <= 0) throw new Error(`Ranking config "distance.halfLifeKm" must be positive`);
+    return config;
+}
+
+export function loadRankingConfig(file: string | undefined = process.env.DISCOVER_RANKING_CONFIG): RankingConfig {
+    if (!file) return DEFAULT_RANKING_CONFIG;
+    const resolved = path.resolve(process.cwd(), file);
+    return parseRankingConfig(JSON.parse(fs.readFileSync(resolved, "utf8")));
+}
+
+let cachedConfig: RankingConfig | null = null;
+
+/** Loaded once per process; a broken file logs and falls back to the defaults */
+export function getRankingConfig(): RankingConfig {
+    if (!cachedConfig) {
+        try {
+            cachedConfig = loadRankingConfig();
+        } catch (error) {
+            console.error("[discover][ranking] invalid DISCOVER_RANKING_CONFIG, using defaults:", error);
+            cachedConfig = DEFAULT_RANKING_CONFIG;
+        }
+    }
+    return cachedConfig;
+}
+
+// ============================================
+// SIGNALS
+// ============================================
+
+function words(query: string): string[] {
+    return query.toLowerCase().split(/\s+/).filter(w => w.length > 0);
+}
+
+export function classifyQuery(query: string, config: RankingConfig = DEFAULT_RANKING_CONFIG): QueryClass {
+    const lower = query.toLowerCase();
+    if (config.vibeTerms.some(term => lower.includes(term))) return "vibe";
+
+    const isShortQuery = words(query).length <= config.shortQueryMaxWords;
+    const likelyDishName = config.dishNamePatterns.some(pattern => new RegExp(pattern, "i").test(lower));
+    return isShortQuery || likelyDishName ? "dishName" : "default";
+}
+
+export function selectWeights(query: string, config: RankingConfig = DEFAULT_RANKING_CONFIG): SourceWeights {
+    return config.weights[classifyQuery(query, config)];
+}
+
+/** Share of query tokens found in the dish name, times maxBoost */
+export function exactMatchBoost(dishName: string, query: string, config: RankingConfig = DEFAULT_RANKING_CONFIG): number {
+    const dishLower = dishName.toLowerCase();
+    const tokens = words(query).filter(t => t.length >= config.exactMatch.minTokenLength);
+    if (tokens.length === 0) return 0;
+
+    const matchRatio = tokens.filter(token => dishLower.includes(token)).length / tokens.length;
+    return Math.min(config.exactMatch.maxBoost, matchRatio * config.exactMatch.maxBoost);
+}
+
+/**
+ * If only one score exists, use it directly (don't penalize);
+ * if both exist, use the weighted average. The boost is added in both cases.
+ */
+export function mergeScores(
+    semanticScore: number | null,
+    trigramScore: number | null,
+    weights: SourceWeights,
+    boost: number
+): ScoredCandidate {
+    const hasSemantic = semanticScore !== null && semanticScore > 0;
+    const hasTrigram = trigramScore !== null && trigramScore > 0;
+
+    if (hasSemantic && hasTrigram) {
+        const merged = semanticScore * weights.semantic + trigramScore * weights.trigram;
+        return { finalScore: Math.min(1.0, merged + boost), source: "both" };
+    }
+    if (hasSemantic) return { finalScore: Math.min(1.0, semanticScore + boost), source: "semantic" };
+    if (hasTrigram) return { finalScore: Math.min(1.0, trigramScore + boost), source: "trigram" };
+    return { finalScore: 0, source: "trigram" };
+}
+
+/** Short, specific queries ("butter chicken") demote dishes missing most of their tokens */
+export function requiresPrecisionFiltering(query: string, config: RankingConfig = DEFAULT_RANKING_CONFIG): boolean {
+    const lower = query.toLowerCase();
+    if (PRECISION_EXEMPT_TERMS.some(term => lower.includes(term))) return false;
+    const count = words(query).length;
+    return count >= config.precision.minWords && count <= config.precision.maxWords;
+}
+
+/** Share of significant query tokens present in the dish name (1 when the query has none) */
+export function tokenMatchRatio(dishName: string, query: string): number {
+    const dishLower = dishName.toLowerCase();
+    const tokens = words(query).filter(t => t.length >= 3 && !PRECISION_STOPWORDS.has(t));
+    if (tokens.length === 0) return 1;
+    return tokens.filter(token => dishLower.includes(token)).length / tokens.length;
+}
+
+/** 1 at 0 km, 0.5 at halfLifeKm; 0 when the distance is unknown */
+export function distanceDecay(distanceKm: number | null | undefined, config: RankingConfig = DEFAULT_RANKING_CONFIG): number {
+    if (distanceKm === null || distanceKm === undefined || !Number.isFinite(distanceKm)) return 0;
+    return Math.pow(0.5, Math.max(0, distanceKm) / config.distance.halfLifeKm);
+}
+
+/** 1 within budget, falling linearly to 0 at (1 + tolerance) x budget; 0 without a budget or price */
+export function priceFit(
+    price: number | null | undefined,
+    budgetMax: number | null | undefined,
+    config: RankingConfig = DEFAULT_RANKING_CONFIG
+): number {
+    if (!budgetMax || budgetMax <= 0 || price === null || price === undefined || !Number.isFinite(price)) return 0;
+    if (price <= budgetMax) return 1;
+    const tolerance = config.priceFit.overBudgetTolerance;
+    if (tolerance <= 0) return 0;
+    return Math.max(0, 1 - (price - budgetMax) / (budgetMax * tolerance));
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+export function scoreCandidate(
+    features: RankingFeatures,
+    query: string,
+    context: RankingContext = {},
+    config: RankingConfig = DEFAULT_RANKING_CONFIG
+): ScoredCandidate {
+    const weights = selectWeights(query, config);
+    const boost = exactMatchBoost(features.dishName, query, config);
+    const merged = mergeScores(features.semanticScore, features.trigramScore, weights, boost);
+
+    let score = merged.finalScore;
+    if (requiresPrecisionFiltering(query, config) && tokenMatchRatio(features.dishName, query) < config.precision.minMatchRatio) {
+        score *= config.precision.penalty;
+    }
+
+    if (features.requestedTagCount && features.requestedTagCount > 0) {
+        score += config.tagMatchBonus * ((features.matchedTagCount ?? 0) / features.requestedTagCount);
+    }
+    score += config.distance.weight * distanceDecay(features.distanceKm, config);
+    score += config.priceFit.weight * priceFit(features.price, context.budgetMax, config);
+
+    return { finalScore: score, source: merged.source };
+}
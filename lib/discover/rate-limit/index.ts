@@ -0,0 +1,132 @@
+/**
+ * Discover chat abuse protection
+ *
+ *   DISCOVER_RATE_LIMIT=off            disable the per-IP and per-session limits
+ *   DISCOVER_RATE_LIMIT_STORE=supabase | memory
+ *   DISCOVER_RATE_LIMIT_IP_BURST / DISCOVER_RATE_LIMIT_IP_PER_MINUTE             default 20 / 10
+ *   DISCOVER_RATE_LIMIT_SESSION_BURST / DISCOVER_RATE_LIMIT_SESSION_PER_MINUTE   default 10 / 6
+ *   DISCOVER_TRUSTED_PROXY_HOPS        proxies in front of the app that append to x-forwarded-for
+ *                                      (default 1); the client IP is the hop the outermost one added
+ *   DISCOVER_LLM_DAILY_BUDGET          chat turns per UTC day allowed to call the LLM
+ *                                      (unset or 0 = unlimited); past it the chat degrades
+ *                                      to the deterministic intent parser and planner
+ *
+ * Store failures never block a request: limits fail open and the error is logged.
+ */
+
+import { createHash } from "node:crypto";
+import type { RateLimitInfo } from "@/lib/types/discover";
+import { createMemoryRateLimitStore } from "./memory-store";
+import { createSupabaseRateLimitStore } from "./supabase-store";
+import type { BucketConfig, RateLimitScope, RateLimitStore } from "./types";
+import { processStore, resolveStoreKind } from "@/lib/discover/store-kind";
+
+export type {
+    BucketConfig,
+    BucketState,
+    BudgetDecision,
+    RateLimitDecision,
+    RateLimitScope,
+    RateLimitStore,
+    RateLimitStoreKind,
+} from "./types";
+export { createMemoryRateLimitStore } from "./memory-store";
+export { budgetDay, takeToken } from "./token-bucket";
+
+export function isRateLimitEnabled(): boolean {
+    return (process.env.DISCOVER_RATE_LIMIT || "").toLowerCase() !== "off";
+}
+
+function bucketFromEnv(prefix: string, burst: number, perMinute: number): BucketConfig {
+    return {
+        capacity: Number(process.env[`${prefix}_BURST`]) || burst,
+        refillPerSecond: (Number(process.env[`${prefix}_PER_MINUTE`]) || perMinute) / 60,
+    };
+}
+
+export function getRateLimitConfig(): Record<RateLimitScope, BucketConfig> {
+    return {
+        ip: bucketFromEnv("DISCOVER_RATE_LIMIT_IP", 20, 10),
+        session: bucketFromEnv("DISCOVER_RATE_LIMIT_SESSION", 10, 6),
+    };
+}
+
+/** null = unlimited */
+export function getDailyLLMBudget(): number | null {
+    const budget = Number(process.env.DISCOVER_LLM_DAILY_BUDGET);
+    return budget > 0 ? Math.floor(budget) : null;
+}
+
+export function createRateLimitStore(): RateLimitStore {
+    return resolveStoreKind("DISCOVER_RATE_LIMIT_STORE") === "supabase" ? createSupabaseRateLimitStore() : createMemoryRateLimitStore();
+}
+
+export const getRateLimitStore = processStore(createRateLimitStore, store => {
+    console.log("[discover][rate-limit] store", {
+        kind: store.kind,
+        enabled: isRateLimitEnabled(),
+        dailyLLMBudget: getDailyLLMBudget(),
+    });
+});
+
+function trustedProxyHops(): number {
+    const hops = Number(process.env.DISCOVER_TRUSTED_PROXY_HOPS);
+    return Number.isInteger(hops) && hops > 0 ? hops : 1;
+}
+
+/**
+ * Client address from the proxy headers, hashed so raw IPs are never stored. Earlier
+ * x-forwarded-for hops are whatever the client sent, so the key is the hop our outermost
+ * trusted proxy appended (DISCOVER_TRUSTED_PROXY_HOPS from the right), then x-real-ip.
+ * Requests without either share one bucket.
+ */
+export function clientIpKey(headers: Headers): string {
+    const hops = (headers.get("x-forwarded-for") ?? "").split(",").map(hop => hop.trim()).filter(Boolean);
+    const forwarded = hops[Math.max(0, hops.length - trustedProxyHops())];
+    const ip = forwarded || headers.get("x-real-ip")?.trim() || "unknown";
+    return createHash("sha256").update(ip).digest("hex").slice(0, 32);
+}
+
+/**
+ * Take one token from the IP bucket, then the session bucket (when the request has one).
+ * Returns the limit that was hit, or null when the request may proceed.
+ */
+export async function checkRateLimits(
+    keys: { ip: string; sessionId?: string | null },
+    store: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitInfo | null> {
+    if (!isRateLimitEnabled()) return null;
+    const config = getRateLimitConfig();
+    const checks: [RateLimitScope, string | null | undefined][] = [["ip", keys.ip], ["session", keys.sessionId]];
+
+    for (const [scope, key] of checks) {
+        if (!key) continue;
+        try {
+            const decision = await store.take(`${scope}:${key}`, config[scope]);
+            if (!decision.allowed) return { scope, retryAfterSeconds: decision.retryAfterSeconds };
+        } catch (error) {
+            console.error("[discover][rate-limit] check failed, allowing request:", error);
+            return null;
+        }
+    }
+    return null;
+}
+
+/**
+ * Count this chat turn against the daily LLM budget. false = budget used up for today,
+ * answer without the LLM.
+ */
+export async function consumeLLMBudget(store: RateLimitStore = getRateLimitStore()): Promise<boolean> {
+    const limit = getDailyLLMBudget();
+    if (limit === null) return true;
+    try {
+        const decision = await store.consumeDailyBudget(limit);
+        if (!decision.allowed) {
+            console.log("[discover][rate-limit] daily LLM budget exhausted", { used: decision.used, limit });
+        }
+        return decision.allowed;
+    } catch (error) {
+        console.error("[discover][rate-limit] budget check failed, allowing LLM:", error);
+        return true;
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * In-memory rate limit store for dev, tests and single-instance deploys
+ * (per process: each instance gets its own buckets and budget)
+ */
+
+import { budgetDay, secondsToFull, takeToken } from "./token-bucket";
+import type { BucketState, RateLimitStore } from "./types";
+
+/** Above this many buckets, idle (already refilled) ones are dropped */
+const PRUNE_THRESHOLD = 10_000;
+
+export function createMemoryRateLimitStore(opts: { now?: () => number } = {}): RateLimitStore {
+    const now = opts.now ?? Date.now;
+    const buckets = new Map<string, BucketState & { idleMs: number }>();
+    let budget = { day: "", used: 0 };
+
+    function pruneIdle(t: number) {
+        if (buckets.size < PRUNE_THRESHOLD) return;
+        for (const [key, bucket] of buckets) {
+            if (t - bucket.updatedAt >= bucket.idleMs) buckets.delete(key);
+        }
+    }
+
+    return {
+        kind: "memory",
+
+        async take(key, config) {
+            const t = now();
+            pruneIdle(t);
+            const { state, decision } = takeToken(buckets.get(key) ?? null, config, t);
+            buckets.set(key, { ...state, idleMs: secondsToFull(config) * 1000 });
+            return decision;
+        },
+
+        async consumeDailyBudget(limit) {
+            const day = budgetDay(now());
+            if (budget.day !== day) budget = { day, used: 0 };
+            if (budget.used >= limit) return { allowed: false, used: budget.used, limit };
+            budget.used += 1;
+            return { allowed: true, used: budget.used, limit };
+        },
+    };
+}
@@ -0,0 +1,54 @@
+/**
+ * Supabase rate limit store (shared by every instance; service role only - see migration 0062)
+ */
+
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import type { RateLimitStore } from "./types";
+
+interface TakeRow {
+    allowed: boolean;
+    remaining: number;
+    retry_after_seconds: number;
+}
+
+interface BudgetRow {
+    allowed: boolean;
+    used: number;
+    lim: number;
+}
+
+export function createSupabaseRateLimitStore(): RateLimitStore {
+    return {
+        kind: "supabase",
+
+        async take(key, config) {
+            const supabase = createServiceRoleClient();
+            const { data, error } = await supabase.rpc("discover_rate_limit_take", {
+                p_key: key,
+                p_capacity: config.capacity,
+                p_refill_per_second: config.refillPerSecond,
+            });
+
+            if (error) throw new Error(`Failed to take rate limit token: ${error.message}`);
+            const row = (Array.isArray(data) ? data[0] : data) as TakeRow | undefined;
+            if (!row) throw new Error("Failed to take rate limit token: empty result");
+
+            return {
+                allowed: row.allowed,
+                remaining: Math.floor(Number(row.remaining)),
+                retryAfterSeconds: Number(row.retry_after_seconds),
+            };
+        },
+
+        async consumeDailyBudget(limit) {
+            const supabase = createServiceRoleClient();
+            const { data, error } = await supabase.rpc("discover_consume_llm_budget", { p_limit: limit });
+
+            if (error) throw new Error(`Failed to consume LLM budget: ${error.message}`);
+            const row = (Array.isArray(data) ? data[0] : data) as BudgetRow | undefined;
+            if (!row) throw new Error("Failed to consume LLM budget: empty result");
+
+            return { allowed: row.allowed, used: row.used, limit: row.lim };
+        },
+    };
+}
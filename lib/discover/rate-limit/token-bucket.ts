@@ -0,0 +1,44 @@
+/**
+ * Token bucket arithmetic shared by the memory store and tests (the Supabase store
+ * runs the same steps inside discover_rate_limit_take, migration 0062)
+ */
+
+import type { BucketConfig, BucketState, RateLimitDecision } from "./types";
+
+/** A missing bucket starts full */
+export function takeToken(
+    state: BucketState | null,
+    config: BucketConfig,
+    now: number
+): { state: BucketState; decision: RateLimitDecision } {
+    const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+    const tokens = state
+        ? Math.min(config.capacity, state.tokens + elapsedSeconds * config.refillPerSecond)
+        : config.capacity;
+
+    if (tokens >= 1) {
+        return {
+            state: { tokens: tokens - 1, updatedAt: now },
+            decision: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 },
+        };
+    }
+
+    return {
+        state: { tokens, updatedAt: now },
+        decision: {
+            allowed: false,
+            remaining: 0,
+            retryAfterSeconds: Math.max(1, Math.ceil((1 - tokens) / config.refillPerSecond)),
+        },
+    };
+}
+
+/** Seconds until an idle bucket is full again, after which its state can be dropped */
+export function secondsToFull(config: BucketConfig): number {
+    return config.capacity / config.refillPerSecond;
+}
+
+/** "YYYY-MM-DD" of the UTC day the daily LLM budget counts against */
+export function budgetDay(now: number): string {
+    return new Date(now).toISOString().slice(0, 10);
+}
@@ -0,0 +1,46 @@
+/**
+ * Discover chat rate limit storage contract
+ *
+ * Token buckets per client IP and per chat session, plus one global counter of
+ * chat turns allowed to call the LLM per UTC day.
+ */
+
+export type { RateLimitScope } from "@/lib/types/discover";
+
+export type RateLimitStoreKind = "memory" | "supabase";
+
+export interface BucketConfig {
+    /** Burst size: requests allowed back to back from a full bucket */
+    capacity: number;
+    /** Sustained rate */
+    refillPerSecond: number;
+}
+
+export interface BucketState {
+    tokens: number;
+    /** Epoch ms of the last refill */
+    updatedAt: number;
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    /** Whole tokens left after this request */
+    remaining: number;
+    /** 0 when allowed, else seconds until one token is back */
+    retryAfterSeconds: number;
+}
+
+export interface BudgetDecision {
+    allowed: boolean;
+    /** Turns counted today, including this one when allowed */
+    used: number;
+    limit: number;
+}
+
+export interface RateLimitStore {
+    kind: RateLimitStoreKind;
+    /** Refill the bucket for key and take one token if there is one */
+    take(key: string, config: BucketConfig): Promise<RateLimitDecision>;
+    /** Count one LLM turn against today's (UTC) budget unless it is used up */
+    consumeDailyBudget(limit: number): Promise<BudgetDecision>;
+}
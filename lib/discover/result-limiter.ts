@@ -3,7 +3,8 @@
  * Never returns more than MAX_RESTAURANTS or MAX_DISHES_PER_RESTAURANT
  */
 
-import type { RestaurantCard, DishMatch } from "@/lib/types/discover";
+import type { RestaurantCard, DishMatch, SortOrder } from "@/lib/types/discover";
+import { sortCards } from "@/lib/discover/sort";
 
 // Configurable limits
 export const MAX_RESTAURANTS = 5;
@@ -27,18 +28,20 @@ export interface LimitedDiscoveryResult {
 
 /**
  * Limit discovery results to bounded, high-signal lists.
- * Pure shaping function - does not alter search logic.
+ * Pure shaping function - does not alter search logic. `sort` orders restaurants and
+ * dishes before cutting ("cheapest" keeps the cheapest dishes); best_match keeps the input order.
  */
 export function limitDiscoveryResults(
     restaurants: RestaurantCard[],
     maxRestaurants: number = MAX_RESTAURANTS,
-    maxDishesPerRestaurant: number = MAX_DISHES_PER_RESTAURANT
+    maxDishesPerRestaurant: number = MAX_DISHES_PER_RESTAURANT,
+    sort: SortOrder = "best_match"
 ): LimitedDiscoveryResult {
     const totalRestaurants = restaurants.length;
     const totalDishes = restaurants.reduce((sum, r) => sum + (r.matches?.length ?? 0), 0);
 
     // Limit restaurants
-    const limitedRestaurants = restaurants.slice(0, maxRestaurants);
+    const limitedRestaurants = sortCards(restaurants, sort).slice(0, maxRestaurants);
     const moreRestaurantsCount = Math.max(0, totalRestaurants - maxRestaurants);
 
     // Limit dishes per restaurant and add metadata
@@ -55,6 +58,7 @@ export function limitDiscoveryResults(
             highlight: r.highlight ?? null,
             address: r.address ?? null,
             distance_km: r.distance_km ?? null,
+            currency: r.currency,
             matches: limitedMatches,
             more_dishes_count: moreDishesCount,
             // Restaurant details
@@ -73,6 +77,7 @@ export function limitDiscoveryResults(
     });
 
     console.log("[result-limiter]", {
+        sort,
         inputRestaurants: totalRestaurants,
         outputRestaurants: shapedRestaurants.length,
         moreRestaurantsCount,
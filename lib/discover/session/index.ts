@@ -0,0 +1,38 @@
+/**
+ * Discover chat sessions: the store and the state helpers
+ *
+ *   DISCOVER_SESSION_STORE=supabase | memory
+ *   DISCOVER_SESSION_TTL_MINUTES   idle expiry, default 60
+ */
+
+import { createMemorySessionStore } from "./memory-store";
+import { createSupabaseSessionStore } from "./supabase-store";
+import type { SessionStore } from "./types";
+import { processStore, resolveStoreKind } from "@/lib/discover/store-kind";
+
+export type { ChatSession, SessionStore, SessionStoreKind } from "./types";
+export {
+    applyClientChatState,
+    collectServedDishIds,
+    hasShownRestaurant,
+    mergeServedDishIds,
+    pickClientChatState,
+    restrictToServedDishes,
+    type ClientChatState,
+} from "./state";
+
+export function getSessionTtlMs(): number {
+    const minutes = Number(process.env.DISCOVER_SESSION_TTL_MINUTES) || 60;
+    return minutes * 60 * 1000;
+}
+
+export function createSessionStore(): SessionStore {
+    const ttlMs = getSessionTtlMs();
+    return resolveStoreKind("DISCOVER_SESSION_STORE") === "supabase"
+        ? createSupabaseSessionStore({ ttlMs })
+        : createMemorySessionStore({ ttlMs });
+}
+
+export const getSessionStore = processStore(createSessionStore, store => {
+    console.log("[discover][session] store", { kind: store.kind, ttlMs: getSessionTtlMs() });
+});
@@ -0,0 +1,37 @@
+/**
+ * In-memory session store for dev and tests (per process, lost on restart)
+ */
+
+import type { ChatSession, SessionStore } from "./types";
+
+export function createMemorySessionStore(opts: {
+    ttlMs: number;
+    now?: () => number;
+}): SessionStore {
+    const now = opts.now ?? Date.now;
+    const sessions = new Map<string, ChatSession>();
+
+    function pruneExpired() {
+        const t = now();
+        for (const [id, session] of sessions) {
+            if (session.expiresAt <= t) sessions.delete(id);
+        }
+    }
+
+    return {
+        kind: "memory",
+
+        async get(id) {
+            pruneExpired();
+            const session = sessions.get(id);
+            // Hand out copies so callers cannot mutate stored state in place
+            return session ? structuredClone(session) : null;
+        },
+
+        async save(session) {
+            const saved: ChatSession = { ...structuredClone(session), expiresAt: now() + opts.ttlMs };
+            sessions.set(saved.id, saved);
+            return structuredClone(saved);
+        },
+    };
+}
@@ -0,0 +1,121 @@
+/**
+ * Session state helpers shared by the chat route and the discover page.
+ * No server imports: the client uses pickClientChatState to build requests.
+ */
+
+import type { ChatMessage, ChatState, DishMatch } from "@/lib/types/discover";
+
+/** Cap on remembered dish ids per session (oldest dropped first) */
+export const MAX_SERVED_DISH_IDS = 500;
+
+/**
+ * UI-owned fields the client may still send: focus pill, restaurant mode toggles
+ * and browser language. Everything else comes from the server-side session.
+ */
+export type ClientChatState = Pick<
+    ChatState,
+    "mode" | "currentRestaurantId" | "currentRestaurantName" | "restaurant_focus_id" | "preferred_language"
+>;
+
+export function pickClientChatState(state: Partial<ChatState> | null | undefined): ClientChatState {
+    return {
+        mode: state?.mode ?? "discovery",
+        currentRestaurantId: state?.currentRestaurantId ?? null,
+        currentRestaurantName: state?.currentRestaurantName ?? null,
+        restaurant_focus_id: state?.restaurant_focus_id ?? null,
+        preferred_language: state?.preferred_language ?? null,
+    };
+}
+
+/** Restaurants the stored state has put in front of the user (focus, profile, cards, results, cursors) */
+function shownRestaurantIds(state: ChatState): Set<string> {
+    const ids = [
+        state.currentRestaurantId,
+        state.restaurant_focus_id,
+        state.profile_restaurant_id,
+        ...(state.grounded?.restaurants ?? []).map(r => r.id),
+        ...(state.last_results ?? []).map(d => d.restaurant_id),
+        ...(state.restaurant_cursors ?? []).map(c => c.restaurant_id),
+    ];
+    return new Set(ids.filter((id): id is string => !!id));
+}
+
+export function hasShownRestaurant(state: ChatState, restaurantId: string): boolean {
+    return shownRestaurantIds(state).has(restaurantId);
+}
+
+/**
+ * The client's UI fields checked against the stored state. Leaving a restaurant is always
+ * allowed; focusing one only when the session has shown it, else the stored mode stands.
+ */
+export function applyClientChatState(stored: ChatState, client: Partial<ChatState> | null | undefined): ChatState {
+    if (!client) return stored;
+    const picked = pickClientChatState(client);
+    const shown = shownRestaurantIds(stored);
+    const next: ChatState = { ...stored, preferred_language: picked.preferred_language };
+
+    if (picked.mode === "discovery") {
+        Object.assign(next, { mode: "discovery", currentRestaurantId: null, currentRestaurantName: null });
+    } else if (picked.currentRestaurantId && shown.has(picked.currentRestaurantId)) {
+        Object.assign(next, {
+            mode: picked.mode,
+            currentRestaurantId: picked.currentRestaurantId,
+            currentRestaurantName: picked.currentRestaurantName,
+        });
+    }
+
+    next.restaurant_focus_id = picked.restaurant_focus_id && shown.has(picked.restaurant_focus_id) ? picked.restaurant_focus_id : null;
+    return next;
+}
+
+/**
+ * Dish ids a response body actually puts in front of the user:
+ * result cards, an inline menu, or dishes appended by a patch
+ */
+export function collectServedDishIds(body: {
+    message?: Partial<ChatMessage> | null;
+    appendDishes?: DishMatch[] | null;
+}): string[] {
+    const ids: string[] = [];
+    for (const card of body.message?.restaurants || []) {
+        for (const dish of card.matches || []) ids.push(dish.id);
+    }
+    for (const section of body.message?.menu?.sections || []) {
+        for (const item of section.items) ids.push(item.id);
+    }
+    for (const dish of body.appendDishes || []) ids.push(dish.id);
+    return ids.filter(Boolean);
+}
+
+/** Union keeping insertion order; newest ids win when over the cap */
+export function mergeServedDishIds(previous: string[], served: string[]): string[] {
+    const merged = [...new Set([...previous, ...served])];
+    return merged.length > MAX_SERVED_DISH_IDS ? merged.slice(-MAX_SERVED_DISH_IDS) : merged;
+}
+
+/**
+ * Drop any grounded dish the session never served, so follow-up answers
+ * can only reference dishes the user was actually shown
+ */
+export function restrictToServedDishes(state: ChatState, servedDishIds: string[]): ChatState {
+    const served = new Set(servedDishIds);
+    const restricted: ChatState = { ...state };
+
+    if (state.last_results) {
+        restricted.last_results = state.last_results.filter(d => served.has(d.dish_id));
+    }
+    if (state.grounded) {
+        restricted.grounded = {
+            ...state.grounded,
+            restaurants: state.grounded.restaurants
+                .map(r => ({ ...r, matches: (r.matches || []).filter(m => served.has(m.id)) })),
+        };
+    }
+    if (state.last_explain?.dishIds) {
+        restricted.last_explain = {
+            ...state.last_explain,
+            dishIds: state.last_explain.dishIds.filter(id => served.has(id)),
+        };
+    }
+    return restricted;
+}
@@ -0,0 +1,58 @@
+/**
+ * Supabase session store (discover_chat_sessions, service role only - see migration 0055)
+ */
+
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import type { ChatState } from "@/lib/types/discover";
+import type { SessionStore } from "./types";
+
+interface SessionRow {
+    id: string;
+    state: ChatState;
+    served_dish_ids: string[] | null;
+    expires_at: string;
+}
+
+export function createSupabaseSessionStore(opts: { ttlMs: number }): SessionStore {
+    return {
+        kind: "supabase",
+
+        async get(id) {
+            const supabase = createServiceRoleClient();
+            const { data, error } = await supabase
+                .from("discover_chat_sessions")
+                .select("id, state, served_dish_ids, expires_at")
+                .eq("id", id)
+                .gt("expires_at", new Date().toISOString())
+                .maybeSingle();
+
+            if (error) throw new Error(`Failed to load chat session: ${error.message}`);
+            if (!data) return null;
+
+            const row = data as SessionRow;
+            return {
+                id: row.id,
+                state: row.state,
+                servedDishIds: row.served_dish_ids || [],
+                expiresAt: Date.parse(row.expires_at),
+            };
+        },
+
+        async save(session) {
+            const supabase = createServiceRoleClient();
+            const expiresAt = Date.now() + opts.ttlMs;
+            const { error } = await supabase
+                .from("discover_chat_sessions")
+                .upsert({
+                    id: session.id,
+                    state: session.state,
+                    served_dish_ids: session.servedDishIds,
+                    expires_at: new Date(expiresAt).toISOString(),
+                    updated_at: new Date().toISOString(),
+                });
+
+            if (error) throw new Error(`Failed to save chat session: ${error.message}`);
+            return { ...session, expiresAt };
+        },
+    };
+}
@@ -0,0 +1,27 @@
+/**
+ * Discover chat session storage contract
+ *
+ * The client only holds an opaque session id. Grounded results, last_results,
+ * cursors and prefs live server-side so follow-ups cannot be fed forged dishes.
+ */
+
+import type { ChatState } from "@/lib/types/discover";
+
+export type SessionStoreKind = "memory" | "supabase";
+
+export interface ChatSession {
+    id: string;
+    state: ChatState;
+    /** Every dish id this session has sent to the client (follow-ups may only reference these) */
+    servedDishIds: string[];
+    /** Epoch ms; refreshed on every save (sliding TTL) */
+    expiresAt: number;
+}
+
+export interface SessionStore {
+    kind: SessionStoreKind;
+    /** null when the session does not exist or has expired */
+    get(id: string): Promise<ChatSession | null>;
+    /** Upsert and push expiry out by the store TTL */
+    save(session: Omit<ChatSession, "expiresAt">): Promise<ChatSession>;
+}
@@ -0,0 +1,94 @@
+/**
+ * Result order for discover: "cheapest biryani", "most expensive pizza", "closest sushi",
+ * "sort by price". Price order compares dishes in SEK (DISCOVER_FX_RATES), so a Helsinki
+ * soup in euro sorts among Stockholm dishes in kronor; unpriced dishes and restaurants
+ * without a distance go last. best_match keeps the search ranking.
+ */
+
+import type { DishMatch, RestaurantCard, SortOrder } from "@/lib/types/discover";
+import { convertMoney, getRateTable, money, type RateTable } from "@/lib/discover/money";
+
+export type { SortOrder };
+
+export const SORT_ORDERS: SortOrder[] = ["best_match", "price_asc", "price_desc", "distance"];
+
+// First match wins; "closest to Centralstationen" is a landmark, not an order
+const SORT_PATTERNS: { sort: SortOrder; pattern: RegExp }[] = [
+    { sort: "price_desc", pattern: /(?<![\p{L}])(?:most\s+expensive|priciest|highest[\s-]+priced?|(?:sort(?:ed)?\s+by\s+)?price\s+high\s+to\s+low|dyrast[e]?|högsta\s+pris(?:et)?)(?![\p{L}])/iu },
+    { sort: "price_asc", pattern: /(?<![\p{L}])(?:cheapest|least\s+expensive|lowest[\s-]+priced?|(?:sort(?:ed)?\s+by\s+)?price\s+low\s+to\s+high|sort(?:ed)?\s+by\s+price|billigast[e]?|lägsta\s+pris(?:et)?|sortera\s+(?:efter|på)\s+pris)(?![\p{L}])/iu },
+    { sort: "distance", pattern: /(?<![\p{L}])(?:(?:closest|nearest)(?!\s+to\b)|sort(?:ed)?\s+by\s+distance|närmast[e]?(?!\s+till\b)|sortera\s+(?:efter|på)\s+avstånd)(?![\p{L}])/iu },
+    { sort: "best_match", pattern: /(?<![\p{L}])(?:best\s+match(?:es)?|most\s+relevant|sort(?:ed)?\s+by\s+relevance|bästa\s+träff(?:ar)?)(?![\p{L}])/iu },
+];
+
+export function isSortOrder(raw: unknown): raw is SortOrder {
+    return typeof raw === "string" && (SORT_ORDERS as string[]).includes(raw);
+}
+
+/** The order a query asks for, or null */
+export function detectSort(query: string): SortOrder | null {
+    return SORT_PATTERNS.find(({ pattern }) => pattern.test(query))?.sort ?? null;
+}
+
+/** "cheapest biryani" -> "biryani" */
+export function stripSortPhrases(text: string): string {
+    return SORT_PATTERNS
+        .reduce((rest, { pattern }) => rest.replace(new RegExp(pattern.source, "giu"), " "), text)
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+// Words around a bare sort request: "show the cheapest first", "sortera efter pris tack"
+const SORT_FILLER = new Set(["show", "me", "the", "them", "results", "first", "please", "order", "in", "by", "sort", "visa", "först", "tack", "dem"]);
+
+/** "sort by price", "show the cheapest first": an order for the last results, with no new search terms */
+export function isSortOnlyQuery(query: string): boolean {
+    if (!detectSort(query)) return false;
+    return stripSortPhrases(query.toLowerCase())
+        .split(/[^\p{L}\d]+/u)
+        .every(word => !word || SORT_FILLER.has(word));
+}
+
+/** Dish price in SEK; null for unpriced dishes */
+function priceInSek(dish: DishMatch, card: RestaurantCard, rates: RateTable): number | null {
+    const price = dish.price_money ?? money(dish.price ?? 0, card.currency);
+    return price.amount > 0 ? convertMoney(price, "SEK", rates).amount : null;
+}
+
+/** Nulls last in either direction */
+function compareNullable(a: number | null, b: number | null, direction: 1 | -1): number {
+    if (a === null || b === null) return Number(a === null) - Number(b === null);
+    return (a - b) * direction;
+}
+
+function sortDishesByPrice(card: RestaurantCard, direction: 1 | -1, rates: RateTable): RestaurantCard {
+    const matches = card.matches ?? [];
+    if (matches.length < 2) return card;
+    const sorted = [...matches].sort((a, b) => compareNullable(priceInSek(a, card, rates), priceInSek(b, card, rates), direction));
+    return {
+        ...card,
+        matches: sorted,
+        // The highlight follows the top match
+        highlight: sorted[0].id !== matches[0].id ? sorted[0].name : card.highlight,
+    };
+}
+
+/**
+ * Cards (and each card's dishes) in the given order. Price order puts each restaurant's
+ * cheapest (or most expensive) match first and ranks restaurants by it; ties keep the
+ * incoming order
+ */
+export function sortCards(cards: RestaurantCard[], sort: SortOrder, rates: RateTable = getRateTable()): RestaurantCard[] {
+    if (sort === "best_match") return cards;
+    if (sort === "distance") {
+        return [...cards].sort((a, b) => compareNullable(a.distance_km ?? null, b.distance_km ?? null, 1));
+    }
+
+    const direction = sort === "price_asc" ? 1 : -1;
+    const topPrice = (card: RestaurantCard) => {
+        const top = card.matches?.[0];
+        return top ? priceInSek(top, card, rates) : null;
+    };
+    return cards
+        .map(card => sortDishesByPrice(card, direction, rates))
+        .sort((a, b) => compareNullable(topPrice(a), topPrice(b), direction));
+}
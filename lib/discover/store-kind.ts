@@ -0,0 +1,25 @@
+/**
+ * Backing store selection for the discover stores (sessions, profiles, orders, rate limits,
+ * analytics). Each reads its own DISCOVER_*_STORE=supabase | memory; unset, it is supabase
+ * when SUPABASE_SERVICE_ROLE_KEY is set, else memory.
+ */
+
+export type DiscoverStoreKind = "memory" | "supabase";
+
+export function resolveStoreKind(envVar: string): DiscoverStoreKind {
+    const raw = (process.env[envVar] || "").toLowerCase();
+    if (raw === "memory" || raw === "supabase") return raw;
+    return process.env.SUPABASE_SERVICE_ROLE_KEY ? "supabase" : "memory";
+}
+
+/** Getter for a store created on first use and then shared by the whole process */
+export function processStore<T>(create: () => T, onCreate?: (store: T) => void): () => T {
+    let store: T | null = null;
+    return () => {
+        if (!store) {
+            store = create();
+            onCreate?.(store);
+        }
+        return store;
+    };
+}
@@ -0,0 +1,134 @@
+/**
+ * Discover Stream - Server-Sent Events transport for /api/discover/chat
+ *
+ * Streaming is opt-in (Accept: text/event-stream or ?stream=1). The plain JSON
+ * response stays the default so the hero scripts keep working unchanged.
+ */
+
+import type { ChatMessage, DiscoverStreamEvent } from "@/lib/types/discover";
+
+export type StreamEmit = (event: DiscoverStreamEvent) => void;
+
+/**
+ * True when the client asked for the SSE variant of the chat response
+ */
+export function wantsEventStream(request: Request): boolean {
+    const accept = request.headers.get("accept") || "";
+    if (accept.includes("text/event-stream")) return true;
+    return new URL(request.url).searchParams.get("stream") === "1";
+}
+
+function encodeEvent(event: DiscoverStreamEvent): string {
+    return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Push the reply text and chips of a finished handler response, ahead of the final
+ * "message" event (which still waits for the session commit). Patches have neither.
+ */
+export async function emitSummary(response: Response, emit: StreamEmit): Promise<void> {
+    if (!response.ok) return;
+    let message: Partial<ChatMessage> | undefined;
+    try {
+        message = (await response.clone().json())?.message;
+    } catch {
+        return;
+    }
+    if (typeof message?.content !== "string") return;
+    emit({ type: "summary", content: message.content, followupChips: message.followupChips ?? [] });
+}
+
+/**
+ * Run the chat pipeline and stream its intermediate events.
+ * The pipeline still returns its normal JSON Response; that body is forwarded
+ * as the final "message" event so both modes share one code path.
+ */
+export function createDiscoverStream(run: (emit: StreamEmit) => Promise<Response>): Response {
+    const encoder = new TextEncoder();
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const emit: StreamEmit = (event) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(encodeEvent(event)));
+                } catch {
+                    // Client went away - keep running, just stop writing
+                    closed = true;
+                }
+            };
+
+            try {
+                const response = await run(emit);
+                const body = await response.json();
+                emit({ type: "message", status: response.status, response: body });
+            } catch (error) {
+                console.error("[discover][stream] Pipeline error:", error);
+                emit({ type: "error", error: error instanceof Error ? error.message : "Stream failed" });
+            } finally {
+                if (!closed) {
+                    closed = true;
+                    controller.close();
+                }
+            }
+        },
+        cancel() {
+            // Client went away - the pipeline still finishes (session commit), unheard
+            closed = true;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
+
+/**
+ * Client-side reader: parses SSE frames from a fetch() body and calls onEvent
+ * for each one, in order. Resolves once the stream ends.
+ */
+export async function readDiscoverStream(
+    response: Response,
+    onEvent: (event: DiscoverStreamEvent) => void
+): Promise<void> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const flushFrame = (frame: string) => {
+        const data = frame
+            .split("\n")
+            .filter(line => line.startsWith("data:"))
+            .map(line => line.slice(5).trimStart())
+            .join("\n");
+        if (!data) return;
+        try {
+            onEvent(JSON.parse(data) as DiscoverStreamEvent);
+        } catch (e) {
+            console.error("[discover][stream] Bad frame:", e);
+        }
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+            flushFrame(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf("\n\n");
+        }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) flushFrame(buffer);
+}
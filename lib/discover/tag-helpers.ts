@@ -33,4 +33,5 @@ export function groupDishTags(tags: TagInfo[] | undefined) {
 export const DISCLAIMERS = {
     allergen: "Allergy info is based on tags. Confirm with the restaurant about cross-contamination.",
     freeFrom: "Free-from labels are based on tags. Confirm cross-contamination if allergy is severe.",
+    allergenScreen: "Dishes tagged with your allergens are hidden. Untagged dishes are marked unknown. Always confirm with the restaurant.",
 };
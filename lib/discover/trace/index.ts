@@ -0,0 +1,54 @@
+/**
+ * Discover request tracing (one trace per chat request, env-driven output)
+ *
+ *   DISCOVER_TRACE_LOG=json | off   one JSON log line per finished trace, default json
+ *   DISCOVER_TRACE_BUFFER           recent traces kept per process for /discover/trace,
+ *                                   default 200 (0 = none)
+ *   DISCOVER_TRACE_DEBUG=1          serve /discover/trace in production
+ */
+
+import { createMemoryTraceStore } from "./memory-store";
+import type { TraceRecord, TraceStore } from "./types";
+
+export type { Span, SpanAttributes, SpanAttributeValue, SpanRecord, Trace, TraceRecord, TraceStore } from "./types";
+export type { SpanNode } from "./tree";
+export { createTrace } from "./tracer";
+export { buildSpanTree } from "./tree";
+export { createMemoryTraceStore } from "./memory-store";
+
+/** Incoming ids (from a proxy or the client) are only recorded when they look like ids */
+const REQUEST_ID_RE = /^[A-Za-z0-9._:-]{8,128}$/;
+
+// Kept on globalThis: Next.js bundles the chat route and the debug page separately,
+// so a module-level variable would give each its own (empty) store
+const globalForTraces = globalThis as typeof globalThis & { __discoverTraceStore?: TraceStore };
+
+export function getTraceStore(): TraceStore {
+    if (!globalForTraces.__discoverTraceStore) {
+        const raw = process.env.DISCOVER_TRACE_BUFFER;
+        const maxTraces = raw === undefined || raw === "" ? 200 : Math.max(0, Number(raw) || 0);
+        globalForTraces.__discoverTraceStore = createMemoryTraceStore({ maxTraces });
+    }
+    return globalForTraces.__discoverTraceStore;
+}
+
+export function isTraceDebugEnabled(): boolean {
+    return process.env.NODE_ENV !== "production" || process.env.DISCOVER_TRACE_DEBUG === "1";
+}
+
+/**
+ * The caller's x-request-id when usable, for correlating with a proxy. Never the trace id:
+ * that is always generated here, so a client cannot overwrite another request's trace
+ */
+export function clientRequestIdFrom(headers: Headers): string | null {
+    const incoming = headers.get("x-request-id")?.trim();
+    return incoming && REQUEST_ID_RE.test(incoming) ? incoming : null;
+}
+
+/** Log (as a single JSON line) and keep a finished trace */
+export function recordTrace(trace: TraceRecord): void {
+    if ((process.env.DISCOVER_TRACE_LOG || "json").toLowerCase() !== "off") {
+        console.log(JSON.stringify({ type: "discover.trace", ...trace }));
+    }
+    getTraceStore().save(trace);
+}
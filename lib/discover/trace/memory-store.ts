@@ -0,0 +1,29 @@
+/**
+ * Recent traces kept in memory for the debug page (per process, lost on restart)
+ */
+
+import type { TraceRecord, TraceStore } from "./types";
+
+export function createMemoryTraceStore(opts: { maxTraces: number }): TraceStore {
+    // Map keeps insertion order: the first key is the oldest trace
+    const traces = new Map<string, TraceRecord>();
+
+    return {
+        save(trace) {
+            if (opts.maxTraces <= 0) return;
+            traces.delete(trace.requestId);
+            traces.set(trace.requestId, trace);
+            while (traces.size > opts.maxTraces) {
+                traces.delete(traces.keys().next().value as string);
+            }
+        },
+
+        get(requestId) {
+            return traces.get(requestId) ?? null;
+        },
+
+        recent(limit = opts.maxTraces) {
+            return [...traces.values()].reverse().slice(0, limit);
+        },
+    };
+}
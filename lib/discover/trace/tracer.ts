@@ -0,0 +1,131 @@
+/**
+ * In-process tracer: spans are plain records on the trace, threaded through the
+ * chat pipeline on the request context (no global or async-local state)
+ */
+
+import type { Span, SpanAttributes, SpanAttributeValue, SpanRecord, Trace, TraceRecord } from "./types";
+
+/** Bounds a runaway loop; later spans are counted in droppedSpans instead */
+const MAX_SPANS = 200;
+
+function cleanAttributes(attributes: SpanAttributes | undefined): Record<string, SpanAttributeValue> {
+    const clean: Record<string, SpanAttributeValue> = {};
+    for (const [key, value] of Object.entries(attributes ?? {})) {
+        if (value !== undefined) clean[key] = value;
+    }
+    return clean;
+}
+
+function roundMs(ms: number): number {
+    return Math.round(ms * 10) / 10;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+export function createTrace(opts: {
+    name: string;
+    requestId: string;
+    /** Monotonic ms, default performance.now */
+    now?: () => number;
+    /** Wall clock for startedAt, default Date.now */
+    clock?: () => number;
+}): Trace {
+    const now = opts.now ?? (() => performance.now());
+    const startedAt = new Date((opts.clock ?? Date.now)()).toISOString();
+    const t0 = now();
+    const spans: SpanRecord[] = [];
+    const open = new Set<SpanRecord>();
+    let droppedSpans = 0;
+    let finished: TraceRecord | null = null;
+
+    const noopSpan: Span = {
+        id: "dropped",
+        start: () => noopSpan,
+        run: async (_name, fn) => fn(noopSpan),
+        set: () => {},
+        end: () => {},
+        fail: () => {},
+    };
+
+    function openSpan(name: string, parentId: string | null, attributes?: SpanAttributes): Span {
+        if (finished || spans.length >= MAX_SPANS) {
+            droppedSpans += 1;
+            return noopSpan;
+        }
+
+        const record: SpanRecord = {
+            id: String(spans.length + 1),
+            parentId,
+            name,
+            startMs: now() - t0,
+            durationMs: 0,
+            attributes: cleanAttributes(attributes),
+        };
+        spans.push(record);
+        open.add(record);
+
+        const span: Span = {
+            id: record.id,
+            start: (childName, childAttributes) => openSpan(childName, record.id, childAttributes),
+            async run(childName, fn, childAttributes) {
+                const child = span.start(childName, childAttributes);
+                try {
+                    const result = await fn(child);
+                    child.end();
+                    return result;
+                } catch (error) {
+                    child.fail(error);
+                    throw error;
+                }
+            },
+            set(more) {
+                Object.assign(record.attributes, cleanAttributes(more));
+            },
+            end(more) {
+                if (!open.has(record)) return;
+                span.set(more ?? {});
+                record.durationMs = now() - t0 - record.startMs;
+                open.delete(record);
+            },
+            fail(error) {
+                record.error = errorMessage(error);
+                span.end();
+            },
+        };
+        return span;
+    }
+
+    const root = openSpan(opts.name, null);
+
+    return {
+        ...root,
+        requestId: opts.requestId,
+
+        finish(attributes) {
+            if (finished) return finished;
+            root.end(attributes);
+            const end = now() - t0;
+            for (const record of open) {
+                record.durationMs = end - record.startMs;
+                record.unfinished = true;
+            }
+            open.clear();
+            for (const record of spans) {
+                record.startMs = roundMs(record.startMs);
+                record.durationMs = roundMs(record.durationMs);
+            }
+
+            finished = {
+                requestId: opts.requestId,
+                name: opts.name,
+                startedAt,
+                durationMs: spans[0].durationMs,
+                spans,
+                droppedSpans,
+            };
+            return finished;
+        },
+    };
+}
@@ -0,0 +1,24 @@
+/**
+ * Trace record -> span tree, for the debug page
+ */
+
+import type { SpanRecord, TraceRecord } from "./types";
+
+export interface SpanNode {
+    span: SpanRecord;
+    children: SpanNode[];
+}
+
+/** Roots first (normally just the request span); children in start order */
+export function buildSpanTree(trace: TraceRecord): SpanNode[] {
+    const nodes = new Map<string, SpanNode>();
+    for (const span of trace.spans) nodes.set(span.id, { span, children: [] });
+
+    const roots: SpanNode[] = [];
+    for (const node of nodes.values()) {
+        const parent = node.span.parentId ? nodes.get(node.span.parentId) : undefined;
+        if (parent) parent.children.push(node);
+        else roots.push(node);
+    }
+    return roots;
+}
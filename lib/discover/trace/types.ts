@@ -0,0 +1,60 @@
+/**
+ * Discover request traces: one span per pipeline stage (intent parse, planner,
+ * tag resolution, retrieval, finalize, translation ...), keyed by request id
+ */
+
+export type SpanAttributeValue = string | number | boolean | null | string[];
+
+/** undefined values are skipped, so optional fields can be passed as-is */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export interface SpanRecord {
+    id: string;
+    /** null for the root span */
+    parentId: string | null;
+    name: string;
+    /** Offset from the start of the trace */
+    startMs: number;
+    durationMs: number;
+    attributes: Record<string, SpanAttributeValue>;
+    error?: string;
+    /** Still open when the trace finished (a stage returned early without ending it) */
+    unfinished?: boolean;
+}
+
+export interface TraceRecord {
+    requestId: string;
+    name: string;
+    /** ISO timestamp */
+    startedAt: string;
+    durationMs: number;
+    /** Root span first, the rest in start order */
+    spans: SpanRecord[];
+    /** Spans not recorded because the trace hit its span cap */
+    droppedSpans: number;
+}
+
+export interface Span {
+    readonly id: string;
+    /** Open a child span; call end() (or fail()) on it */
+    start(name: string, attributes?: SpanAttributes): Span;
+    /** Run fn inside a child span, ended when fn settles; errors are recorded and rethrown */
+    run<T>(name: string, fn: (span: Span) => Promise<T> | T, attributes?: SpanAttributes): Promise<T>;
+    set(attributes: SpanAttributes): void;
+    end(attributes?: SpanAttributes): void;
+    fail(error: unknown): void;
+}
+
+/** The root span of a request */
+export interface Trace extends Span {
+    readonly requestId: string;
+    /** End the root span (and any still open) and return the record */
+    finish(attributes?: SpanAttributes): TraceRecord;
+}
+
+export interface TraceStore {
+    save(trace: TraceRecord): void;
+    get(requestId: string): TraceRecord | null;
+    /** Newest first */
+    recent(limit?: number): TraceRecord[];
+}
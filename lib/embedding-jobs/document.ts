@@ -0,0 +1,106 @@
+/**
+ * Embedding documents: the text a dish is embedded from, built from a versioned template
+ *
+ * The template version is stored next to each vector (dishes.embedding_version)
+ * and is part of the content hash, so switching templates re-embeds every dish.
+ *
+ *   EMBEDDING_TEMPLATE=v1 | v2   (default v2)
+ */
+
+import { createHash } from "node:crypto";
+import type { DishEmbeddingSource } from "./types";
+
+export type EmbeddingField = "name" | "description" | "aliases" | "section" | "cuisine" | "tags" | "tag_aliases";
+
+export interface EmbeddingTemplate {
+    version: string;
+    /** Rendered in this order, one line per non-empty field (name and description share the first line) */
+    fields: EmbeddingField[];
+}
+
+export const EMBEDDING_TEMPLATES: Record<string, EmbeddingTemplate> = {
+    v1: { version: "v1", fields: ["name", "description", "section", "tags"] },
+    v2: { version: "v2", fields: ["name", "description", "aliases", "section", "cuisine", "tags", "tag_aliases"] },
+};
+
+export const DEFAULT_EMBEDDING_TEMPLATE = "v2";
+
+type EmbeddingContent = Pick<
+    DishEmbeddingSource,
+    "name" | "description" | "sectionName" | "tags" | "aliases" | "tagAliases" | "cuisine"
+>;
+
+const FIELD_LABELS: Record<Exclude<EmbeddingField, "name" | "description">, string> = {
+    aliases: "Also known as",
+    section: "Section",
+    cuisine: "Cuisine",
+    tags: "Tags",
+    tag_aliases: "Tag aliases",
+};
+
+export function resolveEmbeddingTemplate(name: string | undefined = process.env.EMBEDDING_TEMPLATE): EmbeddingTemplate {
+    const key = (name || DEFAULT_EMBEDDING_TEMPLATE).trim().toLowerCase();
+    const template = EMBEDDING_TEMPLATES[key];
+    if (!template) {
+        throw new Error(
+            `Unknown EMBEDDING_TEMPLATE "${name}" (available: ${Object.keys(EMBEDDING_TEMPLATES).join(", ")})`
+        );
+    }
+    return template;
+}
+
+function clean(value: string | null | undefined): string {
+    return (value ?? "").replace(/\s+/g, " ").trim();
+}
+
+function normalizedList(values: string[], lowercase: boolean): string[] {
+    const seen = new Map<string, string>();
+    for (const value of values) {
+        const cleaned = clean(value);
+        const key = cleaned.toLowerCase();
+        if (cleaned && !seen.has(key)) seen.set(key, lowercase ? key : cleaned);
+    }
+    return [...seen.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, value]) => value);
+}
+
+function fieldValue(dish: EmbeddingContent, field: Exclude<EmbeddingField, "name" | "description">): string {
+    switch (field) {
+        case "aliases": {
+            // A dish's own name is not an alias
+            const name = clean(dish.name).toLowerCase();
+            return normalizedList(dish.aliases, false).filter(alias => alias.toLowerCase() !== name).join(", ");
+        }
+        case "section":
+            return clean(dish.sectionName);
+        case "cuisine":
+            return clean(dish.cuisine);
+        case "tags":
+            return normalizedList(dish.tags, true).join(", ");
+        case "tag_aliases": {
+            const tags = new Set(normalizedList(dish.tags, true));
+            return normalizedList(dish.tagAliases, true).filter(alias => !tags.has(alias)).join(", ");
+        }
+    }
+}
+
+/** Empty string when the dish has nothing to embed */
+export function buildEmbeddingText(dish: EmbeddingContent, template: EmbeddingTemplate = resolveEmbeddingTemplate()): string {
+    const name = template.fields.includes("name") ? clean(dish.name) : "";
+    const description = template.fields.includes("description") ? clean(dish.description) : "";
+    if (!name && !description) return "";
+
+    const lines = [[name, description].filter(Boolean).join(" ")];
+    for (const field of template.fields) {
+        if (field === "name" || field === "description") continue;
+        const value = fieldValue(dish, field);
+        if (value) lines.push(`${FIELD_LABELS[field]}: ${value}`);
+    }
+    return lines.join("\n");
+}
+
+/** Stable under whitespace and list order/case; changes with the embedded text or the template version */
+export function embeddingContentHash(dish: EmbeddingContent, template: EmbeddingTemplate = resolveEmbeddingTemplate()): string {
+    return createHash("sha256")
+        .update(`${template.version}\n${buildEmbeddingText(dish, template)}`)
+        .digest("hex");
+}
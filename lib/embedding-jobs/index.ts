@@ -0,0 +1,29 @@
+/**
+ * Incremental dish embeddings (queue worker, versioned documents, content hashes, coverage report)
+ */
+
+export type {
+    DishEmbeddingSource,
+    EmbeddingBatchStats,
+    EmbeddingJob,
+    EmbeddingJobResult,
+    EmbeddingJobStore,
+    RestaurantEmbeddingCoverage,
+} from "./types";
+export {
+    DEFAULT_EMBEDDING_TEMPLATE,
+    EMBEDDING_TEMPLATES,
+    buildEmbeddingText,
+    embeddingContentHash,
+    resolveEmbeddingTemplate,
+} from "./document";
+export type { EmbeddingField, EmbeddingTemplate } from "./document";
+export { createSupabaseEmbeddingJobStore } from "./supabase-store";
+export {
+    DEFAULT_BATCH_SIZE,
+    DEFAULT_LEASE_SECONDS,
+    processEmbeddingBatch,
+    retryDelayMinutes,
+    runEmbeddingWorker,
+} from "./worker";
+export type { EmbeddingBatchOptions, EmbeddingWorkerOptions } from "./worker";
@@ -0,0 +1,168 @@
+/**
+ * Supabase embedding job store (dish_embedding_queue + RPCs, service role only - see migrations 0059, 0060)
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import type {
+    DishEmbeddingSource,
+    EmbeddingJob,
+    EmbeddingJobStore,
+    RestaurantEmbeddingCoverage,
+} from "./types";
+
+interface ClaimRow {
+    dish_id: string;
+    enqueued_at: string;
+    attempts: number;
+}
+
+interface DishRow {
+    id: string;
+    name: string;
+    description: string | null;
+    public: boolean | null;
+    aliases: string[] | null;
+    embedding_hash: string | null;
+    sections: { name: string | null } | null;
+    menus: { restaurants: { cuisine_type: string | null } | null } | null;
+    dish_tags: Array<{ tags: { name: string | null; slug: string | null; type: string | null } | null }> | null;
+}
+
+interface TagAliasRow {
+    alias: string;
+    tag_type: string;
+    tag_slug: string;
+}
+
+interface CoverageRow {
+    restaurant_id: string;
+    restaurant_name: string;
+    public_dishes: number | string;
+    embedded: number | string;
+    missing: number | string;
+    stale: number | string;
+    outdated: number | string;
+    queued: number | string;
+    failed: number | string;
+    oldest_queued_at: string | null;
+    last_embedded_at: string | null;
+}
+
+export function createSupabaseEmbeddingJobStore(supabase: SupabaseClient): EmbeddingJobStore {
+    return {
+        async claim(batchSize, leaseSeconds) {
+            const { data, error } = await supabase.rpc("claim_dish_embedding_jobs", {
+                batch_size: batchSize,
+                lease_seconds: leaseSeconds,
+            });
+            if (error) throw new Error(`Failed to claim embedding jobs: ${error.message}`);
+            return ((data ?? []) as ClaimRow[]).map(row => ({
+                dishId: row.dish_id,
+                enqueuedAt: row.enqueued_at,
+                attempts: row.attempts,
+            }));
+        },
+
+        async loadDishes(dishIds) {
+            if (dishIds.length === 0) return [];
+            const { data, error } = await supabase
+                .from("dishes")
+                .select(
+                    "id, name, description, public, aliases, embedding_hash, sections(name), " +
+                    "menus(restaurants(cuisine_type)), dish_tags(tags(name, slug, type))"
+                )
+                .in("id", dishIds);
+            if (error) throw new Error(`Failed to load dishes for embedding: ${error.message}`);
+            const rows = (data ?? []) as unknown as DishRow[];
+
+            // tag_aliases is keyed by (type, slug), not by tag id
+            const slugs = new Set<string>();
+            for (const row of rows) {
+                for (const link of row.dish_tags ?? []) {
+                    if (link.tags?.slug) slugs.add(link.tags.slug);
+                }
+            }
+            const aliasesByTag = new Map<string, string[]>();
+            if (slugs.size > 0) {
+                const { data: aliasRows, error: aliasError } = await supabase
+                    .from("tag_aliases")
+                    .select("alias, tag_type, tag_slug")
+                    .in("tag_slug", [...slugs]);
+                if (aliasError) throw new Error(`Failed to load tag aliases: ${aliasError.message}`);
+                for (const alias of (aliasRows ?? []) as TagAliasRow[]) {
+                    const key = `${alias.tag_type}:${alias.tag_slug}`;
+                    aliasesByTag.set(key, [...(aliasesByTag.get(key) ?? []), alias.alias]);
+                }
+            }
+
+            return rows.map((row): DishEmbeddingSource => {
+                const tags = (row.dish_tags ?? []).map(link => link.tags).filter(tag => tag !== null);
+                return {
+                    id: row.id,
+                    name: row.name,
+                    description: row.description,
+                    sectionName: row.sections?.name ?? null,
+                    tags: tags.map(tag => tag.name).filter((name): name is string => Boolean(name)),
+                    aliases: row.aliases ?? [],
+                    tagAliases: tags.flatMap(tag => aliasesByTag.get(`${tag.type}:${tag.slug}`) ?? []),
+                    cuisine: row.menus?.restaurants?.cuisine_type ?? null,
+                    isPublic: row.public === true,
+                    embeddingHash: row.embedding_hash,
+                };
+            });
+        },
+
+        async complete(results) {
+            if (results.length === 0) return;
+            const { error } = await supabase.rpc("complete_dish_embedding_jobs", {
+                p_rows: results.map(result => ({
+                    dish_id: result.job.dishId,
+                    enqueued_at: result.job.enqueuedAt,
+                    embedding: result.embedding,
+                    hash: result.hash,
+                    version: result.version,
+                })),
+            });
+            if (error) throw new Error(`Failed to store embeddings: ${error.message}`);
+        },
+
+        async fail(jobs: EmbeddingJob[], message, retryAt) {
+            if (jobs.length === 0) return;
+            const { error } = await supabase
+                .from("dish_embedding_queue")
+                .update({ last_error: message.slice(0, 1000), locked_until: retryAt.toISOString() })
+                .in("dish_id", jobs.map(job => job.dishId));
+            if (error) throw new Error(`Failed to record embedding failure: ${error.message}`);
+        },
+
+        async coverage(version) {
+            const { data, error } = await supabase.rpc("dish_embedding_coverage", { p_version: version });
+            if (error) throw new Error(`Failed to load embedding coverage: ${error.message}`);
+            return ((data ?? []) as CoverageRow[]).map((row): RestaurantEmbeddingCoverage => ({
+                restaurantId: row.restaurant_id,
+                restaurantName: row.restaurant_name,
+                publicDishes: Number(row.public_dishes),
+                embedded: Number(row.embedded),
+                missing: Number(row.missing),
+                stale: Number(row.stale),
+                outdated: Number(row.outdated),
+                queued: Number(row.queued),
+                failed: Number(row.failed),
+                oldestQueuedAt: row.oldest_queued_at,
+                lastEmbeddedAt: row.last_embedded_at,
+            }));
+        },
+
+        async enqueueStale(version) {
+            const { data, error } = await supabase.rpc("enqueue_stale_dish_embeddings", { p_version: version });
+            if (error) throw new Error(`Failed to enqueue stale embeddings: ${error.message}`);
+            return Number(data ?? 0);
+        },
+
+        async retryFailed() {
+            const { data, error } = await supabase.rpc("retry_failed_dish_embedding_jobs");
+            if (error) throw new Error(`Failed to retry embedding jobs: ${error.message}`);
+            return Number(data ?? 0);
+        },
+    };
+}
@@ -0,0 +1,80 @@
+/**
+ * Incremental dish embedding pipeline contract
+ *
+ * Triggers on dishes, sections, dish_tags, tag_aliases and restaurant
+ * cuisine put changed dishes on a queue (migrations 0059, 0060). A worker
+ * claims batches, rebuilds the embedded text from the configured template
+ * (document.ts), skips dishes whose content hash is unchanged and embeds
+ * the rest in one batch call.
+ */
+
+/** A leased queue row; enqueuedAt identifies the version that was claimed */
+export interface EmbeddingJob {
+    dishId: string;
+    enqueuedAt: string;
+    attempts: number;
+}
+
+/** Everything that goes into a dish's embedded text, plus its current hash */
+export interface DishEmbeddingSource {
+    id: string;
+    name: string;
+    description: string | null;
+    sectionName: string | null;
+    tags: string[];
+    /** Translated or alternative dish names (dishes.aliases) */
+    aliases: string[];
+    /** tag_aliases rows for the dish's tags ("glutenfri", "vegansk") */
+    tagAliases: string[];
+    /** restaurants.cuisine_type */
+    cuisine: string | null;
+    isPublic: boolean;
+    embeddingHash: string | null;
+}
+
+export interface EmbeddingJobResult {
+    job: EmbeddingJob;
+    /** null dequeues without writing a vector (unchanged content, non-public or deleted dish) */
+    embedding: number[] | null;
+    hash: string | null;
+    /** Template version the vector was built with */
+    version: string | null;
+}
+
+export interface RestaurantEmbeddingCoverage {
+    restaurantId: string;
+    restaurantName: string;
+    publicDishes: number;
+    embedded: number;
+    missing: number;
+    /** Has a vector, but content changed since (queued) or predates content hashes */
+    stale: number;
+    /** Has a vector built with a different template than the current one */
+    outdated: number;
+    queued: number;
+    failed: number;
+    oldestQueuedAt: string | null;
+    lastEmbeddedAt: string | null;
+}
+
+export interface EmbeddingJobStore {
+    claim(batchSize: number, leaseSeconds: number): Promise<EmbeddingJob[]>;
+    loadDishes(dishIds: string[]): Promise<DishEmbeddingSource[]>;
+    complete(results: EmbeddingJobResult[]): Promise<void>;
+    /** Keep the jobs queued with the error; they become claimable again after retryAt */
+    fail(jobs: EmbeddingJob[], error: string, retryAt: Date): Promise<void>;
+    coverage(version: string): Promise<RestaurantEmbeddingCoverage[]>;
+    /** Queue public dishes with no vector, no content hash or a vector from another template version */
+    enqueueStale(version: string): Promise<number>;
+    retryFailed(): Promise<number>;
+}
+
+export interface EmbeddingBatchStats {
+    claimed: number;
+    embedded: number;
+    /** Content hash matched the stored vector */
+    unchanged: number;
+    /** Deleted, non-public or empty dishes */
+    skipped: number;
+    failed: number;
+}
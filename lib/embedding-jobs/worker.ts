@@ -0,0 +1,138 @@
+/**
+ * Embedding queue worker: claim a batch, skip unchanged content, embed the rest in one call
+ */
+
+import { generateEmbeddingsBatch } from "@/lib/embeddings";
+import { buildEmbeddingText, embeddingContentHash, resolveEmbeddingTemplate, type EmbeddingTemplate } from "./document";
+import type { EmbeddingBatchStats, EmbeddingJob, EmbeddingJobResult, EmbeddingJobStore } from "./types";
+
+export const DEFAULT_BATCH_SIZE = 100;
+export const DEFAULT_LEASE_SECONDS = 300;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const MAX_RETRY_DELAY_MINUTES = 60;
+
+export interface EmbeddingBatchOptions {
+    batchSize?: number;
+    leaseSeconds?: number;
+    embed?: (texts: string[]) => Promise<number[][]>;
+    /** Defaults to EMBEDDING_TEMPLATE */
+    template?: EmbeddingTemplate;
+    now?: () => Date;
+}
+
+export interface EmbeddingWorkerOptions extends EmbeddingBatchOptions {
+    /** Drain the queue and return instead of polling */
+    once?: boolean;
+    pollIntervalMs?: number;
+    signal?: AbortSignal;
+    onBatch?: (stats: EmbeddingBatchStats) => void;
+}
+
+/** 2, 4, 8, ... minutes after the nth failed attempt, capped at an hour */
+export function retryDelayMinutes(attempts: number): number {
+    return Math.min(2 ** Math.max(1, attempts), MAX_RETRY_DELAY_MINUTES);
+}
+
+function emptyBatchStats(): EmbeddingBatchStats {
+    return { claimed: 0, embedded: 0, unchanged: 0, skipped: 0, failed: 0 };
+}
+
+export async function processEmbeddingBatch(
+    store: EmbeddingJobStore,
+    options: EmbeddingBatchOptions = {}
+): Promise<EmbeddingBatchStats> {
+    const embed = options.embed ?? generateEmbeddingsBatch;
+    const now = options.now ?? (() => new Date());
+    const template = options.template ?? resolveEmbeddingTemplate();
+    const stats = emptyBatchStats();
+
+    const jobs = await store.claim(
+        options.batchSize ?? DEFAULT_BATCH_SIZE,
+        options.leaseSeconds ?? DEFAULT_LEASE_SECONDS
+    );
+    stats.claimed = jobs.length;
+    if (jobs.length === 0) return stats;
+
+    const dishes = new Map((await store.loadDishes(jobs.map(job => job.dishId))).map(dish => [dish.id, dish]));
+    const results: EmbeddingJobResult[] = [];
+    const pending: Array<{ job: EmbeddingJob; text: string; hash: string }> = [];
+
+    for (const job of jobs) {
+        const dish = dishes.get(job.dishId);
+        const text = dish && dish.isPublic ? buildEmbeddingText(dish, template) : "";
+        if (!dish || !text) {
+            stats.skipped++;
+            results.push({ job, embedding: null, hash: null, version: null });
+            continue;
+        }
+
+        const hash = embeddingContentHash(dish, template);
+        if (hash === dish.embeddingHash) {
+            stats.unchanged++;
+            results.push({ job, embedding: null, hash, version: template.version });
+            continue;
+        }
+        pending.push({ job, text, hash });
+    }
+
+    if (pending.length > 0) {
+        try {
+            const vectors = await embed(pending.map(item => item.text));
+            if (vectors.length !== pending.length) {
+                throw new Error(`Expected ${pending.length} embeddings, got ${vectors.length}`);
+            }
+            pending.forEach((item, index) => {
+                results.push({ job: item.job, embedding: vectors[index], hash: item.hash, version: template.version });
+            });
+            stats.embedded = pending.length;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const failedJobs = pending.map(item => item.job);
+            // One retry time for the batch, based on the most-retried job
+            const attempts = Math.max(...failedJobs.map(job => job.attempts));
+            const retryAt = new Date(now().getTime() + retryDelayMinutes(attempts) * 60_000);
+            await store.fail(failedJobs, message, retryAt);
+            stats.failed = failedJobs.length;
+            console.warn("[embedding-jobs] batch failed", { jobs: failedJobs.length, attempts, error: message });
+        }
+    }
+
+    await store.complete(results);
+    return stats;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (signal?.aborted) return resolve();
+        const timer = setTimeout(done, ms);
+        function done() {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", done);
+            resolve();
+        }
+        signal?.addEventListener("abort", done, { once: true });
+    });
+}
+
+/** Process batches until the queue is empty (once) or the signal aborts; returns the totals */
+export async function runEmbeddingWorker(
+    store: EmbeddingJobStore,
+    options: EmbeddingWorkerOptions = {}
+): Promise<EmbeddingBatchStats> {
+    const totals = emptyBatchStats();
+
+    while (!options.signal?.aborted) {
+        const stats = await processEmbeddingBatch(store, options);
+        for (const key of Object.keys(totals) as Array<keyof EmbeddingBatchStats>) {
+            totals[key] += stats[key];
+        }
+        if (stats.claimed > 0) {
+            options.onBatch?.(stats);
+            continue;
+        }
+        if (options.once) break;
+        await sleep(options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS, options.signal);
+    }
+
+    return totals;
+}
@@ -1,34 +1,29 @@
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || "",
-});
+import { getLLMProvider, getMissingLLMEnvVars, type LLMProvider } from "@/lib/llm";
+import { getDiscoverCaches } from "@/lib/discover/cache";
 
 /**
- * Generate embedding for text using OpenAI text-embedding-3-small (1536 dimensions)
+ * Generate embedding for text using the configured LLM provider
+ * (default OpenAI text-embedding-3-small, 1536 dimensions)
  * Matches the existing database schema vector(1536)
+ *
+ * Pass the request's provider when it may differ from the global one (a chat turn past
+ * the daily LLM budget runs on a disabled provider, so only cached vectors are served)
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
+export async function generateEmbedding(text: string, llm: LLMProvider = getLLMProvider()): Promise<number[]> {
   if (!text || text.trim().length === 0) {
     throw new Error("Text cannot be empty");
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY environment variable is not set");
+  const missingVars = getMissingLLMEnvVars();
+  if (missingVars.length > 0) {
+    throw new Error(`${missingVars.join(", ")} environment variable is not set`);
   }
 
   try {
-    const response = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: text.trim(),
-    });
-
-    const embedding = response.data[0]?.embedding;
-    if (!embedding || embedding.length !== 1536) {
-      throw new Error(`Invalid embedding: expected 1536 dimensions, got ${embedding?.length || 0}`);
-    }
-
-    return embedding;
+    // Provider validates the vector size against LLM_EMBEDDING_DIMENSIONS;
+    // repeated query texts reuse the cached vector
+    const input = text.trim();
+    return await getDiscoverCaches().embeddings.getOrLoad(input, () => llm.embed(input));
   } catch (error) {
     console.error("[generateEmbedding] Error generating embedding:", error);
     if (error instanceof Error) {
@@ -65,3 +60,40 @@ export async function generateEmbeddingWithRetry(
   throw lastError || new Error("Failed to generate embedding after retries");
 }
 
+
+/**
+ * Generate embeddings for many texts in one provider call (embeddings batch API),
+ * with the same retry/backoff as generateEmbeddingWithRetry. Vectors are in input order.
+ */
+export async function generateEmbeddingsBatch(
+  texts: string[],
+  maxRetries: number = 3
+): Promise<number[][]> {
+  if (texts.length === 0) return [];
+  if (texts.some(text => !text || text.trim().length === 0)) {
+    throw new Error("Text cannot be empty");
+  }
+
+  const missingVars = getMissingLLMEnvVars();
+  if (missingVars.length > 0) {
+    throw new Error(`${missingVars.join(", ")} environment variable is not set`);
+  }
+
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await getLLMProvider().embedMany(texts.map(text => text.trim()));
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      console.warn(`[generateEmbeddingsBatch] Attempt ${attempt}/${maxRetries} failed (${texts.length} texts):`, lastError.message);
+
+      if (attempt < maxRetries) {
+        const delayMs = Math.pow(2, attempt - 1) * 1000;
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  throw lastError || new Error("Failed to generate embeddings after retries");
+}
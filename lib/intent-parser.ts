@@ -1,9 +1,11 @@
-import OpenAI from "openai";
 import type { Intent, ChatMessage } from "@/lib/types/discover";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || "",
-});
+import { getLLMProvider, getMissingLLMEnvVars, type LLMProvider } from "@/lib/llm";
+import { detectAllergenExclusions, normalizeAllergens, queryMentionsAllergen, stripAllergenPhrases } from "@/lib/discover/allergens";
+import { detectLocationIntent, hasLocationConstraint, stripLocationPhrases } from "@/lib/discover/geo";
+import { detectOpenAt, stripTimePhrases } from "@/lib/discover/opening-hours";
+import { detectPriceRange, stripPriceRangePhrases } from "@/lib/discover/money";
+import { detectSort, isSortOrder, stripSortPhrases } from "@/lib/discover/sort";
+import { getDiscoverCaches, intentCacheKey } from "@/lib/discover/cache";
 
 /**
  * Detect language from script (Unicode ranges) - reliable for non-Latin scripts
@@ -250,21 +252,32 @@ function isPlaceLevelQuery(query: string): boolean {
 export async function parseUserIntent(
   userQuery: string,
   conversationHistory: ChatMessage[] = [],
-  currentChatState?: { mode?: string; currentRestaurantId?: string | null }
+  currentChatState?: { mode?: string; currentRestaurantId?: string | null },
+  llm: LLMProvider = getLLMProvider()
 ): Promise<Intent> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY environment variable is not set");
+  const missingVars = getMissingLLMEnvVars();
+  if (missingVars.length > 0) {
+    throw new Error(`${missingVars.join(", ")} environment variable is not set`);
+  }
+
+  // Only history-free queries are cached: with history the same words can be a follow-up
+  const cacheKey = conversationHistory.length === 0 ? intentCacheKey(userQuery, currentChatState) : null;
+  const cachedIntent = cacheKey ? getDiscoverCaches().intents.get(cacheKey) : undefined;
+  if (cachedIntent) {
+    return { ...cachedIntent, original_query: userQuery };
   }
 
   const systemPrompt = `You are an intent parser for a food discovery app. Extract structured data from queries in ANY language.
 
 Extract:
-- dish_query: Clean dish name (English). REMOVE dietary words. REMOVE generic food words (filler).
-- city: Normalized city name.
+- dish_query: Clean dish name (English). REMOVE dietary words. REMOVE generic food words (filler). REMOVE opening-time phrases ("open now", "after 22:00", "open on Sunday").
+- city: Normalized city name. Location phrases ("near me", "within 2 km", "close to Centralstationen") are NOT a city and NOT part of dish_query.
 - dietary: Array of requirements (e.g. ["vegan", "halal", "vegetarian"]).
-- allergy: Array of allergies.
+- allergy: Array of allergens the user must AVOID ("no nuts", "without sesame", "sesamfri", "allergic to milk"). Never list an ingredient the user is asking for. Do NOT repeat allergens in dish_query or ingredients.
 - ingredients: Array of ingredients mentioned.
-- price_max: Maximum price or null.
+- price_max: Maximum price as a number (in whatever currency the user named) or null. Price phrases ("under 15 euro", "max 120 kr", "between 100 and 150 kr") are NOT part of dish_query.
+- price_min: Minimum price as a number or null ("over 100 kr", "at least 10 euro", the 100 in "between 100 and 150 kr").
+- sort: Requested result order or null: "price_asc" ("cheapest", "sort by price"), "price_desc" ("most expensive"), "distance" ("closest", "nearest"), "best_match" ("best match"). Sort words are NOT part of dish_query.
 - is_vague: Boolean.
 - restaurant_name: String or null.
 - cuisine: Cuisine type if user is searching for a type of restaurant (e.g., "indian", "italian", "chinese", "thai", "mexican", "japanese", "korean", "french", "american", "mediterranean"). Set when user asks for "[cuisine] restaurants/food/places".
@@ -334,6 +347,8 @@ Extract:
   "allergy": ["array", "of", "allergies"],
   "ingredients": ["array", "of", "ingredients"],
   "price_max": number or null,
+  "price_min": number or null,
+  "sort": "price_asc" | "price_desc" | "distance" | "best_match" | null,
   "language": "language code",
   "original_query": "exact original query",
   "is_vague": boolean,
@@ -344,19 +359,17 @@ Extract:
 }`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const content = await llm.complete({
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: userPrompt },
       ],
       temperature: 0.1, // Low temperature for consistent parsing
-      response_format: { type: "json_object" },
+      json: true,
     });
 
-    const content = completion.choices[0]?.message?.content;
     if (!content) {
-      throw new Error("No response from OpenAI");
+      throw new Error("No response from LLM provider");
     }
 
     const parsed = JSON.parse(content) as Partial<Intent>;
@@ -527,14 +540,63 @@ Extract:
       }
     }
 
+    // Allergens to avoid: deterministic detection ("no nuts", "sesamfri") plus LLM allergies,
+    // but only those the current query actually names (same rule as dietary above)
+    const detectedAllergens = detectAllergenExclusions(userQuery);
+    const parsedAllergy = Array.isArray(parsed.allergy) ? parsed.allergy : [];
+    for (const slug of normalizeAllergens(parsedAllergy)) {
+      if (!detectedAllergens.includes(slug) && queryMentionsAllergen(userQuery, slug)) {
+        detectedAllergens.push(slug);
+      }
+    }
+    // Avoided allergens must never become search terms ("curry without nuts" is not a nut search)
+    const parsedIngredients = Array.isArray(parsed.ingredients) ? parsed.ingredients : [];
+    const validatedIngredients = parsedIngredients.filter(
+      (ing) => !normalizeAllergens([ing]).some((slug) => detectedAllergens.includes(slug))
+    );
+    if (detectedAllergens.length > 0 && parsed.dish_query) {
+      parsed.dish_query = stripAllergenPhrases(parsed.dish_query);
+    }
+
+    // "near me" / "within 2 km" / "close to Centralstationen" are distance constraints, not dish or city text
+    const location = detectLocationIntent(userQuery);
+    const hasLocation = hasLocationConstraint({ near_me: location.nearMe, radius_km: location.radiusKm, landmark: location.landmark });
+    if (hasLocation && parsed.dish_query) {
+      parsed.dish_query = stripLocationPhrases(parsed.dish_query);
+    }
+    if (location.landmark && parsed.city?.trim().toLowerCase() === location.landmark.toLowerCase()) {
+      parsed.city = null; // LLM sometimes reads the landmark as a city
+    }
+
+    // "open now" / "after 22:00" / "open on Sunday" filter by opening hours, they are not dish text
+    const openAt = detectOpenAt(userQuery);
+    if (openAt && parsed.dish_query) {
+      parsed.dish_query = stripTimePhrases(parsed.dish_query) || null;
+    }
+
+    // "under 15 euro" / "over 100 kr" / "between 100 and 150 kr": the currency decides how the range compares to each restaurant's prices
+    const priceRange = detectPriceRange(userQuery);
+    if (priceRange && parsed.dish_query) {
+      parsed.dish_query = stripPriceRangePhrases(parsed.dish_query) || null;
+    }
+
+    // "cheapest biryani" / "sort by price" order the results, they are not dish text
+    const sort = detectSort(userQuery) ?? (isSortOrder(parsed.sort) ? parsed.sort : null);
+    if (sort && parsed.dish_query) {
+      parsed.dish_query = stripSortPhrases(parsed.dish_query) || null;
+    }
+
     // Validate and set defaults
     const intent: Intent = {
       dish_query: parsed.dish_query?.trim() || null,
       city: parsed.city?.trim().toUpperCase() || null,
       dietary: validatedDietary,
-      allergy: Array.isArray(parsed.allergy) ? parsed.allergy : [],
-      ingredients: Array.isArray(parsed.ingredients) ? parsed.ingredients : [],
-      price_max: typeof parsed.price_max === "number" ? parsed.price_max : null,
+      allergy: detectedAllergens,
+      ingredients: validatedIngredients,
+      price_max: priceRange?.max?.amount ?? (typeof parsed.price_max === "number" ? parsed.price_max : null),
+      price_min: priceRange?.min?.amount ?? (typeof parsed.price_min === "number" ? parsed.price_min : null),
+      price_currency: (priceRange?.max ?? priceRange?.min)?.currency ?? null,
+      sort,
       language: parsed.language || "en",
       original_query: parsed.original_query || userQuery,
       is_vague: parsed.is_vague === true,
@@ -562,6 +624,10 @@ Extract:
       is_drink: parsed.is_drink === true,
       exit_restaurant: parsed.exit_restaurant === true,
       hard_tags: detectedHardTags.length > 0 ? detectedHardTags : undefined,
+      near_me: location.nearMe || undefined,
+      radius_km: location.radiusKm,
+      landmark: location.landmark,
+      open_at: openAt,
       // Detect restaurant lookup: either LLM identified restaurant_name or heuristic matches
       is_restaurant_lookup: false, // Will be set correctly below after restaurant_name validation
     };
@@ -886,18 +952,29 @@ Extract:
       }
     }
 
+    // The fallback below is never cached, so a failed LLM call is retried next time
+    if (cacheKey) getDiscoverCaches().intents.set(cacheKey, intent);
     return intent;
   } catch (error) {
     console.error("[parseUserIntent] Error parsing intent:", error);
 
     // Fallback: return basic intent
+    const fallbackAllergy = detectAllergenExclusions(userQuery);
+    const fallbackLocation = detectLocationIntent(userQuery);
+    const fallbackOpenAt = detectOpenAt(userQuery);
+    const fallbackRange = detectPriceRange(userQuery);
+    const fallbackText = stripTimePhrases(stripLocationPhrases(fallbackAllergy.length > 0 ? stripAllergenPhrases(userQuery) : userQuery.trim()));
     return {
-      dish_query: userQuery.trim() || null,
+      // Same guard as the LLM path: price phrases are only dish text to strip when a range was found
+      dish_query: stripSortPhrases(fallbackRange ? stripPriceRangePhrases(fallbackText) : fallbackText) || null,
       city: null,
       dietary: [],
-      allergy: [],
+      allergy: fallbackAllergy,
       ingredients: [], // New field for ingredient-based searches
-      price_max: null,
+      price_max: fallbackRange?.max?.amount ?? null,
+      price_min: fallbackRange?.min?.amount ?? null,
+      price_currency: (fallbackRange?.max ?? fallbackRange?.min)?.currency ?? null,
+      sort: detectSort(userQuery),
       language: "en",
       original_query: userQuery,
       is_vague: false,
@@ -906,6 +983,10 @@ Extract:
       is_drink: false,
       exit_restaurant: false,
       is_restaurant_lookup: detectRestaurantLookup(userQuery),
+      near_me: fallbackLocation.nearMe || undefined,
+      radius_km: fallbackLocation.radiusKm,
+      landmark: fallbackLocation.landmark,
+      open_at: fallbackOpenAt,
     };
   }
 }
@@ -0,0 +1,35 @@
+/**
+ * Disabled Provider - stands in for the real provider when a request may not
+ * spend LLM calls (e.g. the discover daily budget is used up)
+ *
+ * Chat and structured calls return null, which every caller already treats as
+ * "LLM unavailable" (heuristic intent, fallback plan, untranslated text).
+ * Embeddings have no fallback value, so they throw.
+ */
+
+import type { LLMProvider } from "./types";
+
+export function createDisabledProvider(inner: LLMProvider, reason: string): LLMProvider {
+    return {
+        kind: inner.kind,
+        chatModel: inner.chatModel,
+        embeddingModel: inner.embeddingModel,
+        embeddingDimensions: inner.embeddingDimensions,
+
+        async complete() {
+            return null;
+        },
+
+        async structured() {
+            return null;
+        },
+
+        async embed() {
+            throw new Error(`[llm] Embeddings disabled: ${reason}`);
+        },
+
+        async embedMany() {
+            throw new Error(`[llm] Embeddings disabled: ${reason}`);
+        },
+    };
+}
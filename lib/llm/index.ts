@@ -0,0 +1,89 @@
+/**
+ * LLM provider selection (env-driven, one instance per process)
+ *
+ *   LLM_PROVIDER=openai (default) | local | stub
+ *   LLM_CHAT_MODEL          default gpt-4o-mini (local: llama3.1)
+ *   LLM_EMBEDDING_MODEL     default text-embedding-3-small (local: nomic-embed-text)
+ *   LLM_EMBEDDING_DIMENSIONS default 1536 (must match dishes.embedding)
+ *   LLM_BASE_URL / LLM_API_KEY   local server, default http://localhost:11434/v1
+ *   LLM_FIXTURES            fixture file for stub/record, default tests/fixtures/llm-fixtures.json
+ *   LLM_FIXTURES_RECORD=1   record real responses into LLM_FIXTURES
+ *   LLM_FIXTURES_STRICT=1   stub throws on fixture miss
+ *
+ * Every provider is wrapped for conversation capture/replay (lib/replay), which is a
+ * pass-through unless a chat turn is being captured or replayed.
+ */
+
+import { createOpenAIProvider } from "./openai-provider";
+import { createRecordingProvider, createStubProvider, DEFAULT_FIXTURES_PATH } from "./stub-provider";
+import { createTapeProvider } from "./tape-provider";
+import type { LLMProvider, LLMProviderKind } from "./types";
+
+export type { LLMProvider, LLMProviderKind, LLMMessage, ChatCompletionRequest, StructuredRequest } from "./types";
+export { createDisabledProvider } from "./disabled-provider";
+
+let cachedProvider: LLMProvider | null = null;
+
+function resolveKind(): LLMProviderKind {
+    const raw = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+    if (raw === "local" || raw === "stub") return raw;
+    return "openai";
+}
+
+/**
+ * Env vars the configured provider needs that are not set (empty = ready)
+ */
+export function getMissingLLMEnvVars(): string[] {
+    return resolveKind() === "openai" && !process.env.OPENAI_API_KEY ? ["OPENAI_API_KEY"] : [];
+}
+
+export function createLLMProvider(): LLMProvider {
+    return createTapeProvider(createBaseProvider());
+}
+
+function createBaseProvider(): LLMProvider {
+    const kind = resolveKind();
+    const embeddingDimensions = Number(process.env.LLM_EMBEDDING_DIMENSIONS) || 1536;
+    const fixturesPath = process.env.LLM_FIXTURES || DEFAULT_FIXTURES_PATH;
+
+    if (kind === "stub") {
+        return createStubProvider({
+            fixturesPath,
+            embeddingDimensions,
+            strict: process.env.LLM_FIXTURES_STRICT === "1",
+        });
+    }
+
+    const provider = kind === "local"
+        ? createOpenAIProvider({
+            kind,
+            apiKey: process.env.LLM_API_KEY || "local",
+            baseURL: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+            chatModel: process.env.LLM_CHAT_MODEL || "llama3.1",
+            embeddingModel: process.env.LLM_EMBEDDING_MODEL || "nomic-embed-text",
+            embeddingDimensions,
+        })
+        : createOpenAIProvider({
+            kind,
+            apiKey: process.env.OPENAI_API_KEY || "",
+            chatModel: process.env.LLM_CHAT_MODEL || "gpt-4o-mini",
+            embeddingModel: process.env.LLM_EMBEDDING_MODEL || "text-embedding-3-small",
+            embeddingDimensions,
+        });
+
+    return process.env.LLM_FIXTURES_RECORD === "1"
+        ? createRecordingProvider(provider, fixturesPath)
+        : provider;
+}
+
+export function getLLMProvider(): LLMProvider {
+    if (!cachedProvider) {
+        cachedProvider = createLLMProvider();
+        console.log("[llm] provider", {
+            kind: cachedProvider.kind,
+            chatModel: cachedProvider.chatModel,
+            embeddingModel: cachedProvider.embeddingModel,
+        });
+    }
+    return cachedProvider;
+}
@@ -0,0 +1,101 @@
+/**
+ * OpenAI Provider - OpenAI API and OpenAI-compatible local servers
+ *
+ * "local" reuses the same SDK with a custom baseURL (Ollama, llama.cpp, vLLM,
+ * LM Studio). Those servers rarely support strict json_schema, so structured
+ * output falls back to JSON mode + zod validation there.
+ */
+
+import OpenAI from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import type { z } from "zod";
+import type { ChatCompletionRequest, LLMProvider, LLMProviderKind, StructuredRequest } from "./types";
+
+export interface OpenAIProviderOptions {
+    kind: Extract<LLMProviderKind, "openai" | "local">;
+    apiKey: string;
+    baseURL?: string;
+    chatModel: string;
+    embeddingModel: string;
+    embeddingDimensions: number;
+}
+
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+    const { kind, apiKey, baseURL, chatModel, embeddingModel, embeddingDimensions } = options;
+    const client = new OpenAI({ apiKey, baseURL });
+
+    // Strict json_schema is an OpenAI feature; local servers get JSON mode instead
+    const nativeStructuredOutputs = kind === "openai";
+
+    async function complete(req: ChatCompletionRequest): Promise<string | null> {
+        const completion = await client.chat.completions.create({
+            model: chatModel,
+            messages: req.messages,
+            temperature: req.temperature,
+            max_tokens: req.maxTokens,
+            ...(req.json && { response_format: { type: "json_object" as const } }),
+        });
+        return completion.choices[0]?.message?.content ?? null;
+    }
+
+    async function structured<S extends z.ZodType>(req: StructuredRequest<S>): Promise<z.infer<S> | null> {
+        const completion = await client.chat.completions.create({
+            model: chatModel,
+            messages: req.messages,
+            temperature: req.temperature,
+            max_tokens: req.maxTokens,
+            response_format: nativeStructuredOutputs
+                ? zodResponseFormat(req.schema, req.name)
+                : { type: "json_object" },
+        });
+
+        const content = completion.choices[0]?.message?.content;
+        if (!content) return null; // Refusal or empty output
+
+        try {
+            const result = req.schema.safeParse(JSON.parse(content));
+            if (!result.success) {
+                console.warn(`[llm][${kind}] Structured output failed schema "${req.name}":`, result.error.issues.slice(0, 3));
+                return null;
+            }
+            return result.data;
+        } catch {
+            console.warn(`[llm][${kind}] Structured output was not valid JSON for "${req.name}"`);
+            return null;
+        }
+    }
+
+    async function embed(text: string): Promise<number[]> {
+        const response = await client.embeddings.create({
+            model: embeddingModel,
+            input: text,
+        });
+
+        const embedding = response.data[0]?.embedding;
+        if (!embedding || embedding.length !== embeddingDimensions) {
+            throw new Error(`Invalid embedding: expected ${embeddingDimensions} dimensions, got ${embedding?.length || 0}`);
+        }
+        return embedding;
+    }
+
+    async function embedMany(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+        const response = await client.embeddings.create({
+            model: embeddingModel,
+            input: texts,
+        });
+
+        // The API echoes each input's position in `index`; do not rely on response order
+        const vectors = new Array<number[]>(texts.length);
+        for (const item of response.data) vectors[item.index] = item.embedding;
+
+        for (let i = 0; i < texts.length; i++) {
+            if (!vectors[i] || vectors[i].length !== embeddingDimensions) {
+                throw new Error(`Invalid embedding for input ${i}: expected ${embeddingDimensions} dimensions, got ${vectors[i]?.length || 0}`);
+            }
+        }
+        return vectors;
+    }
+
+    return { kind, chatModel, embeddingModel, embeddingDimensions, complete, structured, embed, embedMany };
+}
@@ -0,0 +1,171 @@
+/**
+ * Stub Provider - fixture replay for CI / offline runs (no network)
+ *
+ * Chat and structured calls are looked up by a hash of the request. A miss
+ * returns null, which every caller already treats as "LLM unavailable" and
+ * falls back to its deterministic path (heuristic intent, fallback plan,
+ * untranslated text). Embeddings are synthesized from hashed tokens so the
+ * same text always maps to the same vector.
+ *
+ * Fixtures are recorded against a real provider with LLM_FIXTURES_RECORD=1.
+ */
+
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { z } from "zod";
+import type { ChatCompletionRequest, LLMProvider, StructuredRequest } from "./types";
+
+type FixtureOp = "complete" | "structured";
+
+interface FixtureEntry {
+    op: FixtureOp;
+    /** Last user message, for humans reviewing fixture diffs */
+    prompt: string;
+    response: unknown;
+}
+
+interface FixtureFile {
+    version: 1;
+    entries: Record<string, FixtureEntry>;
+}
+
+export const DEFAULT_FIXTURES_PATH = "tests/fixtures/llm-fixtures.json";
+
+/**
+ * Stable key for a request. Model names are deliberately excluded so fixtures
+ * recorded against OpenAI replay regardless of the configured model.
+ */
+export function fixtureKey(op: FixtureOp, req: ChatCompletionRequest & { name?: string }): string {
+    const payload = JSON.stringify({
+        op,
+        messages: req.messages,
+        temperature: req.temperature ?? null,
+        json: req.json ?? false,
+        name: req.name ?? null,
+    });
+    return createHash("sha256").update(payload).digest("hex").slice(0, 32);
+}
+
+function promptExcerpt(req: ChatCompletionRequest): string {
+    const lastUser = [...req.messages].reverse().find(m => m.role === "user");
+    return (lastUser?.content || "").slice(0, 200);
+}
+
+function loadFixtures(fixturesPath: string): FixtureFile {
+    try {
+        const raw = fs.readFileSync(fixturesPath, "utf-8");
+        const parsed = JSON.parse(raw) as FixtureFile;
+        return { version: 1, entries: parsed.entries || {} };
+    } catch {
+        return { version: 1, entries: {} };
+    }
+}
+
+/**
+ * Deterministic pseudo-embedding: each token is hashed into a few buckets,
+ * then the vector is L2-normalized. Texts sharing words end up close in
+ * cosine space, which keeps semantic search roughly meaningful offline.
+ */
+export function hashedEmbedding(text: string, dimensions: number): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+    for (const token of tokens) {
+        const digest = createHash("sha256").update(token).digest();
+        for (let i = 0; i < 4; i++) {
+            const bucket = digest.readUInt32BE(i * 4) % dimensions;
+            vector[bucket] += digest[16 + i] & 1 ? 1 : -1;
+        }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+export interface StubProviderOptions {
+    fixturesPath: string;
+    embeddingDimensions: number;
+    /** Throw on fixture miss instead of returning null (catch drift in CI) */
+    strict?: boolean;
+}
+
+export function createStubProvider(options: StubProviderOptions): LLMProvider {
+    const { fixturesPath, embeddingDimensions, strict = false } = options;
+    const fixtures = loadFixtures(fixturesPath);
+
+    function lookup(op: FixtureOp, req: ChatCompletionRequest & { name?: string }): FixtureEntry | null {
+        const key = fixtureKey(op, req);
+        const entry = fixtures.entries[key];
+        if (entry) return entry;
+
+        if (strict) {
+            throw new Error(`[llm][stub] No fixture for ${op} "${promptExcerpt(req).slice(0, 60)}" (key ${key})`);
+        }
+        console.log("[llm][stub] Fixture miss", { op, key, prompt: promptExcerpt(req).slice(0, 60) });
+        return null;
+    }
+
+    async function complete(req: ChatCompletionRequest): Promise<string | null> {
+        const entry = lookup("complete", req);
+        return typeof entry?.response === "string" ? entry.response : null;
+    }
+
+    async function structured<S extends z.ZodType>(req: StructuredRequest<S>): Promise<z.infer<S> | null> {
+        const entry = lookup("structured", req);
+        if (!entry) return null;
+        const result = req.schema.safeParse(entry.response);
+        return result.success ? result.data : null;
+    }
+
+    async function embed(text: string): Promise<number[]> {
+        return hashedEmbedding(text, embeddingDimensions);
+    }
+
+    async function embedMany(texts: string[]): Promise<number[][]> {
+        return texts.map(text => hashedEmbedding(text, embeddingDimensions));
+    }
+
+    return {
+        kind: "stub",
+        chatModel: "stub",
+        embeddingModel: "stub-hashed",
+        embeddingDimensions,
+        complete,
+        structured,
+        embed,
+        embedMany,
+    };
+}
+
+/**
+ * Wrap a real provider and write every chat/structured response to the
+ * fixture file, so a later LLM_PROVIDER=stub run replays it exactly.
+ */
+export function createRecordingProvider(inner: LLMProvider, fixturesPath: string): LLMProvider {
+    const fixtures = loadFixtures(fixturesPath);
+
+    function record(op: FixtureOp, req: ChatCompletionRequest & { name?: string }, response: unknown) {
+        fixtures.entries[fixtureKey(op, req)] = { op, prompt: promptExcerpt(req), response };
+        try {
+            fs.mkdirSync(path.dirname(fixturesPath), { recursive: true });
+            fs.writeFileSync(fixturesPath, JSON.stringify(fixtures, null, 2) + "\n");
+        } catch (error) {
+            console.error("[llm][record] Failed to write fixtures:", error);
+        }
+    }
+
+    return {
+        ...inner,
+        async complete(req) {
+            const response = await inner.complete(req);
+            record("complete", req, response);
+            return response;
+        },
+        async structured(req) {
+            const response = await inner.structured(req);
+            record("structured", req, response);
+            return response;
+        },
+    };
+}
@@ -0,0 +1,75 @@
+/**
+ * Tape Provider - conversation capture/replay (lib/replay)
+ *
+ * Wraps every provider. Outside a captured or replayed chat turn it is a plain
+ * pass-through; while capturing it appends each call and its response to the
+ * turn's tape, while replaying it answers from the tape and never calls the
+ * inner provider. A replay miss behaves like "LLM unavailable" (null) for chat
+ * and structured calls, and throws for embeddings.
+ */
+
+import { createHash } from "node:crypto";
+import { getRecordingContext, takeRecorded } from "@/lib/replay/context";
+import type { RecordedLLMCall, RecordedLLMOp } from "@/lib/replay/types";
+import { fixtureKey } from "./stub-provider";
+import type { ChatCompletionRequest, LLMProvider } from "./types";
+
+function textKey(texts: string[]): string {
+    return createHash("sha256").update(JSON.stringify(texts)).digest("hex").slice(0, 32);
+}
+
+function lastUserMessage(req: ChatCompletionRequest): string {
+    return ([...req.messages].reverse().find(m => m.role === "user")?.content || "").slice(0, 200);
+}
+
+export function createTapeProvider(inner: LLMProvider): LLMProvider {
+    /** Serve from the tape, record into it, or just call through */
+    async function taped<T>(op: RecordedLLMOp, key: string, prompt: string, call: () => Promise<T>, miss: () => T): Promise<unknown> {
+        const context = getRecordingContext();
+        if (!context) return call();
+
+        if (context.mode === "replay") {
+            const recorded = takeRecorded(
+                context,
+                context.tape.llm,
+                entry => entry.op === op && entry.key === key,
+                `llm ${op} "${prompt.slice(0, 60)}"`
+            );
+            return recorded ? recorded.response : miss();
+        }
+
+        const response = await call();
+        const entry: RecordedLLMCall = { op, key, prompt, response };
+        context.tape.llm.push(entry);
+        return response;
+    }
+
+    function noEmbedding(): never {
+        throw new Error("[llm][replay] No recorded embedding");
+    }
+
+    return {
+        ...inner,
+
+        async complete(req) {
+            const response = await taped("complete", fixtureKey("complete", req), lastUserMessage(req), () => inner.complete(req), () => null);
+            return typeof response === "string" ? response : null;
+        },
+
+        async structured(req) {
+            const response = await taped("structured", fixtureKey("structured", req), lastUserMessage(req), () => inner.structured(req), () => null);
+            if (response === null) return null;
+            // Recordings are plain JSON: re-validate so replayed objects have the schema's shape
+            const parsed = req.schema.safeParse(response);
+            return parsed.success ? parsed.data : null;
+        },
+
+        async embed(text) {
+            return (await taped("embed", textKey([text]), text.slice(0, 200), () => inner.embed(text), noEmbedding)) as number[];
+        },
+
+        async embedMany(texts) {
+            return (await taped("embedMany", textKey(texts), texts.join(" | ").slice(0, 200), () => inner.embedMany(texts), noEmbedding)) as number[][];
+        },
+    };
+}
@@ -0,0 +1,49 @@
+/**
+ * LLM Provider - shared contract for chat, structured output and embeddings
+ *
+ * Callers never talk to a vendor SDK directly; they get a provider from
+ * getLLMProvider() (lib/llm/index.ts) so the pipeline can run against OpenAI,
+ * a local OpenAI-compatible server, or recorded fixtures (CI, no network).
+ */
+
+import type { z } from "zod";
+
+export type LLMProviderKind = "openai" | "local" | "stub";
+
+export interface LLMMessage {
+    role: "system" | "user" | "assistant";
+    content: string;
+}
+
+export interface ChatCompletionRequest {
+    messages: LLMMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    /** JSON object mode: the model must answer with a single JSON object */
+    json?: boolean;
+}
+
+export interface StructuredRequest<S extends z.ZodType> extends Omit<ChatCompletionRequest, "json"> {
+    schema: S;
+    /** Schema name sent to the API (e.g. "plan") */
+    name: string;
+}
+
+export interface LLMProvider {
+    readonly kind: LLMProviderKind;
+    readonly chatModel: string;
+    readonly embeddingModel: string;
+    /** Expected vector size - must match the DB column (vector(1536)) */
+    readonly embeddingDimensions: number;
+
+    /** Raw assistant text, or null when the model returned nothing */
+    complete(req: ChatCompletionRequest): Promise<string | null>;
+
+    /** Schema-validated object, or null on refusal / invalid output */
+    structured<S extends z.ZodType>(req: StructuredRequest<S>): Promise<z.infer<S> | null>;
+
+    embed(text: string): Promise<number[]>;
+
+    /** One request for many inputs (embeddings batch API); vectors come back in input order */
+    embedMany(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,41 @@
+/**
+ * Per-request recording context. AsyncLocalStorage keeps concurrent chat requests
+ * apart: only the turn being captured (or replayed) sees its own tape.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { RecordedFetch, RecordedLLMCall, RecordingContext, ReplayContext } from "./types";
+
+const storage = new AsyncLocalStorage<RecordingContext>();
+
+export function runWithRecording<T>(context: RecordingContext, fn: () => Promise<T>): Promise<T> {
+    return storage.run(context, fn);
+}
+
+/** Capture or replay context of the current request, if any */
+export function getRecordingContext(): RecordingContext | undefined {
+    return storage.getStore();
+}
+
+export function isReplaying(): boolean {
+    return storage.getStore()?.mode === "replay";
+}
+
+/**
+ * First recorded call matching the predicate that has not been served yet, or
+ * null (noted as a miss). Identical calls are answered in recorded order.
+ */
+export function takeRecorded<T extends RecordedLLMCall | RecordedFetch>(
+    context: ReplayContext,
+    calls: T[],
+    matches: (call: T) => boolean,
+    describe: string
+): T | null {
+    const call = calls.find(candidate => !context.used.has(candidate) && matches(candidate));
+    if (!call) {
+        context.misses.push(describe);
+        return null;
+    }
+    context.used.add(call);
+    return call;
+}
@@ -0,0 +1,69 @@
+/**
+ * Structural diff of recorded vs replayed chat output (ChatMessage, ChatState, patches)
+ */
+
+export interface ValueDiff {
+    /** Dotted path, array indexes in brackets: message.restaurants[0].matches[2].name */
+    path: string;
+    recorded: unknown;
+    replayed: unknown;
+}
+
+export interface DiffOptions {
+    /** Keys skipped wherever they appear */
+    ignoreKeys?: readonly string[];
+    /** Exact paths skipped */
+    ignorePaths?: readonly string[];
+}
+
+/**
+ * Fields that differ on every run (generated ids) or with the wall clock
+ * (opening-hours status), so a replay on another day still compares equal
+ */
+export const DEFAULT_IGNORED_KEYS: readonly string[] = [
+    "requestId",
+    "sessionId",
+    "is_open_now",
+    "today_hours",
+    "hours_note",
+    "hours_exception_note",
+];
+
+export const DEFAULT_IGNORED_PATHS: readonly string[] = ["message.id"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function childPath(parent: string, key: string | number): string {
+    if (typeof key === "number") return `${parent}[${key}]`;
+    return parent ? `${parent}.${key}` : key;
+}
+
+export function diffValues(recorded: unknown, replayed: unknown, options: DiffOptions = {}): ValueDiff[] {
+    const ignoreKeys = new Set(options.ignoreKeys ?? DEFAULT_IGNORED_KEYS);
+    const ignorePaths = new Set(options.ignorePaths ?? DEFAULT_IGNORED_PATHS);
+    const diffs: ValueDiff[] = [];
+
+    function walk(a: unknown, b: unknown, at: string) {
+        if (ignorePaths.has(at)) return;
+
+        if (Array.isArray(a) && Array.isArray(b)) {
+            for (let i = 0; i < Math.max(a.length, b.length); i++) walk(a[i], b[i], childPath(at, i));
+            return;
+        }
+        if (isObject(a) && isObject(b)) {
+            const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+            for (const key of keys) {
+                // undefined and missing are the same thing once serialized
+                if (ignoreKeys.has(key) || (a[key] === undefined && b[key] === undefined)) continue;
+                walk(a[key], b[key], childPath(at, key));
+            }
+            return;
+        }
+        if (!Object.is(a, b)) diffs.push({ path: at || "(root)", recorded: a, replayed: b });
+    }
+
+    walk(recorded, replayed, "");
+    return diffs;
+}
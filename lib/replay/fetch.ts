@@ -0,0 +1,74 @@
+/**
+ * fetch for the Supabase clients (lib/supabase/server.ts): a plain pass-through,
+ * except that captured turns record each request/response and replayed turns are
+ * answered from the recording without touching the network.
+ */
+
+import { getRecordingContext, takeRecorded } from "./context";
+import type { RecordedFetch } from "./types";
+
+const RECORDED_HEADERS = ["content-type", "content-range"];
+
+function requestUrl(input: RequestInfo | URL): string {
+    if (typeof input === "string") return input;
+    return input instanceof URL ? input.href : input.url;
+}
+
+/** Path and query only: the project URL differs between machines */
+function pathOf(url: string): string {
+    const parsed = new URL(url, "http://replay.local");
+    return parsed.pathname + parsed.search;
+}
+
+function bodyOf(init: RequestInit | undefined): string | null {
+    return typeof init?.body === "string" ? init.body : null;
+}
+
+export const recordingFetch: typeof fetch = async (input, init) => {
+    const context = getRecordingContext();
+    if (!context) return fetch(input, init);
+
+    const method = (init?.method || (input instanceof Request ? input.method : "GET")).toUpperCase();
+    const url = pathOf(requestUrl(input));
+    const body = bodyOf(init);
+
+    if (context.mode === "replay") {
+        const recorded = takeRecorded(
+            context,
+            context.tape.supabase,
+            call => call.method === method && call.url === url && call.body === body,
+            `supabase ${method} ${url}`
+        );
+        if (!recorded) {
+            // Looks like a PostgREST error, so callers take their usual error path
+            return new Response(JSON.stringify({ message: `No recorded response for ${method} ${url}` }), {
+                status: 503,
+                headers: { "content-type": "application/json" },
+            });
+        }
+        const empty = recorded.status === 204 || recorded.status === 304;
+        return new Response(empty ? null : recorded.response, {
+            status: recorded.status,
+            statusText: recorded.statusText,
+            headers: recorded.headers,
+        });
+    }
+
+    const response = await fetch(input, init);
+    const entry: RecordedFetch = {
+        method,
+        url,
+        body,
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(
+            RECORDED_HEADERS.flatMap(name => {
+                const value = response.headers.get(name);
+                return value === null ? [] : [[name, value]];
+            })
+        ),
+        response: await response.clone().text(),
+    };
+    context.tape.supabase.push(entry);
+    return response;
+};
@@ -0,0 +1,35 @@
+/**
+ * Conversation capture and offline replay for discover chat regression tests
+ *
+ * Capture (DISCOVER_CAPTURE_DIR) records each chat turn's request, response and the
+ * LLM/Supabase traffic behind it; replay re-runs the turns against those recordings
+ * and diffs the ChatMessage/ChatState output. See `npm run replay`.
+ */
+
+export type {
+    CaptureContext,
+    ConversationRecording,
+    RecordedFetch,
+    RecordedLLMCall,
+    RecordedLLMOp,
+    RecordedTurn,
+    RecordingContext,
+    ReplayContext,
+    Tape,
+} from "./types";
+export { getRecordingContext, isReplaying, runWithRecording } from "./context";
+export { recordingFetch } from "./fetch";
+export {
+    DEFAULT_RECORDINGS_DIR,
+    appendTurn,
+    getCaptureDir,
+    listRecordingFiles,
+    loadRecording,
+    parseRecording,
+    recordingPath,
+    saveRecording,
+} from "./recordings";
+export { DEFAULT_IGNORED_KEYS, DEFAULT_IGNORED_PATHS, diffValues } from "./diff";
+export type { DiffOptions, ValueDiff } from "./diff";
+export { formatConversationReplay, replayConversation } from "./runner";
+export type { ChatHandler, ConversationReplay, TurnReplay } from "./runner";
@@ -0,0 +1,68 @@
+/**
+ * Recording files: one JSON file per captured conversation (<dir>/<sessionId>.json),
+ * each chat turn appended as it finishes
+ *
+ *   DISCOVER_CAPTURE_DIR    capture every discover chat turn into this directory
+ *                           (ignored in production: recordings hold queries and DB rows)
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { ConversationRecording, RecordedTurn } from "./types";
+
+export const DEFAULT_RECORDINGS_DIR = "tests/recordings";
+
+export function getCaptureDir(): string | null {
+    const dir = process.env.DISCOVER_CAPTURE_DIR?.trim();
+    if (!dir || process.env.NODE_ENV === "production") return null;
+    return dir;
+}
+
+export function recordingPath(dir: string, sessionId: string): string {
+    return path.join(dir, `${sessionId.replace(/[^A-Za-z0-9._-]/g, "_")}.json`);
+}
+
+export function parseRecording(raw: unknown, source = "recording"): ConversationRecording {
+    const recording = raw as Partial<ConversationRecording> | null;
+    if (!recording || recording.version !== 1 || typeof recording.sessionId !== "string" || !Array.isArray(recording.turns)) {
+        throw new Error(`${source}: not a version 1 conversation recording`);
+    }
+    for (const [index, turn] of recording.turns.entries()) {
+        if (!turn || typeof turn.request !== "object" || !turn.response || !Array.isArray(turn.llm) || !Array.isArray(turn.supabase)) {
+            throw new Error(`${source}: turn ${index + 1} is missing request, response, llm or supabase`);
+        }
+    }
+    return recording as ConversationRecording;
+}
+
+export function loadRecording(file: string): ConversationRecording {
+    return parseRecording(JSON.parse(fs.readFileSync(file, "utf-8")), file);
+}
+
+export function saveRecording(file: string, recording: ConversationRecording): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(recording, null, 2) + "\n");
+}
+
+/** Add a turn to the conversation's file (created on its first turn) */
+export function appendTurn(dir: string, sessionId: string, turn: RecordedTurn): string {
+    const file = recordingPath(dir, sessionId);
+    const recording: ConversationRecording = fs.existsSync(file)
+        ? loadRecording(file)
+        : { version: 1, sessionId, turns: [] };
+    recording.turns.push(turn);
+    saveRecording(file, recording);
+    return file;
+}
+
+/** Recording files under the given files/directories (directories: every *.json, not recursive) */
+export function listRecordingFiles(paths: string[]): string[] {
+    return paths.flatMap(entry => {
+        if (!fs.existsSync(entry)) return [];
+        if (!fs.statSync(entry).isDirectory()) return [entry];
+        return fs.readdirSync(entry)
+            .filter(name => name.endsWith(".json"))
+            .sort()
+            .map(name => path.join(entry, name));
+    });
+}
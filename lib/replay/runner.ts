@@ -0,0 +1,120 @@
+/**
+ * Replay a recorded conversation through the chat pipeline: each turn runs with its
+ * recorded LLM and Supabase answers, and its output is diffed against the recorded response
+ */
+
+import { NextRequest } from "next/server";
+import { runWithRecording } from "./context";
+import { diffValues, type DiffOptions, type ValueDiff } from "./diff";
+import type { ConversationRecording, RecordedTurn, ReplayContext } from "./types";
+
+/** The chat route's POST (or anything with its contract) */
+export type ChatHandler = (request: NextRequest) => Promise<Response>;
+
+export interface TurnReplay {
+    /** 1-based */
+    turn: number;
+    /** Last user message of the turn's request */
+    query: string | null;
+    diffs: ValueDiff[];
+    /** LLM/Supabase calls the recording had no answer for (the pipeline now asks for something else) */
+    misses: string[];
+    /** Recorded calls the replay never made */
+    unusedCalls: number;
+    response: { status: number; body: unknown };
+}
+
+export interface ConversationReplay {
+    sessionId: string;
+    turns: TurnReplay[];
+    /** No diffs and no misses in any turn */
+    ok: boolean;
+}
+
+type Body = Record<string, unknown>;
+
+function lastQuery(request: Body): string | null {
+    const messages = Array.isArray(request.messages) ? (request.messages as { role?: string; content?: string }[]) : [];
+    return [...messages].reverse().find(m => m.role === "user")?.content ?? null;
+}
+
+/** What a turn is judged on: the message and chat state, or the whole patch for load-more */
+function comparable(response: RecordedTurn["response"]): unknown {
+    const body = (response.body ?? {}) as Body;
+    if (body.type === "patch") return { status: response.status, ...body };
+    return { status: response.status, message: body.message, chatState: body.chatState };
+}
+
+async function readBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+export async function replayConversation(
+    recording: ConversationRecording,
+    handler: ChatHandler,
+    options: DiffOptions = {}
+): Promise<ConversationReplay> {
+    // The replay gets fresh session ids; later turns must send the replayed one
+    const sessionIds = new Map<string, string>();
+    const turns: TurnReplay[] = [];
+
+    for (const [index, turn] of recording.turns.entries()) {
+        const body: Body = { ...turn.request };
+        if (typeof body.sessionId === "string" && sessionIds.has(body.sessionId)) {
+            body.sessionId = sessionIds.get(body.sessionId);
+        }
+
+        const context: ReplayContext = { mode: "replay", tape: turn, used: new Set(), misses: [] };
+        const response = await runWithRecording(context, () =>
+            handler(new NextRequest("http://replay.local/api/discover/chat", {
+                method: "POST",
+                headers: { "content-type": "application/json" },
+                body: JSON.stringify(body),
+            }))
+        );
+        const replayed = { status: response.status, body: await readBody(response) };
+
+        const recordedSession = (turn.response.body as Body | null)?.sessionId;
+        const replayedSession = (replayed.body as Body | null)?.sessionId;
+        if (typeof recordedSession === "string" && typeof replayedSession === "string") {
+            sessionIds.set(recordedSession, replayedSession);
+        }
+
+        turns.push({
+            turn: index + 1,
+            query: lastQuery(turn.request),
+            diffs: diffValues(comparable(turn.response), comparable(replayed), options),
+            misses: context.misses,
+            unusedCalls: turn.llm.length + turn.supabase.length - context.used.size,
+            response: replayed,
+        });
+    }
+
+    return {
+        sessionId: recording.sessionId,
+        turns,
+        ok: turns.every(t => t.diffs.length === 0 && t.misses.length === 0),
+    };
+}
+
+/** Human-readable summary, one block per conversation */
+export function formatConversationReplay(replay: ConversationReplay, name = replay.sessionId): string {
+    const lines = [`${replay.ok ? "✓" : "✗"} ${name} (${replay.turns.length} turns)`];
+    const show = (value: unknown) => JSON.stringify(value)?.slice(0, 120) ?? "undefined";
+
+    for (const turn of replay.turns) {
+        if (turn.diffs.length === 0 && turn.misses.length === 0) continue;
+        lines.push(`  turn ${turn.turn}: "${turn.query ?? ""}"`);
+        for (const diff of turn.diffs.slice(0, 20)) {
+            lines.push(`    ${diff.path}: ${show(diff.recorded)} -> ${show(diff.replayed)}`);
+        }
+        if (turn.diffs.length > 20) lines.push(`    ... ${turn.diffs.length - 20} more`);
+        for (const miss of turn.misses) lines.push(`    not recorded: ${miss}`);
+    }
+    return lines.join("\n");
+}
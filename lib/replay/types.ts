@@ -0,0 +1,64 @@
+/**
+ * Recorded discover conversations: every chat turn's request and response plus the
+ * LLM and Supabase traffic it caused, so the turn can be re-run offline
+ */
+
+export type RecordedLLMOp = "complete" | "structured" | "embed" | "embedMany";
+
+export interface RecordedLLMCall {
+    op: RecordedLLMOp;
+    /** Request hash (fixtureKey for chat/structured, text hash for embeddings) */
+    key: string;
+    /** Last user message or embedded text, for humans reading the recording */
+    prompt: string;
+    response: unknown;
+}
+
+export interface RecordedFetch {
+    method: string;
+    /** Path and query without the origin, so recordings replay against any project URL */
+    url: string;
+    body: string | null;
+    status: number;
+    statusText: string;
+    /** content-type and content-range only (what supabase-js reads) */
+    headers: Record<string, string>;
+    response: string;
+}
+
+/** Everything a turn asked the outside world, in call order */
+export interface Tape {
+    llm: RecordedLLMCall[];
+    supabase: RecordedFetch[];
+}
+
+export interface RecordedTurn extends Tape {
+    /** ISO timestamp */
+    at: string;
+    /** DiscoverChatRequest body as sent by the client */
+    request: Record<string, unknown>;
+    response: { status: number; body: unknown };
+}
+
+export interface ConversationRecording {
+    version: 1;
+    /** Session id of the captured conversation (also the file name) */
+    sessionId: string;
+    turns: RecordedTurn[];
+}
+
+export interface CaptureContext {
+    mode: "capture";
+    tape: Tape;
+}
+
+export interface ReplayContext {
+    mode: "replay";
+    tape: Tape;
+    /** Recorded calls already handed out (each is served once) */
+    used: Set<RecordedLLMCall | RecordedFetch>;
+    /** Calls the replayed turn made that the recording has no answer for */
+    misses: string[];
+}
+
+export type RecordingContext = CaptureContext | ReplayContext;
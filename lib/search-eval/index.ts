@@ -0,0 +1,23 @@
+/**
+ * Labelled search evaluation (versioned judgements, precision/recall/NDCG/MRR, zero-result rate, run diffs)
+ */
+
+export type {
+    AggregateMetrics,
+    EvalRun,
+    EvalSearchFn,
+    JudgedQuery,
+    Judgement,
+    JudgementSet,
+    LevelMetrics,
+    MetricSummary,
+    QueryReport,
+    SearchHit,
+    SearchOutcome,
+} from "./types";
+export { DEFAULT_JUDGEMENTS_FILE, loadJudgementSet, parseJudgementSet } from "./judgements";
+export { RELEVANT_THRESHOLD, levelMetrics, summarizeByLanguage, summarizeReports } from "./metrics";
+export { DEFAULT_EVAL_K, runEvaluation } from "./runner";
+export type { EvalRunOptions } from "./runner";
+export { DEFAULT_DIFF_THRESHOLD, diffRuns, formatRunDiff, formatRunSummary } from "./report";
+export type { MetricDelta, QueryDelta, RunDiff } from "./report";
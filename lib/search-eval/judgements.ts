@@ -0,0 +1,74 @@
+/**
+ * Versioned judgement file: query -> expected dish/restaurant ids with graded relevance
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { JudgedQuery, Judgement, JudgementSet } from "./types";
+
+export const DEFAULT_JUDGEMENTS_FILE = "tests/search-judgements.json";
+
+function parseJudgements(raw: unknown, where: string): Judgement[] {
+    if (raw === undefined) return [];
+    if (!Array.isArray(raw)) throw new Error(`${where} must be a list`);
+
+    const seen = new Set<string>();
+    return raw.map((entry, i): Judgement => {
+        const item = entry as Partial<Judgement> | null;
+        if (!item || typeof item.id !== "string" || item.id.length === 0) {
+            throw new Error(`${where}[${i}] needs an id`);
+        }
+        if (typeof item.relevance !== "number" || !Number.isInteger(item.relevance) || item.relevance < 0 || item.relevance > 3) {
+            throw new Error(`${where}[${i}].relevance must be an integer from 0 to 3`);
+        }
+        if (seen.has(item.id)) throw new Error(`${where} judges ${item.id} twice`);
+        seen.add(item.id);
+        return {
+            id: item.id,
+            relevance: item.relevance,
+            ...(typeof item.name === "string" ? { name: item.name } : {}),
+        };
+    });
+}
+
+/** Validates a judgement file; ids must be unique so runs can be lined up by query */
+export function parseJudgementSet(raw: unknown): JudgementSet {
+    const data = raw as Partial<JudgementSet> | null;
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+        throw new Error("Judgement file must be a JSON object");
+    }
+    if (typeof data.version !== "number" || !Number.isInteger(data.version) || data.version < 1) {
+        throw new Error("Judgement file needs an integer version >= 1");
+    }
+    if (!Array.isArray(data.queries)) throw new Error("Judgement file needs a queries list");
+
+    const ids = new Set<string>();
+    const queries = data.queries.map((entry, i): JudgedQuery => {
+        const item = entry as Partial<JudgedQuery> | null;
+        const where = `queries[${i}]`;
+        if (!item || typeof item.id !== "string" || typeof item.query !== "string" || typeof item.language !== "string") {
+            throw new Error(`${where} needs id, query and language`);
+        }
+        if (ids.has(item.id)) throw new Error(`Duplicate query id "${item.id}"`);
+        ids.add(item.id);
+        return {
+            id: item.id,
+            query: item.query,
+            language: item.language,
+            dishes: parseJudgements(item.dishes, `${where}.dishes`),
+            restaurants: parseJudgements(item.restaurants, `${where}.restaurants`),
+            ...(typeof item.notes === "string" ? { notes: item.notes } : {}),
+        };
+    });
+
+    return {
+        version: data.version,
+        ...(typeof data.description === "string" ? { description: data.description } : {}),
+        queries,
+    };
+}
+
+export function loadJudgementSet(file: string = process.env.DISCOVER_EVAL_JUDGEMENTS || DEFAULT_JUDGEMENTS_FILE): JudgementSet {
+    const resolved = path.resolve(process.cwd(), file);
+    return parseJudgementSet(JSON.parse(fs.readFileSync(resolved, "utf8")));
+}
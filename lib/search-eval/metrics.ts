@@ -0,0 +1,63 @@
+/**
+ * Per-query and aggregate metrics for labelled search runs
+ */
+
+import { mean, ndcgAtK, reciprocalRank } from "@/lib/discover/ranking-metrics";
+import type { AggregateMetrics, Judgement, LevelMetrics, MetricSummary, QueryReport } from "./types";
+
+/** Relevance at or above this counts as a hit for precision, recall and MRR */
+export const RELEVANT_THRESHOLD = 1;
+
+/** Metrics for one ranked list against its judgements; null when nothing was judged */
+export function levelMetrics(returnedIds: string[], judgements: Judgement[], k: number): LevelMetrics | null {
+    if (judgements.length === 0) return null;
+
+    const labels = new Map(judgements.map(j => [j.id, j.relevance]));
+    // Unjudged results count as irrelevant
+    const relevances = returnedIds.slice(0, k).map(id => labels.get(id) ?? 0);
+    const hits = relevances.filter(rel => rel >= RELEVANT_THRESHOLD).length;
+    const relevantTotal = judgements.filter(j => j.relevance >= RELEVANT_THRESHOLD).length;
+
+    return {
+        precision: relevances.length === 0 ? 0 : hits / relevances.length,
+        recall: relevantTotal === 0 ? 1 : hits / relevantTotal,
+        ndcg: ndcgAtK(relevances, k, judgements.map(j => j.relevance)),
+        mrr: reciprocalRank(relevances, RELEVANT_THRESHOLD),
+    };
+}
+
+function aggregate(levels: (LevelMetrics | null)[]): AggregateMetrics | null {
+    const judged = levels.filter((level): level is LevelMetrics => level !== null);
+    if (judged.length === 0) return null;
+    return {
+        judgedQueries: judged.length,
+        precision: mean(judged.map(l => l.precision)),
+        recall: mean(judged.map(l => l.recall)),
+        ndcg: mean(judged.map(l => l.ndcg)),
+        mrr: mean(judged.map(l => l.mrr)),
+    };
+}
+
+export function summarizeReports(reports: QueryReport[]): MetricSummary {
+    const count = reports.length;
+    return {
+        queries: count,
+        zeroResultRate: count === 0 ? 0 : reports.filter(r => r.zeroResult).length / count,
+        errorRate: count === 0 ? 0 : reports.filter(r => r.error !== undefined).length / count,
+        avgLatencyMs: mean(reports.map(r => r.latencyMs)),
+        dish: aggregate(reports.map(r => r.dish)),
+        restaurant: aggregate(reports.map(r => r.restaurant)),
+    };
+}
+
+export function summarizeByLanguage(reports: QueryReport[]): Record<string, MetricSummary> {
+    const groups = new Map<string, QueryReport[]>();
+    for (const report of reports) {
+        const group = groups.get(report.language) ?? [];
+        group.push(report);
+        groups.set(report.language, group);
+    }
+    return Object.fromEntries(
+        [...groups.keys()].sort().map(language => [language, summarizeReports(groups.get(language)!)])
+    );
+}
@@ -0,0 +1,219 @@
+/**
+ * Run summaries and run-to-run diffs (markdown, for pasting into PR reviews)
+ */
+
+import type { EvalRun, MetricSummary, QueryReport } from "./types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MetricDelta {
+    metric: string;
+    before: number | null;
+    after: number | null;
+    delta: number | null;
+}
+
+export interface QueryDelta {
+    id: string;
+    query: string;
+    language: string;
+    /** NDCG of the query's primary level (dishes when judged, else restaurants) */
+    before: number | null;
+    after: number | null;
+    delta: number;
+    zeroResultBefore: boolean;
+    zeroResultAfter: boolean;
+    topBefore: string[];
+    topAfter: string[];
+}
+
+export interface RunDiff {
+    base: { label?: string; startedAt: string; judgementVersion: number };
+    head: { label?: string; startedAt: string; judgementVersion: number };
+    /** False when the runs used different judgement versions or k */
+    comparable: boolean;
+    summary: MetricDelta[];
+    byLanguage: Record<string, MetricDelta[]>;
+    regressions: QueryDelta[];
+    improvements: QueryDelta[];
+    added: string[];
+    removed: string[];
+}
+
+// ============================================
+// DIFF
+// ============================================
+
+/** NDCG changes smaller than this are treated as noise */
+export const DEFAULT_DIFF_THRESHOLD = 0.01;
+
+const TOP_NAMES = 3;
+
+function summaryValues(summary: MetricSummary | undefined): Record<string, number | null> {
+    const values: Record<string, number | null> = {
+        "zero-result rate": summary?.zeroResultRate ?? null,
+        "error rate": summary?.errorRate ?? null,
+        "avg latency ms": summary?.avgLatencyMs ?? null,
+    };
+    for (const level of ["dish", "restaurant"] as const) {
+        const metrics = summary?.[level] ?? null;
+        for (const metric of ["precision", "recall", "ndcg", "mrr"] as const) {
+            values[`${level} ${metric}`] = metrics ? metrics[metric] : null;
+        }
+    }
+    return values;
+}
+
+function diffSummaries(before: MetricSummary | undefined, after: MetricSummary | undefined): MetricDelta[] {
+    const a = summaryValues(before);
+    const b = summaryValues(after);
+    return Object.keys(a)
+        .filter(metric => a[metric] !== null || b[metric] !== null)
+        .map(metric => ({
+            metric,
+            before: a[metric],
+            after: b[metric],
+            delta: a[metric] !== null && b[metric] !== null ? b[metric]! - a[metric]! : null,
+        }));
+}
+
+function primaryNdcg(report: QueryReport): number | null {
+    return report.dish?.ndcg ?? report.restaurant?.ndcg ?? null;
+}
+
+function topNames(report: QueryReport): string[] {
+    const hits = report.returned.dishes.length > 0 ? report.returned.dishes : report.returned.restaurants;
+    return hits.slice(0, TOP_NAMES).map(hit => hit.name);
+}
+
+export function diffRuns(base: EvalRun, head: EvalRun, threshold = DEFAULT_DIFF_THRESHOLD): RunDiff {
+    const baseQueries = new Map(base.queries.map(q => [q.id, q]));
+    const headQueries = new Map(head.queries.map(q => [q.id, q]));
+    const regressions: QueryDelta[] = [];
+    const improvements: QueryDelta[] = [];
+
+    for (const after of head.queries) {
+        const before = baseQueries.get(after.id);
+        if (!before) continue;
+
+        const ndcgBefore = primaryNdcg(before);
+        const ndcgAfter = primaryNdcg(after);
+        const delta = (ndcgAfter ?? 0) - (ndcgBefore ?? 0);
+        const entry: QueryDelta = {
+            id: after.id,
+            query: after.query,
+            language: after.language,
+            before: ndcgBefore,
+            after: ndcgAfter,
+            delta,
+            zeroResultBefore: before.zeroResult,
+            zeroResultAfter: after.zeroResult,
+            topBefore: topNames(before),
+            topAfter: topNames(after),
+        };
+
+        if (delta <= -threshold || (!before.zeroResult && after.zeroResult)) regressions.push(entry);
+        else if (delta >= threshold || (before.zeroResult && !after.zeroResult)) improvements.push(entry);
+    }
+
+    const languages = [...new Set([...Object.keys(base.byLanguage), ...Object.keys(head.byLanguage)])].sort();
+
+    return {
+        base: { label: base.label, startedAt: base.startedAt, judgementVersion: base.judgementVersion },
+        head: { label: head.label, startedAt: head.startedAt, judgementVersion: head.judgementVersion },
+        comparable: base.judgementVersion === head.judgementVersion && base.k === head.k,
+        summary: diffSummaries(base.summary, head.summary),
+        byLanguage: Object.fromEntries(
+            languages.map(language => [language, diffSummaries(base.byLanguage[language], head.byLanguage[language])])
+        ),
+        regressions: regressions.sort((a, b) => a.delta - b.delta),
+        improvements: improvements.sort((a, b) => b.delta - a.delta),
+        added: head.queries.filter(q => !baseQueries.has(q.id)).map(q => q.id),
+        removed: base.queries.filter(q => !headQueries.has(q.id)).map(q => q.id),
+    };
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+function formatValue(metric: string, value: number | null): string {
+    if (value === null) return "-";
+    if (metric.endsWith("ms")) return value.toFixed(0);
+    if (metric.endsWith("rate")) return `${(value * 100).toFixed(1)}%`;
+    return value.toFixed(3);
+}
+
+function formatDelta(metric: string, delta: number | null): string {
+    if (delta === null) return "";
+    const sign = delta > 0 ? "+" : "";
+    if (metric.endsWith("ms")) return `${sign}${delta.toFixed(0)}`;
+    if (metric.endsWith("rate")) return `${sign}${(delta * 100).toFixed(1)}pp`;
+    return `${sign}${delta.toFixed(3)}`;
+}
+
+function metricTable(deltas: MetricDelta[]): string[] {
+    return [
+        "| Metric | Base | Head | Change |",
+        "| --- | ---: | ---: | ---: |",
+        ...deltas.map(d => `| ${d.metric} | ${formatValue(d.metric, d.before)} | ${formatValue(d.metric, d.after)} | ${formatDelta(d.metric, d.delta)} |`),
+    ];
+}
+
+function queryTable(deltas: QueryDelta[]): string[] {
+    return [
+        "| Query | Lang | NDCG | Top results (base -> head) |",
+        "| --- | --- | ---: | --- |",
+        ...deltas.map(d => {
+            const ndcg = `${formatValue("ndcg", d.before)} -> ${formatValue("ndcg", d.after)}`;
+            const before = d.zeroResultBefore ? "(no results)" : d.topBefore.join(", ");
+            const after = d.zeroResultAfter ? "(no results)" : d.topAfter.join(", ");
+            return `| ${d.query} | ${d.language} | ${ndcg} | ${before} -> ${after} |`;
+        }),
+    ];
+}
+
+/** One column for the whole run, then one per language */
+export function formatRunSummary(run: EvalRun): string {
+    const languages = Object.keys(run.byLanguage);
+    const columns = [summaryValues(run.summary), ...languages.map(language => summaryValues(run.byLanguage[language]))];
+    const metrics = Object.keys(columns[0]).filter(metric => columns.some(values => values[metric] !== null));
+
+    return [
+        `Judgements v${run.judgementVersion}, k=${run.k}, ${run.summary.queries} queries${run.label ? ` (${run.label})` : ""}`,
+        "",
+        `| ${["Metric", "all", ...languages].join(" | ")} |`,
+        `| --- |${columns.map(() => " ---: |").join("")}`,
+        ...metrics.map(metric => `| ${metric} | ${columns.map(values => formatValue(metric, values[metric])).join(" | ")} |`),
+    ].join("\n") + "\n";
+}
+
+export function formatRunDiff(diff: RunDiff): string {
+    const name = (run: RunDiff["base"]) => run.label ?? run.startedAt;
+    const lines = [`## Search eval: ${name(diff.base)} -> ${name(diff.head)}`, ""];
+
+    if (!diff.comparable) {
+        lines.push(
+            `> Judgements changed (v${diff.base.judgementVersion} -> v${diff.head.judgementVersion}) or k differs; metric changes mix label and ranking effects.`,
+            ""
+        );
+    }
+
+    lines.push(...metricTable(diff.summary), "");
+
+    for (const [language, deltas] of Object.entries(diff.byLanguage)) {
+        lines.push(`### ${language}`, "", ...metricTable(deltas), "");
+    }
+
+    lines.push(`### Regressions (${diff.regressions.length})`, "");
+    if (diff.regressions.length > 0) lines.push(...queryTable(diff.regressions), "");
+    lines.push(`### Improvements (${diff.improvements.length})`, "");
+    if (diff.improvements.length > 0) lines.push(...queryTable(diff.improvements), "");
+
+    if (diff.added.length > 0) lines.push(`Added queries: ${diff.added.join(", ")}`);
+    if (diff.removed.length > 0) lines.push(`Removed queries: ${diff.removed.join(", ")}`);
+
+    return lines.join("\n").trimEnd() + "\n";
+}
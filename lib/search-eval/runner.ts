@@ -0,0 +1,71 @@
+/**
+ * Runs a judgement set through a search function and scores each query
+ */
+
+import { levelMetrics, summarizeByLanguage, summarizeReports } from "./metrics";
+import type { EvalRun, EvalSearchFn, JudgedQuery, JudgementSet, QueryReport } from "./types";
+
+export const DEFAULT_EVAL_K = 10;
+
+export interface EvalRunOptions {
+    k?: number;
+    label?: string;
+    /** Only run queries in these languages */
+    languages?: string[];
+    now?: () => number;
+}
+
+async function evaluateQuery(item: JudgedQuery, search: EvalSearchFn, k: number, now: () => number): Promise<QueryReport> {
+    const started = now();
+    const base = { id: item.id, query: item.query, language: item.language };
+
+    try {
+        const outcome = await search(item);
+        const dishIds = outcome.dishes.map(d => d.id);
+        const restaurantIds = outcome.restaurants.map(r => r.id);
+        return {
+            ...base,
+            latencyMs: now() - started,
+            zeroResult: outcome.dishes.length === 0 && outcome.restaurants.length === 0,
+            dish: levelMetrics(dishIds, item.dishes, k),
+            restaurant: levelMetrics(restaurantIds, item.restaurants, k),
+            returned: { dishes: outcome.dishes.slice(0, k), restaurants: outcome.restaurants.slice(0, k) },
+        };
+    } catch (error) {
+        // A failed search scores like an empty one
+        return {
+            ...base,
+            latencyMs: now() - started,
+            error: error instanceof Error ? error.message : String(error),
+            zeroResult: true,
+            dish: levelMetrics([], item.dishes, k),
+            restaurant: levelMetrics([], item.restaurants, k),
+            returned: { dishes: [], restaurants: [] },
+        };
+    }
+}
+
+/** Queries run one at a time so latency numbers are not skewed by contention */
+export async function runEvaluation(set: JudgementSet, search: EvalSearchFn, options: EvalRunOptions = {}): Promise<EvalRun> {
+    const k = options.k ?? DEFAULT_EVAL_K;
+    const now = options.now ?? Date.now;
+    const languages = options.languages?.length ? new Set(options.languages) : null;
+    const queries = languages ? set.queries.filter(q => languages.has(q.language)) : set.queries;
+
+    const startedAt = new Date(now()).toISOString();
+    const reports: QueryReport[] = [];
+    for (const item of queries) {
+        reports.push(await evaluateQuery(item, search, k, now));
+    }
+
+    return {
+        judgementVersion: set.version,
+        k,
+        ...(options.label ? { label: options.label } : {}),
+        startedAt,
+        finishedAt: new Date(now()).toISOString(),
+        summary: summarizeReports(reports),
+        byLanguage: summarizeByLanguage(reports),
+        queries: reports,
+    };
+}
@@ -0,0 +1,98 @@
+/**
+ * Types for the labelled search evaluation harness
+ */
+
+// ============================================
+// JUDGEMENTS
+// ============================================
+
+export interface Judgement {
+    /** Dish or restaurant id */
+    id: string;
+    /** 0 = irrelevant, 1 = acceptable, 2 = good, 3 = exactly what was asked for */
+    relevance: number;
+    /** For humans reading the file; ignored by the metrics */
+    name?: string;
+}
+
+export interface JudgedQuery {
+    /** Stable key used to line up queries across runs */
+    id: string;
+    query: string;
+    /** ISO code of the query language ("en", "sv", "pa", ...) */
+    language: string;
+    dishes: Judgement[];
+    restaurants: Judgement[];
+    notes?: string;
+}
+
+export interface JudgementSet {
+    /** Bumped whenever labels change, so runs are only compared like for like */
+    version: number;
+    description?: string;
+    queries: JudgedQuery[];
+}
+
+// ============================================
+// RUNS
+// ============================================
+
+export interface SearchHit {
+    id: string;
+    name: string;
+}
+
+/** What the search returned for one query, in rank order */
+export interface SearchOutcome {
+    dishes: SearchHit[];
+    restaurants: SearchHit[];
+}
+
+export type EvalSearchFn = (query: JudgedQuery) => Promise<SearchOutcome>;
+
+export interface LevelMetrics {
+    /** Share of the returned top-k that is relevant */
+    precision: number;
+    /** Share of the relevant judgements found in the top-k */
+    recall: number;
+    ndcg: number;
+    mrr: number;
+}
+
+export interface QueryReport {
+    id: string;
+    query: string;
+    language: string;
+    latencyMs: number;
+    error?: string;
+    zeroResult: boolean;
+    /** null when the query has no judgements at that level */
+    dish: LevelMetrics | null;
+    restaurant: LevelMetrics | null;
+    /** Top-k hits, kept so runs can be diffed and new results labelled */
+    returned: SearchOutcome;
+}
+
+export interface AggregateMetrics extends LevelMetrics {
+    judgedQueries: number;
+}
+
+export interface MetricSummary {
+    queries: number;
+    zeroResultRate: number;
+    errorRate: number;
+    avgLatencyMs: number;
+    dish: AggregateMetrics | null;
+    restaurant: AggregateMetrics | null;
+}
+
+export interface EvalRun {
+    judgementVersion: number;
+    k: number;
+    label?: string;
+    startedAt: string;
+    finishedAt: string;
+    summary: MetricSummary;
+    byLanguage: Record<string, MetricSummary>;
+    queries: QueryReport[];
+}
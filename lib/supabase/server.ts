@@ -1,6 +1,8 @@
 import { cookies } from "next/headers";
 import { createServerClient } from "@supabase/ssr";
 import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+import { isReplaying } from "@/lib/replay/context";
+import { recordingFetch } from "@/lib/replay/fetch";
 
 export async function createClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -12,12 +14,21 @@ export async function createClient() {
     );
   }
 
+  // Replayed conversations (lib/replay) run outside a Next.js request: no cookies, anonymous
+  if (isReplaying()) {
+    return createSupabaseClient(supabaseUrl, supabaseAnonKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+      global: { fetch: recordingFetch },
+    });
+  }
+
   const cookieStore = await cookies();
 
   return createServerClient(
     supabaseUrl,
     supabaseAnonKey,
     {
+      global: { fetch: recordingFetch },
       cookies: {
         get(name: string) {
           return cookieStore.get(name)?.value;
@@ -63,6 +74,7 @@ export function createServiceRoleClient() {
       autoRefreshToken: false,
       persistSession: false,
     },
+    global: { fetch: recordingFetch },
   });
 }
 
@@ -12,13 +12,57 @@ export interface TagInfo {
   type: 'diet' | 'allergen' | 'religious';
 }
 
+// restaurants.currency (migration 0007)
+export type CurrencyCode = 'SEK' | 'EUR' | 'USD' | 'GBP' | 'NOK' | 'DKK' | 'CHF' | 'CAD' | 'AUD' | 'JPY' | 'INR';
+
+// An amount in a currency: dish prices are in the restaurant's currency
+export interface Money {
+  amount: number;
+  currency: CurrencyCode;
+}
+
+// Result order: "cheapest biryani", "sort by price", "closest sushi"; best_match = search ranking
+export type SortOrder = 'best_match' | 'price_asc' | 'price_desc' | 'distance';
+
+// Dish option (modifier_options): "Mild", "Vegan cheese" (+15 kr)
+export interface ModifierOption {
+  id: string;
+  name: string;
+  price_adjustment: number; // Added to the dish price
+  is_available?: boolean;
+  tags?: TagInfo[]; // Option-level tags, e.g. "Vegan cheese" tagged vegan
+}
+
+// Group of options offered with a dish (modifier_groups): "Spice level" (choice), "Extras" (addon)
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  modifier_type: 'choice' | 'addon';
+  min_selection: number;
+  max_selection: number | null;
+  options: ModifierOption[];
+}
+
+// Allergen screening result, set on dishes when the user asked to avoid allergens
+// (dishes tagged with an avoided allergen are excluded, so "contains" never reaches the client)
+export interface AllergenCheck {
+  status: "clear" | "mentioned" | "unknown"; // unknown = dish has no allergen tags
+  avoided: string[];    // Allergen tag slugs the user is avoiding (e.g., ["peanuts", "tree-nuts"])
+  mentioned?: string[]; // Avoided allergens named in the dish name/description
+}
+
 export interface DishMatch {
   id: string;
   name: string;
   description: string | null;
   price: number;
+  price_money?: Money; // price in the restaurant's currency (unset = SEK)
   tags?: TagInfo[]; // Full tag info (empty array if not populated)
   section_name?: string | null; // Section name (e.g., "NAAN", "Tandoori", "Antipasti")
+  allergen_check?: AllergenCheck;
+  is_available?: boolean; // false = sold out (undefined = not checked)
+  is_orderable?: boolean; // false = in-store only
+  modifiers?: ModifierGroup[]; // Options offered with the dish
 }
 
 export interface RestaurantCard {
@@ -27,9 +71,15 @@ export interface RestaurantCard {
   city: string | null;
   cuisine_type?: string | null;
   highlight?: string | null; // e.g., matched dish name
+  currency?: CurrencyCode; // Currency of the dish prices (unset = SEK)
   matches?: DishMatch[];
   address?: string | null;
   distance_km?: number | null;
+  is_open_now?: boolean | null; // null = opening hours unknown
+  today_hours?: string | null;
+  hours_note?: string | null; // "Closes in 20 minutes", "Opens at 11:00 tomorrow"
+  hours_exception_note?: string | null; // Today's holiday exception ("Midsommarafton")
+  closes_in_minutes?: number | null; // Set while open; used to rank places about to close lower
   more_dishes_count?: number; // From result limiter - how many dishes were truncated
   // Per-restaurant pagination
   pagination?: {
@@ -43,6 +93,7 @@ export interface RestaurantCard {
   email?: string | null;
   website?: string | null;
   opening_hours?: Record<string, string> | null; // e.g., { "monday": "11:00-22:00" }
+  opening_hours_exceptions?: OpeningHoursExceptions | null; // e.g., { "12-24": "Closed" }
   // Service options
   accepts_dine_in?: boolean;
   accepts_takeaway?: boolean;
@@ -68,7 +119,11 @@ export interface MenuItem {
   name: string;
   description?: string | null;
   price?: number | null;
+  price_money?: Money | null; // price in the restaurant's currency
   tags?: TagInfo[]; // Full tag info (empty array if not populated)
+  is_available?: boolean; // false = sold out
+  is_orderable?: boolean; // false = in-store only
+  modifiers?: ModifierGroup[]; // Options offered with the dish
 }
 
 export interface MenuSection {
@@ -87,6 +142,7 @@ export interface MenuPayload {
   restaurantId: string;
   restaurantName: string;
   city?: string | null;
+  currency?: CurrencyCode; // Currency of the item prices (unset = SEK)
   // Either use flat sections (legacy) or menus array (new)
   sections: MenuSection[]; // Flat sections for backward compatibility
   menus?: MenuGroup[]; // Grouped by menu name (Lunch, À la carte, etc.)
@@ -101,6 +157,7 @@ export interface ChatMessage {
   followupChips?: string[]; // e.g., ["Show me vegan options", "What's nearby?"]
   menuUrl?: string | null; // Optional URL to open menu in new tab
   menu?: MenuPayload | null; // Inline menu card data
+  requestId?: string; // Chat request that produced this reply (client-side, for search analytics)
 }
 
 export interface ChatPrefs {
@@ -110,6 +167,23 @@ export interface ChatPrefs {
   budgetMaxSek?: number | null;        // 120
 }
 
+// Saved dietary profile (anonymous device or signed-in user), merged into every search
+export interface DietaryProfile {
+  dietary: string[];            // Standing requirements, e.g. ["vegetarian", "halal"]
+  allergy: string[];            // Allergen tag slugs to avoid, e.g. ["peanuts", "tree-nuts"]
+  city: string | null;          // Home city, used when the query names none
+  budgetMaxSek: number | null;  // Max dish price
+}
+
+// Per-query override of the saved profile (sent with a single chat request)
+export interface ProfileOverride {
+  off?: boolean;                // Ignore the saved profile for this query
+  dietary?: string[];           // Replace the saved value for this query only
+  allergy?: string[];
+  city?: string | null;
+  budgetMaxSek?: number | null;
+}
+
 export interface GroundedDish {
   id: string;
   name: string;
@@ -142,6 +216,7 @@ export interface LastResultDish {
   tag_slugs?: string[];  // e.g., ["halal", "vegetarian"]
   price?: number | null;
   description?: string | null;  // Menu description for attribute followups
+  is_available?: boolean;  // false = sold out when the results were shown
 }
 
 // Stored explanation for translation follow-ups
@@ -154,11 +229,27 @@ export interface LastExplain {
 // Stored search params for pagination "show more"
 export interface LastSearchParams {
   dietary?: string[];
+  allergy?: string[];
   dishQuery?: string | null;
   city?: string | null;
+  geo?: GeoFilter; // Distance filter of the original search, re-applied when paginating
+  openAt?: OpenAtConstraint; // Opening-hours filter of the original search, re-applied when paginating
+  intent?: Intent; // Effective intent (saved profile and this search's override applied), re-run by the sort chips
   offset: number;
 }
 
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// Resolved "near me" / "within X km" / "close to <landmark>" constraint
+export interface GeoFilter {
+  origin: GeoPoint;
+  radiusKm: number;
+  label: string | null; // Landmark name ("Centralstationen, Göteborg"); null = the user's position
+}
+
 // Per-restaurant cursor for "show more from X" functionality
 export interface RestaurantCursor {
   restaurant_id: string;
@@ -174,6 +265,7 @@ export interface ChatState {
   restaurant_focus_id?: string | null; // Drives focus pill/back button, NOT mode
   currentRestaurantId?: string | null;
   currentRestaurantName?: string | null;
+  profile_restaurant_id?: string | null; // Last restaurant_profile card, focusable via "Ask about this restaurant"
   grounded?: GroundedState; // Persisted grounded results
   last_results?: LastResultDish[];  // Dishes from last search for follow-ups
   last_explain?: LastExplain;       // Last explanation for translation
@@ -188,10 +280,15 @@ export interface ChatState {
 
 export interface DiscoverChatRequest {
   messages: { role: Role; content: string }[];
-  chatState?: ChatState;
+  sessionId?: string; // Opaque server-side session; state is loaded from it, not trusted from the client
+  chatState?: ChatState; // Only UI-owned fields are read (mode, focus, preferred_language)
+  profileOverride?: ProfileOverride; // Temporarily override the saved dietary profile for this query
+  location?: GeoPoint; // Browser geolocation, sent only after the user shares it
+  onlyAvailable?: boolean; // "Only available" toggle: hide sold-out dishes from results
   // UI action for in-place updates (e.g., Load More, View Full Menu)
-  ui_action?: "LOAD_MORE_RESTAURANT" | "VIEW_FULL_MENU";
+  ui_action?: "LOAD_MORE_RESTAURANT" | "VIEW_FULL_MENU" | "SORT_RESULTS";
   targetRestaurantId?: string;
+  sort?: SortOrder; // SORT_RESULTS: re-run the last search in this order
   target_message_id?: string; // REQUIRED for patch responses
   offset?: number;
 }
@@ -219,6 +316,9 @@ export interface PatchResponse {
   };
   // Updated last_results for follow-up grounding
   updatedLastResults?: LastResultDish[];
+  chatState?: ChatState;
+  sessionId?: string;
+  requestId?: string;
 }
 
 export interface DiscoverChatResponse {
@@ -226,15 +326,55 @@ export interface DiscoverChatResponse {
   chatState: ChatState;
   grounded?: GroundedState | null; // Grounding context for follow-up questions
   meta?: TruncationMeta;
+  sessionId?: string;
+  rateLimit?: RateLimitInfo; // Only on 429: which limit was hit and when to try again
+  requestId?: string; // Trace id (also the x-request-id header); look it up on /discover/trace
+}
+
+export type RateLimitScope = "ip" | "session";
+
+export interface RateLimitInfo {
+  scope: RateLimitScope;
+  retryAfterSeconds: number;
+}
+
+// Search analytics: impressions/clicks on results, posted to /api/discover/events
+export type SearchEventType = "impression" | "click";
+export type SearchEventTarget = "restaurant" | "dish";
+
+export interface SearchEvent {
+  requestId: string; // Chat response the result came from (joins the query log)
+  event: SearchEventType;
+  target: SearchEventTarget;
+  restaurantId: string;
+  dishId?: string | null; // Required for target "dish"
+  position: number; // 0-based: restaurant within the reply, dish within its restaurant card
+}
+
+export interface SearchEventBatch {
+  sessionId?: string | null;
+  events: SearchEvent[];
 }
 
+// Streaming mode (SSE) events for /api/discover/chat
+// Order: plan -> restaurants (search only) -> summary -> message (always last)
+export type DiscoverStreamEvent =
+  | { type: "plan"; action: string; confidence: number }
+  | { type: "restaurants"; restaurants: RestaurantCard[] }
+  | { type: "summary"; content: string; followupChips: string[] }
+  | { type: "message"; status: number; response: DiscoverChatResponse | PatchResponse }
+  | { type: "error"; error: string };
+
 export interface Intent {
   dish_query: string | null;
   city: string | null;
   dietary: string[];
-  allergy: string[];
+  allergy: string[]; // Allergens to avoid, as allergen tag slugs (e.g., ["sesame"])
   ingredients: string[];
   price_max: number | null;
+  price_min?: number | null; // "over 100 kr", "between 100 and 150 kr"
+  price_currency?: CurrencyCode | null; // Currency of price_min/price_max ("under 15 euro"); unset = SEK
+  sort?: SortOrder | null; // "cheapest", "most expensive", "closest"; unset = best match
   language: string;
   original_query: string;
   is_vague: boolean; // For "anything"/"something"/"hungry" queries
@@ -246,4 +386,109 @@ export interface Intent {
   is_followup?: boolean; // True for follow-up questions like "what is X", "is it halal", etc.
   is_restaurant_lookup?: boolean; // True when query looks like a restaurant name (2-4 words, proper noun)
   cuisine?: string | null; // Cuisine type filter (e.g., "indian", "italian", "chinese")
+  near_me?: boolean; // "near me", "nearby", "nära mig" - needs the client's coordinates
+  radius_km?: number | null; // "within 2 km"
+  landmark?: string | null; // "close to Centralstationen" - resolved against discover_landmarks
+  open_at?: OpenAtConstraint | null; // "open now", "after 22:00", "open on Sunday"
+}
+
+/** Per-date overrides of opening_hours: "YYYY-MM-DD" or yearly "MM-DD" -> hours text, optionally with a note */
+export type OpeningHoursExceptions = Record<string, string | { hours: string; note?: string | null }>;
+
+/** "open now", "after 22:00", "on Sunday", "tomorrow at 12" - evaluated in each restaurant's timezone */
+export interface OpenAtConstraint {
+  now: boolean;
+  weekday: number | null; // 0 = Sunday (Date#getDay); null = the restaurant's today
+  dayOffset: number;      // 1 for "tomorrow"; applied when weekday is null
+  minutes: number | null; // Minutes since midnight; null = any time that day
+  after: boolean;         // true: open at some point from `minutes` on, not necessarily at `minutes`
+}
+
+// Ordering from discover: pickup orders paid in store (orders/order_items, migration 0023)
+export type OrderStatus = 'pending_payment' | 'placed' | 'accepted' | 'completed' | 'cancelled';
+export type PaymentStatus = 'unpaid' | 'pending' | 'paid' | 'refunded';
+export type PaymentMethod = 'pay_in_store' | 'stripe_card';
+
+// A chosen dish option, snapshotted into order_items.modifiers
+export interface CartOption {
+  group_id: string;
+  group_name: string;
+  option_id: string;
+  name: string;
+  price_adjustment: number;
+}
+
+// One cart line: a dish with one set of options; the same dish with other options is another line
+export interface CartItem {
+  line_id: string;
+  dish_id: string;
+  name: string;
+  unit_price: number; // Dish price plus options, in the restaurant's currency
+  quantity: number;
+  options: CartOption[];
+}
+
+// Kept in localStorage; one restaurant per cart
+export interface Cart {
+  restaurant_id: string;
+  restaurant_name: string;
+  currency: CurrencyCode;
+  items: CartItem[];
+}
+
+// POST /api/discover/orders
+export interface PlaceOrderItem {
+  dish_id: string;
+  quantity: number;
+  option_ids: string[];
+  unit_price?: number; // The price the customer saw; a different server price is rejected as price_changed
+}
+
+export interface PlaceOrderRequest {
+  restaurant_id: string;
+  items: PlaceOrderItem[];
+  customer_name: string;
+  customer_phone: string;
+  pickup_time: string; // ISO timestamp, one of the pickup slots
+  notes?: string | null;
+  sessionId?: string | null;
+}
+
+export type OrderProblemCode =
+  | 'restaurant_unavailable' // Not public, or no takeaway
+  | 'dish_unavailable'       // Unknown, hidden or from another restaurant
+  | 'sold_out'
+  | 'in_store_only'
+  | 'invalid_options'
+  | 'price_changed'
+  | 'invalid_pickup_time';
+
+export interface OrderProblem {
+  code: OrderProblemCode;
+  dish_id?: string | null;
+  message: string;
+}
+
+export interface OrderItemSummary {
+  dish_id: string | null;
+  name: string;
+  quantity: number;
+  unit_price: Money;
+  options: string[]; // Option names
+}
+
+// GET /api/discover/orders/[id]; no phone number, the id is the only credential
+export interface OrderSummary {
+  id: string;
+  restaurant_id: string;
+  restaurant_name: string;
+  status: OrderStatus;
+  payment_method: PaymentMethod;
+  payment_status: PaymentStatus;
+  pickup_time: string;
+  customer_name: string;
+  notes: string | null;
+  items: OrderItemSummary[];
+  total: Money;
+  created_at: string;
 }
@@ -0,0 +1,155 @@
+/**
+ * Dish embedding queue worker
+ *
+ * Usage:
+ *   npm run embeddings:worker                 # poll dish_embedding_queue until Ctrl+C
+ *   npm run embeddings:worker -- --once       # drain the queue and exit
+ *   npm run embeddings:worker -- --coverage   # per-restaurant coverage/staleness report
+ *   npm run backfill-embeddings               # same as --once
+ *
+ * Flags:
+ *   --once             exit when the queue is empty
+ *   --coverage         print the coverage report and exit
+ *   --retry-failed     put jobs that hit the attempt limit back in line first
+ *   --batch-size=N     dishes per embeddings API call (default 100)
+ *
+ * Dishes are queued by database triggers whenever anything in their
+ * embedding document changes (migrations 0059, 0060). On start the worker
+ * also queues dishes with no vector or a vector from another template
+ * (EMBEDDING_TEMPLATE, see lib/embedding-jobs/document.ts), so switching
+ * templates re-embeds everything. Only dishes whose content hash differs
+ * from the stored one are sent to the embeddings API.
+ * Needs SUPABASE_SERVICE_ROLE_KEY (the queue is not readable with the anon key).
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_BATCH_SIZE,
+  createSupabaseEmbeddingJobStore,
+  resolveEmbeddingTemplate,
+  runEmbeddingWorker,
+  type EmbeddingJobStore,
+  type EmbeddingTemplate,
+} from "../lib/embedding-jobs";
+import { getMissingLLMEnvVars } from "../lib/llm";
+
+function readFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+function readBatchSize(): number {
+  const arg = process.argv.find((value) => value.startsWith("--batch-size="));
+  const parsed = arg ? Number.parseInt(arg.split("=")[1], 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 2048) : DEFAULT_BATCH_SIZE;
+}
+
+function percent(part: number, total: number): string {
+  return total === 0 ? "-" : `${Math.round((part / total) * 100)}%`;
+}
+
+async function printCoverage(store: EmbeddingJobStore, template: EmbeddingTemplate) {
+  const rows = await store.coverage(template.version);
+  console.log(`Template: ${template.version}`);
+  if (rows.length === 0) {
+    console.log("No restaurants with public dishes.");
+    return;
+  }
+
+  console.table(
+    rows.map((row) => ({
+      restaurant: row.restaurantName,
+      dishes: row.publicDishes,
+      embedded: row.embedded,
+      coverage: percent(row.embedded, row.publicDishes),
+      missing: row.missing,
+      stale: row.stale,
+      outdated: row.outdated,
+      queued: row.queued,
+      failed: row.failed,
+      oldest_queued: row.oldestQueuedAt ?? "",
+      last_embedded: row.lastEmbeddedAt ?? "",
+    }))
+  );
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      dishes: sum.dishes + row.publicDishes,
+      embedded: sum.embedded + row.embedded,
+      stale: sum.stale + row.stale,
+      outdated: sum.outdated + row.outdated,
+      failed: sum.failed + row.failed,
+    }),
+    { dishes: 0, embedded: 0, stale: 0, outdated: 0, failed: 0 }
+  );
+  console.log(
+    `Total: ${totals.embedded}/${totals.dishes} embedded (${percent(totals.embedded, totals.dishes)}), ` +
+      `${totals.stale} stale, ${totals.outdated} from another template, ${totals.failed} failed`
+  );
+}
+
+async function main() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error("Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+    process.exit(1);
+  }
+
+  const store = createSupabaseEmbeddingJobStore(
+    createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+  );
+
+  const template = resolveEmbeddingTemplate();
+
+  if (readFlag("coverage")) {
+    await printCoverage(store, template);
+    return;
+  }
+
+  const missingLLMVars = getMissingLLMEnvVars();
+  if (missingLLMVars.length > 0) {
+    console.error(`Error: ${missingLLMVars.join(", ")} must be set`);
+    process.exit(1);
+  }
+
+  if (readFlag("retry-failed")) {
+    console.log(`Re-queued ${await store.retryFailed()} failed jobs`);
+  }
+  console.log(`Queued ${await store.enqueueStale(template.version)} dishes without a ${template.version} embedding`);
+
+  const once = readFlag("once");
+  const batchSize = readBatchSize();
+  const controller = new AbortController();
+  process.on("SIGINT", () => {
+    console.log("Stopping after the current batch...");
+    controller.abort();
+  });
+
+  console.log(`Embedding worker started (template ${template.version}, batch size ${batchSize}${once ? ", once" : ""})`);
+
+  const totals = await runEmbeddingWorker(store, {
+    batchSize,
+    template,
+    once,
+    signal: controller.signal,
+    onBatch: (stats) => {
+      console.log(
+        `Batch: ${stats.claimed} claimed, ${stats.embedded} embedded, ${stats.unchanged} unchanged, ` +
+          `${stats.skipped} skipped, ${stats.failed} failed`
+      );
+    },
+  });
+
+  console.log("=".repeat(50));
+  console.log(`Embedded: ${totals.embedded}`);
+  console.log(`Unchanged: ${totals.unchanged}`);
+  console.log(`Skipped: ${totals.skipped}`);
+  console.log(`Failed: ${totals.failed}`);
+  console.log("=".repeat(50));
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
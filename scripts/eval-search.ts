@@ -0,0 +1,80 @@
+#!/usr/bin/env tsx
+/**
+ * Labelled search evaluation
+ *
+ * Runs tests/search-judgements.json through /api/discover/eval, saves the run and
+ * prints precision@k, recall, NDCG, MRR and zero-result rate per language.
+ *
+ * Run: npm run eval:search -- [--k=10] [--lang=en,sv] [--label=my-branch] [--out=eval-runs/my-branch.json]
+ *        [--base=eval-runs/main.json] [--fail-on-regression]
+ *      npm run eval:search -- --diff=eval-runs/main.json,eval-runs/my-branch.json
+ *
+ * Requires the dev server (TEST_URL, default http://localhost:3000) except with --diff.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { diffRuns, formatRunDiff, formatRunSummary, type EvalRun } from '../lib/search-eval';
+
+const BASE_URL = process.env.TEST_URL || 'http://localhost:3000';
+
+function readOption(name: string): string | undefined {
+    const prefix = `--${name}=`;
+    return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function readRun(file: string): EvalRun {
+    return JSON.parse(fs.readFileSync(path.resolve(process.cwd(), file), 'utf8')) as EvalRun;
+}
+
+function printDiff(base: EvalRun, head: EvalRun): boolean {
+    const diff = diffRuns(base, head);
+    console.log(formatRunDiff(diff));
+    return diff.regressions.length > 0;
+}
+
+async function fetchRun(): Promise<EvalRun> {
+    const params = new URLSearchParams();
+    for (const name of ['k', 'lang', 'label']) {
+        const value = readOption(name);
+        if (value) params.set(name, value);
+    }
+
+    const response = await fetch(`${BASE_URL}/api/discover/eval?${params}`);
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+    }
+    return response.json() as Promise<EvalRun>;
+}
+
+async function main() {
+    const failOnRegression = process.argv.includes('--fail-on-regression');
+
+    const diffFiles = readOption('diff');
+    if (diffFiles) {
+        const [baseFile, headFile] = diffFiles.split(',');
+        if (!baseFile || !headFile) throw new Error('--diff needs two files: --diff=base.json,head.json');
+        const regressed = printDiff(readRun(baseFile), readRun(headFile));
+        process.exit(failOnRegression && regressed ? 1 : 0);
+    }
+
+    console.log(`Running search eval against ${BASE_URL}...\n`);
+    const run = await fetchRun();
+    console.log(formatRunSummary(run));
+
+    const outFile = readOption('out') ?? path.join('eval-runs', `${run.label ?? run.startedAt.replace(/[:.]/g, '-')}.json`);
+    fs.mkdirSync(path.dirname(path.resolve(process.cwd(), outFile)), { recursive: true });
+    fs.writeFileSync(path.resolve(process.cwd(), outFile), JSON.stringify(run, null, 2) + '\n');
+    console.log(`Saved run to ${outFile}\n`);
+
+    const baseFile = readOption('base');
+    if (baseFile) {
+        const regressed = printDiff(readRun(baseFile), run);
+        process.exit(failOnRegression && regressed ? 1 : 0);
+    }
+}
+
+main().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+});
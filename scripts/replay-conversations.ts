@@ -0,0 +1,94 @@
+#!/usr/bin/env tsx
+/**
+ * Offline replay of recorded discover conversations
+ *
+ * Re-runs every turn of each recording through the chat route with the recorded
+ * LLM and Supabase answers (no network, no API keys) and diffs the ChatMessage /
+ * ChatState output against the recorded response.
+ *
+ * Record: start the dev server with DISCOVER_CAPTURE_DIR=tests/recordings and chat
+ *         on /discover (or run `npm run test:hero` against it); one file per session.
+ * Run:    npm run replay -- [files or directories, default tests/recordings] [--update] [--json]
+ *
+ * --update  accept the replayed output as the new recorded response (after a deliberate change);
+ *           conversations with unrecorded LLM/Supabase calls need a fresh capture instead
+ *
+ * Exits 1 when any turn differs or asks the LLM/Supabase something the recording can't answer.
+ */
+
+import path from 'path';
+import {
+    DEFAULT_RECORDINGS_DIR,
+    formatConversationReplay,
+    listRecordingFiles,
+    loadRecording,
+    replayConversation,
+    saveRecording,
+} from '../lib/replay';
+
+// Replays never leave the process: in-memory stores, no limits, no analytics.
+// Set before the route module is loaded, since providers and stores are picked on first use.
+Object.assign(process.env, {
+    LLM_PROVIDER: 'stub',
+    DISCOVER_SESSION_STORE: 'memory',
+    DISCOVER_PROFILE_STORE: 'memory',
+    DISCOVER_RATE_LIMIT: 'off',
+    DISCOVER_ANALYTICS: 'off',
+    DISCOVER_TRACE_LOG: 'off',
+    DISCOVER_CAPTURE_DIR: '',
+    NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL || 'http://replay.local',
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'replay',
+    SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY || 'replay',
+});
+delete process.env.DISCOVER_LLM_DAILY_BUDGET;
+
+async function main() {
+    const args = process.argv.slice(2);
+    const update = args.includes('--update');
+    const json = args.includes('--json');
+    const paths = args.filter(arg => !arg.startsWith('--'));
+    const files = listRecordingFiles(paths.length > 0 ? paths : [DEFAULT_RECORDINGS_DIR]);
+
+    if (files.length === 0) {
+        console.error(`No recordings found in ${paths.join(', ') || DEFAULT_RECORDINGS_DIR}`);
+        process.exit(1);
+    }
+
+    // Pipeline logs would drown the report
+    const log = console.log;
+    console.log = () => {};
+    const { POST } = await import('../app/api/discover/chat/route');
+
+    const results = [];
+    for (const file of files) {
+        const recording = loadRecording(file);
+        const replay = await replayConversation(recording, POST);
+        results.push({ file, replay });
+
+        // Misses mean the pipeline now asks for data the recording lacks: only a new capture fixes that
+        if (update && !replay.ok && replay.turns.every(turn => turn.misses.length === 0)) {
+            recording.turns.forEach((turn, index) => {
+                turn.response = replay.turns[index].response;
+            });
+            saveRecording(file, recording);
+        }
+    }
+    console.log = log;
+
+    if (json) {
+        console.log(JSON.stringify(results.map(({ file, replay }) => ({ file, ...replay })), null, 2));
+    } else {
+        for (const { file, replay } of results) {
+            console.log(formatConversationReplay(replay, path.relative(process.cwd(), file)));
+        }
+    }
+
+    const failed = results.filter(({ replay }) => !replay.ok).length;
+    console.log(`\n${results.length - failed}/${results.length} conversations replayed without differences${update && failed > 0 ? ` (${failed} updated)` : ''}`);
+    if (failed > 0 && !update) process.exit(1);
+}
+
+main().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+});
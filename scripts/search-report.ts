@@ -0,0 +1,91 @@
+#!/usr/bin/env tsx
+/**
+ * Discover search analytics report
+ *
+ * Prints the most frequent searches that returned nothing (what the catalogue is
+ * missing) and click-through per query, from discover_query_log and
+ * discover_search_events (migration 0063).
+ *
+ * Run: npm run analytics:report -- [--days=30] [--limit=25] [--min-impressions=10] [--json]
+ *
+ * Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (the tables are service role only).
+ */
+
+import { createSupabaseSearchAnalyticsStore, type QueryCtr, type ZeroResultQuery } from '../lib/discover/analytics';
+
+function readOption(name: string): string | undefined {
+    const prefix = `--${name}=`;
+    return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function readNumber(name: string, fallback: number): number {
+    const value = Number(readOption(name));
+    return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+function truncate(text: string, width: number): string {
+    return text.length > width ? `${text.slice(0, width - 1)}…` : text.padEnd(width);
+}
+
+function printZeroResults(rows: ZeroResultQuery[]) {
+    if (rows.length === 0) {
+        console.log('  (none)');
+        return;
+    }
+    console.log(`  ${'query'.padEnd(36)} ${'searches'.padStart(8)} ${'sessions'.padStart(8)}  cities`);
+    for (const row of rows) {
+        console.log(
+            `  ${truncate(row.normalizedQuery, 36)} ${String(row.searches).padStart(8)} ${String(row.sessions).padStart(8)}  ` +
+            (row.cities.join(', ') || '-')
+        );
+    }
+}
+
+function printCtr(rows: QueryCtr[]) {
+    if (rows.length === 0) {
+        console.log('  (none)');
+        return;
+    }
+    console.log(`  ${'query'.padEnd(36)} ${'searches'.padStart(8)} ${'shown'.padStart(7)} ${'clicks'.padStart(7)} ${'CTR'.padStart(7)} ${'clicked'.padStart(8)}`);
+    for (const row of rows) {
+        const ctr = row.ctr === null ? '-' : `${(row.ctr * 100).toFixed(1)}%`;
+        const clicked = row.searches > 0 ? `${Math.round((row.clickedSearches / row.searches) * 100)}%` : '-';
+        console.log(
+            `  ${truncate(row.normalizedQuery, 36)} ${String(row.searches).padStart(8)} ${String(row.impressions).padStart(7)} ` +
+            `${String(row.clicks).padStart(7)} ${ctr.padStart(7)} ${clicked.padStart(8)}`
+        );
+    }
+}
+
+async function main() {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+        console.error('Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+        process.exit(1);
+    }
+
+    const days = readNumber('days', 30);
+    const limit = readNumber('limit', 25);
+    const minImpressions = readNumber('min-impressions', 10);
+    const store = createSupabaseSearchAnalyticsStore();
+
+    const [zeroResults, ctr] = await Promise.all([
+        store.zeroResultQueries({ days, limit }),
+        store.queryCtr({ days, limit, minImpressions }),
+    ]);
+
+    if (process.argv.includes('--json')) {
+        console.log(JSON.stringify({ days, zeroResults, ctr }, null, 2));
+        return;
+    }
+
+    console.log(`Discover search report, last ${days} days\n`);
+    console.log(`Top zero-result searches (${zeroResults.length}):`);
+    printZeroResults(zeroResults);
+    console.log(`\nClick-through per query (at least ${minImpressions} results shown):`);
+    printCtr(ctr);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
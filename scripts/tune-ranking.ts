@@ -0,0 +1,92 @@
+#!/usr/bin/env tsx
+/**
+ * Offline ranking tuner for hybrid dish search
+ *
+ * Grid-searches RankingConfig values against a labelled query set and
+ * reports NDCG@k and MRR for the current config and the best combinations.
+ *
+ * Run: npm run ranking:tune -- [--data=tests/ranking-queries.json] [--grid=grid.json]
+ *        [--k=10] [--objective=ndcg|mrr] [--top=5] [--out=ranking.json]
+ *
+ * --grid  JSON object of dotted config paths -> values, e.g. { "weights.vibe.semantic": [0.6, 0.7] }
+ * --out   writes the best combination as a partial config for DISCOVER_RANKING_CONFIG
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { loadRankingConfig } from '../lib/discover/ranking';
+import {
+    DEFAULT_RANKING_GRID,
+    applyOverrides,
+    evaluateRanking,
+    gridSearch,
+    gridSize,
+    overridesToConfig,
+    parseLabelledQueries,
+    type RankingGrid,
+} from '../lib/discover/ranking-tuning';
+
+function readOption(name: string): string | undefined {
+    const prefix = `--${name}=`;
+    return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function readJson(file: string): unknown {
+    return JSON.parse(fs.readFileSync(path.resolve(process.cwd(), file), 'utf8'));
+}
+
+function formatOverrides(overrides: Record<string, number>): string {
+    return Object.entries(overrides).map(([key, value]) => `${key}=${value}`).join(' ');
+}
+
+async function main() {
+    const dataFile = readOption('data') ?? 'tests/ranking-queries.json';
+    const gridFile = readOption('grid');
+    const k = Number(readOption('k') ?? 10);
+    const top = Number(readOption('top') ?? 5);
+    const objective = readOption('objective') === 'mrr' ? 'mrr' : 'ndcg';
+    const outFile = readOption('out');
+
+    const queries = parseLabelledQueries(readJson(dataFile));
+    const grid = gridFile ? (readJson(gridFile) as RankingGrid) : DEFAULT_RANKING_GRID;
+    const base = loadRankingConfig();
+
+    console.log(`Labelled queries: ${queries.length} (${dataFile})`);
+    console.log(`Grid: ${gridSize(grid)} combinations over ${Object.keys(grid).length} parameters`);
+    console.log(`Objective: ${objective.toUpperCase()}, k=${k}\n`);
+
+    const baseline = evaluateRanking(queries, base, k);
+    console.log(`Current config: NDCG@${k}=${baseline.ndcg.toFixed(4)} MRR=${baseline.mrr.toFixed(4)}\n`);
+
+    const started = Date.now();
+    const results = gridSearch(queries, grid, { base, k, objective });
+    console.log(`Searched in ${Date.now() - started} ms\n`);
+
+    console.log(`Top ${Math.min(top, results.length)}:`);
+    results.slice(0, top).forEach((result, index) => {
+        console.log(`${index + 1}. NDCG@${k}=${result.ndcg.toFixed(4)} MRR=${result.mrr.toFixed(4)}  ${formatOverrides(result.overrides)}`);
+    });
+
+    const best = results[0];
+    if (!best) return;
+
+    const bestEvaluation = evaluateRanking(queries, applyOverrides(base, best.overrides), k);
+    console.log('\nPer query (current -> best):');
+    bestEvaluation.perQuery.forEach((query, index) => {
+        const before = baseline.perQuery[index];
+        console.log(
+            `  ${query.query.padEnd(32)} NDCG ${before.ndcg.toFixed(3)} -> ${query.ndcg.toFixed(3)}` +
+            `   MRR ${before.mrr.toFixed(3)} -> ${query.mrr.toFixed(3)}`
+        );
+    });
+
+    if (outFile) {
+        fs.writeFileSync(path.resolve(process.cwd(), outFile), JSON.stringify(overridesToConfig(best.overrides), null, 4) + '\n');
+        console.log(`\nWrote ${outFile} - deploy with DISCOVER_RANKING_CONFIG=${outFile}`);
+    }
+}
+
+main().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+});
@@ -0,0 +1,41 @@
+-- Discover chat sessions
+-- Server-side ChatState for /api/discover/chat. The client only holds the session id,
+-- so grounded dishes and tags used by follow-ups cannot be forged.
+
+CREATE TABLE IF NOT EXISTS public.discover_chat_sessions (
+    id UUID PRIMARY KEY,
+    state JSONB NOT NULL DEFAULT '{}'::jsonb,
+    served_dish_ids TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Expiry lookups and cleanup
+CREATE INDEX IF NOT EXISTS idx_discover_chat_sessions_expires_at ON public.discover_chat_sessions(expires_at);
+
+-- Enable RLS with no policies: only the service role (chat route) can read or write
+ALTER TABLE public.discover_chat_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Cleanup for expired sessions (run from a cron job / pg_cron)
+CREATE OR REPLACE FUNCTION public.purge_expired_discover_chat_sessions()
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_deleted INTEGER;
+BEGIN
+    DELETE FROM public.discover_chat_sessions WHERE expires_at <= NOW();
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_expired_discover_chat_sessions() FROM PUBLIC, anon, authenticated;
+
+-- Comments
+COMMENT ON TABLE public.discover_chat_sessions IS 'Server-side discover chat state keyed by an opaque session id';
+COMMENT ON COLUMN public.discover_chat_sessions.served_dish_ids IS 'Dish ids sent to the client in this session; follow-ups may only reference these';
+COMMENT ON COLUMN public.discover_chat_sessions.expires_at IS 'Sliding idle expiry, pushed out on every save (DISCOVER_SESSION_TTL_MINUTES)';
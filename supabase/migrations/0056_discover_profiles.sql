@@ -0,0 +1,24 @@
+-- Discover dietary profiles
+-- Standing dietary requirements, allergens to avoid, home city and budget, merged into every
+-- discover search. Owned by a Supabase auth user or an anonymous device id (httpOnly cookie).
+
+CREATE TABLE IF NOT EXISTS public.discover_profiles (
+    owner_kind TEXT NOT NULL CHECK (owner_kind IN ('user', 'device')),
+    owner_id TEXT NOT NULL,
+    dietary TEXT[] NOT NULL DEFAULT '{}',
+    allergy TEXT[] NOT NULL DEFAULT '{}',
+    city TEXT,
+    budget_max_sek NUMERIC(10, 2) CHECK (budget_max_sek IS NULL OR budget_max_sek > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (owner_kind, owner_id)
+);
+
+-- Enable RLS with no policies: only the service role (/api/discover/profile, chat route) can read or write.
+-- Device ids are bearer secrets, so rows must never be readable with the anon key.
+ALTER TABLE public.discover_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Comments
+COMMENT ON TABLE public.discover_profiles IS 'Saved discover dietary profile per auth user or anonymous device';
+COMMENT ON COLUMN public.discover_profiles.owner_id IS 'auth.users id when owner_kind = user, device cookie uuid when owner_kind = device';
+COMMENT ON COLUMN public.discover_profiles.allergy IS 'Allergen tag slugs to avoid (tags.slug where type = allergen)';
@@ -0,0 +1,89 @@
+-- Discover "near me" search
+-- 1. discover_landmarks: small gazetteer for "close to Centralstationen" style queries
+-- 2. restaurants_within_radius: radius lookup on the GiST index from 0014
+
+-- ============================================
+-- LANDMARKS
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.discover_landmarks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}', -- lowercase alternative names
+    city TEXT NOT NULL,
+    latitude NUMERIC(10, 7) NOT NULL,
+    longitude NUMERIC(10, 7) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (name, city)
+);
+
+ALTER TABLE public.discover_landmarks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read discover_landmarks" ON public.discover_landmarks;
+CREATE POLICY "Public read discover_landmarks"
+ON public.discover_landmarks FOR SELECT
+TO anon, authenticated
+USING (true);
+
+INSERT INTO public.discover_landmarks (name, aliases, city, latitude, longitude) VALUES
+  ('Centralstationen', ARRAY['centralstation', 'central station', 'centralen', 'göteborg c', 'gothenburg central station'], 'Göteborg', 57.7089000, 11.9732000),
+  ('Järntorget', ARRAY['jarntorget'], 'Göteborg', 57.6998000, 11.9530000),
+  ('Avenyn', ARRAY['kungsportsavenyn', 'the avenue'], 'Göteborg', 57.6997000, 11.9757000),
+  ('Liseberg', ARRAY[]::TEXT[], 'Göteborg', 57.6953000, 11.9925000),
+  ('Linnéplatsen', ARRAY['linneplatsen'], 'Göteborg', 57.6898000, 11.9519000),
+  ('Centralstationen', ARRAY['centralstation', 'central station', 'centralen', 't-centralen', 'stockholm c'], 'Stockholm', 59.3303000, 18.0586000),
+  ('Sergels torg', ARRAY['sergelstorg', 'plattan'], 'Stockholm', 59.3326000, 18.0649000),
+  ('Gamla stan', ARRAY['old town'], 'Stockholm', 59.3251000, 18.0711000),
+  ('Slussen', ARRAY[]::TEXT[], 'Stockholm', 59.3195000, 18.0722000),
+  ('Centralstationen', ARRAY['centralstation', 'central station', 'centralen', 'malmö c'], 'Malmö', 55.6093000, 13.0007000),
+  ('Stortorget', ARRAY[]::TEXT[], 'Malmö', 55.6056000, 13.0024000),
+  ('Centralstationen', ARRAY['centralstation', 'central station', 'centralen', 'uppsala c'], 'Uppsala', 59.8586000, 17.6460000)
+ON CONFLICT (name, city) DO NOTHING;
+
+-- ============================================
+-- RADIUS LOOKUP
+-- ============================================
+-- Searchable restaurants within radius_km of a point, nearest first (ST_DWithin uses idx_restaurants_location_gist)
+CREATE OR REPLACE FUNCTION public.restaurants_within_radius(
+    user_lat DOUBLE PRECISION,
+    user_lng DOUBLE PRECISION,
+    radius_km DOUBLE PRECISION,
+    limit_count INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+    restaurant_id UUID,
+    restaurant_city TEXT,
+    distance_km DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        r.id,
+        r.city,
+        ST_Distance(r.location, ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography) / 1000.0 AS distance_km
+    FROM public.restaurants r
+    WHERE r.public_searchable IS TRUE
+      AND r.location IS NOT NULL
+      AND ST_DWithin(
+          r.location,
+          ST_SetSRID(ST_MakePoint(user_lng, user_lat), 4326)::geography,
+          radius_km * 1000.0
+      )
+    ORDER BY distance_km ASC
+    LIMIT limit_count;
+END;
+$$;
+
+ALTER FUNCTION public.restaurants_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) OWNER TO postgres;
+REVOKE ALL ON FUNCTION public.restaurants_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.restaurants_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO anon, authenticated;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+COMMENT ON TABLE public.discover_landmarks IS 'Named places for discover "close to X" queries';
+COMMENT ON FUNCTION public.restaurants_within_radius IS 'Searchable restaurants within radius_km of (user_lat, user_lng), nearest first';
@@ -0,0 +1,18 @@
+-- Opening-hours exceptions: per-date overrides of restaurants.opening_hours (midsommar, Christmas, ...)
+-- Format: { "2025-06-20": { "hours": "Closed", "note": "Midsommarafton" }, "12-24": "11:00-15:00" }
+-- A "YYYY-MM-DD" key applies to that date only; a "MM-DD" key repeats every year.
+
+-- ============================================
+-- EXCEPTIONS
+-- ============================================
+ALTER TABLE public.restaurants ADD COLUMN IF NOT EXISTS opening_hours_exceptions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.restaurants DROP CONSTRAINT IF EXISTS restaurants_opening_hours_exceptions_object;
+ALTER TABLE public.restaurants ADD CONSTRAINT restaurants_opening_hours_exceptions_object
+    CHECK (jsonb_typeof(opening_hours_exceptions) = 'object');
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+COMMENT ON COLUMN public.restaurants.opening_hours_exceptions IS 'Per-date overrides of opening_hours: "YYYY-MM-DD" or yearly "MM-DD" -> hours text or { hours, note }';
+COMMENT ON COLUMN public.restaurants.opening_hours IS 'Weekly hours: day keys ("monday", "mon", "mon_fri", "weekdays") -> "11:00-14:00, 17:00-23:00"; ranges may cross midnight';
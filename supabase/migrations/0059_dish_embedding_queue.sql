@@ -0,0 +1,262 @@
+-- Incremental dish embeddings
+-- 1. dishes.embedding_hash / embedded_at: content hash (name + description + section + tags) of the current vector
+-- 2. dish_embedding_queue: dishes whose embedded content may have changed, filled by triggers
+-- 3. RPCs for the worker (scripts/embedding-worker.ts): claim, complete, coverage report
+-- The hash is computed in the worker (lib/embedding-jobs/content.ts); a queued dish whose hash is
+-- unchanged is dequeued without calling the embeddings API.
+
+-- ============================================
+-- DISH COLUMNS
+-- ============================================
+ALTER TABLE public.dishes ADD COLUMN IF NOT EXISTS embedding_hash TEXT;
+ALTER TABLE public.dishes ADD COLUMN IF NOT EXISTS embedded_at TIMESTAMPTZ;
+
+-- ============================================
+-- QUEUE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.dish_embedding_queue (
+    dish_id UUID PRIMARY KEY REFERENCES public.dishes(id) ON DELETE CASCADE,
+    enqueued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Bumped on every change; completion only dequeues the version it embedded
+    attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMPTZ, -- Lease held by a worker, or retry backoff after a failure
+    last_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_dish_embedding_queue_ready ON public.dish_embedding_queue(enqueued_at) WHERE attempts < 5;
+
+-- Enable RLS with no policies: only the service role (worker) can read or write
+ALTER TABLE public.dish_embedding_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.enqueue_dish_embedding(p_dish_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+    INSERT INTO public.dish_embedding_queue (dish_id)
+    VALUES (p_dish_id)
+    ON CONFLICT (dish_id) DO UPDATE
+        SET enqueued_at = NOW(), attempts = 0, locked_until = NULL, last_error = NULL;
+$$;
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE OR REPLACE FUNCTION public.trg_dishes_enqueue_embedding()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.public IS TRUE THEN
+        PERFORM public.enqueue_dish_embedding(NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS dishes_enqueue_embedding ON public.dishes;
+CREATE TRIGGER dishes_enqueue_embedding
+AFTER INSERT OR UPDATE OF name, description, section_id, public ON public.dishes
+FOR EACH ROW EXECUTE FUNCTION public.trg_dishes_enqueue_embedding();
+
+CREATE OR REPLACE FUNCTION public.trg_sections_enqueue_embedding()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.name IS DISTINCT FROM OLD.name THEN
+        INSERT INTO public.dish_embedding_queue (dish_id)
+        SELECT d.id FROM public.dishes d WHERE d.section_id = NEW.id AND d.public IS TRUE
+        ON CONFLICT (dish_id) DO UPDATE
+            SET enqueued_at = NOW(), attempts = 0, locked_until = NULL, last_error = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sections_enqueue_embedding ON public.sections;
+CREATE TRIGGER sections_enqueue_embedding
+AFTER UPDATE OF name ON public.sections
+FOR EACH ROW EXECUTE FUNCTION public.trg_sections_enqueue_embedding();
+
+CREATE OR REPLACE FUNCTION public.trg_dish_tags_enqueue_embedding()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_dish_id UUID := COALESCE(NEW.dish_id, OLD.dish_id);
+BEGIN
+    -- Deleting a dish cascades to dish_tags; skip dishes that are already gone
+    IF EXISTS (SELECT 1 FROM public.dishes WHERE id = v_dish_id AND public IS TRUE) THEN
+        PERFORM public.enqueue_dish_embedding(v_dish_id);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS dish_tags_enqueue_embedding ON public.dish_tags;
+CREATE TRIGGER dish_tags_enqueue_embedding
+AFTER INSERT OR DELETE ON public.dish_tags
+FOR EACH ROW EXECUTE FUNCTION public.trg_dish_tags_enqueue_embedding();
+
+-- ============================================
+-- WORKER RPCS
+-- ============================================
+-- Lease up to batch_size ready jobs (oldest first). SKIP LOCKED lets several workers run side by side.
+CREATE OR REPLACE FUNCTION public.claim_dish_embedding_jobs(
+    batch_size INTEGER DEFAULT 100,
+    lease_seconds INTEGER DEFAULT 300,
+    max_attempts INTEGER DEFAULT 5
+)
+RETURNS TABLE (dish_id UUID, enqueued_at TIMESTAMPTZ, attempts INTEGER)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+    UPDATE public.dish_embedding_queue q
+    SET locked_until = NOW() + make_interval(secs => lease_seconds),
+        attempts = q.attempts + 1
+    WHERE q.dish_id IN (
+        SELECT r.dish_id
+        FROM public.dish_embedding_queue r
+        WHERE r.attempts < max_attempts
+          AND (r.locked_until IS NULL OR r.locked_until < NOW())
+        ORDER BY r.enqueued_at
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING q.dish_id, q.enqueued_at, q.attempts;
+$$;
+
+-- Store vectors and dequeue. p_rows: [{ dish_id, enqueued_at, embedding (number array or null), hash }]
+-- A null embedding dequeues without writing (content unchanged, or dish no longer public).
+-- Rows re-enqueued after the claim (newer enqueued_at) stay queued for the next round.
+CREATE OR REPLACE FUNCTION public.complete_dish_embedding_jobs(p_rows JSONB)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_row JSONB;
+    v_done INTEGER := 0;
+BEGIN
+    FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+        IF v_row->>'embedding' IS NOT NULL THEN
+            UPDATE public.dishes
+            SET embedding = (v_row->>'embedding')::vector,
+                embedding_hash = v_row->>'hash',
+                embedded_at = NOW()
+            WHERE id = (v_row->>'dish_id')::UUID;
+        END IF;
+
+        DELETE FROM public.dish_embedding_queue
+        WHERE dish_id = (v_row->>'dish_id')::UUID
+          AND enqueued_at <= (v_row->>'enqueued_at')::TIMESTAMPTZ;
+        v_done := v_done + 1;
+    END LOOP;
+    RETURN v_done;
+END;
+$$;
+
+-- Per-restaurant coverage: public dishes, how many have a vector, how many vectors are stale
+-- (queued for re-embedding, or built before content hashes existed) and failed jobs
+CREATE OR REPLACE FUNCTION public.dish_embedding_coverage(max_attempts INTEGER DEFAULT 5)
+RETURNS TABLE (
+    restaurant_id UUID,
+    restaurant_name TEXT,
+    public_dishes BIGINT,
+    embedded BIGINT,
+    missing BIGINT,
+    stale BIGINT,
+    queued BIGINT,
+    failed BIGINT,
+    oldest_queued_at TIMESTAMPTZ,
+    last_embedded_at TIMESTAMPTZ
+)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        r.id,
+        r.name,
+        COUNT(d.id),
+        COUNT(d.id) FILTER (WHERE d.embedding IS NOT NULL),
+        COUNT(d.id) FILTER (WHERE d.embedding IS NULL),
+        COUNT(d.id) FILTER (WHERE d.embedding IS NOT NULL AND (q.dish_id IS NOT NULL OR d.embedding_hash IS NULL)),
+        COUNT(q.dish_id),
+        COUNT(q.dish_id) FILTER (WHERE q.attempts >= max_attempts),
+        MIN(q.enqueued_at),
+        MAX(d.embedded_at)
+    FROM public.restaurants r
+    JOIN public.menus m ON m.restaurant_id = r.id
+    JOIN public.dishes d ON d.menu_id = m.id AND d.public IS TRUE
+    LEFT JOIN public.dish_embedding_queue q ON q.dish_id = d.id
+    GROUP BY r.id, r.name
+    ORDER BY r.name;
+$$;
+
+-- Put failed jobs back in line (after fixing the cause, e.g. an API key)
+CREATE OR REPLACE FUNCTION public.retry_failed_dish_embedding_jobs(max_attempts INTEGER DEFAULT 5)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE public.dish_embedding_queue
+    SET attempts = 0, locked_until = NULL, last_error = NULL
+    WHERE attempts >= max_attempts;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Queue every public dish that has no vector or no content hash (bulk imports, restored dumps)
+CREATE OR REPLACE FUNCTION public.enqueue_missing_dish_embeddings()
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    INSERT INTO public.dish_embedding_queue (dish_id)
+    SELECT d.id FROM public.dishes d
+    WHERE d.public IS TRUE AND (d.embedding IS NULL OR d.embedding_hash IS NULL)
+    ON CONFLICT (dish_id) DO NOTHING;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_dish_embedding(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_dish_embedding_jobs(INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.complete_dish_embedding_jobs(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.dish_embedding_coverage(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.retry_failed_dish_embedding_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.enqueue_missing_dish_embeddings() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- BACKFILL
+-- ============================================
+-- Every public dish without a content hash: never embedded, or embedded from name + description only
+SELECT public.enqueue_missing_dish_embeddings();
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+COMMENT ON TABLE public.dish_embedding_queue IS 'Dishes whose embedded content (name, description, section, tags) changed since their vector was built';
+COMMENT ON COLUMN public.dishes.embedding_hash IS 'sha256 of the text the current embedding was built from (lib/embedding-jobs/content.ts)';
+COMMENT ON FUNCTION public.dish_embedding_coverage IS 'Per-restaurant embedding coverage and staleness for public dishes';
@@ -0,0 +1,305 @@
+-- Versioned embedding documents
+-- 1. dishes.aliases: translated / alternative dish names that go into the embedded text
+-- 2. dishes.embedding_version: template that produced the vector (lib/embedding-jobs/document.ts)
+-- 3. Re-queue dishes when their restaurant's cuisine, their aliases or their tags' aliases change
+-- 4. Worker RPCs store the version; enqueue_stale_dish_embeddings re-queues vectors from other templates
+-- 5. search_public_dishes_semantic returns embedding_version so search can tell templates apart
+
+-- ============================================
+-- DISH COLUMNS
+-- ============================================
+ALTER TABLE public.dishes ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.dishes ADD COLUMN IF NOT EXISTS embedding_version TEXT;
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+DROP TRIGGER IF EXISTS dishes_enqueue_embedding ON public.dishes;
+CREATE TRIGGER dishes_enqueue_embedding
+AFTER INSERT OR UPDATE OF name, description, aliases, section_id, public ON public.dishes
+FOR EACH ROW EXECUTE FUNCTION public.trg_dishes_enqueue_embedding();
+
+CREATE OR REPLACE FUNCTION public.trg_restaurants_enqueue_embedding()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.cuisine_type IS DISTINCT FROM OLD.cuisine_type THEN
+        INSERT INTO public.dish_embedding_queue (dish_id)
+        SELECT d.id
+        FROM public.dishes d
+        JOIN public.menus m ON m.id = d.menu_id
+        WHERE m.restaurant_id = NEW.id AND d.public IS TRUE
+        ON CONFLICT (dish_id) DO UPDATE
+            SET enqueued_at = NOW(), attempts = 0, locked_until = NULL, last_error = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restaurants_enqueue_embedding ON public.restaurants;
+CREATE TRIGGER restaurants_enqueue_embedding
+AFTER UPDATE OF cuisine_type ON public.restaurants
+FOR EACH ROW EXECUTE FUNCTION public.trg_restaurants_enqueue_embedding();
+
+CREATE OR REPLACE FUNCTION public.trg_tag_aliases_enqueue_embedding()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO public.dish_embedding_queue (dish_id)
+    SELECT DISTINCT dt.dish_id
+    FROM public.dish_tags dt
+    JOIN public.tags t ON t.id = dt.tag_id
+    JOIN public.dishes d ON d.id = dt.dish_id AND d.public IS TRUE
+    WHERE (t.type = NEW.tag_type AND t.slug = NEW.tag_slug)
+       OR (TG_OP <> 'INSERT' AND t.type = OLD.tag_type AND t.slug = OLD.tag_slug)
+    ON CONFLICT (dish_id) DO UPDATE
+        SET enqueued_at = NOW(), attempts = 0, locked_until = NULL, last_error = NULL;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tag_aliases_enqueue_embedding_write ON public.tag_aliases;
+CREATE TRIGGER tag_aliases_enqueue_embedding_write
+AFTER INSERT OR UPDATE ON public.tag_aliases
+FOR EACH ROW EXECUTE FUNCTION public.trg_tag_aliases_enqueue_embedding();
+
+-- NEW is null on DELETE, so deletes get their own trigger matching on OLD only
+CREATE OR REPLACE FUNCTION public.trg_tag_aliases_enqueue_embedding_delete()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO public.dish_embedding_queue (dish_id)
+    SELECT DISTINCT dt.dish_id
+    FROM public.dish_tags dt
+    JOIN public.tags t ON t.id = dt.tag_id
+    JOIN public.dishes d ON d.id = dt.dish_id AND d.public IS TRUE
+    WHERE t.type = OLD.tag_type AND t.slug = OLD.tag_slug
+    ON CONFLICT (dish_id) DO UPDATE
+        SET enqueued_at = NOW(), attempts = 0, locked_until = NULL, last_error = NULL;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tag_aliases_enqueue_embedding_delete ON public.tag_aliases;
+CREATE TRIGGER tag_aliases_enqueue_embedding_delete
+AFTER DELETE ON public.tag_aliases
+FOR EACH ROW EXECUTE FUNCTION public.trg_tag_aliases_enqueue_embedding_delete();
+
+-- ============================================
+-- WORKER RPCS
+-- ============================================
+-- Same as 0059, plus the template version. p_rows: [{ dish_id, enqueued_at, embedding, hash, version }]
+CREATE OR REPLACE FUNCTION public.complete_dish_embedding_jobs(p_rows JSONB)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_row JSONB;
+    v_done INTEGER := 0;
+BEGIN
+    FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+        IF v_row->>'embedding' IS NOT NULL THEN
+            UPDATE public.dishes
+            SET embedding = (v_row->>'embedding')::vector,
+                embedding_hash = v_row->>'hash',
+                embedding_version = v_row->>'version',
+                embedded_at = NOW()
+            WHERE id = (v_row->>'dish_id')::UUID;
+        END IF;
+
+        DELETE FROM public.dish_embedding_queue
+        WHERE dish_id = (v_row->>'dish_id')::UUID
+          AND enqueued_at <= (v_row->>'enqueued_at')::TIMESTAMPTZ;
+        v_done := v_done + 1;
+    END LOOP;
+    RETURN v_done;
+END;
+$$;
+
+-- Replaces enqueue_missing_dish_embeddings: also re-queues vectors built with another template
+DROP FUNCTION IF EXISTS public.enqueue_missing_dish_embeddings();
+
+CREATE OR REPLACE FUNCTION public.enqueue_stale_dish_embeddings(p_version TEXT)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    INSERT INTO public.dish_embedding_queue (dish_id)
+    SELECT d.id FROM public.dishes d
+    WHERE d.public IS TRUE
+      AND (d.embedding IS NULL OR d.embedding_hash IS NULL OR d.embedding_version IS DISTINCT FROM p_version)
+    ON CONFLICT (dish_id) DO NOTHING;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Adds outdated (vector from another template than p_version)
+DROP FUNCTION IF EXISTS public.dish_embedding_coverage(INTEGER);
+
+CREATE OR REPLACE FUNCTION public.dish_embedding_coverage(p_version TEXT DEFAULT NULL, max_attempts INTEGER DEFAULT 5)
+RETURNS TABLE (
+    restaurant_id UUID,
+    restaurant_name TEXT,
+    public_dishes BIGINT,
+    embedded BIGINT,
+    missing BIGINT,
+    stale BIGINT,
+    outdated BIGINT,
+    queued BIGINT,
+    failed BIGINT,
+    oldest_queued_at TIMESTAMPTZ,
+    last_embedded_at TIMESTAMPTZ
+)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        r.id,
+        r.name,
+        COUNT(d.id),
+        COUNT(d.id) FILTER (WHERE d.embedding IS NOT NULL),
+        COUNT(d.id) FILTER (WHERE d.embedding IS NULL),
+        COUNT(d.id) FILTER (WHERE d.embedding IS NOT NULL AND (q.dish_id IS NOT NULL OR d.embedding_hash IS NULL)),
+        COUNT(d.id) FILTER (WHERE d.embedding IS NOT NULL AND p_version IS NOT NULL AND d.embedding_version IS DISTINCT FROM p_version),
+        COUNT(q.dish_id),
+        COUNT(q.dish_id) FILTER (WHERE q.attempts >= max_attempts),
+        MIN(q.enqueued_at),
+        MAX(d.embedded_at)
+    FROM public.restaurants r
+    JOIN public.menus m ON m.restaurant_id = r.id
+    JOIN public.dishes d ON d.menu_id = m.id AND d.public IS TRUE
+    LEFT JOIN public.dish_embedding_queue q ON q.dish_id = d.id
+    GROUP BY r.id, r.name
+    ORDER BY r.name;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_stale_dish_embeddings(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.dish_embedding_coverage(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- SEMANTIC SEARCH
+-- ============================================
+-- Same as 0026, plus embedding_version in the output (the return type changes, so drop first)
+DROP FUNCTION IF EXISTS public.search_public_dishes_semantic(vector, TEXT, UUID[], JSONB, INT);
+
+CREATE OR REPLACE FUNCTION public.search_public_dishes_semantic(
+    query_embedding vector(1536),
+    target_city TEXT DEFAULT NULL,
+    dietary_tag_ids UUID[] DEFAULT NULL,
+    service_filters JSONB DEFAULT NULL,
+    limit_count INT DEFAULT 50
+)
+RETURNS TABLE (
+    restaurant_id UUID,
+    restaurant_name TEXT,
+    restaurant_city TEXT,
+    restaurant_address TEXT,
+    dish_id UUID,
+    dish_name TEXT,
+    dish_description TEXT,
+    dish_price NUMERIC,
+    similarity_score FLOAT,
+    embedding_version TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH
+    candidate_restaurants AS (
+        SELECT
+            r.id,
+            r.name,
+            r.city,
+            r.address
+        FROM
+            public.restaurants r
+        WHERE
+            r.public_searchable IS TRUE
+            AND (target_city IS NULL OR r.city ILIKE '%' || target_city || '%')
+            AND (
+                service_filters IS NULL OR
+                (service_filters ? 'dine_in' AND r.accepts_dine_in = (service_filters->>'dine_in')::boolean) OR
+                (service_filters ? 'takeaway' AND r.accepts_takeaway = (service_filters->>'takeaway')::boolean) OR
+                (service_filters ? 'delivery' AND r.accepts_delivery = (service_filters->>'delivery')::boolean) OR
+                (service_filters ? 'reservations' AND r.accepts_reservations = (service_filters->>'reservations')::boolean)
+            )
+    ),
+    matching_dishes AS (
+        SELECT
+            d.id AS dish_id,
+            d.name AS dish_name,
+            d.description AS dish_description,
+            d.price AS dish_price,
+            d.embedding_version AS dish_embedding_version,
+            m.restaurant_id,
+            1 - (d.embedding <=> query_embedding) AS similarity_score
+        FROM
+            public.dishes d
+        INNER JOIN
+            public.menus m ON m.id = d.menu_id
+        INNER JOIN
+            candidate_restaurants cr ON cr.id = m.restaurant_id
+        WHERE
+            d.public IS TRUE
+            AND d.embedding IS NOT NULL
+            AND (
+                dietary_tag_ids IS NULL OR
+                dietary_tag_ids = ARRAY[]::UUID[] OR
+                EXISTS (
+                    SELECT 1
+                    FROM public.dish_tags dt
+                    WHERE dt.dish_id = d.id
+                    AND dt.tag_id = ANY(dietary_tag_ids)
+                )
+            )
+    )
+    SELECT
+        cr.id AS restaurant_id,
+        cr.name AS restaurant_name,
+        cr.city AS restaurant_city,
+        cr.address AS restaurant_address,
+        md.dish_id,
+        md.dish_name,
+        md.dish_description,
+        md.dish_price,
+        md.similarity_score,
+        md.dish_embedding_version AS embedding_version
+    FROM
+        matching_dishes md
+    INNER JOIN
+        candidate_restaurants cr ON cr.id = md.restaurant_id
+    ORDER BY
+        md.similarity_score DESC
+    LIMIT limit_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_public_dishes_semantic TO anon, authenticated;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+COMMENT ON COLUMN public.dishes.aliases IS 'Translated or alternative dish names, included in the embedding document';
+COMMENT ON COLUMN public.dishes.embedding_version IS 'Embedding document template that produced dishes.embedding (EMBEDDING_TEMPLATE)';
+COMMENT ON FUNCTION public.search_public_dishes_semantic IS 'Semantic search for dishes using pgvector embeddings. Returns flat rows (one per dish) with the template version of each vector.';
@@ -0,0 +1,189 @@
+-- Discover search result cache invalidation
+-- 1. discover_cache_invalidations: append-only log of restaurants whose searchable content changed
+--    (dishes, dish tags, availability, sections, restaurant name/city/visibility), filled by triggers
+-- 2. discover_cache_invalidations_since(): polled by each app process (lib/discover/cache) to drop
+--    cached search results for those restaurants and their city
+-- A row with restaurant_id NULL is a catalogue-wide change (tags, tag aliases), or a dish whose
+-- restaurant is already gone (cascading deletes): drop everything.
+
+-- ============================================
+-- LOG
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.discover_cache_invalidations (
+    id BIGSERIAL PRIMARY KEY,
+    restaurant_id UUID, -- NULL = every cached search result
+    city TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discover_cache_invalidations_created_at ON public.discover_cache_invalidations(created_at);
+
+-- Enable RLS with no policies: only the service role can read or write
+ALTER TABLE public.discover_cache_invalidations ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.discover_cache_invalidations IS 'Restaurants whose searchable content changed; polled by the discover result cache. Rows older than a day are pruned.';
+
+CREATE OR REPLACE FUNCTION public.log_discover_cache_invalidation(p_restaurant_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO public.discover_cache_invalidations (restaurant_id, city)
+    SELECT p_restaurant_id, (SELECT r.city FROM public.restaurants r WHERE r.id = p_restaurant_id);
+
+    -- Pollers only ever look a few seconds back; prune occasionally instead of on every write
+    IF random() < 0.01 THEN
+        DELETE FROM public.discover_cache_invalidations WHERE created_at < NOW() - INTERVAL '1 day';
+    END IF;
+END;
+$$;
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE OR REPLACE FUNCTION public.trg_dishes_invalidate_discover_cache()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_menu_id UUID;
+BEGIN
+    -- A dish moved between menus changes both restaurants
+    FOR v_menu_id IN
+        SELECT DISTINCT menu_id FROM (VALUES (CASE WHEN TG_OP <> 'INSERT' THEN OLD.menu_id END), (CASE WHEN TG_OP <> 'DELETE' THEN NEW.menu_id END)) AS t(menu_id)
+        WHERE menu_id IS NOT NULL
+    LOOP
+        PERFORM public.log_discover_cache_invalidation((SELECT m.restaurant_id FROM public.menus m WHERE m.id = v_menu_id));
+    END LOOP;
+    RETURN NULL;
+END;
+$$;
+
+-- Embedding columns are left out: the embedding worker rewrites them in bulk
+DROP TRIGGER IF EXISTS dishes_invalidate_discover_cache ON public.dishes;
+CREATE TRIGGER dishes_invalidate_discover_cache
+AFTER INSERT OR DELETE OR UPDATE OF name, description, price, section_id, menu_id, public, is_available, aliases, tags ON public.dishes
+FOR EACH ROW EXECUTE FUNCTION public.trg_dishes_invalidate_discover_cache();
+
+CREATE OR REPLACE FUNCTION public.trg_dish_tags_invalidate_discover_cache()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_restaurant_id UUID;
+BEGIN
+    SELECT m.restaurant_id INTO v_restaurant_id
+    FROM public.dishes d
+    JOIN public.menus m ON m.id = d.menu_id
+    WHERE d.id = COALESCE(NEW.dish_id, OLD.dish_id);
+
+    -- Deleting a dish cascades to dish_tags; the dishes trigger already logged it
+    IF v_restaurant_id IS NOT NULL THEN
+        PERFORM public.log_discover_cache_invalidation(v_restaurant_id);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS dish_tags_invalidate_discover_cache ON public.dish_tags;
+CREATE TRIGGER dish_tags_invalidate_discover_cache
+AFTER INSERT OR DELETE ON public.dish_tags
+FOR EACH ROW EXECUTE FUNCTION public.trg_dish_tags_invalidate_discover_cache();
+
+CREATE OR REPLACE FUNCTION public.trg_sections_invalidate_discover_cache()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.name IS DISTINCT FROM OLD.name THEN
+        PERFORM public.log_discover_cache_invalidation((SELECT m.restaurant_id FROM public.menus m WHERE m.id = NEW.menu_id));
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sections_invalidate_discover_cache ON public.sections;
+CREATE TRIGGER sections_invalidate_discover_cache
+AFTER UPDATE OF name ON public.sections
+FOR EACH ROW EXECUTE FUNCTION public.trg_sections_invalidate_discover_cache();
+
+CREATE OR REPLACE FUNCTION public.trg_restaurants_invalidate_discover_cache()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        INSERT INTO public.discover_cache_invalidations (restaurant_id, city) VALUES (OLD.id, OLD.city);
+        RETURN NULL;
+    END IF;
+
+    -- Log the old city too, so searches there drop a restaurant that moved away
+    IF OLD.city IS DISTINCT FROM NEW.city THEN
+        INSERT INTO public.discover_cache_invalidations (restaurant_id, city) VALUES (OLD.id, OLD.city);
+    END IF;
+    PERFORM public.log_discover_cache_invalidation(NEW.id);
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restaurants_invalidate_discover_cache ON public.restaurants;
+CREATE TRIGGER restaurants_invalidate_discover_cache
+AFTER DELETE OR UPDATE OF name, city, public_searchable ON public.restaurants
+FOR EACH ROW EXECUTE FUNCTION public.trg_restaurants_invalidate_discover_cache();
+
+CREATE OR REPLACE FUNCTION public.trg_tag_catalogue_invalidate_discover_cache()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO public.discover_cache_invalidations (restaurant_id, city) VALUES (NULL, NULL);
+    RETURN NULL;
+END;
+$$;
+
+-- Statement-level: a bulk alias import logs one row, not one per alias
+DROP TRIGGER IF EXISTS tags_invalidate_discover_cache ON public.tags;
+CREATE TRIGGER tags_invalidate_discover_cache
+AFTER INSERT OR UPDATE OR DELETE ON public.tags
+FOR EACH STATEMENT EXECUTE FUNCTION public.trg_tag_catalogue_invalidate_discover_cache();
+
+DROP TRIGGER IF EXISTS tag_aliases_invalidate_discover_cache ON public.tag_aliases;
+CREATE TRIGGER tag_aliases_invalidate_discover_cache
+AFTER INSERT OR UPDATE OR DELETE ON public.tag_aliases
+FOR EACH STATEMENT EXECUTE FUNCTION public.trg_tag_catalogue_invalidate_discover_cache();
+
+-- ============================================
+-- POLLING RPC
+-- ============================================
+-- Rows after p_after_id, oldest first. With p_after_id NULL (a process's first poll) only the
+-- latest row is returned, as the starting cursor. Capped at 1000: callers treat a full page as
+-- "too much changed" and drop everything.
+CREATE OR REPLACE FUNCTION public.discover_cache_invalidations_since(p_after_id BIGINT DEFAULT NULL)
+RETURNS TABLE (id BIGINT, restaurant_id UUID, city TEXT)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT i.id, i.restaurant_id, i.city
+    FROM public.discover_cache_invalidations i
+    WHERE (p_after_id IS NULL AND i.id = (SELECT MAX(l.id) FROM public.discover_cache_invalidations l))
+       OR i.id > p_after_id
+    ORDER BY i.id
+    LIMIT 1000;
+$$;
+
+REVOKE ALL ON FUNCTION public.log_discover_cache_invalidation(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.discover_cache_invalidations_since(BIGINT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,108 @@
+-- Discover chat abuse protection (lib/discover/rate-limit, DISCOVER_RATE_LIMIT_STORE=supabase)
+-- 1. discover_rate_limit_buckets: token buckets per hashed client IP and per chat session,
+--    taken atomically by discover_rate_limit_take()
+-- 2. discover_llm_budget_daily: chat turns per UTC day that were allowed to call the LLM,
+--    counted by discover_consume_llm_budget()
+-- Unlike consume_ai_message (0049, per restaurant per month for the widget) these are
+-- anonymous and global.
+
+-- ============================================
+-- TOKEN BUCKETS
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.discover_rate_limit_buckets (
+    key TEXT PRIMARY KEY, -- "ip:<sha256 prefix>" or "session:<uuid>"
+    tokens DOUBLE PRECISION NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discover_rate_limit_buckets_updated_at ON public.discover_rate_limit_buckets(updated_at);
+
+-- Enable RLS with no policies: only the service role (chat route) can read or write
+ALTER TABLE public.discover_rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.discover_rate_limit_buckets IS 'Discover chat token buckets; rows idle for a day are pruned (an idle bucket is full anyway)';
+
+-- Refill by elapsed time, then take one token if there is one. A new key starts full.
+CREATE OR REPLACE FUNCTION public.discover_rate_limit_take(
+    p_key TEXT,
+    p_capacity INTEGER,
+    p_refill_per_second DOUBLE PRECISION
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, retry_after_seconds INTEGER)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_tokens DOUBLE PRECISION;
+    v_updated_at TIMESTAMPTZ;
+BEGIN
+    INSERT INTO public.discover_rate_limit_buckets AS b (key, tokens, updated_at)
+    VALUES (p_key, p_capacity, NOW())
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT b.tokens, b.updated_at INTO v_tokens, v_updated_at
+    FROM public.discover_rate_limit_buckets b
+    WHERE b.key = p_key
+    FOR UPDATE;
+
+    v_tokens := LEAST(p_capacity, v_tokens + GREATEST(0, EXTRACT(EPOCH FROM (NOW() - v_updated_at))) * p_refill_per_second);
+
+    IF v_tokens >= 1 THEN
+        UPDATE public.discover_rate_limit_buckets b SET tokens = v_tokens - 1, updated_at = NOW() WHERE b.key = p_key;
+        RETURN QUERY SELECT true, FLOOR(v_tokens - 1)::INTEGER, 0;
+    ELSE
+        UPDATE public.discover_rate_limit_buckets b SET tokens = v_tokens, updated_at = NOW() WHERE b.key = p_key;
+        RETURN QUERY SELECT false, 0, GREATEST(1, CEIL((1 - v_tokens) / p_refill_per_second))::INTEGER;
+    END IF;
+
+    -- Prune occasionally instead of on every request
+    IF random() < 0.01 THEN
+        DELETE FROM public.discover_rate_limit_buckets b WHERE b.updated_at < NOW() - INTERVAL '1 day';
+    END IF;
+END;
+$$;
+
+-- ============================================
+-- DAILY LLM BUDGET
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.discover_llm_budget_daily (
+    day DATE PRIMARY KEY, -- UTC
+    used INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS with no policies: only the service role can read or write
+ALTER TABLE public.discover_llm_budget_daily ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.discover_llm_budget_daily IS 'Discover chat turns per UTC day that used the LLM (DISCOVER_LLM_DAILY_BUDGET)';
+
+-- Count one turn unless today's count has reached p_limit. Return columns use a short
+-- name (lim) to avoid clashing with table columns, as in consume_ai_message.
+CREATE OR REPLACE FUNCTION public.discover_consume_llm_budget(p_limit INTEGER)
+RETURNS TABLE (allowed BOOLEAN, used INTEGER, lim INTEGER)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_day DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+    v_used INTEGER;
+BEGIN
+    INSERT INTO public.discover_llm_budget_daily AS d (day, used)
+    VALUES (v_day, 1)
+    ON CONFLICT (day) DO UPDATE SET used = d.used + 1, updated_at = NOW()
+    WHERE d.used < p_limit
+    RETURNING d.used INTO v_used;
+
+    IF v_used IS NULL THEN
+        SELECT d.used INTO v_used FROM public.discover_llm_budget_daily d WHERE d.day = v_day;
+        RETURN QUERY SELECT false, v_used, p_limit;
+    ELSE
+        RETURN QUERY SELECT true, v_used, p_limit;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.discover_rate_limit_take(TEXT, INTEGER, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.discover_consume_llm_budget(INTEGER) FROM PUBLIC, anon, authenticated;
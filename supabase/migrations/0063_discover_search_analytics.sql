@@ -0,0 +1,126 @@
+-- Discover search analytics
+-- 1. discover_query_log: one row per discover chat request (normalized query, parsed intent,
+--    plan action, result ids, latency), written by the chat route (lib/discover/analytics)
+-- 2. discover_search_events: impressions and clicks on result cards and dishes, posted by
+--    /discover through /api/discover/events and joined to the query log by request_id
+-- 3. discover_zero_result_queries() / discover_query_ctr(): reports for `npm run analytics:report`
+-- Both tables are service role only; analytics_simple (0016/0017) stays the widget's event log.
+
+-- ============================================
+-- QUERY LOG
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.discover_query_log (
+    request_id TEXT PRIMARY KEY, -- Trace id (x-request-id), see /discover/trace
+    session_id TEXT,
+    query TEXT NOT NULL,
+    normalized_query TEXT NOT NULL,
+    language TEXT,
+    intent JSONB NOT NULL DEFAULT '{}'::jsonb,
+    action TEXT,
+    result_restaurant_ids TEXT[] NOT NULL DEFAULT '{}',
+    result_dish_ids TEXT[] NOT NULL DEFAULT '{}',
+    result_count INTEGER NOT NULL DEFAULT 0,
+    latency_ms INTEGER NOT NULL,
+    degraded BOOLEAN NOT NULL DEFAULT FALSE,
+    status INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discover_query_log_created_at ON public.discover_query_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_discover_query_log_normalized ON public.discover_query_log(normalized_query, created_at);
+
+-- Enable RLS with no policies: only the service role can read or write
+ALTER TABLE public.discover_query_log ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.discover_query_log IS 'One row per discover chat request: normalized query, intent, plan action, result ids and latency.';
+COMMENT ON COLUMN public.discover_query_log.action IS 'Planner action (SEARCH, CLARIFY, ...), RESTAURANT_SCOPED_SEARCH or RESOLVED_FOLLOWUP; NULL when the request failed before routing';
+COMMENT ON COLUMN public.discover_query_log.result_count IS 'Restaurant cards returned';
+
+-- ============================================
+-- IMPRESSIONS / CLICKS
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.discover_search_events (
+    id BIGSERIAL PRIMARY KEY,
+    request_id TEXT NOT NULL,
+    session_id TEXT,
+    event TEXT NOT NULL CHECK (event IN ('impression', 'click')),
+    target TEXT NOT NULL CHECK (target IN ('restaurant', 'dish')),
+    restaurant_id TEXT NOT NULL,
+    dish_id TEXT,
+    position INTEGER NOT NULL CHECK (position >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (target = 'restaurant' OR dish_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discover_search_events_request ON public.discover_search_events(request_id);
+CREATE INDEX IF NOT EXISTS idx_discover_search_events_created_at ON public.discover_search_events(created_at);
+
+ALTER TABLE public.discover_search_events ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.discover_search_events IS 'Impressions and clicks on discover results; request_id joins discover_query_log.';
+COMMENT ON COLUMN public.discover_search_events.position IS '0-based rank: restaurants within the reply, dishes within their restaurant card';
+
+-- ============================================
+-- REPORTS
+-- ============================================
+-- Most frequent searches that came back empty: what the catalogue is missing
+CREATE OR REPLACE FUNCTION public.discover_zero_result_queries(p_days INTEGER DEFAULT 30, p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (normalized_query TEXT, searches BIGINT, sessions BIGINT, sample_query TEXT, cities TEXT[], last_seen TIMESTAMPTZ)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        q.normalized_query,
+        COUNT(*) AS searches,
+        COUNT(DISTINCT q.session_id) AS sessions,
+        (ARRAY_AGG(q.query ORDER BY q.created_at DESC))[1] AS sample_query,
+        ARRAY_REMOVE(ARRAY_AGG(DISTINCT q.intent->>'city'), NULL) AS cities,
+        MAX(q.created_at) AS last_seen
+    FROM public.discover_query_log q
+    WHERE q.created_at > NOW() - MAKE_INTERVAL(days => p_days)
+      AND q.action IN ('SEARCH', 'RESTAURANT_SCOPED_SEARCH')
+      AND q.status < 400
+      AND q.result_count = 0
+    GROUP BY q.normalized_query
+    ORDER BY searches DESC, last_seen DESC
+    LIMIT p_limit;
+$$;
+
+-- Click-through per query: clicked results / shown results (each result counted once per request)
+CREATE OR REPLACE FUNCTION public.discover_query_ctr(p_days INTEGER DEFAULT 30, p_limit INTEGER DEFAULT 50, p_min_impressions INTEGER DEFAULT 10)
+RETURNS TABLE (normalized_query TEXT, searches BIGINT, impressions BIGINT, clicks BIGINT, ctr NUMERIC, clicked_searches BIGINT)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+    WITH per_request AS (
+        SELECT
+            e.request_id,
+            COUNT(DISTINCT e.target || ':' || e.restaurant_id || ':' || COALESCE(e.dish_id, '')) FILTER (WHERE e.event = 'impression') AS impressions,
+            COUNT(DISTINCT e.target || ':' || e.restaurant_id || ':' || COALESCE(e.dish_id, '')) FILTER (WHERE e.event = 'click') AS clicks
+        FROM public.discover_search_events e
+        WHERE e.created_at > NOW() - MAKE_INTERVAL(days => p_days)
+        GROUP BY e.request_id
+    )
+    SELECT
+        q.normalized_query,
+        COUNT(*) AS searches,
+        COALESCE(SUM(r.impressions), 0)::BIGINT AS impressions,
+        COALESCE(SUM(r.clicks), 0)::BIGINT AS clicks,
+        ROUND(COALESCE(SUM(r.clicks), 0)::NUMERIC / NULLIF(SUM(r.impressions), 0), 4) AS ctr,
+        COUNT(*) FILTER (WHERE r.clicks > 0) AS clicked_searches
+    FROM public.discover_query_log q
+    LEFT JOIN per_request r ON r.request_id = q.request_id
+    WHERE q.created_at > NOW() - MAKE_INTERVAL(days => p_days)
+      AND q.result_count > 0
+    GROUP BY q.normalized_query
+    HAVING COALESCE(SUM(r.impressions), 0) >= p_min_impressions
+    ORDER BY searches DESC, impressions DESC
+    LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.discover_zero_result_queries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.discover_query_ctr(INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,86 @@
+-- Public read access to dish modifiers for discover menus and follow-ups
+-- modifier_groups / modifier_options (0003, 0004), modifier_option_tags (0012) and dish_modifiers
+-- were owner/admin only, so the anon client saw no modifiers. Same rule as 0025: readable when
+-- the restaurant is public_searchable (and, for dish_modifiers, the dish is public).
+
+-- ============================================
+-- MODIFIER_GROUPS
+-- ============================================
+DROP POLICY IF EXISTS "public_read_modifier_groups" ON public.modifier_groups;
+
+CREATE POLICY "public_read_modifier_groups"
+ON public.modifier_groups
+FOR SELECT
+TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.restaurants r
+    WHERE r.id = modifier_groups.restaurant_id
+    AND r.public_searchable = true
+  )
+);
+
+COMMENT ON POLICY "public_read_modifier_groups" ON public.modifier_groups IS 'B2C public read access - modifier groups of public restaurants';
+
+-- ============================================
+-- MODIFIER_OPTIONS
+-- ============================================
+DROP POLICY IF EXISTS "public_read_modifier_options" ON public.modifier_options;
+
+CREATE POLICY "public_read_modifier_options"
+ON public.modifier_options
+FOR SELECT
+TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.modifier_groups g
+    JOIN public.restaurants r ON r.id = g.restaurant_id
+    WHERE g.id = modifier_options.group_id
+    AND r.public_searchable = true
+  )
+);
+
+COMMENT ON POLICY "public_read_modifier_options" ON public.modifier_options IS 'B2C public read access - modifier options of public restaurants';
+
+-- ============================================
+-- MODIFIER_OPTION_TAGS
+-- ============================================
+DROP POLICY IF EXISTS "public_read_modifier_option_tags" ON public.modifier_option_tags;
+
+CREATE POLICY "public_read_modifier_option_tags"
+ON public.modifier_option_tags
+FOR SELECT
+TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    JOIN public.restaurants r ON r.id = g.restaurant_id
+    WHERE o.id = modifier_option_tags.modifier_option_id
+    AND r.public_searchable = true
+  )
+);
+
+COMMENT ON POLICY "public_read_modifier_option_tags" ON public.modifier_option_tags IS 'B2C public read access - option tags ("vegan cheese") of public restaurants';
+
+-- ============================================
+-- DISH_MODIFIERS
+-- ============================================
+DROP POLICY IF EXISTS "public_read_dish_modifiers" ON public.dish_modifiers;
+
+CREATE POLICY "public_read_dish_modifiers"
+ON public.dish_modifiers
+FOR SELECT
+TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.dishes d
+    JOIN public.menus m ON m.id = d.menu_id
+    JOIN public.restaurants r ON r.id = m.restaurant_id
+    WHERE d.id = dish_modifiers.dish_id
+    AND d.public = true
+    AND r.public_searchable = true
+  )
+);
+
+COMMENT ON POLICY "public_read_dish_modifiers" ON public.dish_modifiers IS 'B2C public read access - modifier groups offered with public dishes';
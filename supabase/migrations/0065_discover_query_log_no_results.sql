@@ -0,0 +1,90 @@
+-- Discover query log: explicit no-results flag and a surrogate key
+-- 1. no_results: a search that matched nothing still answers with up to 5 top restaurants
+--    (fallback step E), so result_count > 0 for it. The zero-result and click-through reports
+--    now read no_results instead of result_count.
+-- 2. id: request_id is the trace id, which reuses a valid client-sent x-request-id, so it is
+--    not unique. Rows are keyed by a server-side id; request_id stays indexed for the events join.
+
+-- ============================================
+-- NO_RESULTS
+-- ============================================
+ALTER TABLE public.discover_query_log ADD COLUMN IF NOT EXISTS no_results BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Older rows only know their card count
+UPDATE public.discover_query_log SET no_results = TRUE WHERE result_count = 0;
+
+COMMENT ON COLUMN public.discover_query_log.no_results IS 'Nothing matched: an empty reply or the top-restaurants fallback cards';
+
+-- ============================================
+-- SURROGATE KEY
+-- ============================================
+ALTER TABLE public.discover_query_log DROP CONSTRAINT IF EXISTS discover_query_log_pkey;
+ALTER TABLE public.discover_query_log ADD COLUMN IF NOT EXISTS id BIGSERIAL;
+ALTER TABLE public.discover_query_log ADD PRIMARY KEY (id);
+
+CREATE INDEX IF NOT EXISTS idx_discover_query_log_request ON public.discover_query_log(request_id);
+
+COMMENT ON COLUMN public.discover_query_log.request_id IS 'Trace id (x-request-id, may be client-supplied and repeat), see /discover/trace';
+
+-- ============================================
+-- REPORTS
+-- ============================================
+CREATE OR REPLACE FUNCTION public.discover_zero_result_queries(p_days INTEGER DEFAULT 30, p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (normalized_query TEXT, searches BIGINT, sessions BIGINT, sample_query TEXT, cities TEXT[], last_seen TIMESTAMPTZ)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        q.normalized_query,
+        COUNT(*) AS searches,
+        COUNT(DISTINCT q.session_id) AS sessions,
+        (ARRAY_AGG(q.query ORDER BY q.created_at DESC))[1] AS sample_query,
+        ARRAY_REMOVE(ARRAY_AGG(DISTINCT q.intent->>'city'), NULL) AS cities,
+        MAX(q.created_at) AS last_seen
+    FROM public.discover_query_log q
+    WHERE q.created_at > NOW() - MAKE_INTERVAL(days => p_days)
+      AND q.action IN ('SEARCH', 'RESTAURANT_SCOPED_SEARCH')
+      AND q.status < 400
+      AND q.no_results
+    GROUP BY q.normalized_query
+    ORDER BY searches DESC, last_seen DESC
+    LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION public.discover_query_ctr(p_days INTEGER DEFAULT 30, p_limit INTEGER DEFAULT 50, p_min_impressions INTEGER DEFAULT 10)
+RETURNS TABLE (normalized_query TEXT, searches BIGINT, impressions BIGINT, clicks BIGINT, ctr NUMERIC, clicked_searches BIGINT)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+    WITH per_request AS (
+        SELECT
+            e.request_id,
+            COUNT(DISTINCT e.target || ':' || e.restaurant_id || ':' || COALESCE(e.dish_id, '')) FILTER (WHERE e.event = 'impression') AS impressions,
+            COUNT(DISTINCT e.target || ':' || e.restaurant_id || ':' || COALESCE(e.dish_id, '')) FILTER (WHERE e.event = 'click') AS clicks
+        FROM public.discover_search_events e
+        WHERE e.created_at > NOW() - MAKE_INTERVAL(days => p_days)
+        GROUP BY e.request_id
+    )
+    SELECT
+        q.normalized_query,
+        COUNT(*) AS searches,
+        COALESCE(SUM(r.impressions), 0)::BIGINT AS impressions,
+        COALESCE(SUM(r.clicks), 0)::BIGINT AS clicks,
+        ROUND(COALESCE(SUM(r.clicks), 0)::NUMERIC / NULLIF(SUM(r.impressions), 0), 4) AS ctr,
+        COUNT(*) FILTER (WHERE r.clicks > 0) AS clicked_searches
+    FROM public.discover_query_log q
+    LEFT JOIN per_request r ON r.request_id = q.request_id
+    WHERE q.created_at > NOW() - MAKE_INTERVAL(days => p_days)
+      AND NOT q.no_results
+    GROUP BY q.normalized_query
+    HAVING COALESCE(SUM(r.impressions), 0) >= p_min_impressions
+    ORDER BY searches DESC, impressions DESC
+    LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.discover_zero_result_queries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.discover_query_ctr(INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+    allergensFromIntent,
+    assessDishAllergens,
+    detectAllergenExclusions,
+    normalizeAllergens,
+    screenDishes,
+    stripAllergenPhrases,
+} from "@/lib/discover/allergens";
+import { finalizeResults } from "@/lib/discover/finalizeResults";
+import { makeCard, makeDish, makeTag } from "./helpers";
+
+describe("detectAllergenExclusions", () => {
+    it.each([
+        { query: "curry with no nuts", expected: ["peanuts", "tree-nuts"] },
+        { query: "pad thai without peanuts", expected: ["peanuts"] },
+        { query: "sushi without sesame or eggs", expected: ["sesame", "eggs"] },
+        { query: "nut-free desserts", expected: ["peanuts", "tree-nuts"] },
+        { query: "dairy free pizza", expected: ["milk"] },
+        { query: "gluten free naan", expected: ["gluten", "wheat"] },
+        { query: "I'm allergic to shellfish", expected: ["crustaceans", "molluscs"] },
+        { query: "nut allergy friendly dishes", expected: ["peanuts", "tree-nuts"] },
+        { query: "sesamfri mat i Göteborg", expected: ["sesame"] },
+        { query: "nötfri efterrätt", expected: ["peanuts", "tree-nuts"] },
+        { query: "pasta utan ägg och mjölk", expected: ["eggs", "milk"] },
+        { query: "jordnötsfritt", expected: ["peanuts"] },
+        { query: "peanut curry", expected: [] },
+        { query: "donuts in Stockholm", expected: [] },
+        { query: "butter chicken", expected: [] },
+    ])("$query", ({ query, expected }) => {
+        expect(detectAllergenExclusions(query)).toEqual(expected);
+    });
+});
+
+describe("stripAllergenPhrases", () => {
+    it.each([
+        { text: "pizza without nuts", expected: "pizza" },
+        { text: "sesamfri sushi", expected: "sushi" },
+        { text: "nut-free cake with no eggs", expected: "cake with" },
+        { text: "butter chicken", expected: "butter chicken" },
+    ])("$text", ({ text, expected }) => {
+        expect(stripAllergenPhrases(text)).toBe(expected);
+    });
+});
+
+describe("normalizeAllergens / allergensFromIntent", () => {
+    it("maps loose allergy strings to allergen slugs", () => {
+        expect(normalizeAllergens(["Nuts", "sesame", "tree-nuts", "lactose free", "bananas"]))
+            .toEqual(["peanuts", "tree-nuts", "sesame", "milk"]);
+    });
+
+    it("treats free-from diets as exclusions but not other diets", () => {
+        expect(allergensFromIntent({ allergy: ["sesame"], dietary: ["vegan", "gluten-free"] }))
+            .toEqual(["sesame", "gluten", "wheat"]);
+        expect(allergensFromIntent({ dietary: ["vegetarian"], hard_tags: ["halal"] })).toEqual([]);
+    });
+});
+
+describe("assessDishAllergens", () => {
+    const avoided = ["peanuts", "tree-nuts"];
+
+    it.each([
+        {
+            name: "tagged with an avoided allergen",
+            dish: makeDish("d1", "Satay", { tags: [makeTag("peanuts", "allergen")] }),
+            status: "contains",
+        },
+        {
+            name: "description mentions it",
+            dish: makeDish("d2", "Korma", { description: "Creamy sauce with cashew", tags: [makeTag("milk", "allergen")] }),
+            status: "mentioned",
+        },
+        {
+            name: "no allergen tags at all",
+            dish: makeDish("d3", "Dal Tadka", { tags: [makeTag("vegan")] }),
+            status: "unknown",
+        },
+        {
+            name: "allergen tags, none avoided",
+            dish: makeDish("d4", "Paneer Tikka", { tags: [makeTag("milk", "allergen")] }),
+            status: "clear",
+        },
+        {
+            name: "coconut and nutmeg are not nuts",
+            dish: makeDish("d5", "Coconut curry", { description: "Spiced with nutmeg", tags: [makeTag("coconut", "allergen")] }),
+            status: "clear",
+        },
+    ])("$name", ({ dish, status }) => {
+        expect(assessDishAllergens(dish, avoided).status).toBe(status);
+    });
+
+    it("matches tags by name when the slug is missing", () => {
+        const tag = { id: "t1", name: "Tree Nuts", slug: "", type: "allergen" as const };
+        expect(assessDishAllergens(makeDish("d1", "Baklava", { tags: [tag] }), avoided).status).toBe("contains");
+    });
+});
+
+describe("screenDishes", () => {
+    it("drops tagged dishes and annotates the rest", () => {
+        const dishes = [
+            makeDish("d1", "Sesame Chicken", { tags: [makeTag("sesame", "allergen")] }),
+            makeDish("d2", "Hummus", { description: "Chickpeas and tahini" }),
+            makeDish("d3", "Falafel"),
+        ];
+        const { kept, excluded } = screenDishes(dishes, ["sesame"]);
+
+        expect(excluded).toBe(1);
+        expect(kept.map(d => [d.id, d.allergen_check.status])).toEqual([["d2", "mentioned"], ["d3", "unknown"]]);
+        expect(kept[0].allergen_check).toEqual({ status: "mentioned", avoided: ["sesame"], mentioned: ["sesame"] });
+    });
+});
+
+describe("finalizeResults allergen rule", () => {
+    const cards = [
+        makeCard("r1", [makeDish("d1", "Satay", { tags: [makeTag("peanuts", "allergen")] })]),
+        makeCard("r2", [
+            makeDish("d2", "Pad Thai", { tags: [makeTag("peanuts", "allergen")] }),
+            makeDish("d3", "Green Curry", { tags: [makeTag("fish", "allergen")] }),
+        ]),
+        makeCard("r3", []),
+    ];
+
+    it("drops restaurants whose every dish was excluded, keeps dishless cards", () => {
+        const out = finalizeResults({ mode: "discovery", intent: { allergy: ["peanuts"] }, cards });
+
+        expect(out.map(r => [r.id, (r.matches || []).map(m => m.id)])).toEqual([["r2", ["d3"]], ["r3", []]]);
+        expect(out[0].matches?.[0].allergen_check?.status).toBe("clear");
+    });
+
+    it("leaves results untouched without allergens", () => {
+        const out = finalizeResults({ mode: "discovery", intent: {}, cards });
+        expect(out).toEqual(cards);
+    });
+});
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+    applySoldOutPolicy,
+    applySoldOutPolicyToCards,
+    compareByAvailability,
+    effectiveSoldOutPolicy,
+    resolveSoldOutPolicy,
+} from "@/lib/discover/availability";
+import { applyAvailability } from "@/lib/discover/chat/availability-filter";
+import { createMemoryCatalog, loadCatalogSeed } from "@/lib/catalog";
+import { makeCard, makeDish } from "./helpers";
+
+const catalog = createMemoryCatalog(loadCatalogSeed());
+
+// Demo catalog: Paneer Tikka is sold out, Craft Beer is in-store only
+const PANEER_TIKKA = "d0000000-0000-4000-8000-000000000003";
+const PANEER_BUTTER_MASALA = "d0000000-0000-4000-8000-000000000005";
+const CRAFT_BEER = "d0000000-0000-4000-8000-000000000045";
+
+const soldOut = (id: string, name: string) => makeDish(id, name, { is_available: false });
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe("resolveSoldOutPolicy", () => {
+    it.each([
+        { raw: undefined, expected: "demote" },
+        { raw: "hide", expected: "hide" },
+        { raw: " SHOW ", expected: "show" },
+        { raw: "drop", expected: "demote" },
+    ])("$raw -> $expected", ({ raw, expected }) => {
+        expect(resolveSoldOutPolicy(raw)).toBe(expected);
+    });
+
+    it("lets the toggle override the deployment policy", () => {
+        vi.stubEnv("DISCOVER_SOLD_OUT", "show");
+        expect(effectiveSoldOutPolicy(false)).toBe("show");
+        expect(effectiveSoldOutPolicy(true)).toBe("hide");
+    });
+});
+
+describe("applySoldOutPolicy", () => {
+    const dishes = [soldOut("a", "A"), makeDish("b", "B"), makeDish("c", "C")];
+
+    it.each([
+        { policy: "demote" as const, expected: ["b", "c", "a"] },
+        { policy: "hide" as const, expected: ["b", "c"] },
+        { policy: "show" as const, expected: ["a", "b", "c"] },
+    ])("$policy", ({ policy, expected }) => {
+        expect(applySoldOutPolicy(dishes, policy).map(d => d.id)).toEqual(expected);
+    });
+});
+
+describe("applySoldOutPolicyToCards", () => {
+    const cards = [
+        makeCard("r1", [soldOut("a", "A")]),
+        makeCard("r2", [soldOut("b", "B"), makeDish("c", "C")], { highlight: "B" }),
+        makeCard("r3", []),
+    ];
+
+    it("moves sold-out dishes and only-sold-out restaurants last", () => {
+        const shaped = applySoldOutPolicyToCards(cards, "demote");
+        expect(shaped.map(c => c.id)).toEqual(["r2", "r3", "r1"]);
+        expect(shaped[0].matches?.map(m => m.id)).toEqual(["c", "b"]);
+        expect(shaped[0].highlight).toBe("C");
+    });
+
+    it("drops restaurants left without dishes when hiding", () => {
+        const shaped = applySoldOutPolicyToCards(cards, "hide");
+        expect(shaped.map(c => c.id)).toEqual(["r2", "r3"]);
+        expect(shaped[0].matches?.map(m => m.id)).toEqual(["c"]);
+    });
+
+    it("keeps only-sold-out restaurants last when re-sorted", () => {
+        const sorted = [...cards].sort((a, b) => compareByAvailability(a, b, "demote") || (b.matches?.length ?? 0) - (a.matches?.length ?? 0));
+        expect(sorted.map(c => c.id)).toEqual(["r2", "r3", "r1"]);
+        expect(compareByAvailability(cards[0], cards[1], "show")).toBe(0);
+    });
+});
+
+describe("applyAvailability", () => {
+    const paneerCards = () => [
+        makeCard("indian-bites", [makeDish(PANEER_TIKKA, "Paneer Tikka"), makeDish(PANEER_BUTTER_MASALA, "Paneer Butter Masala")]),
+        makeCard("bar", [makeDish(CRAFT_BEER, "Craft Beer")]),
+    ];
+
+    it("reads the flags from the catalog and demotes sold-out dishes", async () => {
+        const [indianBites, bar] = await applyAvailability(paneerCards(), catalog);
+        expect(indianBites.matches?.map(m => m.name)).toEqual(["Paneer Butter Masala", "Paneer Tikka"]);
+        expect(indianBites.matches?.[1]).toMatchObject({ is_available: false, is_orderable: true });
+        expect(bar.matches?.[0]).toMatchObject({ is_available: true, is_orderable: false });
+    });
+
+    it("hides sold-out dishes when only available dishes are wanted", async () => {
+        const [indianBites] = await applyAvailability(paneerCards(), catalog, { onlyAvailable: true });
+        expect(indianBites.matches?.map(m => m.name)).toEqual(["Paneer Butter Masala"]);
+    });
+
+    it("keeps the results as they are when the lookup fails", async () => {
+        const failing = { ...catalog, getDishes: async () => { throw new Error("offline"); } };
+        const cards = await applyAvailability(paneerCards(), failing, { onlyAvailable: true });
+        expect(cards[0].matches).toHaveLength(2);
+    });
+});
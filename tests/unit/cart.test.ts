@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+    MAX_QUANTITY,
+    addToCart,
+    cartCount,
+    cartLineId,
+    cartTotal,
+    defaultSelection,
+    selectedOptions,
+    setQuantity,
+    toPlaceOrderItems,
+    unitPriceWithOptions,
+    validateSelection,
+} from "@/lib/discover/cart";
+import { fromMinorUnits, toMinorUnits } from "@/lib/discover/money";
+import type { ModifierGroup } from "@/lib/types/discover";
+
+const spice: ModifierGroup = {
+    id: "g-spice",
+    name: "Spice level",
+    modifier_type: "choice",
+    min_selection: 1,
+    max_selection: 1,
+    options: [
+        { id: "mild", name: "Mild", price_adjustment: 0, is_available: false },
+        { id: "medium", name: "Medium", price_adjustment: 0 },
+        { id: "hot", name: "Hot", price_adjustment: 0 },
+    ],
+};
+
+const extras: ModifierGroup = {
+    id: "g-extras",
+    name: "Extras",
+    modifier_type: "addon",
+    min_selection: 0,
+    max_selection: null,
+    options: [
+        { id: "rice", name: "Extra rice", price_adjustment: 20 },
+        { id: "naan", name: "Garlic naan", price_adjustment: 35 },
+    ],
+};
+
+const groups = [spice, extras];
+const bites = { id: "r1", name: "Indian Bites", currency: "SEK" as const };
+const tavolino = { id: "r2", name: "Tavolino", currency: "SEK" as const };
+
+function curry(optionIds: string[], quantity = 1) {
+    const options = selectedOptions(groups, optionIds);
+    return { dish_id: "d-curry", name: "Butter Chicken", unit_price: unitPriceWithOptions(189, options), quantity, options };
+}
+
+describe("option selection", () => {
+    it("accepts a valid selection", () => {
+        expect(validateSelection(groups, ["hot", "naan", "rice"])).toBeNull();
+        expect(validateSelection([], [])).toBeNull();
+    });
+
+    it.each([
+        { optionIds: [], problem: "Choose a spice level" },
+        { optionIds: ["medium", "hot"], problem: "Choose at most 1 for Spice level" },
+        { optionIds: ["mild"], problem: "Mild is sold out" },
+        { optionIds: ["medium", "cheese"], problem: "Unknown option" },
+        { optionIds: ["medium", "rice", "rice"], problem: "Option chosen twice" },
+    ])("rejects $optionIds", ({ optionIds, problem }) => {
+        expect(validateSelection(groups, optionIds)).toBe(problem);
+    });
+
+    it("preselects the first available option of required choices", () => {
+        expect(defaultSelection(groups)).toEqual(["medium"]);
+    });
+
+    it("prices options on top of the dish", () => {
+        const options = selectedOptions(groups, ["naan", "hot", "rice"]);
+        expect(options.map(o => o.option_id)).toEqual(["hot", "rice", "naan"]);
+        expect(unitPriceWithOptions(189, options)).toBe(244);
+        expect(unitPriceWithOptions(12.9, [{ price_adjustment: 1.2 }])).toBe(14.1);
+    });
+});
+
+describe("cart", () => {
+    it("merges the same dish with the same options into one line", () => {
+        let cart = addToCart(null, bites, curry(["hot", "naan"]));
+        cart = addToCart(cart, bites, curry(["naan", "hot"], 2));
+        cart = addToCart(cart, bites, curry(["medium"]));
+
+        expect(cart.items).toHaveLength(2);
+        expect(cart.items[0]).toMatchObject({ line_id: cartLineId("d-curry", ["hot", "naan"]), quantity: 3, unit_price: 224 });
+        expect(cartCount(cart)).toBe(4);
+        expect(cartTotal(cart)).toEqual({ amount: 3 * 224 + 189, currency: "SEK" });
+    });
+
+    it("starts a new cart for another restaurant", () => {
+        const cart = addToCart(addToCart(null, bites, curry(["hot"])), tavolino, { ...curry([]), dish_id: "d-pizza", name: "Margherita" });
+        expect(cart.restaurant_id).toBe("r2");
+        expect(cart.items.map(line => line.dish_id)).toEqual(["d-pizza"]);
+    });
+
+    it("caps quantities and drops emptied lines", () => {
+        const cart = addToCart(null, bites, curry(["hot"], 50));
+        const lineId = cart.items[0].line_id;
+        expect(cart.items[0].quantity).toBe(MAX_QUANTITY);
+        expect(setQuantity(cart, lineId, 3)?.items[0].quantity).toBe(3);
+        expect(setQuantity(cart, lineId, 0)).toBeNull();
+    });
+
+    it("sends the prices the customer saw", () => {
+        const cart = addToCart(null, bites, curry(["hot", "rice"], 2));
+        expect(toPlaceOrderItems(cart)).toEqual([{ dish_id: "d-curry", quantity: 2, option_ids: ["hot", "rice"], unit_price: 209 }]);
+    });
+});
+
+describe("minor units", () => {
+    it("stores öre and cents as integers, yen as is", () => {
+        expect(toMinorUnits({ amount: 189, currency: "SEK" })).toBe(18900);
+        expect(toMinorUnits({ amount: 14.1, currency: "EUR" })).toBe(1410);
+        expect(toMinorUnits({ amount: 1200, currency: "JPY" })).toBe(1200);
+        expect(fromMinorUnits(1410, "EUR")).toEqual({ amount: 14.1, currency: "EUR" });
+        expect(fromMinorUnits(1200, "JPY")).toEqual({ amount: 1200, currency: "JPY" });
+    });
+});
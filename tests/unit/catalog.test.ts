@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+    createCatalog,
+    createMemoryCatalog,
+    flattenSeed,
+    loadCatalogSeed,
+    similarity,
+    type CatalogSeed,
+} from "@/lib/catalog";
+import { resolveTagIdsFromIntentTerms } from "@/lib/discover/chat/query-helpers";
+
+const seed = loadCatalogSeed();
+const catalog = createMemoryCatalog(seed);
+
+const VEGETARIAN = "a445264b-a969-4606-9507-ba77d0d6fc0c";
+const VEGAN = "3706cb32-a6e3-415e-8a45-31880a484e4d";
+const HALAL = "e37ac27a-9114-423e-ae51-633f2e279e41";
+const INDIAN_BITES = "a0000000-0000-4000-8000-000000000001";
+const TAVOLINO = "a0000000-0000-4000-8000-000000000002";
+const HIDDEN_KITCHEN = "a0000000-0000-4000-8000-000000000004";
+const KAHVILA_KULMA = "a0000000-0000-4000-8000-000000000005";
+const MARGHERITA = "d0000000-0000-4000-8000-000000000012";
+
+describe("similarity", () => {
+    it("matches pg_trgm", () => {
+        // {"  w"," wo","wor","ord","rd "} and {"  w"," wo","wor","ord","rds","ds "}: 4 shared of 7
+        expect(similarity("word", "words")).toBeCloseTo(4 / 7, 5);
+        expect(similarity("Butter Chicken", "butter chicken")).toBe(1);
+        expect(similarity("pizza", "sushi")).toBe(0);
+    });
+});
+
+describe("memory catalog", () => {
+    it("loads the demo seed and the default catalog is memory", () => {
+        expect(seed.restaurants.length).toBeGreaterThan(0);
+        expect(createCatalog().kind).toBe("memory");
+    });
+
+    it("rejects unknown tag slugs", () => {
+        const broken: CatalogSeed = {
+            tags: [],
+            restaurants: [{
+                id: "r1",
+                name: "Broken",
+                menus: [{ id: "m1", name: "Menu", sections: [{ id: "s1", name: "Mains", dishes: [{ id: "d1", name: "Stew", price: 100, tags: ["nope"] }] }] }],
+            }],
+        };
+        expect(() => flattenSeed(broken)).toThrow(/unknown tag "nope"/);
+    });
+
+    it("rejects unknown modifier groups", () => {
+        const broken: CatalogSeed = {
+            tags: [],
+            restaurants: [{
+                id: "r1",
+                name: "Broken",
+                menus: [{ id: "m1", name: "Menu", sections: [{ id: "s1", name: "Mains", dishes: [{ id: "d1", name: "Stew", price: 100, modifier_groups: ["g1"] }] }] }],
+            }],
+        };
+        expect(() => flattenSeed(broken)).toThrow(/unknown modifier group "g1"/);
+    });
+
+    it("finds dishes despite typos and filters by city", async () => {
+        const rows = await catalog.searchDishesFuzzy("buter chiken");
+        expect(rows[0].dish_name).toBe("Butter Chicken");
+
+        expect(await catalog.searchDishesFuzzy("tiramisu", { city: "stockholm" })).toEqual([
+            expect.objectContaining({ dish_name: "Tiramisu", restaurant_city: "Stockholm" }),
+        ]);
+    });
+
+    it("groups fuzzy matches by restaurant", async () => {
+        const rows = await catalog.searchRestaurantsFuzzy("pizza", { city: "Göteborg" });
+        expect(rows[0].restaurant_id).toBe(TAVOLINO);
+        expect(rows[0].matching_dishes.map(d => d.name)).not.toContain("Pizza del Giorno");
+    });
+
+    it("requires all tags in the strict tag search", async () => {
+        const rows = await catalog.searchDishesByTagsStrict([VEGAN, VEGETARIAN], { city: "Göteborg", queryText: "pizza" });
+        expect(rows.map(r => r.dish_name)).toEqual(["Marinara (V)", "Ortolana (V)"]);
+        expect(rows[0].section_name).toBe("Pizza Rossa");
+        expect(rows[0].matched_tags?.map(t => t.slug)).toContain("vegan");
+    });
+
+    it("accepts any tag in the tag search", async () => {
+        const rows = await catalog.searchDishesByTags([HALAL, VEGAN], { city: "Göteborg" });
+        const names = rows.map(r => r.dish_name);
+        expect(names).toContain("Butter Chicken");
+        expect(names).toContain("Marinara (V)");
+        expect(names).not.toContain("Paneer Tikka");
+    });
+
+    it("matches restaurant names and skips non-public restaurants", async () => {
+        expect((await catalog.searchRestaurantsByName("tavolini"))[0].id).toBe(TAVOLINO);
+        expect(await catalog.searchRestaurantsByName("Hidden Kitchen")).toEqual([]);
+        expect(await catalog.findRestaurants({ name: "hidden" })).toEqual([]);
+        expect(await catalog.getRestaurant(HIDDEN_KITCHEN, { publicOnly: true })).toBeNull();
+        expect(await catalog.getRestaurant(HIDDEN_KITCHEN)).toBeNull();
+        expect(await catalog.getRestaurant(HIDDEN_KITCHEN, { publicOnly: false })).not.toBeNull();
+        expect((await catalog.getRestaurants([TAVOLINO, HIDDEN_KITCHEN])).map(r => r.id)).toEqual([TAVOLINO]);
+    });
+
+    it("finds restaurants within a radius, nearest first", async () => {
+        const rows = await catalog.restaurantsWithinRadius({ lat: 57.6998, lng: 11.953 }, 2);
+        expect(rows.map(r => r.restaurant_id)).toEqual([INDIAN_BITES, TAVOLINO]);
+        expect(rows[0].distance_km).toBeLessThan(0.1);
+    });
+
+    it("reads restaurant currencies, SEK by default", async () => {
+        const [tavolino, kahvila] = await catalog.getRestaurants([TAVOLINO, KAHVILA_KULMA]);
+        expect(tavolino.currency).toBe("SEK");
+        expect(kahvila.currency).toBe("EUR");
+    });
+
+    it("lists a restaurant's dishes, hiding non-public ones", async () => {
+        const all = await catalog.getDishes({ restaurantId: TAVOLINO });
+        const visible = await catalog.getDishes({ restaurantId: TAVOLINO, publicOnly: true });
+        expect(all.map(d => d.name)).toContain("Pizza del Giorno");
+        expect(visible.map(d => d.name)).not.toContain("Pizza del Giorno");
+        expect(visible[0]).toMatchObject({ name: "Margherita (VE)", section_name: "Pizza Rossa" });
+    });
+
+    it("returns a dish's modifier groups in order, with option tags", async () => {
+        const modifiers = await catalog.getDishModifiers([MARGHERITA, "d0000000-0000-4000-8000-000000000001"]);
+        const groups = modifiers.get(MARGHERITA) ?? [];
+        expect(groups.map(g => g.name)).toEqual(["Cheese", "Base"]);
+        expect(groups[0].options.find(o => o.name === "Vegan cheese")).toMatchObject({
+            price_adjustment: 15,
+            is_available: true,
+            tags: [expect.objectContaining({ slug: "vegan" })],
+        });
+        expect(modifiers.has("d0000000-0000-4000-8000-000000000001")).toBe(false);
+    });
+
+    it("ranks semantic matches with the configured embedder", async () => {
+        // One dimension per keyword: a bag-of-words stand-in for real embeddings
+        const keywords = ["pizza", "curry", "dessert"];
+        const toVector = (text: string) => keywords.map(k => (text.toLowerCase().includes(k) ? 1 : 0));
+        const embed = vi.fn(async (texts: string[]) => texts.map(toVector));
+        const semantic = createMemoryCatalog(seed, { embed });
+
+        const rows = await semantic.searchDishesSemantic(toVector("pizza"), { city: "Göteborg", limit: 3 });
+        expect(rows).toHaveLength(3);
+        expect(rows.every(r => r.restaurant_id === TAVOLINO)).toBe(true);
+        expect(rows[0].embedding_version).toBeTruthy();
+
+        await semantic.searchDishesSemantic(toVector("curry"));
+        expect(embed).toHaveBeenCalledTimes(1);
+
+        expect(await catalog.searchDishesSemantic(toVector("pizza"))).toEqual([]);
+    });
+});
+
+describe("resolveTagIdsFromIntentTerms", () => {
+    it("resolves aliases to the canonical tags", async () => {
+        const { tagIds, resolvedTerms } = await resolveTagIdsFromIntentTerms(["veg", "helal"], catalog);
+        expect(tagIds).toEqual([VEGETARIAN, HALAL]);
+        expect(resolvedTerms.map(t => t.slug)).toEqual(["vegetarian", "halal"]);
+    });
+});
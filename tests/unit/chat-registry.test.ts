@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import { ACTION_TYPES, type Plan } from "@/lib/discover/planner";
+import type { ChatActionContext } from "@/lib/discover/chat/context";
+import { ACTION_HANDLERS, getActionHandler } from "@/lib/discover/chat/registry";
+import { createTrace } from "@/lib/discover/trace";
+import { getLLMProvider } from "@/lib/llm";
+import { makeIntent } from "./helpers";
+
+function makeContext(overrides: Partial<ChatActionContext> = {}): ChatActionContext {
+    const plan: Plan = { action: "SEARCH", confidence: 1, reason: null, prefs_patch: null, dish_query: null, search: null };
+    return {
+        query: "",
+        intent: makeIntent(),
+        chatState: { mode: "discovery", currentRestaurantId: null },
+        grounded: null,
+        llm: getLLMProvider(),
+        request: new NextRequest("http://localhost/api/discover/chat", { method: "POST" }),
+        trace: createTrace({ name: "test", requestId: "test-request" }),
+        plan,
+        ...overrides,
+    };
+}
+
+describe("action handler registry", () => {
+    it("registers a handler for every planner action", () => {
+        expect(Object.keys(ACTION_HANDLERS).sort()).toEqual([...ACTION_TYPES].sort());
+        for (const action of ACTION_TYPES) {
+            expect(typeof getActionHandler(action)).toBe("function");
+        }
+    });
+
+    it("falls back to SEARCH for unknown actions", () => {
+        expect(getActionHandler("NOT_AN_ACTION")).toBe(ACTION_HANDLERS.SEARCH);
+    });
+
+    it("EXIT_RESTAURANT drops restaurant focus", async () => {
+        const ctx = makeContext({
+            query: "back to all restaurants",
+            chatState: { mode: "restaurant", currentRestaurantId: "r1", currentRestaurantName: "Indian Bites" },
+        });
+        const body = await (await getActionHandler("EXIT_RESTAURANT")(ctx)).json();
+
+        expect(body.chatState).toMatchObject({ mode: "discovery", currentRestaurantId: null, currentRestaurantName: null });
+        expect(body.message.restaurants).toEqual([]);
+    });
+
+    it("CLARIFY asks a question and keeps the chat state", async () => {
+        const ctx = makeContext({ query: "hmm", chatState: { mode: "discovery", currentRestaurantId: null, preferred_language: "en" } });
+        const body = await (await getActionHandler("CLARIFY")(ctx)).json();
+
+        expect(body.message.content).toMatch(/What type of cuisine or dish/);
+        expect(body.chatState.mode).toBe("discovery");
+    });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/discover/chat/route";
+import { getLLMProvider } from "@/lib/llm";
+import {
+    ANY_CITY_TAG,
+    createInvalidationPoller,
+    createLruCache,
+    intentCacheKey,
+    invalidationTags,
+    searchCacheKey,
+    type CacheInvalidation,
+} from "@/lib/discover/cache";
+
+function clock(start = 0) {
+    let time = start;
+    return { now: () => time, advance: (ms: number) => (time += ms) };
+}
+
+describe("createLruCache", () => {
+    it("evicts the least recently used entry", () => {
+        const cache = createLruCache<number>({ name: "test", maxEntries: 2, ttlMs: 1000 });
+        cache.set("a", 1);
+        cache.set("b", 2);
+        cache.get("a");
+        cache.set("c", 3);
+
+        expect(cache.get("b")).toBeUndefined();
+        expect(cache.get("a")).toBe(1);
+        expect(cache.stats()).toMatchObject({ size: 2, evictions: 1, hits: 2, misses: 1 });
+    });
+
+    it("expires entries after the TTL", () => {
+        const time = clock();
+        const cache = createLruCache<string>({ name: "test", maxEntries: 10, ttlMs: 1000, now: time.now });
+        cache.set("halal", "intent");
+        time.advance(999);
+        expect(cache.get("halal")).toBe("intent");
+        time.advance(1);
+        expect(cache.get("halal")).toBeUndefined();
+        expect(cache.stats().size).toBe(0);
+    });
+
+    it("drops entries by tag and reports hit rate", () => {
+        const cache = createLruCache<string>({ name: "results", maxEntries: 10, ttlMs: 1000 });
+        cache.set("pizza", "a", ["restaurant:1", "city:STOCKHOLM"]);
+        cache.set("naan", "b", ["restaurant:2", "city:GÖTEBORG"]);
+        cache.set("halal", "c", ["restaurant:1", "restaurant:2", ANY_CITY_TAG]);
+
+        expect(cache.invalidateTags(["restaurant:1"])).toBe(2);
+        expect(cache.get("naan")).toBe("b");
+        expect(cache.get("pizza")).toBeUndefined();
+        expect(cache.stats()).toMatchObject({ invalidations: 2, hitRate: 0.5 });
+    });
+
+    it("hands out copies when cloning", () => {
+        const cache = createLruCache<{ names: string[] }>({ name: "test", maxEntries: 10, ttlMs: 1000, clone: true });
+        const value = { names: ["Dal"] };
+        cache.set("k", value);
+        value.names.push("Naan");
+        cache.get("k")!.names.push("Roti");
+
+        expect(cache.get("k")).toEqual({ names: ["Dal"] });
+    });
+
+    it("shares one load between concurrent misses and skips values it should not cache", async () => {
+        const cache = createLruCache<number[]>({ name: "embeddings", maxEntries: 10, ttlMs: 1000 });
+        const load = vi.fn(async () => [0.1, 0.2]);
+
+        const [a, b] = await Promise.all([cache.getOrLoad("pizza", load), cache.getOrLoad("pizza", load)]);
+        expect(a).toEqual([0.1, 0.2]);
+        expect(b).toEqual([0.1, 0.2]);
+        expect(load).toHaveBeenCalledTimes(1);
+
+        await cache.getOrLoad("empty", async () => [], { shouldCache: v => v.length > 0 });
+        expect(cache.get("empty")).toBeUndefined();
+    });
+
+    it("tags loaded values from the result and ignores loads that raced an invalidation", async () => {
+        const cache = createLruCache<string[]>({ name: "results", maxEntries: 10, ttlMs: 1000 });
+        await cache.getOrLoad("pizza", async () => ["r1", "r2"], { tags: ids => ids.map(id => `restaurant:${id}`) });
+        expect(cache.invalidateTags(["restaurant:r2"])).toBe(1);
+
+        let resolve: (value: string[]) => void = () => {};
+        const pending = cache.getOrLoad("naan", () => new Promise(r => (resolve = r)));
+        cache.invalidateTags(["restaurant:r1"]);
+        resolve(["r1"]);
+
+        expect(await pending).toEqual(["r1"]);
+        expect(cache.get("naan")).toBeUndefined();
+    });
+
+    it("stores nothing when disabled", () => {
+        const cache = createLruCache<number>({ name: "off", maxEntries: 0, ttlMs: 1000 });
+        cache.set("a", 1);
+        expect(cache.get("a")).toBeUndefined();
+        expect(cache.stats()).toMatchObject({ size: 0, evictions: 0, misses: 1 });
+    });
+});
+
+describe("cache keys", () => {
+    it("normalizes case, whitespace and trailing punctuation", () => {
+        expect(intentCacheKey("  Vegan   Pizza? ")).toBe(intentCacheKey("vegan pizza"));
+        expect(intentCacheKey("menu", { mode: "restaurant", currentRestaurantId: "r1" })).not.toBe(intentCacheKey("menu"));
+    });
+
+    it("ignores tag and dietary order", () => {
+        const a = searchCacheKey({ resolvedTagIds: ["t2", "t1"], queryText: "Pizza", city: "stockholm", dietaryLabels: ["Vegan"] });
+        const b = searchCacheKey({ resolvedTagIds: ["t1", "t2"], queryText: "pizza", city: "STOCKHOLM", dietaryLabels: ["vegan"] });
+        expect(a).toBe(b);
+        expect(searchCacheKey({ resolvedTagIds: [], queryText: "pizza", city: null, dietaryLabels: [] })).not.toBe(a);
+    });
+});
+
+describe("invalidation", () => {
+    it("drops the restaurant, its city and city-less searches", () => {
+        expect(invalidationTags({ id: 1, restaurantId: "r1", city: "Göteborg" })).toEqual(["restaurant:r1", ANY_CITY_TAG, "city:GÖTEBORG"]);
+        expect(invalidationTags({ id: 2, restaurantId: null, city: null })).toBeNull();
+    });
+
+    function setup(pages: CacheInvalidation[][]) {
+        const time = clock();
+        const fetch = vi.fn(async () => pages.shift() ?? []);
+        const apply = vi.fn();
+        const poller = createInvalidationPoller({ fetch, apply, intervalMs: 10_000, maxBacklog: 3, now: time.now });
+        return { time, fetch, apply, poller };
+    }
+
+    it("starts from the latest event and applies later ones once per interval", async () => {
+        const { time, fetch, apply, poller } = setup([
+            [{ id: 7, restaurantId: "old", city: null }],
+            [{ id: 8, restaurantId: "r1", city: "Stockholm" }, { id: 9, restaurantId: "r1", city: "Stockholm" }],
+        ]);
+
+        await poller.sync();
+        expect(apply).not.toHaveBeenCalled();
+        expect(poller.cursor).toBe(7);
+
+        await poller.sync();
+        expect(fetch).toHaveBeenCalledTimes(1);
+
+        time.advance(10_000);
+        await poller.sync();
+        expect(fetch).toHaveBeenLastCalledWith(7);
+        expect(apply).toHaveBeenCalledWith(["restaurant:r1", ANY_CITY_TAG, "city:STOCKHOLM"]);
+        expect(poller.cursor).toBe(9);
+    });
+
+    it("treats an empty log as the start and drops everything on a full page", async () => {
+        const { time, fetch, apply, poller } = setup([
+            [],
+            [1, 2, 3].map(id => ({ id, restaurantId: `r${id}`, city: null })),
+        ]);
+
+        await poller.sync();
+        time.advance(10_000);
+        await poller.sync();
+
+        expect(fetch).toHaveBeenLastCalledWith(0);
+        expect(apply).toHaveBeenCalledWith(null);
+    });
+
+    it("keeps the cursor when a poll fails", async () => {
+        const { time, fetch, poller } = setup([[{ id: 4, restaurantId: "r1", city: null }]]);
+        await poller.sync();
+        fetch.mockRejectedValueOnce(new Error("offline"));
+        const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+
+        time.advance(10_000);
+        await poller.sync();
+
+        expect(poller.cursor).toBe(4);
+        expect(errorLog).toHaveBeenCalled();
+        errorLog.mockRestore();
+    });
+});
+
+describe("chat route intent cache", () => {
+    function chatRequest(messages: { role: string; content: string }[]) {
+        return new NextRequest("http://localhost/api/discover/chat", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ messages, chatState: { mode: "discovery" } }),
+        });
+    }
+
+    it("reuses the parsed intent for a repeated first-turn query", async () => {
+        const intentJson = JSON.stringify({ dish_query: "lasagne", city: null, dietary: ["vegetarian"], language: "en" });
+        const complete = vi.spyOn(getLLMProvider(), "complete").mockImplementation(async (req) =>
+            String(req.messages[0]?.content).includes("intent parser") ? intentJson : null
+        );
+        const intentCalls = () => complete.mock.calls.filter(([req]) => String(req.messages[0]?.content).includes("intent parser")).length;
+        const quiet = ["log", "warn", "error"].map(level => vi.spyOn(console, level as "log").mockImplementation(() => {}));
+
+        const first = await POST(chatRequest([{ role: "user", content: "vegetarian lasagne" }]));
+        const second = await POST(chatRequest([{ role: "user", content: "vegetarian lasagne" }]));
+        // With history the same words can be a follow-up: parsed again
+        await POST(chatRequest([
+            { role: "user", content: "pizza" },
+            { role: "assistant", content: "Here are some pizzas" },
+            { role: "user", content: "vegetarian lasagne" },
+        ]));
+        const calls = intentCalls();
+        quiet.forEach(spy => spy.mockRestore());
+        complete.mockRestore();
+
+        expect(first.status).toBe(200);
+        expect(second.status).toBe(200);
+        expect(calls).toBe(2);
+    });
+});
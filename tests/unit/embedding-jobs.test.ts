@@ -0,0 +1,257 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+    EMBEDDING_TEMPLATES,
+    buildEmbeddingText,
+    embeddingContentHash,
+    processEmbeddingBatch,
+    resolveEmbeddingTemplate,
+    retryDelayMinutes,
+    runEmbeddingWorker,
+    type DishEmbeddingSource,
+    type EmbeddingJob,
+    type EmbeddingJobResult,
+    type EmbeddingJobStore,
+} from "@/lib/embedding-jobs";
+
+function makeSource(overrides: Partial<DishEmbeddingSource> = {}): DishEmbeddingSource {
+    return {
+        id: "dish-1",
+        name: "Butter Chicken",
+        description: "Creamy tomato curry",
+        sectionName: "Mains",
+        tags: ["Halal", "gluten-free"],
+        aliases: [],
+        tagAliases: [],
+        cuisine: null,
+        isPublic: true,
+        embeddingHash: null,
+        ...overrides,
+    };
+}
+
+interface FakeStore extends EmbeddingJobStore {
+    queue: EmbeddingJob[];
+    completed: EmbeddingJobResult[];
+    failed: Array<{ jobs: EmbeddingJob[]; error: string; retryAt: Date }>;
+}
+
+function makeStore(dishes: DishEmbeddingSource[], queued: string[] = dishes.map(dish => dish.id)): FakeStore {
+    const store: FakeStore = {
+        queue: queued.map(dishId => ({ dishId, enqueuedAt: "2025-06-01T10:00:00Z", attempts: 0 })),
+        completed: [],
+        failed: [],
+        async claim(batchSize) {
+            const jobs = store.queue.splice(0, batchSize);
+            return jobs.map(job => ({ ...job, attempts: job.attempts + 1 }));
+        },
+        async loadDishes(ids) {
+            return dishes.filter(dish => ids.includes(dish.id));
+        },
+        async complete(results) {
+            store.completed.push(...results);
+        },
+        async fail(jobs, error, retryAt) {
+            store.failed.push({ jobs, error, retryAt });
+        },
+        async coverage() {
+            return [];
+        },
+        async enqueueStale() {
+            return 0;
+        },
+        async retryFailed() {
+            return 0;
+        },
+    };
+    return store;
+}
+
+const fakeEmbed = (texts: string[]) => Promise.resolve(texts.map(text => [text.length, 1]));
+
+describe("buildEmbeddingText", () => {
+    it("combines name, description, section and sorted tags", () => {
+        expect(buildEmbeddingText(makeSource())).toBe(
+            "Butter Chicken Creamy tomato curry\nSection: Mains\nTags: gluten-free, halal"
+        );
+    });
+
+    it("omits empty parts", () => {
+        expect(buildEmbeddingText(makeSource({ description: null, sectionName: null, tags: [] }))).toBe("Butter Chicken");
+    });
+
+    it("is empty when there is no name or description", () => {
+        expect(buildEmbeddingText(makeSource({ name: "  ", description: null }))).toBe("");
+    });
+
+    it("adds aliases, cuisine and tag aliases with the v2 template", () => {
+        const dish = makeSource({
+            aliases: ["Smörkyckling", "butter chicken", "Murgh Makhani"],
+            cuisine: "Indian",
+            tagAliases: ["glutenfri", "Gluten-Free", "halal"],
+        });
+        expect(buildEmbeddingText(dish, EMBEDDING_TEMPLATES.v2)).toBe(
+            [
+                "Butter Chicken Creamy tomato curry",
+                "Also known as: Murgh Makhani, Smörkyckling",
+                "Section: Mains",
+                "Cuisine: Indian",
+                "Tags: gluten-free, halal",
+                "Tag aliases: glutenfri",
+            ].join("\n")
+        );
+    });
+
+    it("leaves fields out of templates that do not list them", () => {
+        const dish = makeSource({ aliases: ["Smörkyckling"], cuisine: "Indian", tagAliases: ["glutenfri"] });
+        expect(buildEmbeddingText(dish, EMBEDDING_TEMPLATES.v1)).toBe(
+            "Butter Chicken Creamy tomato curry\nSection: Mains\nTags: gluten-free, halal"
+        );
+    });
+});
+
+describe("resolveEmbeddingTemplate", () => {
+    it("defaults to v2 and accepts known versions", () => {
+        expect(resolveEmbeddingTemplate(undefined).version).toBe("v2");
+        expect(resolveEmbeddingTemplate(" V1 ").version).toBe("v1");
+    });
+
+    it("rejects unknown versions", () => {
+        expect(() => resolveEmbeddingTemplate("v9")).toThrow(/Unknown EMBEDDING_TEMPLATE "v9"/);
+    });
+});
+
+describe("embeddingContentHash", () => {
+    it("ignores whitespace, tag order, tag case and duplicate tags", () => {
+        const base = embeddingContentHash(makeSource());
+        expect(embeddingContentHash(makeSource({ name: " Butter  Chicken " }))).toBe(base);
+        expect(embeddingContentHash(makeSource({ tags: ["gluten-free", "HALAL", "halal"] }))).toBe(base);
+    });
+
+    it.each([
+        { field: "name", change: { name: "Chicken Tikka" } },
+        { field: "description", change: { description: "Mild curry" } },
+        { field: "section", change: { sectionName: "Starters" } },
+        { field: "tags", change: { tags: ["Halal"] } },
+        { field: "aliases", change: { aliases: ["Smörkyckling"] } },
+        { field: "cuisine", change: { cuisine: "Indian" } },
+        { field: "tag aliases", change: { tagAliases: ["glutenfri"] } },
+    ])("changes with the $field", ({ change }) => {
+        expect(embeddingContentHash(makeSource(change))).not.toBe(embeddingContentHash(makeSource()));
+    });
+
+    it("changes with the template version even when the text is the same", () => {
+        const dish = makeSource();
+        expect(buildEmbeddingText(dish, EMBEDDING_TEMPLATES.v1)).toBe(buildEmbeddingText(dish, EMBEDDING_TEMPLATES.v2));
+        expect(embeddingContentHash(dish, EMBEDDING_TEMPLATES.v1)).not.toBe(embeddingContentHash(dish, EMBEDDING_TEMPLATES.v2));
+    });
+});
+
+describe("processEmbeddingBatch", () => {
+    it("embeds changed dishes in one call and skips unchanged ones", async () => {
+        const changed = makeSource({ id: "changed" });
+        const unchanged = makeSource({ id: "unchanged", name: "Naan" });
+        unchanged.embeddingHash = embeddingContentHash(unchanged);
+        const store = makeStore([changed, unchanged]);
+        const embed = vi.fn(fakeEmbed);
+
+        const stats = await processEmbeddingBatch(store, { embed });
+
+        expect(stats).toEqual({ claimed: 2, embedded: 1, unchanged: 1, skipped: 0, failed: 0 });
+        expect(embed).toHaveBeenCalledTimes(1);
+        expect(embed).toHaveBeenCalledWith([buildEmbeddingText(changed)]);
+        const byId = new Map(store.completed.map(result => [result.job.dishId, result]));
+        expect(byId.get("changed")).toMatchObject({ hash: embeddingContentHash(changed), version: "v2" });
+        expect(byId.get("changed")?.embedding).not.toBeNull();
+        expect(byId.get("unchanged")?.embedding).toBeNull();
+    });
+
+    it("re-embeds dishes whose vector came from another template", async () => {
+        const dish = makeSource();
+        dish.embeddingHash = embeddingContentHash(dish, EMBEDDING_TEMPLATES.v1);
+        const store = makeStore([dish]);
+
+        const stats = await processEmbeddingBatch(store, { embed: fakeEmbed, template: EMBEDDING_TEMPLATES.v2 });
+
+        expect(stats.embedded).toBe(1);
+        expect(store.completed[0]).toMatchObject({ version: "v2", hash: embeddingContentHash(dish, EMBEDDING_TEMPLATES.v2) });
+    });
+
+    it("dequeues deleted, non-public and empty dishes without embedding them", async () => {
+        const hidden = makeSource({ id: "hidden", isPublic: false });
+        const empty = makeSource({ id: "empty", name: "", description: null });
+        const store = makeStore([hidden, empty], ["hidden", "empty", "deleted"]);
+        const embed = vi.fn(fakeEmbed);
+
+        const stats = await processEmbeddingBatch(store, { embed });
+
+        expect(stats.skipped).toBe(3);
+        expect(embed).not.toHaveBeenCalled();
+        expect(store.completed.map(result => result.embedding)).toEqual([null, null, null]);
+    });
+
+    it("keeps failed jobs queued with a backoff and still completes the rest", async () => {
+        const changed = makeSource({ id: "changed" });
+        const unchanged = makeSource({ id: "unchanged", name: "Naan" });
+        unchanged.embeddingHash = embeddingContentHash(unchanged);
+        const store = makeStore([changed, unchanged]);
+        const now = new Date("2025-06-01T12:00:00Z");
+
+        const stats = await processEmbeddingBatch(store, {
+            embed: () => Promise.reject(new Error("rate limited")),
+            now: () => now,
+        });
+
+        expect(stats).toMatchObject({ embedded: 0, unchanged: 1, failed: 1 });
+        expect(store.failed).toHaveLength(1);
+        expect(store.failed[0].jobs.map(job => job.dishId)).toEqual(["changed"]);
+        expect(store.failed[0].error).toBe("rate limited");
+        expect(store.failed[0].retryAt.getTime() - now.getTime()).toBe(2 * 60_000);
+        expect(store.completed.map(result => result.job.dishId)).toEqual(["unchanged"]);
+    });
+
+    it("treats a short embeddings response as a failure", async () => {
+        const store = makeStore([makeSource({ id: "a" }), makeSource({ id: "b", name: "Naan" })]);
+
+        const stats = await processEmbeddingBatch(store, { embed: () => Promise.resolve([[1, 2]]) });
+
+        expect(stats.failed).toBe(2);
+        expect(store.completed).toEqual([]);
+    });
+});
+
+describe("retryDelayMinutes", () => {
+    it("doubles per attempt up to an hour", () => {
+        expect([1, 2, 3, 4, 5, 6, 10].map(retryDelayMinutes)).toEqual([2, 4, 8, 16, 32, 60, 60]);
+    });
+});
+
+describe("runEmbeddingWorker", () => {
+    it("drains the queue in batches when run once", async () => {
+        const dishes = Array.from({ length: 5 }, (_, index) => makeSource({ id: `dish-${index}`, name: `Dish ${index}` }));
+        const store = makeStore(dishes);
+        const embed = vi.fn(fakeEmbed);
+        const batches: number[] = [];
+
+        const totals = await runEmbeddingWorker(store, {
+            batchSize: 2,
+            once: true,
+            embed,
+            onBatch: stats => batches.push(stats.claimed),
+        });
+
+        expect(batches).toEqual([2, 2, 1]);
+        expect(embed).toHaveBeenCalledTimes(3);
+        expect(totals).toMatchObject({ claimed: 5, embedded: 5 });
+        expect(store.queue).toEqual([]);
+    });
+
+    it("stops polling when aborted", async () => {
+        const store = makeStore([]);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 10);
+
+        const totals = await runEmbeddingWorker(store, { pollIntervalMs: 60_000, signal: controller.signal });
+
+        expect(totals.claimed).toBe(0);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { finalizeResults } from "@/lib/discover/finalizeResults";
+import { makeCard, makeDish, makeTag } from "./helpers";
+
+const butterChicken = makeDish("d1", "Butter Chicken", { description: "Creamy tomato sauce" });
+const chickenTikka = makeDish("d2", "Chicken Tikka Masala");
+const veganCurry = makeDish("d3", "Chana Masala", { tags: [makeTag("vegan")] });
+const paneer = makeDish("d4", "Palak Paneer", { section_name: "Tandoori Specials" });
+
+const cards = [
+    makeCard("r1", [butterChicken, chickenTikka]),
+    makeCard("r2", [veganCurry, paneer]),
+];
+
+function dishIds(out: { matches?: { id?: string }[] | null }[]) {
+    return out.map(r => (r.matches || []).map(m => m.id));
+}
+
+describe("finalizeResults", () => {
+    it.each([
+        {
+            name: "no filters keeps everything",
+            mode: "discovery" as const,
+            intent: {},
+            focus: null,
+            expected: [["d1", "d2"], ["d3", "d4"]],
+        },
+        {
+            name: "restaurant mode isolates the focused restaurant",
+            mode: "restaurant" as const,
+            intent: {},
+            focus: "r2",
+            expected: [["d3", "d4"]],
+        },
+        {
+            name: "focus id is ignored in discovery mode",
+            mode: "discovery" as const,
+            intent: {},
+            focus: "r2",
+            expected: [["d1", "d2"], ["d3", "d4"]],
+        },
+        {
+            name: "dish query keeps only matching dishes and drops empty restaurants",
+            mode: "discovery" as const,
+            intent: { dish_query: "butter chicken" },
+            focus: null,
+            expected: [["d1"]],
+        },
+        {
+            name: "single-token dish query matches any dish containing it",
+            mode: "discovery" as const,
+            intent: { dish_query: "chicken" },
+            focus: null,
+            expected: [["d1", "d2"]],
+        },
+        {
+            name: "dish query matches section name",
+            mode: "discovery" as const,
+            intent: { dish_query: "tandoori paneer" },
+            focus: null,
+            expected: [["d4"]],
+        },
+        {
+            name: "diet words are not required tokens",
+            mode: "discovery" as const,
+            intent: { dish_query: "halal butter chicken" },
+            focus: null,
+            expected: [["d1"]],
+        },
+        {
+            name: "spelling variants match (aa/a)",
+            mode: "discovery" as const,
+            intent: { dish_query: "chaana" },
+            focus: null,
+            expected: [["d3"]],
+        },
+        {
+            name: "vegan is strict: only vegan-tagged dishes",
+            mode: "discovery" as const,
+            intent: { dietary: ["vegan"] },
+            focus: null,
+            expected: [["d3"]],
+        },
+        {
+            name: "diet_tags is accepted as an alias for dietary",
+            mode: "discovery" as const,
+            intent: { diet_tags: ["vegan"] },
+            focus: null,
+            expected: [["d3"]],
+        },
+        {
+            name: "non-vegan dietary does not filter",
+            mode: "discovery" as const,
+            intent: { dietary: ["halal"] },
+            focus: null,
+            expected: [["d1", "d2"], ["d3", "d4"]],
+        },
+    ])("$name", ({ mode, intent, focus, expected }) => {
+        const out = finalizeResults({ mode, intent, cards, currentRestaurantId: focus });
+        expect(dishIds(out)).toEqual(expected);
+    });
+
+    it("vegan strictness reads plain tag_slugs too", () => {
+        const out = finalizeResults({
+            mode: "discovery",
+            intent: { dietary: ["vegan"] },
+            cards: [{ id: "r9", name: "Slugs", matches: [{ name: "Tofu", tag_slugs: ["vegan"] }, { name: "Fish", tag_slugs: [] }] }],
+        });
+        expect(out[0].matches?.map(m => m.name)).toEqual(["Tofu"]);
+    });
+
+    it("keeps restaurants without matches when no filter applies", () => {
+        const out = finalizeResults({ mode: "discovery", intent: {}, cards: [makeCard("r3", [])] });
+        expect(out).toHaveLength(1);
+    });
+});
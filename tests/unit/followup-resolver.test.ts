@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resolveFollowupFromLastResults } from "@/lib/discover/followup-resolver";
+import type { LastResultDish, ModifierGroup } from "@/lib/types/discover";
+import { makeIntent, makeLastResult } from "./helpers";
+
+// dish_id -> tags returned by the catalog dish tag lookup (vi.mock is hoisted, so use vi.hoisted)
+const dishTags = vi.hoisted(() => ({} as Record<string, { name: string; slug: string; type: string }[]>));
+
+// dish_id -> modifier groups returned by the catalog modifier lookup
+const dishModifiers = vi.hoisted(() => ({} as Record<string, ModifierGroup[]>));
+
+vi.mock("@/lib/catalog", () => ({
+    getCatalog: () => ({
+        getDishTags: async (dishIds: string[]) =>
+            new Map(dishIds.filter(id => dishTags[id]).map(id => [id, dishTags[id].map(tag => ({ id: tag.slug, ...tag }))])),
+        getDishModifiers: async (dishIds: string[]) =>
+            new Map(dishIds.filter(id => dishModifiers[id]).map(id => [id, dishModifiers[id]])),
+    }),
+}));
+
+const butterChicken = makeLastResult({ dish_id: "d1", dish_name: "Butter Chicken", description: "Creamy tomato and cashew sauce" });
+const vindaloo = makeLastResult({ dish_id: "d2", dish_name: "Chicken Vindaloo", description: "Extra stark" });
+const falafel = makeLastResult({ dish_id: "d3", dish_name: "Falafel Wrap", restaurant_id: "r2", restaurant_name: "Beirut Street" });
+
+const lastResults: LastResultDish[] = [butterChicken, vindaloo, falafel];
+
+const spiceLevel: ModifierGroup = {
+    id: "g1", name: "Spice level", modifier_type: "choice", min_selection: 1, max_selection: 1,
+    options: [
+        { id: "o1", name: "Mild", price_adjustment: 0 },
+        { id: "o2", name: "Hot", price_adjustment: 0 },
+    ],
+};
+const paneerSwap: ModifierGroup = {
+    id: "g2", name: "Protein", modifier_type: "choice", min_selection: 1, max_selection: 1,
+    options: [
+        { id: "o3", name: "Chicken", price_adjustment: 0 },
+        { id: "o4", name: "Paneer", price_adjustment: 10, tags: [{ id: "t1", name: "Vegetarian", slug: "vegetarian", type: "diet" }] },
+    ],
+};
+
+beforeEach(() => {
+    for (const key of Object.keys(dishTags)) delete dishTags[key];
+    dishTags.d1 = [{ name: "Halal", slug: "halal", type: "religious" }, { name: "Milk", slug: "milk", type: "allergen" }];
+    dishTags.d3 = [{ name: "Vegan", slug: "vegan", type: "diet" }];
+    for (const key of Object.keys(dishModifiers)) delete dishModifiers[key];
+    dishModifiers.d1 = [spiceLevel];
+    dishModifiers.d2 = [spiceLevel, paneerSwap];
+});
+
+describe("resolveFollowupFromLastResults routing", () => {
+    it.each([
+        { name: "translate request", query: "explain in english", results: lastResults, type: "TRANSLATE_LAST", extra: { targetLanguage: "en" } },
+        { name: "swedish translate request", query: "kan du säga det på svenska", results: lastResults, type: "TRANSLATE_LAST", extra: { targetLanguage: "sv" } },
+        { name: "show more from known restaurant", query: "show more from beirut street", results: lastResults, type: "SHOW_MORE_RESTAURANT", extra: { matchedRestaurantId: "r2", matchedRestaurantName: "Beirut Street" } },
+        { name: "menu of unknown restaurant keeps the name only", query: "show menu of Spice Garden", results: lastResults, type: "SHOW_MORE_RESTAURANT", extra: { matchedRestaurantName: "Spice Garden" } },
+        { name: "generic pagination", query: "show more", results: lastResults, type: "PAGINATE", extra: {} },
+        { name: "swedish pagination", query: "visa fler", results: lastResults, type: "PAGINATE", extra: {} },
+        { name: "new search passes through", query: "pizza in malmö", results: lastResults, type: "PASS", extra: {} },
+        { name: "tag question with no results to reference", query: "is it halal", results: [], type: "NOT_FOUND", extra: {} },
+    ])("$name", async ({ query, results, type, extra }) => {
+        const resolution = await resolveFollowupFromLastResults(query, makeIntent(), results);
+        expect(resolution.type).toBe(type);
+        expect(resolution).toMatchObject(extra);
+    });
+});
+
+describe("resolveFollowupFromLastResults attribute questions", () => {
+    it.each([
+        { name: "spicy with evidence in description", query: "how spicy is the vindaloo", dish: "Chicken Vindaloo", tagFound: true },
+        { name: "creamy with evidence in description", query: "is it creamy", dish: "Butter Chicken", tagFound: true },
+        { name: "sweet without evidence", query: "how sweet is the falafel", dish: "Falafel Wrap", tagFound: false },
+    ])("$name", async ({ query, dish, tagFound }) => {
+        const resolution = await resolveFollowupFromLastResults(query, makeIntent(), lastResults);
+        expect(resolution.type).toBe("RESOLVED");
+        expect(resolution.matchedDish?.dish_name).toBe(dish);
+        expect(resolution.tagFound).toBe(tagFound);
+    });
+});
+
+describe("resolveFollowupFromLastResults tag questions", () => {
+    it.each([
+        { name: "tagged dish by name", query: "is butter chicken halal", dishQuery: "butter chicken", dish: "d1", tagFound: true, answer: /Yes.*tagged "Halal"/ },
+        { name: "untagged dish by name", query: "is chicken vindaloo halal", dishQuery: "chicken vindaloo", dish: "d2", tagFound: false, answer: /No.*not tagged "halal"/ },
+        { name: "vegan tag by name", query: "is the falafel wrap vegan", dishQuery: "falafel wrap", dish: "d3", tagFound: true, answer: /tagged "Vegan"/ },
+        { name: "allergen listing", query: "any allergens in butter chicken", dishQuery: "butter chicken", dish: "d1", tagFound: true, answer: /Milk/ },
+        { name: "allergen listing when none tagged", query: "any allergens in the falafel wrap", dishQuery: "falafel wrap", dish: "d3", tagFound: false, answer: /No allergens are tagged/ },
+    ])("$name", async ({ query, dishQuery, dish, tagFound, answer }) => {
+        const resolution = await resolveFollowupFromLastResults(query, makeIntent({ dish_query: dishQuery }), lastResults);
+        expect(resolution.type).toBe("RESOLVED");
+        expect(resolution.matchedDish?.dish_id).toBe(dish);
+        expect(resolution.tagFound).toBe(tagFound);
+        expect(resolution.answer).toMatch(answer);
+    });
+
+    it("never answers yes for a sold-out dish", async () => {
+        const soldOut = { ...butterChicken, is_available: false };
+        const resolution = await resolveFollowupFromLastResults("is butter chicken halal", makeIntent({ dish_query: "butter chicken" }), [soldOut]);
+        expect(resolution.type).toBe("RESOLVED");
+        expect(resolution.answer).toMatch(/^⏸ Sold out — .*sold out right now/);
+        expect(resolution.answer).not.toMatch(/Yes/);
+    });
+
+    it("asks which dish when a pronoun matches several", async () => {
+        const resolution = await resolveFollowupFromLastResults("is it halal", makeIntent(), lastResults);
+        expect(resolution.type).toBe("CLARIFY");
+        expect(resolution.candidates?.length).toBeGreaterThan(1);
+    });
+
+    it("resolves a pronoun when only one dish was shown", async () => {
+        const resolution = await resolveFollowupFromLastResults("is it halal", makeIntent(), [butterChicken]);
+        expect(resolution.type).toBe("RESOLVED");
+        expect(resolution.tagFound).toBe(true);
+    });
+
+    it("passes list-style questions on to search", async () => {
+        const resolution = await resolveFollowupFromLastResults("do they have any vegan chicken dishes", makeIntent(), lastResults);
+        expect(resolution.type).toBe("PASS");
+    });
+});
+
+describe("resolveFollowupFromLastResults modifier questions", () => {
+    it("answers yes from a tagged option", async () => {
+        const resolution = await resolveFollowupFromLastResults("can I get the vindaloo vegetarian?", makeIntent({ dish_query: "vindaloo" }), lastResults);
+        expect(resolution.type).toBe("RESOLVED");
+        expect(resolution.tagFound).toBe(true);
+        expect(resolution.answer).toMatch(/Yes.*Paneer \(\+10 kr\) under Protein/);
+    });
+
+    it("answers yes from an option named like the term", async () => {
+        const resolution = await resolveFollowupFromLastResults("is there a mild option", makeIntent(), [butterChicken]);
+        expect(resolution.type).toBe("RESOLVED");
+        expect(resolution.answer).toMatch(/Mild under Spice level/);
+    });
+
+    it("says no when no option matches", async () => {
+        const resolution = await resolveFollowupFromLastResults("can I get it vegan", makeIntent(), [butterChicken]);
+        expect(resolution.type).toBe("RESOLVED");
+        expect(resolution.tagFound).toBe(false);
+        expect(resolution.answer).toMatch(/No — I don't see a vegan option/);
+    });
+
+    it("lists the dishes with a matching option when none is named", async () => {
+        const resolution = await resolveFollowupFromLastResults("is there a mild option?", makeIntent(), lastResults);
+        expect(resolution.type).toBe("RESOLVED");
+        expect(resolution.answer).toMatch(/Butter Chicken/);
+        expect(resolution.answer).toMatch(/Chicken Vindaloo/);
+        expect(resolution.answer).not.toMatch(/Falafel/);
+    });
+
+    it("mentions the option when the dish itself is not tagged", async () => {
+        const resolution = await resolveFollowupFromLastResults("is chicken vindaloo vegetarian", makeIntent({ dish_query: "chicken vindaloo" }), lastResults);
+        expect(resolution.type).toBe("RESOLVED");
+        expect(resolution.tagFound).toBe(false);
+        expect(resolution.answer).toMatch(/can be made vegetarian: choose Paneer/);
+    });
+});
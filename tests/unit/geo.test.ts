@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+    MAX_RADIUS_KM,
+    detectLocationIntent,
+    formatDistance,
+    haversineKm,
+    isValidGeoPoint,
+    matchLandmark,
+    rankByDistance,
+    stripLocationPhrases,
+    type Landmark,
+} from "@/lib/discover/geo";
+
+describe("detectLocationIntent", () => {
+    it.each([
+        { query: "pizza near me", expected: { nearMe: true, radiusKm: null, landmark: null } },
+        { query: "sushi nearby", expected: { nearMe: true, radiusKm: null, landmark: null } },
+        { query: "vegan food nära mig", expected: { nearMe: true, radiusKm: null, landmark: null } },
+        { query: "thai i närheten", expected: { nearMe: true, radiusKm: null, landmark: null } },
+        { query: "kebab within 2 km", expected: { nearMe: false, radiusKm: 2, landmark: null } },
+        { query: "lunch inom 500 m", expected: { nearMe: false, radiusKm: 0.5, landmark: null } },
+        { query: "burgers 1,5 km from me", expected: { nearMe: false, radiusKm: 1.5, landmark: null } },
+        { query: "curry close to Centralstationen", expected: { nearMe: false, radiusKm: null, landmark: "Centralstationen" } },
+        { query: "pizza near Centralstationen in Göteborg", expected: { nearMe: false, radiusKm: null, landmark: "Centralstationen" } },
+        { query: "fika nära Gamla stan", expected: { nearMe: false, radiusKm: null, landmark: "Gamla stan" } },
+        { query: "ramen within 1 km of Järntorget", expected: { nearMe: false, radiusKm: 1, landmark: "Järntorget" } },
+        { query: "butter chicken in Stockholm", expected: { nearMe: false, radiusKm: null, landmark: null } },
+    ])("$query", ({ query, expected }) => {
+        expect(detectLocationIntent(query)).toEqual(expected);
+    });
+
+    it("caps the radius", () => {
+        expect(detectLocationIntent("pizza within 500 km").radiusKm).toBe(MAX_RADIUS_KM);
+    });
+});
+
+describe("stripLocationPhrases", () => {
+    it.each([
+        { text: "pizza near me", expected: "pizza" },
+        { text: "kebab within 2 km", expected: "kebab" },
+        { text: "curry close to Centralstationen", expected: "curry" },
+        { text: "ramen within 1 km of Järntorget", expected: "ramen" },
+        { text: "burgers 2 km from me", expected: "burgers" },
+        { text: "thai i närheten", expected: "thai" },
+        { text: "butter chicken", expected: "butter chicken" },
+    ])("$text", ({ text, expected }) => {
+        expect(stripLocationPhrases(text)).toBe(expected);
+    });
+});
+
+describe("matchLandmark", () => {
+    const landmarks: Landmark[] = [
+        { name: "Centralstationen", aliases: ["centralen", "central station"], city: "Göteborg", point: { lat: 57.7089, lng: 11.9732 } },
+        { name: "Centralstationen", aliases: ["centralen", "t-centralen"], city: "Stockholm", point: { lat: 59.3303, lng: 18.0586 } },
+        { name: "Liseberg", aliases: [], city: "Göteborg", point: { lat: 57.6953, lng: 11.9925 } },
+    ];
+
+    it("matches names and aliases case-insensitively", () => {
+        expect(matchLandmark("liseberg", landmarks)?.name).toBe("Liseberg");
+        expect(matchLandmark("T-Centralen", landmarks)?.city).toBe("Stockholm");
+        expect(matchLandmark("the central station", landmarks)?.city).toBe("Göteborg");
+    });
+
+    it("prefers the searched city, then the nearest one", () => {
+        expect(matchLandmark("Centralstationen", landmarks, { city: "STOCKHOLM" })?.city).toBe("Stockholm");
+        expect(matchLandmark("centralen", landmarks, { near: { lat: 59.33, lng: 18.07 } })?.city).toBe("Stockholm");
+        expect(matchLandmark("centralen", landmarks)?.city).toBe("Göteborg");
+    });
+
+    it("returns null for unknown places", () => {
+        expect(matchLandmark("Eiffel Tower", landmarks)).toBeNull();
+    });
+});
+
+describe("distances", () => {
+    it("computes great-circle distance", () => {
+        // Göteborg C -> Stockholm C is roughly 398 km as the crow flies
+        const km = haversineKm({ lat: 57.7089, lng: 11.9732 }, { lat: 59.3303, lng: 18.0586 });
+        expect(km).toBeGreaterThan(390);
+        expect(km).toBeLessThan(405);
+    });
+
+    it("validates client coordinates", () => {
+        expect(isValidGeoPoint({ lat: 57.7, lng: 11.97 })).toBe(true);
+        expect(isValidGeoPoint({ lat: 91, lng: 0 })).toBe(false);
+        expect(isValidGeoPoint({ lat: "57.7", lng: 11.97 })).toBe(false);
+        expect(isValidGeoPoint(null)).toBe(false);
+    });
+
+    it("filters by radius and sorts nearest first", () => {
+        const cards = [{ id: "far" }, { id: "near" }, { id: "unknown" }, { id: "mid" }];
+        const distances = new Map([["far", 7.2], ["near", 0.4], ["mid", 2.345]]);
+
+        expect(rankByDistance(cards, distances, 3)).toEqual([
+            { id: "near", distance_km: 0.4 },
+            { id: "mid", distance_km: 2.35 },
+        ]);
+    });
+
+    it("only annotates without a radius", () => {
+        const cards: Array<{ id: string; distance_km?: number | null }> = [{ id: "far" }, { id: "unknown" }, { id: "near" }];
+        const ranked = rankByDistance(cards, new Map([["far", 7.2], ["near", 0.4]]), null);
+        expect(ranked.map(c => c.id)).toEqual(["far", "unknown", "near"]);
+        expect(ranked[1].distance_km).toBeNull();
+    });
+
+    it.each([
+        { km: 0.004, expected: "10 m" },
+        { km: 0.347, expected: "350 m" },
+        { km: 1.26, expected: "1.3 km" },
+        { km: 12.4, expected: "12 km" },
+    ])("formats $km km as $expected", ({ km, expected }) => {
+        expect(formatDistance(km)).toBe(expected);
+    });
+});
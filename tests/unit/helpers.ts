@@ -0,0 +1,43 @@
+import type { DishMatch, Intent, LastResultDish, RestaurantCard, TagInfo } from "@/lib/types/discover";
+
+export function makeIntent(overrides: Partial<Intent> = {}): Intent {
+    return {
+        dish_query: null,
+        city: null,
+        dietary: [],
+        allergy: [],
+        ingredients: [],
+        price_max: null,
+        language: "en",
+        original_query: "",
+        is_vague: false,
+        ...overrides,
+    };
+}
+
+export function makeTag(slug: string, type: TagInfo["type"] = "diet"): TagInfo {
+    return { id: `tag-${slug}`, name: slug, slug, type };
+}
+
+export function makeDish(id: string, name: string, overrides: Partial<DishMatch> = {}): DishMatch {
+    return { id, name, description: null, price: 100, ...overrides };
+}
+
+export function makeCard(id: string, matches: DishMatch[], overrides: Partial<RestaurantCard> = {}): RestaurantCard {
+    return { id, name: `Restaurant ${id}`, city: "Stockholm", matches, ...overrides };
+}
+
+/** n dishes named "<prefix> 1..n" */
+export function makeDishes(prefix: string, n: number): DishMatch[] {
+    return Array.from({ length: n }, (_, i) => makeDish(`${prefix}-${i + 1}`, `${prefix} ${i + 1}`));
+}
+
+export function makeLastResult(overrides: Partial<LastResultDish> & Pick<LastResultDish, "dish_id" | "dish_name">): LastResultDish {
+    return {
+        restaurant_id: "r1",
+        restaurant_name: "Indian Bites",
+        tag_slugs: [],
+        price: 120,
+        ...overrides,
+    };
+}
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { handleLoadMoreRestaurant } from "@/lib/discover/chat/load-more";
+import type { ChatState, DishMatch } from "@/lib/types/discover";
+import { makeIntent } from "./helpers";
+
+const INDIAN_BITES = "a0000000-0000-4000-8000-000000000001";
+const SOLD_OUT = ["Gulab Jamun", "Paneer Tikka"];
+
+async function loadMore(args: { offset?: number; chatState?: ChatState; onlyAvailable?: boolean } = {}) {
+    const quiet = ["log", "warn", "error"].map(level => vi.spyOn(console, level as "log").mockImplementation(() => {}));
+    const response = await handleLoadMoreRestaurant({
+        restaurantId: INDIAN_BITES,
+        offset: args.offset ?? 0,
+        chatState: args.chatState ?? { mode: "discovery" },
+        onlyAvailable: args.onlyAvailable ?? false,
+    });
+    quiet.forEach(spy => spy.mockRestore());
+    return { status: response.status, body: await response.json() };
+}
+
+const names = (dishes: DishMatch[]) => dishes.map(d => d.name);
+
+describe("handleLoadMoreRestaurant", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("hides sold-out dishes on later pages when only available is on", async () => {
+        const { body } = await loadMore({ onlyAvailable: true });
+
+        expect(body.pagination.total).toBe(9);
+        expect(names(body.appendDishes).filter(name => SOLD_OUT.includes(name))).toEqual([]);
+    });
+
+    it("follows the deployment sold-out policy", async () => {
+        const demoted = await loadMore({ offset: 9 });
+        expect(names(demoted.body.appendDishes).sort()).toEqual(SOLD_OUT);
+
+        vi.stubEnv("DISCOVER_SOLD_OUT", "hide");
+        const hidden = await loadMore();
+        expect(hidden.body.pagination.total).toBe(9);
+    });
+
+    it("keeps the original search's price range, converted into the menu's currency", async () => {
+        const chatState: ChatState = {
+            mode: "discovery",
+            last_search_params: { offset: 0, intent: makeIntent({ price_max: 10, price_currency: "EUR" }) },
+        };
+        const { body } = await loadMore({ chatState });
+
+        // 10 EUR = 114 kr at the default rate
+        expect(body.pagination.total).toBe(5);
+        expect(body.appendDishes.every((d: DishMatch) => d.price <= 114)).toBe(true);
+    });
+
+    it("rejects a negative or fractional offset", async () => {
+        expect((await loadMore({ offset: -3 })).status).toBe(400);
+        expect((await loadMore({ offset: 1.5 })).status).toBe(400);
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryCatalog, loadCatalogSeed } from "@/lib/catalog";
+import { findTaggedOption } from "@/lib/discover/chat/dish-modifiers";
+import {
+    describeModifierGroup,
+    describeModifierMatches,
+    detectModifierQuestion,
+    findModifierOptions,
+    formatPriceAdjustment,
+    modifierQuestionFor,
+} from "@/lib/discover/modifiers";
+import type { ModifierGroup } from "@/lib/types/discover";
+
+const TAVOLINO = "a0000000-0000-4000-8000-000000000002";
+
+const spiceLevel: ModifierGroup = {
+    id: "g1", name: "Spice level", modifier_type: "choice", min_selection: 1, max_selection: 1,
+    options: [
+        { id: "o1", name: "Mild", price_adjustment: 0 },
+        { id: "o2", name: "Medium", price_adjustment: 0 },
+        { id: "o3", name: "Extra hot", price_adjustment: 0, is_available: false },
+    ],
+};
+const cheese: ModifierGroup = {
+    id: "g2", name: "Cheese", modifier_type: "choice", min_selection: 1, max_selection: 1,
+    options: [
+        { id: "o4", name: "Mozzarella", price_adjustment: 0 },
+        { id: "o5", name: "Vegan cheese", price_adjustment: 15, tags: [{ id: "t1", name: "Vegan", slug: "vegan", type: "diet" }] },
+    ],
+};
+
+describe("detectModifierQuestion", () => {
+    it.each([
+        { query: "can I get it vegan?", term: "vegan", tagSlug: "vegan" },
+        { query: "could we have the margherita gluten free", term: "gluten-free", tagSlug: "gluten-free" },
+        { query: "can it be made mild", term: "mild", tagSlug: null },
+        { query: "is there a mild option?", term: "mild", tagSlug: null },
+        { query: "do they have a vegan version", term: "vegan", tagSlug: "vegan" },
+        { query: "kan jag få den vegansk?", term: "vegansk", tagSlug: "vegan" },
+        { query: "finns det ett milt alternativ", term: "milt", tagSlug: null },
+    ])("$query", ({ query, term, tagSlug }) => {
+        expect(detectModifierQuestion(query)).toEqual({ term, tagSlug });
+    });
+
+    it.each(["can I get it delivered", "is there a vegan restaurant nearby", "is it vegan"])("ignores %s", query => {
+        expect(detectModifierQuestion(query)).toBeNull();
+    });
+});
+
+describe("findModifierOptions", () => {
+    it("matches options by tag", () => {
+        const matches = findModifierOptions([spiceLevel, cheese], modifierQuestionFor("vegan"));
+        expect(matches.map(m => m.option.name)).toEqual(["Vegan cheese"]);
+    });
+
+    it("matches options by name and synonyms, skipping sold-out ones", () => {
+        expect(findModifierOptions([spiceLevel], modifierQuestionFor("milt")).map(m => m.option.name)).toEqual(["Mild"]);
+        expect(findModifierOptions([spiceLevel], modifierQuestionFor("hot"))).toEqual([]);
+    });
+});
+
+describe("modifier formatting", () => {
+    it("formats price adjustments", () => {
+        expect(formatPriceAdjustment(15)).toBe("+15 kr");
+        expect(formatPriceAdjustment(-10)).toBe("−10 kr");
+        expect(formatPriceAdjustment(0)).toBe("");
+    });
+
+    it("describes groups and matches", () => {
+        expect(describeModifierGroup(spiceLevel)).toBe("Spice level: Mild, Medium");
+        expect(describeModifierGroup(cheese)).toBe("Cheese: Mozzarella, Vegan cheese (+15 kr)");
+        const matches = findModifierOptions([cheese], modifierQuestionFor("vegan"));
+        expect(describeModifierMatches(matches)).toBe("Vegan cheese (+15 kr) under Cheese");
+    });
+});
+
+describe("findTaggedOption", () => {
+    const catalog = createMemoryCatalog(loadCatalogSeed());
+
+    it("finds the dish and its tagged option", async () => {
+        const found = await findTaggedOption(catalog, TAVOLINO, "vegan margherita", "vegan");
+        expect(found?.dish.name).toBe("Margherita (VE)");
+        expect(found?.matches.map(m => m.option.name)).toEqual(["Vegan cheese"]);
+    });
+
+    it("returns null without a matching option", async () => {
+        expect(await findTaggedOption(catalog, TAVOLINO, "tiramisu", "vegan")).toBeNull();
+        expect(await findTaggedOption(catalog, TAVOLINO, "margherita", "mild")).toBeNull();
+    });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+    DEFAULT_RATES,
+    convertMoney,
+    detectBudget,
+    detectPriceRange,
+    formatMoney,
+    intentBudget,
+    intentPriceRange,
+    isWithinBudget,
+    isWithinPriceRange,
+    parseRateTable,
+    stripBudgetPhrases,
+    stripPriceRangePhrases,
+    toCurrencyCode,
+} from "@/lib/discover/money";
+
+// Intl separates amount and "kr"/"€" with a no-break space
+const plain = (text: string) => text.replace(/ /g, " ");
+
+describe("detectBudget", () => {
+    it.each([
+        { query: "pizza under 15 euro", amount: 15, currency: "EUR" },
+        { query: "max 120 kr", amount: 120, currency: "SEK" },
+        { query: "something below $20", amount: 20, currency: "USD" },
+        { query: "lunch för högst 150:-", amount: 150, currency: "SEK" },
+        { query: "soup under 12,50€", amount: 12.5, currency: "EUR" },
+        { query: "curry with a budget of 300 sek", amount: 300, currency: "SEK" },
+        { query: "thali up to 500 rupees", amount: 500, currency: "INR" },
+    ])("$query", ({ query, amount, currency }) => {
+        expect(detectBudget(query)).toEqual({ amount, currency });
+    });
+
+    it.each(["pizza under 20", "sushi within 2 km", "open after 22:00", "burger"])("ignores %s", query => {
+        expect(detectBudget(query)).toBeNull();
+    });
+
+    it("strips the budget phrase from dish text", () => {
+        expect(stripBudgetPhrases("pizza under 15 euro")).toBe("pizza");
+        expect(stripBudgetPhrases("vegan burger max 120 kr near me")).toBe("vegan burger near me");
+    });
+});
+
+describe("detectPriceRange", () => {
+    const rates = { ...DEFAULT_RATES, EUR: 11 };
+
+    it.each([
+        { query: "curry between 100 and 150 kr", min: 100, max: 150, currency: "SEK" },
+        { query: "pizza 100-150 kr", min: 100, max: 150, currency: "SEK" },
+        { query: "soup €10-15", min: 10, max: 15, currency: "EUR" },
+        { query: "lunch från 90 till 120 kr", min: 90, max: 120, currency: "SEK" },
+        { query: "steak over 200 kr", min: 200, max: null, currency: "SEK" },
+        { query: "wine at least €30", min: 30, max: null, currency: "EUR" },
+        { query: "thali under 500 rupees", min: null, max: 500, currency: "INR" },
+    ])("$query", ({ query, min, max, currency }) => {
+        expect(detectPriceRange(query, rates)).toEqual({
+            min: min === null ? null : { amount: min, currency },
+            max: max === null ? null : { amount: max, currency },
+        });
+    });
+
+    it("converts a minimum into the maximum's currency", () => {
+        expect(detectPriceRange("over 110 kr but under 20 euro", rates)).toEqual({
+            min: { amount: 10, currency: "EUR" },
+            max: { amount: 20, currency: "EUR" },
+        });
+    });
+
+    it.each(["between 2 and 3 km", "open 11-22", "over 20", "pizza 150-100 kr"])("ignores %s", query => {
+        expect(detectPriceRange(query, rates)).toBeNull();
+    });
+
+    it("strips range, minimum and budget phrases from dish text", () => {
+        expect(stripPriceRangePhrases("curry between 100 and 150 kr")).toBe("curry");
+        expect(stripPriceRangePhrases("steak over 200 kr near me")).toBe("steak near me");
+        expect(stripPriceRangePhrases("pizza under 15 euro")).toBe("pizza");
+        expect(stripPriceRangePhrases("biryani for 2-3 people")).toBe("biryani for 2-3 people");
+        expect(stripPriceRangePhrases("pasta €10-15")).toBe("pasta");
+    });
+
+    it("keeps dishes inside the range, converted into their currency", () => {
+        const range = { min: { amount: 100, currency: "SEK" as const }, max: { amount: 150, currency: "SEK" as const } };
+        expect(isWithinPriceRange({ amount: 120, currency: "SEK" }, range, rates)).toBe(true);
+        expect(isWithinPriceRange({ amount: 89, currency: "SEK" }, range, rates)).toBe(false);
+        expect(isWithinPriceRange({ amount: 14.5, currency: "EUR" }, range, rates)).toBe(false);
+        expect(isWithinPriceRange({ amount: 13, currency: "EUR" }, range, rates)).toBe(true);
+        expect(isWithinPriceRange({ amount: 0, currency: "SEK" }, range, rates)).toBe(true);
+    });
+
+    it("reads the range from the intent", () => {
+        expect(intentPriceRange({ price_min: 100, price_max: null })).toEqual({ min: { amount: 100, currency: "SEK" }, max: null });
+        expect(intentPriceRange({ price_min: 10, price_max: 15, price_currency: "EUR" })).toEqual({
+            min: { amount: 10, currency: "EUR" },
+            max: { amount: 15, currency: "EUR" },
+        });
+        expect(intentPriceRange({ price_min: null, price_max: null })).toBeNull();
+    });
+});
+
+describe("conversion", () => {
+    const rates = { ...DEFAULT_RATES, EUR: 11, USD: 10 };
+
+    it("converts through SEK and rounds to cents", () => {
+        expect(convertMoney({ amount: 15, currency: "EUR" }, "SEK", rates)).toEqual({ amount: 165, currency: "SEK" });
+        expect(convertMoney({ amount: 100, currency: "SEK" }, "EUR", rates)).toEqual({ amount: 9.09, currency: "EUR" });
+        expect(convertMoney({ amount: 20, currency: "USD" }, "EUR", rates)).toEqual({ amount: 18.18, currency: "EUR" });
+    });
+
+    it("compares a budget in the dish's currency", () => {
+        const budget = { amount: 15, currency: "EUR" as const };
+        expect(isWithinBudget({ amount: 129, currency: "SEK" }, budget, rates)).toBe(true);
+        expect(isWithinBudget({ amount: 189, currency: "SEK" }, budget, rates)).toBe(false);
+        expect(isWithinBudget({ amount: 14.5, currency: "EUR" }, budget, rates)).toBe(true);
+        expect(isWithinBudget({ amount: 0, currency: "SEK" }, budget, rates)).toBe(true);
+    });
+
+    it("reads the budget from the intent, SEK unless a currency was named", () => {
+        expect(intentBudget({ price_max: 120 })).toEqual({ amount: 120, currency: "SEK" });
+        expect(intentBudget({ price_max: 15, price_currency: "EUR" })).toEqual({ amount: 15, currency: "EUR" });
+        expect(intentBudget({ price_max: null })).toBeNull();
+    });
+});
+
+describe("parseRateTable", () => {
+    it("overrides the built-in rates", () => {
+        const rates = parseRateTable("EUR=11.2, usd=10.1");
+        expect(rates.EUR).toBe(11.2);
+        expect(rates.USD).toBe(10.1);
+        expect(rates.GBP).toBe(DEFAULT_RATES.GBP);
+        expect(parseRateTable(undefined)).toEqual(DEFAULT_RATES);
+    });
+
+    it.each(["XYZ=3", "EUR=0", "EUR=abc", "EUR"])("rejects %s", raw => {
+        expect(() => parseRateTable(raw)).toThrow(/Invalid exchange rate/);
+    });
+});
+
+describe("formatMoney", () => {
+    it("formats each currency the way its own locale does", () => {
+        expect(plain(formatMoney({ amount: 129, currency: "SEK" }))).toBe("129 kr");
+        expect(plain(formatMoney({ amount: 14.5, currency: "EUR" }))).toBe("14,50 €");
+        expect(formatMoney({ amount: 20, currency: "USD" })).toBe("$20");
+    });
+
+    it("accepts another locale", () => {
+        expect(formatMoney({ amount: 14.5, currency: "EUR" }, "en-GB")).toBe("€14.50");
+    });
+
+    it("treats unknown currency codes as SEK", () => {
+        expect(toCurrencyCode("eur")).toBe("EUR");
+        expect(toCurrencyCode("XYZ")).toBe("SEK");
+        expect(toCurrencyCode(null)).toBe("SEK");
+    });
+});
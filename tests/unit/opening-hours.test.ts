@@ -0,0 +1,241 @@
+import { describe, expect, it } from "vitest";
+import {
+    describeOpenAt,
+    describeOpenStatus,
+    detectOpenAt,
+    getDayHours,
+    getOpenStatus,
+    isOpenAt,
+    matchesOpenAt,
+    parseDayHours,
+    parseSchedule,
+    shiftDay,
+    stripTimePhrases,
+} from "@/lib/discover/opening-hours";
+
+// Wednesday 2025-06-11, 12:30 in Stockholm (UTC+2)
+const WED_1230_STOCKHOLM = new Date("2025-06-11T10:30:00Z");
+// Wednesday 23:30 in Stockholm
+const WED_2330_STOCKHOLM = new Date("2025-06-11T21:30:00Z");
+
+describe("parseDayHours", () => {
+    it.each([
+        { value: "11:00-22:00", expected: [{ open: 660, close: 1320 }] },
+        { value: "11-14, 17-23", expected: [{ open: 660, close: 840 }, { open: 1020, close: 1380 }] },
+        { value: "18:00-02:00", expected: [{ open: 1080, close: 1560 }] },
+        { value: "11.30 – 21.00", expected: [{ open: 690, close: 1260 }] },
+        { value: "24h", expected: [{ open: 0, close: 1440 }] },
+        { value: "Closed", expected: [] },
+        { value: "lunch only", expected: null },
+        { value: "", expected: null },
+    ])("$value", ({ value, expected }) => {
+        expect(parseDayHours(value)).toEqual(expected);
+    });
+});
+
+describe("getDayHours", () => {
+    const hours = { mon_fri: "11:00-22:00", saturday: "12:00-23:00", sun: "Closed" };
+
+    it("reads exact, short and range keys", () => {
+        expect(getDayHours(hours, 3)).toBe("11:00-22:00");
+        expect(getDayHours(hours, 6)).toBe("12:00-23:00");
+        expect(getDayHours(hours, 0)).toBe("Closed");
+    });
+
+    it("prefers an exact day over a range", () => {
+        expect(getDayHours({ weekdays: "11:00-22:00", friday: "11:00-01:00" }, 5)).toBe("11:00-01:00");
+    });
+
+    it("wraps ranges across the week", () => {
+        expect(getDayHours({ "fri-mon": "17:00-23:00" }, 0)).toBe("17:00-23:00");
+        expect(getDayHours({ "fri-mon": "17:00-23:00" }, 3)).toBeNull();
+    });
+});
+
+describe("isOpenAt", () => {
+    const lateNight = parseSchedule({ friday: "18:00-02:00", saturday: "Closed" });
+
+    it("counts a range past midnight on the next day", () => {
+        expect(isOpenAt(lateNight, 5, 23 * 60)).toBe(true);
+        expect(isOpenAt(lateNight, 6, 60)).toBe(true);
+        expect(isOpenAt(lateNight, 6, 2 * 60)).toBe(false);
+    });
+
+    it("handles split shifts", () => {
+        const split = parseSchedule({ wednesday: "11:00-14:00, 17:00-22:00" });
+        expect(isOpenAt(split, 3, 15 * 60)).toBe(false);
+        expect(isOpenAt(split, 3, 18 * 60)).toBe(true);
+    });
+});
+
+describe("parseSchedule", () => {
+    it("keeps weekly text and parses exceptions", () => {
+        const schedule = parseSchedule(
+            { mon_fri: "11:00-22:00", saturday: "lunch only" },
+            { "2025-06-20": { hours: "Closed", note: "Midsommarafton" }, "12-24": "11:00-15:00", "soon": "Closed", "2025-01-01": "ask us" }
+        );
+        expect(schedule.weekly[3]).toEqual({ text: "11:00-22:00", ranges: [{ open: 660, close: 1320 }] });
+        expect(schedule.weekly[6]).toEqual({ text: "lunch only", ranges: null });
+        expect(schedule.weekly[0]).toBeNull();
+        expect(schedule.exceptions).toEqual({
+            "2025-06-20": { text: "Closed", ranges: [], note: "Midsommarafton" },
+            "12-24": { text: "11:00-15:00", ranges: [{ open: 660, close: 900 }], note: null },
+        });
+    });
+
+    it("shifts calendar days across month and year ends", () => {
+        expect(shiftDay({ weekday: 3, date: "2025-12-31" }, 1)).toEqual({ weekday: 4, date: "2026-01-01" });
+        expect(shiftDay({ weekday: 0, date: "2025-03-01" }, -1)).toEqual({ weekday: 6, date: "2025-02-28" });
+        expect(shiftDay({ weekday: 0, date: null }, -1)).toEqual({ weekday: 6, date: null });
+    });
+});
+
+describe("getOpenStatus", () => {
+    // Stockholm local times on Wednesday 2025-06-11 (UTC+2)
+    const at = (time: string, date = "2025-06-11") => new Date(`${date}T${time}:00+02:00`);
+    const weekly = { mon_fri: "11:00-14:00, 17:00-22:00", saturday: "12:00-02:00", sunday: "Closed" };
+
+    it.each([
+        { name: "closes soon", time: "21:40", expected: "Closes in 20 minutes", isOpen: true },
+        { name: "open until the end of the shift", time: "12:00", expected: "Closes at 14:00", isOpen: true },
+        { name: "between split shifts", time: "15:00", expected: "Opens at 17:00", isOpen: false },
+        { name: "opens within the hour", time: "10:15", expected: "Opens in 45 minutes", isOpen: false },
+        { name: "after closing", time: "22:30", expected: "Opens at 11:00 tomorrow", isOpen: false },
+    ])("$name", ({ time, expected, isOpen }) => {
+        const status = getOpenStatus(parseSchedule(weekly), "Europe/Stockholm", at(time));
+        expect(status?.isOpen).toBe(isOpen);
+        expect(describeOpenStatus(status)).toBe(expected);
+    });
+
+    it("closes after midnight on an overnight shift", () => {
+        const status = getOpenStatus(parseSchedule(weekly), "Europe/Stockholm", at("23:00", "2025-06-14"));
+        expect(status).toMatchObject({ isOpen: true, todayHours: "12:00-02:00" });
+        expect(status?.nextChange).toMatchObject({ opens: false, dayOffset: 1, minutes: 120, inMinutes: 180 });
+        expect(describeOpenStatus(status)).toBe("Closes at 02:00");
+    });
+
+    it("skips closed days to the next opening", () => {
+        // Sunday noon, closed Sunday and Monday: next opening is Tuesday 11:00
+        const status = getOpenStatus(parseSchedule({ ...weekly, monday: "Closed" }), "Europe/Stockholm", at("12:00", "2025-06-15"));
+        expect(status).toMatchObject({ isOpen: false, todayHours: "Closed today" });
+        expect(describeOpenStatus(status)).toBe("Opens Tuesday at 11:00");
+    });
+
+    it("applies dated and yearly exceptions", () => {
+        const schedule = parseSchedule(weekly, {
+            "2025-06-20": { hours: "Closed", note: "Midsommarafton" },
+            "06-21": "16:00-20:00",
+        });
+        const friday = getOpenStatus(schedule, "Europe/Stockholm", at("12:00", "2025-06-20"));
+        expect(friday).toMatchObject({ isOpen: false, todayHours: "Closed today", note: "Midsommarafton" });
+        expect(describeOpenStatus(friday)).toBe("Opens at 16:00 tomorrow");
+
+        const saturday = getOpenStatus(schedule, "Europe/Stockholm", at("17:00", "2025-06-21"));
+        expect(saturday).toMatchObject({ isOpen: true, todayHours: "16:00-20:00", note: null });
+        expect(describeOpenStatus(saturday)).toBe("Closes at 20:00");
+    });
+
+    it("merges back-to-back ranges and reports round-the-clock hours", () => {
+        expect(describeOpenStatus(getOpenStatus(parseSchedule({ daily: "24h" }), null, at("03:00")))).toBe("Open 24 hours");
+
+        const chained = parseSchedule({ wednesday: "20:00-24:00", thursday: "00:00-03:00, 11:00-14:00" });
+        expect(describeOpenStatus(getOpenStatus(chained, null, at("21:00")))).toBe("Closes at 03:00");
+    });
+
+    it("is null for an invalid timezone", () => {
+        expect(getOpenStatus(parseSchedule(weekly), "Not/AZone", at("12:00"))).toBeNull();
+    });
+});
+
+describe("matchesOpenAt", () => {
+    const hours = parseSchedule({ mon_fri: "11:00-14:00, 17:00-23:00", saturday: "17:00-02:00", sunday: "Closed" });
+
+    it("evaluates 'now' in the restaurant timezone", () => {
+        expect(matchesOpenAt(hours, "Europe/Stockholm", detectOpenAt("open now")!, WED_1230_STOCKHOLM)).toBe(true);
+        // 06:30 in New York
+        expect(matchesOpenAt(hours, "America/New_York", detectOpenAt("open now")!, WED_1230_STOCKHOLM)).toBe(false);
+    });
+
+    it("matches 'after' against the rest of the day", () => {
+        expect(matchesOpenAt(hours, null, detectOpenAt("after 22:00")!, WED_1230_STOCKHOLM)).toBe(true);
+        expect(matchesOpenAt(hours, null, detectOpenAt("after 23:30")!, WED_1230_STOCKHOLM)).toBe(false);
+    });
+
+    it("matches a weekday without a time by that day's hours", () => {
+        expect(matchesOpenAt(hours, null, detectOpenAt("open on Sunday")!, WED_1230_STOCKHOLM)).toBe(false);
+        expect(matchesOpenAt(hours, null, detectOpenAt("open on Saturday")!, WED_1230_STOCKHOLM)).toBe(true);
+    });
+
+    it("resolves 'tomorrow' from the restaurant's local day", () => {
+        expect(matchesOpenAt(parseSchedule({ thursday: "11:00-22:00" }), null, detectOpenAt("open tomorrow at 12")!, WED_2330_STOCKHOLM)).toBe(true);
+    });
+
+    it("honours holiday exceptions on the requested day", () => {
+        const schedule = parseSchedule({ daily: "11:00-22:00" }, { "2025-06-15": "Closed" });
+        expect(matchesOpenAt(schedule, null, detectOpenAt("open on Sunday")!, WED_1230_STOCKHOLM)).toBe(false);
+        expect(matchesOpenAt(schedule, null, detectOpenAt("open on Saturday")!, WED_1230_STOCKHOLM)).toBe(true);
+    });
+
+    it("is null when hours are unknown", () => {
+        expect(matchesOpenAt(null, null, detectOpenAt("open now")!, WED_1230_STOCKHOLM)).toBeNull();
+        expect(matchesOpenAt(parseSchedule({ wednesday: "call us" }), null, detectOpenAt("open now")!, WED_1230_STOCKHOLM)).toBeNull();
+    });
+});
+
+describe("detectOpenAt", () => {
+    it.each([
+        { query: "vegan open now", expected: { now: true, weekday: null, dayOffset: 0, minutes: null, after: false } },
+        { query: "pizza öppet nu", expected: { now: true, weekday: null, dayOffset: 0, minutes: null, after: false } },
+        { query: "lunch after 22:00", expected: { now: false, weekday: null, dayOffset: 0, minutes: 1320, after: true } },
+        { query: "burgers open after 10pm", expected: { now: false, weekday: null, dayOffset: 0, minutes: 1320, after: true } },
+        { query: "sushi open on Sunday", expected: { now: false, weekday: 0, dayOffset: 0, minutes: null, after: false } },
+        { query: "thai på lördag kl 13", expected: { now: false, weekday: 6, dayOffset: 0, minutes: 780, after: false } },
+        { query: "kebab open late", expected: { now: false, weekday: null, dayOffset: 0, minutes: 1320, after: true } },
+        { query: "brunch tomorrow", expected: { now: false, weekday: null, dayOffset: 1, minutes: null, after: false } },
+        { query: "tonight at 9", expected: { now: false, weekday: null, dayOffset: 0, minutes: 1260, after: false } },
+        { query: "sushi ikväll kl 8", expected: { now: false, weekday: null, dayOffset: 0, minutes: 1200, after: false } },
+        { query: "lunch at 12:30", expected: { now: false, weekday: null, dayOffset: 0, minutes: 750, after: false } },
+    ])("$query", ({ query, expected }) => {
+        expect(detectOpenAt(query)).toEqual(expected);
+    });
+
+    it("ignores weekdays that are part of a dish", () => {
+        expect(detectOpenAt("Sunday roast")).toBeNull();
+        expect(detectOpenAt("butter chicken")).toBeNull();
+    });
+
+    it("ignores prices and bare numbers after at", () => {
+        expect(detectOpenAt("pizza at 150 kr")).toBeNull();
+        expect(detectOpenAt("best thai in town at 12")).toBeNull();
+    });
+});
+
+describe("stripTimePhrases", () => {
+    it.each([
+        { text: "vegan open now", expected: "vegan" },
+        { text: "lunch after 22:00", expected: "lunch" },
+        { text: "sushi open on Sunday", expected: "sushi" },
+        { text: "Sunday roast", expected: "Sunday roast" },
+        { text: "pizza öppet nu", expected: "pizza" },
+        { text: "pizza at 150 kr", expected: "pizza at 150 kr" },
+        { text: "best thai in town at 12", expected: "best thai in town at 12" },
+        { text: "thai tonight at 9", expected: "thai" },
+        { text: "open thai place on Sunday", expected: "thai place" },
+    ])("$text", ({ text, expected }) => {
+        expect(stripTimePhrases(text)).toBe(expected);
+    });
+
+    it("leaves the text alone when detectOpenAt finds no constraint", () => {
+        for (const text of ["pizza open till 2", "open sandwich", "brunch today", "Sunday roast"]) {
+            expect(detectOpenAt(text)).toBeNull();
+            expect(stripTimePhrases(text)).toBe(text);
+        }
+    });
+});
+
+describe("describeOpenAt", () => {
+    it("summarises a constraint", () => {
+        expect(describeOpenAt(detectOpenAt("open now")!)).toBe("open now");
+        expect(describeOpenAt(detectOpenAt("open on Sunday after 21")!)).toBe("open on Sunday after 21:00");
+    });
+});
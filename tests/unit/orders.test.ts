@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import { ZodError } from "zod";
+import { createMemoryCatalog, loadCatalogSeed } from "@/lib/catalog";
+import {
+    createMemoryOrderStore,
+    createPayInStoreProvider,
+    parsePlaceOrderRequest,
+    pickupSlots,
+    placeOrder,
+} from "@/lib/discover/orders";
+import type { PlaceOrderRequest } from "@/lib/types/discover";
+
+const INDIAN_BITES = "a0000000-0000-4000-8000-000000000001";
+const TAVOLINO = "a0000000-0000-4000-8000-000000000002";
+const GAMLA_STAN = "a0000000-0000-4000-8000-000000000003";
+const HIDDEN_KITCHEN = "a0000000-0000-4000-8000-000000000004";
+const SAMOSA = "d0000000-0000-4000-8000-000000000001";
+const PANEER_TIKKA = "d0000000-0000-4000-8000-000000000003"; // sold out
+const BUTTER_CHICKEN = "d0000000-0000-4000-8000-000000000004";
+const MARGHERITA = "d0000000-0000-4000-8000-000000000012";
+const HOUSE_WINE = "d0000000-0000-4000-8000-000000000044"; // in-store only
+const HOT = "f1000000-0000-4000-8000-000000000003";
+const MEDIUM = "f1000000-0000-4000-8000-000000000002";
+const EXTRA_RICE = "f1000000-0000-4000-8000-000000000004";
+const GARLIC_NAAN = "f1000000-0000-4000-8000-000000000005";
+
+// Monday 12:00 in Stockholm
+const now = new Date("2026-10-19T10:00:00Z");
+const pickup = "2026-10-19T10:30:00Z";
+
+// Gamla Stan Bistro takes no takeaway in the demo seed; let it, to order its in-store-only wine
+const seed = structuredClone(loadCatalogSeed());
+seed.restaurants.find(r => r.id === GAMLA_STAN)!.accepts_takeaway = true;
+const catalog = createMemoryCatalog(seed);
+
+function request(overrides: Partial<PlaceOrderRequest> = {}): PlaceOrderRequest {
+    return {
+        restaurant_id: INDIAN_BITES,
+        items: [
+            { dish_id: BUTTER_CHICKEN, quantity: 2, option_ids: [HOT, GARLIC_NAAN], unit_price: 224 },
+            { dish_id: SAMOSA, quantity: 1, option_ids: [], unit_price: 69 },
+        ],
+        customer_name: "Sam",
+        customer_phone: "+46 70 123 45 67",
+        pickup_time: pickup,
+        ...overrides,
+    };
+}
+
+function deps() {
+    return { catalog, store: createMemoryOrderStore(), payments: createPayInStoreProvider(), now };
+}
+
+describe("parsePlaceOrderRequest", () => {
+    it("accepts a well-formed order", () => {
+        expect(parsePlaceOrderRequest({ ...request(), notes: " no onion " }).notes).toBe("no onion");
+    });
+
+    it.each([
+        { body: { ...request(), items: [] } },
+        { body: { ...request(), customer_phone: "call me" } },
+        { body: { ...request(), pickup_time: "at noon" } },
+        { body: { ...request(), items: [{ dish_id: SAMOSA, quantity: 0, option_ids: [] }] } },
+        { body: { ...request(), restaurant_id: "indian-bites" } },
+    ])("rejects $body", ({ body }) => {
+        expect(() => parsePlaceOrderRequest(body)).toThrow(ZodError);
+    });
+});
+
+describe("placeOrder", () => {
+    it("stores a pay-in-store pickup order priced from the catalog", async () => {
+        const { store, ...rest } = deps();
+        const result = await placeOrder(request(), { store, ...rest });
+        if (!result.ok) throw new Error(JSON.stringify(result.problems));
+
+        expect(result.redirectUrl).toBeNull();
+        expect(result.order).toMatchObject({
+            restaurant_name: "Indian Bites",
+            status: "placed",
+            payment_method: "pay_in_store",
+            payment_status: "unpaid",
+            pickup_time: "2026-10-19T10:30:00.000Z",
+            total: { amount: 2 * 224 + 69, currency: "SEK" },
+        });
+        expect(result.order.items[0]).toEqual({
+            dish_id: BUTTER_CHICKEN,
+            name: "Butter Chicken",
+            quantity: 2,
+            unit_price: { amount: 224, currency: "SEK" },
+            options: ["Hot", "Garlic naan"],
+        });
+
+        const stored = await store.get(result.order.id);
+        expect(stored).toMatchObject({ source: "discovery", subtotal_amount: 51_700, total_amount: 51_700, customer_phone: "+46 70 123 45 67" });
+        expect(stored?.items[0]).toMatchObject({ unit_price: 22_400, modifiers: { options: [{ name: "Hot" }, { name: "Garlic naan", price_adjustment: 35 }] } });
+    });
+
+    it("lists every line that no longer matches the menu", async () => {
+        const result = await placeOrder(request({
+            items: [
+                { dish_id: PANEER_TIKKA, quantity: 1, option_ids: [] },
+                { dish_id: MARGHERITA, quantity: 1, option_ids: [] },
+                { dish_id: BUTTER_CHICKEN, quantity: 1, option_ids: [] },
+                { dish_id: BUTTER_CHICKEN, quantity: 1, option_ids: [MEDIUM], unit_price: 150 },
+            ],
+        }), deps());
+
+        expect(result.ok).toBe(false);
+        if (result.ok) return;
+        expect(result.problems.map(p => p.code)).toEqual(["sold_out", "dish_unavailable", "invalid_options", "price_changed"]);
+        expect(result.problems[2].message).toBe("Butter Chicken: Choose a spice level");
+        expect(result.problems[3].message.replace(/ /g, " ")).toBe("Butter Chicken now costs 189 kr");
+    });
+
+    it("refuses dishes that can only be ordered in the restaurant", async () => {
+        const result = await placeOrder(request({
+            restaurant_id: GAMLA_STAN,
+            items: [{ dish_id: HOUSE_WINE, quantity: 1, option_ids: [] }],
+        }), deps());
+        expect(result).toMatchObject({ ok: false, problems: [{ code: "in_store_only", dish_id: HOUSE_WINE }] });
+    });
+
+    it("refuses options that take a line below zero", async () => {
+        const discounted = structuredClone(seed);
+        const extras = discounted.restaurants.find(r => r.id === INDIAN_BITES)!.modifier_groups!.find(g => g.name === "Extras")!;
+        extras.options.find(o => o.id === EXTRA_RICE)!.price_adjustment = -500;
+
+        const result = await placeOrder(request({
+            items: [{ dish_id: BUTTER_CHICKEN, quantity: 1, option_ids: [HOT, EXTRA_RICE] }],
+        }), { ...deps(), catalog: createMemoryCatalog(discounted) });
+
+        expect(result).toMatchObject({ ok: false, problems: [{ code: "invalid_options", dish_id: BUTTER_CHICKEN }] });
+    });
+
+    it("refuses restaurants without pickup and hidden restaurants", async () => {
+        const unseeded = createMemoryCatalog(loadCatalogSeed());
+        for (const restaurantId of [GAMLA_STAN, HIDDEN_KITCHEN]) {
+            const result = await placeOrder(request({ restaurant_id: restaurantId }), { ...deps(), catalog: unseeded });
+            expect(result).toMatchObject({ ok: false, problems: [{ code: "restaurant_unavailable" }] });
+        }
+    });
+
+    it.each([
+        { pickup_time: "2026-10-19T10:05:00Z", reason: "too soon" },
+        { pickup_time: "2026-10-20T10:30:00Z", reason: "too far ahead" },
+        { pickup_time: "2026-10-19T20:30:00Z", reason: "after closing (22:30 local)" },
+    ])("rejects a pickup time $reason", async ({ pickup_time }) => {
+        const result = await placeOrder(request({ pickup_time }), deps());
+        expect(result).toMatchObject({ ok: false, problems: [{ code: "invalid_pickup_time" }] });
+    });
+});
+
+describe("pickupSlots", () => {
+    it("offers 15-minute slots after the lead time while the restaurant is open", async () => {
+        const restaurant = await catalog.getRestaurant(INDIAN_BITES);
+        const slots = pickupSlots(restaurant, now);
+        expect(slots[0]).toBe("2026-10-19T10:30:00.000Z");
+        expect(slots[1]).toBe("2026-10-19T10:45:00.000Z");
+        // Closes at 22:00 local (20:00 UTC)
+        expect(slots.at(-1)).toBe("2026-10-19T19:45:00.000Z");
+    });
+
+    it("has no slots on a closed day", async () => {
+        // Tavolino is closed on Mondays; from 00:30 local the window ends before Tuesday
+        const restaurant = await catalog.getRestaurant(TAVOLINO);
+        expect(pickupSlots(restaurant, new Date("2026-10-18T22:30:00Z"))).toEqual([]);
+    });
+
+    it("accepts any time in the window without opening hours", () => {
+        expect(pickupSlots(null, now)).toHaveLength(12 * 4 - 1);
+    });
+});
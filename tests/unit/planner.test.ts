@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { applyGuardrails, looksLikeSameIntent, type Plan } from "@/lib/discover/planner";
+import type { ChatState, GroundedState } from "@/lib/types/discover";
+import { makeIntent } from "./helpers";
+
+function makePlan(action: Plan["action"], overrides: Partial<Plan> = {}): Plan {
+    return { action, confidence: 1, reason: null, prefs_patch: null, dish_query: null, search: null, ...overrides };
+}
+
+const grounded: GroundedState = {
+    restaurants: [],
+    lastQuery: "butter chicken",
+    lastDietary: ["halal"],
+    lastMatchesCount: 3,
+    lastWasNoResults: false,
+};
+
+const restaurantMode: ChatState = {
+    mode: "restaurant",
+    currentRestaurantId: "r1",
+    currentRestaurantName: "Indian Bites",
+};
+
+describe("looksLikeSameIntent", () => {
+    it.each([
+        { name: "no previous query", query: "pizza", prev: null, prevDiet: null, curDiet: null, expected: false },
+        { name: "identical query", query: "butter chicken", prev: "butter chicken", prevDiet: null, curDiet: null, expected: true },
+        { name: "punctuation and case ignored", query: "Butter Chicken?!", prev: "butter chicken", prevDiet: null, curDiet: null, expected: true },
+        { name: "containment counts as same", query: "butter chicken in stockholm", prev: "butter chicken", prevDiet: null, curDiet: null, expected: true },
+        { name: "different dish", query: "pizza", prev: "butter chicken", prevDiet: null, curDiet: null, expected: false },
+        { name: "same dish, dietary changed", query: "butter chicken", prev: "butter chicken", prevDiet: ["halal"], curDiet: ["vegan"], expected: false },
+        { name: "dietary order ignored", query: "curry", prev: "curry", prevDiet: ["vegan", "halal"], curDiet: ["halal", "vegan"], expected: true },
+        { name: "null and empty dietary are equal", query: "curry", prev: "curry", prevDiet: null, curDiet: [], expected: true },
+    ])("$name", ({ query, prev, prevDiet, curDiet, expected }) => {
+        expect(looksLikeSameIntent(query, prev, prevDiet, curDiet)).toBe(expected);
+    });
+});
+
+describe("applyGuardrails", () => {
+    it.each([
+        {
+            name: "intent restaurant lookup forces RESTAURANT_LOOKUP",
+            raw: makePlan("SEARCH"),
+            args: { query: "indian bites", intent: makeIntent({ is_restaurant_lookup: true }) },
+            action: "RESTAURANT_LOOKUP",
+            trigger: "restaurantLookup:forcedFromIntent",
+        },
+        {
+            name: "allergy EXPLAIN without context becomes SEARCH",
+            raw: makePlan("EXPLAIN"),
+            args: { query: "what is in it, any nuts" },
+            action: "SEARCH",
+            trigger: "allergenSafety:blockedExplain",
+        },
+        {
+            name: "allergy EXPLAIN with grounded context becomes FOLLOWUP",
+            raw: makePlan("EXPLAIN"),
+            args: { query: "does it contain nuts", grounded },
+            action: "FOLLOWUP",
+            trigger: "allergenSafety:blockedExplain",
+        },
+        {
+            name: "bare dish name EXPLAIN becomes SEARCH",
+            raw: makePlan("EXPLAIN"),
+            args: { query: "rogan josh" },
+            action: "SEARCH",
+            trigger: "bareDishName:searchNotExplain",
+        },
+        {
+            name: "real explainer question stays EXPLAIN",
+            raw: makePlan("EXPLAIN"),
+            args: { query: "what is rogan josh" },
+            action: "EXPLAIN",
+            trigger: null,
+        },
+        {
+            name: "SHOW_MENU with dish query becomes SEARCH",
+            raw: makePlan("SHOW_MENU"),
+            args: { query: "does anyone have daal makhani in the menu", intent: makeIntent({ dish_query: "daal makhani" }) },
+            action: "SEARCH",
+            trigger: "showMenuWithDishQuery:searchInstead",
+        },
+        {
+            name: "FOLLOWUP without grounded context becomes SEARCH",
+            raw: makePlan("FOLLOWUP"),
+            args: { query: "tell me more" },
+            action: "SEARCH",
+            trigger: "followupNoContext:searchInstead",
+        },
+        {
+            name: "repeat SEARCH with grounded context becomes RESHOW",
+            raw: makePlan("SEARCH"),
+            args: { query: "butter chicken", grounded, curDietary: ["halal"] },
+            action: "RESHOW",
+            trigger: "antiLoop:reshowInsteadOfSearch",
+        },
+        {
+            name: "SEARCH with changed dietary is not a repeat",
+            raw: makePlan("SEARCH"),
+            args: { query: "butter chicken", grounded, curDietary: ["vegan"] },
+            action: "SEARCH",
+            trigger: null,
+        },
+    ])("$name", ({ raw, args, action, trigger }) => {
+        const { plan, triggered } = applyGuardrails(raw, {
+            chatState: null,
+            grounded: null,
+            curDietary: null,
+            ...args,
+        });
+        expect(plan.action).toBe(action);
+        if (trigger) {
+            expect(triggered).toContain(trigger);
+        } else {
+            expect(triggered).toEqual([]);
+        }
+    });
+
+    it("generic tag-only query clears queryText", () => {
+        const { plan, triggered } = applyGuardrails(makePlan("SEARCH", { search: { queryText: "anything veg", tags: null, city: null, budgetMaxSek: null } }), {
+            query: "anything veg",
+            chatState: null,
+            grounded: null,
+            curDietary: ["vegetarian"],
+            intent: makeIntent({ dietary: ["vegetarian"] }),
+        });
+        expect(plan.search?.queryText).toBeNull();
+        expect(triggered).toContain("tagOnlyGeneric:queryTextNull");
+    });
+
+    it("generic query with a dish term keeps queryText", () => {
+        const raw = makePlan("SEARCH", { search: { queryText: "pizza", tags: null, city: null, budgetMaxSek: null } });
+        const { plan } = applyGuardrails(raw, {
+            query: "any veg pizza",
+            chatState: null,
+            grounded: null,
+            curDietary: ["vegetarian"],
+            intent: makeIntent({ dish_query: "pizza", dietary: ["vegetarian"] }),
+        });
+        expect(plan.search?.queryText).toBe("pizza");
+    });
+
+    it("restaurant mode tag question becomes tag-only SEARCH", () => {
+        const { plan, triggered } = applyGuardrails(makePlan("FOLLOWUP"), {
+            query: "do they have veg dishes",
+            chatState: restaurantMode,
+            grounded,
+            curDietary: ["vegetarian"],
+            intent: makeIntent({ dietary: ["vegetarian"], hard_tags: ["halal"] }),
+        });
+        expect(plan.action).toBe("SEARCH");
+        expect(plan.search).toEqual({ queryText: null, tags: ["vegetarian", "halal"], city: null, budgetMaxSek: null });
+        expect(triggered).toContain("restaurantModeTagList:searchNotFollowup");
+    });
+
+    it("restaurant mode dish question becomes SEARCH on the dish", () => {
+        const { plan, triggered } = applyGuardrails(makePlan("CLARIFY"), {
+            query: "do they have lamm vindaloo",
+            chatState: restaurantMode,
+            grounded,
+            curDietary: null,
+            intent: makeIntent({ dish_query: "lamm vindaloo" }),
+        });
+        expect(plan.action).toBe("SEARCH");
+        expect(plan.search?.queryText).toBe("lamm vindaloo");
+        expect(triggered).toContain("restaurantModeDishQuery:searchNotFollowup");
+    });
+
+    it("restaurant mode ingredient question becomes SEARCH on the ingredients", () => {
+        const { plan, triggered } = applyGuardrails(makePlan("FOLLOWUP"), {
+            query: "something with paneer and spinach",
+            chatState: restaurantMode,
+            grounded,
+            curDietary: null,
+            intent: makeIntent({ ingredients: ["paneer", "spinach"] }),
+        });
+        expect(plan.action).toBe("SEARCH");
+        expect(plan.search?.queryText).toBe("paneer spinach");
+        expect(triggered).toContain("restaurantModeIngredients:searchNotFollowup");
+    });
+
+    it("does not mutate the raw plan", () => {
+        const raw = makePlan("EXPLAIN");
+        applyGuardrails(raw, { query: "rogan josh", chatState: null, grounded: null, curDietary: null });
+        expect(raw.action).toBe("EXPLAIN");
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { ZodError } from "zod";
+import {
+    EMPTY_PROFILE,
+    applyProfileToIntent,
+    createProfileStore,
+    resolveEffectiveProfile,
+    sanitizeProfile,
+} from "@/lib/discover/profile";
+import type { DietaryProfile, Intent } from "@/lib/types/discover";
+
+function makeIntent(overrides: Partial<Intent> = {}): Intent {
+    return {
+        dish_query: "curry",
+        city: null,
+        dietary: [],
+        allergy: [],
+        ingredients: [],
+        price_max: null,
+        language: "en",
+        original_query: "curry",
+        is_vague: false,
+        ...overrides,
+    };
+}
+
+const saved: DietaryProfile = { dietary: ["halal"], allergy: ["peanuts"], city: "Göteborg", budgetMaxSek: 150 };
+
+describe("sanitizeProfile", () => {
+    it("normalizes dietary, allergen names and city", () => {
+        expect(sanitizeProfile({
+            dietary: ["Vegan", " vegan ", "HALAL"],
+            allergy: ["Sesame", "nuts", "unobtainium"],
+            city: "  Stockholm ",
+            budgetMaxSek: 200,
+        })).toEqual({
+            dietary: ["vegan", "halal"],
+            allergy: ["sesame", "peanuts", "tree-nuts"],
+            city: "Stockholm",
+            budgetMaxSek: 200,
+        });
+    });
+
+    it("fills missing fields with empty values", () => {
+        expect(sanitizeProfile({})).toEqual(EMPTY_PROFILE);
+    });
+
+    it.each([
+        { input: { budgetMaxSek: -5 } },
+        { input: { budgetMaxSek: "cheap" } },
+        { input: { dietary: "vegan" } },
+    ])("rejects $input", ({ input }) => {
+        expect(() => sanitizeProfile(input)).toThrow(ZodError);
+    });
+});
+
+describe("resolveEffectiveProfile", () => {
+    it("returns the saved profile without an override", () => {
+        expect(resolveEffectiveProfile(saved, undefined)).toBe(saved);
+    });
+
+    it("drops the profile when the override turns it off", () => {
+        expect(resolveEffectiveProfile(saved, { off: true })).toBeNull();
+    });
+
+    it("replaces only the overridden fields", () => {
+        expect(resolveEffectiveProfile(saved, { city: "Malmö", allergy: [] })).toEqual({
+            dietary: ["halal"],
+            allergy: [],
+            city: "Malmö",
+            budgetMaxSek: 150,
+        });
+    });
+
+    it("applies an override without a saved profile", () => {
+        expect(resolveEffectiveProfile(null, { dietary: ["vegan"] })).toEqual({ ...EMPTY_PROFILE, dietary: ["vegan"] });
+    });
+
+    it("falls back to the saved profile on a malformed override", () => {
+        expect(resolveEffectiveProfile(saved, { budgetMaxSek: -1 })).toBe(saved);
+    });
+});
+
+describe("applyProfileToIntent", () => {
+    it("adds standing requirements and fills city and budget", () => {
+        const intent = applyProfileToIntent(makeIntent({ dietary: ["vegan"], allergy: ["sesame"] }), saved);
+        expect(intent.dietary).toEqual(["vegan", "halal"]);
+        expect(intent.allergy).toEqual(["sesame", "peanuts"]);
+        expect(intent.city).toBe("GÖTEBORG");
+        expect(intent.price_max).toBe(150);
+        expect(intent.price_currency).toBe("SEK");
+    });
+
+    it("lets the query win for city and price", () => {
+        const intent = applyProfileToIntent(makeIntent({ city: "STOCKHOLM", price_max: 99 }), saved);
+        expect(intent.city).toBe("STOCKHOLM");
+        expect(intent.price_max).toBe(99);
+    });
+
+    it("keeps the currency of a budget from the query", () => {
+        const intent = applyProfileToIntent(makeIntent({ price_max: 15, price_currency: "EUR" }), saved);
+        expect(intent).toMatchObject({ price_max: 15, price_currency: "EUR" });
+    });
+
+    it("leaves out the saved budget when the query states a minimum price", () => {
+        const intent = applyProfileToIntent(makeIntent({ price_min: 10, price_currency: "EUR" }), saved);
+        expect(intent).toMatchObject({ price_min: 10, price_max: null, price_currency: "EUR" });
+    });
+
+    it("does not duplicate requirements the query already has", () => {
+        const intent = applyProfileToIntent(makeIntent({ dietary: ["Halal"], allergy: ["peanuts"] }), saved);
+        expect(intent.dietary).toEqual(["Halal"]);
+        expect(intent.allergy).toEqual(["peanuts"]);
+    });
+
+    it("returns the intent unchanged without a profile", () => {
+        const intent = makeIntent();
+        expect(applyProfileToIntent(intent, null)).toBe(intent);
+        expect(applyProfileToIntent(intent, EMPTY_PROFILE)).toBe(intent);
+    });
+});
+
+describe("memory profile store", () => {
+    it("saves, loads and deletes per owner", async () => {
+        const store = createProfileStore();
+        expect(store.kind).toBe("memory");
+
+        const device = { kind: "device" as const, id: "3f1c1e52-8a55-4c1e-9b38-0c6f5d7a2b11" };
+        const user = { kind: "user" as const, id: device.id };
+
+        await store.save(device, saved);
+        expect(await store.get(device)).toEqual(saved);
+        expect(await store.get(user)).toBeNull();
+
+        await store.delete(device);
+        expect(await store.get(device)).toBeNull();
+    });
+
+    it("does not leak mutations into stored profiles", async () => {
+        const store = createProfileStore();
+        const owner = { kind: "user" as const, id: "u1" };
+        const profile = structuredClone(saved);
+
+        await store.save(owner, profile);
+        profile.dietary.push("vegan");
+        const loaded = await store.get(owner);
+        loaded?.allergy.push("milk");
+
+        expect(await store.get(owner)).toEqual(saved);
+    });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+    DEFAULT_RANKING_CONFIG,
+    classifyQuery,
+    distanceDecay,
+    exactMatchBoost,
+    parseRankingConfig,
+    priceFit,
+    scoreCandidate,
+    selectWeights,
+} from "@/lib/discover/ranking";
+import { ndcgAtK, reciprocalRank } from "@/lib/discover/ranking-metrics";
+import {
+    applyOverrides,
+    evaluateRanking,
+    gridSearch,
+    overridesToConfig,
+    parseLabelledQueries,
+    type LabelledQuery,
+} from "@/lib/discover/ranking-tuning";
+
+describe("default ranking config", () => {
+    it.each([
+        { query: "something spicy", expected: "vibe" },
+        { query: "butter chicken", expected: "dishName" },
+        { query: "a big plate of lamb vindaloo please", expected: "dishName" },
+        { query: "what do you serve for a late dinner", expected: "default" },
+    ])("classifies $query as $expected", ({ query, expected }) => {
+        expect(classifyQuery(query)).toBe(expected);
+    });
+
+    it("keeps the original weights", () => {
+        expect(selectWeights("something spicy")).toEqual({ semantic: 0.7, trigram: 0.3 });
+        expect(selectWeights("pizza")).toEqual({ semantic: 0.4, trigram: 0.6 });
+        expect(selectWeights("what do you serve for a late dinner")).toEqual({ semantic: 0.55, trigram: 0.45 });
+    });
+
+    it("boosts dish names by the share of matching query tokens", () => {
+        expect(exactMatchBoost("Butter Chicken", "butter chicken")).toBeCloseTo(0.15);
+        expect(exactMatchBoost("Chicken Korma", "butter chicken")).toBeCloseTo(0.075);
+        expect(exactMatchBoost("Naan", "a")).toBe(0);
+    });
+
+    it("merges both sources and demotes partial matches on specific queries", () => {
+        const full = scoreCandidate({ dishName: "Butter Chicken", semanticScore: 0.8, trigramScore: 0.9 }, "butter chicken");
+        expect(full.source).toBe("both");
+        expect(full.finalScore).toBeCloseTo(Math.min(1, 0.8 * 0.4 + 0.9 * 0.6 + 0.15));
+
+        const partial = scoreCandidate({ dishName: "Chicken Korma", semanticScore: 0.8, trigramScore: null }, "butter chicken");
+        expect(partial.source).toBe("semantic");
+        expect(partial.finalScore).toBeCloseTo((0.8 + 0.075) * 0.3);
+    });
+
+    it("ignores tag, distance and price signals until configured", () => {
+        const plain = scoreCandidate({ dishName: "Dal", semanticScore: 0.6, trigramScore: null }, "lentil stew for dinner tonight");
+        const enriched = scoreCandidate(
+            { dishName: "Dal", semanticScore: 0.6, trigramScore: null, distanceKm: 0.2, price: 80, matchedTagCount: 1, requestedTagCount: 1 },
+            "lentil stew for dinner tonight",
+            { budgetMax: 100 }
+        );
+        expect(enriched.finalScore).toBe(plain.finalScore);
+    });
+});
+
+describe("configured signals", () => {
+    const config = parseRankingConfig({
+        tagMatchBonus: 0.1,
+        distance: { weight: 0.2, halfLifeKm: 1 },
+        priceFit: { weight: 0.1 },
+    });
+
+    it("decays distance by half-life and prices by budget", () => {
+        expect(distanceDecay(0, config)).toBe(1);
+        expect(distanceDecay(1, config)).toBeCloseTo(0.5);
+        expect(distanceDecay(null, config)).toBe(0);
+        expect(priceFit(90, 100, config)).toBe(1);
+        expect(priceFit(125, 100, config)).toBeCloseTo(0.5);
+        expect(priceFit(200, 100, config)).toBe(0);
+        expect(priceFit(90, null, config)).toBe(0);
+    });
+
+    it("adds tag, distance and price bonuses", () => {
+        const query = "lentil stew for dinner tonight";
+        const base = { dishName: "Dal", semanticScore: 0.6, trigramScore: null };
+        const plain = scoreCandidate(base, query, {}, config).finalScore;
+        const near = scoreCandidate({ ...base, distanceKm: 1 }, query, {}, config).finalScore;
+        const tagged = scoreCandidate({ ...base, matchedTagCount: 1, requestedTagCount: 2 }, query, {}, config).finalScore;
+        const cheap = scoreCandidate({ ...base, price: 80 }, query, { budgetMax: 100 }, config).finalScore;
+
+        expect(near - plain).toBeCloseTo(0.1);
+        expect(tagged - plain).toBeCloseTo(0.05);
+        expect(cheap - plain).toBeCloseTo(0.1);
+    });
+});
+
+describe("parseRankingConfig", () => {
+    it("merges partial configs over the defaults", () => {
+        const config = parseRankingConfig({ weights: { vibe: { semantic: 0.9 } }, vibeTerms: ["sugen"] });
+        expect(config.weights.vibe).toEqual({ semantic: 0.9, trigram: 0.3 });
+        expect(config.weights.dishName).toEqual(DEFAULT_RANKING_CONFIG.weights.dishName);
+        expect(config.vibeTerms).toEqual(["sugen"]);
+        expect(classifyQuery("sugen på något", config)).toBe("vibe");
+    });
+
+    it.each([
+        { raw: { weigths: {} }, error: /Unknown ranking config key "weigths"/ },
+        { raw: { tagMatchBonus: "high" }, error: /"tagMatchBonus" must be a non-negative number/ },
+        { raw: { exactMatch: 0.2 }, error: /"exactMatch" must be an object/ },
+        { raw: { dishNamePatterns: ["("] }, error: /invalid pattern/ },
+        { raw: { distance: { halfLifeKm: 0 } }, error: /halfLifeKm" must be positive/ },
+        { raw: [], error: /must be a JSON object/ },
+    ])("rejects $raw", ({ raw, error }) => {
+        expect(() => parseRankingConfig(raw)).toThrow(error);
+    });
+});
+
+describe("ranking metrics", () => {
+    it("scores NDCG against the ideal ordering", () => {
+        expect(ndcgAtK([3, 2, 0], 10)).toBe(1);
+        expect(ndcgAtK([0, 2, 3], 10)).toBeLessThan(1);
+        expect(ndcgAtK([0, 0], 10)).toBe(1);
+        // A relevant dish that was never returned still counts
+        expect(ndcgAtK([3], 10, [3, 3])).toBeLessThan(1);
+    });
+
+    it("uses the first relevant rank for MRR", () => {
+        expect(reciprocalRank([0, 0, 2])).toBeCloseTo(1 / 3);
+        expect(reciprocalRank([0, 0])).toBe(0);
+        expect(reciprocalRank([1, 3], 3)).toBe(0.5);
+    });
+});
+
+describe("ranking tuning", () => {
+    const queries: LabelledQuery[] = parseLabelledQueries({
+        queries: [
+            {
+                query: "biryani near me",
+                candidates: [
+                    { dishId: "far", dishName: "Chicken Biryani", semanticScore: 0.8, trigramScore: 0.8, distanceKm: 5, relevance: 1 },
+                    { dishId: "near", dishName: "Lamb Biryani", semanticScore: 0.78, trigramScore: 0.78, distanceKm: 0.5, relevance: 3 },
+                ],
+            },
+        ],
+    });
+
+    it("validates labelled query files", () => {
+        expect(() => parseLabelledQueries({ queries: [{ query: "x" }] })).toThrow(/needs a query and a candidates list/);
+        expect(() => parseLabelledQueries([{ query: "x", candidates: [{ dishId: "a", dishName: "A" }] }])).toThrow(/relevance/);
+    });
+
+    it("expands semantic weights with their trigram complement", () => {
+        expect(overridesToConfig({ "weights.vibe.semantic": 0.6, "distance.weight": 0.1 })).toEqual({
+            weights: { vibe: { semantic: 0.6, trigram: 0.4 } },
+            distance: { weight: 0.1 },
+        });
+        expect(applyOverrides(DEFAULT_RANKING_CONFIG, { "weights.vibe.semantic": 0.6 }).weights.vibe.trigram).toBeCloseTo(0.4);
+    });
+
+    it("finds the grid point that ranks labelled favourites first", () => {
+        expect(evaluateRanking(queries, DEFAULT_RANKING_CONFIG).ndcg).toBeLessThan(1);
+
+        const [best] = gridSearch(queries, { "distance.weight": [0, 0.1] });
+
+        expect(best.overrides).toEqual({ "distance.weight": 0.1 });
+        expect(best.ndcg).toBe(1);
+    });
+});
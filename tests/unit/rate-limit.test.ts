@@ -0,0 +1,238 @@
+import { randomUUID } from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import {
+    budgetDay,
+    checkRateLimits,
+    clientIpKey,
+    consumeLLMBudget,
+    createMemoryRateLimitStore,
+    takeToken,
+    type RateLimitStore,
+} from "@/lib/discover/rate-limit";
+import { createBudgetedChatLLM, limitChatRequest } from "@/lib/discover/chat/rate-limit";
+import { getSessionStore } from "@/lib/discover/session";
+import { hybridSearchDishes } from "@/lib/discover/hybrid-search";
+import { createMemoryCatalog, loadCatalogSeed } from "@/lib/catalog";
+import { createDisabledProvider, getLLMProvider } from "@/lib/llm";
+import { parseUserIntent } from "@/lib/intent-parser";
+
+const bucket = { capacity: 2, refillPerSecond: 0.5 };
+
+function clock(start = Date.UTC(2026, 0, 1, 23, 59)) {
+    let time = start;
+    return { now: () => time, advance: (ms: number) => (time += ms) };
+}
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe("takeToken", () => {
+    it("starts full, empties after the burst and refills over time", () => {
+        let state = takeToken(null, bucket, 0).state;
+        const second = takeToken(state, bucket, 0);
+        expect(second.decision).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+
+        const third = takeToken(second.state, bucket, 500);
+        expect(third.decision).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 2 });
+
+        state = third.state;
+        expect(takeToken(state, bucket, 2000).decision.allowed).toBe(true);
+    });
+
+    it("never refills past capacity", () => {
+        const { state } = takeToken({ tokens: 0, updatedAt: 0 }, bucket, 60_000);
+        expect(state.tokens).toBe(1);
+    });
+});
+
+describe("memory store", () => {
+    it("keeps one bucket per key", async () => {
+        const store = createMemoryRateLimitStore();
+        await store.take("ip:a", bucket);
+        await store.take("ip:a", bucket);
+        expect((await store.take("ip:a", bucket)).allowed).toBe(false);
+        expect((await store.take("ip:b", bucket)).allowed).toBe(true);
+    });
+
+    it("counts the LLM budget per UTC day", async () => {
+        const time = clock();
+        const store = createMemoryRateLimitStore({ now: time.now });
+        expect(await store.consumeDailyBudget(1)).toEqual({ allowed: true, used: 1, limit: 1 });
+        expect((await store.consumeDailyBudget(1)).allowed).toBe(false);
+
+        time.advance(60_000);
+        expect(budgetDay(time.now())).toBe("2026-01-02");
+        expect((await store.consumeDailyBudget(1)).allowed).toBe(true);
+    });
+});
+
+describe("checkRateLimits", () => {
+    it("reports the scope that ran out", async () => {
+        vi.stubEnv("DISCOVER_RATE_LIMIT_IP_BURST", "3");
+        vi.stubEnv("DISCOVER_RATE_LIMIT_SESSION_BURST", "1");
+        const store = createMemoryRateLimitStore();
+
+        expect(await checkRateLimits({ ip: "a", sessionId: "s1" }, store)).toBeNull();
+        expect(await checkRateLimits({ ip: "a", sessionId: "s1" }, store)).toMatchObject({ scope: "session" });
+        expect(await checkRateLimits({ ip: "a", sessionId: "s2" }, store)).toBeNull();
+        expect(await checkRateLimits({ ip: "a", sessionId: "s3" }, store)).toMatchObject({ scope: "ip" });
+    });
+
+    it("does nothing when disabled and fails open when the store is down", async () => {
+        const failing: RateLimitStore = {
+            kind: "memory",
+            take: vi.fn(async () => {
+                throw new Error("offline");
+            }),
+            consumeDailyBudget: vi.fn(async () => {
+                throw new Error("offline");
+            }),
+        };
+        const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+
+        expect(await checkRateLimits({ ip: "a" }, failing)).toBeNull();
+        vi.stubEnv("DISCOVER_LLM_DAILY_BUDGET", "5");
+        expect(await consumeLLMBudget(failing)).toBe(true);
+        expect(errorLog).toHaveBeenCalledTimes(2);
+        errorLog.mockRestore();
+
+        vi.stubEnv("DISCOVER_RATE_LIMIT", "off");
+        expect(await checkRateLimits({ ip: "a" }, failing)).toBeNull();
+        expect(failing.take).toHaveBeenCalledTimes(1);
+    });
+
+    it("hashes the address the trusted proxy appended, not what the client forwarded", () => {
+        const key = clientIpKey(new Headers({ "x-forwarded-for": "203.0.113.7" }));
+        expect(key).toBe(clientIpKey(new Headers({ "x-real-ip": "203.0.113.7" })));
+        expect(key).not.toContain("203.0.113.7");
+
+        const spoofed = clientIpKey(new Headers({ "x-forwarded-for": "198.51.100.99, 203.0.113.7" }));
+        expect(spoofed).toBe(key);
+    });
+
+    it("walks back DISCOVER_TRUSTED_PROXY_HOPS hops", () => {
+        vi.stubEnv("DISCOVER_TRUSTED_PROXY_HOPS", "2");
+        const key = clientIpKey(new Headers({ "x-forwarded-for": "198.51.100.99, 203.0.113.7, 10.0.0.1" }));
+        expect(key).toBe(clientIpKey(new Headers({ "x-real-ip": "203.0.113.7" })));
+        expect(clientIpKey(new Headers({ "x-forwarded-for": "203.0.113.7" }))).toBe(key);
+    });
+});
+
+describe("daily LLM budget", () => {
+    it("is unlimited unless configured", async () => {
+        const store = createMemoryRateLimitStore();
+        expect(await consumeLLMBudget(store)).toBe(true);
+
+        vi.stubEnv("DISCOVER_LLM_DAILY_BUDGET", "1");
+        expect(await consumeLLMBudget(store)).toBe(true);
+        expect(await consumeLLMBudget(store)).toBe(false);
+    });
+
+    it("charges the budget on a turn's first provider call only", async () => {
+        vi.stubEnv("DISCOVER_LLM_DAILY_BUDGET", "1");
+        const store = createMemoryRateLimitStore();
+        const inner = getLLMProvider();
+        const complete = vi.spyOn(inner, "complete").mockResolvedValue("ok");
+        const log = vi.spyOn(console, "log").mockImplementation(() => {});
+        const degraded = vi.fn();
+
+        // A turn that never calls the provider (cached intent, sort chip) is not charged
+        createBudgetedChatLLM(inner, degraded, store);
+        const first = createBudgetedChatLLM(inner, degraded, store);
+        const firstReplies = [await first.complete({ messages: [] }), await first.complete({ messages: [] })];
+        const second = createBudgetedChatLLM(inner, degraded, store);
+        const secondReply = await second.complete({ messages: [] });
+        await expect(second.embed("pizza")).rejects.toThrow("Embeddings disabled");
+        const calls = complete.mock.calls.length;
+        complete.mockRestore();
+        log.mockRestore();
+
+        expect(firstReplies).toEqual(["ok", "ok"]);
+        expect(secondReply).toBeNull();
+        expect(calls).toBe(2);
+        expect(degraded).toHaveBeenCalledTimes(1);
+    });
+
+    it("degrades intent parsing to the heuristic parser", async () => {
+        const llm = createDisabledProvider(getLLMProvider(), "test");
+        expect(await llm.complete({ messages: [] })).toBeNull();
+        await expect(llm.embed("pizza")).rejects.toThrow("Embeddings disabled");
+
+        const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+        const intent = await parseUserIntent("sesame-free falafel near me", [], undefined, llm);
+        errorLog.mockRestore();
+
+        expect(intent).toMatchObject({ allergy: ["sesame"], near_me: true, language: "en" });
+    });
+
+    it("keeps numbers without a currency in the heuristic dish text", async () => {
+        const llm = createDisabledProvider(getLLMProvider(), "test");
+        const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+        const intent = await parseUserIntent("biryani for 2-3 people", [], undefined, llm);
+        errorLog.mockRestore();
+
+        expect(intent).toMatchObject({ dish_query: "biryani for 2-3 people", price_min: null, price_max: null });
+    });
+
+    it("makes no embeddings calls in hybrid search", async () => {
+        const inner = getLLMProvider();
+        const embed = vi.spyOn(inner, "embed");
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+
+        const candidates = await hybridSearchDishes({
+            query: "paneer butter masala",
+            catalog: createMemoryCatalog(loadCatalogSeed()),
+            llm: createDisabledProvider(inner, "test"),
+        });
+        warn.mockRestore();
+        errorLog.mockRestore();
+
+        expect(embed).not.toHaveBeenCalled();
+        embed.mockRestore();
+        expect(candidates.map(c => c.dish_name)).toContain("Paneer Butter Masala");
+    });
+});
+
+describe("limitChatRequest", () => {
+    function chatRequest(ip: string, body: object) {
+        return new NextRequest("http://localhost/api/discover/chat", {
+            method: "POST",
+            headers: { "x-forwarded-for": ip, "content-type": "application/json" },
+            body: JSON.stringify(body),
+        });
+    }
+
+    it("answers a limited client with a localized 429", async () => {
+        vi.stubEnv("DISCOVER_RATE_LIMIT_IP_BURST", "1");
+        vi.stubEnv("DISCOVER_RATE_LIMIT_IP_PER_MINUTE", "6");
+        const body = { messages: [{ role: "user", content: "pizza" }], chatState: { mode: "discovery", preferred_language: "sv" } };
+
+        expect(await limitChatRequest(chatRequest("198.51.100.1", body))).toBeNull();
+        const response = await limitChatRequest(chatRequest("198.51.100.1", body));
+
+        expect(response?.status).toBe(429);
+        expect(response?.headers.get("retry-after")).toBe("10");
+        const json = await response!.json();
+        expect(json.rateLimit).toEqual({ scope: "ip", retryAfterSeconds: 10 });
+        expect(json.message.content).toContain("Vänta 10 sekunder");
+        expect(json.chatState).toMatchObject({ mode: "discovery", preferred_language: "sv" });
+    });
+
+    it("only buckets sessions the server issued", async () => {
+        vi.stubEnv("DISCOVER_RATE_LIMIT_SESSION_BURST", "1");
+        const session = await getSessionStore().save({ id: randomUUID(), state: { mode: "discovery" }, servedDishIds: [] });
+        const messages = [{ role: "user", content: "pizza" }];
+
+        expect(await limitChatRequest(chatRequest("198.51.100.2", { messages, sessionId: session.id }))).toBeNull();
+        const response = await limitChatRequest(chatRequest("198.51.100.3", { messages, sessionId: session.id }));
+        expect((await response!.json()).rateLimit.scope).toBe("session");
+
+        // Made-up ids are not keys of their own: the IP bucket is what limits them
+        const forged = randomUUID();
+        expect(await limitChatRequest(chatRequest("198.51.100.4", { messages, sessionId: forged }))).toBeNull();
+        expect(await limitChatRequest(chatRequest("198.51.100.5", { messages, sessionId: forged }))).toBeNull();
+    });
+});
@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createTapeProvider } from "@/lib/llm/tape-provider";
+import type { LLMProvider } from "@/lib/llm/types";
+import {
+    diffValues,
+    parseRecording,
+    recordingFetch,
+    replayConversation,
+    runWithRecording,
+    type CaptureContext,
+    type ConversationRecording,
+    type ReplayContext,
+    type Tape,
+} from "@/lib/replay";
+
+function countingProvider() {
+    const calls = { complete: 0, embed: 0 };
+    const provider: LLMProvider = {
+        kind: "stub",
+        chatModel: "test",
+        embeddingModel: "test",
+        embeddingDimensions: 3,
+        async complete(req) {
+            calls.complete++;
+            return `echo: ${req.messages[req.messages.length - 1].content}`;
+        },
+        async structured(req) {
+            return req.schema.parse({ language: "sv", city: "Göteborg" });
+        },
+        async embed() {
+            calls.embed++;
+            return [1, 2, 3];
+        },
+        async embedMany(texts) {
+            return texts.map(() => [1, 2, 3]);
+        },
+    };
+    return { provider, calls };
+}
+
+function capture(): CaptureContext {
+    return { mode: "capture", tape: { llm: [], supabase: [] } };
+}
+
+function replay(tape: Tape): ReplayContext {
+    return { mode: "replay", tape, used: new Set(), misses: [] };
+}
+
+const ask = (content: string) => ({ messages: [{ role: "user" as const, content }] });
+
+describe("tape provider", () => {
+    it("passes through outside a recording context", async () => {
+        const { provider, calls } = countingProvider();
+        expect(await createTapeProvider(provider).complete(ask("hej"))).toBe("echo: hej");
+        expect(calls.complete).toBe(1);
+    });
+
+    it("replays captured calls without calling the inner provider", async () => {
+        const { provider, calls } = countingProvider();
+        const taped = createTapeProvider(provider);
+        const schema = z.object({ language: z.string(), city: z.string() });
+
+        const recording = capture();
+        await runWithRecording(recording, async () => {
+            await taped.complete(ask("vegan pizza"));
+            await taped.structured({ ...ask("plan this"), schema, name: "plan" });
+            await taped.embed("vegan pizza");
+        });
+        expect(recording.tape.llm.map(call => call.op)).toEqual(["complete", "structured", "embed"]);
+
+        const context = replay(recording.tape);
+        const replayed = await runWithRecording(context, async () => ({
+            text: await taped.complete(ask("vegan pizza")),
+            plan: await taped.structured({ ...ask("plan this"), schema, name: "plan" }),
+            vector: await taped.embed("vegan pizza"),
+        }));
+
+        expect(replayed).toEqual({ text: "echo: vegan pizza", plan: { language: "sv", city: "Göteborg" }, vector: [1, 2, 3] });
+        expect(calls).toEqual({ complete: 1, embed: 1 });
+        expect(context.misses).toEqual([]);
+    });
+
+    it("answers unrecorded chat calls with null and records the miss", async () => {
+        const { provider, calls } = countingProvider();
+        const taped = createTapeProvider(provider);
+        const context = replay({ llm: [], supabase: [] });
+
+        await runWithRecording(context, async () => {
+            expect(await taped.complete(ask("sushi"))).toBeNull();
+            await expect(taped.embed("sushi")).rejects.toThrow(/No recorded embedding/);
+        });
+
+        expect(calls.complete).toBe(0);
+        expect(context.misses).toHaveLength(2);
+        expect(context.misses[0]).toContain("sushi");
+    });
+});
+
+describe("recordingFetch", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("records path, body and response, then replays them offline", async () => {
+        const network = vi.fn(async () => new Response('[{"id":"r1"}]', {
+            status: 200,
+            headers: { "content-type": "application/json", "x-request-id": "abc" },
+        }));
+        vi.stubGlobal("fetch", network);
+
+        const recording = capture();
+        await runWithRecording(recording, () =>
+            recordingFetch("https://project.supabase.co/rest/v1/rpc/search?limit=5", { method: "POST", body: '{"q":"pizza"}' })
+        );
+        expect(recording.tape.supabase[0]).toMatchObject({
+            method: "POST",
+            url: "/rest/v1/rpc/search?limit=5",
+            body: '{"q":"pizza"}',
+            status: 200,
+            headers: { "content-type": "application/json" },
+            response: '[{"id":"r1"}]',
+        });
+
+        const context = replay(recording.tape);
+        const response = await runWithRecording(context, () =>
+            recordingFetch("http://localhost:54321/rest/v1/rpc/search?limit=5", { method: "POST", body: '{"q":"pizza"}' })
+        );
+        expect(await response.json()).toEqual([{ id: "r1" }]);
+        expect(network).toHaveBeenCalledTimes(1);
+    });
+
+    it("answers unrecorded requests with an error response", async () => {
+        const network = vi.fn();
+        vi.stubGlobal("fetch", network);
+
+        const context = replay({ llm: [], supabase: [] });
+        const response = await runWithRecording(context, () => recordingFetch("http://localhost/rest/v1/dishes?id=eq.1"));
+
+        expect(response.status).toBe(503);
+        expect(network).not.toHaveBeenCalled();
+        expect(context.misses).toEqual(["supabase GET /rest/v1/dishes?id=eq.1"]);
+    });
+});
+
+describe("diffValues", () => {
+    it("reports changed leaves by path and skips ids and opening-hours fields", () => {
+        const recorded = {
+            message: { id: "m1", content: "Här är", restaurants: [{ name: "Pizza Hut", is_open_now: true, matches: [{ name: "Vegan" }] }] },
+        };
+        const replayed = {
+            message: { id: "m2", content: "Här är", restaurants: [{ name: "Pizza Hut", is_open_now: false, matches: [{ name: "Vegansk" }, { name: "Ny" }] }] },
+        };
+
+        expect(diffValues(recorded, replayed)).toEqual([
+            { path: "message.restaurants[0].matches[0].name", recorded: "Vegan", replayed: "Vegansk" },
+            { path: "message.restaurants[0].matches[1]", recorded: undefined, replayed: { name: "Ny" } },
+        ]);
+    });
+
+    it("treats missing and undefined keys as equal", () => {
+        expect(diffValues({ a: 1, b: undefined }, { a: 1 })).toEqual([]);
+    });
+});
+
+describe("replayConversation", () => {
+    function turn(request: Record<string, unknown>, sessionId: string, content: string) {
+        return {
+            at: "2026-03-10T12:00:00.000Z",
+            request,
+            response: { status: 200, body: { sessionId, message: { id: "x", role: "assistant", content }, chatState: { mode: "discovery" } } },
+            llm: [],
+            supabase: [],
+        };
+    }
+
+    const recording: ConversationRecording = {
+        version: 1,
+        sessionId: "recorded-session",
+        turns: [
+            turn({ messages: [{ role: "user", content: "pizza" }] }, "recorded-session", "answer 1"),
+            turn({ sessionId: "recorded-session", messages: [{ role: "user", content: "vegan?" }] }, "recorded-session", "answer 2"),
+        ],
+    };
+
+    it("sends the replayed session id on later turns and diffs each turn", async () => {
+        const seen: unknown[] = [];
+        const handler = async (request: Request) => {
+            const body = await request.json();
+            seen.push(body.sessionId);
+            const content = body.sessionId ? "changed" : "answer 1";
+            return Response.json({ sessionId: "replayed-session", message: { id: "y", role: "assistant", content }, chatState: { mode: "discovery" } });
+        };
+
+        const result = await replayConversation(recording, handler);
+
+        expect(seen).toEqual([undefined, "replayed-session"]);
+        expect(result.ok).toBe(false);
+        expect(result.turns.map(t => t.query)).toEqual(["pizza", "vegan?"]);
+        expect(result.turns[0].diffs).toEqual([]);
+        expect(result.turns[1].diffs).toEqual([{ path: "message.content", recorded: "answer 2", replayed: "changed" }]);
+    });
+
+    it("rejects files that are not recordings", () => {
+        expect(() => parseRecording({ version: 2 }, "a.json")).toThrow(/a.json: not a version 1/);
+        expect(parseRecording(JSON.parse(JSON.stringify(recording))).turns).toHaveLength(2);
+    });
+});
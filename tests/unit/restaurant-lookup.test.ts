@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { computeOpenStatus } from "@/lib/discover/restaurant-lookup";
+
+// Wednesday 2025-06-11. Stockholm is UTC+2 in June, so 10:30Z = 12:30 local.
+const WED_1230_STOCKHOLM = new Date("2025-06-11T10:30:00Z");
+// Same instant is 06:30 in New York (UTC-4)
+const WED_0630_NEW_YORK = WED_1230_STOCKHOLM;
+// Thursday 01:30 in Stockholm - inside a Wednesday late shift
+const THU_0130_STOCKHOLM = new Date("2025-06-11T23:30:00Z");
+
+describe("computeOpenStatus", () => {
+    it.each([
+        { name: "no opening hours", hours: null, tz: null, now: WED_1230_STOCKHOLM, isOpen: false, todayHours: null },
+        { name: "open now (full day key)", hours: { wednesday: "11:00-22:00" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: true, todayHours: "11:00-22:00" },
+        { name: "open now (short day key)", hours: { wed: "11:00 - 22:00" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: true, todayHours: "11:00 - 22:00" },
+        { name: "not open yet", hours: { wednesday: "16:00-23:00" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: false, todayHours: "16:00-23:00" },
+        { name: "already closed", hours: { wednesday: "07:00-12:00" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: false, todayHours: "07:00-12:00" },
+        { name: "closing time is exclusive", hours: { wednesday: "08:00-12:30" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: false, todayHours: "08:00-12:30" },
+        { name: "opening time is inclusive", hours: { wednesday: "12:30-20:00" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: true, todayHours: "12:30-20:00" },
+        { name: "explicitly closed today", hours: { wednesday: "Closed" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: false, todayHours: "Closed today" },
+        { name: "no entry for today", hours: { monday: "11:00-22:00" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: false, todayHours: "Closed today" },
+        { name: "unparseable hours are shown but not open", hours: { wednesday: "lunch only" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: false, todayHours: "lunch only" },
+        { name: "defaults to Europe/Stockholm", hours: { wednesday: "12:00-13:00" }, tz: null, now: WED_1230_STOCKHOLM, isOpen: true, todayHours: "12:00-13:00" },
+        { name: "uses the restaurant timezone", hours: { wednesday: "11:00-22:00" }, tz: "America/New_York", now: WED_0630_NEW_YORK, isOpen: false, todayHours: "11:00-22:00" },
+        { name: "split shift, between shifts", hours: { wednesday: "11:00-12:00, 17:00-22:00" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: false, todayHours: "11:00-12:00, 17:00-22:00" },
+        { name: "split shift, second range", hours: { wednesday: "08:00-10:00, 12:00-14:00" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: true, todayHours: "08:00-10:00, 12:00-14:00" },
+        { name: "weekday range key", hours: { mon_fri: "11:00-22:00" }, tz: "Europe/Stockholm", now: WED_1230_STOCKHOLM, isOpen: true, todayHours: "11:00-22:00" },
+        { name: "open past midnight from yesterday", hours: { wednesday: "18:00-02:00", thursday: "Closed" }, tz: "Europe/Stockholm", now: THU_0130_STOCKHOLM, isOpen: true, todayHours: "18:00-02:00" },
+        { name: "today's hours win after midnight", hours: { wednesday: "18:00-02:00", thursday: "11:00-22:00" }, tz: "Europe/Stockholm", now: THU_0130_STOCKHOLM, isOpen: true, todayHours: "11:00-22:00" },
+        { name: "invalid timezone fails closed", hours: { wednesday: "11:00-22:00" }, tz: "Not/AZone", now: WED_1230_STOCKHOLM, isOpen: false, todayHours: null },
+    ])("$name", ({ hours, tz, now, isOpen, todayHours }) => {
+        expect(computeOpenStatus(hours as Record<string, string> | null, tz, now)).toEqual({ isOpen, todayHours });
+    });
+});
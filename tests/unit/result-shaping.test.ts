@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { buildLimitSummary, hasMoreDishes, hasMoreRestaurants, limitDiscoveryResults } from "@/lib/discover/result-limiter";
+import { truncateCards } from "@/lib/discover/result-truncation";
+import { makeCard, makeDish, makeDishes } from "./helpers";
+
+/** Cards with the given dish counts: [5, 2] -> r1 with 5 dishes, r2 with 2 */
+function cardsWithDishCounts(counts: number[]) {
+    return counts.map((n, i) => makeCard(`r${i + 1}`, makeDishes(`r${i + 1}-dish`, n)));
+}
+
+describe("limitDiscoveryResults", () => {
+    it.each([
+        { name: "empty input", counts: [], maxR: 5, maxD: 3, shown: [], moreDishes: [], moreRestaurants: 0, totalDishes: 0 },
+        { name: "under both limits", counts: [2, 1], maxR: 5, maxD: 3, shown: [2, 1], moreDishes: [0, 0], moreRestaurants: 0, totalDishes: 3 },
+        { name: "dishes truncated per restaurant", counts: [5, 3], maxR: 5, maxD: 3, shown: [3, 3], moreDishes: [2, 0], moreRestaurants: 0, totalDishes: 8 },
+        { name: "restaurants truncated", counts: [1, 1, 1, 1, 1, 1, 1], maxR: 5, maxD: 3, shown: [1, 1, 1, 1, 1], moreDishes: [0, 0, 0, 0, 0], moreRestaurants: 2, totalDishes: 7 },
+        { name: "custom limits", counts: [4, 4, 4], maxR: 2, maxD: 1, shown: [1, 1], moreDishes: [3, 3], moreRestaurants: 1, totalDishes: 12 },
+    ])("$name", ({ counts, maxR, maxD, shown, moreDishes, moreRestaurants, totalDishes }) => {
+        const result = limitDiscoveryResults(cardsWithDishCounts(counts), maxR, maxD);
+
+        expect(result.restaurants.map(r => r.matches.length)).toEqual(shown);
+        expect(result.restaurants.map(r => r.more_dishes_count)).toEqual(moreDishes);
+        expect(result.more_restaurants_count).toBe(moreRestaurants);
+        expect(result.total_restaurants_found).toBe(counts.length);
+        expect(result.total_dishes_found).toBe(totalDishes);
+        expect(hasMoreRestaurants(result)).toBe(moreRestaurants > 0);
+        expect(hasMoreDishes(result)).toBe(moreDishes.some(n => n > 0));
+    });
+
+    it("keeps the best-first order and first dishes", () => {
+        const result = limitDiscoveryResults(cardsWithDishCounts([4, 1]), 1, 2);
+        expect(result.restaurants[0].id).toBe("r1");
+        expect(result.restaurants[0].matches.map(m => m.id)).toEqual(["r1-dish-1", "r1-dish-2"]);
+    });
+
+    it("sorts before cutting, so the cheapest dishes survive", () => {
+        const cards = [
+            makeCard("r1", [makeDish("r1-a", "A", { price: 180 }), makeDish("r1-b", "B", { price: 90 }), makeDish("r1-c", "C", { price: 120 })]),
+            makeCard("r2", [makeDish("r2-a", "D", { price: 70 })]),
+        ];
+        const result = limitDiscoveryResults(cards, 1, 2, "price_asc");
+        expect(result.restaurants.map(r => r.id)).toEqual(["r2"]);
+        expect(limitDiscoveryResults(cards, 2, 2, "price_asc").restaurants[1].matches.map(m => m.id)).toEqual(["r1-b", "r1-c"]);
+    });
+
+    it.each([
+        { name: "nothing truncated", counts: [1], maxR: 5, maxD: 3, summary: null },
+        { name: "only dishes truncated", counts: [5], maxR: 5, maxD: 3, summary: "+2 more dishes across results" },
+        { name: "both truncated", counts: [5, 1], maxR: 1, maxD: 3, summary: "+1 more restaurants · +2 more dishes across results" },
+    ])("summary: $name", ({ counts, maxR, maxD, summary }) => {
+        expect(buildLimitSummary(limitDiscoveryResults(cardsWithDishCounts(counts), maxR, maxD))).toBe(summary);
+    });
+});
+
+describe("truncateCards", () => {
+    it.each([
+        {
+            name: "defaults (8 restaurants, 4 dishes)",
+            counts: [6, 2],
+            opts: undefined,
+            shown: [4, 2],
+            nextOffsets: [4, undefined],
+            meta: { total_restaurants: 2, total_matches: 8, truncated: true, restaurants_returned: 2, dishes_per_restaurant: 4, next_offset: undefined },
+        },
+        {
+            name: "nothing to truncate",
+            counts: [2, 2],
+            opts: { maxRestaurants: 8, maxDishesPerRestaurant: 4 },
+            shown: [2, 2],
+            nextOffsets: [undefined, undefined],
+            meta: { total_restaurants: 2, total_matches: 4, truncated: false, restaurants_returned: 2, dishes_per_restaurant: 4, next_offset: undefined },
+        },
+        {
+            name: "more restaurants than the page",
+            counts: [1, 1, 1],
+            opts: { maxRestaurants: 2 },
+            shown: [1, 1],
+            nextOffsets: [undefined, undefined],
+            meta: { total_restaurants: 3, total_matches: 3, truncated: true, restaurants_returned: 2, dishes_per_restaurant: 4, next_offset: 2 },
+        },
+        {
+            name: "offset selects the next page",
+            counts: [1, 1, 3],
+            opts: { maxRestaurants: 2, maxDishesPerRestaurant: 2, offset: 2 },
+            shown: [2],
+            nextOffsets: [2],
+            meta: { total_restaurants: 3, total_matches: 5, truncated: true, restaurants_returned: 1, dishes_per_restaurant: 2, next_offset: undefined },
+        },
+        {
+            name: "offset past the end returns nothing",
+            counts: [1, 1],
+            opts: { offset: 5 },
+            shown: [],
+            nextOffsets: [],
+            meta: { total_restaurants: 2, total_matches: 2, truncated: true, restaurants_returned: 0, dishes_per_restaurant: 4, next_offset: undefined },
+        },
+    ])("$name", ({ counts, opts, shown, nextOffsets, meta }) => {
+        const { cards, meta: outMeta } = truncateCards(cardsWithDishCounts(counts), opts);
+
+        expect(cards.map(c => c.matches?.length)).toEqual(shown);
+        expect(cards.map(c => c.pagination?.next_offset)).toEqual(nextOffsets);
+        expect(outMeta).toEqual(meta);
+    });
+
+    it("fills per-restaurant pagination and more_dishes_count", () => {
+        const { cards } = truncateCards(cardsWithDishCounts([7]), { maxDishesPerRestaurant: 3 });
+        expect(cards[0].more_dishes_count).toBe(4);
+        expect(cards[0].pagination).toEqual({ shown: 3, total: 7, remaining: 4, next_offset: 3 });
+    });
+});
@@ -0,0 +1,247 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST as postEvents } from "@/app/api/discover/events/route";
+import {
+    buildQueryLogEntry,
+    createMemorySearchAnalyticsStore,
+    logChatQuery,
+    MAX_EVENTS_PER_BATCH,
+    parseSearchEventBatch,
+    type QueryLogEntry,
+    type StoredSearchEvent,
+} from "@/lib/discover/analytics";
+import { createTrace, type TraceRecord } from "@/lib/discover/trace";
+import type { DiscoverChatResponse, RestaurantCard } from "@/lib/types/discover";
+
+const NOW = Date.parse("2026-03-10T12:00:00.000Z");
+
+function searchTrace(opts: { query?: string; action?: string; restaurantScoped?: boolean; step?: string } = {}): TraceRecord {
+    let time = 0;
+    const trace = createTrace({ name: "discover.chat", requestId: "req-search-1", now: () => time, clock: () => NOW });
+    trace.set({ sessionId: "session-1", degraded: true });
+    if (opts.query !== undefined) trace.set({ query: opts.query });
+
+    const intent = trace.start("intent", { historyLength: 0 });
+    time += 80;
+    intent.end({ language: "sv", dishQuery: "vegansk pizza", city: "Göteborg", dietary: ["vegan"], allergy: [], isFollowup: false });
+    if (opts.restaurantScoped) {
+        trace.start("restaurant-scoped-search").end();
+    } else {
+        trace.start("followup", { type: "PASS" }).end();
+        trace.start(`action:${opts.action ?? "SEARCH"}`).end();
+        if (opts.step) trace.start("retrieval").end({ step: opts.step });
+    }
+    time += 40.4;
+    return trace.finish({ status: 200 });
+}
+
+function reply(restaurants: Pick<RestaurantCard, "id" | "matches">[]): Partial<DiscoverChatResponse> {
+    return {
+        message: { id: "m1", role: "assistant", kind: "answer", content: "", restaurants: restaurants as RestaurantCard[] },
+    };
+}
+
+const dish = (id: string) => ({ id, name: id, description: null, price: 100 });
+
+function entry(overrides: Partial<QueryLogEntry>): QueryLogEntry {
+    return {
+        requestId: "r",
+        sessionId: "s",
+        query: "pizza",
+        normalizedQuery: "pizza",
+        language: "en",
+        intent: null,
+        action: "SEARCH",
+        resultRestaurantIds: [],
+        resultDishIds: [],
+        resultCount: 0,
+        noResults: (overrides.resultCount ?? 0) === 0,
+        latencyMs: 100,
+        degraded: false,
+        status: 200,
+        createdAt: new Date(NOW - 60_000).toISOString(),
+        ...overrides,
+    };
+}
+
+function event(overrides: Partial<StoredSearchEvent>): StoredSearchEvent {
+    return {
+        requestId: "r",
+        sessionId: "s",
+        event: "impression",
+        target: "restaurant",
+        restaurantId: "rest-1",
+        dishId: null,
+        position: 0,
+        createdAt: new Date(NOW - 30_000).toISOString(),
+        ...overrides,
+    };
+}
+
+describe("buildQueryLogEntry", () => {
+    it("takes the query, intent and action from the trace and the results from the reply", () => {
+        const logged = buildQueryLogEntry(
+            searchTrace({ query: "Vegansk  Pizza" }),
+            reply([{ id: "rest-1", matches: [dish("d1"), dish("d2")] }, { id: "rest-2" }])
+        );
+
+        expect(logged).toEqual({
+            requestId: "req-search-1",
+            sessionId: "session-1",
+            query: "Vegansk  Pizza",
+            normalizedQuery: "vegansk pizza",
+            language: "sv",
+            intent: { dishQuery: "vegansk pizza", city: "Göteborg", dietary: ["vegan"], allergy: [], isFollowup: false },
+            action: "SEARCH",
+            resultRestaurantIds: ["rest-1", "rest-2"],
+            resultDishIds: ["d1", "d2"],
+            resultCount: 2,
+            noResults: false,
+            latencyMs: 120,
+            degraded: true,
+            status: 200,
+            createdAt: new Date(NOW).toISOString(),
+        });
+    });
+
+    it("flags empty replies and the top-restaurants fallback as no results", () => {
+        const fallback = buildQueryLogEntry(
+            searchTrace({ query: "jackfruit tacos", step: "E" }),
+            reply([{ id: "rest-1", matches: [] }, { id: "rest-2", matches: [] }])
+        );
+        expect(fallback).toMatchObject({ resultCount: 2, noResults: true });
+        expect(buildQueryLogEntry(searchTrace({ query: "jackfruit tacos" }), reply([]))?.noResults).toBe(true);
+        expect(buildQueryLogEntry(searchTrace({ query: "pizza", step: "C" }), reply([{ id: "rest-1", matches: [dish("d1")] }]))?.noResults)
+            .toBe(false);
+    });
+
+    it("names routes that bypass the planner and skips requests without a query", () => {
+        expect(buildQueryLogEntry(searchTrace({ query: "naan hos sandhu", restaurantScoped: true }), reply([]))?.action)
+            .toBe("RESTAURANT_SCOPED_SEARCH");
+        expect(buildQueryLogEntry(searchTrace(), reply([]))).toBeNull();
+    });
+
+    it("is a no-op when analytics are off", async () => {
+        const store = createMemorySearchAnalyticsStore({ now: () => NOW });
+        process.env.DISCOVER_ANALYTICS = "off";
+        try {
+            logChatQuery(searchTrace({ query: "pizza" }), reply([]), store);
+        } finally {
+            delete process.env.DISCOVER_ANALYTICS;
+        }
+        logChatQuery(searchTrace({ query: "sushi" }), reply([]), store);
+        await Promise.resolve();
+
+        const zero = await store.zeroResultQueries({ days: 1, limit: 10 });
+        expect(zero.map(row => row.normalizedQuery)).toEqual(["sushi"]);
+    });
+});
+
+describe("parseSearchEventBatch", () => {
+    it("keeps valid events, stamps them and drops the rest", () => {
+        const parsed = parseSearchEventBatch(
+            {
+                sessionId: "session-1",
+                events: [
+                    { requestId: "req-1", event: "click", target: "dish", restaurantId: "rest-1", dishId: "d1", position: 2 },
+                    { requestId: "req-1", event: "impression", target: "restaurant", restaurantId: "rest-1", dishId: "d9", position: 0 },
+                    { requestId: "req-1", event: "hover", target: "dish", restaurantId: "rest-1", dishId: "d1", position: 0 },
+                    { requestId: "req-1", event: "click", target: "dish", restaurantId: "rest-1", position: 0 },
+                    { requestId: "req 1; drop", event: "click", target: "restaurant", restaurantId: "rest-1", position: 0 },
+                    { requestId: "req-1", event: "click", target: "restaurant", restaurantId: "rest-1", position: -1 },
+                ],
+            },
+            new Date(NOW)
+        );
+
+        expect(parsed).toEqual([
+            { requestId: "req-1", event: "click", target: "dish", restaurantId: "rest-1", dishId: "d1", position: 2, sessionId: "session-1", createdAt: new Date(NOW).toISOString() },
+            { requestId: "req-1", event: "impression", target: "restaurant", restaurantId: "rest-1", dishId: null, position: 0, sessionId: "session-1", createdAt: new Date(NOW).toISOString() },
+        ]);
+    });
+
+    it("rejects bodies that are not a batch or are too big", () => {
+        expect(parseSearchEventBatch(null)).toBeNull();
+        expect(parseSearchEventBatch({ events: "click" })).toBeNull();
+        const tooMany = Array.from({ length: MAX_EVENTS_PER_BATCH + 1 }, () => ({}));
+        expect(parseSearchEventBatch({ events: tooMany })).toBeNull();
+    });
+});
+
+describe("reports", () => {
+    it("groups empty searches by normalized query, ignoring other actions, errors and old rows", async () => {
+        const store = createMemorySearchAnalyticsStore({ now: () => NOW });
+        await store.logQuery(entry({ requestId: "1", query: "Jackfruit tacos", normalizedQuery: "jackfruit tacos", sessionId: "a", intent: { dishQuery: "jackfruit tacos", city: "Malmö", dietary: [], allergy: [], isFollowup: false } }));
+        await store.logQuery(entry({ requestId: "2", query: "jackfruit tacos?", normalizedQuery: "jackfruit tacos", sessionId: "b", createdAt: new Date(NOW - 1000).toISOString() }));
+        await store.logQuery(entry({ requestId: "3", normalizedQuery: "injera", action: "RESTAURANT_SCOPED_SEARCH" }));
+        await store.logQuery(entry({ requestId: "4", normalizedQuery: "hi", action: "CLARIFY" }));
+        await store.logQuery(entry({ requestId: "5", normalizedQuery: "broken", status: 500 }));
+        await store.logQuery(entry({ requestId: "6", normalizedQuery: "pizza", resultCount: 3 }));
+        await store.logQuery(entry({ requestId: "8", normalizedQuery: "jackfruit tacos", sessionId: "a", resultCount: 5, noResults: true, createdAt: new Date(NOW - 2000).toISOString() }));
+        await store.logQuery(entry({ requestId: "7", normalizedQuery: "old", createdAt: new Date(NOW - 40 * 86_400_000).toISOString() }));
+
+        expect(await store.zeroResultQueries({ days: 30, limit: 10 })).toEqual([
+            { normalizedQuery: "jackfruit tacos", searches: 3, sessions: 2, sampleQuery: "jackfruit tacos?", cities: ["Malmö"], lastSeen: new Date(NOW - 1000).toISOString() },
+            { normalizedQuery: "injera", searches: 1, sessions: 1, sampleQuery: "pizza", cities: [], lastSeen: new Date(NOW - 60_000).toISOString() },
+        ]);
+    });
+
+    it("computes click-through from distinct results per request", async () => {
+        const store = createMemorySearchAnalyticsStore({ now: () => NOW });
+        await store.logQuery(entry({ requestId: "q1", normalizedQuery: "butter chicken", resultCount: 2 }));
+        await store.logQuery(entry({ requestId: "q2", normalizedQuery: "butter chicken", resultCount: 2 }));
+        await store.logQuery(entry({ requestId: "q3", normalizedQuery: "falafel", resultCount: 1 }));
+        await store.logQuery(entry({ requestId: "q4", normalizedQuery: "butter chicken", resultCount: 5, noResults: true }));
+        await store.logEvents([
+            event({ requestId: "q1", restaurantId: "a" }),
+            event({ requestId: "q1", restaurantId: "a" }), // re-render
+            event({ requestId: "q1", restaurantId: "b", position: 1 }),
+            event({ requestId: "q1", event: "click", restaurantId: "a" }),
+            event({ requestId: "q1", event: "click", restaurantId: "a" }), // double click
+            event({ requestId: "q2", restaurantId: "a" }),
+            event({ requestId: "q2", target: "dish", restaurantId: "a", dishId: "d1" }),
+            event({ requestId: "q3", restaurantId: "c" }),
+            event({ requestId: "q4", restaurantId: "x" }), // fallback cards, not results
+        ]);
+
+        expect(await store.queryCtr({ days: 30, limit: 10, minImpressions: 2 })).toEqual([
+            { normalizedQuery: "butter chicken", searches: 2, impressions: 4, clicks: 1, ctr: 0.25, clickedSearches: 1 },
+        ]);
+    });
+});
+
+describe("events route", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    function post(body: string, ip: string) {
+        return postEvents(new NextRequest("http://localhost/api/discover/events", {
+            method: "POST",
+            headers: { "content-type": "text/plain", "x-forwarded-for": ip },
+            body,
+        }));
+    }
+
+    const batch = JSON.stringify({
+        events: [{ requestId: "req-1", event: "impression", target: "restaurant", restaurantId: "r1", position: 0 }],
+    });
+
+    it("rejects oversized bodies before parsing them", async () => {
+        const response = await post(JSON.stringify({ events: [], padding: "x".repeat(64 * 1024) }), "203.0.113.10");
+        expect(response.status).toBe(413);
+        expect((await post(batch, "203.0.113.10")).status).toBe(204);
+    });
+
+    it("limits each IP like the chat route", async () => {
+        vi.stubEnv("DISCOVER_RATE_LIMIT_IP_BURST", "2");
+        const log = vi.spyOn(console, "log").mockImplementation(() => {});
+        const statuses = [];
+        for (let i = 0; i < 3; i++) statuses.push((await post(batch, "203.0.113.11")).status);
+        const other = await post(batch, "203.0.113.12");
+        log.mockRestore();
+
+        expect(statuses).toEqual([204, 204, 429]);
+        expect(other.status).toBe(204);
+    });
+});
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import {
+    diffRuns,
+    formatRunDiff,
+    formatRunSummary,
+    levelMetrics,
+    parseJudgementSet,
+    runEvaluation,
+    type EvalSearchFn,
+    type JudgementSet,
+    type SearchOutcome,
+} from "@/lib/search-eval";
+
+const judgements: JudgementSet = parseJudgementSet({
+    version: 2,
+    queries: [
+        {
+            id: "butter-naan",
+            query: "butter naan",
+            language: "en",
+            dishes: [
+                { id: "naan-1", relevance: 3, name: "Butter Naan" },
+                { id: "naan-2", relevance: 2 },
+                { id: "roti", relevance: 0 },
+            ],
+            restaurants: [{ id: "spice", relevance: 2 }],
+        },
+        {
+            id: "sv-pizza",
+            query: "vegetarisk pizza",
+            language: "sv",
+            dishes: [{ id: "margherita", relevance: 3 }],
+        },
+        { id: "sv-hungry", query: "hungrig", language: "sv" },
+    ],
+});
+
+function hits(...ids: string[]) {
+    return ids.map(id => ({ id, name: id }));
+}
+
+function searchFrom(outcomes: Record<string, SearchOutcome | Error>): EvalSearchFn {
+    return async ({ id }) => {
+        const outcome = outcomes[id];
+        if (outcome instanceof Error) throw outcome;
+        return outcome ?? { dishes: [], restaurants: [] };
+    };
+}
+
+function clock(stepMs: number) {
+    let time = Date.UTC(2026, 0, 1);
+    return () => (time += stepMs);
+}
+
+describe("parseJudgementSet", () => {
+    it("defaults missing judgement lists to empty", () => {
+        expect(judgements.queries[2]).toEqual({ id: "sv-hungry", query: "hungrig", language: "sv", dishes: [], restaurants: [] });
+    });
+
+    it.each([
+        { raw: { queries: [] }, error: /integer version/ },
+        { raw: { version: 1, queries: [{ id: "a", query: "a" }] }, error: /needs id, query and language/ },
+        { raw: { version: 1, queries: [{ id: "a", query: "a", language: "en" }, { id: "a", query: "b", language: "en" }] }, error: /Duplicate query id "a"/ },
+        { raw: { version: 1, queries: [{ id: "a", query: "a", language: "en", dishes: [{ id: "x", relevance: 4 }] }] }, error: /integer from 0 to 3/ },
+        { raw: { version: 1, queries: [{ id: "a", query: "a", language: "en", dishes: [{ id: "x", relevance: 1 }, { id: "x", relevance: 2 }] }] }, error: /judges x twice/ },
+    ])("rejects invalid files ($error)", ({ raw, error }) => {
+        expect(() => parseJudgementSet(raw)).toThrow(error);
+    });
+});
+
+describe("levelMetrics", () => {
+    const labels = judgements.queries[0].dishes;
+
+    it("scores precision over returned results and recall over relevant labels", () => {
+        const metrics = levelMetrics(["naan-2", "unknown", "roti"], labels, 10)!;
+        expect(metrics.precision).toBeCloseTo(1 / 3);
+        expect(metrics.recall).toBe(0.5);
+        expect(metrics.mrr).toBe(1);
+        expect(metrics.ndcg).toBeLessThan(1);
+    });
+
+    it("gives a perfect score to the ideal order and nothing to an empty list", () => {
+        expect(levelMetrics(["naan-1", "naan-2"], labels, 10)).toEqual({ precision: 1, recall: 1, ndcg: 1, mrr: 1 });
+        expect(levelMetrics([], labels, 10)).toEqual({ precision: 0, recall: 0, ndcg: 0, mrr: 0 });
+    });
+
+    it("only counts the top k", () => {
+        expect(levelMetrics(["roti", "naan-1"], labels, 1)!.recall).toBe(0);
+    });
+
+    it("is null without judgements", () => {
+        expect(levelMetrics(["naan-1"], [], 10)).toBeNull();
+    });
+});
+
+describe("runEvaluation", () => {
+    it("summarizes overall and per language, counting failures as zero results", async () => {
+        const run = await runEvaluation(
+            judgements,
+            searchFrom({
+                "butter-naan": { dishes: hits("naan-1", "naan-2"), restaurants: hits("spice") },
+                "sv-pizza": new Error("timeout"),
+            }),
+            { k: 5, label: "main", now: clock(100) }
+        );
+
+        expect(run).toMatchObject({ judgementVersion: 2, k: 5, label: "main" });
+        expect(run.queries[1]).toMatchObject({ error: "timeout", zeroResult: true, returned: { dishes: [], restaurants: [] } });
+        expect(run.summary.zeroResultRate).toBeCloseTo(2 / 3);
+        expect(run.summary.errorRate).toBeCloseTo(1 / 3);
+        expect(run.summary.avgLatencyMs).toBe(100);
+        expect(run.summary.dish).toMatchObject({ judgedQueries: 2, ndcg: 0.5, recall: 0.5 });
+        expect(run.summary.restaurant).toMatchObject({ judgedQueries: 1, precision: 1 });
+        expect(Object.keys(run.byLanguage)).toEqual(["en", "sv"]);
+        expect(run.byLanguage.sv).toMatchObject({ queries: 2, zeroResultRate: 1, restaurant: null });
+    });
+
+    it("filters by language", async () => {
+        const run = await runEvaluation(judgements, searchFrom({}), { languages: ["sv"] });
+        expect(run.queries.map(q => q.id)).toEqual(["sv-pizza", "sv-hungry"]);
+    });
+});
+
+describe("diffRuns", () => {
+    it("lists regressions, improvements and metric changes between runs", async () => {
+        const base = await runEvaluation(
+            judgements,
+            searchFrom({
+                "butter-naan": { dishes: hits("naan-1", "naan-2"), restaurants: hits("spice") },
+                "sv-hungry": { dishes: hits("kebab"), restaurants: hits("grill") },
+            }),
+            { label: "main", now: clock(100) }
+        );
+        const head = await runEvaluation(
+            judgements,
+            searchFrom({
+                "butter-naan": { dishes: hits("roti", "naan-1"), restaurants: hits("spice") },
+                "sv-pizza": { dishes: hits("margherita"), restaurants: hits("napoli") },
+            }),
+            { label: "branch", now: clock(150) }
+        );
+
+        const diff = diffRuns(base, head);
+
+        expect(diff.comparable).toBe(true);
+        expect(diff.regressions.map(q => q.id)).toEqual(["butter-naan", "sv-hungry"]);
+        expect(diff.regressions[0].topAfter).toEqual(["roti", "naan-1"]);
+        expect(diff.improvements.map(q => q.id)).toEqual(["sv-pizza"]);
+        expect(diff.summary.find(d => d.metric === "avg latency ms")).toMatchObject({ before: 100, after: 150, delta: 50 });
+
+        const report = formatRunDiff(diff);
+        expect(report).toContain("## Search eval: main -> branch");
+        expect(report).toContain("### Regressions (2)");
+        expect(report).toContain("| butter naan | en | 1.000 -> ");
+        expect(report).not.toContain("Judgements changed");
+        expect(formatRunSummary(head)).toContain("| Metric | all | en | sv |");
+    });
+
+    it("flags runs made with different judgement versions", async () => {
+        const base = await runEvaluation(judgements, searchFrom({}));
+        const head = await runEvaluation({ ...judgements, version: 3, queries: judgements.queries.slice(1) }, searchFrom({}));
+
+        const diff = diffRuns(base, head);
+
+        expect(diff.comparable).toBe(false);
+        expect(diff.removed).toEqual(["butter-naan"]);
+        expect(formatRunDiff(diff)).toContain("Judgements changed (v2 -> v3)");
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/discover/chat/route";
+import { DEFAULT_RATES } from "@/lib/discover/money";
+import { DEVICE_ID_COOKIE, getProfileStore } from "@/lib/discover/profile";
+import type { DiscoverChatRequest, DiscoverChatResponse } from "@/lib/types/discover";
+import { detectSort, isSortOnlyQuery, sortCards, stripSortPhrases } from "@/lib/discover/sort";
+import { makeCard, makeDish } from "./helpers";
+
+const rates = { ...DEFAULT_RATES, EUR: 11 };
+
+describe("detectSort", () => {
+    it.each([
+        { query: "cheapest biryani", sort: "price_asc" },
+        { query: "pizza sorted by price", sort: "price_asc" },
+        { query: "billigaste pizzan", sort: "price_asc" },
+        { query: "most expensive sushi", sort: "price_desc" },
+        { query: "dyraste vinet", sort: "price_desc" },
+        { query: "closest ramen", sort: "distance" },
+        { query: "närmaste kebab", sort: "distance" },
+        { query: "best match first", sort: "best_match" },
+    ])("$query", ({ query, sort }) => {
+        expect(detectSort(query)).toBe(sort);
+    });
+
+    it.each(["cheap eats", "pizza close to Centralstationen", "closest to Centralstationen", "biryani"])("ignores %s", query => {
+        expect(detectSort(query)).toBeNull();
+    });
+
+    it("strips the sort phrase from dish text", () => {
+        expect(stripSortPhrases("cheapest biryani")).toBe("biryani");
+        expect(stripSortPhrases("vegan pizza sorted by price")).toBe("vegan pizza");
+    });
+
+    it("tells a bare sort request from a new search", () => {
+        expect(isSortOnlyQuery("sort by price")).toBe(true);
+        expect(isSortOnlyQuery("show the cheapest first")).toBe(true);
+        expect(isSortOnlyQuery("cheapest biryani")).toBe(false);
+        expect(isSortOnlyQuery("show me pizza")).toBe(false);
+    });
+});
+
+describe("sortCards", () => {
+    const cards = [
+        makeCard("r1", [makeDish("a", "A", { price: 150 }), makeDish("b", "B", { price: 95 })], { highlight: "A" }),
+        // 8 EUR = 88 SEK: the cheapest dish overall
+        makeCard("r2", [makeDish("c", "C", { price: 8, price_money: { amount: 8, currency: "EUR" } })], { currency: "EUR" }),
+        makeCard("r3", [makeDish("d", "D", { price: 0 }), makeDish("e", "E", { price: 210 })]),
+    ];
+
+    it("puts the cheapest dishes and restaurants first, unpriced dishes last", () => {
+        const sorted = sortCards(cards, "price_asc", rates);
+        expect(sorted.map(c => c.id)).toEqual(["r2", "r1", "r3"]);
+        expect(sorted[1].matches?.map(m => m.id)).toEqual(["b", "a"]);
+        expect(sorted[1].highlight).toBe("B");
+        expect(sorted[2].matches?.map(m => m.id)).toEqual(["e", "d"]);
+    });
+
+    it("puts the most expensive first", () => {
+        const sorted = sortCards(cards, "price_desc", rates);
+        expect(sorted.map(c => c.id)).toEqual(["r3", "r1", "r2"]);
+        expect(sorted[1].matches?.map(m => m.id)).toEqual(["a", "b"]);
+    });
+
+    it("orders by distance, unknown distances last", () => {
+        const located = [
+            makeCard("far", [], { distance_km: 4.2 }),
+            makeCard("unknown", []),
+            makeCard("near", [], { distance_km: 0.8 }),
+        ];
+        expect(sortCards(located, "distance", rates).map(c => c.id)).toEqual(["near", "far", "unknown"]);
+    });
+
+    it("keeps the search ranking for best match", () => {
+        expect(sortCards(cards, "best_match", rates)).toBe(cards);
+    });
+});
+
+describe("chat route sort after a profile override", () => {
+    const deviceId = "c0000000-0000-4000-8000-000000000001";
+
+    async function chat(body: Partial<DiscoverChatRequest>): Promise<DiscoverChatResponse & { sessionId: string }> {
+        const quiet = ["log", "warn", "error"].map(level => vi.spyOn(console, level as "log").mockImplementation(() => {}));
+        const response = await POST(new NextRequest("http://localhost/api/discover/chat", {
+            method: "POST",
+            headers: { "content-type": "application/json", cookie: `${DEVICE_ID_COOKIE}=${deviceId}` },
+            body: JSON.stringify({ chatState: { mode: "discovery" }, ...body }),
+        }));
+        quiet.forEach(spy => spy.mockRestore());
+        return response.json();
+    }
+
+    it("keeps the filters the override turned off", async () => {
+        await getProfileStore().save({ kind: "device", id: deviceId }, { dietary: ["vegan"], allergy: ["milk"], city: null, budgetMaxSek: null });
+
+        const search = await chat({ messages: [{ role: "user", content: "paneer" }], profileOverride: { off: true } });
+        expect(search.chatState.last_search_params?.intent).toMatchObject({ dietary: [], allergy: [] });
+
+        for (const sortBody of [
+            { messages: [], ui_action: "SORT_RESULTS", sort: "price_asc" },
+            { messages: [{ role: "user", content: "sort by price" }] },
+        ] as Partial<DiscoverChatRequest>[]) {
+            const sorted = await chat({ ...sortBody, sessionId: search.sessionId });
+            expect(sorted.chatState.last_search_params?.intent).toMatchObject({ dietary: [], allergy: [], sort: "price_asc" });
+            expect((sorted.message.restaurants ?? []).flatMap(r => r.matches ?? []).map(d => d.name)).toContain("Paneer Tikka");
+        }
+    });
+});
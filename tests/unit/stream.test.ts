@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/discover/chat/route";
+import { createDiscoverStream, emitSummary, readDiscoverStream, type StreamEmit } from "@/lib/discover/stream";
+import type { DiscoverStreamEvent } from "@/lib/types/discover";
+
+async function collect(response: Response): Promise<DiscoverStreamEvent[]> {
+    const events: DiscoverStreamEvent[] = [];
+    await readDiscoverStream(response, event => events.push(event));
+    return events;
+}
+
+function quietConsole() {
+    const spies = ["log", "warn", "error"].map(level => vi.spyOn(console, level as "log").mockImplementation(() => {}));
+    return () => spies.forEach(spy => spy.mockRestore());
+}
+
+describe("createDiscoverStream", () => {
+    it("emits events in order with the final message last", async () => {
+        const response = createDiscoverStream(async (emit) => {
+            emit({ type: "plan", action: "SEARCH", confidence: 0.9 });
+            emit({ type: "restaurants", restaurants: [] });
+            const result = Response.json({ message: { role: "assistant", content: "Two places", followupChips: ["Cheaper"] } });
+            await emitSummary(result, emit);
+            return result;
+        });
+
+        expect(response.headers.get("content-type")).toContain("text/event-stream");
+        const events = await collect(response);
+        expect(events.map(e => e.type)).toEqual(["plan", "restaurants", "summary", "message"]);
+        expect(events[2]).toEqual({ type: "summary", content: "Two places", followupChips: ["Cheaper"] });
+        expect(events[3]).toMatchObject({ type: "message", status: 200, response: { message: { content: "Two places" } } });
+    });
+
+    it("ends with an error event when the pipeline throws mid-stream", async () => {
+        const restore = quietConsole();
+        const response = createDiscoverStream(async (emit) => {
+            emit({ type: "plan", action: "SEARCH", confidence: 0.9 });
+            throw new Error("search backend down");
+        });
+
+        const events = await collect(response);
+        restore();
+
+        expect(events).toEqual([
+            { type: "plan", action: "SEARCH", confidence: 0.9 },
+            { type: "error", error: "search backend down" },
+        ]);
+    });
+
+    it("keeps running quietly after the client disconnects", async () => {
+        const restore = quietConsole();
+        let emitLater: StreamEmit | undefined;
+        let finish: () => void = () => {};
+        const gate = new Promise<void>(resolve => (finish = resolve));
+        const done = vi.fn();
+
+        const response = createDiscoverStream(async (emit) => {
+            emit({ type: "plan", action: "SEARCH", confidence: 0.9 });
+            await gate;
+            emitLater = emit;
+            emit({ type: "restaurants", restaurants: [] });
+            done();
+            return Response.json({ message: { role: "assistant", content: "late" } });
+        });
+
+        const reader = response.body!.getReader();
+        const first = await reader.read();
+        expect(new TextDecoder().decode(first.value)).toContain("event: plan");
+        await reader.cancel();
+
+        finish();
+        await vi.waitFor(() => expect(done).toHaveBeenCalled());
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const errors = vi.mocked(console.error).mock.calls.length;
+        restore();
+
+        expect(() => emitLater?.({ type: "summary", content: "x", followupChips: [] })).not.toThrow();
+        expect(errors).toBe(0);
+    });
+});
+
+describe("emitSummary", () => {
+    it("skips error responses and patches", async () => {
+        const emit = vi.fn();
+        await emitSummary(Response.json({ error: "nope" }, { status: 400 }), emit);
+        await emitSummary(Response.json({ type: "patch", patch: {} }), emit);
+        expect(emit).not.toHaveBeenCalled();
+    });
+});
+
+describe("chat route event stream", () => {
+    it("sends the summary before the final message", async () => {
+        const restore = quietConsole();
+        const response = await POST(new NextRequest("http://localhost/api/discover/chat", {
+            method: "POST",
+            headers: { "content-type": "application/json", accept: "text/event-stream" },
+            body: JSON.stringify({ messages: [{ role: "user", content: "pizza" }], chatState: { mode: "discovery" } }),
+        }));
+        const events = await collect(response);
+        restore();
+
+        const types = events.map(e => e.type);
+        expect(types[0]).toBe("plan");
+        expect(types.at(-1)).toBe("message");
+        expect(types.filter(t => t === "summary")).toHaveLength(1);
+
+        const summary = events.find(e => e.type === "summary");
+        const message = events.at(-1);
+        if (summary?.type !== "summary" || message?.type !== "message") throw new Error("missing events");
+        const final = message.response as { message: { content: string; followupChips?: string[] } };
+        expect(summary.content).toBe(final.message.content);
+        expect(summary.followupChips).toEqual(final.message.followupChips ?? []);
+    });
+});
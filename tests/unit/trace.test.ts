@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+import { buildSpanTree, createMemoryTraceStore, createTrace, getTraceStore, clientRequestIdFrom, type TraceRecord } from "@/lib/discover/trace";
+import { finishChatTrace, startChatTrace } from "@/lib/discover/chat/trace";
+
+function clock() {
+    let time = 0;
+    return { now: () => time, advance: (ms: number) => (time += ms) };
+}
+
+describe("createTrace", () => {
+    it("records nested spans with offsets, durations and attributes", async () => {
+        const time = clock();
+        const trace = createTrace({ name: "discover.chat", requestId: "req-00001", now: time.now });
+
+        const intent = trace.start("intent", { historyLength: 0 });
+        time.advance(120);
+        intent.end({ language: "sv", city: undefined });
+
+        await trace.run("action:SEARCH", async (span) => {
+            const retrieval = span.start("retrieval");
+            time.advance(40);
+            retrieval.end({ cacheHit: false, step: "C" });
+        });
+
+        const record = trace.finish({ status: 200 });
+        expect(record.durationMs).toBe(160);
+        expect(record.spans.map(s => [s.name, s.parentId, s.startMs, s.durationMs])).toEqual([
+            ["discover.chat", null, 0, 160],
+            ["intent", "1", 0, 120],
+            ["action:SEARCH", "1", 120, 40],
+            ["retrieval", "3", 120, 40],
+        ]);
+        expect(record.spans[1].attributes).toEqual({ historyLength: 0, language: "sv" });
+        expect(record.spans[0].attributes).toEqual({ status: 200 });
+    });
+
+    it("records errors, rethrows them and marks spans left open", async () => {
+        const trace = createTrace({ name: "discover.chat", requestId: "req-00002" });
+        await expect(trace.run("planner", () => {
+            throw new Error("bad plan");
+        })).rejects.toThrow("bad plan");
+        trace.start("translate");
+
+        const record = trace.finish();
+        expect(record.spans[1]).toMatchObject({ name: "planner", error: "bad plan" });
+        expect(record.spans[2]).toMatchObject({ name: "translate", unfinished: true });
+        expect(trace.finish()).toBe(record);
+    });
+
+    it("stops recording past the span cap", () => {
+        const trace = createTrace({ name: "loop", requestId: "req-00003" });
+        for (let i = 0; i < 250; i++) trace.start(`step-${i}`).end();
+        const record = trace.finish();
+        expect(record.spans).toHaveLength(200);
+        expect(record.droppedSpans).toBe(51);
+    });
+});
+
+describe("trace tree and store", () => {
+    function record(requestId: string): TraceRecord {
+        const trace = createTrace({ name: "discover.chat", requestId });
+        trace.start("intent").end();
+        return trace.finish();
+    }
+
+    it("nests children under their parents", () => {
+        const [root] = buildSpanTree(record("req-tree"));
+        expect(root.span.name).toBe("discover.chat");
+        expect(root.children.map(c => c.span.name)).toEqual(["intent"]);
+    });
+
+    it("keeps the newest traces", () => {
+        const store = createMemoryTraceStore({ maxTraces: 2 });
+        ["a", "b", "c"].forEach(id => store.save(record(id)));
+        expect(store.get("a")).toBeNull();
+        expect(store.recent().map(t => t.requestId)).toEqual(["c", "b"]);
+    });
+
+    it("records well-formed incoming request ids only", () => {
+        expect(clientRequestIdFrom(new Headers({ "x-request-id": "edge-1234abcd" }))).toBe("edge-1234abcd");
+        expect(clientRequestIdFrom(new Headers({ "x-request-id": "<script>" }))).toBeNull();
+    });
+});
+
+describe("finishChatTrace", () => {
+    it("stamps the request id on the body and header and keeps the trace", async () => {
+        const request = new NextRequest("http://localhost/api/discover/chat", {
+            method: "POST",
+            headers: { "x-request-id": "req-stamped-1" },
+        });
+        const trace = startChatTrace(request);
+        const response = await finishChatTrace(trace, NextResponse.json({ message: { content: "hi" } }, { status: 201 }));
+        const requestId = response.headers.get("x-request-id");
+
+        // The client's id is only an attribute: it can never take over another request's trace
+        expect(response.status).toBe(201);
+        expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+        expect(await response.json()).toEqual({ message: { content: "hi" }, requestId });
+        expect(getTraceStore().get(requestId!)?.spans[0].attributes).toEqual({ clientRequestId: "req-stamped-1", status: 201 });
+        expect(getTraceStore().get("req-stamped-1")).toBeNull();
+    });
+});
@@ -0,0 +1,23 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL(".", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["tests/unit/**/*.test.ts"],
+    // Unit tests must never reach a live service
+    env: {
+      LLM_PROVIDER: "stub",
+      DISCOVER_SESSION_STORE: "memory",
+      DISCOVER_PROFILE_STORE: "memory",
+      DISCOVER_RATE_LIMIT_STORE: "memory",
+      DISCOVER_ANALYTICS_STORE: "memory",
+      CATALOG_STORE: "memory",
+    },
+  },
+});